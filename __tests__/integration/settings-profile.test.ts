@@ -74,6 +74,7 @@ async function getUser(client: SupabaseClient) {
  */
 type NotificationPreferences = {
   messages: boolean;
+  mentions: boolean;
   prayers: boolean;
   journals: boolean;
   system: boolean;
@@ -299,6 +300,7 @@ describe('Settings Profile Updates - Integration Tests', () => {
   describe('Notification Preferences Updates', () => {
     const defaultPreferences = {
       messages: true,
+      mentions: true,
       prayers: true,
       journals: true,
       system: true,
@@ -327,6 +329,7 @@ describe('Settings Profile Updates - Integration Tests', () => {
     it('should update all notification preferences', async () => {
       const newPreferences = {
         messages: false,
+        mentions: false,
         prayers: false,
         journals: false,
         system: false,
@@ -23,6 +23,14 @@ jest.mock('@/hooks/useTenantContext', () => ({
   })),
 }));
 
+// Mock Supabase client (pulled in through the contacts conversation hook)
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
 jest.mock('expo-router', () => ({
   useRouter: jest.fn(() => ({
     push: jest.fn(),
@@ -9,10 +9,15 @@
  * - Room type background colors
  * - Custom header with back arrow, name, search, and menu icons
  * - Bottom sheet for photos/videos/files/participants/settings
+ * - Per-conversation notification mute
+ * - Jump to a message via the `messageId` param (global search, mentions)
+ * - Polls with live tallies and a results sheet
+ * - Scheduled messages for leaders (long-press send; listed in the menu)
  */
 
 import { useCallback, useEffect, useState, useMemo, useRef } from 'react';
 import {
+  Alert,
   Animated,
   KeyboardAvoidingView,
   Platform,
@@ -37,14 +42,61 @@ import {
   updateMessage,
   removeMessage,
   useMediaUpload,
+  useConversationMute,
+  useMessageReactions,
+  applyReactionChange,
+  addMessageReaction,
+  removeMessageReaction,
+  useMessageEdits,
+  useMessageEditHistory,
+  getMessageEditWindowMinutes,
+  useReadReceipts,
+  useMarkConversationRead,
+  getMessageReadReceipt,
+  useOutboxMessages,
+  usePinnedMessages,
+  canPinMessages,
+  MAX_PINNED_MESSAGES,
+  usePolls,
+  applyPollVoteChange,
+  updatePollOption,
+  useScheduledMessages,
+  canScheduleMessages,
+  useConversationParticipants,
+  useTenantMembers,
+  useConversations,
+  useForwardMessage,
 } from '@/features/chat/hooks';
-import { MessageInput } from '@/features/chat/components';
+import type {
+  ConversationParticipantWithMember,
+  MuteDuration,
+  PollDraft,
+  PollOptionUpdate,
+  PollVoter,
+} from '@/features/chat/hooks';
+import {
+  ConversationParticipantsSheet,
+  ForwardMessageSheet,
+  MessageInput,
+  PinnedMessagesBanner,
+  PollResultsSheet,
+  ScheduleMessageSheet,
+  ScheduledMessagesSheet,
+} from '@/features/chat/components';
 import { ChatScreen } from '@/features/chat/screens';
+import { useChatStore } from '@/features/chat';
 import type { ChatScreenHandle } from '@/features/chat/screens';
 import type { MessageInputHandle } from '@/features/chat/components';
 import { getRoomBackgroundColor } from '@/features/chat/utils/getRoomBackgroundColor';
+import { GROUP_MENTION_ROLES } from '@/features/chat/utils/mentions';
 import { supabase } from '@/lib/supabase';
-import type { ConversationType, MessageWithSender } from '@/types/database';
+import type {
+  ConversationType,
+  MessageMention,
+  MessageReaction,
+  MessageWithSender,
+  ScheduledMessage,
+} from '@/types/database';
 import type { SendMessageOptions } from '@/features/chat/hooks/useSendMessage';
 import { useTranslation } from '@/i18n';
 import { SafeScreen } from '@/components/SafeScreen';
@@ -64,6 +116,7 @@ interface AttachmentActionSheetProps {
   onUploadVideo: () => Promise<void>;
   onUploadFile: () => Promise<void>;
   onOpenCamera: () => Promise<void>;
+  onCreatePoll?: () => void;
   conversationType?: 'direct' | 'small_group' | 'ministry' | 'church_wide';
 }
 
@@ -101,6 +154,7 @@ function AttachmentActionSheet({
   onUploadVideo,
   onUploadFile,
   onOpenCamera,
+  onCreatePoll,
   conversationType,
 }: AttachmentActionSheetProps) {
   const { t } = useTranslation();
@@ -186,6 +240,24 @@ function AttachmentActionSheet({
               </XStack>
             </Pressable>
 
+            {/* Poll */}
+            {onCreatePoll && (
+              <Pressable
+                style={styles.attachmentOption}
+                onPress={() => {
+                  onClose();
+                  onCreatePoll();
+                }}
+              >
+                <XStack alignItems="center" gap="$3" padding="$3">
+                  <Ionicons name="stats-chart-outline" size={24} color={colors.iconTint} />
+                  <Text fontSize="$md" color="$color">
+                    {t('chat.poll.create_title')}
+                  </Text>
+                </XStack>
+              </Pressable>
+            )}
+
             <YStack height={1} backgroundColor="$borderLight" marginHorizontal="$2" />
 
             <Pressable style={styles.attachmentOption} onPress={onClose}>
@@ -292,6 +364,10 @@ function ChatMenuSheet({ visible, onClose, menuItems }: ChatMenuSheetProps) {
 
 interface ChatHeaderProps {
   title: string;
+  /**
+   * Typing or online status shown under the title.
+   */
+  subtitle?: string | null;
   onBack: () => void;
   onSearch: () => void;
   onSearchClose: () => void;
@@ -307,6 +383,7 @@ interface ChatHeaderProps {
 
 function ChatHeader({
   title,
+  subtitle,
   onBack,
   onSearch,
   onSearchClose,
@@ -428,19 +505,23 @@ function ChatHeader({
             </Pressable>
           </XStack>
 
-          {/* Center: Title */}
-          <Text
-            position="absolute"
-            left={44}
-            right={88}
-            fontSize={17}
-            fontWeight="600"
-            color="#000"
-            numberOfLines={1}
-            textAlign="center"
-          >
-            {title}
-          </Text>
+          {/* Center: Title and presence */}
+          <YStack position="absolute" left={44} right={88} alignItems="center">
+            <Text fontSize={17} fontWeight="600" color="#000" numberOfLines={1} textAlign="center">
+              {title}
+            </Text>
+            {subtitle ? (
+              <Text
+                testID="chat-header-subtitle"
+                fontSize={11}
+                color="$color3"
+                numberOfLines={1}
+                textAlign="center"
+              >
+                {subtitle}
+              </Text>
+            ) : null}
+          </YStack>
 
           {/* Right: Search and Menu - fixed position from right edge */}
           <XStack
@@ -469,9 +550,9 @@ function ChatHeader({
 export default function ChatDetailScreen() {
   const { t } = useTranslation();
   const router = useRouter();
-  const params = useLocalSearchParams<{ id: string }>();
-  const { tenantId } = useRequireAuth();
-  const { membershipId } = useCurrentMembership();
+  const params = useLocalSearchParams<{ id: string; messageId?: string }>();
+  const { tenantId, user } = useRequireAuth();
+  const { membership, membershipId } = useCurrentMembership();
   const insets = useSafeAreaInsets();
 
   const conversationId = params.id;
@@ -483,7 +564,6 @@ export default function ChatDetailScreen() {
   // Menu sheet state
   const [showMenu, setShowMenu] = useState(false);
   const [mediaCounts, setMediaCounts] = useState({ photos: 0, videos: 0, files: 0 });
-  const [participantCount, setParticipantCount] = useState(0);
 
   // Attachment action sheet state
   const [showAttachmentSheet, setShowAttachmentSheet] = useState(false);
@@ -502,7 +582,8 @@ export default function ChatDetailScreen() {
   const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   // Fetch messages for this conversation
-  const { messages, loading, error, loadMore, hasMore } = useMessages(conversationId, tenantId);
+  const { messages, loading, error, loadMore, hasMore, loadNewer, hasNewer, jumpToMessage } =
+    useMessages(conversationId, tenantId);
 
   // Local state for real-time message updates
   const [realTimeMessages, setRealTimeMessages] = useState<MessageWithSender[]>([]);
@@ -515,10 +596,27 @@ export default function ChatDetailScreen() {
   }, [messages, loading]);
 
   // Use real-time messages for display
-  const displayMessages = useMemo(() => {
+  const loadedMessages = useMemo(() => {
     return realTimeMessages.length > 0 ? realTimeMessages : messages;
   }, [realTimeMessages, messages]);
 
+  // Messages still in the outbox follow until their real-time echo replaces them
+  const {
+    messages: displayMessages,
+    retryMessage,
+    discardMessage,
+  } = useOutboxMessages(conversationId ?? null, null, loadedMessages);
+
+  const handleRetryMessage = useCallback(
+    (message: MessageWithSender) => retryMessage(message.id),
+    [retryMessage]
+  );
+
+  const handleDiscardMessage = useCallback(
+    (message: MessageWithSender) => discardMessage(message.id),
+    [discardMessage]
+  );
+
   // Update search results when query or messages change
   useEffect(() => {
     if (!searchQuery.trim()) {
@@ -566,6 +664,41 @@ export default function ChatDetailScreen() {
     }
   }, [searchResultIds, currentSearchIndex]);
 
+  // Jump to a message opened from global search or a mention push. If it
+  // isn't loaded, a window of messages around it replaces the list.
+  const [pendingJumpMessageId, setPendingJumpMessageId] = useState<string | null>(
+    params.messageId ?? null
+  );
+  const requestedJumpRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setPendingJumpMessageId(params.messageId ?? null);
+  }, [params.messageId]);
+
+  useEffect(() => {
+    if (!pendingJumpMessageId || loading) {
+      return;
+    }
+
+    if (displayMessages.some((msg) => msg.id === pendingJumpMessageId)) {
+      const messageId = pendingJumpMessageId;
+      setPendingJumpMessageId(null);
+      setHighlightedMessageId(messageId);
+      setTimeout(() => {
+        chatScreenRef.current?.scrollToMessage?.(messageId);
+      }, 100);
+    } else if (requestedJumpRef.current !== pendingJumpMessageId) {
+      // Load the window once; the list re-renders with it when it arrives
+      const messageId = pendingJumpMessageId;
+      requestedJumpRef.current = messageId;
+      void jumpToMessage(messageId).then((found) => {
+        if (!found) {
+          setPendingJumpMessageId(null);
+        }
+      });
+    }
+  }, [pendingJumpMessageId, displayMessages, loading, jumpToMessage]);
+
   // Send message mutation
   const {
     sendMessage,
@@ -574,6 +707,423 @@ export default function ChatDetailScreen() {
     error: sendError,
   } = useSendMessage(conversationId, tenantId, membershipId);
 
+  // Emoji reactions
+  const { toggleReaction } = useMessageReactions(tenantId ?? null, membershipId ?? null);
+
+  const handleToggleReaction = useCallback(
+    (message: MessageWithSender, emoji: string) => {
+      void toggleReaction(message, emoji).then((change) => {
+        if (change) {
+          setRealTimeMessages((prev) => applyReactionChange(prev, change));
+        }
+      });
+    },
+    [toggleReaction]
+  );
+
+  // Polls
+  const { createPoll, toggleVote, fetchVoters } = usePolls(tenantId ?? null, membershipId ?? null);
+  const [pollResultsMessageId, setPollResultsMessageId] = useState<string | null>(null);
+  const [pollVoters, setPollVoters] = useState<PollVoter[]>([]);
+  const [pollVotersLoading, setPollVotersLoading] = useState(false);
+  // Looked up from the list so the sheet follows live tallies
+  const pollResultsMessage = useMemo(
+    () => displayMessages.find((msg) => msg.id === pollResultsMessageId) ?? null,
+    [displayMessages, pollResultsMessageId]
+  );
+
+  const handleSendPoll = useCallback(
+    async (draft: PollDraft) => {
+      if (!conversationId) {
+        return;
+      }
+      const messageId = await createPoll(conversationId, draft);
+      if (!messageId) {
+        Alert.alert(t('chat.poll.create_failed'));
+        throw new Error('Failed to create poll');
+      }
+      // Real-time subscription will add the poll message
+    },
+    [conversationId, createPoll, t]
+  );
+
+  const handlePollVote = useCallback(
+    (message: MessageWithSender, optionId: string) => {
+      void toggleVote(message, optionId).then((change) => {
+        if (change) {
+          setRealTimeMessages((prev) => applyPollVoteChange(prev, change));
+        } else {
+          Alert.alert(t('chat.poll.vote_failed'));
+        }
+      });
+    },
+    [toggleVote, t]
+  );
+
+  const handlePollResultsPress = useCallback(
+    (message: MessageWithSender) => {
+      if (!message.poll) {
+        return;
+      }
+      setPollResultsMessageId(message.id);
+      setPollVoters([]);
+      // Anonymous polls only show tallies
+      if (message.poll.is_anonymous) {
+        return;
+      }
+      setPollVotersLoading(true);
+      void fetchVoters(message.poll.id).then((voters) => {
+        setPollVoters(voters);
+        setPollVotersLoading(false);
+      });
+    },
+    [fetchVoters]
+  );
+
+  // Edit and delete own messages
+  const { editMessage, deleteMessage } = useMessageEdits(tenantId ?? null, membershipId ?? null);
+  const { fetchEditHistory } = useMessageEditHistory(tenantId ?? null);
+  const editWindowMinutes = getMessageEditWindowMinutes(membership?.tenant?.settings);
+  const isAdmin = membership?.role === 'admin';
+
+  const handleEdit = useCallback(
+    async (messageId: string, content: string) => {
+      const updated = await editMessage(messageId, content);
+      if (!updated) {
+        Alert.alert(t('chat.message.editFailed'));
+        throw new Error('Failed to edit message');
+      }
+      setRealTimeMessages((prev) => updateMessage(prev, updated));
+    },
+    [editMessage, t]
+  );
+
+  const handleDeleteMessage = useCallback(
+    (message: MessageWithSender) => {
+      void deleteMessage(message.id).then((updated) => {
+        if (!updated) {
+          Alert.alert(t('chat.message.deleteFailed'));
+          return;
+        }
+        setRealTimeMessages((prev) => updateMessage(prev, updated));
+      });
+    },
+    [deleteMessage, t]
+  );
+
+  // Pinned messages: leaders pin and unpin, everyone can jump to a pin
+  const { pinnedMessages, pinMessage, unpinMessage } = usePinnedMessages(
+    conversationId ?? null,
+    tenantId ?? null,
+    membershipId ?? null
+  );
+  const canPin = canPinMessages(membership?.role);
+  const pinnedMessageIds = useMemo(
+    () => pinnedMessages.map((pin) => pin.message_id),
+    [pinnedMessages]
+  );
+
+  const handlePinMessage = useCallback(
+    (message: MessageWithSender) => {
+      if (pinnedMessages.length >= MAX_PINNED_MESSAGES) {
+        Alert.alert(t('chat.pinned.limit_reached', { count: MAX_PINNED_MESSAGES }));
+        return;
+      }
+      void pinMessage(message.id).then((pinned) => {
+        if (!pinned) {
+          Alert.alert(t('chat.pinned.pin_failed'));
+        }
+      });
+    },
+    [pinnedMessages.length, pinMessage, t]
+  );
+
+  const handleUnpinMessageId = useCallback(
+    (messageId: string) => {
+      void unpinMessage(messageId).then((unpinned) => {
+        if (!unpinned) {
+          Alert.alert(t('chat.pinned.unpin_failed'));
+        }
+      });
+    },
+    [unpinMessage, t]
+  );
+
+  const handleUnpinMessage = useCallback(
+    (message: MessageWithSender) => handleUnpinMessageId(message.id),
+    [handleUnpinMessageId]
+  );
+
+  const handlePressPinnedMessage = useCallback((messageId: string) => {
+    requestedJumpRef.current = null;
+    setPendingJumpMessageId(messageId);
+  }, []);
+
+  // Scheduled messages: leaders write now and the scheduler posts later
+  const canSchedule = canScheduleMessages(membership?.role);
+  const {
+    scheduledMessages,
+    loading: scheduledMessagesLoading,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  } = useScheduledMessages(
+    conversationId ?? null,
+    tenantId ?? null,
+    canSchedule ? (membershipId ?? null) : null
+  );
+  const [showScheduledMessages, setShowScheduledMessages] = useState(false);
+  const [editingScheduledMessage, setEditingScheduledMessage] = useState<ScheduledMessage | null>(
+    null
+  );
+
+  const handleScheduleSend = useCallback(
+    async (content: string, scheduledFor: string) => {
+      const scheduled = await scheduleMessage(content, scheduledFor);
+      if (!scheduled) {
+        Alert.alert(t('chat.scheduled.schedule_failed'));
+        throw new Error('Failed to schedule message');
+      }
+    },
+    [scheduleMessage, t]
+  );
+
+  const handleEditScheduledMessage = useCallback((message: ScheduledMessage) => {
+    setShowScheduledMessages(false);
+    setEditingScheduledMessage(message);
+  }, []);
+
+  const handleSaveScheduledMessage = useCallback(
+    async (content: string, scheduledFor: string) => {
+      if (!editingScheduledMessage) {
+        return;
+      }
+      const updated = await updateScheduledMessage(
+        editingScheduledMessage.id,
+        content,
+        scheduledFor
+      );
+      if (!updated) {
+        Alert.alert(t('chat.scheduled.update_failed'));
+        throw new Error('Failed to update scheduled message');
+      }
+      setEditingScheduledMessage(null);
+      setShowScheduledMessages(true);
+    },
+    [editingScheduledMessage, updateScheduledMessage, t]
+  );
+
+  const handleCancelScheduledMessage = useCallback(
+    (message: ScheduledMessage) => {
+      Alert.alert(t('chat.scheduled.cancel_confirm_title'), message.content, [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('chat.scheduled.cancel_send'),
+          style: 'destructive',
+          onPress: () => {
+            void cancelScheduledMessage(message.id).then((cancelled) => {
+              if (!cancelled) {
+                Alert.alert(t('chat.scheduled.cancel_failed'));
+              }
+            });
+          },
+        },
+      ]);
+    },
+    [cancelScheduledMessage, t]
+  );
+
+  // Participants; admins of group conversations manage them
+  const {
+    participants: conversationParticipants,
+    isGroup,
+    isAdmin: isGroupAdmin,
+    loading: participantsLoading,
+    addParticipants,
+    removeParticipant,
+    setParticipantRole,
+    leaveConversation,
+    renameConversation,
+  } = useConversationParticipants(conversationId ?? null, tenantId ?? null, membershipId ?? null);
+  const { members: tenantMembers } = useTenantMembers(isGroupAdmin ? (tenantId ?? null) : null);
+  const [showParticipants, setShowParticipants] = useState(false);
+
+  const handleRenameConversation = useCallback(
+    async (name: string) => {
+      const renamed = await renameConversation(name);
+      if (!renamed) {
+        Alert.alert(t('chat.conversation.update_failed'));
+        return false;
+      }
+      setConversationName(name.trim() || null);
+      return true;
+    },
+    [renameConversation, t]
+  );
+
+  const handleAddParticipants = useCallback(
+    async (membershipIds: string[]) => {
+      const added = await addParticipants(membershipIds);
+      if (!added) {
+        Alert.alert(t('chat.conversation.update_failed'));
+      }
+      return added;
+    },
+    [addParticipants, t]
+  );
+
+  const handleManageParticipant = useCallback(
+    (participant: ConversationParticipantWithMember) => {
+      const name = participant.displayName || t('chat.conversation.unknown_member');
+      const reportFailure = (succeeded: boolean) => {
+        if (!succeeded) {
+          Alert.alert(t('chat.conversation.update_failed'));
+        }
+      };
+
+      Alert.alert(name, undefined, [
+        participant.role === 'admin'
+          ? {
+              text: t('chat.conversation.remove_admin'),
+              onPress: () => {
+                void setParticipantRole(participant.membershipId, 'member').then(reportFailure);
+              },
+            }
+          : {
+              text: t('chat.conversation.make_admin'),
+              onPress: () => {
+                void setParticipantRole(participant.membershipId, 'admin').then(reportFailure);
+              },
+            },
+        {
+          text: t('chat.conversation.remove'),
+          style: 'destructive',
+          onPress: () => {
+            Alert.alert(t('chat.conversation.remove_confirm_title', { name }), undefined, [
+              { text: t('common.cancel'), style: 'cancel' },
+              {
+                text: t('chat.conversation.remove'),
+                style: 'destructive',
+                onPress: () => {
+                  void removeParticipant(participant.membershipId).then(reportFailure);
+                },
+              },
+            ]);
+          },
+        },
+        { text: t('common.cancel'), style: 'cancel' },
+      ]);
+    },
+    [removeParticipant, setParticipantRole, t]
+  );
+
+  const handleLeaveConversation = useCallback(() => {
+    Alert.alert(
+      t('chat.conversation.leave_confirm_title'),
+      t('chat.conversation.leave_confirm_message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('chat.conversation.leave'),
+          style: 'destructive',
+          onPress: () => {
+            void leaveConversation().then((left) => {
+              if (!left) {
+                Alert.alert(t('chat.conversation.update_failed'));
+                return;
+              }
+              setShowParticipants(false);
+              router.back();
+            });
+          },
+        },
+      ]
+    );
+  }, [leaveConversation, router, t]);
+
+  // Forwarding: the member's conversations load only while the picker is open
+  const [forwardingMessage, setForwardingMessage] = useState<MessageWithSender | null>(null);
+  const { forwardMessage, forwarding } = useForwardMessage();
+  const {
+    conversations: forwardConversations,
+    archivedConversations: forwardArchivedConversations,
+    loading: forwardConversationsLoading,
+  } = useConversations(forwardingMessage ? (tenantId ?? null) : null, membershipId ?? null);
+  const forwardTargets = useMemo(
+    () => [...forwardConversations, ...forwardArchivedConversations],
+    [forwardConversations, forwardArchivedConversations]
+  );
+
+  const handleForward = useCallback(
+    async (targetConversationIds: string[]) => {
+      if (!forwardingMessage) {
+        return false;
+      }
+      const forwardedIds = await forwardMessage(forwardingMessage.id, targetConversationIds);
+      if (!forwardedIds) {
+        Alert.alert(t('chat.forward.failed'));
+        return false;
+      }
+      return true;
+    },
+    [forwardingMessage, forwardMessage, t]
+  );
+
+  const handleViewEditHistory = useCallback(
+    (message: MessageWithSender) => {
+      void fetchEditHistory(message.id).then((edits) => {
+        const body = edits.length
+          ? edits
+              .map(
+                (edit) =>
+                  `${new Date(edit.created_at).toLocaleString()}\n${edit.previous_content ?? ''}`
+              )
+              .join('\n\n')
+          : t('chat.message.editHistoryEmpty');
+        Alert.alert(t('chat.message.editHistory'), body);
+      });
+    },
+    [fetchEditHistory, t]
+  );
+
+  // Don't carry an unfinished edit into another conversation
+  useEffect(() => {
+    return () => {
+      useChatStore.getState().clearEditingMessage();
+    };
+  }, [conversationId]);
+
+  // Per-conversation notification mute
+  const { isMuted, muteConversation, unmuteConversation } = useConversationMute(
+    conversationId ?? null,
+    membershipId ?? null
+  );
+
+  const handleMute = useCallback(
+    (duration: MuteDuration) => {
+      muteConversation(duration).catch((err) => {
+        console.error('Failed to mute conversation:', err);
+      });
+    },
+    [muteConversation]
+  );
+
+  const handleToggleMute = useCallback(() => {
+    if (isMuted) {
+      unmuteConversation().catch((err) => {
+        console.error('Failed to unmute conversation:', err);
+      });
+      return;
+    }
+
+    Alert.alert(t('chat.mute.title'), undefined, [
+      { text: t('chat.mute.one_hour'), onPress: () => handleMute('1h') },
+      { text: t('chat.mute.eight_hours'), onPress: () => handleMute('8h') },
+      { text: t('chat.mute.until_unmuted'), onPress: () => handleMute('forever') },
+      { text: t('common.cancel'), style: 'cancel' },
+    ]);
+  }, [isMuted, unmuteConversation, handleMute, t]);
+
   // Media upload hook
   const {
     pickAndUploadPhoto,
@@ -621,22 +1171,6 @@ export default function ChatDetailScreen() {
     void fetchConversationDetails();
   }, [conversationId, tenantId]);
 
-  // Fetch participant count
-  useEffect(() => {
-    if (!conversationId) return;
-
-    const fetchParticipantCount = async () => {
-      const { count } = await supabase
-        .from('conversation_participants')
-        .select('*', { count: 'exact', head: true })
-        .eq('conversation_id', conversationId);
-
-      setParticipantCount(count ?? 0);
-    };
-
-    void fetchParticipantCount();
-  }, [conversationId]);
-
   // Calculate media counts from messages
   useEffect(() => {
     if (!displayMessages.length) return;
@@ -666,57 +1200,97 @@ export default function ChatDetailScreen() {
     );
   }, []);
 
+  // Presence on the conversation channel: who's online and who's typing
+  const displayName = (user?.user_metadata?.display_name as string | undefined) ?? null;
+  const currentPresenceMember = useMemo(
+    () => (membershipId ? { membershipId, displayName } : null),
+    [membershipId, displayName]
+  );
+
   // Subscribe to real-time message updates
-  useMessageSubscription(conversationId, tenantId, {
-    onInsert: useCallback(
-      (message: MessageWithSender) => {
-        // If this is a thread reply, increment the parent's reply count
-        if (message.parent_id) {
-          incrementParentReplyCount(message.parent_id);
-          // Don't add thread replies to the main message list
-          return;
-        }
-        // Add top-level message to the list
-        setRealTimeMessages((prev) => appendMessage(prev, message));
-      },
-      [incrementParentReplyCount]
-    ),
-    onUpdate: useCallback((message: MessageWithSender) => {
-      setRealTimeMessages((prev) => updateMessage(prev, message));
-    }, []),
-    onDelete: useCallback(
-      (messageId: string, oldMessage?: Partial<MessageWithSender>) => {
-        // If deleted message had a parent_id (thread reply), decrement parent's reply count
-        // Note: oldMessage may not be available in all cases
-        if (oldMessage?.parent_id) {
-          decrementParentReplyCount(oldMessage.parent_id);
-          return;
-        }
-        // Remove top-level message from the list
-        setRealTimeMessages((prev) => removeMessage(prev, messageId));
-      },
-      [decrementParentReplyCount]
-    ),
-    onError: useCallback((err: Error) => {
-      console.error('Message subscription error:', err);
-    }, []),
-  });
+  const { onlineMembers, typingMembers, sendTyping } = useMessageSubscription(
+    conversationId,
+    tenantId,
+    {
+      onInsert: useCallback(
+        (message: MessageWithSender) => {
+          // If this is a thread reply, increment the parent's reply count
+          if (message.parent_id) {
+            incrementParentReplyCount(message.parent_id);
+            // Don't add thread replies to the main message list
+            return;
+          }
+          // A jump window that stops short of the latest message picks this up
+          // with loadNewer instead
+          if (hasNewer) {
+            return;
+          }
+          // Add top-level message to the list
+          setRealTimeMessages((prev) => appendMessage(prev, message));
+        },
+        [incrementParentReplyCount, hasNewer]
+      ),
+      onUpdate: useCallback((message: MessageWithSender) => {
+        setRealTimeMessages((prev) => updateMessage(prev, message));
+      }, []),
+      onDelete: useCallback(
+        (messageId: string, oldMessage?: Partial<MessageWithSender>) => {
+          // If deleted message had a parent_id (thread reply), decrement parent's reply count
+          // Note: oldMessage may not be available in all cases
+          if (oldMessage?.parent_id) {
+            decrementParentReplyCount(oldMessage.parent_id);
+            return;
+          }
+          // Remove top-level message from the list
+          setRealTimeMessages((prev) => removeMessage(prev, messageId));
+        },
+        [decrementParentReplyCount]
+      ),
+      onReactionAdd: useCallback((messageId: string, reaction: MessageReaction) => {
+        setRealTimeMessages((prev) => addMessageReaction(prev, messageId, reaction));
+      }, []),
+      onReactionRemove: useCallback((reactionId: string) => {
+        setRealTimeMessages((prev) => removeMessageReaction(prev, reactionId));
+      }, []),
+      onPollOptionUpdate: useCallback((update: PollOptionUpdate) => {
+        setRealTimeMessages((prev) => updatePollOption(prev, update));
+      }, []),
+      onError: useCallback((err: Error) => {
+        console.error('Message subscription error:', err);
+      }, []),
+    },
+    currentPresenceMember
+  );
 
-  // Update last_read_at when viewing conversation
-  useEffect(() => {
-    if (!conversationId || !membershipId) return;
-
-    const updateLastRead = async () => {
-      await supabase
-        .from('conversation_participants')
-        .update({ last_read_at: new Date().toISOString() })
-        .eq('conversation_id', conversationId)
-        .eq('membership_id', membershipId);
-    };
+  // Read receipts: advance last_read_at as messages scroll into view
+  const { participants } = useReadReceipts(conversationId ?? null);
+  const { markRead } = useMarkConversationRead(conversationId ?? null, membershipId ?? null);
 
-    // Update on mount and when messages change
-    void updateLastRead();
-  }, [conversationId, membershipId, displayMessages.length]);
+  const getReadReceipt = useCallback(
+    (message: MessageWithSender) => getMessageReadReceipt(message, participants),
+    [participants]
+  );
+
+  // @mention autocomplete offers the other participants; @all / @leaders need a leader role
+  const mentionCandidates = useMemo<MessageMention[]>(
+    () =>
+      participants
+        .filter((participant) => participant.membershipId !== membershipId)
+        .map((participant) => ({
+          membership_id: participant.membershipId,
+          mention_type: 'member',
+          display_name: participant.displayName,
+        })),
+    [participants, membershipId]
+  );
+  const canMentionGroups = GROUP_MENTION_ROLES.includes(membership?.role ?? '');
+
+  const handleMessageViewed = useCallback(
+    (message: MessageWithSender) => {
+      void markRead(message.created_at);
+    },
+    [markRead]
+  );
 
   const handleSend = useCallback(
     async (
@@ -726,12 +1300,14 @@ export default function ChatDetailScreen() {
         senderName: string;
         senderAvatar?: string | null;
         content: string;
-      } | null
+      } | null,
+      mentions?: MessageMention[]
     ) => {
-      if (quoteAttachment) {
+      if (quoteAttachment || mentions?.length) {
         await sendMessageWithOptions({
           content,
           quoteAttachment,
+          mentions,
         });
       } else {
         await sendMessage(content);
@@ -752,6 +1328,23 @@ export default function ChatDetailScreen() {
     router.back();
   }, [router]);
 
+  // Handle keyboard height change - trigger scroll to minimize native tabs
+  // Only applies in tabs context where native tabs exist
+  const handleKeyboardHeightChange = useCallback(
+    (height: number) => {
+      if (height > 0) {
+        // Keyboard appeared - dismiss attachment sheet if open
+        // This prevents the attachment sheet from overlapping with the keyboard
+        if (showAttachmentSheet) {
+          setShowAttachmentSheet(false);
+        }
+        // Scroll to trigger tab minimization
+        chatScreenRef.current?.scrollToTop();
+      }
+    },
+    [showAttachmentSheet]
+  );
+
   const handleSearch = useCallback(() => {
     setSearchExpanded(true);
     setSearchQuery('');
@@ -781,23 +1374,6 @@ export default function ChatDetailScreen() {
     });
   }, [searchResultIds.length]);
 
-  // Handle keyboard height change - trigger scroll to minimize native tabs
-  // Only applies in tabs context where native tabs exist
-  const handleKeyboardHeightChange = useCallback(
-    (height: number) => {
-      if (height > 0) {
-        // Keyboard appeared - dismiss attachment sheet if open
-        // This prevents the attachment sheet from overlapping with the keyboard
-        if (showAttachmentSheet) {
-          setShowAttachmentSheet(false);
-        }
-        // Scroll to trigger tab minimization
-        chatScreenRef.current?.scrollToTop();
-      }
-    },
-    [showAttachmentSheet]
-  );
-
   const getHeaderTitle = useCallback(() => {
     if (conversationName) {
       return conversationName;
@@ -809,10 +1385,42 @@ export default function ChatDetailScreen() {
         return t('chat.ministry');
       case 'church_wide':
         return t('chat.church_wide');
-      default:
-        return t('chat.chat');
     }
-  }, [conversationName, conversationType, t]);
+    // Unnamed direct and group chats are titled by who else is in them
+    const otherNames = conversationParticipants
+      .filter((p) => p.membershipId !== membershipId && p.displayName)
+      .map((p) => p.displayName);
+    return otherNames.length > 0 ? otherNames.join(', ') : t('chat.chat');
+  }, [conversationName, conversationType, conversationParticipants, membershipId, t]);
+
+  // Typing takes priority over who's online
+  const getHeaderSubtitle = useCallback(() => {
+    const getName = (member: { displayName: string | null }) =>
+      member.displayName || t('chat.presence.unknown_member');
+    const [firstTyping, secondTyping] = typingMembers;
+
+    if (firstTyping && typingMembers.length > 2) {
+      return t('chat.presence.typing_many', { count: typingMembers.length });
+    }
+    if (firstTyping && secondTyping) {
+      return t('chat.presence.typing_two', {
+        name: getName(firstTyping),
+        other: getName(secondTyping),
+      });
+    }
+    if (firstTyping) {
+      return t('chat.presence.typing', { name: getName(firstTyping) });
+    }
+    if (onlineMembers.length === 0) {
+      return null;
+    }
+    if (conversationType === 'direct') {
+      return t('chat.presence.online');
+    }
+    return t('chat.presence.online_members', {
+      names: onlineMembers.map(getName).join(', '),
+    });
+  }, [typingMembers, onlineMembers, conversationType, t]);
 
   // Menu items for the bottom sheet
   const menuItems: MenuItem[] = [
@@ -846,11 +1454,23 @@ export default function ChatDetailScreen() {
     {
       icon: 'people-outline',
       label: t('chat.menu.participants'),
-      count: participantCount,
-      onPress: () => {
-        console.log('Navigate to participants');
-        // TODO: Navigate to participants view
-      },
+      count: conversationParticipants.length,
+      onPress: () => setShowParticipants(true),
+    },
+    ...(canSchedule
+      ? [
+          {
+            icon: 'time-outline' as const,
+            label: t('chat.menu.scheduled_messages'),
+            count: scheduledMessages.length,
+            onPress: () => setShowScheduledMessages(true),
+          },
+        ]
+      : []),
+    {
+      icon: isMuted ? 'notifications-outline' : 'notifications-off-outline',
+      label: isMuted ? t('chat.menu.unmute_notifications') : t('chat.menu.mute_notifications'),
+      onPress: handleToggleMute,
     },
     {
       icon: 'settings-outline',
@@ -877,6 +1497,7 @@ export default function ChatDetailScreen() {
           {/* Custom Header */}
           <ChatHeader
             title={getHeaderTitle()}
+            subtitle={getHeaderSubtitle()}
             onBack={handleBack}
             onSearch={handleSearch}
             onSearchClose={handleSearchClose}
@@ -890,6 +1511,13 @@ export default function ChatDetailScreen() {
             onNextResult={searchResultIds.length > 0 ? handleNextResult : undefined}
           />
 
+          {/* Pinned messages */}
+          <PinnedMessagesBanner
+            pinnedMessages={pinnedMessages}
+            onPressMessage={handlePressPinnedMessage}
+            onUnpin={canPin ? handleUnpinMessageId : undefined}
+          />
+
           {/* Content */}
           <TamaguiStack flex={1}>
             <KeyboardAvoidingView
@@ -909,10 +1537,26 @@ export default function ChatDetailScreen() {
                   loading={loading}
                   loadingMore={!loading && sendingMessage}
                   hasMore={hasMore}
+                  hasNewer={hasNewer}
                   error={error}
                   conversationType={conversationType}
                   currentUserId={membershipId || ''}
                   onLoadMore={() => void loadMore()}
+                  onLoadNewer={() => void loadNewer()}
+                  onToggleReaction={handleToggleReaction}
+                  onPollVote={handlePollVote}
+                  onPollResultsPress={handlePollResultsPress}
+                  editWindowMinutes={editWindowMinutes}
+                  onDeleteMessage={handleDeleteMessage}
+                  onViewEditHistory={isAdmin ? handleViewEditHistory : undefined}
+                  pinnedMessageIds={pinnedMessageIds}
+                  onPinMessage={canPin ? handlePinMessage : undefined}
+                  onUnpinMessage={canPin ? handleUnpinMessage : undefined}
+                  onForwardMessage={setForwardingMessage}
+                  getReadReceipt={getReadReceipt}
+                  onMessageViewed={handleMessageViewed}
+                  onRetryMessage={handleRetryMessage}
+                  onDiscardMessage={handleDiscardMessage}
                   showThreadIndicators={true}
                   testID="chat-screen"
                 />
@@ -922,14 +1566,20 @@ export default function ChatDetailScreen() {
                   ref={messageInputRef}
                   onSend={handleSend}
                   onSendEventChat={handleSendEventChat}
+                  onEdit={handleEdit}
+                  onTyping={sendTyping}
                   sending={sendingMessage}
                   error={sendError}
                   conversationId={conversationId ?? undefined}
                   tenantId={tenantId ?? undefined}
                   currentMembershipId={membershipId ?? undefined}
                   onPlusPress={() => setShowAttachmentSheet(true)}
-                  onKeyboardHeightChange={handleKeyboardHeightChange}
                   conversationType={conversationType}
+                  mentionCandidates={mentionCandidates}
+                  canMentionGroups={canMentionGroups}
+                  onSendPoll={handleSendPoll}
+                  onScheduleSend={canSchedule ? handleScheduleSend : undefined}
+                  onKeyboardHeightChange={handleKeyboardHeightChange}
                 />
               </TamaguiStack>
             </KeyboardAvoidingView>
@@ -964,8 +1614,70 @@ export default function ChatDetailScreen() {
           await openCamera();
           // Real-time subscription will automatically add the message
         }}
+        onCreatePoll={() => messageInputRef.current?.openPollComposer()}
         conversationType={conversationType}
       />
+
+      {/* Poll results */}
+      <PollResultsSheet
+        visible={!!pollResultsMessage}
+        question={pollResultsMessage?.content ?? null}
+        poll={pollResultsMessage?.poll ?? null}
+        voters={pollVoters}
+        loading={pollVotersLoading}
+        onClose={() => setPollResultsMessageId(null)}
+      />
+
+      {/* Participants */}
+      <ConversationParticipantsSheet
+        visible={showParticipants}
+        participants={conversationParticipants}
+        currentMembershipId={membershipId ?? null}
+        conversationName={conversationName}
+        isGroup={isGroup}
+        isAdmin={isGroupAdmin}
+        loading={participantsLoading}
+        members={tenantMembers}
+        onRename={handleRenameConversation}
+        onAddParticipants={handleAddParticipants}
+        onManageParticipant={handleManageParticipant}
+        onLeave={handleLeaveConversation}
+        onClose={() => setShowParticipants(false)}
+      />
+
+      {/* Forward */}
+      <ForwardMessageSheet
+        visible={!!forwardingMessage}
+        conversations={forwardTargets}
+        loading={forwardConversationsLoading}
+        forwarding={forwarding}
+        onForward={handleForward}
+        onClose={() => setForwardingMessage(null)}
+      />
+
+      {/* Scheduled messages */}
+      {canSchedule && (
+        <>
+          <ScheduledMessagesSheet
+            visible={showScheduledMessages}
+            scheduledMessages={scheduledMessages}
+            loading={scheduledMessagesLoading}
+            onEdit={handleEditScheduledMessage}
+            onCancelMessage={handleCancelScheduledMessage}
+            onClose={() => setShowScheduledMessages(false)}
+          />
+          <ScheduleMessageSheet
+            visible={!!editingScheduledMessage}
+            initialContent={editingScheduledMessage?.content ?? ''}
+            initialScheduledFor={editingScheduledMessage?.scheduled_for}
+            onSubmit={handleSaveScheduledMessage}
+            onCancel={() => {
+              setEditingScheduledMessage(null);
+              setShowScheduledMessages(true);
+            }}
+          />
+        </>
+      )}
     </>
   );
 }
@@ -0,0 +1,85 @@
+/**
+ * Routing tests for the chat tab.
+ *
+ * The router is built from the real app directory with every file swapped for
+ * a stub that renders its route, so these follow expo-router's own matching.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Text } from 'react-native';
+import { Slot, router, useLocalSearchParams } from 'expo-router';
+import { act, renderRouter, screen } from 'expo-router/testing-library';
+
+const APP_DIR = path.resolve(__dirname, '../../..');
+
+/**
+ * Route files under the app directory, relative and without extension.
+ */
+function listRouteFiles(dir: string, prefix = ''): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isDirectory()) {
+      return entry.name === '__tests__'
+        ? []
+        : listRouteFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`);
+    }
+    return /\.tsx?$/.test(entry.name) ? [`${prefix}${entry.name.replace(/\.tsx?$/, '')}`] : [];
+  });
+}
+
+function stubRoute(route: string) {
+  if (route.endsWith('_layout')) {
+    return { default: () => <Slot /> };
+  }
+
+  return {
+    default: function RouteStub() {
+      const { messageId } = useLocalSearchParams<{ messageId?: string }>();
+      return (
+        <>
+          <Text testID="route">{route}</Text>
+          <Text testID="message-id">{messageId ?? ''}</Text>
+        </>
+      );
+    },
+  };
+}
+
+const routeFiles = listRouteFiles(APP_DIR);
+
+describe('chat routes', () => {
+  it('should have a single chat detail screen', () => {
+    // Groups don't change the URL, so any other chat/[id] would compete for it
+    const chatDetailRoutes = routeFiles.filter(
+      (route) => route.replace(/\([^)]+\)\//g, '') === 'chat/[id]'
+    );
+
+    expect(chatDetailRoutes).toEqual(['(tabs)/chat/[id]']);
+  });
+
+  it('should open the chat detail screen from the chat tab', () => {
+    renderRouter(Object.fromEntries(routeFiles.map((route) => [route, stubRoute(route)])), {
+      initialUrl: '/chat',
+    });
+
+    expect(screen.getByTestId('route')).toHaveTextContent('(tabs)/chat/index');
+
+    act(() => router.push('/chat/conversation-1'));
+
+    expect(screen).toHavePathname('/chat/conversation-1');
+    expect(screen.getByTestId('route')).toHaveTextContent('(tabs)/chat/[id]');
+  });
+
+  it('should pass the search hit to the chat detail screen', () => {
+    renderRouter(Object.fromEntries(routeFiles.map((route) => [route, stubRoute(route)])), {
+      initialUrl: '/search',
+    });
+
+    expect(screen.getByTestId('route')).toHaveTextContent('(tabs)/search');
+
+    act(() => router.push('/chat/conversation-1?messageId=message-1'));
+
+    expect(screen.getByTestId('route')).toHaveTextContent('(tabs)/chat/[id]');
+    expect(screen.getByTestId('message-id')).toHaveTextContent('message-1');
+  });
+});
@@ -2,12 +2,13 @@
  * Chat screen.
  *
  * Displays the list of conversations for the current user.
- * Supports real-time updates for new messages.
+ * Supports real-time updates for new messages, and pinning or archiving a
+ * conversation with a long press.
  */
 
 import { useCallback, useState } from 'react';
 import { useRouter } from 'expo-router';
-import { Pressable, StyleSheet, Modal } from 'react-native';
+import { Alert, Pressable, StyleSheet, Modal } from 'react-native';
 import { Spinner, YStack, Stack, XStack, Text as TamaguiText } from 'tamagui';
 import { Container } from '@/components/ui';
 import { SafeScreen } from '@/components/SafeScreen';
@@ -15,6 +16,7 @@ import { useRequireAuth } from '@/hooks/useAuthGuard';
 import { useConversations, useConversationListSubscription } from '@/features/chat/hooks';
 import { ConversationList } from '@/features/chat/components';
 import { useTranslation } from '@/i18n';
+import type { ConversationWithLastMessage } from '@/types/database';
 import Ionicons from '@expo/vector-icons/Ionicons';
 
 /**
@@ -118,7 +120,15 @@ export default function ChatScreen() {
   const router = useRouter();
   const { t } = useTranslation();
 
-  const { conversations, loading, error, refetch } = useConversations(tenantId, membershipId);
+  const {
+    conversations,
+    archivedConversations,
+    loading,
+    error,
+    setPinned,
+    setArchived,
+    refetch,
+  } = useConversations(tenantId, membershipId);
 
   const [refreshing, setRefreshing] = useState(false);
   const [showNewChatMenu, setShowNewChatMenu] = useState(false);
@@ -142,6 +152,39 @@ export default function ChatScreen() {
     [router]
   );
 
+  const handleConversationLongPress = useCallback(
+    (conversation: ConversationWithLastMessage) => {
+      const reportFailure = (succeeded: boolean) => {
+        if (!succeeded) {
+          Alert.alert(t('chat.list.update_failed'));
+        }
+      };
+
+      Alert.alert(
+        conversation.name ||
+          conversation.participant_names?.join(', ') ||
+          t('chat.unknown_conversation'),
+        undefined,
+        [
+          {
+            text: conversation.pinned_at ? t('chat.list.unpin') : t('chat.list.pin'),
+            onPress: () => {
+              void setPinned(conversation.id, !conversation.pinned_at).then(reportFailure);
+            },
+          },
+          {
+            text: conversation.archived_at ? t('chat.list.unarchive') : t('chat.list.archive'),
+            onPress: () => {
+              void setArchived(conversation.id, !conversation.archived_at).then(reportFailure);
+            },
+          },
+          { text: t('common.cancel'), style: 'cancel' },
+        ]
+      );
+    },
+    [setArchived, setPinned, t]
+  );
+
   const handleRefresh = useCallback(() => {
     setRefreshing(true);
     void refetch().finally(() => {
@@ -168,10 +211,12 @@ export default function ChatScreen() {
       <Container testID="chat-screen" flex={1}>
         <ConversationList
           conversations={conversations}
+          archivedConversations={archivedConversations}
           loading={loading}
           refreshing={refreshing}
           error={error}
           onConversationPress={handleConversationPress}
+          onConversationLongPress={handleConversationLongPress}
           onRefresh={handleRefresh}
           onNewChat={handleNewChat}
           hideNewChatButton
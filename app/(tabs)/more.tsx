@@ -2,7 +2,7 @@
  * More Tab Screen (KakaoTalk-style "더보기")
  *
  * Clean launcher grid with:
- * - Simple header bar (title left, search+settings right)
+ * - Simple header bar (title left, search+notifications+settings right)
  * - Profile row with avatar, name, email
  * - 4-column icon grid with transparent backgrounds
  * - Line icons only, no filled circles
@@ -21,6 +21,7 @@ import { useTranslation } from '@/i18n';
 import { useAuth } from '@/hooks/useAuth';
 import { useCurrentMembership } from '@/hooks/useCurrentMembership';
 import { SafeScreen } from '@/components/SafeScreen';
+import { useUnreadNotificationCount } from '@/features/notifications';
 import type { Role } from '@/types/database';
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -168,10 +169,11 @@ function ProfileRow({ displayName, email, avatarUrl, role, onPress }: ProfileRow
 
 export default function MoreScreen() {
   const { t } = useTranslation();
-  useRequireAuth();
+  const { tenantId } = useRequireAuth();
   const router = useRouter();
   const { user } = useAuth();
   const { membership } = useCurrentMembership();
+  const { unreadCount } = useUnreadNotificationCount(tenantId);
 
   // Get user data for profile row
   const displayName = user?.user_metadata?.display_name || user?.user_metadata?.full_name || null;
@@ -280,6 +282,10 @@ export default function MoreScreen() {
     console.log('Search pressed');
   }, []);
 
+  const handleNotificationsPress = useCallback(() => {
+    router.push('/screens/notifications');
+  }, [router]);
+
   const handleSettingsPress = useCallback(() => {
     router.push('/screens/settings' as any);
   }, [router]);
@@ -361,7 +367,7 @@ export default function MoreScreen() {
           {t('more.title')}
         </TamaguiText>
 
-        {/* Right: Search + Settings icons - part of header row */}
+        {/* Right: Search + Notifications + Settings icons - part of header row */}
         <XStack gap={16} alignItems="center" paddingRight={16}>
           {/* Search Icon */}
           <Pressable
@@ -374,6 +380,24 @@ export default function MoreScreen() {
             <Ionicons name="search-outline" size={24} color="#333333" />
           </Pressable>
 
+          {/* Notifications Icon with unread badge */}
+          <Pressable
+            testID="more-notifications-button"
+            onPress={handleNotificationsPress}
+            style={({ pressed }) => [styles.headerButton, pressed && styles.headerButtonPressed]}
+            accessibilityLabel={t('notifications.title')}
+            accessibilityRole="button"
+          >
+            <Ionicons name="notifications-outline" size={24} color="#333333" />
+            {unreadCount > 0 && (
+              <View style={styles.unreadBadge} testID="more-notifications-badge">
+                <TamaguiText fontSize={10} fontWeight="600" color="#FFFFFF">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </TamaguiText>
+              </View>
+            )}
+          </Pressable>
+
           {/* Settings Icon */}
           <Pressable
             testID="more-settings-button"
@@ -445,6 +469,19 @@ const styles = StyleSheet.create({
     opacity: 0.5,
   },
 
+  unreadBadge: {
+    position: 'absolute',
+    top: 4,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    paddingHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: '#EF4444',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
   headerSeparator: {
     height: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.08)',
@@ -17,6 +17,8 @@ import Ionicons from '@expo/vector-icons/Ionicons';
 import { useTranslation } from '@/i18n';
 import { SafeScreen } from '@/components/SafeScreen';
 import { usePrayerCardStore } from '@/stores/prayerCardStore';
+import { usePrayerCardFeed } from '@/features/prayer/hooks/usePrayerCardFeed';
+import { useRecipientPickerItems } from '@/features/prayer/hooks/useRecipientPickerItems';
 import type { PrayerCardWithDetails } from '@/types/prayer';
 
 // ============================================================================
@@ -165,6 +167,10 @@ export default function PrayerScreen() {
   const router = useRouter();
   const { t } = useTranslation();
 
+  // Load prayer cards from Supabase into the store (with realtime sync)
+  const { tenantId, loading, hasMore, loadMore, refetch } = usePrayerCardFeed();
+  const { items: recipientPickerItems } = useRecipientPickerItems(tenantId);
+
   // Store state
   const filteredPrayerCards = usePrayerCardStore((state) => state.filteredPrayerCards);
   const viewScope = usePrayerCardStore((state) => state.viewScope);
@@ -172,14 +178,13 @@ export default function PrayerScreen() {
   const setViewScope = usePrayerCardStore((state) => state.setViewScope);
   const setEntityFilter = usePrayerCardStore((state) => state.setEntityFilter);
   const selectPrayerCard = usePrayerCardStore((state) => state.selectPrayerCard);
-  const getRecipientPickerItems = usePrayerCardStore((state) => state.getRecipientPickerItems);
 
   // Local state for dropdown
   const [showEntityDropdown, setShowEntityDropdown] = useState(false);
 
   // Get available entities for dropdown
-  const smallGroups = getRecipientPickerItems().filter((item) => item.type === 'small_group');
-  const individuals = getRecipientPickerItems().filter((item) => item.type === 'membership');
+  const smallGroups = recipientPickerItems.filter((item) => item.type === 'small_group');
+  const individuals = recipientPickerItems.filter((item) => item.type === 'membership');
 
   // Get current filter label for dropdown button
   const getEntityFilterLabel = () => {
@@ -301,6 +306,10 @@ export default function PrayerScreen() {
         renderItem={renderItem}
         ListEmptyComponent={renderEmptyState}
         ListHeaderComponent={renderHeader}
+        refreshing={loading}
+        onRefresh={() => void refetch()}
+        onEndReached={hasMore ? () => void loadMore() : undefined}
+        onEndReachedThreshold={0.5}
         contentContainerStyle={[
           styles.listContent,
           filteredPrayerCards.length === 0 && styles.listContentEmpty,
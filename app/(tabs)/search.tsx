@@ -1,31 +1,325 @@
 /**
- * Search Screen (Placeholder)
+ * Search Screen
  *
- * TODO: Implement full search functionality
- * This is a placeholder screen for the search navigation target.
+ * One search box across everything the member can see in the active tenant:
+ * - Messages (tap jumps to the message in the conversation)
+ * - Prayer cards
+ * - Pastoral journals
+ * - Members
+ * - File names (tap jumps to the message the file was shared in)
+ *
+ * Route: /search
  */
 
-import { View, StyleSheet } from 'react-native';
-import { YStack, Text as TamaguiText } from 'tamagui';
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  SectionList,
+  StyleSheet,
+  TextInput as RNTextInput,
+  View,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Text as TamaguiText, XStack } from 'tamagui';
 import { useRequireAuth } from '@/hooks/useAuthGuard';
 import { useTranslation } from '@/i18n';
 import { SafeScreen } from '@/components/SafeScreen';
+import { useGlobalSearch } from '@/features/search/hooks';
+import type {
+  FileSearchResult,
+  MemberSearchResult,
+  MessageSearchResult,
+  PastoralJournalSearchResult,
+  PrayerCardSearchResult,
+} from '@/features/search/hooks';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SearchHit =
+  | { kind: 'message'; key: string; hit: MessageSearchResult }
+  | { kind: 'prayer_card'; key: string; hit: PrayerCardSearchResult }
+  | { kind: 'pastoral_journal'; key: string; hit: PastoralJournalSearchResult }
+  | { kind: 'member'; key: string; hit: MemberSearchResult }
+  | { kind: 'file'; key: string; hit: FileSearchResult };
+
+interface SearchSection {
+  key: string;
+  title: string;
+  data: SearchHit[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Trim long content to a single-line preview around the first match.
+ */
+function buildSnippet(content: string, query: string, radius: number = 40): string {
+  const flattened = content.replace(/\s+/g, ' ').trim();
+  const index = flattened.toLowerCase().indexOf(query.trim().toLowerCase());
+  if (index <= radius) {
+    return flattened;
+  }
+  return `…${flattened.slice(index - radius)}`;
+}
+
+function getHitIcon(kind: SearchHit['kind']): keyof typeof Ionicons.glyphMap {
+  switch (kind) {
+    case 'message':
+      return 'chatbubble-outline';
+    case 'prayer_card':
+      return 'heart-outline';
+    case 'pastoral_journal':
+      return 'book-outline';
+    case 'member':
+      return 'person-outline';
+    case 'file':
+      return 'document-outline';
+  }
+}
+
+// ============================================================================
+// RESULT ROW COMPONENT
+// ============================================================================
+
+interface ResultRowProps {
+  item: SearchHit;
+  query: string;
+  onPress: (item: SearchHit) => void;
+}
+
+function ResultRow({ item, query, onPress }: ResultRowProps) {
+  const { t } = useTranslation();
+
+  let title: string;
+  let subtitle: string | null = null;
+
+  switch (item.kind) {
+    case 'message':
+      title = buildSnippet(item.hit.content, query);
+      subtitle = [
+        item.hit.senderName ?? t('global_search.unknown_sender'),
+        item.hit.conversationName,
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      break;
+    case 'prayer_card':
+      title = buildSnippet(item.hit.content, query);
+      subtitle = [
+        item.hit.authorName ?? t('global_search.unknown_sender'),
+        item.hit.answered ? t('global_search.answered') : null,
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      break;
+    case 'pastoral_journal':
+      title = buildSnippet(item.hit.content, query);
+      subtitle = [
+        item.hit.smallGroupName,
+        t('global_search.week_of', { date: item.hit.weekStartDate }),
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      break;
+    case 'member':
+      title = item.hit.displayName ?? t('global_search.unknown_sender');
+      subtitle = t(`more.roles.${item.hit.role}`);
+      break;
+    case 'file':
+      title = item.hit.fileName;
+      subtitle = new Date(item.hit.createdAt).toLocaleDateString();
+      break;
+  }
+
+  // Members have no detail screen yet, so their rows are not pressable
+  const pressable = item.kind !== 'member';
+
+  return (
+    <Pressable
+      testID={`search-result-${item.kind}-${item.key}`}
+      onPress={pressable ? () => onPress(item) : undefined}
+      disabled={!pressable}
+      style={({ pressed }) => [styles.resultRow, pressed && styles.resultRowPressed]}
+      accessibilityRole={pressable ? 'button' : 'text'}
+      accessibilityLabel={subtitle ? `${title}, ${subtitle}` : title}
+    >
+      <View style={styles.resultIcon}>
+        <Ionicons name={getHitIcon(item.kind)} size={18} color="#333333" />
+      </View>
+      <View style={styles.resultInfo}>
+        <TamaguiText style={styles.resultTitle} numberOfLines={1}>
+          {title}
+        </TamaguiText>
+        {subtitle ? (
+          <TamaguiText style={styles.resultSubtitle} numberOfLines={1}>
+            {subtitle}
+          </TamaguiText>
+        ) : null}
+      </View>
+    </Pressable>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
 
 export default function SearchScreen() {
   const { t } = useTranslation();
-  useRequireAuth();
+  const router = useRouter();
+  const { tenantId, membership } = useRequireAuth();
+  const [query, setQuery] = useState('');
+
+  const { results, loading, error, isEmpty } = useGlobalSearch(tenantId, query, membership);
+
+  const sections = useMemo((): SearchSection[] => {
+    const all: SearchSection[] = [
+      {
+        key: 'messages',
+        title: t('global_search.sections.messages'),
+        data: results.messages.map((hit) => ({ kind: 'message' as const, key: hit.id, hit })),
+      },
+      {
+        key: 'prayer_cards',
+        title: t('global_search.sections.prayer_cards'),
+        data: results.prayerCards.map((hit) => ({
+          kind: 'prayer_card' as const,
+          key: hit.id,
+          hit,
+        })),
+      },
+      {
+        key: 'pastoral_journals',
+        title: t('global_search.sections.pastoral_journals'),
+        data: results.pastoralJournals.map((hit) => ({
+          kind: 'pastoral_journal' as const,
+          key: hit.id,
+          hit,
+        })),
+      },
+      {
+        key: 'members',
+        title: t('global_search.sections.members'),
+        data: results.members.map((hit) => ({
+          kind: 'member' as const,
+          key: hit.membershipId,
+          hit,
+        })),
+      },
+      {
+        key: 'files',
+        title: t('global_search.sections.files'),
+        data: results.files.map((hit) => ({ kind: 'file' as const, key: hit.id, hit })),
+      },
+    ];
+    return all.filter((section) => section.data.length > 0);
+  }, [results, t]);
+
+  const handleResultPress = useCallback(
+    (item: SearchHit) => {
+      switch (item.kind) {
+        case 'message':
+          router.push(`/chat/${item.hit.conversationId}?messageId=${item.hit.targetMessageId}`);
+          break;
+        case 'prayer_card':
+          router.push(`/prayer/${item.hit.id}`);
+          break;
+        case 'pastoral_journal':
+          router.push(`/pastoral/${item.hit.id}`);
+          break;
+        case 'file':
+          if (item.hit.conversationId && item.hit.messageId) {
+            router.push(`/chat/${item.hit.conversationId}?messageId=${item.hit.messageId}`);
+          } else if (item.hit.prayerCardId) {
+            router.push(`/prayer/${item.hit.prayerCardId}`);
+          }
+          break;
+        case 'member':
+          break;
+      }
+    },
+    [router]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: SearchHit }) => (
+      <ResultRow item={item} query={query} onPress={handleResultPress} />
+    ),
+    [query, handleResultPress]
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: SearchSection }) => (
+      <View style={styles.sectionHeader}>
+        <TamaguiText style={styles.sectionHeaderText}>{section.title}</TamaguiText>
+      </View>
+    ),
+    []
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return (
+        <View style={styles.emptyContainer}>
+          <ActivityIndicator />
+        </View>
+      );
+    }
+
+    let message = t('global_search.prompt');
+    if (error) {
+      message = t('global_search.error');
+    } else if (isEmpty) {
+      message = t('global_search.no_results', { query: query.trim() });
+    }
+
+    return (
+      <View style={styles.emptyContainer} testID="search-empty-state">
+        <Ionicons name="search-outline" size={48} color="#CCCCCC" />
+        <TamaguiText style={styles.emptyText}>{message}</TamaguiText>
+      </View>
+    );
+  };
 
   return (
     <SafeScreen>
-      <View style={styles.container}>
-        <YStack flex={1} alignItems="center" justifyContent="center" gap={8}>
-          <TamaguiText fontSize={24} fontWeight="600" color="#8E8E93">
-            {t('common.search')}
-          </TamaguiText>
-          <TamaguiText fontSize={14} color="#C7C7CC">
-            Coming soon...
-          </TamaguiText>
-        </YStack>
+      <View style={styles.container} testID="search-screen">
+        {/* Search field */}
+        <XStack style={styles.searchBar} alignItems="center">
+          <Ionicons name="search-outline" size={18} color="#999999" />
+          <RNTextInput
+            testID="search-input"
+            value={query}
+            onChangeText={setQuery}
+            placeholder={t('global_search.placeholder')}
+            placeholderTextColor="#999999"
+            style={styles.searchInput}
+            autoCorrect={false}
+            autoCapitalize="none"
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+          {loading && sections.length > 0 ? <ActivityIndicator size="small" /> : null}
+        </XStack>
+
+        <SectionList
+          testID="search-results"
+          sections={sections}
+          keyExtractor={(item) => `${item.kind}-${item.key}`}
+          renderItem={renderItem}
+          renderSectionHeader={renderSectionHeader}
+          stickySectionHeadersEnabled={false}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          ListEmptyComponent={renderEmpty()}
+          contentContainerStyle={sections.length === 0 ? { flex: 1 } : undefined}
+        />
       </View>
     </SafeScreen>
   );
@@ -36,4 +330,79 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#F5F5F7',
   },
+  searchBar: {
+    marginHorizontal: 16,
+    marginVertical: 8,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    gap: 6,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000000',
+    paddingVertical: 0,
+    height: 40,
+  },
+  sectionHeader: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 6,
+  },
+  sectionHeaderText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  resultRowPressed: {
+    backgroundColor: '#F9FAFB',
+  },
+  resultIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F0F0F0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultTitle: {
+    fontSize: 15,
+    color: '#11181C',
+    lineHeight: 20,
+  },
+  resultSubtitle: {
+    fontSize: 13,
+    color: '#888888',
+    lineHeight: 16,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#888888',
+    textAlign: 'center',
+  },
 });
@@ -15,6 +15,7 @@ import config from '../tamagui.config';
 import { useAuth } from '@/hooks/useAuth';
 import { useTenantStore } from '@/stores/tenantStore';
 import { useNotificationHandler } from '@/features/notifications';
+import { useOutboxProcessor } from '@/features/chat/hooks';
 import { initI18nForApp } from '@/i18n/init';
 import { initPostHog } from '@/lib/monitoring/posthog';
 import { initSentry } from '@/lib/monitoring/sentry';
@@ -105,6 +106,9 @@ function AuthGuard() {
   const segments = useSegments();
   const router = useRouter();
 
+  // Keep retrying queued chat messages while signed in
+  useOutboxProcessor(user?.id ?? null);
+
   useEffect(() => {
     // Load tenant context on mount
     console.log('[AuthGuard] Loading tenant from storage...');
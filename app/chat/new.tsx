@@ -0,0 +1,189 @@
+/**
+ * New Chat Screen
+ *
+ * Starts a conversation with members picked from the tenant directory.
+ *
+ * - Regular chat: one member opens (or reuses) the direct chat with them;
+ *   picking more starts a group
+ * - Team chat: always starts a group, with an optional name
+ *
+ * The creator becomes the group's admin. Opens the conversation when done.
+ *
+ * Route: /chat/new?type=regular|team
+ */
+
+import { useCallback, useState } from 'react';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { ActivityIndicator, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Text as TamaguiText, XStack, YStack, useTheme } from 'tamagui';
+import { useTranslation } from '@/i18n';
+import { SafeScreen } from '@/components/SafeScreen';
+import { MemberPicker } from '@/features/chat/components/MemberPicker';
+import {
+  MAX_CONVERSATION_NAME_LENGTH,
+  useCreateConversation,
+} from '@/features/chat/hooks/useCreateConversation';
+import { useTenantMembers } from '@/features/chat/hooks/useTenantMembers';
+import { useRequireAuth } from '@/hooks/useAuthGuard';
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  header: {
+    height: 44,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  createButton: {
+    minWidth: 44,
+    height: 44,
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+  },
+  headerSeparator: {
+    height: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+  },
+});
+
+// ============================================================================
+// SCREEN
+// ============================================================================
+
+/**
+ * New chat screen component.
+ */
+export default function NewChatScreen() {
+  const { type } = useLocalSearchParams<{ type?: string }>();
+  const router = useRouter();
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const { tenantId, membershipId } = useRequireAuth();
+
+  const isTeamChat = type === 'team';
+
+  const { members, loading: membersLoading } = useTenantMembers(tenantId);
+  const { createDirectConversation, createGroupConversation, creating, error } =
+    useCreateConversation(tenantId);
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [name, setName] = useState('');
+
+  // A regular chat with one member is a direct chat; anything else is a group
+  const isGroup = isTeamChat || selectedIds.length > 1;
+  const canCreate = selectedIds.length > 0 && !creating;
+
+  const handleToggle = useCallback((membershipId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(membershipId)
+        ? prev.filter((id) => id !== membershipId)
+        : [...prev, membershipId]
+    );
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    const [firstId] = selectedIds;
+    if (!canCreate || !firstId) {
+      return;
+    }
+
+    const conversationId = isGroup
+      ? await createGroupConversation(name, selectedIds)
+      : await createDirectConversation(firstId);
+
+    if (conversationId) {
+      router.replace(`/chat/${conversationId}`);
+    }
+  }, [
+    canCreate,
+    isGroup,
+    createGroupConversation,
+    createDirectConversation,
+    name,
+    selectedIds,
+    router,
+  ]);
+
+  return (
+    <SafeScreen>
+      <Stack.Screen options={{ headerShown: false }} />
+      <YStack flex={1} backgroundColor="$background" testID="new-chat-screen">
+        {/* Header */}
+        <XStack style={styles.header} alignItems="center" justifyContent="space-between">
+          <Pressable onPress={() => router.back()} hitSlop={16} style={styles.backButton}>
+            <Ionicons name="chevron-back" size={24} color="#000000" />
+          </Pressable>
+          <TamaguiText fontSize={17} fontWeight="600" color="#000000">
+            {isTeamChat ? t('chat.conversation.new_group') : t('chat.new_chat')}
+          </TamaguiText>
+          <Pressable
+            testID="new-chat-create"
+            onPress={() => void handleCreate()}
+            disabled={!canCreate}
+            hitSlop={8}
+            style={styles.createButton}
+          >
+            {creating ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <TamaguiText fontSize={16} fontWeight="600" color={canCreate ? '#007AFF' : '#8E8E93'}>
+                {isGroup ? t('chat.conversation.create_group') : t('chat.conversation.start_chat')}
+              </TamaguiText>
+            )}
+          </Pressable>
+        </XStack>
+        <View style={styles.headerSeparator} />
+
+        {/* Group name */}
+        {isGroup && (
+          <XStack
+            marginHorizontal="$3"
+            marginTop="$3"
+            paddingHorizontal="$3"
+            borderRadius="$2"
+            backgroundColor="$backgroundTertiary"
+          >
+            <TextInput
+              testID="new-chat-name-input"
+              value={name}
+              onChangeText={setName}
+              placeholder={t('chat.conversation.group_name_placeholder')}
+              placeholderTextColor="#8e8e93"
+              maxLength={MAX_CONVERSATION_NAME_LENGTH}
+              style={{ flex: 1, fontSize: 15, paddingVertical: 10, color: theme.color?.val }}
+            />
+          </XStack>
+        )}
+
+        <XStack paddingHorizontal="$4" paddingTop="$3" justifyContent="space-between">
+          <TamaguiText fontSize="$sm" color="$color3">
+            {t('chat.conversation.selected_count', { count: selectedIds.length })}
+          </TamaguiText>
+          {error && (
+            <TamaguiText fontSize="$sm" color="$danger">
+              {t('chat.conversation.create_failed')}
+            </TamaguiText>
+          )}
+        </XStack>
+
+        {/* Members */}
+        <MemberPicker
+          members={members}
+          selectedIds={selectedIds}
+          onToggle={handleToggle}
+          excludeIds={membershipId ? [membershipId] : []}
+          loading={membersLoading}
+        />
+      </YStack>
+    </SafeScreen>
+  );
+}
@@ -23,6 +23,8 @@ import { MessageList } from '@/features/chat/components/MessageList';
 import { MessageInput } from '@/features/chat/components/MessageInput';
 import { useThreadMessages } from '@/features/chat/hooks/useThreadMessages';
 import { useSendReply } from '@/features/chat/hooks/useSendMessage';
+import { useOutboxMessages } from '@/features/chat/hooks/useMessageOutbox';
+import type { MessageWithSender } from '@/types/database';
 import { useRequireAuth } from '@/hooks/useAuthGuard';
 import { useCurrentMembership } from '@/hooks/useCurrentMembership';
 
@@ -119,6 +121,23 @@ export default function ThreadViewScreen() {
     id || null
   );
 
+  // Replies still in the outbox follow the loaded ones until a refetch includes them
+  const {
+    messages: displayReplies,
+    retryMessage,
+    discardMessage,
+  } = useOutboxMessages(conversationId, id || null, replies);
+
+  const handleRetryReply = useCallback(
+    (message: MessageWithSender) => retryMessage(message.id),
+    [retryMessage]
+  );
+
+  const handleDiscardReply = useCallback(
+    (message: MessageWithSender) => discardMessage(message.id),
+    [discardMessage]
+  );
+
   // Handle send errors
   const [sendError, setSendError] = useState<string | null>(null);
 
@@ -129,10 +148,13 @@ export default function ThreadViewScreen() {
   const handleSendReply = useCallback(
     async (content: string) => {
       try {
-        await sendReply(content);
+        const reply = await sendReply(content);
         setSendError(null);
-        // Refetch thread messages after sending to show the new reply
-        await refetch();
+        // Refetch thread messages after sending to show the new reply.
+        // Replies that fail stay in the outbox and show as failed in the list.
+        if (reply) {
+          await refetch();
+        }
       } catch (err) {
         setSendError(err instanceof Error ? err.message : t('chat.thread.sendError'));
       }
@@ -241,7 +263,7 @@ export default function ThreadViewScreen() {
   }
 
   // Show empty state when no replies
-  if (!loading && parentMessage && replies.length === 0) {
+  if (!loading && parentMessage && displayReplies.length === 0) {
     return (
       <>
         <Stack.Screen options={{ headerShown: false }} />
@@ -266,7 +288,11 @@ export default function ThreadViewScreen() {
 
               <ParentMessage
                 senderName={parentMessage.sender?.display_name || 'Unknown'}
-                content={parentMessage.content || ''}
+                content={
+                  parentMessage.deleted_at
+                    ? t('chat.deleted_message')
+                    : parentMessage.content || ''
+                }
                 timestamp={new Date(parentMessage.created_at).toLocaleTimeString([], {
                   hour: '2-digit',
                   minute: '2-digit',
@@ -315,7 +341,11 @@ export default function ThreadViewScreen() {
             {parentMessage && (
               <ParentMessage
                 senderName={parentMessage.sender?.display_name || 'Unknown'}
-                content={parentMessage.content || ''}
+                content={
+                  parentMessage.deleted_at
+                    ? t('chat.deleted_message')
+                    : parentMessage.content || ''
+                }
                 timestamp={new Date(parentMessage.created_at).toLocaleTimeString([], {
                   hour: '2-digit',
                   minute: '2-digit',
@@ -325,8 +355,8 @@ export default function ThreadViewScreen() {
 
             {/* Thread replies */}
             <MessageList
-              messages={replies}
-              loading={loading && replies.length === 0}
+              messages={displayReplies}
+              loading={loading && displayReplies.length === 0}
               loadingMore={false}
               hasMore={hasMore}
               error={error}
@@ -334,6 +364,8 @@ export default function ThreadViewScreen() {
               currentUserId={membershipId || ''}
               onLoadMore={() => void loadMore()}
               onMessagePress={handleMessagePress}
+              onRetryMessage={handleRetryReply}
+              onDiscardMessage={handleDiscardReply}
               showThreadIndicators={false} // Replies don't show thread indicators
               testID="thread-replies-list"
             />
@@ -5,7 +5,8 @@
  * - Timer for prayer duration
  * - Music toggle for background worship music
  * - "응답받음" (Mark as Answered) button with response input
- * - Responses section showing testimonies
+ * - "기도했어요" (I prayed for this) button with intercessor count and list
+ * - Responses section showing persisted testimonies (add / edit own)
  *
  * Based on Figma design:
  * https://www.figma.com/design/6gW1h8DfD1WYH29AmJqaeW/Gagyo?node-id=131-1429
@@ -18,8 +19,20 @@ import { XStack, YStack, Text as TamaguiText, Stack, Button, styled } from 'tama
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { useTranslation } from '@/i18n';
 import { SafeScreen } from '@/components/SafeScreen';
-import { usePrayerCardStore } from '@/stores/prayerCardStore';
-import type { PrayerCardWithDetails } from '@/types/prayer';
+import { usePrayerCardStore, toPrayerCardWithDetails } from '@/stores/prayerCardStore';
+import { useCurrentMembership } from '@/hooks/useCurrentMembership';
+import { usePrayerCardById } from '@/features/prayer/hooks/usePrayerCards';
+import { useMarkPrayerAnswered } from '@/features/prayer/hooks/useMarkPrayerAnswered';
+import {
+  usePrayerCardResponses,
+  useAddPrayerCardResponse,
+  useUpdatePrayerCardResponse,
+} from '@/features/prayer/hooks/usePrayerCardResponses';
+import {
+  usePrayerCardIntercessions,
+  useRecordIntercession,
+} from '@/features/prayer/hooks/usePrayerCardIntercessions';
+import type { PrayerCardIntercession, PrayerCardResponse } from '@/types/prayer';
 
 // ============================================================================
 // STYLES
@@ -113,6 +126,23 @@ const styles = StyleSheet.create({
   markAnsweredButtonDisabled: {
     opacity: 0.5,
   },
+  prayedButton: {
+    borderWidth: 1,
+    borderColor: '#11181C',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 12,
+  },
+  intercessorAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: '#f5f5f5',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   dialogInput: {
     backgroundColor: '#f5f5f5',
     borderRadius: 8,
@@ -186,16 +216,11 @@ function TimerDisplay({ elapsedSeconds, isRunning }: TimerDisplayProps) {
 }
 
 interface ResponseItemProps {
-  response: {
-    id: string;
-    authorName: string;
-    authorPhotoUrl: string | null;
-    content: string;
-    createdAt: string;
-  };
+  response: PrayerCardResponse;
+  onEdit?: () => void;
 }
 
-function ResponseItem({ response }: ResponseItemProps) {
+function ResponseItem({ response, onEdit }: ResponseItemProps) {
   const formattedDate = new Date(response.createdAt).toLocaleDateString('ko-KR', {
     month: 'short',
     day: 'numeric',
@@ -217,6 +242,11 @@ function ResponseItem({ response }: ResponseItemProps) {
             {formattedDate}
           </TamaguiText>
         </YStack>
+        {onEdit && (
+          <Pressable testID={`edit-response-${response.id}`} onPress={onEdit} hitSlop={8}>
+            <Ionicons name="create-outline" size={18} color="#687076" />
+          </Pressable>
+        )}
         <Ionicons name="checkmark-circle" size={20} color="#10b981" />
       </XStack>
       <TamaguiText fontSize={14} color="#363b4b" lineHeight={20}>
@@ -226,10 +256,55 @@ function ResponseItem({ response }: ResponseItemProps) {
   );
 }
 
+interface IntercessorItemProps {
+  intercession: PrayerCardIntercession;
+}
+
+function IntercessorItem({ intercession }: IntercessorItemProps) {
+  const { t } = useTranslation();
+  const formattedDate = new Date(intercession.prayedAt).toLocaleDateString('ko-KR', {
+    month: 'short',
+    day: 'numeric',
+  });
+  const minutes = intercession.durationSeconds
+    ? Math.max(1, Math.round(intercession.durationSeconds / 60))
+    : null;
+
+  return (
+    <XStack alignItems="center" gap={8} paddingVertical={6}>
+      <Stack style={styles.intercessorAvatar}>
+        <TamaguiText fontSize={12} color="#687076" fontWeight="600">
+          {intercession.memberName[0] || '?'}
+        </TamaguiText>
+      </Stack>
+      <TamaguiText flex={1} fontSize={14} color="#11181C">
+        {intercession.memberName}
+      </TamaguiText>
+      {minutes !== null && (
+        <TamaguiText fontSize={12} color="#687076">
+          {t('prayer.prayed_minutes', { count: minutes })}
+        </TamaguiText>
+      )}
+      <TamaguiText fontSize={12} color="#9BA1A6">
+        {formattedDate}
+      </TamaguiText>
+    </XStack>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
+/**
+ * What the testimony dialog is doing: marking the card answered (optional
+ * testimony), adding a testimony to an answered card, or editing one.
+ */
+type TestimonyDialogMode =
+  | { type: 'answer' }
+  | { type: 'add' }
+  | { type: 'edit'; responseId: string };
+
 export default function PrayerCardDetailScreen() {
   const router = useRouter();
   const { t } = useTranslation();
@@ -245,9 +320,18 @@ export default function PrayerCardDetailScreen() {
   const toggleMusic = usePrayerCardStore((state) => state.toggleMusic);
   const markAsAnswered = usePrayerCardStore((state) => state.markAsAnswered);
   const clearSelectedPrayerCard = usePrayerCardStore((state) => state.clearSelectedPrayerCard);
+  const upsertPrayerCard = usePrayerCardStore((state) => state.upsertPrayerCard);
+  const selectPrayerCard = usePrayerCardStore((state) => state.selectPrayerCard);
+
+  const { membershipId } = useCurrentMembership();
+
+  // Load the card directly when opened without a selection (e.g. from a push notification)
+  const { prayerCards: fetchedPrayerCards } = usePrayerCardById(
+    selectedPrayerCard?.id === id ? null : (id ?? null)
+  );
 
   // Local state
-  const [showAnswerDialog, setShowAnswerDialog] = useState(false);
+  const [dialogMode, setDialogMode] = useState<TestimonyDialogMode | null>(null);
   const [responseContent, setResponseContent] = useState('');
 
   // Timer interval
@@ -278,6 +362,14 @@ export default function PrayerCardDetailScreen() {
     };
   }, [timer.isRunning]);
 
+  useEffect(() => {
+    const fetched = fetchedPrayerCards[0];
+    if (fetched) {
+      upsertPrayerCard(toPrayerCardWithDetails(fetched));
+      selectPrayerCard(fetched.id);
+    }
+  }, [fetchedPrayerCards, upsertPrayerCard, selectPrayerCard]);
+
   // Clean up on unmount
   useEffect(() => {
     return () => {
@@ -286,18 +378,92 @@ export default function PrayerCardDetailScreen() {
   }, [clearSelectedPrayerCard]);
 
   const prayer = selectedPrayerCard;
-  const canMarkAnswered = prayer && !prayer.answered;
+  const tenantId = prayer?.tenant_id ?? null;
+  const { markAnswered, marking } = useMarkPrayerAnswered(tenantId);
+  const { responses } = usePrayerCardResponses(prayer?.id ?? null, tenantId);
+  const { addResponse, adding } = useAddPrayerCardResponse(tenantId, membershipId);
+  const { updateResponse, updating } = useUpdatePrayerCardResponse(tenantId);
+  const { intercessions } = usePrayerCardIntercessions(prayer?.id ?? null, tenantId);
+  const { recordIntercession, recording } = useRecordIntercession(tenantId, membershipId);
+  const hasPrayed = intercessions.some((i) => i.membershipId === membershipId);
+  // A testimony is optional only when marking answered
+  const dialogSubmitDisabled =
+    marking || adding || updating || (dialogMode?.type !== 'answer' && !responseContent.trim());
+
+  // RLS only allows the author to update a prayer card
+  const canMarkAnswered = prayer && !prayer.answered && prayer.author_id === membershipId;
 
   const handleBack = useCallback(() => {
     router.push('/(tabs)/prayer');
   }, [router]);
 
-  const handleMarkAnswered = useCallback(() => {
+  const handlePrayed = useCallback(async () => {
     if (!prayer) return;
-    markAsAnswered(prayer.id, responseContent || undefined);
-    setShowAnswerDialog(false);
+
+    try {
+      // Credit the timer session, if any, to this intercession
+      const success = await recordIntercession(prayer.id, timer.elapsedSeconds || null);
+      if (success && timer.elapsedSeconds > 0) {
+        resetTimer();
+      }
+    } catch (err) {
+      console.error('Failed to record intercession:', err);
+    }
+  }, [prayer, recordIntercession, timer.elapsedSeconds, resetTimer]);
+
+  const closeDialog = useCallback(() => {
+    setDialogMode(null);
     setResponseContent('');
-  }, [prayer, markAsAnswered, responseContent]);
+  }, []);
+
+  const openEditDialog = useCallback((response: PrayerCardResponse) => {
+    setResponseContent(response.content);
+    setDialogMode({ type: 'edit', responseId: response.id });
+  }, []);
+
+  const handleSubmitDialog = useCallback(async () => {
+    if (!prayer || !dialogMode) return;
+
+    const content = responseContent.trim();
+
+    try {
+      switch (dialogMode.type) {
+        case 'answer': {
+          // Save the testimony first so the answered push can include it
+          if (content) {
+            const responseId = await addResponse(prayer.id, content);
+            if (!responseId) return;
+          }
+          const success = await markAnswered(prayer.id);
+          if (!success) return;
+          markAsAnswered(prayer.id);
+          break;
+        }
+        case 'add': {
+          const responseId = await addResponse(prayer.id, content);
+          if (!responseId) return;
+          break;
+        }
+        case 'edit': {
+          const success = await updateResponse(dialogMode.responseId, content);
+          if (!success) return;
+          break;
+        }
+      }
+      closeDialog();
+    } catch (err) {
+      console.error('Failed to save prayer testimony:', err);
+    }
+  }, [
+    prayer,
+    dialogMode,
+    responseContent,
+    addResponse,
+    markAnswered,
+    markAsAnswered,
+    updateResponse,
+    closeDialog,
+  ]);
 
   const formatTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -340,216 +506,271 @@ export default function PrayerCardDetailScreen() {
           <Stack style={{ width: 40 }} />
         </Stack>
 
-      <ScrollView showsVerticalScrollIndicator={false}>
-        {/* Author Info */}
-        <XStack
-          paddingHorizontal={16}
-          paddingTop={16}
-          paddingBottom={12}
-          alignItems="center"
-          gap={12}
-          borderBottomWidth={1}
-          borderBottomColor="#e5e5e5"
-        >
-          <Stack style={styles.avatar}>
-            <TamaguiText fontSize={18} color="#687076" fontWeight="600">
-              {initial}
-            </TamaguiText>
-          </Stack>
-          <YStack flex={1}>
-            <TamaguiText fontSize={16} fontWeight="600" color="#11181C">
-              {prayer.author.user.display_name || t('prayer.anonymous')}
-            </TamaguiText>
-            <TamaguiText fontSize={13} color="#9BA1A6">
-              {formatTime(prayer.created_at)}
-            </TamaguiText>
-          </YStack>
-          {prayer.answered ? (
-            <Stack style={styles.answeredBadge}>
-              <XStack alignItems="center" gap={4}>
-                <Ionicons name="checkmark-circle" size={14} color="#10b981" />
-                <TamaguiText fontSize={12} color="#10b981" fontWeight="600">
-                  {t('prayer.answered')}
-                </TamaguiText>
-              </XStack>
-            </Stack>
-          ) : (
-            <Stack style={styles.pendingBadge}>
-              <TamaguiText fontSize={12} color="#687076" fontWeight="600">
-                {t('prayer.praying')}
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {/* Author Info */}
+          <XStack
+            paddingHorizontal={16}
+            paddingTop={16}
+            paddingBottom={12}
+            alignItems="center"
+            gap={12}
+            borderBottomWidth={1}
+            borderBottomColor="#e5e5e5"
+          >
+            <Stack style={styles.avatar}>
+              <TamaguiText fontSize={18} color="#687076" fontWeight="600">
+                {initial}
               </TamaguiText>
             </Stack>
-          )}
-        </XStack>
-
-        {/* Timer Section */}
-        <XStack
-          paddingHorizontal={16}
-          paddingVertical={20}
-          alignItems="center"
-          justifyContent="center"
-          gap={16}
-          borderBottomWidth={1}
-          borderBottomColor="#e5e5e5"
-        >
-          <Pressable
-            testID="timer-button"
-            style={[styles.timerButton, timer.isRunning && styles.timerButtonActive]}
-            onPress={timer.isRunning ? pauseTimer : startTimer}
-          >
-            <Ionicons
-              name={timer.isRunning ? 'pause' : 'play'}
-              size={24}
-              color={timer.isRunning ? '#ffffff' : '#11181C'}
-            />
-          </Pressable>
-
-          <TimerDisplay elapsedSeconds={timer.elapsedSeconds} isRunning={timer.isRunning} />
-
-          <Pressable
-            testID="reset-timer-button"
-            style={styles.timerButton}
-            onPress={resetTimer}
-          >
-            <Ionicons name="refresh" size={20} color="#11181C" />
-          </Pressable>
+            <YStack flex={1}>
+              <TamaguiText fontSize={16} fontWeight="600" color="#11181C">
+                {prayer.author.user.display_name || t('prayer.anonymous')}
+              </TamaguiText>
+              <TamaguiText fontSize={13} color="#9BA1A6">
+                {formatTime(prayer.created_at)}
+              </TamaguiText>
+            </YStack>
+            {prayer.answered ? (
+              <Stack style={styles.answeredBadge}>
+                <XStack alignItems="center" gap={4}>
+                  <Ionicons name="checkmark-circle" size={14} color="#10b981" />
+                  <TamaguiText fontSize={12} color="#10b981" fontWeight="600">
+                    {t('prayer.answered')}
+                  </TamaguiText>
+                </XStack>
+              </Stack>
+            ) : (
+              <Stack style={styles.pendingBadge}>
+                <TamaguiText fontSize={12} color="#687076" fontWeight="600">
+                  {t('prayer.praying')}
+                </TamaguiText>
+              </Stack>
+            )}
+          </XStack>
 
-          <Pressable
-            testID="music-button"
-            style={[styles.musicButton, music.isPlaying && styles.musicButtonActive]}
-            onPress={toggleMusic}
+          {/* Timer Section */}
+          <XStack
+            paddingHorizontal={16}
+            paddingVertical={20}
+            alignItems="center"
+            justifyContent="center"
+            gap={16}
+            borderBottomWidth={1}
+            borderBottomColor="#e5e5e5"
           >
-            <Ionicons
-              name={music.isPlaying ? 'musical-notes' : 'musical-notes-outline'}
-              size={24}
-              color={music.isPlaying ? '#ffffff' : '#11181C'}
-            />
-          </Pressable>
-        </XStack>
-
-        {/* Prayer Content */}
-        <XStack paddingHorizontal={16} paddingTop={20}>
-          <Stack style={styles.contentCard} width="100%">
-            <TamaguiText fontSize={18} color="#11181C" lineHeight={26}>
-              {prayer.content}
-            </TamaguiText>
-          </Stack>
-        </XStack>
-
-        {/* Recipients Info */}
-        <XStack paddingHorizontal={16} paddingBottom={8}>
-          <TamaguiText fontSize={13} color="#9BA1A6">
-            {prayer.recipient_scope === 'individual' && t('prayer.scope_individual_prayer')}
-            {prayer.recipient_scope === 'small_group' && t('prayer.scope_small_group_prayer')}
-            {prayer.recipient_scope === 'church_wide' && t('prayer.scope_church_wide_prayer')}
-          </TamaguiText>
-        </XStack>
+            <Pressable
+              testID="timer-button"
+              style={[styles.timerButton, timer.isRunning && styles.timerButtonActive]}
+              onPress={timer.isRunning ? pauseTimer : startTimer}
+            >
+              <Ionicons
+                name={timer.isRunning ? 'pause' : 'play'}
+                size={24}
+                color={timer.isRunning ? '#ffffff' : '#11181C'}
+              />
+            </Pressable>
+
+            <TimerDisplay elapsedSeconds={timer.elapsedSeconds} isRunning={timer.isRunning} />
+
+            <Pressable testID="reset-timer-button" style={styles.timerButton} onPress={resetTimer}>
+              <Ionicons name="refresh" size={20} color="#11181C" />
+            </Pressable>
+
+            <Pressable
+              testID="music-button"
+              style={[styles.musicButton, music.isPlaying && styles.musicButtonActive]}
+              onPress={toggleMusic}
+            >
+              <Ionicons
+                name={music.isPlaying ? 'musical-notes' : 'musical-notes-outline'}
+                size={24}
+                color={music.isPlaying ? '#ffffff' : '#11181C'}
+              />
+            </Pressable>
+          </XStack>
 
-        {/* Answered Date */}
-        {prayer.answered && prayer.answered_at && (
-          <XStack paddingHorizontal={16} paddingBottom={20}>
-            <TamaguiText fontSize={13} color="#9BA1A6">
-              {t('prayer.answered_date_label')} {formatTime(prayer.answered_at)}
-            </TamaguiText>
+          {/* Prayer Content */}
+          <XStack paddingHorizontal={16} paddingTop={20}>
+            <Stack style={styles.contentCard} width="100%">
+              <TamaguiText fontSize={18} color="#11181C" lineHeight={26}>
+                {prayer.content}
+              </TamaguiText>
+            </Stack>
           </XStack>
-        )}
 
-        {/* Responses Section */}
-        {prayer.responses.length > 0 && (
+          {/* Recipients Info */}
           <XStack paddingHorizontal={16} paddingBottom={8}>
-            <TamaguiText fontSize={15} fontWeight="600" color="#11181C">
-              {t('prayer.responses_section')} ({prayer.responses.length})
+            <TamaguiText fontSize={13} color="#9BA1A6">
+              {prayer.recipient_scope === 'individual' && t('prayer.scope_individual_prayer')}
+              {prayer.recipient_scope === 'small_group' && t('prayer.scope_small_group_prayer')}
+              {prayer.recipient_scope === 'church_wide' && t('prayer.scope_church_wide_prayer')}
             </TamaguiText>
           </XStack>
-        )}
 
-        {prayer.responses.map((response) => (
-          <XStack key={response.id} paddingHorizontal={16}>
-            <ResponseItem response={response} />
-          </XStack>
-        ))}
+          {/* Answered Date */}
+          {prayer.answered && prayer.answered_at && (
+            <XStack paddingHorizontal={16} paddingBottom={20}>
+              <TamaguiText fontSize={13} color="#9BA1A6">
+                {t('prayer.answered_date_label')} {formatTime(prayer.answered_at)}
+              </TamaguiText>
+            </XStack>
+          )}
 
-        {/* Mark as Answered Button */}
-        {canMarkAnswered && (
+          {/* Intercessions Section */}
           <Pressable
-            testID="mark-answered-button"
-            style={styles.markAnsweredButton}
-            onPress={() => setShowAnswerDialog(true)}
+            testID="prayed-button"
+            style={[styles.prayedButton, recording && styles.markAnsweredButtonDisabled]}
+            onPress={() => void handlePrayed()}
+            disabled={recording}
           >
             <XStack alignItems="center" gap={8}>
-              <Ionicons name="checkmark-circle" size={20} color="#ffffff" />
-              <TamaguiText fontSize={16} fontWeight="600" color="#ffffff">
-                {t('prayer.mark_answered_button')}
+              <Ionicons name={hasPrayed ? 'heart' : 'heart-outline'} size={18} color="#11181C" />
+              <TamaguiText fontSize={15} fontWeight="600" color="#11181C">
+                {t('prayer.i_prayed_button')}
               </TamaguiText>
             </XStack>
           </Pressable>
-        )}
-      </ScrollView>
-
-      {/* Answer Dialog */}
-      {showAnswerDialog && (
-        <AnswerDialogOverlay
-          testID="answer-dialog-overlay"
-          onStartShouldSetResponder={() => true}
-        >
-          <AnswerDialogContent>
-            <YStack gap={16}>
-              <YStack gap={4}>
-                <TamaguiText
-                  testID="answer-dialog-title"
-                  fontSize={18}
-                  fontWeight="700"
-                  color="#11181C"
-                >
-                  {t('prayer.mark_answered_dialog_title')}
-                </TamaguiText>
-                <TamaguiText fontSize={14} color="#687076">
-                  {t('prayer.mark_answered_dialog_description')}
+
+          {intercessions.length > 0 && (
+            <YStack paddingHorizontal={16} paddingBottom={16} testID="intercessions-section">
+              <TamaguiText fontSize={15} fontWeight="600" color="#11181C" marginBottom={4}>
+                {t('prayer.prayed_count', { count: intercessions.length })}
+              </TamaguiText>
+              {hasPrayed && (
+                <TamaguiText fontSize={13} color="#687076" marginBottom={4}>
+                  {t('prayer.you_prayed')}
                 </TamaguiText>
-              </YStack>
+              )}
+              {intercessions.map((intercession) => (
+                <IntercessorItem key={intercession.id} intercession={intercession} />
+              ))}
+            </YStack>
+          )}
 
-              <TextInput
-                style={styles.dialogInput}
-                placeholder={t('prayer.mark_answered_placeholder')}
-                placeholderTextColor="#8e8e93"
-                value={responseContent}
-                onChangeText={setResponseContent}
-                multiline
-                maxLength={500}
-                testID="response-input"
+          {/* Responses Section */}
+          {responses.length > 0 && (
+            <XStack paddingHorizontal={16} paddingBottom={8}>
+              <TamaguiText fontSize={15} fontWeight="600" color="#11181C">
+                {t('prayer.responses_section')} ({responses.length})
+              </TamaguiText>
+            </XStack>
+          )}
+
+          {responses.map((response) => (
+            <XStack key={response.id} paddingHorizontal={16}>
+              <ResponseItem
+                response={response}
+                onEdit={
+                  response.authorId === membershipId ? () => openEditDialog(response) : undefined
+                }
               />
+            </XStack>
+          ))}
+
+          {/* Share Testimony Button */}
+          {prayer.answered && (
+            <Pressable
+              testID="share-testimony-button"
+              style={styles.markAnsweredButton}
+              onPress={() => setDialogMode({ type: 'add' })}
+            >
+              <XStack alignItems="center" gap={8}>
+                <Ionicons name="chatbubble-ellipses-outline" size={20} color="#ffffff" />
+                <TamaguiText fontSize={16} fontWeight="600" color="#ffffff">
+                  {t('prayer.share_testimony')}
+                </TamaguiText>
+              </XStack>
+            </Pressable>
+          )}
 
-              <XStack gap={8}>
-                <Button
-                  flex={1}
-                  size="$4"
-                  backgroundColor="#f5f5f5"
-                  onPress={() => {
-                    setShowAnswerDialog(false);
-                    setResponseContent('');
-                  }}
-                  testID="cancel-answer-button"
-                >
-                  <TamaguiText color="#11181C" fontWeight="600">
-                    {t('prayer.cancel_button')}
-                  </TamaguiText>
-                </Button>
-                <Button
-                  flex={1}
-                  size="$4"
-                  backgroundColor="#10b981"
-                  onPress={handleMarkAnswered}
-                  testID="confirm-answer-button"
-                >
-                  <TamaguiText color="#ffffff" fontWeight="600">
-                    {t('prayer.confirm_button')}
-                  </TamaguiText>
-                </Button>
+          {/* Mark as Answered Button */}
+          {canMarkAnswered && (
+            <Pressable
+              testID="mark-answered-button"
+              style={styles.markAnsweredButton}
+              onPress={() => setDialogMode({ type: 'answer' })}
+            >
+              <XStack alignItems="center" gap={8}>
+                <Ionicons name="checkmark-circle" size={20} color="#ffffff" />
+                <TamaguiText fontSize={16} fontWeight="600" color="#ffffff">
+                  {t('prayer.mark_answered_button')}
+                </TamaguiText>
               </XStack>
-            </YStack>
-          </AnswerDialogContent>
-        </AnswerDialogOverlay>
-      )}
+            </Pressable>
+          )}
+        </ScrollView>
+
+        {/* Answer / Testimony Dialog */}
+        {dialogMode && (
+          <AnswerDialogOverlay
+            testID="answer-dialog-overlay"
+            onStartShouldSetResponder={() => true}
+          >
+            <AnswerDialogContent>
+              <YStack gap={16}>
+                <YStack gap={4}>
+                  <TamaguiText
+                    testID="answer-dialog-title"
+                    fontSize={18}
+                    fontWeight="700"
+                    color="#11181C"
+                  >
+                    {dialogMode.type === 'answer' && t('prayer.mark_answered_dialog_title')}
+                    {dialogMode.type === 'add' && t('prayer.add_testimonial')}
+                    {dialogMode.type === 'edit' && t('prayer.edit_testimony')}
+                  </TamaguiText>
+                  {dialogMode.type === 'answer' && (
+                    <TamaguiText fontSize={14} color="#687076">
+                      {t('prayer.mark_answered_dialog_description')}
+                    </TamaguiText>
+                  )}
+                </YStack>
+
+                <TextInput
+                  style={styles.dialogInput}
+                  placeholder={
+                    dialogMode.type === 'answer'
+                      ? t('prayer.mark_answered_placeholder')
+                      : t('prayer.testimonial_placeholder')
+                  }
+                  placeholderTextColor="#8e8e93"
+                  value={responseContent}
+                  onChangeText={setResponseContent}
+                  multiline
+                  maxLength={1000}
+                  testID="response-input"
+                />
+
+                <XStack gap={8}>
+                  <Button
+                    flex={1}
+                    size="$4"
+                    backgroundColor="#f5f5f5"
+                    onPress={closeDialog}
+                    testID="cancel-answer-button"
+                  >
+                    <TamaguiText color="#11181C" fontWeight="600">
+                      {t('prayer.cancel_button')}
+                    </TamaguiText>
+                  </Button>
+                  <Button
+                    flex={1}
+                    size="$4"
+                    backgroundColor="#10b981"
+                    onPress={() => void handleSubmitDialog()}
+                    disabled={dialogSubmitDisabled}
+                    opacity={dialogSubmitDisabled ? 0.5 : 1}
+                    testID="confirm-answer-button"
+                  >
+                    <TamaguiText color="#ffffff" fontWeight="600">
+                      {t('prayer.confirm_button')}
+                    </TamaguiText>
+                  </Button>
+                </XStack>
+              </YStack>
+            </AnswerDialogContent>
+          </AnswerDialogOverlay>
+        )}
       </Stack>
     </SafeScreen>
   );
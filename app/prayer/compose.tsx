@@ -9,7 +9,8 @@
  * - Urgent toggle ([긴급] marker)
  * - Submit/Cancel buttons
  *
- * Uses mock data from prayerCardStore for development.
+ * Creates the prayer card in Supabase via useCreatePrayerCard; the list picks
+ * it up through the prayer card realtime subscription.
  *
  * Based on Figma design:
  * https://www.figma.com/design/6gW1h8DfD1WYH29AmJqaeW/Gagyo?node-id=131-1432
@@ -28,6 +29,11 @@ import Ionicons from '@expo/vector-icons/Ionicons';
 import { useTranslation } from '@/i18n';
 import { SafeScreen } from '@/components/SafeScreen';
 import { usePrayerCardStore } from '@/stores/prayerCardStore';
+import { useTenantContext } from '@/hooks/useTenantContext';
+import { useCurrentMembership } from '@/hooks/useCurrentMembership';
+import { useCreatePrayerCard } from '@/features/prayer/hooks/useCreatePrayerCard';
+import { useRecipientPickerItems } from '@/features/prayer/hooks/useRecipientPickerItems';
+import type { RecipientPickerItem } from '@/types/prayer';
 
 // ============================================================================
 // STYLES
@@ -228,6 +234,7 @@ function ScopeButton({ label, isActive, onPress }: ScopeButtonProps) {
 interface RecipientsPickerModalProps {
   visible: boolean;
   scope: RecipientScope;
+  items: RecipientPickerItem[];
   selectedIds: string[];
   onConfirm: (ids: string[]) => void;
   onClose: () => void;
@@ -236,16 +243,13 @@ interface RecipientsPickerModalProps {
 function RecipientsPickerModal({
   visible,
   scope,
+  items,
   selectedIds,
   onConfirm,
   onClose,
 }: RecipientsPickerModalProps) {
   const { t } = useTranslation();
-  const getRecipientPickerItems = usePrayerCardStore(
-    (state) => state.getRecipientPickerItems
-  );
 
-  const items = getRecipientPickerItems();
   const filteredItems =
     scope === 'individual'
       ? items.filter((item) => item.type === 'membership')
@@ -313,8 +317,6 @@ function RecipientsPickerModal({
             const isSelected = localSelectedIds.has(item.id);
             const initial = item.name?.[0] ?? '?';
 
-            console.log('[RecipientPicker] rendering:', item.name);
-
             return (
               <Pressable
                 key={item.id}
@@ -393,7 +395,11 @@ export default function PrayerCardComposeScreen() {
   const startComposing = usePrayerCardStore((state) => state.startComposing);
   const updateComposeData = usePrayerCardStore((state) => state.updateComposeData);
   const cancelComposing = usePrayerCardStore((state) => state.cancelComposing);
-  const submitPrayerCard = usePrayerCardStore((state) => state.submitPrayerCard);
+
+  const { activeTenantId } = useTenantContext();
+  const { membershipId } = useCurrentMembership();
+  const { createPrayerCard, creating } = useCreatePrayerCard(activeTenantId, membershipId);
+  const { items: recipientPickerItems } = useRecipientPickerItems(activeTenantId);
 
   // Timer/Music state
   const timer = usePrayerCardStore((state) => state.timer);
@@ -482,19 +488,48 @@ export default function PrayerCardComposeScreen() {
     router.push('/(tabs)/prayer');
   }, [cancelComposing, router]);
 
-  const handleSubmit = useCallback(() => {
-    const newId = submitPrayerCard();
-    if (newId) {
-      // Navigate back to prayer list after creating
-      router.push('/(tabs)/prayer');
+  const handleSubmit = useCallback(async () => {
+    try {
+      const newId = await createPrayerCard({
+        content,
+        recipientScope,
+        isUrgent,
+        recipientIds: recipientScope === 'church_wide' ? [] : selectedRecipientIds,
+      });
+      if (newId) {
+        cancelComposing();
+        // Navigate back to prayer list after creating
+        router.push('/(tabs)/prayer');
+      }
+    } catch (err) {
+      console.error('Failed to create prayer card:', err);
     }
-  }, [submitPrayerCard, router]);
+  }, [
+    createPrayerCard,
+    content,
+    isUrgent,
+    recipientScope,
+    selectedRecipientIds,
+    cancelComposing,
+    router,
+  ]);
 
   const handleRecipientsConfirm = useCallback((ids: string[]) => {
     setSelectedRecipientIds(ids);
     setShowRecipientsPicker(false);
   }, []);
 
+  // Member and small group IDs are not interchangeable, so clear the selection
+  const handleScopeChange = useCallback(
+    (scope: RecipientScope) => {
+      if (scope !== recipientScope) {
+        setSelectedRecipientIds([]);
+      }
+      setRecipientScope(scope);
+    },
+    [recipientScope]
+  );
+
   const getRecipientsSummary = useCallback(() => {
     if (recipientScope === 'church_wide') {
       return t('prayer.church_wide');
@@ -508,7 +543,9 @@ export default function PrayerCardComposeScreen() {
     return t('prayer.small_groups_selected', { count: selectedRecipientIds.length });
   }, [recipientScope, selectedRecipientIds, t]);
 
-  const isValid = content.trim().length > 0 && recipientScope !== null;
+  const isValid =
+    content.trim().length > 0 &&
+    (recipientScope === 'church_wide' || selectedRecipientIds.length > 0);
 
   return (
     <SafeScreen backgroundColor="#ffffff">
@@ -639,17 +676,17 @@ export default function PrayerCardComposeScreen() {
           <ScopeButton
             label={t('prayer.scope_individual')}
             isActive={recipientScope === 'individual'}
-            onPress={() => setRecipientScope('individual')}
+            onPress={() => handleScopeChange('individual')}
           />
           <ScopeButton
             label={t('prayer.scope_small_group')}
             isActive={recipientScope === 'small_group'}
-            onPress={() => setRecipientScope('small_group')}
+            onPress={() => handleScopeChange('small_group')}
           />
           <ScopeButton
             label={t('prayer.scope_church_wide')}
             isActive={recipientScope === 'church_wide'}
-            onPress={() => setRecipientScope('church_wide')}
+            onPress={() => handleScopeChange('church_wide')}
           />
         </XStack>
 
@@ -736,9 +773,9 @@ export default function PrayerCardComposeScreen() {
         {/* Submit Button */}
         <Pressable
           testID="submit-prayer-button"
-          style={[styles.submitButton, !isValid && styles.submitButtonDisabled]}
-          onPress={handleSubmit}
-          disabled={!isValid}
+          style={[styles.submitButton, (!isValid || creating) && styles.submitButtonDisabled]}
+          onPress={() => void handleSubmit()}
+          disabled={!isValid || creating}
         >
           <XStack alignItems="center" gap={8}>
             <Ionicons name="paper-plane" size={20} color="#ffffff" />
@@ -753,6 +790,7 @@ export default function PrayerCardComposeScreen() {
       <RecipientsPickerModal
         visible={showRecipientsPicker}
         scope={recipientScope}
+        items={recipientPickerItems}
         selectedIds={selectedRecipientIds}
         onConfirm={handleRecipientsConfirm}
         onClose={() => setShowRecipientsPicker(false)}
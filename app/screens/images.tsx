@@ -112,25 +112,29 @@ export default function ImagesScreen() {
   const [refreshing, setRefreshing] = useState(false);
 
   // Fetch conversations for filter
-  const { conversations, loading: conversationsLoading } = useConversations(tenantId, membershipId);
+  const {
+    conversations,
+    archivedConversations,
+    loading: conversationsLoading,
+  } = useConversations(tenantId, membershipId);
 
-  // Transform conversations to filter format
+  // Transform conversations to filter format; archived rooms still have images
   const filterConversations: FilterConversation[] = useMemo(
     () =>
-      conversations.map((conv) => ({
+      [...conversations, ...archivedConversations].map((conv) => ({
         id: conv.id,
         name: conv.name,
         type: conv.type,
       })),
-    [conversations]
+    [conversations, archivedConversations]
   );
 
   // Get selected conversation name for header
   const selectedConversationName = useMemo(() => {
     if (!selectedConversationId) return null;
-    const conv = conversations.find((c) => c.id === selectedConversationId);
+    const conv = filterConversations.find((c) => c.id === selectedConversationId);
     return conv?.name ?? t('chat.unknown_conversation');
-  }, [selectedConversationId, conversations, t]);
+  }, [selectedConversationId, filterConversations, t]);
 
   // Fetch images with optional conversation filter
   const { images, loading, error, hasMore, loadMore, refresh } = useImages(tenantId, {
@@ -0,0 +1,234 @@
+/**
+ * Notifications screen.
+ *
+ * In-app inbox of every push the user was sent in the active tenant.
+ * Features:
+ * - Newest first, unread items marked with a dot
+ * - Mark all as read from the header
+ * - Swipe left to delete
+ * - Tap to mark read and open the notification target
+ *
+ * Route: /screens/notifications
+ */
+
+import { useCallback } from 'react';
+import { ActivityIndicator, FlatList, Pressable, StyleSheet, View } from 'react-native';
+import { useRouter } from 'expo-router';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Text as TamaguiText, XStack } from 'tamagui';
+import { useRequireAuth } from '@/hooks/useAuthGuard';
+import {
+  NotificationInboxItem,
+  parseDeepLinkFromData,
+  useNotificationInbox,
+} from '@/features/notifications';
+import type { NotificationData } from '@/features/notifications';
+import type { NotificationRow } from '@/types/database';
+import { useTranslation } from '@/i18n';
+import { SafeScreen } from '@/components/SafeScreen';
+import { Container } from '@/components/ui';
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: 44,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFFFF',
+  },
+  headerSeparator: {
+    height: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  markAllButton: {
+    height: 44,
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  markAllText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  markAllTextDisabled: {
+    color: '#CCCCCC',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#888888',
+    textAlign: 'center',
+  },
+});
+
+// ============================================================================
+// HEADER COMPONENT
+// ============================================================================
+
+interface HeaderProps {
+  onBack: () => void;
+  onMarkAllRead: () => void;
+  unreadCount: number;
+}
+
+function Header({ onBack, onMarkAllRead, unreadCount }: HeaderProps) {
+  const { t } = useTranslation();
+
+  return (
+    <XStack style={styles.header}>
+      {/* Back button + Title */}
+      <XStack alignItems="center" flex={1}>
+        <Pressable
+          testID="notifications-back-button"
+          onPress={onBack}
+          style={styles.backButton}
+          accessibilityLabel={t('common.back')}
+          accessibilityRole="button"
+        >
+          <Ionicons name="chevron-back" size={24} color="#11181C" />
+        </Pressable>
+        <TamaguiText fontSize={17} fontWeight="600" color="#000000" marginLeft="$2">
+          {t('notifications.title')}
+        </TamaguiText>
+      </XStack>
+
+      {/* Mark all as read */}
+      <Pressable
+        testID="notifications-mark-all-read-button"
+        onPress={onMarkAllRead}
+        disabled={unreadCount === 0}
+        style={styles.markAllButton}
+        accessibilityLabel={t('notifications.mark_all_read')}
+        accessibilityRole="button"
+        accessibilityState={{ disabled: unreadCount === 0 }}
+      >
+        <TamaguiText style={[styles.markAllText, unreadCount === 0 && styles.markAllTextDisabled]}>
+          {t('notifications.mark_all_read')}
+        </TamaguiText>
+      </Pressable>
+    </XStack>
+  );
+}
+
+// ============================================================================
+// EMPTY STATE COMPONENT
+// ============================================================================
+
+interface EmptyStateProps {
+  message: string;
+}
+
+function EmptyState({ message }: EmptyStateProps) {
+  return (
+    <View style={styles.emptyContainer} testID="notifications-empty-state">
+      <Ionicons name="notifications-off-outline" size={48} color="#CCCCCC" />
+      <TamaguiText style={styles.emptyText}>{message}</TamaguiText>
+    </View>
+  );
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function NotificationsScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { tenantId } = useRequireAuth();
+
+  const {
+    notifications,
+    unreadCount,
+    loading,
+    error,
+    refetch,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  } = useNotificationInbox(tenantId);
+
+  // Handlers
+  const handleBack = useCallback(() => {
+    router.back();
+  }, [router]);
+
+  const handleMarkAllRead = useCallback(() => {
+    void markAllAsRead();
+  }, [markAllAsRead]);
+
+  const handleDelete = useCallback(
+    (notificationId: string) => {
+      void deleteNotification(notificationId);
+    },
+    [deleteNotification]
+  );
+
+  const handlePress = useCallback(
+    (notification: NotificationRow) => {
+      if (!notification.read) {
+        void markAsRead(notification.id);
+      }
+
+      // Inbox payloads carry the same data as the push, so reuse push deep linking
+      const deepLink = parseDeepLinkFromData((notification.payload ?? {}) as NotificationData);
+      if (deepLink) {
+        router.push(deepLink);
+      }
+    },
+    [markAsRead, router]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: NotificationRow }) => (
+      <NotificationInboxItem notification={item} onPress={handlePress} onDelete={handleDelete} />
+    ),
+    [handlePress, handleDelete]
+  );
+
+  const keyExtractor = useCallback((item: NotificationRow) => item.id, []);
+
+  return (
+    <SafeScreen>
+      <Container testID="notifications-screen" flex={1} backgroundColor="#F5F5F5">
+        <Header onBack={handleBack} onMarkAllRead={handleMarkAllRead} unreadCount={unreadCount} />
+        <View style={styles.headerSeparator} />
+
+        {loading && notifications.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <ActivityIndicator />
+          </View>
+        ) : (
+          <FlatList
+            testID="notifications-list"
+            data={notifications}
+            renderItem={renderItem}
+            keyExtractor={keyExtractor}
+            refreshing={loading}
+            onRefresh={() => void refetch()}
+            contentContainerStyle={notifications.length === 0 ? { flex: 1 } : undefined}
+            ListEmptyComponent={
+              <EmptyState
+                message={error ? t('notifications.load_error') : t('notifications.empty')}
+              />
+            }
+          />
+        )}
+      </Container>
+    </SafeScreen>
+  );
+}
@@ -5,6 +5,7 @@
  * - Profile (display name, photo, email)
  * - Locale (language switching)
  * - Notification preferences
+ * - Quiet hours
  * - Account deletion
  *
  * Features:
@@ -29,10 +30,14 @@ import {
   ProfileSection,
   LocaleSelector,
   NotificationPreferences,
+  QuietHoursSettings,
   AccountDeletionButton,
 } from '@/features/settings/components';
 import { useUpdateProfile } from '@/features/settings/hooks';
-import type { NotificationPreferences as NotificationPreferencesType } from '@/features/settings/hooks';
+import type {
+  NotificationPreferences as NotificationPreferencesType,
+  QuietHours,
+} from '@/features/settings/hooks';
 
 // ============================================================================
 // MAIN COMPONENT
@@ -46,10 +51,15 @@ interface UserProfile {
   locale: 'en' | 'ko';
   notification_preferences: {
     messages: boolean;
+    mentions: boolean;
     prayers: boolean;
     journals: boolean;
     system: boolean;
   };
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
+  quiet_hours_timezone: string;
 }
 
 export default function SettingsScreen() {
@@ -112,6 +122,19 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleQuietHoursChange = async (quietHours: QuietHours) => {
+    const success = await updateProfile({ quietHours });
+    if (success && profile) {
+      setProfile({
+        ...profile,
+        quiet_hours_enabled: quietHours.enabled,
+        quiet_hours_start: quietHours.start,
+        quiet_hours_end: quietHours.end,
+        quiet_hours_timezone: quietHours.timezone,
+      });
+    }
+  };
+
   const handlePhotoUploaded = (url: string) => {
     if (profile) {
       setProfile({ ...profile, photo_url: url });
@@ -184,6 +207,17 @@ export default function SettingsScreen() {
             onChange={handleNotificationPreferencesChange}
           />
 
+          {/* Quiet Hours */}
+          <QuietHoursSettings
+            value={{
+              enabled: profile.quiet_hours_enabled,
+              start: profile.quiet_hours_start,
+              end: profile.quiet_hours_end,
+              timezone: profile.quiet_hours_timezone,
+            }}
+            onChange={handleQuietHoursChange}
+          />
+
           {/* Account Actions */}
           <YStack gap="$3" marginTop="$2">
             <Text i18nKey="settings.account" fontSize="$lg" fontWeight="700" />
@@ -6,11 +6,13 @@
  * - Empty state
  * - Error state
  * - Pull-to-refresh
+ * - Collapsible "Archived" section below the main list
  */
 
 import { useCallback, useState, useMemo } from 'react';
-import { FlatList, RefreshControl, ListRenderItemInfo } from 'react-native';
-import { Stack, Text as TamaguiText, Spinner, useTheme, YStack } from 'tamagui';
+import { FlatList, Pressable, RefreshControl, ListRenderItemInfo } from 'react-native';
+import { Stack, Text as TamaguiText, Spinner, useTheme, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
 import { ConversationListItem } from './ConversationListItem';
 import { ChatListHeader } from './ChatListHeader';
 import type { ConversationWithLastMessage } from '@/types/database';
@@ -22,6 +24,11 @@ export interface ConversationListProps {
    */
   conversations: ConversationWithLastMessage[];
 
+  /**
+   * Conversations the member archived, shown in a collapsed section.
+   */
+  archivedConversations?: ConversationWithLastMessage[];
+
   /**
    * Whether the list is currently loading.
    */
@@ -42,6 +49,11 @@ export interface ConversationListProps {
    */
   onConversationPress: (conversationId: string) => void;
 
+  /**
+   * Callback when a conversation is long-pressed.
+   */
+  onConversationLongPress?: (conversation: ConversationWithLastMessage) => void;
+
   /**
    * Callback for pull-to-refresh.
    */
@@ -130,15 +142,36 @@ function ErrorState({ error }: { error: Error }) {
   );
 }
 
+/**
+ * Match a conversation against the search query.
+ */
+function matchesSearch(conv: ConversationWithLastMessage, query: string): boolean {
+  // Search in conversation name
+  if (conv.name?.toLowerCase().includes(query)) {
+    return true;
+  }
+  // Search in participant names (for direct messages) - filter out null/undefined first
+  if (conv.participant_names?.some((name) => name?.toLowerCase().includes(query) ?? false)) {
+    return true;
+  }
+  // Search in last message content
+  if (conv.last_message?.content?.toLowerCase().includes(query)) {
+    return true;
+  }
+  return false;
+}
+
 /**
  * ConversationList component.
  */
 export function ConversationList({
   conversations,
+  archivedConversations = [],
   loading,
   refreshing = false,
   error,
   onConversationPress,
+  onConversationLongPress,
   onRefresh,
   onSearchChange,
   onNewChat,
@@ -148,6 +181,7 @@ export function ConversationList({
   const { t } = useTranslation();
   const theme = useTheme();
   const [searchQuery, setSearchQuery] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
 
   // Filter conversations based on search query
   const filteredConversations = useMemo(() => {
@@ -155,23 +189,17 @@ export function ConversationList({
       return conversations;
     }
     const query = searchQuery.toLowerCase();
-    return conversations.filter((conv) => {
-      // Search in conversation name
-      if (conv.name?.toLowerCase().includes(query)) {
-        return true;
-      }
-      // Search in participant names (for direct messages) - filter out null/undefined first
-      if (conv.participant_names?.some((name) => name?.toLowerCase().includes(query) ?? false)) {
-        return true;
-      }
-      // Search in last message content
-      if (conv.last_message?.content?.toLowerCase().includes(query)) {
-        return true;
-      }
-      return false;
-    });
+    return conversations.filter((conv) => matchesSearch(conv, query));
   }, [conversations, searchQuery]);
 
+  const filteredArchivedConversations = useMemo(() => {
+    if (!searchQuery.trim()) {
+      return archivedConversations;
+    }
+    const query = searchQuery.toLowerCase();
+    return archivedConversations.filter((conv) => matchesSearch(conv, query));
+  }, [archivedConversations, searchQuery]);
+
   const handleSearchChange = useCallback(
     (query: string) => {
       setSearchQuery(query);
@@ -182,9 +210,13 @@ export function ConversationList({
 
   const renderItem = useCallback(
     ({ item }: ListRenderItemInfo<ConversationWithLastMessage>) => (
-      <ConversationListItem conversation={item} onPress={onConversationPress} />
+      <ConversationListItem
+        conversation={item}
+        onPress={onConversationPress}
+        onLongPress={onConversationLongPress}
+      />
     ),
-    [onConversationPress]
+    [onConversationPress, onConversationLongPress]
   );
 
   const keyExtractor = useCallback((item: ConversationWithLastMessage) => item.id, []);
@@ -202,8 +234,55 @@ export function ConversationList({
     [showHeader, handleSearchChange, onNewChat, hideNewChatButton]
   );
 
+  // Archived section below the main list, collapsed until tapped
+  const ListFooter = useCallback(
+    () =>
+      filteredArchivedConversations.length > 0 ? (
+        <YStack testID="archived-conversations">
+          <Pressable
+            testID="archived-conversations-toggle"
+            onPress={() => setShowArchived((prev) => !prev)}
+            accessibilityRole="button"
+            accessibilityState={{ expanded: showArchived }}
+          >
+            <XStack
+              alignItems="center"
+              gap="$2"
+              paddingHorizontal="$4"
+              paddingVertical="$3"
+              borderBottomWidth={1}
+              borderBottomColor="$borderLight"
+            >
+              <Ionicons name="archive-outline" size={18} color="#8E8E93" />
+              <TamaguiText fontSize="$md" color="$color2" flex={1}>
+                {t('chat.list.archived_count', { count: filteredArchivedConversations.length })}
+              </TamaguiText>
+              <Ionicons
+                name={showArchived ? 'chevron-up' : 'chevron-down'}
+                size={18}
+                color="#8E8E93"
+              />
+            </XStack>
+          </Pressable>
+
+          {showArchived &&
+            filteredArchivedConversations.map((conversation) => (
+              <ConversationListItem
+                key={conversation.id}
+                conversation={conversation}
+                onPress={onConversationPress}
+                onLongPress={onConversationLongPress}
+              />
+            ))}
+        </YStack>
+      ) : null,
+    [filteredArchivedConversations, showArchived, onConversationPress, onConversationLongPress, t]
+  );
+
+  const hasConversations = conversations.length > 0 || archivedConversations.length > 0;
+
   // Show loading state on initial load
-  if (loading && conversations.length === 0) {
+  if (loading && !hasConversations) {
     return (
       <YStack flex={1}>
         {showHeader && <ChatListHeader onSearchChange={handleSearchChange} onNewChat={onNewChat} hideNewChatButton={hideNewChatButton} />}
@@ -213,7 +292,7 @@ export function ConversationList({
   }
 
   // Show error state
-  if (error && conversations.length === 0) {
+  if (error && !hasConversations) {
     return (
       <YStack flex={1}>
         {showHeader && <ChatListHeader onSearchChange={handleSearchChange} onNewChat={onNewChat} hideNewChatButton={hideNewChatButton} />}
@@ -223,7 +302,7 @@ export function ConversationList({
   }
 
   // Show empty state
-  if (!loading && conversations.length === 0) {
+  if (!loading && !hasConversations) {
     return (
       <YStack flex={1}>
         {showHeader && <ChatListHeader onSearchChange={handleSearchChange} onNewChat={onNewChat} hideNewChatButton={hideNewChatButton} />}
@@ -233,7 +312,12 @@ export function ConversationList({
   }
 
   // Show empty state when search has no results
-  if (!loading && filteredConversations.length === 0 && searchQuery.trim()) {
+  if (
+    !loading &&
+    filteredConversations.length === 0 &&
+    filteredArchivedConversations.length === 0 &&
+    searchQuery.trim()
+  ) {
     return (
       <YStack flex={1}>
         <ChatListHeader onSearchChange={handleSearchChange} onNewChat={onNewChat} hideNewChatButton={hideNewChatButton} />
@@ -257,6 +341,7 @@ export function ConversationList({
       renderItem={renderItem}
       keyExtractor={keyExtractor}
       ListHeaderComponent={ListHeader}
+      ListFooterComponent={ListFooter}
       refreshControl={
         onRefresh ? (
           <RefreshControl
@@ -6,11 +6,13 @@
  * - Last message preview (truncated)
  * - Timestamp of last message
  * - Unread count badge
+ * - Pin marker for conversations the member pinned
  */
 
 import { useCallback } from 'react';
 import { Pressable } from 'react-native';
 import { Stack, Text as TamaguiText } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
 import { useTranslation } from '@/i18n';
 import type { ConversationWithLastMessage } from '@/types/database';
 
@@ -25,6 +27,11 @@ export interface ConversationListItemProps {
    */
   onPress: (conversationId: string) => void;
 
+  /**
+   * Callback when the conversation is long-pressed (pin and archive actions).
+   */
+  onLongPress?: (conversation: ConversationWithLastMessage) => void;
+
   /**
    * Test ID for E2E testing.
    */
@@ -92,6 +99,9 @@ function getLastMessagePreview(
   if (content_type === 'prayer_card') {
     return `🙏 ${t('chat.prayer_card')}`;
   }
+  if (content_type === 'poll') {
+    return `📊 ${content || t('chat.poll.title')}`;
+  }
   if (content_type === 'system') {
     return content || t('chat.system_message');
   }
@@ -109,7 +119,12 @@ function getLastMessagePreview(
 /**
  * ConversationListItem component.
  */
-export function ConversationListItem({ conversation, onPress, testID }: ConversationListItemProps) {
+export function ConversationListItem({
+  conversation,
+  onPress,
+  onLongPress,
+  testID,
+}: ConversationListItemProps) {
   const { t } = useTranslation();
 
   const handlePress = useCallback(() => {
@@ -118,6 +133,11 @@ export function ConversationListItem({ conversation, onPress, testID }: Conversa
     onPress(conversation.id);
   }, [conversation.id, conversation.isMock, onPress]);
 
+  const handleLongPress = useCallback(() => {
+    if (conversation.isMock) return;
+    onLongPress?.(conversation);
+  }, [conversation, onLongPress]);
+
   const displayName = getConversationDisplayName(conversation);
   const lastMessagePreview = getLastMessagePreview(conversation, t);
   const timestamp = conversation.last_message
@@ -133,6 +153,7 @@ export function ConversationListItem({ conversation, onPress, testID }: Conversa
   return (
     <Pressable
       onPress={handlePress}
+      onLongPress={onLongPress ? handleLongPress : undefined}
       testID={itemTestID}
       accessibilityRole={isMock ? undefined : 'button'}
       accessibilityLabel={`${displayName} conversation`}
@@ -176,6 +197,17 @@ export function ConversationListItem({ conversation, onPress, testID }: Conversa
               {displayName}
             </TamaguiText>
 
+            {conversation.pinned_at && (
+              <Stack testID="pinned-indicator" marginLeft="$2">
+                <Ionicons
+                  name="pin"
+                  size={14}
+                  color="#8E8E93"
+                  accessibilityLabel={t('chat.list.pinned')}
+                />
+              </Stack>
+            )}
+
             {timestamp && (
               <TamaguiText fontSize={14} color="$color3" marginLeft="$2">
                 {timestamp}
@@ -0,0 +1,410 @@
+/**
+ * ConversationParticipantsSheet component.
+ *
+ * Modal listing the participants of a conversation, opened from the chat
+ * menu. In group conversations:
+ * - Admins are badged and listed first
+ * - Admins can rename the group, add members, and tap a participant to
+ *   promote, demote, or remove them
+ * - Everyone can leave the group
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, Pressable, ScrollView, TextInput } from 'react-native';
+import { Stack, Text as TamaguiText, useTheme, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import { MemberPicker } from './MemberPicker';
+import { MAX_CONVERSATION_NAME_LENGTH } from '../hooks/useCreateConversation';
+import type { ConversationParticipantWithMember } from '../hooks/useConversationParticipants';
+import type { TenantMember } from '../hooks/useTenantMembers';
+
+export interface ConversationParticipantsSheetProps {
+  /**
+   * Whether the modal is visible.
+   */
+  visible: boolean;
+
+  participants: ConversationParticipantWithMember[];
+
+  /**
+   * The current user's membership ID.
+   */
+  currentMembershipId: string | null;
+
+  /**
+   * Group name, if set.
+   */
+  conversationName: string | null;
+
+  /**
+   * Whether the conversation is a group conversation.
+   */
+  isGroup: boolean;
+
+  /**
+   * Whether the current member is an admin of the group.
+   */
+  isAdmin: boolean;
+
+  /**
+   * Whether the participant list is still loading.
+   */
+  loading?: boolean;
+
+  /**
+   * Members that can be added. Only needed for admins.
+   */
+  members?: TenantMember[];
+
+  /**
+   * Callback with the new group name. Resolves to whether it was saved.
+   */
+  onRename: (name: string) => Promise<boolean>;
+
+  /**
+   * Callback with the members to add. Resolves to whether they were added.
+   */
+  onAddParticipants: (membershipIds: string[]) => Promise<boolean>;
+
+  /**
+   * Callback when an admin taps another participant.
+   */
+  onManageParticipant: (participant: ConversationParticipantWithMember) => void;
+
+  /**
+   * Callback when leave is tapped.
+   */
+  onLeave: () => void;
+
+  onClose: () => void;
+}
+
+/**
+ * ConversationParticipantsSheet component.
+ */
+export function ConversationParticipantsSheet({
+  visible,
+  participants,
+  currentMembershipId,
+  conversationName,
+  isGroup,
+  isAdmin,
+  loading = false,
+  members = [],
+  onRename,
+  onAddParticipants,
+  onManageParticipant,
+  onLeave,
+  onClose,
+}: ConversationParticipantsSheetProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+
+  const [editingName, setEditingName] = useState(false);
+  const [name, setName] = useState(conversationName ?? '');
+  const [adding, setAdding] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the list each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setEditingName(false);
+      setName(conversationName ?? '');
+      setAdding(false);
+      setSelectedIds([]);
+    }
+  }, [visible, conversationName]);
+
+  const handleToggleMember = useCallback((membershipId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(membershipId)
+        ? prev.filter((id) => id !== membershipId)
+        : [...prev, membershipId]
+    );
+  }, []);
+
+  const handleSaveName = useCallback(async () => {
+    setSaving(true);
+    const saved = await onRename(name);
+    setSaving(false);
+    if (saved) {
+      setEditingName(false);
+    }
+  }, [name, onRename]);
+
+  const handleAddMembers = useCallback(async () => {
+    setSaving(true);
+    const added = await onAddParticipants(selectedIds);
+    setSaving(false);
+    if (added) {
+      setAdding(false);
+      setSelectedIds([]);
+    }
+  }, [onAddParticipants, selectedIds]);
+
+  const renderHeader = () => {
+    if (adding) {
+      return (
+        <XStack alignItems="center" justifyContent="space-between">
+          <TamaguiText fontSize="$lg" fontWeight="bold" color="$color">
+            {t('chat.add_participants')}
+          </TamaguiText>
+          <TamaguiText fontSize="$sm" color="$color3">
+            {t('chat.conversation.selected_count', { count: selectedIds.length })}
+          </TamaguiText>
+        </XStack>
+      );
+    }
+
+    if (editingName) {
+      return (
+        <XStack alignItems="center" gap="$2">
+          <XStack
+            flex={1}
+            paddingHorizontal="$3"
+            borderRadius="$2"
+            backgroundColor="$backgroundTertiary"
+          >
+            <TextInput
+              testID="participants-name-input"
+              value={name}
+              onChangeText={setName}
+              placeholder={t('chat.conversation.name_placeholder')}
+              placeholderTextColor="#8e8e93"
+              maxLength={MAX_CONVERSATION_NAME_LENGTH}
+              autoFocus
+              style={{ flex: 1, fontSize: 15, paddingVertical: 8, color: theme.color?.val }}
+            />
+          </XStack>
+          <Pressable
+            testID="participants-name-save"
+            onPress={() => void handleSaveName()}
+            disabled={saving}
+            hitSlop={8}
+          >
+            <TamaguiText fontSize="$md" fontWeight="600" color="$primary">
+              {t('chat.conversation.save')}
+            </TamaguiText>
+          </Pressable>
+        </XStack>
+      );
+    }
+
+    return (
+      <XStack alignItems="center" justifyContent="space-between" gap="$2">
+        <YStack flex={1}>
+          <TamaguiText fontSize="$lg" fontWeight="bold" color="$color" numberOfLines={1}>
+            {isGroup && conversationName ? conversationName : t('chat.participants')}
+          </TamaguiText>
+          {isGroup && conversationName && (
+            <TamaguiText fontSize="$sm" color="$color3">
+              {t('chat.participants')} · {participants.length}
+            </TamaguiText>
+          )}
+        </YStack>
+        {isAdmin && (
+          <Pressable
+            testID="participants-rename"
+            onPress={() => setEditingName(true)}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel={t('chat.conversation.rename')}
+          >
+            <Ionicons name="pencil" size={18} color="#007AFF" />
+          </Pressable>
+        )}
+      </XStack>
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={{ flex: 1 }} onPress={onClose}>
+        <Stack
+          flex={1}
+          backgroundColor="rgba(0, 0, 0, 0.5)"
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Pressable onPress={(e) => e.stopPropagation()} style={{ width: '90%', maxWidth: 400 }}>
+            <YStack
+              testID="participants-sheet"
+              backgroundColor="$background"
+              borderRadius="$4"
+              height={adding ? 560 : undefined}
+              maxHeight={560}
+            >
+              {/* Header */}
+              <YStack padding="$4" borderBottomWidth={1} borderBottomColor="$borderLight">
+                {renderHeader()}
+              </YStack>
+
+              {adding ? (
+                <MemberPicker
+                  members={members}
+                  selectedIds={selectedIds}
+                  onToggle={handleToggleMember}
+                  excludeIds={participants.map((p) => p.membershipId)}
+                />
+              ) : (
+                <ScrollView>
+                  <YStack paddingVertical="$2">
+                    {loading ? (
+                      <ActivityIndicator size="small" />
+                    ) : (
+                      participants.map((participant) => {
+                        const isCurrentMember = participant.membershipId === currentMembershipId;
+                        const canManage = isAdmin && !isCurrentMember;
+
+                        return (
+                          <Pressable
+                            key={participant.id}
+                            testID={`participant-${participant.membershipId}`}
+                            onPress={() => onManageParticipant(participant)}
+                            disabled={!canManage}
+                          >
+                            <XStack
+                              alignItems="center"
+                              gap="$3"
+                              paddingHorizontal="$4"
+                              paddingVertical="$2"
+                            >
+                              <Stack
+                                width={36}
+                                height={36}
+                                borderRadius={18}
+                                backgroundColor="$primary"
+                                alignItems="center"
+                                justifyContent="center"
+                              >
+                                <TamaguiText fontSize="$sm" color="white">
+                                  {(participant.displayName || '?').charAt(0).toUpperCase()}
+                                </TamaguiText>
+                              </Stack>
+
+                              <TamaguiText fontSize="$md" color="$color" flex={1} numberOfLines={1}>
+                                {participant.displayName || t('chat.conversation.unknown_member')}
+                                {isCurrentMember ? ` (${t('chat.conversation.you')})` : ''}
+                              </TamaguiText>
+
+                              {isGroup && participant.role === 'admin' && (
+                                <Stack
+                                  paddingHorizontal="$2"
+                                  paddingVertical="$0.5"
+                                  borderRadius={8}
+                                  backgroundColor="rgba(0,122,255,0.12)"
+                                >
+                                  <TamaguiText fontSize="$xs" fontWeight="600" color="#007AFF">
+                                    {t('chat.conversation.admin')}
+                                  </TamaguiText>
+                                </Stack>
+                              )}
+
+                              {canManage && (
+                                <Ionicons name="ellipsis-horizontal" size={18} color="#8E8E93" />
+                              )}
+                            </XStack>
+                          </Pressable>
+                        );
+                      })
+                    )}
+                  </YStack>
+                </ScrollView>
+              )}
+
+              {/* Footer */}
+              {adding ? (
+                <XStack padding="$4" borderTopWidth={1} borderTopColor="$borderLight" gap="$2">
+                  <Pressable
+                    testID="participants-add-cancel"
+                    onPress={() => setAdding(false)}
+                    style={{ flex: 1 }}
+                  >
+                    <Stack
+                      padding="$3"
+                      borderRadius="$2"
+                      backgroundColor="$backgroundTertiary"
+                      alignItems="center"
+                    >
+                      <TamaguiText fontSize="$md" color="$color">
+                        {t('chat.cancel')}
+                      </TamaguiText>
+                    </Stack>
+                  </Pressable>
+                  <Pressable
+                    testID="participants-add-confirm"
+                    onPress={() => void handleAddMembers()}
+                    disabled={selectedIds.length === 0 || saving}
+                    style={{ flex: 1 }}
+                  >
+                    <Stack
+                      padding="$3"
+                      borderRadius="$2"
+                      backgroundColor="$primary"
+                      alignItems="center"
+                      opacity={selectedIds.length === 0 || saving ? 0.5 : 1}
+                    >
+                      {saving ? (
+                        <ActivityIndicator size="small" color="white" />
+                      ) : (
+                        <TamaguiText fontSize="$md" fontWeight="600" color="white">
+                          {t('chat.conversation.add')}
+                        </TamaguiText>
+                      )}
+                    </Stack>
+                  </Pressable>
+                </XStack>
+              ) : (
+                <YStack borderTopWidth={1} borderTopColor="$borderLight">
+                  {isAdmin && (
+                    <Pressable testID="participants-add" onPress={() => setAdding(true)}>
+                      <XStack
+                        alignItems="center"
+                        gap="$3"
+                        padding="$3"
+                        paddingHorizontal="$4"
+                        borderBottomWidth={1}
+                        borderBottomColor="$borderLight"
+                      >
+                        <Ionicons name="person-add-outline" size={20} color="#007AFF" />
+                        <TamaguiText fontSize="$md" color="#007AFF">
+                          {t('chat.add_participants')}
+                        </TamaguiText>
+                      </XStack>
+                    </Pressable>
+                  )}
+                  {isGroup && (
+                    <Pressable testID="participants-leave" onPress={onLeave}>
+                      <XStack
+                        alignItems="center"
+                        gap="$3"
+                        padding="$3"
+                        paddingHorizontal="$4"
+                        borderBottomWidth={1}
+                        borderBottomColor="$borderLight"
+                      >
+                        <Ionicons name="exit-outline" size={20} color="#FF3B30" />
+                        <TamaguiText fontSize="$md" color="$danger">
+                          {t('chat.leave_conversation')}
+                        </TamaguiText>
+                      </XStack>
+                    </Pressable>
+                  )}
+                  <Pressable testID="participants-close" onPress={onClose}>
+                    <XStack justifyContent="center" padding="$3">
+                      <TamaguiText fontSize="$md" color="$primary" fontWeight="bold">
+                        {t('chat.conversation.close')}
+                      </TamaguiText>
+                    </XStack>
+                  </Pressable>
+                </YStack>
+              )}
+            </YStack>
+          </Pressable>
+        </Stack>
+      </Pressable>
+    </Modal>
+  );
+}
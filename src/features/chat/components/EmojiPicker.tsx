@@ -82,6 +82,15 @@ const EMOJI_SET_2 = [
 ];
 /* eslint-enable @typescript-eslint/no-unsafe-assignment */
 
+/**
+ * Look up the PNG asset for an emoji code emitted by the picker (e.g. ':heart:').
+ * Returns null for codes that are not in either set.
+ */
+export function getEmojiSource(code: string): number | null {
+  const emoji = [...EMOJI_SET_1, ...EMOJI_SET_2].find((e) => ':' + e.name + ':' === code);
+  return emoji ? (emoji.source as number) : null;
+}
+
 export interface EmojiPickerProps {
   /**
    * Callback when an emoji is selected.
@@ -6,14 +6,16 @@
  * - Displays conversation participants with checkboxes
  * - Max 5 selections enforced
  * - Current user filtered out
+ * - Search by name, including 초성 ("ㄱㅁㅈ" finds "김민지")
  * - i18n support for English and Korean
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   Pressable,
   ScrollView,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import {
   Stack,
@@ -26,6 +28,7 @@ import {
 } from 'tamagui';
 import { useTranslation } from '@/i18n';
 import { supabase } from '@/lib/supabase';
+import { compareKorean, filterByHangulSearch } from '@/lib/hangul';
 
 // ============================================================================
 // TYPES
@@ -141,6 +144,7 @@ export function EventChatSelector({
     ConversationParticipant[]
   >([]);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -192,7 +196,8 @@ export function EventChatSelector({
                 photo_url: member.memberships?.users?.photo_url,
               };
             })
-            .filter((p) => p.membership_id !== currentMembershipId) ?? [];
+            .filter((p) => p.membership_id !== currentMembershipId)
+            .sort((a, b) => compareKorean(a.display_name ?? '', b.display_name ?? '')) ?? [];
 
         setParticipants(transformedData);
       } catch (err) {
@@ -209,9 +214,16 @@ export function EventChatSelector({
   useEffect(() => {
     if (!visible) {
       setSelectedIds(new Set());
+      setSearchQuery('');
     }
   }, [visible]);
 
+  const visibleParticipants = useMemo(
+    () =>
+      filterByHangulSearch(participants, searchQuery, (participant) => participant.display_name),
+    [participants, searchQuery]
+  );
+
   const toggleSelection = useCallback(
     (membershipId: string) => {
       setSelectedIds((prev) => {
@@ -260,6 +272,26 @@ export function EventChatSelector({
           </TamaguiText>
         </YStack>
 
+        {/* Search */}
+        <XStack
+          margin="$3"
+          paddingHorizontal="$3"
+          borderRadius="$2"
+          backgroundColor="$backgroundSecondary"
+          alignItems="center"
+        >
+          <TextInput
+            testID="event-chat-search-input"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder={t('chat.event_chat_search_placeholder')}
+            placeholderTextColor="#8e8e93"
+            autoCorrect={false}
+            autoCapitalize="none"
+            style={{ flex: 1, fontSize: 15, paddingVertical: 8, color: theme.color?.val }}
+          />
+        </XStack>
+
         {/* Error state */}
         {error && (
           <YStack padding="$4" backgroundColor="$dangerLight" testID="event-chat-error">
@@ -292,8 +324,14 @@ export function EventChatSelector({
                   {t('chat.no_other_participants')}
                 </TamaguiText>
               </YStack>
+            ) : visibleParticipants.length === 0 ? (
+              <YStack padding="$4" alignItems="center">
+                <TamaguiText fontSize="$sm" color="$color3">
+                  {t('chat.event_chat_search_no_results')}
+                </TamaguiText>
+              </YStack>
             ) : (
-              participants.map((participant) => {
+              visibleParticipants.map((participant) => {
                 const isSelected = selectedIds.has(participant.membership_id);
                 const isDisabled = !isSelected && isMaxReached;
 
@@ -0,0 +1,279 @@
+/**
+ * ForwardMessageSheet component.
+ *
+ * Modal for picking the conversations to forward a message to, opened from
+ * the message action sheet.
+ * Features:
+ * - Search by conversation or participant name, including 초성
+ * - Multi-select up to MAX_FORWARD_TARGETS conversations
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Modal, Pressable, ScrollView, TextInput } from 'react-native';
+import { Stack, Text as TamaguiText, useTheme, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import { filterByHangulSearch } from '@/lib/hangul';
+import type { ConversationWithLastMessage } from '@/types/database';
+import { MAX_FORWARD_TARGETS } from '../hooks/useForwardMessage';
+
+export interface ForwardMessageSheetProps {
+  /**
+   * Whether the modal is visible.
+   */
+  visible: boolean;
+
+  /**
+   * Conversations the message can be forwarded to.
+   */
+  conversations: ConversationWithLastMessage[];
+
+  /**
+   * Whether the conversation list is still loading.
+   */
+  loading?: boolean;
+
+  /**
+   * Whether a forward is in progress.
+   */
+  forwarding?: boolean;
+
+  /**
+   * Callback with the selected conversation IDs. Resolves to whether the
+   * message was forwarded; the sheet stays open on failure.
+   */
+  onForward: (conversationIds: string[]) => Promise<boolean>;
+
+  onClose: () => void;
+}
+
+/**
+ * Name shown for a conversation in the picker.
+ */
+function getConversationName(conversation: ConversationWithLastMessage, fallback: string): string {
+  if (conversation.name) {
+    return conversation.name;
+  }
+  if (conversation.participant_names?.length) {
+    return conversation.participant_names.join(', ');
+  }
+  return fallback;
+}
+
+/**
+ * ForwardMessageSheet component.
+ */
+export function ForwardMessageSheet({
+  visible,
+  conversations,
+  loading = false,
+  forwarding = false,
+  onForward,
+  onClose,
+}: ForwardMessageSheetProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Start with nothing selected each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setSearchQuery('');
+      setSelectedIds([]);
+    }
+  }, [visible]);
+
+  const visibleConversations = useMemo(
+    () =>
+      filterByHangulSearch(conversations, searchQuery, (conversation) =>
+        getConversationName(conversation, t('chat.unknown_conversation'))
+      ),
+    [conversations, searchQuery, t]
+  );
+
+  const handleToggle = useCallback((conversationId: string) => {
+    setSelectedIds((prev) => {
+      if (prev.includes(conversationId)) {
+        return prev.filter((id) => id !== conversationId);
+      }
+      return prev.length < MAX_FORWARD_TARGETS ? [...prev, conversationId] : prev;
+    });
+  }, []);
+
+  const handleForward = useCallback(async () => {
+    const forwarded = await onForward(selectedIds);
+    if (forwarded) {
+      onClose();
+    }
+  }, [onClose, onForward, selectedIds]);
+
+  const canForward = selectedIds.length > 0 && !forwarding;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={{ flex: 1 }} onPress={onClose}>
+        <Stack
+          flex={1}
+          backgroundColor="rgba(0, 0, 0, 0.5)"
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Pressable onPress={(e) => e.stopPropagation()} style={{ width: '90%', maxWidth: 400 }}>
+            <YStack
+              testID="forward-sheet"
+              backgroundColor="$background"
+              borderRadius="$4"
+              height={560}
+            >
+              {/* Header */}
+              <XStack
+                padding="$4"
+                borderBottomWidth={1}
+                borderBottomColor="$borderLight"
+                alignItems="center"
+                justifyContent="space-between"
+              >
+                <TamaguiText fontSize="$lg" fontWeight="bold" color="$color">
+                  {t('chat.forward.title')}
+                </TamaguiText>
+                <TamaguiText fontSize="$sm" color="$color3">
+                  {t('chat.forward.selected_count', {
+                    count: selectedIds.length,
+                    max: MAX_FORWARD_TARGETS,
+                  })}
+                </TamaguiText>
+              </XStack>
+
+              {/* Search */}
+              <XStack
+                margin="$3"
+                paddingHorizontal="$3"
+                borderRadius="$2"
+                backgroundColor="$backgroundTertiary"
+                alignItems="center"
+                gap="$2"
+              >
+                <Ionicons name="search" size={16} color="#8E8E93" />
+                <TextInput
+                  testID="forward-search"
+                  value={searchQuery}
+                  onChangeText={setSearchQuery}
+                  placeholder={t('chat.search_conversations')}
+                  placeholderTextColor="#8e8e93"
+                  autoCorrect={false}
+                  autoCapitalize="none"
+                  style={{ flex: 1, fontSize: 15, paddingVertical: 8, color: theme.color?.val }}
+                />
+              </XStack>
+
+              {loading ? (
+                <YStack flex={1} padding="$4" alignItems="center">
+                  <ActivityIndicator size="small" color={theme.primary?.val} />
+                </YStack>
+              ) : (
+                <ScrollView style={{ flex: 1 }} keyboardShouldPersistTaps="handled">
+                  {visibleConversations.length === 0 ? (
+                    <YStack padding="$4" alignItems="center">
+                      <TamaguiText fontSize="$sm" color="$color3">
+                        {t('chat.no_search_results')}
+                      </TamaguiText>
+                    </YStack>
+                  ) : (
+                    visibleConversations.map((conversation) => {
+                      const selected = selectedIds.includes(conversation.id);
+                      const name = getConversationName(
+                        conversation,
+                        t('chat.unknown_conversation')
+                      );
+
+                      return (
+                        <Pressable
+                          key={conversation.id}
+                          testID={`forward-target-${conversation.id}`}
+                          onPress={() => handleToggle(conversation.id)}
+                          accessibilityRole="checkbox"
+                          accessibilityState={{ checked: selected }}
+                        >
+                          <XStack
+                            alignItems="center"
+                            gap="$3"
+                            paddingHorizontal="$4"
+                            paddingVertical="$2.5"
+                            borderBottomWidth={1}
+                            borderBottomColor="$borderLight"
+                          >
+                            <Stack
+                              width={36}
+                              height={36}
+                              borderRadius={18}
+                              backgroundColor="$backgroundTertiary"
+                              alignItems="center"
+                              justifyContent="center"
+                            >
+                              <TamaguiText fontSize="$sm" fontWeight="600" color="$color2">
+                                {name.charAt(0).toUpperCase()}
+                              </TamaguiText>
+                            </Stack>
+
+                            <TamaguiText fontSize="$md" color="$color" flex={1} numberOfLines={1}>
+                              {name}
+                            </TamaguiText>
+
+                            <Ionicons
+                              name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                              size={22}
+                              color={selected ? '#007AFF' : '#8E8E93'}
+                            />
+                          </XStack>
+                        </Pressable>
+                      );
+                    })
+                  )}
+                </ScrollView>
+              )}
+
+              {/* Footer */}
+              <XStack padding="$4" borderTopWidth={1} borderTopColor="$borderLight" gap="$2">
+                <Pressable testID="forward-cancel" onPress={onClose} style={{ flex: 1 }}>
+                  <Stack
+                    padding="$3"
+                    borderRadius="$2"
+                    backgroundColor="$backgroundTertiary"
+                    alignItems="center"
+                  >
+                    <TamaguiText fontSize="$md" color="$color">
+                      {t('chat.cancel')}
+                    </TamaguiText>
+                  </Stack>
+                </Pressable>
+                <Pressable
+                  testID="forward-confirm"
+                  onPress={() => void handleForward()}
+                  disabled={!canForward}
+                  style={{ flex: 1 }}
+                >
+                  <Stack
+                    padding="$3"
+                    borderRadius="$2"
+                    backgroundColor="$primary"
+                    alignItems="center"
+                    opacity={canForward ? 1 : 0.5}
+                  >
+                    {forwarding ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <TamaguiText fontSize="$md" fontWeight="600" color="white">
+                        {t('chat.forward.send')}
+                      </TamaguiText>
+                    )}
+                  </Stack>
+                </Pressable>
+              </XStack>
+            </YStack>
+          </Pressable>
+        </Stack>
+      </Pressable>
+    </Modal>
+  );
+}
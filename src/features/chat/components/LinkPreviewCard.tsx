@@ -0,0 +1,99 @@
+/**
+ * LinkPreviewCard component.
+ *
+ * Preview card shown under a text message for the first link in it, with the
+ * page's image, site, title and description from its OpenGraph tags.
+ *
+ * - Nothing is rendered while loading or when the page has no preview
+ * - Tap the card to open the link
+ */
+
+import { useState } from 'react';
+import { Image as RNImage, Linking, Pressable } from 'react-native';
+import { Text as TamaguiText, YStack } from 'tamagui';
+import { useLinkPreview } from '../hooks/useLinkPreview';
+
+export interface LinkPreviewCardProps {
+  /**
+   * The link as written in the message.
+   */
+  url: string;
+
+  testID?: string;
+}
+
+const CARD_WIDTH = 240;
+
+// OpenGraph images are designed for 1.91:1
+const IMAGE_HEIGHT = Math.round(CARD_WIDTH / 1.91);
+
+/**
+ * Host name shown when the page has no site name.
+ */
+function getHostName(url: string): string {
+  const host = /^https?:\/\/([^/?#:]+)/i.exec(url)?.[1] ?? url;
+  return host.replace(/^www\./i, '');
+}
+
+/**
+ * LinkPreviewCard component.
+ */
+export function LinkPreviewCard({ url, testID = 'link-preview' }: LinkPreviewCardProps) {
+  const { preview } = useLinkPreview(url);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  if (!preview || (!preview.title && !preview.description)) {
+    return null;
+  }
+
+  const handlePress = () => {
+    Linking.openURL(url).catch((error) => {
+      console.error('Failed to open link:', error);
+    });
+  };
+
+  return (
+    <Pressable testID={testID} onPress={handlePress} accessibilityRole="link">
+      <YStack
+        width={CARD_WIDTH}
+        marginTop="$2"
+        borderRadius={12}
+        overflow="hidden"
+        borderWidth={1}
+        borderColor="$borderLight"
+        backgroundColor="$background"
+      >
+        {preview.image_url && !imageFailed && (
+          <RNImage
+            testID={`${testID}-image`}
+            source={{ uri: preview.image_url }}
+            style={{ width: CARD_WIDTH, height: IMAGE_HEIGHT }}
+            resizeMode="cover"
+            onError={() => setImageFailed(true)}
+          />
+        )}
+        <YStack padding="$2.5" gap="$1">
+          <TamaguiText fontSize="$xs" color="$color3" numberOfLines={1}>
+            {preview.site_name || getHostName(preview.url)}
+          </TamaguiText>
+          {preview.title && (
+            <TamaguiText
+              testID={`${testID}-title`}
+              fontSize="$sm"
+              fontWeight="600"
+              color="$color"
+              numberOfLines={2}
+            >
+              {preview.title}
+            </TamaguiText>
+          )}
+          {preview.description && (
+            <TamaguiText fontSize="$xs" color="$color3" numberOfLines={2}>
+              {preview.description}
+            </TamaguiText>
+          )}
+        </YStack>
+      </YStack>
+    </Pressable>
+  );
+}
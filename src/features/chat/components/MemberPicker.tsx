@@ -0,0 +1,151 @@
+/**
+ * MemberPicker component.
+ *
+ * Searchable, multi-select list of tenant members, used when starting a
+ * chat and when adding people to a group conversation.
+ * Features:
+ * - Search by name, including 초성 ("ㄱㅁㅈ" finds "김민지")
+ * - Checkmark on selected members
+ * - Members that can't be picked (the current member, existing
+ *   participants) are left out via excludeIds
+ */
+
+import { useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, TextInput } from 'react-native';
+import { Stack, Text as TamaguiText, useTheme, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import { filterByHangulSearch } from '@/lib/hangul';
+import type { TenantMember } from '../hooks/useTenantMembers';
+
+export interface MemberPickerProps {
+  members: TenantMember[];
+
+  /**
+   * Membership IDs that are currently selected.
+   */
+  selectedIds: string[];
+
+  /**
+   * Callback when a member is tapped.
+   */
+  onToggle: (membershipId: string) => void;
+
+  /**
+   * Membership IDs to leave out of the list.
+   */
+  excludeIds?: string[];
+
+  /**
+   * Whether the member list is still loading.
+   */
+  loading?: boolean;
+}
+
+/**
+ * MemberPicker component.
+ */
+export function MemberPicker({
+  members,
+  selectedIds,
+  onToggle,
+  excludeIds = [],
+  loading = false,
+}: MemberPickerProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const visibleMembers = useMemo(() => {
+    const pickable = members.filter((member) => !excludeIds.includes(member.membershipId));
+    return filterByHangulSearch(pickable, searchQuery, (member) => member.displayName);
+  }, [members, excludeIds, searchQuery]);
+
+  return (
+    <YStack flex={1}>
+      {/* Search */}
+      <XStack
+        margin="$3"
+        paddingHorizontal="$3"
+        borderRadius="$2"
+        backgroundColor="$backgroundTertiary"
+        alignItems="center"
+        gap="$2"
+      >
+        <Ionicons name="search" size={16} color="#8E8E93" />
+        <TextInput
+          testID="member-picker-search"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder={t('chat.conversation.search_members')}
+          placeholderTextColor="#8e8e93"
+          autoCorrect={false}
+          autoCapitalize="none"
+          style={{ flex: 1, fontSize: 15, paddingVertical: 8, color: theme.color?.val }}
+        />
+      </XStack>
+
+      {loading ? (
+        <YStack padding="$4" alignItems="center">
+          <ActivityIndicator size="small" color={theme.primary?.val} />
+        </YStack>
+      ) : (
+        <ScrollView testID="member-picker-list" keyboardShouldPersistTaps="handled">
+          {visibleMembers.length === 0 ? (
+            <YStack padding="$4" alignItems="center">
+              <TamaguiText fontSize="$sm" color="$color3">
+                {t('chat.conversation.no_members')}
+              </TamaguiText>
+            </YStack>
+          ) : (
+            visibleMembers.map((member) => {
+              const selected = selectedIds.includes(member.membershipId);
+
+              return (
+                <Pressable
+                  key={member.membershipId}
+                  testID={`member-picker-item-${member.membershipId}`}
+                  onPress={() => onToggle(member.membershipId)}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: selected }}
+                >
+                  <XStack
+                    alignItems="center"
+                    gap="$3"
+                    paddingHorizontal="$4"
+                    paddingVertical="$2.5"
+                    borderBottomWidth={1}
+                    borderBottomColor="$borderLight"
+                  >
+                    <Stack
+                      width={36}
+                      height={36}
+                      borderRadius={18}
+                      backgroundColor="$primary"
+                      alignItems="center"
+                      justifyContent="center"
+                    >
+                      <TamaguiText fontSize="$sm" color="white">
+                        {(member.displayName || '?').charAt(0).toUpperCase()}
+                      </TamaguiText>
+                    </Stack>
+
+                    <TamaguiText fontSize="$md" color="$color" flex={1} numberOfLines={1}>
+                      {member.displayName || t('chat.conversation.unknown_member')}
+                    </TamaguiText>
+
+                    <Ionicons
+                      name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                      size={22}
+                      color={selected ? '#007AFF' : '#8E8E93'}
+                    />
+                  </XStack>
+                </Pressable>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+    </YStack>
+  );
+}
@@ -0,0 +1,126 @@
+/**
+ * MentionSuggestions Component
+ *
+ * List of members (and @all / @leaders for leaders) matching the @query being
+ * typed in the composer. Picking a row replaces the query with the mention.
+ */
+
+import { memo } from 'react';
+import { Pressable } from 'react-native';
+import { Stack, Text as TamaguiText, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import type { MessageMention } from '@/types/database';
+import { GROUP_MENTIONS } from '../utils/mentions';
+
+export interface MentionSuggestionsProps {
+  /**
+   * Text typed after the '@'.
+   */
+  query: string;
+
+  /**
+   * Members that can be mentioned (the conversation's other participants).
+   */
+  candidates: MessageMention[];
+
+  /**
+   * Whether to offer @all and @leaders.
+   */
+  includeGroupMentions?: boolean;
+
+  /**
+   * Callback when a suggestion is picked.
+   */
+  onSelect: (mention: MessageMention) => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * Suggestions whose name starts a word matching the query (case-insensitive).
+ */
+function filterSuggestions(
+  query: string,
+  candidates: MessageMention[],
+  includeGroupMentions: boolean
+): MessageMention[] {
+  const needle = query.toLowerCase();
+  const matches = (name: string) =>
+    name
+      .toLowerCase()
+      .split(/\s+/)
+      .some((word) => word.startsWith(needle));
+
+  const groups = includeGroupMentions
+    ? GROUP_MENTIONS.filter((mention) => matches(mention.mention_type))
+    : [];
+  const members = candidates.filter(
+    (mention) => mention.display_name && matches(mention.display_name)
+  );
+
+  return [...groups, ...members].slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Mention suggestions shown above the composer.
+ */
+export const MentionSuggestions = memo(
+  ({ query, candidates, includeGroupMentions = false, onSelect }: MentionSuggestionsProps) => {
+    const { t } = useTranslation();
+    const suggestions = filterSuggestions(query, candidates, includeGroupMentions);
+
+    if (suggestions.length === 0) {
+      return null;
+    }
+
+    return (
+      <YStack
+        testID="mention-suggestions"
+        backgroundColor="$backgroundTertiary"
+        borderRadius={12}
+        paddingVertical="$1"
+      >
+        {suggestions.map((mention) => {
+          const isGroup = mention.mention_type !== 'member';
+          const key = mention.membership_id ?? mention.mention_type;
+          return (
+            <Pressable
+              key={key}
+              testID={`mention-suggestion-${key}`}
+              onPress={() => onSelect(mention)}
+              accessibilityRole="button"
+            >
+              <XStack alignItems="center" gap="$2" paddingHorizontal="$3" paddingVertical="$2">
+                <Stack
+                  width={28}
+                  height={28}
+                  borderRadius={14}
+                  backgroundColor="$background"
+                  alignItems="center"
+                  justifyContent="center"
+                >
+                  <Ionicons name={isGroup ? 'people' : 'person'} size={16} color="#8E8E93" />
+                </Stack>
+                <YStack flex={1}>
+                  <TamaguiText fontSize="$sm" fontWeight="600" color="$color1" numberOfLines={1}>
+                    {isGroup ? `@${mention.mention_type}` : mention.display_name}
+                  </TamaguiText>
+                  {isGroup && (
+                    <TamaguiText fontSize="$xs" color="$color3" numberOfLines={1}>
+                      {mention.mention_type === 'all'
+                        ? t('chat.mentions.all')
+                        : t('chat.mentions.leaders')}
+                    </TamaguiText>
+                  )}
+                </YStack>
+              </XStack>
+            </Pressable>
+          );
+        })}
+      </YStack>
+    );
+  }
+);
+
+MentionSuggestions.displayName = 'MentionSuggestions';
@@ -2,23 +2,29 @@
  * MessageActionSheet Component
  *
  * Bottom sheet that appears when a message is tapped.
- * Shows three options: Reply in thread, Quote in reply, Copy text.
+ * Shows a quick reaction row and three options: Reply in thread, Quote in reply, Copy text.
+ * Own messages inside the edit window also get Edit and Delete; admins can view
+ * the edit history of edited messages. Leaders can pin and unpin messages, and
+ * messages that can be forwarded get a Forward option.
  *
  * Features:
  * - Blur overlay on background
  * - Liquid Glass effect on iOS 26+
+ * - Quick reaction row, with "+" opening the full EmojiPicker
  * - Three action items with Ionicons
  * - Dismissible via tap outside or drag down
  */
 
 import { useCallback, memo, useState, useEffect } from 'react';
-import { Modal, Pressable, StyleSheet, View, Platform } from 'react-native';
+import { Image, Modal, Pressable, StyleSheet, View, Platform } from 'react-native';
 import { BlurView } from 'expo-blur';
 import { GlassView, isLiquidGlassAvailable } from 'expo-glass-effect';
 import { Text as TamaguiText, YStack, XStack, useTheme } from 'tamagui';
 import { useTranslation } from '@/i18n';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import type { MessageWithSender } from '@/types/database';
+import { QUICK_REACTIONS } from '../hooks/useMessageReactions';
+import { EmojiPicker, getEmojiSource } from './EmojiPicker';
 
 export interface MessageActionSheetProps {
   /**
@@ -51,6 +57,41 @@ export interface MessageActionSheetProps {
    */
   onCopyText: (message: MessageWithSender) => void;
 
+  /**
+   * Callback when "Forward" is selected. The option is hidden when omitted.
+   */
+  onForward?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback when an emoji reaction is picked. The reaction row is hidden when omitted.
+   */
+  onReact?: (message: MessageWithSender, emoji: string) => void;
+
+  /**
+   * Callback when "Edit" is selected. The option is hidden when omitted.
+   */
+  onEdit?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback when "Delete" is selected. The option is hidden when omitted.
+   */
+  onDelete?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback when "Edit history" is selected. The option is hidden when omitted.
+   */
+  onViewEditHistory?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback when "Pin" / "Unpin" is selected. The option is hidden when omitted.
+   */
+  onTogglePin?: (message: MessageWithSender) => void;
+
+  /**
+   * Whether the message is currently pinned (shows "Unpin" instead of "Pin").
+   */
+  isPinned?: boolean;
+
   /**
    * Number of replies if the message has an existing thread.
    */
@@ -67,10 +108,12 @@ const ActionItem = memo(
     iconName,
     label,
     onPress,
+    destructive = false,
   }: {
     iconName: keyof typeof Ionicons.glyphMap;
     label: string;
     onPress: () => void;
+    destructive?: boolean;
   }) => (
     <Pressable
       onPress={onPress}
@@ -79,8 +122,8 @@ const ActionItem = memo(
       accessibilityRole="button"
     >
       <XStack alignItems="center" flex={1} gap="$3">
-        <Ionicons name={iconName} size={24} color="$color1" />
-        <TamaguiText fontSize="$4" color="$color1">
+        <Ionicons name={iconName} size={24} color={destructive ? '#FF3B30' : '$color1'} />
+        <TamaguiText fontSize="$4" color={destructive ? '$danger' : '$color1'}>
           {label}
         </TamaguiText>
       </XStack>
@@ -90,6 +133,59 @@ const ActionItem = memo(
 
 ActionItem.displayName = 'ActionItem';
 
+/**
+ * Quick reaction row shown above the action items.
+ */
+const ReactionRow = memo(
+  ({
+    onSelect,
+    onToggleMore,
+    moreVisible,
+  }: {
+    onSelect: (emoji: string) => void;
+    onToggleMore: () => void;
+    moreVisible: boolean;
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <XStack justifyContent="space-between" alignItems="center" paddingVertical="$2">
+        {QUICK_REACTIONS.map((emoji) => {
+          const source = getEmojiSource(emoji);
+          return source !== null ? (
+            <Pressable
+              key={emoji}
+              onPress={() => onSelect(emoji)}
+              style={({ pressed }) => [styles.reactionButton, pressed && styles.actionItemPressed]}
+              accessibilityLabel={`${t('chat.message.react')} ${emoji.replace(/:/g, '')}`}
+              accessibilityRole="button"
+              testID={`quick-reaction-${emoji.replace(/:/g, '')}`}
+            >
+              <Image source={source} style={styles.reactionEmoji} resizeMode="contain" />
+            </Pressable>
+          ) : null;
+        })}
+        <Pressable
+          onPress={onToggleMore}
+          style={({ pressed }) => [
+            styles.reactionButton,
+            styles.reactionMoreButton,
+            pressed && styles.actionItemPressed,
+          ]}
+          accessibilityLabel={t('chat.message.moreReactions')}
+          accessibilityRole="button"
+          accessibilityState={{ expanded: moreVisible }}
+          testID="quick-reaction-more"
+        >
+          <Ionicons name={moreVisible ? 'close' : 'add'} size={22} color="#8E8E93" />
+        </Pressable>
+      </XStack>
+    );
+  }
+);
+
+ReactionRow.displayName = 'ReactionRow';
+
 /**
  * Message action sheet component.
  */
@@ -101,11 +197,19 @@ export const MessageActionSheet = memo(
     onReplyInThread,
     onQuoteInReply,
     onCopyText,
+    onForward,
+    onReact,
+    onEdit,
+    onDelete,
+    onViewEditHistory,
+    onTogglePin,
+    isPinned = false,
     replyCount,
   }: MessageActionSheetProps) => {
     const { t } = useTranslation();
     const theme = useTheme();
     const [liquidGlassAvailable, setLiquidGlassAvailable] = useState(false);
+    const [showEmojiPicker, setShowEmojiPicker] = useState(false);
 
     useEffect(() => {
       setLiquidGlassAvailable(isLiquidGlassAvailable());
@@ -126,6 +230,43 @@ export const MessageActionSheet = memo(
       onDismiss();
     }, [message, onCopyText, onDismiss]);
 
+    const handleForward = useCallback(() => {
+      onForward?.(message);
+      onDismiss();
+    }, [message, onForward, onDismiss]);
+
+    const handleReact = useCallback(
+      (emoji: string) => {
+        onReact?.(message, emoji);
+        onDismiss();
+      },
+      [message, onReact, onDismiss]
+    );
+
+    const handleEdit = useCallback(() => {
+      onEdit?.(message);
+      onDismiss();
+    }, [message, onEdit, onDismiss]);
+
+    const handleDelete = useCallback(() => {
+      onDelete?.(message);
+      onDismiss();
+    }, [message, onDelete, onDismiss]);
+
+    const handleViewEditHistory = useCallback(() => {
+      onViewEditHistory?.(message);
+      onDismiss();
+    }, [message, onViewEditHistory, onDismiss]);
+
+    const handleTogglePin = useCallback(() => {
+      onTogglePin?.(message);
+      onDismiss();
+    }, [message, onTogglePin, onDismiss]);
+
+    const handleToggleEmojiPicker = useCallback(() => {
+      setShowEmojiPicker((prev) => !prev);
+    }, []);
+
     const handleBackdropPress = useCallback(() => {
       onDismiss();
     }, [onDismiss]);
@@ -180,6 +321,18 @@ export const MessageActionSheet = memo(
               <View style={styles.dragHandle} />
             </XStack>
 
+            {/* Reactions */}
+            {onReact && (
+              <YStack zIndex={1} gap="$2" marginBottom="$2">
+                <ReactionRow
+                  onSelect={handleReact}
+                  onToggleMore={handleToggleEmojiPicker}
+                  moreVisible={showEmojiPicker}
+                />
+                {showEmojiPicker && <EmojiPicker onEmojiSelect={handleReact} />}
+              </YStack>
+            )}
+
             {/* Action items */}
             <YStack zIndex={1}>
               <ActionItem
@@ -193,6 +346,42 @@ export const MessageActionSheet = memo(
                 onPress={handleQuoteInReply}
               />
               <ActionItem iconName="copy" label={t('chat.message.copyText')} onPress={handleCopyText} />
+              {onForward && (
+                <ActionItem
+                  iconName="arrow-redo-outline"
+                  label={t('chat.message.forward')}
+                  onPress={handleForward}
+                />
+              )}
+              {onTogglePin && (
+                <ActionItem
+                  iconName={isPinned ? 'pin' : 'pin-outline'}
+                  label={isPinned ? t('chat.message.unpin') : t('chat.message.pin')}
+                  onPress={handleTogglePin}
+                />
+              )}
+              {onEdit && (
+                <ActionItem
+                  iconName="create-outline"
+                  label={t('chat.message.edit')}
+                  onPress={handleEdit}
+                />
+              )}
+              {onViewEditHistory && (
+                <ActionItem
+                  iconName="time-outline"
+                  label={t('chat.message.editHistory')}
+                  onPress={handleViewEditHistory}
+                />
+              )}
+              {onDelete && (
+                <ActionItem
+                  iconName="trash-outline"
+                  label={t('chat.message.delete')}
+                  onPress={handleDelete}
+                  destructive
+                />
+              )}
             </YStack>
           </YStack>
         </Pressable>
@@ -243,4 +432,18 @@ const styles = StyleSheet.create({
   actionItemPressed: {
     backgroundColor: 'rgba(0, 0, 0, 0.05)',
   },
+  reactionButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  reactionMoreButton: {
+    backgroundColor: 'rgba(0, 0, 0, 0.05)',
+  },
+  reactionEmoji: {
+    width: 32,
+    height: 32,
+  },
 });
@@ -3,23 +3,37 @@
  *
  * Displays a single message with KakaoTalk-style design:
  * - Sender profile image and name (for group chats, others' messages)
- * - Message content based on content type (text, image, prayer_card, system)
+ * - Message content based on content type (text, image, prayer_card, poll, system)
  * - Timestamp displayed outside the bubble
  * - Gold (#FFD700) bubbles for own messages, white for others
  * - Bubble tail pointing toward sender
  * - Thread reply count indicator
+ * - Emoji reaction chips under the bubble
+ * - Polls with live tallies, tap an option to vote
+ * - "Edited" marker and "This message was deleted" tombstones
+ * - "Forwarded from ..." label on forwarded messages
+ * - Preview card for the first link in a text message
+ * - Read receipts under own messages ("Read by 7 of 12"), tap to see who hasn't read
+ * - Pending and failed states for unsent messages, tap a failed message to retry
  * - Highlight support for search results
  * - Liquid Glass effect on iOS 26+ for enhanced visual depth
  */
 
 import { useCallback, useState, useEffect } from 'react';
-import { Pressable, View, StyleSheet, Image as RNImage, Platform } from 'react-native';
+import { Alert, Pressable, View, StyleSheet, Image as RNImage, Platform } from 'react-native';
 import { BlurView } from 'expo-blur';
 import { GlassView, isLiquidGlassAvailable } from 'expo-glass-effect';
 import Svg, { G, Path } from 'react-native-svg';
+import Ionicons from '@expo/vector-icons/Ionicons';
 import { Stack, Text as TamaguiText, Image, XStack, YStack } from 'tamagui';
 import { useTranslation } from '@/i18n';
-import type { MessageWithSender } from '@/types/database';
+import type { MessageMention, MessagePoll, MessageWithSender } from '@/types/database';
+import type { MessageReadReceipt } from '../hooks/useReadReceipts';
+import { LinkPreviewCard } from './LinkPreviewCard';
+import { PollMessage } from './PollMessage';
+import { ReactionChips } from './ReactionChips';
+import { extractFirstUrl } from '../utils/links';
+import { splitMentionSegments } from '../utils/mentions';
 
 /**
  * Pistos logo component for avatar fallback.
@@ -85,6 +99,41 @@ export interface MessageBubbleProps {
    */
   highlighted?: boolean;
 
+  /**
+   * The current user's membership ID, used to highlight their reactions.
+   */
+  currentMembershipId?: string | null;
+
+  /**
+   * Callback when a reaction chip is tapped to toggle that emoji.
+   */
+  onReactionPress?: (message: MessageWithSender, emoji: string) => void;
+
+  /**
+   * Callback when a poll option is tapped to toggle the current member's vote.
+   */
+  onPollVote?: (message: MessageWithSender, optionId: string) => void;
+
+  /**
+   * Callback to open a poll's results.
+   */
+  onPollResultsPress?: (message: MessageWithSender) => void;
+
+  /**
+   * Read receipt for own messages. Omit to hide receipts.
+   */
+  readReceipt?: MessageReadReceipt | null;
+
+  /**
+   * Callback to send a failed message again.
+   */
+  onRetryPress?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback to remove a failed message from the outbox.
+   */
+  onDiscardPress?: (message: MessageWithSender) => void;
+
   /**
    * Test ID for E2E testing.
    */
@@ -226,6 +275,38 @@ function PrayerCardMessage({
   );
 }
 
+/**
+ * Text message body with @mentions rendered as highlighted chips.
+ */
+function MentionText({
+  content,
+  mentions,
+}: {
+  content: string;
+  mentions: MessageMention[] | undefined;
+}) {
+  return (
+    <>
+      {splitMentionSegments(content, mentions).map((segment, index) =>
+        segment.mention ? (
+          <TamaguiText
+            key={index}
+            testID="message-mention"
+            fontWeight="600"
+            color="#007AFF"
+            backgroundColor="rgba(0, 122, 255, 0.12)"
+            borderRadius={4}
+          >
+            {segment.text}
+          </TamaguiText>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
 /**
  * Render message content based on type.
  * Returns a single element to avoid whitespace issues between siblings.
@@ -233,27 +314,69 @@ function PrayerCardMessage({
 function MessageContentView({
   contentType,
   content,
+  mentions,
+  poll,
+  forwardedFrom,
+  currentMembershipId,
   isOwnMessage,
+  isDeleted,
   textColor,
   handlePress,
+  onPollVote,
+  onPollResultsPress,
 }: {
   contentType: string;
   content: string | null;
+  mentions?: MessageMention[];
+  poll?: MessagePoll | null;
+  forwardedFrom?: MessageWithSender['forwarded_from'];
+  currentMembershipId?: string | null;
   isOwnMessage: boolean;
+  isDeleted: boolean;
   textColor: string;
   handlePress: () => void;
+  onPollVote?: (optionId: string) => void;
+  onPollResultsPress?: () => void;
 }) {
+  const { t } = useTranslation();
+  const linkUrl = contentType === 'text' && !isDeleted ? extractFirstUrl(content) : null;
+
   // Render content based on type - text uses larger font size per KakaoTalk style
   return (
     <Stack>
-      {contentType === 'image' ? (
+      {forwardedFrom && !isDeleted && (
+        <XStack testID="message-forwarded" alignItems="center" gap="$1" marginBottom="$1">
+          <Ionicons name="arrow-redo" size={12} color="#8E8E93" />
+          <TamaguiText fontSize="$xs" color="$color3" numberOfLines={1}>
+            {t('chat.forward.forwarded_from', {
+              name: forwardedFrom.display_name || t('chat.unknown_sender'),
+            })}
+          </TamaguiText>
+        </XStack>
+      )}
+      {isDeleted ? (
+        <TamaguiText testID="message-deleted" fontSize="$md" fontStyle="italic" color="$color3">
+          {t('chat.deleted_message')}
+        </TamaguiText>
+      ) : contentType === 'image' ? (
         <ImageMessage content={content} onPress={handlePress} />
       ) : contentType === 'prayer_card' ? (
         <PrayerCardMessage content={content} isOwnMessage={isOwnMessage} />
+      ) : contentType === 'poll' && poll ? (
+        <PollMessage
+          question={content}
+          poll={poll}
+          currentMembershipId={currentMembershipId}
+          onVote={onPollVote}
+          onViewResults={onPollResultsPress}
+        />
       ) : (
-        <TamaguiText testID="message-content" fontSize="$lg" color={textColor} lineHeight="$6">
-          {content || ''}
-        </TamaguiText>
+        <>
+          <TamaguiText testID="message-content" fontSize="$lg" color={textColor} lineHeight="$6">
+            <MentionText content={content || ''} mentions={mentions} />
+          </TamaguiText>
+          {linkUrl && <LinkPreviewCard url={linkUrl} />}
+        </>
       )}
     </Stack>
   );
@@ -274,6 +397,84 @@ function BubbleTail({ isOwnMessage }: { isOwnMessage: boolean }) {
   );
 }
 
+/**
+ * Read receipt under an own message. Direct chats show "Read"; group chats show
+ * "Read by X of Y" and list who hasn't read yet on tap.
+ */
+function ReadReceiptLabel({
+  receipt,
+  isDirect,
+}: {
+  receipt: MessageReadReceipt;
+  isDirect: boolean;
+}) {
+  const { t } = useTranslation();
+
+  const handlePress = useCallback(() => {
+    const getName = (p: { displayName: string | null }) =>
+      p.displayName || t('chat.read_receipts.unknown_member');
+    const sections = [
+      [
+        t('chat.read_receipts.not_read', { count: receipt.unreadBy.length }),
+        ...receipt.unreadBy.map(getName),
+      ],
+      [t('chat.read_receipts.read', { count: receipt.readCount }), ...receipt.readBy.map(getName)],
+    ];
+    Alert.alert(
+      t('chat.read_receipts.title'),
+      sections.map((lines) => lines.join('\n')).join('\n\n')
+    );
+  }, [receipt, t]);
+
+  if (receipt.total === 0 || (isDirect && receipt.readCount === 0)) {
+    return null;
+  }
+
+  if (isDirect) {
+    return (
+      <TamaguiText testID="message-read-receipt" fontSize={10} color="$color3">
+        {t('chat.read_receipts.seen')}
+      </TamaguiText>
+    );
+  }
+
+  return (
+    <Pressable onPress={handlePress} hitSlop={6}>
+      <TamaguiText testID="message-read-receipt" fontSize={10} color="$color3">
+        {t('chat.read_receipts.read_by', { count: receipt.readCount, total: receipt.total })}
+      </TamaguiText>
+    </Pressable>
+  );
+}
+
+/**
+ * Delivery state next to an unsent own message: a clock while it waits in the
+ * outbox, or an alert once it has failed.
+ */
+function SendStatusLabel({ status }: { status: 'pending' | 'failed' }) {
+  const { t } = useTranslation();
+
+  if (status === 'pending') {
+    return (
+      <XStack testID="message-send-pending" alignItems="center" gap="$1">
+        <Ionicons name="time-outline" size={12} color="#8E8E93" />
+        <TamaguiText fontSize={10} color="$color3">
+          {t('chat.outbox.sending')}
+        </TamaguiText>
+      </XStack>
+    );
+  }
+
+  return (
+    <XStack testID="message-send-failed" alignItems="center" gap="$1">
+      <Ionicons name="alert-circle" size={14} color="#FF3B30" />
+      <TamaguiText fontSize={10} color="#FF3B30">
+        {t('chat.outbox.failed')}
+      </TamaguiText>
+    </XStack>
+  );
+}
+
 /**
  * Hook to detect if Liquid Glass effect is available on iOS 26+.
  */
@@ -334,16 +535,64 @@ function GlassBubbleWrapper({
 export function MessageBubble({
   message,
   isOwnMessage,
-  conversationType: _conversationType,
+  conversationType,
   onPress,
   onSenderPress,
   showThreadIndicator = true,
   highlighted = false,
+  currentMembershipId,
+  onReactionPress,
+  onPollVote,
+  onPollResultsPress,
+  readReceipt,
+  onRetryPress,
+  onDiscardPress,
   testID,
 }: MessageBubbleProps) {
+  const { t } = useTranslation();
+  const isDeleted = !!message.deleted_at;
+  const sendStatus = message.send_status;
+
   const handlePress = useCallback(() => {
-    onPress?.(message);
-  }, [message, onPress]);
+    if (message.send_status === 'failed') {
+      if (!onDiscardPress) {
+        onRetryPress?.(message);
+        return;
+      }
+      Alert.alert(t('chat.outbox.failed_title'), t('chat.outbox.failed_message'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('chat.outbox.delete'),
+          style: 'destructive',
+          onPress: () => onDiscardPress(message),
+        },
+        { text: t('chat.outbox.retry'), onPress: () => onRetryPress?.(message) },
+      ]);
+      return;
+    }
+    // Tombstones and messages still in the outbox have no actions
+    if (!message.deleted_at && !message.send_status) {
+      onPress?.(message);
+    }
+  }, [message, onPress, onRetryPress, onDiscardPress, t]);
+
+  const handleReactionToggle = useCallback(
+    (emoji: string) => {
+      onReactionPress?.(message, emoji);
+    },
+    [message, onReactionPress]
+  );
+
+  const handlePollVote = useCallback(
+    (optionId: string) => {
+      onPollVote?.(message, optionId);
+    },
+    [message, onPollVote]
+  );
+
+  const handlePollResultsPress = useCallback(() => {
+    onPollResultsPress?.(message);
+  }, [message, onPollResultsPress]);
 
   const handleSenderPress = useCallback(() => {
     if (message.sender?.id) {
@@ -356,6 +605,8 @@ export function MessageBubble({
     return <SystemMessage content={message.content} />;
   }
 
+  // Tombstones always render as a text bubble
+  const contentType = isDeleted ? 'text' : message.content_type;
   const bubbleBackgroundColor = getBubbleBackgroundColor(isOwnMessage);
   const textColor = getTextColor(isOwnMessage);
 
@@ -380,108 +631,134 @@ export function MessageBubble({
   // Others' messages: profile + bubble on left, timestamp on right
   if (isOwnMessage) {
     return (
-      <XStack
+      <YStack
         testID={testID || `message-${message.id}`}
-        justifyContent="flex-end"
         alignItems="flex-end"
         marginHorizontal="$3"
         marginBottom="$2"
         maxWidth="100%"
         {...highlightStyle}
       >
-        {/* Timestamp and metadata on left of bubble */}
-        <YStack alignItems="flex-end" justifyContent="flex-end" marginRight="$1.5" gap="$0.5">
-          {/* Reply count badge */}
-          {showThreadIndicator && message.reply_count && message.reply_count > 0 ? (
-            <Stack
-              testID="reply-count-badge"
-              flexDirection="row"
-              alignItems="center"
-              gap="$1"
-              backgroundColor="$backgroundTertiary"
-              borderRadius={8}
-              paddingHorizontal="$1.5"
-              paddingVertical="$0.5"
-            >
-              <TamaguiText testID="reply-count-text" fontSize={10} color="$color2">
-                {message.reply_count}
-              </TamaguiText>
-            </Stack>
-          ) : null}
-          {/* Event chat indicator */}
-          {message.is_event_chat ? (
-            <TamaguiText fontSize={10} color="$color3">
-              👁️
-            </TamaguiText>
-          ) : null}
-          {/* Timestamp */}
-          <TamaguiText testID="message-timestamp" fontSize={11} color="$color3">
-            {formatMessageTime(message.created_at)}
-          </TamaguiText>
-        </YStack>
-
-        {/* Message bubble */}
-        <Pressable onPress={handlePress}>
-          <XStack>
-            <GlassBubbleWrapper isOwnMessage={true} contentType={message.content_type}>
+        <XStack justifyContent="flex-end" alignItems="flex-end" maxWidth="100%">
+          {/* Timestamp and metadata on left of bubble */}
+          <YStack alignItems="flex-end" justifyContent="flex-end" marginRight="$1.5" gap="$0.5">
+            {/* Reply count badge */}
+            {showThreadIndicator && message.reply_count && message.reply_count > 0 ? (
               <Stack
-                borderRadius={
-                  message.content_type === 'image' ||
-                  message.content_type === 'video' ||
-                  message.content_type === 'file'
-                    ? 16
-                    : 16
-                }
-                borderTopRightRadius={
-                  message.content_type === 'image' ||
-                  message.content_type === 'video' ||
-                  message.content_type === 'file'
-                    ? 16
-                    : 4
-                }
-                padding={
-                  message.content_type === 'image' ||
-                  message.content_type === 'video' ||
-                  message.content_type === 'file'
-                    ? 0
-                    : '$2.5'
-                }
-                paddingHorizontal={
-                  message.content_type === 'image' ||
-                  message.content_type === 'video' ||
-                  message.content_type === 'file'
-                    ? 0
-                    : '$3'
-                }
-                backgroundColor={
-                  message.content_type === 'image' ||
-                  message.content_type === 'video' ||
-                  message.content_type === 'file'
-                    ? 'transparent'
-                    : bubbleBackgroundColor
-                }
-                maxWidth={260}
-                shadowColor="$shadowColor"
-                shadowOffset={{ width: 0, height: 1 }}
-                shadowOpacity={0.1}
-                shadowRadius={2}
-                elevation={1}
+                testID="reply-count-badge"
+                flexDirection="row"
+                alignItems="center"
+                gap="$1"
+                backgroundColor="$backgroundTertiary"
+                borderRadius={8}
+                paddingHorizontal="$1.5"
+                paddingVertical="$0.5"
               >
-                <MessageContentView
-                  contentType={message.content_type}
-                  content={message.content}
-                  isOwnMessage={isOwnMessage}
-                  textColor={textColor}
-                  handlePress={handlePress}
-                />
+                <TamaguiText testID="reply-count-text" fontSize={10} color="$color2">
+                  {message.reply_count}
+                </TamaguiText>
               </Stack>
-            </GlassBubbleWrapper>
-            {message.content_type !== 'image' &&
-             message.content_type !== 'video' &&
-             message.content_type !== 'file' && <BubbleTail isOwnMessage={true} />}
-          </XStack>
-        </Pressable>
-      </XStack>
+            ) : null}
+            {/* Event chat indicator */}
+            {message.is_event_chat ? (
+              <TamaguiText fontSize={10} color="$color3">
+                👁️
+              </TamaguiText>
+            ) : null}
+            {/* Send status for messages still in the outbox */}
+            {sendStatus ? <SendStatusLabel status={sendStatus} /> : null}
+            {/* Read receipt */}
+            {readReceipt && !isDeleted && !sendStatus ? (
+              <ReadReceiptLabel receipt={readReceipt} isDirect={conversationType === 'direct'} />
+            ) : null}
+            {/* Edited marker */}
+            {message.edited_at && !isDeleted ? (
+              <TamaguiText testID="message-edited" fontSize={10} color="$color3">
+                {t('chat.edited')}
+              </TamaguiText>
+            ) : null}
+            {/* Timestamp */}
+            <TamaguiText testID="message-timestamp" fontSize={11} color="$color3">
+              {formatMessageTime(message.created_at)}
+            </TamaguiText>
+          </YStack>
+
+          {/* Message bubble */}
+          <Pressable onPress={handlePress}>
+            <XStack>
+              <GlassBubbleWrapper isOwnMessage={true} contentType={contentType}>
+                <Stack
+                  borderRadius={
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
+                      ? 16
+                      : 16
+                  }
+                  borderTopRightRadius={
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
+                      ? 16
+                      : 4
+                  }
+                  padding={
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
+                      ? 0
+                      : '$2.5'
+                  }
+                  paddingHorizontal={
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
+                      ? 0
+                      : '$3'
+                  }
+                  backgroundColor={
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
+                      ? 'transparent'
+                      : bubbleBackgroundColor
+                  }
+                  maxWidth={260}
+                  shadowColor="$shadowColor"
+                  shadowOffset={{ width: 0, height: 1 }}
+                  shadowOpacity={0.1}
+                  shadowRadius={2}
+                  elevation={1}
+                >
+                  <MessageContentView
+                    contentType={contentType}
+                    content={message.content}
+                    mentions={message.mentions}
+                    poll={message.poll}
+                    forwardedFrom={message.forwarded_from}
+                    currentMembershipId={currentMembershipId}
+                    isOwnMessage={isOwnMessage}
+                    isDeleted={isDeleted}
+                    textColor={textColor}
+                    handlePress={handlePress}
+                    onPollVote={onPollVote ? handlePollVote : undefined}
+                    onPollResultsPress={onPollResultsPress ? handlePollResultsPress : undefined}
+                  />
+                </Stack>
+              </GlassBubbleWrapper>
+              {contentType !== 'image' &&
+               contentType !== 'video' &&
+               contentType !== 'file' && <BubbleTail isOwnMessage={true} />}
+            </XStack>
+          </Pressable>
+        </XStack>
+        <ReactionChips
+          reactions={isDeleted ? undefined : message.reactions}
+          currentMembershipId={currentMembershipId}
+          onToggle={onReactionPress ? handleReactionToggle : undefined}
+          align="flex-end"
+        />
+      </YStack>
     );
   }
 
@@ -554,43 +831,43 @@ export function MessageBubble({
           {/* Message bubble */}
           <Pressable onPress={handlePress}>
             <XStack>
-              {message.content_type !== 'image' &&
-               message.content_type !== 'video' &&
-               message.content_type !== 'file' && <BubbleTail isOwnMessage={false} />}
-              <GlassBubbleWrapper isOwnMessage={false} contentType={message.content_type}>
+              {contentType !== 'image' &&
+               contentType !== 'video' &&
+               contentType !== 'file' && <BubbleTail isOwnMessage={false} />}
+              <GlassBubbleWrapper isOwnMessage={false} contentType={contentType}>
                 <Stack
                   borderRadius={
-                    message.content_type === 'image' ||
-                    message.content_type === 'video' ||
-                    message.content_type === 'file'
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
                       ? 16
                       : 16
                   }
                   borderTopLeftRadius={
-                    message.content_type === 'image' ||
-                    message.content_type === 'video' ||
-                    message.content_type === 'file'
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
                       ? 16
                       : 4
                   }
                   padding={
-                    message.content_type === 'image' ||
-                    message.content_type === 'video' ||
-                    message.content_type === 'file'
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
                       ? 0
                       : '$2.5'
                   }
                   paddingHorizontal={
-                    message.content_type === 'image' ||
-                    message.content_type === 'video' ||
-                    message.content_type === 'file'
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
                       ? 0
                       : '$3'
                   }
                   backgroundColor={
-                    message.content_type === 'image' ||
-                    message.content_type === 'video' ||
-                    message.content_type === 'file'
+                    contentType === 'image' ||
+                    contentType === 'video' ||
+                    contentType === 'file'
                       ? 'transparent'
                       : bubbleBackgroundColor
                   }
@@ -602,11 +879,18 @@ export function MessageBubble({
                   elevation={1}
                 >
                   <MessageContentView
-                    contentType={message.content_type}
+                    contentType={contentType}
                     content={message.content}
+                    mentions={message.mentions}
+                    poll={message.poll}
+                    forwardedFrom={message.forwarded_from}
+                    currentMembershipId={currentMembershipId}
                     isOwnMessage={isOwnMessage}
+                    isDeleted={isDeleted}
                     textColor={textColor}
                     handlePress={handlePress}
+                    onPollVote={onPollVote ? handlePollVote : undefined}
+                    onPollResultsPress={onPollResultsPress ? handlePollResultsPress : undefined}
                   />
                 </Stack>
               </GlassBubbleWrapper>
@@ -632,12 +916,24 @@ export function MessageBubble({
                 </TamaguiText>
               </Stack>
             ) : null}
+            {/* Edited marker */}
+            {message.edited_at && !isDeleted ? (
+              <TamaguiText testID="message-edited" fontSize={10} color="$color3">
+                {t('chat.edited')}
+              </TamaguiText>
+            ) : null}
             {/* Timestamp */}
             <TamaguiText testID="message-timestamp" fontSize={11} color="$color3">
               {formatMessageTime(message.created_at)}
             </TamaguiText>
           </YStack>
         </XStack>
+
+        <ReactionChips
+          reactions={isDeleted ? undefined : message.reactions}
+          currentMembershipId={currentMembershipId}
+          onToggle={onReactionPress ? handleReactionToggle : undefined}
+        />
       </YStack>
     </XStack>
   );
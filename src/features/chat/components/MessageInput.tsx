@@ -8,8 +8,13 @@
  * - Send button disabled when empty or sending
  * - Error display
  * - Event Chat mode for selective message visibility
+ * - Edit mode for changing a sent message (set from the message action sheet)
+ * - Throttled typing signal for the conversation's typing indicator
  * - Image upload button
  * - Emoji picker with predefined emoji sets
+ * - @mention autocomplete over the conversation's participants
+ * - Poll composer (opened from the attachment menu)
+ * - Scheduled send (long-press the send button)
  * - Plus icon menu for additional options
  * - Safe area padding for iPhone home indicator
  *
@@ -30,15 +35,23 @@ import {
   Pressable,
   TextInput,
   type KeyboardEvent,
+  type NativeSyntheticEvent,
+  type TextInputSelectionChangeEventData,
 } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
 import { Stack, Text as TamaguiText, useTheme, XStack } from 'tamagui';
+import type { MessageMention } from '@/types/database';
 import { useImageUpload } from '../hooks/useImageUpload';
 import type { SendMessageOptions } from '../hooks/useSendMessage';
+import type { PollDraft } from '../hooks/usePolls';
 import { EmojiPicker } from './EmojiPicker';
 import { EventChatSelector } from './EventChatSelector';
+import { MentionSuggestions } from './MentionSuggestions';
+import { PollComposer } from './PollComposer';
 import { QuotePreview } from './QuotePreview';
+import { ScheduleMessageSheet } from './ScheduleMessageSheet';
 import { useChatStore } from '../store/chatStore';
+import { getMentionQuery, insertMention, resolveMentions } from '../utils/mentions';
 
 // Import icon assets from assets folder (PNG files)
 const PLUS_ICON = require('../../../../assets/plus-circle.png') as number;
@@ -94,6 +107,7 @@ export interface MessageInputProps {
    * Callback when send is pressed.
    * @param content - The message content to send
    * @param quoteAttachment - Optional quote attachment data
+   * @param mentions - Mentions picked from the autocomplete that are still in the text
    */
   onSend: (
     content: string,
@@ -102,7 +116,8 @@ export interface MessageInputProps {
       senderName: string;
       senderAvatar?: string | null;
       content: string;
-    } | null
+    } | null,
+    mentions?: MessageMention[]
   ) => Promise<void>;
 
   /**
@@ -111,6 +126,19 @@ export interface MessageInputProps {
    */
   onSendEventChat?: (options: SendMessageOptions) => Promise<void>;
 
+  /**
+   * Callback when an edited message is saved. Edit mode is only available when provided.
+   * @param messageId - The message being edited
+   * @param content - The new message content
+   */
+  onEdit?: (messageId: string, content: string) => Promise<void>;
+
+  /**
+   * Called when the user starts or stops typing. While typing, repeats at most
+   * once per TYPING_THROTTLE_MS so receivers can expire stale signals.
+   */
+  onTyping?: (isTyping: boolean) => void;
+
   /**
    * Whether a message is currently being sent.
    */
@@ -176,14 +204,45 @@ export interface MessageInputProps {
    * Conversation type for styling the input bar to match room background.
    */
   conversationType?: 'direct' | 'small_group' | 'ministry' | 'church_wide';
+
+  /**
+   * Members offered by the @mention autocomplete. Autocomplete is off when omitted.
+   */
+  mentionCandidates?: MessageMention[];
+
+  /**
+   * Whether the current member can mention @all and @leaders.
+   */
+  canMentionGroups?: boolean;
+
+  /**
+   * Callback when a poll is created in the poll composer. The composer stays
+   * open with the draft if it throws. Polls are unavailable when omitted.
+   */
+  onSendPoll?: (draft: PollDraft) => Promise<void>;
+
+  /**
+   * Callback when a message is scheduled from the schedule sheet (long-press
+   * send). The sheet stays open if it throws. Scheduling is unavailable when
+   * omitted.
+   * @param content - The message content
+   * @param scheduledFor - ISO timestamp to post the message at
+   */
+  onScheduleSend?: (content: string, scheduledFor: string) => Promise<void>;
 }
 
 export interface MessageInputHandle {
   triggerImageUpload: () => void;
+  openPollComposer: () => void;
 }
 
 const DEFAULT_MAX_LENGTH = 2000;
 
+/**
+ * Minimum interval between repeated typing signals.
+ */
+const TYPING_THROTTLE_MS = 3000;
+
 /**
  * MessageInput component.
  */
@@ -191,6 +250,8 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
   const {
     onSend,
     onSendEventChat,
+    onEdit,
+    onTyping,
     sending,
     error,
     maxLength = DEFAULT_MAX_LENGTH,
@@ -204,10 +265,16 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
     onPlusPress,
     onKeyboardHeightChange,
     conversationType,
+    mentionCandidates,
+    canMentionGroups = false,
+    onSendPoll,
+    onScheduleSend,
   } = props;
   const { t } = useTranslation();
   const theme = useTheme();
-  const { quoteAttachment, clearQuoteAttachment } = useChatStore();
+  const { quoteAttachment, clearQuoteAttachment, editingMessage, clearEditingMessage } =
+    useChatStore();
+  const activeEdit = onEdit ? editingMessage : null;
 
   // Get dynamic colors based on conversation type
   const inputBarColors = getInputBarColors(conversationType);
@@ -216,14 +283,49 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
   const [_inputHeight, setInputHeight] = useState(40);
   const textInputRef = useRef<TextInput>(null);
 
+  // Cursor position, for finding the @query being typed
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+
+  // Mentions picked from the autocomplete since the last send
+  const [pickedMentions, setPickedMentions] = useState<MessageMention[]>([]);
+
   // Track if we just sent a message to clear input after send completes
   const justSentRef = useRef(false);
 
+  // When the last typing signal was sent (0 = not typing)
+  const lastTypingSentRef = useRef(0);
+
+  const stopTyping = useCallback(() => {
+    if (lastTypingSentRef.current) {
+      lastTypingSentRef.current = 0;
+      onTyping?.(false);
+    }
+  }, [onTyping]);
+
+  const notifyTyping = useCallback(
+    (text: string) => {
+      if (!onTyping) {
+        return;
+      }
+      if (!text.trim()) {
+        stopTyping();
+        return;
+      }
+      const now = Date.now();
+      if (now - lastTypingSentRef.current >= TYPING_THROTTLE_MS) {
+        lastTypingSentRef.current = now;
+        onTyping(true);
+      }
+    },
+    [onTyping, stopTyping]
+  );
+
   // Reset input on successful send
   useEffect(() => {
     if (!sending && justSentRef.current) {
       setInputText('');
       setInputHeight(40);
+      setPickedMentions([]);
       justSentRef.current = false;
     }
     if (sending) {
@@ -231,6 +333,14 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
     }
   }, [sending]);
 
+  // Load the message being edited into the input
+  useEffect(() => {
+    if (activeEdit) {
+      setInputText(activeEdit.content ?? '');
+      textInputRef.current?.focus();
+    }
+  }, [activeEdit]);
+
   // Event Chat state
   const [isEventChatMode, setIsEventChatMode] = useState(false);
   const [excludedMembershipIds, setExcludedMembershipIds] = useState<string[]>([]);
@@ -239,6 +349,12 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
   // Emoji picker state
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
 
+  // Poll composer state
+  const [pollComposerVisible, setPollComposerVisible] = useState(false);
+
+  // Schedule sheet state
+  const [scheduleSheetVisible, setScheduleSheetVisible] = useState(false);
+
   // Handle keyboard appearance to minimize native tabs
   useEffect(() => {
     const keyboardWillShow = (e: KeyboardEvent) => {
@@ -287,6 +403,19 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
     setInputText('');
     setInputHeight(40);
     setShowEmojiPicker(false);
+    stopTyping();
+
+    const mentions = resolveMentions(trimmed, pickedMentions);
+
+    if (activeEdit && onEdit) {
+      clearEditingMessage();
+      try {
+        await onEdit(activeEdit.id, trimmed);
+      } catch {
+        setInputText(trimmed);
+      }
+      return;
+    }
 
     // Capture quote attachment before clearing
     const currentQuoteAttachment = quoteAttachment;
@@ -298,13 +427,15 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
           content: trimmed,
           excludedMembershipIds,
           quoteAttachment: currentQuoteAttachment,
+          mentions,
         });
       } else {
-        await onSend(trimmed, currentQuoteAttachment);
+        await onSend(trimmed, currentQuoteAttachment, mentions);
       }
 
       setIsEventChatMode(false);
       setExcludedMembershipIds([]);
+      setPickedMentions([]);
     } catch {
       setInputText(trimmed);
     }
@@ -317,8 +448,20 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
     excludedMembershipIds,
     quoteAttachment,
     clearQuoteAttachment,
+    activeEdit,
+    onEdit,
+    clearEditingMessage,
+    stopTyping,
+    pickedMentions,
   ]);
 
+  const handleCancelEdit = useCallback(() => {
+    clearEditingMessage();
+    setInputText('');
+    setInputHeight(40);
+    stopTyping();
+  }, [clearEditingMessage, stopTyping]);
+
   const handleEventChatSelectorConfirm = useCallback((selectedIds: string[]) => {
     setExcludedMembershipIds(selectedIds);
     setIsEventChatMode(true);
@@ -330,9 +473,40 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
     setExcludedMembershipIds([]);
   }, []);
 
-  const handleChangeText = useCallback((text: string) => {
-    setInputText(text);
-  }, []);
+  const handleChangeText = useCallback(
+    (text: string) => {
+      setInputText(text);
+      notifyTyping(text);
+    },
+    [notifyTyping]
+  );
+
+  const handleSelectionChange = useCallback(
+    (event: NativeSyntheticEvent<TextInputSelectionChangeEventData>) => {
+      setSelection(event.nativeEvent.selection);
+    },
+    []
+  );
+
+  // Only suggest while the cursor sits at the end of an @query with nothing selected
+  const mentionQuery =
+    mentionCandidates && !activeEdit && selection.start === selection.end
+      ? getMentionQuery(inputText, selection.start)
+      : null;
+
+  const handleMentionSelect = useCallback(
+    (mention: MessageMention) => {
+      if (!mentionQuery) {
+        return;
+      }
+      const next = insertMention(inputText, mentionQuery, selection.start, mention);
+      setInputText(next.text);
+      setSelection({ start: next.cursor, end: next.cursor });
+      setPickedMentions((prev) => [...prev, mention]);
+      textInputRef.current?.focus();
+    },
+    [inputText, mentionQuery, selection.start]
+  );
 
   const handleContentSizeChange = useCallback(
     (event: { nativeEvent: { contentSize: { height: number } } }) => {
@@ -360,6 +534,42 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
     }
   }, [canUploadImages, uploading, clearImageError, pickAndUploadImage, onImageUploaded]);
 
+  const handleOpenPollComposer = useCallback(() => {
+    if (onSendPoll) {
+      Keyboard.dismiss();
+      setPollComposerVisible(true);
+    }
+  }, [onSendPoll]);
+
+  const handleSubmitPoll = useCallback(
+    async (draft: PollDraft) => {
+      await onSendPoll?.(draft);
+      setPollComposerVisible(false);
+    },
+    [onSendPoll]
+  );
+
+  const handleOpenScheduleSheet = useCallback(() => {
+    // Edits and Event Chat messages are sent right away
+    if (onScheduleSend && !activeEdit && !isEventChatMode && inputText.trim()) {
+      Keyboard.dismiss();
+      setShowEmojiPicker(false);
+      setScheduleSheetVisible(true);
+    }
+  }, [onScheduleSend, activeEdit, isEventChatMode, inputText]);
+
+  const handleSubmitSchedule = useCallback(
+    async (content: string, scheduledFor: string) => {
+      await onScheduleSend?.(content, scheduledFor);
+      setScheduleSheetVisible(false);
+      setInputText('');
+      setInputHeight(40);
+      setPickedMentions([]);
+      stopTyping();
+    },
+    [onScheduleSend, stopTyping]
+  );
+
   // Show action sheet for plus icon
   const handlePlusPress = useCallback(() => {
     onPlusPress?.();
@@ -372,13 +582,14 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
   const canSend = inputText.trim().length > 0 && !sending;
   const charCount = inputText.length;
 
-  // Expose image upload method via ref
+  // Expose image upload and poll composer via ref
   useImperativeHandle(
     ref,
     () => ({
       triggerImageUpload: handleImageUpload,
+      openPollComposer: handleOpenPollComposer,
     }),
-    [handleImageUpload]
+    [handleImageUpload, handleOpenPollComposer]
   );
   const nearLimit = charCount > maxLength * 0.9;
   const hasEventChatSupport = onSendEventChat && conversationId && tenantId && currentMembershipId;
@@ -386,8 +597,35 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
   return (
     <>
       <Stack testID={testID ?? 'message-input'} backgroundColor="transparent">
+        {/* Edit mode indicator - styled like the Event Chat indicator */}
+        {activeEdit && (
+          <XStack
+            testID="edit-mode-indicator"
+            backgroundColor="$backgroundTertiary"
+            paddingHorizontal="$3"
+            paddingVertical="$2"
+            alignItems="center"
+            gap="$2"
+            marginHorizontal={16}
+            marginBottom={4}
+            borderRadius={12}
+          >
+            <TamaguiText fontSize="$sm" fontWeight="600" color="$color1">
+              {t('chat.edit_message')}
+            </TamaguiText>
+            <TamaguiText fontSize="$sm" color="$color3" numberOfLines={1} flex={1}>
+              {activeEdit.content}
+            </TamaguiText>
+            <Pressable onPress={handleCancelEdit} testID="cancel-edit-button">
+              <TamaguiText fontSize="$xs" color="$color2" fontWeight="bold">
+                {t('chat.cancel')}
+              </TamaguiText>
+            </Pressable>
+          </XStack>
+        )}
+
         {/* Quote preview - styled with margins to match input bar */}
-        {quoteAttachment && (
+        {quoteAttachment && !activeEdit && (
           <Stack marginHorizontal={16} marginBottom={4}>
             <QuotePreview
               senderName={quoteAttachment.senderName}
@@ -476,6 +714,18 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
           </Stack>
         )}
 
+        {/* Mention suggestions - shown above the input bar while typing an @query */}
+        {mentionQuery && mentionCandidates && (
+          <Stack marginHorizontal={16} marginBottom={4}>
+            <MentionSuggestions
+              query={mentionQuery.query}
+              candidates={mentionCandidates}
+              includeGroupMentions={canMentionGroups}
+              onSelect={handleMentionSelect}
+            />
+          </Stack>
+        )}
+
         {/* Input bar - styled to match native tab bar width and appearance */}
         <XStack
           alignItems="flex-end"
@@ -530,6 +780,7 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
               testID="message-text-input"
               value={inputText}
               onChangeText={handleChangeText}
+              onSelectionChange={handleSelectionChange}
               onContentSizeChange={handleContentSizeChange}
               placeholder={actualPlaceholder}
               placeholderTextColor={theme.color3?.val as string}
@@ -595,6 +846,7 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
             <Pressable
               testID={isEventChatMode ? 'event-chat-send-button' : 'send-message-button'}
               onPress={() => void handleSend()}
+              onLongPress={onScheduleSend ? handleOpenScheduleSheet : undefined}
               disabled={!canSend}
               hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
             >
@@ -648,6 +900,25 @@ export const MessageInput = forwardRef<MessageInputHandle, MessageInputProps>((p
           onCancel={() => setSelectorVisible(false)}
         />
       )}
+
+      {/* Poll Composer Modal */}
+      {onSendPoll && (
+        <PollComposer
+          visible={pollComposerVisible}
+          onSubmit={handleSubmitPoll}
+          onCancel={() => setPollComposerVisible(false)}
+        />
+      )}
+
+      {/* Schedule Sheet Modal */}
+      {onScheduleSend && (
+        <ScheduleMessageSheet
+          visible={scheduleSheetVisible}
+          initialContent={inputText.trim()}
+          onSubmit={handleSubmitSchedule}
+          onCancel={() => setScheduleSheetVisible(false)}
+        />
+      )}
     </>
   );
 });
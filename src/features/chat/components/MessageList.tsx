@@ -8,6 +8,8 @@
  * - Empty state
  * - Error state
  * - Auto-scroll to bottom on new messages
+ * - Read receipts under own messages, and reporting the newest message
+ *   scrolled into view so the screen can advance the read marker
  *
  * Note: Uses ScrollView instead of FlatList for better NativeTabs integration.
  * Per Expo docs: "FlatList integration with native tabs has limitations.
@@ -15,12 +17,19 @@
  */
 
 import { useCallback, useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
-import { ScrollView, NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
+import {
+  ScrollView,
+  View,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
 import { BlurView } from 'expo-blur';
 import { Stack, Text as TamaguiText, Spinner } from 'tamagui';
 import { useTranslation } from '@/i18n';
 import { MessageBubble, DateSeparator } from './MessageBubble';
 import { useChatStore } from '../store/chatStore';
+import type { MessageReadReceipt } from '../hooks/useReadReceipts';
 import type { MessageWithSender, ConversationType } from '@/types/database';
 
 export interface MessageListHandle {
@@ -57,6 +66,12 @@ export interface MessageListProps {
    */
   hasMore?: boolean;
 
+  /**
+   * Whether newer messages exist below the loaded ones (after jumping to an
+   * older message).
+   */
+  hasNewer?: boolean;
+
   /**
    * Error to display, if any.
    */
@@ -77,6 +92,11 @@ export interface MessageListProps {
    */
   onLoadMore?: () => void;
 
+  /**
+   * Callback to load newer messages when scrolled to the bottom while hasNewer.
+   */
+  onLoadNewer?: () => void;
+
   /**
    * Callback when a message is pressed.
    */
@@ -87,6 +107,41 @@ export interface MessageListProps {
    */
   onSenderPress?: (membershipId: string) => void;
 
+  /**
+   * Callback when a reaction chip under a message is tapped.
+   */
+  onReactionPress?: (message: MessageWithSender, emoji: string) => void;
+
+  /**
+   * Callback when a poll option is tapped.
+   */
+  onPollVote?: (message: MessageWithSender, optionId: string) => void;
+
+  /**
+   * Callback to open a poll's results.
+   */
+  onPollResultsPress?: (message: MessageWithSender) => void;
+
+  /**
+   * Returns the read receipt shown under the current user's own messages.
+   */
+  getReadReceipt?: (message: MessageWithSender) => MessageReadReceipt | null;
+
+  /**
+   * Called with the newest message that has scrolled fully into view.
+   */
+  onMessageViewed?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback when a failed message is tapped to send it again.
+   */
+  onRetryMessage?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback to remove a failed message instead of retrying it.
+   */
+  onDiscardMessage?: (message: MessageWithSender) => void;
+
   /**
    * Whether to show thread indicators on messages. Default: true.
    * Set to false in thread views where replies can't have threads.
@@ -165,6 +220,13 @@ function MessageItem({
   currentUserId,
   onMessagePress,
   onSenderPress,
+  onReactionPress,
+  onPollVote,
+  onPollResultsPress,
+  readReceipt,
+  onRetryMessage,
+  onDiscardMessage,
+  onLayout,
   showThreadIndicator,
   highlightedMessageId,
   selectedMessageId,
@@ -175,6 +237,13 @@ function MessageItem({
   currentUserId: string;
   onMessagePress?: (message: MessageWithSender) => void;
   onSenderPress?: (membershipId: string) => void;
+  onReactionPress?: (message: MessageWithSender, emoji: string) => void;
+  onPollVote?: (message: MessageWithSender, optionId: string) => void;
+  onPollResultsPress?: (message: MessageWithSender) => void;
+  readReceipt?: MessageReadReceipt | null;
+  onRetryMessage?: (message: MessageWithSender) => void;
+  onDiscardMessage?: (message: MessageWithSender) => void;
+  onLayout?: (messageId: string, event: LayoutChangeEvent) => void;
   showThreadIndicator: boolean;
   highlightedMessageId?: string | null;
   selectedMessageId?: string | null;
@@ -193,11 +262,18 @@ function MessageItem({
       onSenderPress={onSenderPress}
       showThreadIndicator={showThreadIndicator}
       highlighted={isHighlighted}
+      currentMembershipId={currentUserId}
+      onReactionPress={onReactionPress}
+      onPollVote={onPollVote}
+      onPollResultsPress={onPollResultsPress}
+      readReceipt={readReceipt}
+      onRetryPress={onRetryMessage}
+      onDiscardPress={onDiscardMessage}
     />
   );
 
   return (
-    <>
+    <View onLayout={onLayout ? (event) => onLayout(item.id, event) : undefined}>
       <DateSeparator currentDate={item.created_at} previousDate={previousItem?.created_at} />
       {isDimmed ? (
         <BlurView intensity={5} tint="default" style={{ flex: 1 }}>
@@ -206,7 +282,7 @@ function MessageItem({
       ) : (
         messageBubble
       )}
-    </>
+    </View>
   );
 }
 
@@ -221,12 +297,21 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
       loading,
       loadingMore = false,
       hasMore = false,
+      hasNewer = false,
       error,
       conversationType,
       currentUserId,
       onLoadMore,
+      onLoadNewer,
       onMessagePress,
       onSenderPress,
+      onReactionPress,
+      onPollVote,
+      onPollResultsPress,
+      getReadReceipt,
+      onMessageViewed,
+      onRetryMessage,
+      onDiscardMessage,
       showThreadIndicators = true,
       testID,
     }: MessageListProps,
@@ -247,16 +332,56 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
     // Track current scroll position to preserve during programmatic scrolls
     const currentScrollYRef = useRef(0);
 
-    // Initial scroll to bottom when messages load
+    // Message positions and viewport height, used to report the newest viewed message
+    const messageLayoutsRef = useRef(new Map<string, { y: number; height: number }>());
+    const viewportHeightRef = useRef(0);
+    const lastViewedIdRef = useRef<string | null>(null);
+
+    const reportViewedMessage = useCallback(() => {
+      if (!onMessageViewed || viewportHeightRef.current === 0) return;
+
+      const viewportBottom = currentScrollYRef.current + viewportHeightRef.current;
+
+      // Messages are oldest first, so the first fully visible one from the end is the newest
+      for (let i = messages.length - 1; i >= 0; i--) {
+        const message = messages[i];
+        // Unsent messages only carry a local timestamp
+        if (message?.send_status) continue;
+        const layout = message ? messageLayoutsRef.current.get(message.id) : undefined;
+        if (message && layout && layout.y + layout.height <= viewportBottom) {
+          if (lastViewedIdRef.current !== message.id) {
+            lastViewedIdRef.current = message.id;
+            onMessageViewed(message);
+          }
+          return;
+        }
+      }
+    }, [messages, onMessageViewed]);
+
+    const handleMessageLayout = useCallback((messageId: string, event: LayoutChangeEvent) => {
+      const { y, height } = event.nativeEvent.layout;
+      messageLayoutsRef.current.set(messageId, { y, height });
+    }, []);
+
+    const handleViewportLayout = useCallback(
+      (event: LayoutChangeEvent) => {
+        viewportHeightRef.current = event.nativeEvent.layout.height;
+        reportViewedMessage();
+      },
+      [reportViewedMessage]
+    );
+
+    // Initial scroll to bottom when messages load. A window opened by a jump
+    // stays where the jump scrolls it.
     useEffect(() => {
-      if (messages.length > 0 && !loading) {
+      if (messages.length > 0 && !loading && !hasNewer) {
         // Scroll to bottom after a short delay to ensure layout is complete
         const timeoutId = setTimeout(() => {
           scrollViewRef.current?.scrollToEnd({ animated: false });
         }, 100);
         return () => clearTimeout(timeoutId);
       }
-    }, [messages.length, loading]);
+    }, [messages.length, loading, hasNewer]);
 
     // Handle scroll events to track position
     const handleScroll = useCallback(
@@ -273,6 +398,8 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
           layoutMeasurement.height + contentOffset.y >= contentSize.height - paddingToBottom;
         isNearBottomRef.current = nearBottom;
 
+        reportViewedMessage();
+
         // Check if near top (for pagination)
         const nearTop = contentOffset.y <= paddingToTop;
 
@@ -281,8 +408,19 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
         if (nearTop && hasMore && !loadingMore && onLoadMore && !isProgrammaticScrollRef.current) {
           onLoadMore();
         }
+
+        // Load newer messages when near bottom of a window opened by a jump
+        if (
+          nearBottom &&
+          hasNewer &&
+          !loadingMore &&
+          onLoadNewer &&
+          !isProgrammaticScrollRef.current
+        ) {
+          onLoadNewer();
+        }
       },
-      [hasMore, loadingMore, onLoadMore]
+      [hasMore, hasNewer, loadingMore, onLoadMore, onLoadNewer, reportViewedMessage]
     );
 
     // Auto-scroll to bottom when new message arrives and we were at bottom
@@ -291,13 +429,13 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
       const prevLength = messagesLengthRef.current;
       const currentLength = messages.length;
 
-      if (currentLength > prevLength && isNearBottomRef.current) {
+      if (currentLength > prevLength && isNearBottomRef.current && !hasNewer) {
         // New message arrived and we were near bottom, scroll to new message
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }
 
       messagesLengthRef.current = currentLength;
-    }, [messages.length]);
+    }, [messages.length, hasNewer]);
 
     // Expose scrollToMessage and scrollToTop functions via ref
     useImperativeHandle(
@@ -387,6 +525,8 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
         ref={scrollViewRef}
         testID={testID || 'message-list'}
         onScroll={handleScroll}
+        onLayout={handleViewportLayout}
+        onContentSizeChange={reportViewedMessage}
         scrollEventThrottle={400}
         style={{ flex: 1 }}
         contentContainerStyle={{
@@ -407,6 +547,15 @@ export const MessageList = forwardRef<MessageListHandle, MessageListProps>(
               currentUserId={currentUserId}
               onMessagePress={onMessagePress}
               onSenderPress={onSenderPress}
+              onReactionPress={onReactionPress}
+              onPollVote={onPollVote}
+              onPollResultsPress={onPollResultsPress}
+              readReceipt={
+                getReadReceipt && item.sender_id === currentUserId ? getReadReceipt(item) : null
+              }
+              onRetryMessage={onRetryMessage}
+              onDiscardMessage={onDiscardMessage}
+              onLayout={onMessageViewed ? handleMessageLayout : undefined}
               showThreadIndicator={showThreadIndicators}
               highlightedMessageId={highlightedMessageId}
               selectedMessageId={selectedMessageId}
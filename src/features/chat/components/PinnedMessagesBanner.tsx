@@ -0,0 +1,145 @@
+/**
+ * PinnedMessagesBanner Component
+ *
+ * Banner under the chat header showing the conversation's pinned messages.
+ * Collapsed it shows the latest pin; expanded it lists every pin.
+ *
+ * - Tap a pin to jump to the message
+ * - Leaders get an unpin button on each visible row once the list is expanded
+ */
+
+import { memo, useCallback, useState } from 'react';
+import { Pressable } from 'react-native';
+import { Text as TamaguiText, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import type { PinnedMessage } from '@/types/database';
+
+export interface PinnedMessagesBannerProps {
+  /**
+   * Pinned messages, newest first.
+   */
+  pinnedMessages: PinnedMessage[];
+
+  /**
+   * Callback when a pin is tapped.
+   */
+  onPressMessage: (messageId: string) => void;
+
+  /**
+   * Callback when a pin's unpin button is pressed. The button is hidden when omitted.
+   */
+  onUnpin?: (messageId: string) => void;
+}
+
+/**
+ * PinnedMessagesBanner component.
+ */
+export const PinnedMessagesBanner = memo(
+  ({ pinnedMessages, onPressMessage, onUnpin }: PinnedMessagesBannerProps) => {
+    const { t } = useTranslation();
+    const [expanded, setExpanded] = useState(false);
+
+    const handleToggle = useCallback(() => {
+      setExpanded((prev) => !prev);
+    }, []);
+
+    const getPreview = useCallback(
+      (pin: PinnedMessage) => {
+        if (pin.content_type === 'image') {
+          return `📷 ${t('chat.image')}`;
+        }
+        if (pin.content_type === 'prayer_card') {
+          return `🙏 ${t('chat.prayer_card')}`;
+        }
+        if (pin.content_type === 'poll') {
+          return `📊 ${pin.content ?? t('chat.poll.title')}`;
+        }
+        return pin.content ?? '';
+      },
+      [t]
+    );
+
+    if (pinnedMessages.length === 0) {
+      return null;
+    }
+
+    const visiblePins = expanded ? pinnedMessages : pinnedMessages.slice(0, 1);
+    const canExpand = pinnedMessages.length > 1;
+
+    return (
+      <YStack
+        testID="pinned-messages-banner"
+        backgroundColor="$background"
+        borderBottomWidth={1}
+        borderBottomColor="$borderLight"
+        paddingHorizontal="$3"
+        paddingVertical="$2"
+        gap="$2"
+      >
+        {visiblePins.map((pin, index) => (
+          <XStack key={pin.id} alignItems="center" gap="$2">
+            <Ionicons name="pin" size={16} color="#8E8E93" />
+            <Pressable
+              testID={`pinned-message-${pin.message_id}`}
+              onPress={() => onPressMessage(pin.message_id)}
+              accessibilityRole="button"
+              accessibilityLabel={t('chat.pinned.jump_to_message')}
+              style={{ flex: 1 }}
+            >
+              <YStack>
+                <TamaguiText fontSize="$xs" fontWeight="600" color="$color2" numberOfLines={1}>
+                  {pin.sender_name ?? t('chat.pinned.title')}
+                </TamaguiText>
+                <TamaguiText fontSize="$sm" color="$color1" numberOfLines={1}>
+                  {getPreview(pin)}
+                </TamaguiText>
+              </YStack>
+            </Pressable>
+
+            {(expanded || !canExpand) && onUnpin && (
+              <Pressable
+                testID={`unpin-message-${pin.message_id}`}
+                onPress={() => onUnpin(pin.message_id)}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel={t('chat.pinned.unpin')}
+              >
+                <Ionicons name="close" size={18} color="#8E8E93" />
+              </Pressable>
+            )}
+
+            {canExpand && index === 0 && (
+              <Pressable
+                testID="pinned-messages-toggle"
+                onPress={handleToggle}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel={
+                  expanded
+                    ? t('chat.pinned.collapse')
+                    : t('chat.pinned.expand', { count: pinnedMessages.length })
+                }
+              >
+                <XStack alignItems="center" gap="$1">
+                  {!expanded && (
+                    <TamaguiText fontSize="$xs" color="$color3">
+                      {pinnedMessages.length}
+                    </TamaguiText>
+                  )}
+                  <Ionicons
+                    name={expanded ? 'chevron-up' : 'chevron-down'}
+                    size={18}
+                    color="#8E8E93"
+                  />
+                </XStack>
+              </Pressable>
+            )}
+          </XStack>
+        ))}
+      </YStack>
+    );
+  }
+);
+
+PinnedMessagesBanner.displayName = 'PinnedMessagesBanner';
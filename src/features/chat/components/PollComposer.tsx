@@ -0,0 +1,326 @@
+/**
+ * PollComposer component.
+ *
+ * Modal for writing a poll before it is sent to the conversation.
+ * Features:
+ * - Question and 2-10 options (add and remove rows)
+ * - Single or multiple choice
+ * - Anonymous mode (only tallies are shown)
+ * - Optional close time from a few presets
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, Pressable, ScrollView, TextInput } from 'react-native';
+import { Stack, Switch, Text as TamaguiText, useTheme, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, type PollDraft } from '../hooks/usePolls';
+
+export interface PollComposerProps {
+  /**
+   * Whether the modal is visible.
+   */
+  visible: boolean;
+
+  /**
+   * Callback with the finished poll. The composer stays open if it throws.
+   */
+  onSubmit: (draft: PollDraft) => Promise<void>;
+
+  /**
+   * Callback when the user cancels.
+   */
+  onCancel: () => void;
+}
+
+/**
+ * Close time presets, in hours (null keeps the poll open).
+ */
+const CLOSE_PRESETS = [
+  { key: 'none', hours: null, labelKey: 'chat.poll.close_presets.none' },
+  { key: 'hour', hours: 1, labelKey: 'chat.poll.close_presets.hour' },
+  { key: 'day', hours: 24, labelKey: 'chat.poll.close_presets.day' },
+  { key: 'three_days', hours: 72, labelKey: 'chat.poll.close_presets.three_days' },
+  { key: 'week', hours: 168, labelKey: 'chat.poll.close_presets.week' },
+] as const;
+
+type ClosePresetKey = (typeof CLOSE_PRESETS)[number]['key'];
+
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+
+const EMPTY_OPTIONS = Array.from({ length: MIN_POLL_OPTIONS }, () => '');
+
+/**
+ * PollComposer component.
+ */
+export function PollComposer({ visible, onSubmit, onCancel }: PollComposerProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(EMPTY_OPTIONS);
+  const [allowsMultiple, setAllowsMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [closePreset, setClosePreset] = useState<ClosePresetKey>('none');
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start fresh each time the composer opens
+  useEffect(() => {
+    if (visible) {
+      setQuestion('');
+      setOptions(EMPTY_OPTIONS);
+      setAllowsMultiple(false);
+      setIsAnonymous(false);
+      setClosePreset('none');
+    }
+  }, [visible]);
+
+  const filledOptions = options.map((option) => option.trim()).filter(Boolean);
+  const canSubmit =
+    question.trim().length > 0 && filledOptions.length >= MIN_POLL_OPTIONS && !submitting;
+
+  const handleChangeOption = useCallback((index: number, text: string) => {
+    setOptions((prev) => prev.map((option, i) => (i === index ? text : option)));
+  }, []);
+
+  const handleAddOption = useCallback(() => {
+    setOptions((prev) => (prev.length < MAX_POLL_OPTIONS ? [...prev, ''] : prev));
+  }, []);
+
+  const handleRemoveOption = useCallback((index: number) => {
+    setOptions((prev) =>
+      prev.length > MIN_POLL_OPTIONS ? prev.filter((_, i) => i !== index) : prev
+    );
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    const hours = CLOSE_PRESETS.find((preset) => preset.key === closePreset)?.hours ?? null;
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        question: question.trim(),
+        options: filledOptions,
+        allowsMultiple,
+        isAnonymous,
+        closesAt: hours ? new Date(Date.now() + hours * 60 * 60 * 1000).toISOString() : null,
+      });
+    } catch {
+      // Keep the draft so the user can try again
+    } finally {
+      setSubmitting(false);
+    }
+  }, [canSubmit, closePreset, onSubmit, question, filledOptions, allowsMultiple, isAnonymous]);
+
+  const inputStyle = {
+    flex: 1,
+    fontSize: 15,
+    paddingVertical: 8,
+    color: theme.color?.val,
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <Stack
+        flex={1}
+        backgroundColor="rgba(0, 0, 0, 0.5)"
+        justifyContent="center"
+        alignItems="center"
+      >
+        <YStack
+          testID="poll-composer"
+          backgroundColor="$background"
+          borderRadius="$4"
+          width="90%"
+          maxWidth={400}
+          maxHeight="85%"
+        >
+          {/* Header */}
+          <YStack padding="$4" borderBottomWidth={1} borderBottomColor="$borderLight">
+            <TamaguiText fontSize="$lg" fontWeight="bold" color="$color">
+              {t('chat.poll.create_title')}
+            </TamaguiText>
+          </YStack>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <YStack padding="$4" gap="$3">
+              <XStack
+                paddingHorizontal="$3"
+                borderRadius="$2"
+                backgroundColor="$backgroundTertiary"
+              >
+                <TextInput
+                  testID="poll-question-input"
+                  value={question}
+                  onChangeText={setQuestion}
+                  placeholder={t('chat.poll.question_placeholder')}
+                  placeholderTextColor="#8e8e93"
+                  maxLength={MAX_QUESTION_LENGTH}
+                  multiline
+                  style={inputStyle}
+                />
+              </XStack>
+
+              {/* Options */}
+              <YStack gap="$2">
+                {options.map((option, index) => (
+                  <XStack
+                    key={index}
+                    alignItems="center"
+                    paddingHorizontal="$3"
+                    borderRadius="$2"
+                    backgroundColor="$backgroundTertiary"
+                  >
+                    <TextInput
+                      testID={`poll-option-input-${index}`}
+                      value={option}
+                      onChangeText={(text) => handleChangeOption(index, text)}
+                      placeholder={t('chat.poll.option_placeholder', { number: index + 1 })}
+                      placeholderTextColor="#8e8e93"
+                      maxLength={MAX_OPTION_LENGTH}
+                      style={inputStyle}
+                    />
+                    {options.length > MIN_POLL_OPTIONS && (
+                      <Pressable
+                        testID={`poll-option-remove-${index}`}
+                        onPress={() => handleRemoveOption(index)}
+                        hitSlop={8}
+                        accessibilityRole="button"
+                        accessibilityLabel={t('chat.poll.remove_option')}
+                      >
+                        <Ionicons name="close-circle" size={18} color="#8E8E93" />
+                      </Pressable>
+                    )}
+                  </XStack>
+                ))}
+
+                {options.length < MAX_POLL_OPTIONS && (
+                  <Pressable testID="poll-add-option" onPress={handleAddOption}>
+                    <XStack alignItems="center" gap="$2" paddingVertical="$1">
+                      <Ionicons name="add-circle-outline" size={20} color="#007AFF" />
+                      <TamaguiText fontSize="$md" color="#007AFF">
+                        {t('chat.poll.add_option')}
+                      </TamaguiText>
+                    </XStack>
+                  </Pressable>
+                )}
+              </YStack>
+
+              {/* Settings */}
+              <XStack alignItems="center" justifyContent="space-between">
+                <TamaguiText fontSize="$md" color="$color">
+                  {t('chat.poll.allow_multiple')}
+                </TamaguiText>
+                <Switch
+                  testID="poll-multiple-switch"
+                  checked={allowsMultiple}
+                  onCheckedChange={setAllowsMultiple}
+                  size="$2"
+                  backgroundColor={allowsMultiple ? '$primary' : '$borderLight'}
+                >
+                  <Switch.Thumb />
+                </Switch>
+              </XStack>
+
+              <XStack alignItems="center" justifyContent="space-between">
+                <YStack flex={1} marginRight="$2">
+                  <TamaguiText fontSize="$md" color="$color">
+                    {t('chat.poll.anonymous_votes')}
+                  </TamaguiText>
+                  <TamaguiText fontSize="$xs" color="$color3">
+                    {t('chat.poll.anonymous_description')}
+                  </TamaguiText>
+                </YStack>
+                <Switch
+                  testID="poll-anonymous-switch"
+                  checked={isAnonymous}
+                  onCheckedChange={setIsAnonymous}
+                  size="$2"
+                  backgroundColor={isAnonymous ? '$primary' : '$borderLight'}
+                >
+                  <Switch.Thumb />
+                </Switch>
+              </XStack>
+
+              <YStack gap="$2">
+                <TamaguiText fontSize="$md" color="$color">
+                  {t('chat.poll.close_time')}
+                </TamaguiText>
+                <XStack flexWrap="wrap" gap="$2">
+                  {CLOSE_PRESETS.map((preset) => {
+                    const selected = preset.key === closePreset;
+                    return (
+                      <Pressable
+                        key={preset.key}
+                        testID={`poll-close-${preset.key}`}
+                        onPress={() => setClosePreset(preset.key)}
+                        accessibilityRole="radio"
+                        accessibilityState={{ checked: selected }}
+                      >
+                        <Stack
+                          paddingHorizontal="$3"
+                          paddingVertical="$1.5"
+                          borderRadius={16}
+                          borderWidth={1}
+                          borderColor={selected ? '#007AFF' : '$borderLight'}
+                          backgroundColor={selected ? 'rgba(0,122,255,0.12)' : 'transparent'}
+                        >
+                          <TamaguiText fontSize="$sm" color={selected ? '#007AFF' : '$color2'}>
+                            {t(preset.labelKey)}
+                          </TamaguiText>
+                        </Stack>
+                      </Pressable>
+                    );
+                  })}
+                </XStack>
+              </YStack>
+            </YStack>
+          </ScrollView>
+
+          {/* Footer buttons */}
+          <XStack padding="$4" borderTopWidth={1} borderTopColor="$borderLight" gap="$2">
+            <Pressable testID="poll-cancel-button" onPress={onCancel} style={{ flex: 1 }}>
+              <Stack
+                padding="$3"
+                borderRadius="$2"
+                backgroundColor="$backgroundTertiary"
+                alignItems="center"
+              >
+                <TamaguiText fontSize="$md" color="$color">
+                  {t('chat.cancel')}
+                </TamaguiText>
+              </Stack>
+            </Pressable>
+            <Pressable
+              testID="poll-submit-button"
+              onPress={() => void handleSubmit()}
+              disabled={!canSubmit}
+              style={{ flex: 1 }}
+            >
+              <Stack
+                padding="$3"
+                borderRadius="$2"
+                backgroundColor="$primary"
+                alignItems="center"
+                opacity={canSubmit ? 1 : 0.5}
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <TamaguiText fontSize="$md" fontWeight="600" color="white">
+                    {t('chat.poll.create')}
+                  </TamaguiText>
+                )}
+              </Stack>
+            </Pressable>
+          </XStack>
+        </YStack>
+      </Stack>
+    </Modal>
+  );
+}
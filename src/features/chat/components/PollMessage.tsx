@@ -0,0 +1,177 @@
+/**
+ * PollMessage component.
+ *
+ * Poll content inside a message bubble: the question, one row per option with
+ * its live tally, and a footer with the total and a link to the results.
+ *
+ * - Tap an option to vote or take the vote back
+ * - The member's own choices are checked
+ * - Closed polls show the final tallies and can't be voted on
+ */
+
+import { Pressable } from 'react-native';
+import { Stack, Text as TamaguiText, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import type { MessagePoll } from '@/types/database';
+import { isPollClosed } from '../hooks/usePolls';
+
+export interface PollMessageProps {
+  /**
+   * The poll question (the message content).
+   */
+  question: string | null;
+
+  poll: MessagePoll;
+
+  /**
+   * The current member, used to check their own votes.
+   */
+  currentMembershipId?: string | null;
+
+  /**
+   * Callback when an option is tapped. Omit to render a read-only poll.
+   */
+  onVote?: (optionId: string) => void;
+
+  /**
+   * Callback when the results link is tapped. The link is hidden when omitted.
+   */
+  onViewResults?: () => void;
+
+  testID?: string;
+}
+
+/**
+ * Format a poll's close time for the meta line.
+ */
+function formatCloseTime(dateString: string): string {
+  return new Date(dateString).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * PollMessage component.
+ */
+export function PollMessage({
+  question,
+  poll,
+  currentMembershipId,
+  onVote,
+  onViewResults,
+  testID,
+}: PollMessageProps) {
+  const { t } = useTranslation();
+  const closed = isPollClosed(poll);
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.vote_count, 0);
+  const myOptionIds = new Set(
+    poll.votes
+      .filter((vote) => vote.membership_id === currentMembershipId)
+      .map((vote) => vote.option_id)
+  );
+
+  const meta = [
+    poll.allows_multiple ? t('chat.poll.multiple_choice') : t('chat.poll.single_choice'),
+    poll.is_anonymous ? t('chat.poll.anonymous') : null,
+    closed
+      ? t('chat.poll.closed')
+      : poll.closes_at
+        ? t('chat.poll.closes_at', { time: formatCloseTime(poll.closes_at) })
+        : null,
+  ].filter(Boolean);
+
+  return (
+    <YStack testID={testID ?? 'poll-message'} gap="$2" minWidth={220}>
+      <XStack alignItems="center" gap="$1.5">
+        <Ionicons name="stats-chart" size={14} color="#8E8E93" />
+        <TamaguiText fontSize="$xs" fontWeight="600" color="$color3">
+          {t('chat.poll.title')}
+        </TamaguiText>
+      </XStack>
+
+      <TamaguiText testID="poll-question" fontSize="$lg" fontWeight="600" color="$color1">
+        {question ?? ''}
+      </TamaguiText>
+
+      <TamaguiText testID="poll-meta" fontSize="$xs" color="$color3">
+        {meta.join(' · ')}
+      </TamaguiText>
+
+      <YStack gap="$1.5">
+        {poll.options.map((option) => {
+          const selected = myOptionIds.has(option.id);
+          const share = totalVotes > 0 ? option.vote_count / totalVotes : 0;
+          const icon = poll.allows_multiple
+            ? selected
+              ? 'checkbox'
+              : 'square-outline'
+            : selected
+              ? 'checkmark-circle'
+              : 'ellipse-outline';
+
+          return (
+            <Pressable
+              key={option.id}
+              testID={`poll-option-${option.id}`}
+              onPress={() => onVote?.(option.id)}
+              disabled={closed || !onVote}
+              accessibilityRole={poll.allows_multiple ? 'checkbox' : 'radio'}
+              accessibilityState={{ checked: selected, disabled: closed || !onVote }}
+            >
+              <XStack
+                borderRadius={8}
+                borderWidth={1}
+                borderColor={selected ? '#007AFF' : '$borderLight'}
+                overflow="hidden"
+                alignItems="center"
+                paddingHorizontal="$2"
+                paddingVertical="$1.5"
+                gap="$2"
+              >
+                {/* Tally bar behind the option */}
+                <Stack
+                  position="absolute"
+                  top={0}
+                  bottom={0}
+                  left={0}
+                  width={`${Math.round(share * 100)}%`}
+                  backgroundColor={selected ? 'rgba(0,122,255,0.16)' : 'rgba(142,142,147,0.16)'}
+                />
+                {!closed && (
+                  <Ionicons name={icon} size={18} color={selected ? '#007AFF' : '#8E8E93'} />
+                )}
+                <TamaguiText flex={1} fontSize="$md" color="$color1" numberOfLines={2}>
+                  {option.label}
+                </TamaguiText>
+                <TamaguiText
+                  testID={`poll-option-count-${option.id}`}
+                  fontSize="$sm"
+                  color="$color2"
+                >
+                  {option.vote_count}
+                </TamaguiText>
+              </XStack>
+            </Pressable>
+          );
+        })}
+      </YStack>
+
+      <XStack alignItems="center" justifyContent="space-between">
+        <TamaguiText testID="poll-total" fontSize="$xs" color="$color3">
+          {t('chat.poll.vote_count', { count: totalVotes })}
+        </TamaguiText>
+        {onViewResults && (
+          <Pressable testID="poll-view-results" onPress={onViewResults} hitSlop={8}>
+            <TamaguiText fontSize="$xs" fontWeight="600" color="#007AFF">
+              {t('chat.poll.view_results')}
+            </TamaguiText>
+          </Pressable>
+        )}
+      </XStack>
+    </YStack>
+  );
+}
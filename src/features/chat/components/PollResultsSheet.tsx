@@ -0,0 +1,151 @@
+/**
+ * PollResultsSheet component.
+ *
+ * Modal with a poll's results: each option with its tally and, unless the
+ * poll is anonymous, the members who voted for it.
+ */
+
+import { ActivityIndicator, Modal, Pressable, ScrollView } from 'react-native';
+import { Stack, Text as TamaguiText, XStack, YStack } from 'tamagui';
+import { useTranslation } from '@/i18n';
+import type { MessagePoll } from '@/types/database';
+import type { PollVoter } from '../hooks/usePolls';
+
+export interface PollResultsSheetProps {
+  /**
+   * Whether the modal is visible.
+   */
+  visible: boolean;
+
+  /**
+   * The poll question (the message content).
+   */
+  question: string | null;
+
+  poll: MessagePoll | null;
+
+  /**
+   * Who voted for what. Ignored for anonymous polls.
+   */
+  voters: PollVoter[];
+
+  /**
+   * Whether voters are still loading.
+   */
+  loading?: boolean;
+
+  onClose: () => void;
+}
+
+/**
+ * PollResultsSheet component.
+ */
+export function PollResultsSheet({
+  visible,
+  question,
+  poll,
+  voters,
+  loading = false,
+  onClose,
+}: PollResultsSheetProps) {
+  const { t } = useTranslation();
+
+  if (!poll) {
+    return null;
+  }
+
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.vote_count, 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={{ flex: 1 }} onPress={onClose}>
+        <Stack
+          flex={1}
+          backgroundColor="rgba(0, 0, 0, 0.5)"
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Pressable onPress={(e) => e.stopPropagation()} style={{ width: '90%', maxWidth: 400 }}>
+            <YStack
+              testID="poll-results-sheet"
+              backgroundColor="$background"
+              borderRadius="$4"
+              maxHeight={560}
+            >
+              {/* Header */}
+              <YStack padding="$4" borderBottomWidth={1} borderBottomColor="$borderLight" gap="$1">
+                <TamaguiText fontSize="$lg" fontWeight="bold" color="$color">
+                  {t('chat.poll.results_title')}
+                </TamaguiText>
+                <TamaguiText fontSize="$md" color="$color2">
+                  {question ?? ''}
+                </TamaguiText>
+                <TamaguiText fontSize="$xs" color="$color3">
+                  {poll.is_anonymous
+                    ? t('chat.poll.anonymous_results')
+                    : t('chat.poll.vote_count', { count: totalVotes })}
+                </TamaguiText>
+              </YStack>
+
+              <ScrollView>
+                <YStack padding="$4" gap="$4">
+                  {poll.options.map((option) => {
+                    const percent =
+                      totalVotes > 0 ? Math.round((option.vote_count / totalVotes) * 100) : 0;
+                    const optionVoters = voters.filter((voter) => voter.option_id === option.id);
+
+                    return (
+                      <YStack key={option.id} testID={`poll-result-${option.id}`} gap="$1.5">
+                        <XStack alignItems="center" gap="$2">
+                          <TamaguiText flex={1} fontSize="$md" fontWeight="600" color="$color1">
+                            {option.label}
+                          </TamaguiText>
+                          <TamaguiText fontSize="$sm" color="$color2">
+                            {t('chat.poll.option_result', { count: option.vote_count, percent })}
+                          </TamaguiText>
+                        </XStack>
+
+                        {!poll.is_anonymous &&
+                          (loading ? (
+                            <ActivityIndicator size="small" />
+                          ) : optionVoters.length > 0 ? (
+                            optionVoters.map((voter) => (
+                              <TamaguiText
+                                key={voter.membership_id}
+                                testID={`poll-voter-${option.id}-${voter.membership_id}`}
+                                fontSize="$sm"
+                                color="$color2"
+                              >
+                                {voter.display_name ?? t('chat.poll.unknown_voter')}
+                              </TamaguiText>
+                            ))
+                          ) : (
+                            <TamaguiText fontSize="$sm" color="$color3">
+                              {t('chat.poll.no_votes')}
+                            </TamaguiText>
+                          ))}
+                      </YStack>
+                    );
+                  })}
+                </YStack>
+              </ScrollView>
+
+              <Pressable testID="poll-results-close" onPress={onClose}>
+                <XStack
+                  justifyContent="center"
+                  padding="$3"
+                  borderTopWidth={1}
+                  borderTopColor="$borderLight"
+                >
+                  <TamaguiText fontSize="$md" color="$primary" fontWeight="bold">
+                    {t('chat.poll.close')}
+                  </TamaguiText>
+                </XStack>
+              </Pressable>
+            </YStack>
+          </Pressable>
+        </Stack>
+      </Pressable>
+    </Modal>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * ReactionChips component.
+ *
+ * Row of emoji reaction chips shown under a message bubble. Each chip shows the
+ * emoji and how many members used it, and is highlighted when the current
+ * member is one of them.
+ *
+ * - Tap toggles the current member's reaction
+ * - Long press lists who reacted
+ */
+
+import { useCallback } from 'react';
+import { Alert, Image, Pressable, StyleSheet } from 'react-native';
+import { Text as TamaguiText, XStack } from 'tamagui';
+import { useTranslation } from '@/i18n';
+import type { MessageReaction } from '@/types/database';
+import { summarizeReactions, type ReactionSummary } from '../hooks/useMessageReactions';
+import { getEmojiSource } from './EmojiPicker';
+
+export interface ReactionChipsProps {
+  reactions: MessageReaction[] | undefined;
+
+  /**
+   * The current member, used to highlight their own reactions.
+   */
+  currentMembershipId?: string | null;
+
+  /**
+   * Callback when a chip is tapped. Omit to render read-only chips.
+   */
+  onToggle?: (emoji: string) => void;
+
+  /**
+   * Which side of the message the chips line up with.
+   */
+  align?: 'flex-start' | 'flex-end';
+
+  testID?: string;
+}
+
+/**
+ * Strip the picker's colons for labels (':heart:' -> 'heart').
+ */
+function getEmojiLabel(emoji: string): string {
+  return emoji.replace(/^:|:$/g, '');
+}
+
+/**
+ * ReactionChips component.
+ */
+export function ReactionChips({
+  reactions,
+  currentMembershipId,
+  onToggle,
+  align = 'flex-start',
+  testID,
+}: ReactionChipsProps) {
+  const { t } = useTranslation();
+  const summaries = summarizeReactions(reactions, currentMembershipId);
+
+  const handleLongPress = useCallback(
+    (summary: ReactionSummary) => () => {
+      const names = summary.displayNames.length
+        ? summary.displayNames
+        : [t('chat.reactions.unknown_member')];
+      Alert.alert(
+        t('chat.reactions.reacted_by', { emoji: getEmojiLabel(summary.emoji) }),
+        names.join('\n')
+      );
+    },
+    [t]
+  );
+
+  if (summaries.length === 0) {
+    return null;
+  }
+
+  return (
+    <XStack
+      testID={testID ?? 'reaction-chips'}
+      flexWrap="wrap"
+      justifyContent={align}
+      gap="$1"
+      marginTop="$1"
+    >
+      {summaries.map((summary) => {
+        const source = getEmojiSource(summary.emoji);
+
+        return (
+          <Pressable
+            key={summary.emoji}
+            onPress={() => onToggle?.(summary.emoji)}
+            onLongPress={handleLongPress(summary)}
+            style={[styles.chip, summary.reactedByMe && styles.chipSelected]}
+            accessibilityRole="button"
+            accessibilityState={{ selected: summary.reactedByMe }}
+            accessibilityLabel={t('chat.reactions.chip_label', {
+              emoji: getEmojiLabel(summary.emoji),
+              count: summary.count,
+            })}
+            testID={`reaction-chip-${getEmojiLabel(summary.emoji)}`}
+          >
+            {source !== null ? (
+              <Image source={source} style={styles.emoji} resizeMode="contain" />
+            ) : (
+              <TamaguiText fontSize={12}>{summary.emoji}</TamaguiText>
+            )}
+            <TamaguiText
+              fontSize={12}
+              fontWeight={summary.reactedByMe ? '600' : '400'}
+              color="$color2"
+            >
+              {summary.count}
+            </TamaguiText>
+          </Pressable>
+        );
+      })}
+    </XStack>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.08)',
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  },
+  chipSelected: {
+    borderColor: '#E6B800',
+    backgroundColor: 'rgba(255, 215, 0, 0.25)',
+  },
+  emoji: {
+    width: 16,
+    height: 16,
+  },
+});
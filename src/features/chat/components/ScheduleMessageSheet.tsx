@@ -0,0 +1,383 @@
+/**
+ * ScheduleMessageSheet component.
+ *
+ * Modal for picking when a message should be posted, opened by long-pressing
+ * the send button or by editing a scheduled message.
+ * Features:
+ * - Editable message text (prefilled from the input or the scheduled message)
+ * - Day chips for the next two weeks
+ * - Hour and minute steppers (5-minute steps)
+ * - Times in the past can't be saved
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Modal, Pressable, ScrollView, TextInput } from 'react-native';
+import { Stack, Text as TamaguiText, useTheme, XStack, YStack } from 'tamagui';
+import { useTranslation } from '@/i18n';
+
+export interface ScheduleMessageSheetProps {
+  /**
+   * Whether the modal is visible.
+   */
+  visible: boolean;
+
+  /**
+   * Message text to start with.
+   */
+  initialContent: string;
+
+  /**
+   * Time to start with (ISO timestamp). Defaults to the top of the hour after next.
+   */
+  initialScheduledFor?: string | null;
+
+  /**
+   * Callback with the text and the chosen time (ISO timestamp). The sheet
+   * stays open if it throws.
+   */
+  onSubmit: (content: string, scheduledFor: string) => Promise<void>;
+
+  /**
+   * Callback when the user cancels.
+   */
+  onCancel: () => void;
+}
+
+/**
+ * Days offered by the day chips, starting today.
+ */
+const SCHEDULE_DAYS = 14;
+
+const MINUTE_STEP = 5;
+
+const MAX_CONTENT_LENGTH = 2000;
+
+interface ScheduleSelection {
+  /** Days from today */
+  dayOffset: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Split a time into the picker's day, hour, and minute.
+ */
+function toSelection(date: Date, now: Date): ScheduleSelection {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayOffset = Math.round((day.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+
+  return {
+    dayOffset: Math.min(Math.max(dayOffset, 0), SCHEDULE_DAYS - 1),
+    hour: date.getHours(),
+    minute: Math.floor(date.getMinutes() / MINUTE_STEP) * MINUTE_STEP,
+  };
+}
+
+/**
+ * Build the chosen time in the device's time zone.
+ */
+function toDate(selection: ScheduleSelection, now: Date): Date {
+  return new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + selection.dayOffset,
+    selection.hour,
+    selection.minute
+  );
+}
+
+/**
+ * Default time: the top of the hour after next (10:20 → 12:00).
+ */
+function getDefaultTime(now: Date): Date {
+  const date = new Date(now);
+  date.setHours(date.getHours() + 2, 0, 0, 0);
+  return date;
+}
+
+/**
+ * ScheduleMessageSheet component.
+ */
+export function ScheduleMessageSheet({
+  visible,
+  initialContent,
+  initialScheduledFor,
+  onSubmit,
+  onCancel,
+}: ScheduleMessageSheetProps) {
+  const { t } = useTranslation();
+  const theme = useTheme();
+
+  const [content, setContent] = useState(initialContent);
+  const [selection, setSelection] = useState<ScheduleSelection>(() =>
+    toSelection(getDefaultTime(new Date()), new Date())
+  );
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start from the given text and time each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      const now = new Date();
+      setContent(initialContent);
+      setSelection(
+        toSelection(initialScheduledFor ? new Date(initialScheduledFor) : getDefaultTime(now), now)
+      );
+    }
+  }, [visible, initialContent, initialScheduledFor]);
+
+  const now = new Date();
+  const scheduledDate = toDate(selection, now);
+  const isInFuture = scheduledDate.getTime() > now.getTime();
+  const canSubmit = content.trim().length > 0 && isInFuture && !submitting;
+
+  const days = Array.from({ length: SCHEDULE_DAYS }, (_, offset) => {
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const label =
+      offset === 0
+        ? t('chat.today')
+        : offset === 1
+          ? t('chat.scheduled.tomorrow')
+          : date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+    return { offset, label };
+  });
+
+  const handleStepHour = useCallback((direction: 1 | -1) => {
+    setSelection((prev) => ({ ...prev, hour: (prev.hour + direction + 24) % 24 }));
+  }, []);
+
+  const handleStepMinute = useCallback((direction: 1 | -1) => {
+    setSelection((prev) => ({
+      ...prev,
+      minute: (prev.minute + direction * MINUTE_STEP + 60) % 60,
+    }));
+  }, []);
+
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(content.trim(), scheduledDate.toISOString());
+    } catch {
+      // Keep the sheet open so the user can try again
+    } finally {
+      setSubmitting(false);
+    }
+  }, [canSubmit, content, onSubmit, scheduledDate]);
+
+  const renderStepper = (
+    testID: string,
+    value: number,
+    onStep: (direction: 1 | -1) => void,
+    labelKey: string
+  ) => (
+    <XStack alignItems="center" gap="$3">
+      <Pressable
+        testID={`${testID}-decrease`}
+        onPress={() => onStep(-1)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel={t(labelKey)}
+      >
+        <TamaguiText fontSize="$lg" color="$primary">
+          −
+        </TamaguiText>
+      </Pressable>
+      <TamaguiText
+        testID={`${testID}-value`}
+        fontSize="$lg"
+        color="$color"
+        minWidth={32}
+        textAlign="center"
+      >
+        {String(value).padStart(2, '0')}
+      </TamaguiText>
+      <Pressable
+        testID={`${testID}-increase`}
+        onPress={() => onStep(1)}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel={t(labelKey)}
+      >
+        <TamaguiText fontSize="$lg" color="$primary">
+          +
+        </TamaguiText>
+      </Pressable>
+    </XStack>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <Stack
+        flex={1}
+        backgroundColor="rgba(0, 0, 0, 0.5)"
+        justifyContent="center"
+        alignItems="center"
+      >
+        <YStack
+          testID="schedule-message-sheet"
+          backgroundColor="$background"
+          borderRadius="$4"
+          width="90%"
+          maxWidth={400}
+          maxHeight="85%"
+        >
+          {/* Header */}
+          <YStack padding="$4" borderBottomWidth={1} borderBottomColor="$borderLight">
+            <TamaguiText fontSize="$lg" fontWeight="bold" color="$color">
+              {t('chat.scheduled.schedule_title')}
+            </TamaguiText>
+          </YStack>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <YStack padding="$4" gap="$3">
+              <XStack
+                paddingHorizontal="$3"
+                borderRadius="$2"
+                backgroundColor="$backgroundTertiary"
+              >
+                <TextInput
+                  testID="schedule-content-input"
+                  value={content}
+                  onChangeText={setContent}
+                  placeholder={t('chat.message_placeholder')}
+                  placeholderTextColor="#8e8e93"
+                  maxLength={MAX_CONTENT_LENGTH}
+                  multiline
+                  style={{
+                    flex: 1,
+                    fontSize: 15,
+                    paddingVertical: 8,
+                    maxHeight: 120,
+                    color: theme.color?.val,
+                  }}
+                />
+              </XStack>
+
+              {/* Day */}
+              <YStack gap="$2">
+                <TamaguiText fontSize="$md" color="$color">
+                  {t('chat.scheduled.day')}
+                </TamaguiText>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  <XStack gap="$2">
+                    {days.map((day) => {
+                      const selected = day.offset === selection.dayOffset;
+                      return (
+                        <Pressable
+                          key={day.offset}
+                          testID={`schedule-day-${day.offset}`}
+                          onPress={() =>
+                            setSelection((prev) => ({ ...prev, dayOffset: day.offset }))
+                          }
+                          accessibilityRole="radio"
+                          accessibilityState={{ checked: selected }}
+                        >
+                          <Stack
+                            paddingHorizontal="$3"
+                            paddingVertical="$1.5"
+                            borderRadius={16}
+                            borderWidth={1}
+                            borderColor={selected ? '#007AFF' : '$borderLight'}
+                            backgroundColor={selected ? 'rgba(0,122,255,0.12)' : 'transparent'}
+                          >
+                            <TamaguiText fontSize="$sm" color={selected ? '#007AFF' : '$color2'}>
+                              {day.label}
+                            </TamaguiText>
+                          </Stack>
+                        </Pressable>
+                      );
+                    })}
+                  </XStack>
+                </ScrollView>
+              </YStack>
+
+              {/* Time */}
+              <XStack alignItems="center" justifyContent="space-between">
+                <TamaguiText fontSize="$md" color="$color">
+                  {t('chat.scheduled.time')}
+                </TamaguiText>
+                <XStack alignItems="center" gap="$2">
+                  {renderStepper(
+                    'schedule-hour',
+                    selection.hour,
+                    handleStepHour,
+                    'chat.scheduled.hour'
+                  )}
+                  <TamaguiText fontSize="$lg" color="$color">
+                    :
+                  </TamaguiText>
+                  {renderStepper(
+                    'schedule-minute',
+                    selection.minute,
+                    handleStepMinute,
+                    'chat.scheduled.minute'
+                  )}
+                </XStack>
+              </XStack>
+
+              <TamaguiText
+                testID="schedule-summary"
+                fontSize="$sm"
+                color={isInFuture ? '$color3' : '$danger'}
+              >
+                {isInFuture
+                  ? t('chat.scheduled.sends_at', {
+                      time: scheduledDate.toLocaleString([], {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      }),
+                    })
+                  : t('chat.scheduled.time_in_past')}
+              </TamaguiText>
+            </YStack>
+          </ScrollView>
+
+          {/* Footer buttons */}
+          <XStack padding="$4" borderTopWidth={1} borderTopColor="$borderLight" gap="$2">
+            <Pressable testID="schedule-cancel-button" onPress={onCancel} style={{ flex: 1 }}>
+              <Stack
+                padding="$3"
+                borderRadius="$2"
+                backgroundColor="$backgroundTertiary"
+                alignItems="center"
+              >
+                <TamaguiText fontSize="$md" color="$color">
+                  {t('chat.cancel')}
+                </TamaguiText>
+              </Stack>
+            </Pressable>
+            <Pressable
+              testID="schedule-submit-button"
+              onPress={() => void handleSubmit()}
+              disabled={!canSubmit}
+              style={{ flex: 1 }}
+            >
+              <Stack
+                padding="$3"
+                borderRadius="$2"
+                backgroundColor="$primary"
+                alignItems="center"
+                opacity={canSubmit ? 1 : 0.5}
+              >
+                {submitting ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <TamaguiText fontSize="$md" fontWeight="600" color="white">
+                    {t('chat.scheduled.schedule')}
+                  </TamaguiText>
+                )}
+              </Stack>
+            </Pressable>
+          </XStack>
+        </YStack>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * ScheduledMessagesSheet component.
+ *
+ * Modal listing the current member's scheduled messages in a conversation,
+ * soonest first, with actions to edit or cancel each one. Messages the
+ * scheduler couldn't post are flagged so they can be rescheduled.
+ */
+
+import { ActivityIndicator, Modal, Pressable, ScrollView } from 'react-native';
+import { Stack, Text as TamaguiText, XStack, YStack } from 'tamagui';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { useTranslation } from '@/i18n';
+import type { ScheduledMessage } from '@/types/database';
+
+export interface ScheduledMessagesSheetProps {
+  /**
+   * Whether the modal is visible.
+   */
+  visible: boolean;
+
+  scheduledMessages: ScheduledMessage[];
+
+  /**
+   * Whether the list is still loading.
+   */
+  loading?: boolean;
+
+  /**
+   * Callback when edit is tapped on a message.
+   */
+  onEdit: (message: ScheduledMessage) => void;
+
+  /**
+   * Callback when cancel is tapped on a message.
+   */
+  onCancelMessage: (message: ScheduledMessage) => void;
+
+  onClose: () => void;
+}
+
+/**
+ * Format a scheduled time for the list.
+ */
+function formatScheduledTime(dateString: string): string {
+  return new Date(dateString).toLocaleString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * ScheduledMessagesSheet component.
+ */
+export function ScheduledMessagesSheet({
+  visible,
+  scheduledMessages,
+  loading = false,
+  onEdit,
+  onCancelMessage,
+  onClose,
+}: ScheduledMessagesSheetProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={{ flex: 1 }} onPress={onClose}>
+        <Stack
+          flex={1}
+          backgroundColor="rgba(0, 0, 0, 0.5)"
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Pressable onPress={(e) => e.stopPropagation()} style={{ width: '90%', maxWidth: 400 }}>
+            <YStack
+              testID="scheduled-messages-sheet"
+              backgroundColor="$background"
+              borderRadius="$4"
+              maxHeight={560}
+            >
+              {/* Header */}
+              <YStack padding="$4" borderBottomWidth={1} borderBottomColor="$borderLight">
+                <TamaguiText fontSize="$lg" fontWeight="bold" color="$color">
+                  {t('chat.scheduled.title')}
+                </TamaguiText>
+              </YStack>
+
+              <ScrollView>
+                <YStack padding="$4" gap="$3">
+                  {loading ? (
+                    <ActivityIndicator size="small" />
+                  ) : scheduledMessages.length === 0 ? (
+                    <TamaguiText fontSize="$sm" color="$color3" textAlign="center">
+                      {t('chat.scheduled.empty')}
+                    </TamaguiText>
+                  ) : (
+                    scheduledMessages.map((message) => {
+                      const failed = message.status === 'failed';
+
+                      return (
+                        <YStack
+                          key={message.id}
+                          testID={`scheduled-message-${message.id}`}
+                          gap="$1.5"
+                          paddingBottom="$3"
+                          borderBottomWidth={1}
+                          borderBottomColor="$borderLight"
+                        >
+                          <XStack alignItems="center" gap="$1.5">
+                            <Ionicons
+                              name={failed ? 'alert-circle' : 'time-outline'}
+                              size={14}
+                              color={failed ? '#FF3B30' : '#8E8E93'}
+                            />
+                            <TamaguiText
+                              fontSize="$xs"
+                              fontWeight="600"
+                              color={failed ? '$danger' : '$color3'}
+                            >
+                              {failed
+                                ? t('chat.scheduled.failed')
+                                : formatScheduledTime(message.scheduled_for)}
+                            </TamaguiText>
+                          </XStack>
+
+                          <TamaguiText fontSize="$md" color="$color1" numberOfLines={3}>
+                            {message.content}
+                          </TamaguiText>
+
+                          <XStack justifyContent="flex-end" gap="$4">
+                            <Pressable
+                              testID={`scheduled-message-edit-${message.id}`}
+                              onPress={() => onEdit(message)}
+                              hitSlop={8}
+                            >
+                              <TamaguiText fontSize="$sm" fontWeight="600" color="#007AFF">
+                                {failed ? t('chat.scheduled.reschedule') : t('chat.scheduled.edit')}
+                              </TamaguiText>
+                            </Pressable>
+                            <Pressable
+                              testID={`scheduled-message-cancel-${message.id}`}
+                              onPress={() => onCancelMessage(message)}
+                              hitSlop={8}
+                            >
+                              <TamaguiText fontSize="$sm" fontWeight="600" color="$danger">
+                                {t('chat.scheduled.cancel_send')}
+                              </TamaguiText>
+                            </Pressable>
+                          </XStack>
+                        </YStack>
+                      );
+                    })
+                  )}
+                </YStack>
+              </ScrollView>
+
+              <Pressable testID="scheduled-messages-close" onPress={onClose}>
+                <XStack
+                  justifyContent="center"
+                  padding="$3"
+                  borderTopWidth={1}
+                  borderTopColor="$borderLight"
+                >
+                  <TamaguiText fontSize="$md" color="$primary" fontWeight="bold">
+                    {t('chat.scheduled.close')}
+                  </TamaguiText>
+                </XStack>
+              </Pressable>
+            </YStack>
+          </Pressable>
+        </Stack>
+      </Pressable>
+    </Modal>
+  );
+}
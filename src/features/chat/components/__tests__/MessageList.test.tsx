@@ -18,6 +18,13 @@ import { useChatStore } from '@/features/chat/store/chatStore';
 // Mock the chat store
 jest.mock('@/features/chat/store/chatStore');
 
+// Mock Supabase client (reaction chips import the reactions hook module)
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
 const mockUseChatStore = useChatStore as jest.MockedFunction<typeof useChatStore>;
 
 const wrapper = ({ children }: { children: React.ReactNode }) => (
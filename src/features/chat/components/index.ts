@@ -24,3 +24,36 @@ export type { MessageInputProps, MessageInputHandle } from './MessageInput';
 
 export { QuotePreview } from './QuotePreview';
 export type { QuotePreviewProps } from './QuotePreview';
+
+export { MentionSuggestions } from './MentionSuggestions';
+export type { MentionSuggestionsProps } from './MentionSuggestions';
+
+export { PinnedMessagesBanner } from './PinnedMessagesBanner';
+export type { PinnedMessagesBannerProps } from './PinnedMessagesBanner';
+
+export { PollMessage } from './PollMessage';
+export type { PollMessageProps } from './PollMessage';
+
+export { PollComposer } from './PollComposer';
+export type { PollComposerProps } from './PollComposer';
+
+export { PollResultsSheet } from './PollResultsSheet';
+export type { PollResultsSheetProps } from './PollResultsSheet';
+
+export { ScheduleMessageSheet } from './ScheduleMessageSheet';
+export type { ScheduleMessageSheetProps } from './ScheduleMessageSheet';
+
+export { ScheduledMessagesSheet } from './ScheduledMessagesSheet';
+export type { ScheduledMessagesSheetProps } from './ScheduledMessagesSheet';
+
+export { MemberPicker } from './MemberPicker';
+export type { MemberPickerProps } from './MemberPicker';
+
+export { ConversationParticipantsSheet } from './ConversationParticipantsSheet';
+export type { ConversationParticipantsSheetProps } from './ConversationParticipantsSheet';
+
+export { ForwardMessageSheet } from './ForwardMessageSheet';
+export type { ForwardMessageSheetProps } from './ForwardMessageSheet';
+
+export { LinkPreviewCard } from './LinkPreviewCard';
+export type { LinkPreviewCardProps } from './LinkPreviewCard';
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for useConversationMute hook.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { useConversationMute } from '../useConversationMute';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockConversationId = 'conversation-123';
+const mockMembershipId = 'membership-456';
+
+/**
+ * Mock the participant lookup and update used by the hook.
+ */
+function mockParticipantQueries(row: { muted: boolean; muted_until: string | null }) {
+  const mockUpdateEq = resolvesTo({ error: null });
+  const mockUpdate = jest.fn().mockReturnValue({
+    eq: jest.fn().mockReturnValue({ eq: mockUpdateEq }),
+  });
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          single: resolvesTo({ data: row, error: null }),
+        }),
+      }),
+    }),
+    update: mockUpdate,
+  });
+  return mockUpdate;
+}
+
+describe('useConversationMute', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not be muted when conversationId is null', async () => {
+    const { result } = renderHook(() => useConversationMute(null, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.isMuted).toBe(false);
+  });
+
+  it('should treat an indefinite mute as muted', async () => {
+    mockParticipantQueries({ muted: true, muted_until: null });
+
+    const { result } = renderHook(() => useConversationMute(mockConversationId, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.isMuted).toBe(true);
+    expect(result.current.mutedUntil).toBeNull();
+  });
+
+  it('should treat an expired mute as unmuted', async () => {
+    mockParticipantQueries({
+      muted: true,
+      muted_until: new Date(Date.now() - 60 * 1000).toISOString(),
+    });
+
+    const { result } = renderHook(() => useConversationMute(mockConversationId, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.isMuted).toBe(false);
+  });
+
+  it('should mute for one hour', async () => {
+    const mockUpdate = mockParticipantQueries({ muted: false, muted_until: null });
+
+    const { result } = renderHook(() => useConversationMute(mockConversationId, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const before = Date.now();
+    await act(async () => {
+      const success = await result.current.muteConversation('1h');
+      expect(success).toBe(true);
+    });
+
+    const [[payload]] = mockUpdate.mock.calls as [[{ muted: boolean; muted_until: string }]];
+    expect(payload.muted).toBe(true);
+    const expiresIn = new Date(payload.muted_until).getTime() - before;
+    expect(expiresIn).toBeGreaterThanOrEqual(60 * 60 * 1000 - 1000);
+    expect(expiresIn).toBeLessThanOrEqual(60 * 60 * 1000 + 1000);
+    expect(result.current.isMuted).toBe(true);
+  });
+
+  it('should mute until unmuted and then unmute', async () => {
+    const mockUpdate = mockParticipantQueries({ muted: false, muted_until: null });
+
+    const { result } = renderHook(() => useConversationMute(mockConversationId, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.muteConversation('forever');
+    });
+
+    expect(mockUpdate).toHaveBeenLastCalledWith({ muted: true, muted_until: null });
+    expect(result.current.isMuted).toBe(true);
+
+    await act(async () => {
+      await result.current.unmuteConversation();
+    });
+
+    expect(mockUpdate).toHaveBeenLastCalledWith({ muted: false, muted_until: null });
+    expect(result.current.isMuted).toBe(false);
+  });
+
+  it('should set error when membershipId is missing', async () => {
+    const { result } = renderHook(() => useConversationMute(mockConversationId, null));
+
+    await act(async () => {
+      const success = await result.current.muteConversation('8h');
+      expect(success).toBe(false);
+    });
+
+    expect(result.current.error?.message).toBe('Missing required parameters');
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Unit tests for the conversation participants hook.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { useConversationParticipants } from '../useConversationParticipants';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockConversationId = 'conversation-789';
+const mockMembershipId = 'membership-1';
+
+const participantRows = [
+  {
+    id: 'participant-2',
+    membership_id: 'membership-2',
+    role: 'member',
+    created_at: '2025-01-24T10:05:00Z',
+    membership: { user: { display_name: 'Grace Park', photo_url: null } },
+  },
+  {
+    id: 'participant-1',
+    membership_id: mockMembershipId,
+    role: 'admin',
+    created_at: '2025-01-24T10:00:00Z',
+    membership: { user: { display_name: 'John Kim', photo_url: null } },
+  },
+];
+
+/**
+ * Mock the conversation and participant queries and the mutations.
+ */
+function mockParticipants(isGroup: boolean, rows: unknown[]) {
+  const conversationSingle = resolvesTo({ data: { is_group: isGroup }, error: null });
+  const participantsEq = resolvesTo({ data: rows, error: null });
+  const insert = resolvesTo({ error: null });
+  const update = jest.fn();
+  const updateMembershipEq = resolvesTo({ error: null });
+  update.mockReturnValue({ eq: jest.fn().mockReturnValue({ eq: updateMembershipEq }) });
+  const deleteMembershipEq = resolvesTo({ error: null });
+
+  mockSupabase.from = jest.fn((table: string) => {
+    if (table === 'conversations') {
+      return {
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            eq: jest.fn().mockReturnValue({ single: conversationSingle }),
+          }),
+        }),
+        update,
+      };
+    }
+    return {
+      select: jest.fn().mockReturnValue({ eq: participantsEq }),
+      insert,
+      update,
+      delete: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({ eq: deleteMembershipEq }),
+      }),
+    };
+  });
+
+  return { insert, update, updateMembershipEq, deleteMembershipEq };
+}
+
+describe('useConversationParticipants', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list admins first and flag the current admin', async () => {
+    mockParticipants(true, participantRows);
+
+    const { result } = renderHook(() =>
+      useConversationParticipants(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.isGroup).toBe(true);
+    expect(result.current.isAdmin).toBe(true);
+    expect(result.current.participants.map((p) => p.membershipId)).toEqual([
+      mockMembershipId,
+      'membership-2',
+    ]);
+    expect(result.current.participants[1]).toEqual({
+      id: 'participant-2',
+      membershipId: 'membership-2',
+      role: 'member',
+      displayName: 'Grace Park',
+      photoUrl: null,
+      joinedAt: '2025-01-24T10:05:00Z',
+    });
+  });
+
+  it('should not treat direct chats as managed groups', async () => {
+    mockParticipants(false, participantRows);
+
+    const { result } = renderHook(() =>
+      useConversationParticipants(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.isGroup).toBe(false);
+    expect(result.current.isAdmin).toBe(false);
+  });
+
+  it('should add members to the conversation', async () => {
+    const { insert } = mockParticipants(true, participantRows);
+
+    const { result } = renderHook(() =>
+      useConversationParticipants(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let added = false;
+    await act(async () => {
+      added = await result.current.addParticipants(['membership-3', 'membership-4']);
+    });
+
+    expect(added).toBe(true);
+    expect(insert).toHaveBeenCalledWith([
+      { conversation_id: mockConversationId, membership_id: 'membership-3' },
+      { conversation_id: mockConversationId, membership_id: 'membership-4' },
+    ]);
+  });
+
+  it('should promote a participant to admin', async () => {
+    const { update, updateMembershipEq } = mockParticipants(true, participantRows);
+
+    const { result } = renderHook(() =>
+      useConversationParticipants(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.setParticipantRole('membership-2', 'admin');
+    });
+
+    expect(update).toHaveBeenCalledWith({ role: 'admin' });
+    expect(updateMembershipEq).toHaveBeenCalledWith('membership_id', 'membership-2');
+  });
+
+  it('should leave the conversation as the current member', async () => {
+    const { deleteMembershipEq } = mockParticipants(true, participantRows);
+
+    const { result } = renderHook(() =>
+      useConversationParticipants(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.participants).toHaveLength(2);
+    });
+
+    let left = false;
+    await act(async () => {
+      left = await result.current.leaveConversation();
+    });
+
+    expect(left).toBe(true);
+    expect(deleteMembershipEq).toHaveBeenCalledWith('membership_id', mockMembershipId);
+    expect(result.current.participants.map((p) => p.membershipId)).toEqual(['membership-2']);
+  });
+
+  it('should clear the name when renaming to blank', async () => {
+    const { update } = mockParticipants(true, participantRows);
+
+    const { result } = renderHook(() =>
+      useConversationParticipants(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let renamed = false;
+    await act(async () => {
+      renamed = await result.current.renameConversation('   ');
+    });
+
+    expect(renamed).toBe(true);
+    expect(update).toHaveBeenCalledWith({ name: null });
+  });
+});
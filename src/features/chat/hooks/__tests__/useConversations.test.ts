@@ -2,7 +2,7 @@
  * Unit tests for useConversations hook.
  */
 
-import { renderHook, waitFor } from '@testing-library/react-native';
+import { renderHook, waitFor, act } from '@testing-library/react-native';
 import { useConversations } from '../useConversations';
 import { supabase } from '@/lib/supabase';
 
@@ -15,6 +15,34 @@ jest.mock('@/lib/supabase', () => ({
 
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 
+/**
+ * Query builder mock: filters chain, and awaiting or .single() resolves to the result.
+ */
+function mockQuery(result: unknown) {
+  const query: Record<string, unknown> = {};
+  for (const method of ['select', 'update', 'eq', 'neq', 'in', 'is', 'gt', 'order', 'limit']) {
+    query[method] = jest.fn().mockReturnValue(query);
+  }
+  query.single = jest.fn<() => Promise<unknown>>().mockResolvedValue(result);
+  query.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return query;
+}
+
+function conversationRow(id: string, updatedAt: string) {
+  return {
+    id,
+    tenant_id: 'tenant-123',
+    type: 'small_group',
+    name: id,
+    small_group_id: null,
+    ministry_id: null,
+    is_group: false,
+    direct_key: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: updatedAt,
+  };
+}
+
 describe('useConversations', () => {
   const mockTenantId = 'tenant-123';
   const mockMembershipId = 'membership-456';
@@ -134,4 +162,87 @@ describe('useConversations', () => {
 
     expect(typeof result.current.refetch).toBe('function');
   });
+
+  it('should list archived conversations separately and pinned ones first', async () => {
+    const participants = mockQuery({
+      data: [
+        { conversation_id: 'recent', last_read_at: null, pinned_at: null, archived_at: null },
+        {
+          conversation_id: 'pinned',
+          last_read_at: null,
+          pinned_at: '2025-01-05T00:00:00Z',
+          archived_at: null,
+        },
+        {
+          conversation_id: 'retreat',
+          last_read_at: null,
+          pinned_at: null,
+          archived_at: '2025-01-06T00:00:00Z',
+        },
+      ],
+      error: null,
+    });
+    const conversations = mockQuery({
+      data: [
+        conversationRow('recent', '2025-01-10T00:00:00Z'),
+        conversationRow('retreat', '2025-01-08T00:00:00Z'),
+        conversationRow('pinned', '2025-01-02T00:00:00Z'),
+      ],
+      error: null,
+    });
+    const messages = mockQuery({ data: null, error: null, count: 0 });
+    mockSupabase.from = jest.fn((table: string) =>
+      table === 'conversation_participants'
+        ? participants
+        : table === 'conversations'
+          ? conversations
+          : messages
+    ) as unknown as typeof mockSupabase.from;
+
+    const { result } = renderHook(() => useConversations(mockTenantId, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.conversations).toHaveLength(2);
+    });
+
+    expect(result.current.conversations.map((c) => c.id)).toEqual(['pinned', 'recent']);
+    expect(result.current.archivedConversations.map((c) => c.id)).toEqual(['retreat']);
+  });
+
+  it('should archive a conversation for the current member', async () => {
+    const participants = mockQuery({
+      data: [{ conversation_id: 'retreat', last_read_at: null, pinned_at: null, archived_at: null }],
+      error: null,
+    });
+    const conversations = mockQuery({
+      data: [conversationRow('retreat', '2025-01-08T00:00:00Z')],
+      error: null,
+    });
+    const messages = mockQuery({ data: null, error: null, count: 0 });
+    mockSupabase.from = jest.fn((table: string) =>
+      table === 'conversation_participants'
+        ? participants
+        : table === 'conversations'
+          ? conversations
+          : messages
+    ) as unknown as typeof mockSupabase.from;
+
+    const { result } = renderHook(() => useConversations(mockTenantId, mockMembershipId));
+
+    await waitFor(() => {
+      expect(result.current.conversations).toHaveLength(1);
+    });
+
+    let archived = false;
+    await act(async () => {
+      archived = await result.current.setArchived('retreat', true);
+    });
+
+    expect(archived).toBe(true);
+    expect(participants.update).toHaveBeenCalledWith({ archived_at: expect.any(String) });
+    expect(participants.eq).toHaveBeenCalledWith('conversation_id', 'retreat');
+    expect(participants.eq).toHaveBeenCalledWith('membership_id', mockMembershipId);
+    expect(result.current.conversations).toEqual([]);
+    expect(result.current.archivedConversations.map((c) => c.id)).toEqual(['retreat']);
+  });
 });
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the create conversation hook.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useCreateConversation } from '../useCreateConversation';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { rpc: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+
+describe('useCreateConversation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open a direct conversation with one member', async () => {
+    const rpc = resolvesTo({ data: 'conversation-1', error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => useCreateConversation(mockTenantId));
+
+    let conversationId: string | null = null;
+    await act(async () => {
+      conversationId = await result.current.createDirectConversation('membership-2');
+    });
+
+    expect(conversationId).toBe('conversation-1');
+    expect(rpc).toHaveBeenCalledWith('get_or_create_direct_conversation', {
+      p_tenant_id: mockTenantId,
+      p_other_membership_id: 'membership-2',
+    });
+  });
+
+  it('should create a named group conversation', async () => {
+    const rpc = resolvesTo({ data: 'conversation-2', error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => useCreateConversation(mockTenantId));
+
+    let conversationId: string | null = null;
+    await act(async () => {
+      conversationId = await result.current.createGroupConversation(' Worship Team ', [
+        'membership-2',
+        'membership-3',
+      ]);
+    });
+
+    expect(conversationId).toBe('conversation-2');
+    expect(rpc).toHaveBeenCalledWith('create_group_conversation', {
+      p_tenant_id: mockTenantId,
+      p_name: 'Worship Team',
+      p_membership_ids: ['membership-2', 'membership-3'],
+    });
+  });
+
+  it('should require at least one member for a group', async () => {
+    const rpc = resolvesTo({ data: null, error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => useCreateConversation(mockTenantId));
+
+    let conversationId: string | null = 'unchanged';
+    await act(async () => {
+      conversationId = await result.current.createGroupConversation('Worship Team', []);
+    });
+
+    expect(conversationId).toBeNull();
+    expect(rpc).not.toHaveBeenCalled();
+    expect(result.current.error).toBeTruthy();
+  });
+
+  it('should surface RPC errors', async () => {
+    mockSupabase.rpc = resolvesTo({
+      data: null,
+      error: { message: 'Participants must be active members of this tenant' },
+    });
+
+    const { result } = renderHook(() => useCreateConversation(mockTenantId));
+
+    let conversationId: string | null = 'unchanged';
+    await act(async () => {
+      conversationId = await result.current.createGroupConversation(null, ['membership-9']);
+    });
+
+    expect(conversationId).toBeNull();
+    expect(result.current.error).toEqual({
+      message: 'Participants must be active members of this tenant',
+    });
+    expect(result.current.creating).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the forward message hook.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import {
+  canForwardMessage,
+  mapForwardedFromRow,
+  MAX_FORWARD_TARGETS,
+  useForwardMessage,
+} from '../useForwardMessage';
+import { supabase } from '@/lib/supabase';
+import type { MessageWithSender } from '@/types/database';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { rpc: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const message = {
+  id: 'message-1',
+  content: 'Retreat sign-ups close Sunday',
+  content_type: 'text',
+  is_event_chat: false,
+  deleted_at: null,
+} as MessageWithSender;
+
+describe('useForwardMessage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should forward a message once to each selected conversation', async () => {
+    const rpc = resolvesTo({ data: ['message-2', 'message-3'], error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => useForwardMessage());
+
+    let forwardedIds: string[] | null = null;
+    await act(async () => {
+      forwardedIds = await result.current.forwardMessage('message-1', [
+        'conversation-2',
+        'conversation-3',
+        'conversation-2',
+      ]);
+    });
+
+    expect(forwardedIds).toEqual(['message-2', 'message-3']);
+    expect(rpc).toHaveBeenCalledWith('forward_message', {
+      p_message_id: 'message-1',
+      p_conversation_ids: ['conversation-2', 'conversation-3'],
+    });
+  });
+
+  it('should reject forwards to too many conversations', async () => {
+    const rpc = resolvesTo({ data: [], error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => useForwardMessage());
+
+    const targets = Array.from(
+      { length: MAX_FORWARD_TARGETS + 1 },
+      (_, index) => `conversation-${index}`
+    );
+    let forwardedIds: string[] | null = [];
+    await act(async () => {
+      forwardedIds = await result.current.forwardMessage('message-1', targets);
+    });
+
+    expect(forwardedIds).toBeNull();
+    expect(rpc).not.toHaveBeenCalled();
+    expect(result.current.error).toBeTruthy();
+  });
+
+  it('should surface RPC errors', async () => {
+    mockSupabase.rpc = resolvesTo({
+      data: null,
+      error: { message: 'new row violates row-level security policy for table "messages"' },
+    });
+
+    const { result } = renderHook(() => useForwardMessage());
+
+    let forwardedIds: string[] | null = [];
+    await act(async () => {
+      forwardedIds = await result.current.forwardMessage('message-1', ['conversation-9']);
+    });
+
+    expect(forwardedIds).toBeNull();
+    expect(result.current.error).toEqual({
+      message: 'new row violates row-level security policy for table "messages"',
+    });
+    expect(result.current.forwarding).toBe(false);
+  });
+});
+
+describe('canForwardMessage', () => {
+  it('should allow regular messages', () => {
+    expect(canForwardMessage(message)).toBe(true);
+    expect(canForwardMessage({ ...message, content_type: 'image' })).toBe(true);
+  });
+
+  it('should not allow Event Chat, poll, system, deleted or unsent messages', () => {
+    expect(canForwardMessage({ ...message, is_event_chat: true })).toBe(false);
+    expect(canForwardMessage({ ...message, content_type: 'poll' })).toBe(false);
+    expect(canForwardMessage({ ...message, content_type: 'system' })).toBe(false);
+    expect(canForwardMessage({ ...message, deleted_at: '2025-01-26T00:00:00Z' })).toBe(false);
+    expect(canForwardMessage({ ...message, send_status: 'failed' })).toBe(false);
+  });
+});
+
+describe('mapForwardedFromRow', () => {
+  it('should flatten the original author', () => {
+    expect(
+      mapForwardedFromRow({ id: 'membership-1', user: { display_name: 'Pastor Lee' } })
+    ).toEqual({ id: 'membership-1', display_name: 'Pastor Lee' });
+    expect(mapForwardedFromRow(null)).toBeNull();
+  });
+});
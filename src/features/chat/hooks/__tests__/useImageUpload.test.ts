@@ -0,0 +1,80 @@
+/**
+ * Unit tests for useImageUpload hook.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useImageUpload } from '../useImageUpload';
+import { sendOutboxEntry } from '../useMessageOutbox';
+import { useOutboxStore } from '../../store/outboxStore';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('expo-image-picker', () => ({
+  requestMediaLibraryPermissionsAsync: jest.fn(),
+  launchImageLibraryAsync: jest.fn(),
+}));
+
+jest.mock('@/lib/imageUpload', () => ({
+  ...jest.requireActual<object>('@/lib/imageUpload'),
+  validateImage: jest.fn(() => Promise.resolve({ valid: true })),
+}));
+
+jest.mock('../useMessageOutbox', () => ({
+  ...jest.requireActual<object>('../useMessageOutbox'),
+  sendOutboxEntry: jest.fn(),
+}));
+
+const mockSendOutboxEntry = jest.mocked(sendOutboxEntry);
+
+describe('useImageUpload', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useOutboxStore.setState({ entries: [], userId: 'user-1' });
+  });
+
+  it('should send the image through the outbox', async () => {
+    mockSendOutboxEntry.mockResolvedValue(null);
+
+    const { result } = renderHook(() =>
+      useImageUpload('conversation-123', 'tenant-456', 'membership-789')
+    );
+
+    await act(async () => {
+      await result.current.uploadSelectedImage('file:///photo.jpg', 'photo.jpg', 'image/jpeg');
+    });
+
+    const [entry] = useOutboxStore.getState().entries;
+    expect(entry).toEqual(
+      expect.objectContaining({
+        userId: 'user-1',
+        conversationId: 'conversation-123',
+        contentType: 'image',
+        attachment: expect.objectContaining({ uri: 'file:///photo.jpg', fileName: 'photo.jpg' }),
+      })
+    );
+    expect(mockSendOutboxEntry).toHaveBeenCalledWith(entry?.id);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should report a failed send', async () => {
+    mockSendOutboxEntry.mockRejectedValue(new Error('Network request failed'));
+
+    const { result } = renderHook(() =>
+      useImageUpload('conversation-123', 'tenant-456', 'membership-789')
+    );
+
+    await act(async () => {
+      await result.current.uploadSelectedImage('file:///photo.jpg', 'photo.jpg', 'image/jpeg');
+    });
+
+    expect(result.current.error?.message).toBe('Network request failed');
+    // The entry stays queued for retries
+    expect(useOutboxStore.getState().entries).toHaveLength(1);
+  });
+});
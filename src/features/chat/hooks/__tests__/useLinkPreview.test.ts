@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the link preview hook.
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { clearLinkPreviewCache, useLinkPreview } from '../useLinkPreview';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: jest.fn(),
+    },
+    functions: {
+      invoke: jest.fn(),
+    },
+  },
+}));
+
+const mockSupabase = supabase as unknown as {
+  auth: { getSession: unknown };
+  functions: { invoke: unknown };
+};
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const sermonUrl = 'https://youtu.be/abc123';
+
+const sermonPreview = {
+  url: 'https://www.youtube.com/watch?v=abc123',
+  title: 'Sunday Sermon',
+  description: 'Walking in faith',
+  image_url: 'https://i.ytimg.com/vi/abc123/hqdefault.jpg',
+  site_name: 'YouTube',
+};
+
+describe('useLinkPreview', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    clearLinkPreviewCache();
+    mockSupabase.auth.getSession = resolvesTo({
+      data: { session: { access_token: 'token-123' } },
+    });
+  });
+
+  it('should fetch the preview from the edge function', async () => {
+    const invoke = resolvesTo({ data: { preview: sermonPreview }, error: null });
+    mockSupabase.functions.invoke = invoke;
+
+    const { result } = renderHook(() => useLinkPreview(sermonUrl));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.preview).toEqual(sermonPreview);
+    expect(invoke).toHaveBeenCalledWith('fetch-link-preview', {
+      body: { url: sermonUrl },
+      headers: { Authorization: 'Bearer token-123' },
+    });
+  });
+
+  it('should fetch each URL once per session', async () => {
+    const invoke = resolvesTo({ data: { preview: sermonPreview }, error: null });
+    mockSupabase.functions.invoke = invoke;
+
+    const first = renderHook(() => useLinkPreview(sermonUrl));
+    const second = renderHook(() => useLinkPreview(sermonUrl));
+
+    await waitFor(() => {
+      expect(first.result.current.loading).toBe(false);
+      expect(second.result.current.loading).toBe(false);
+    });
+
+    const third = renderHook(() => useLinkPreview(sermonUrl));
+
+    expect(third.result.current.preview).toEqual(sermonPreview);
+    expect(third.result.current.loading).toBe(false);
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fetch without a URL', () => {
+    const invoke = resolvesTo({ data: null, error: null });
+    mockSupabase.functions.invoke = invoke;
+
+    const { result } = renderHook(() => useLinkPreview(null));
+
+    expect(result.current.preview).toBeNull();
+    expect(result.current.loading).toBe(false);
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('should surface function errors without caching them', async () => {
+    mockSupabase.functions.invoke = resolvesTo({
+      data: null,
+      error: { message: 'Function not found' },
+    });
+
+    const { result } = renderHook(() => useLinkPreview(sermonUrl));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.preview).toBeNull();
+    expect(result.current.error).toEqual({ message: 'Function not found' });
+
+    const invoke = resolvesTo({ data: { preview: sermonPreview }, error: null });
+    mockSupabase.functions.invoke = invoke;
+    const retry = renderHook(() => useLinkPreview(sermonUrl));
+
+    await waitFor(() => {
+      expect(retry.result.current.preview).toEqual(sermonPreview);
+    });
+    expect(invoke).toHaveBeenCalledTimes(1);
+  });
+});
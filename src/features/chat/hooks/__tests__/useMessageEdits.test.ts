@@ -0,0 +1,189 @@
+/**
+ * Unit tests for useMessageEdits hook and edit window helpers.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import {
+  useMessageEdits,
+  canDeleteMessage,
+  canEditMessage,
+  getMessageEditWindowMinutes,
+  DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES,
+} from '../useMessageEdits';
+import { supabase } from '@/lib/supabase';
+import type { MessageWithSender } from '@/types/database';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockMembershipId = 'membership-456';
+const NOW = new Date('2025-01-17T10:30:00Z').getTime();
+
+const createMessage = (overrides: Partial<MessageWithSender> = {}): MessageWithSender => ({
+  id: 'msg-1',
+  tenant_id: mockTenantId,
+  conversation_id: 'conversation-789',
+  sender_id: mockMembershipId,
+  parent_id: null,
+  thread_id: null,
+  quoted_message_id: null,
+  content: 'Hello',
+  content_type: 'text',
+  is_event_chat: false,
+  created_at: '2025-01-17T10:20:00Z',
+  updated_at: '2025-01-17T10:20:00Z',
+  deleted_at: null,
+  edited_at: null,
+  forwarded_from_message_id: null,
+  forwarded_from_sender_id: null,
+  sender: { id: mockMembershipId, display_name: 'Me', photo_url: null },
+  ...overrides,
+});
+
+/**
+ * Mock the update chain used by the hook and return the update mock.
+ */
+function mockUpdate(result: { data: unknown; error: unknown }) {
+  const update = jest.fn().mockReturnValue({
+    eq: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          select: jest.fn().mockReturnValue({ single: resolvesTo(result) }),
+        }),
+      }),
+    }),
+  });
+  mockSupabase.from = jest.fn().mockReturnValue({ update });
+  return update;
+}
+
+describe('getMessageEditWindowMinutes', () => {
+  it('should read the window from tenant settings', () => {
+    expect(getMessageEditWindowMinutes({ message_edit_window_minutes: 60 })).toBe(60);
+    expect(getMessageEditWindowMinutes({ message_edit_window_minutes: 0 })).toBe(0);
+  });
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(getMessageEditWindowMinutes(null)).toBe(DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES);
+    expect(getMessageEditWindowMinutes({ timezone: 'Asia/Seoul' })).toBe(
+      DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES
+    );
+    expect(getMessageEditWindowMinutes({ message_edit_window_minutes: '30' })).toBe(
+      DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES
+    );
+  });
+});
+
+describe('canEditMessage / canDeleteMessage', () => {
+  it('should allow own messages inside the window', () => {
+    expect(canEditMessage(createMessage(), mockMembershipId, 15, NOW)).toBe(true);
+    expect(canDeleteMessage(createMessage(), mockMembershipId, 15, NOW)).toBe(true);
+  });
+
+  it('should reject messages outside the window', () => {
+    expect(canEditMessage(createMessage(), mockMembershipId, 5, NOW)).toBe(false);
+    expect(canDeleteMessage(createMessage(), mockMembershipId, 0, NOW)).toBe(false);
+  });
+
+  it("should reject other members' messages and tombstones", () => {
+    expect(canDeleteMessage(createMessage(), 'membership-other', 15, NOW)).toBe(false);
+    expect(
+      canDeleteMessage(
+        createMessage({ deleted_at: '2025-01-17T10:25:00Z' }),
+        mockMembershipId,
+        15,
+        NOW
+      )
+    ).toBe(false);
+  });
+
+  it('should only allow editing text messages', () => {
+    const image = createMessage({ content_type: 'image' });
+    expect(canEditMessage(image, mockMembershipId, 15, NOW)).toBe(false);
+    expect(canDeleteMessage(image, mockMembershipId, 15, NOW)).toBe(true);
+  });
+});
+
+describe('useMessageEdits', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update the content of an edited message', async () => {
+    const edited = {
+      id: 'msg-1',
+      content: 'Hello again',
+      edited_at: '2025-01-17T10:25:00Z',
+      updated_at: '2025-01-17T10:25:00Z',
+      deleted_at: null,
+    };
+    const update = mockUpdate({ data: edited, error: null });
+
+    const { result } = renderHook(() => useMessageEdits(mockTenantId, mockMembershipId));
+
+    let updated;
+    await act(async () => {
+      updated = await result.current.editMessage('msg-1', '  Hello again ');
+    });
+
+    expect(update).toHaveBeenCalledWith({ content: 'Hello again' });
+    expect(updated).toEqual(edited);
+  });
+
+  it('should reject empty edits without calling Supabase', async () => {
+    mockSupabase.from = jest.fn();
+
+    const { result } = renderHook(() => useMessageEdits(mockTenantId, mockMembershipId));
+
+    let updated;
+    await act(async () => {
+      updated = await result.current.editMessage('msg-1', '   ');
+    });
+
+    expect(updated).toBeNull();
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+    expect(result.current.error?.message).toBe('Message content cannot be empty');
+  });
+
+  it('should soft-delete a message by setting deleted_at', async () => {
+    const update = mockUpdate({
+      data: { id: 'msg-1', content: null, edited_at: null, updated_at: '', deleted_at: '' },
+      error: null,
+    });
+
+    const { result } = renderHook(() => useMessageEdits(mockTenantId, mockMembershipId));
+
+    await act(async () => {
+      await result.current.deleteMessage('msg-1');
+    });
+
+    expect(update).toHaveBeenCalledWith({ deleted_at: expect.any(String) });
+  });
+
+  it('should surface errors from the edit window check', async () => {
+    const windowError = new Error('Message can no longer be changed');
+    mockUpdate({ data: null, error: windowError });
+
+    const { result } = renderHook(() => useMessageEdits(mockTenantId, mockMembershipId));
+
+    let updated;
+    await act(async () => {
+      updated = await result.current.deleteMessage('msg-1');
+    });
+
+    expect(updated).toBeNull();
+    expect(result.current.error).toBe(windowError);
+  });
+});
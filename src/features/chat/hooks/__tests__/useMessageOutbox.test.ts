@@ -0,0 +1,312 @@
+/**
+ * Unit tests for the chat outbox helpers.
+ */
+
+import {
+  createOutboxEntry,
+  flushOutbox,
+  getRetryDelay,
+  mergeOutboxMessages,
+  processOutboxEntry,
+  sendOutboxEntry,
+  MAX_SEND_ATTEMPTS,
+} from '../useMessageOutbox';
+import { useOutboxStore } from '../../store/outboxStore';
+import { supabase } from '@/lib/supabase';
+import type { MessageWithSender } from '@/types/database';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown; rpc: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockConversationId = 'conversation-789';
+const mockMembershipId = 'membership-456';
+const mockUserId = 'user-1';
+
+const newEntry = (content = 'Hello') =>
+  createOutboxEntry({
+    tenantId: mockTenantId,
+    conversationId: mockConversationId,
+    senderMembershipId: mockMembershipId,
+    content,
+  });
+
+const insertedRow = (id: string) => ({
+  id,
+  tenant_id: mockTenantId,
+  conversation_id: mockConversationId,
+  sender_id: mockMembershipId,
+  parent_id: null,
+  thread_id: null,
+  quoted_message_id: null,
+  content: 'Hello',
+  content_type: 'text',
+  is_event_chat: false,
+  created_at: '2025-01-19T10:00:00Z',
+  updated_at: '2025-01-19T10:00:00Z',
+  deleted_at: null,
+  edited_at: null,
+  sender: { id: mockMembershipId, user: { id: 'user-1', display_name: 'Me', photo_url: null } },
+});
+
+/**
+ * Mock the send_message call, message fetch and conversation update used for
+ * a text message.
+ */
+function mockSend(sendResult: { data: unknown; error: unknown }, messageId = 'fetched') {
+  const rpc = resolvesTo(sendResult);
+  mockSupabase.rpc = rpc;
+  const fetchSingle = resolvesTo({ data: insertedRow(messageId), error: null });
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: jest.fn().mockReturnValue({ single: fetchSingle }) }),
+    }),
+    update: jest.fn().mockReturnValue({ eq: resolvesTo({ error: null }) }),
+  });
+  return { rpc, fetchSingle };
+}
+
+const getEntry = (id: string) => useOutboxStore.getState().entries.find((e) => e.id === id);
+
+describe('getRetryDelay', () => {
+  it('should double the delay after each attempt up to one minute', () => {
+    expect(getRetryDelay(1)).toBe(2000);
+    expect(getRetryDelay(2)).toBe(4000);
+    expect(getRetryDelay(3)).toBe(8000);
+    expect(getRetryDelay(10)).toBe(60000);
+  });
+});
+
+describe('mergeOutboxMessages', () => {
+  it('should append queued messages as pending or failed copies', () => {
+    const pending = newEntry('Pending');
+    const failed = { ...newEntry('Failed'), status: 'failed' as const };
+
+    const result = mergeOutboxMessages([], [pending, failed]);
+
+    expect(result.map((m) => [m.id, m.content, m.send_status])).toEqual([
+      [pending.id, 'Pending', 'pending'],
+      [failed.id, 'Failed', 'failed'],
+    ]);
+  });
+
+  it('should drop the optimistic copy once the server copy is in the list', () => {
+    const entry = newEntry();
+    const serverCopy = { ...insertedRow(entry.id), sender: { id: mockMembershipId } };
+
+    const result = mergeOutboxMessages([serverCopy as unknown as MessageWithSender], [entry]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0]?.send_status).toBeUndefined();
+  });
+});
+
+describe('processOutboxEntry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useOutboxStore.setState({ entries: [], userId: mockUserId });
+  });
+
+  it('should insert the message under its client-generated ID', async () => {
+    const entry = newEntry();
+    useOutboxStore.getState().enqueue(entry);
+    const { rpc } = mockSend({ data: entry.id, error: null }, entry.id);
+
+    const message = await processOutboxEntry(entry.id);
+
+    expect(rpc).toHaveBeenCalledWith(
+      'send_message',
+      expect.objectContaining({
+        p_message_id: entry.id,
+        p_tenant_id: mockTenantId,
+        p_content: 'Hello',
+      })
+    );
+    expect(message?.id).toBe(entry.id);
+    expect(getEntry(entry.id)?.status).toBe('sent');
+  });
+
+  it('should send picked mentions with the message as membership references', async () => {
+    const entry = createOutboxEntry({
+      tenantId: mockTenantId,
+      conversationId: mockConversationId,
+      senderMembershipId: mockMembershipId,
+      content: '@Kim @all hello',
+      mentions: [
+        { membership_id: 'membership-kim', mention_type: 'member', display_name: 'Kim' },
+        { membership_id: null, mention_type: 'all', display_name: null },
+      ],
+    });
+    useOutboxStore.getState().enqueue(entry);
+    const { rpc } = mockSend({ data: entry.id, error: null }, entry.id);
+
+    const message = await processOutboxEntry(entry.id);
+
+    expect(rpc).toHaveBeenCalledWith(
+      'send_message',
+      expect.objectContaining({
+        p_mentions: [
+          { membership_id: 'membership-kim', mention_type: 'member' },
+          { membership_id: null, mention_type: 'all' },
+        ],
+      })
+    );
+    expect(message?.mentions).toHaveLength(2);
+  });
+
+  it('should send Event Chat exclusions with the message', async () => {
+    const entry = createOutboxEntry({
+      tenantId: mockTenantId,
+      conversationId: mockConversationId,
+      senderMembershipId: mockMembershipId,
+      content: 'Surprise party planning',
+      excludedMembershipIds: ['membership-kim'],
+    });
+    useOutboxStore.getState().enqueue(entry);
+    const { rpc } = mockSend({ data: entry.id, error: null }, entry.id);
+
+    await processOutboxEntry(entry.id);
+
+    expect(rpc).toHaveBeenCalledWith(
+      'send_message',
+      expect.objectContaining({ p_excluded_membership_ids: ['membership-kim'] })
+    );
+  });
+
+  it('should keep a failed send queued for a later attempt', async () => {
+    const entry = newEntry();
+    useOutboxStore.getState().enqueue(entry);
+    const networkError = new Error('Network request failed');
+    mockSend({ data: null, error: networkError });
+
+    await expect(processOutboxEntry(entry.id)).rejects.toBe(networkError);
+
+    const queued = getEntry(entry.id);
+    expect(queued?.status).toBe('pending');
+    expect(queued?.attempts).toBe(1);
+    expect(queued?.nextAttemptAt).toBeGreaterThan(Date.now());
+    expect(queued?.lastError).toBe('Network request failed');
+  });
+
+  it('should mark the entry failed after the last automatic attempt', async () => {
+    const entry = { ...newEntry(), attempts: MAX_SEND_ATTEMPTS - 1 };
+    useOutboxStore.getState().enqueue(entry);
+    mockSend({ data: null, error: new Error('Network request failed') });
+
+    await expect(processOutboxEntry(entry.id)).rejects.toThrow();
+
+    expect(getEntry(entry.id)?.status).toBe('failed');
+  });
+
+  it('should not retry errors the server will always return', async () => {
+    const entry = newEntry();
+    useOutboxStore.getState().enqueue(entry);
+    mockSend({ data: null, error: { code: '42501', message: 'permission denied' } });
+
+    await expect(processOutboxEntry(entry.id)).rejects.toBeTruthy();
+
+    expect(getEntry(entry.id)?.status).toBe('failed');
+  });
+
+  it('should treat a duplicate ID as already sent', async () => {
+    const entry = newEntry();
+    useOutboxStore.getState().enqueue(entry);
+    const { fetchSingle } = mockSend({
+      data: null,
+      error: { code: '23505', message: 'duplicate' },
+    });
+
+    const message = await processOutboxEntry(entry.id);
+
+    expect(fetchSingle).toHaveBeenCalled();
+    expect(message).not.toBeNull();
+    expect(getEntry(entry.id)?.status).toBe('sent');
+  });
+});
+
+describe('flushOutbox', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useOutboxStore.setState({ entries: [], userId: mockUserId });
+  });
+
+  it('should record the signed-in user on new entries', () => {
+    expect(newEntry().userId).toBe(mockUserId);
+  });
+
+  it('should send due entries in the order they were queued', async () => {
+    const first = newEntry('First');
+    const second = newEntry('Second');
+    useOutboxStore.getState().enqueue(first);
+    useOutboxStore.getState().enqueue(second);
+    const { rpc } = mockSend({ data: null, error: null });
+
+    await flushOutbox();
+
+    expect(rpc.mock.calls.map((call) => (call as unknown[])[1])).toEqual([
+      expect.objectContaining({ p_message_id: first.id }),
+      expect.objectContaining({ p_message_id: second.id }),
+    ]);
+  });
+
+  it("should not send another user's entries", async () => {
+    const entry = { ...newEntry(), userId: 'user-2' };
+    useOutboxStore.getState().enqueue(entry);
+    const { rpc } = mockSend({ data: null, error: null });
+
+    await flushOutbox();
+
+    expect(rpc).not.toHaveBeenCalled();
+    expect(getEntry(entry.id)?.status).toBe('pending');
+  });
+});
+
+describe('sendOutboxEntry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useOutboxStore.setState({ entries: [], userId: mockUserId });
+  });
+
+  it('should send earlier entries first and return the sent message', async () => {
+    const earlier = newEntry('Earlier');
+    const entry = newEntry();
+    useOutboxStore.getState().enqueue(earlier);
+    useOutboxStore.getState().enqueue(entry);
+    const { rpc } = mockSend({ data: null, error: null }, entry.id);
+
+    const message = await sendOutboxEntry(entry.id);
+
+    expect(rpc).toHaveBeenNthCalledWith(
+      1,
+      'send_message',
+      expect.objectContaining({ p_message_id: earlier.id })
+    );
+    expect(message?.id).toBe(entry.id);
+    expect(getEntry(entry.id)?.status).toBe('sent');
+  });
+
+  it('should reject with the error of a failed attempt', async () => {
+    const entry = newEntry();
+    useOutboxStore.getState().enqueue(entry);
+    const networkError = new Error('Network request failed');
+    mockSend({ data: null, error: networkError });
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(sendOutboxEntry(entry.id)).rejects.toBe(networkError);
+
+    expect(getEntry(entry.id)?.status).toBe('pending');
+    consoleSpy.mockRestore();
+  });
+});
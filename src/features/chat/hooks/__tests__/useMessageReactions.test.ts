@@ -0,0 +1,179 @@
+/**
+ * Unit tests for useMessageReactions hook and reaction list helpers.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import {
+  useMessageReactions,
+  summarizeReactions,
+  addMessageReaction,
+  removeMessageReaction,
+} from '../useMessageReactions';
+import { supabase } from '@/lib/supabase';
+import type { MessageReaction, MessageWithSender } from '@/types/database';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockMembershipId = 'membership-456';
+
+const heart = (id: string, membershipId: string, name: string | null): MessageReaction => ({
+  id,
+  emoji: ':heart:',
+  membership_id: membershipId,
+  display_name: name,
+});
+
+const createMessage = (id: string, reactions?: MessageReaction[]): MessageWithSender => ({
+  id,
+  tenant_id: mockTenantId,
+  conversation_id: 'conversation-789',
+  sender_id: 'membership-other',
+  parent_id: null,
+  thread_id: null,
+  quoted_message_id: null,
+  content: 'Hello',
+  content_type: 'text',
+  is_event_chat: false,
+  created_at: '2025-01-16T10:00:00Z',
+  updated_at: '2025-01-16T10:00:00Z',
+  deleted_at: null,
+  edited_at: null,
+  forwarded_from_message_id: null,
+  forwarded_from_sender_id: null,
+  sender: { id: 'membership-other', display_name: 'Other', photo_url: null },
+  reactions,
+});
+
+describe('summarizeReactions', () => {
+  it('should group reactions by emoji in first-use order', () => {
+    const summaries = summarizeReactions(
+      [
+        { id: 'r1', emoji: ':prayer:', membership_id: 'm1', display_name: 'Kim' },
+        heart('r2', mockMembershipId, 'Lee'),
+        { id: 'r3', emoji: ':prayer:', membership_id: 'm2', display_name: null },
+      ],
+      mockMembershipId
+    );
+
+    expect(summaries).toEqual([
+      { emoji: ':prayer:', count: 2, reactedByMe: false, displayNames: ['Kim'] },
+      { emoji: ':heart:', count: 1, reactedByMe: true, displayNames: ['Lee'] },
+    ]);
+  });
+
+  it('should return an empty list when there are no reactions', () => {
+    expect(summarizeReactions(undefined, mockMembershipId)).toEqual([]);
+  });
+});
+
+describe('addMessageReaction', () => {
+  it('should add a reaction to the matching message only', () => {
+    const messages = [createMessage('msg-1'), createMessage('msg-2')];
+    const result = addMessageReaction(messages, 'msg-2', heart('r1', 'm1', 'Kim'));
+
+    expect(result[0]).toBe(messages[0]);
+    expect(result[1]?.reactions).toEqual([heart('r1', 'm1', 'Kim')]);
+  });
+
+  it('should ignore a reaction that is already present', () => {
+    const messages = [createMessage('msg-1', [heart('r1', 'm1', 'Kim')])];
+    const result = addMessageReaction(messages, 'msg-1', heart('r1', 'm1', 'Kim'));
+
+    expect(result[0]).toBe(messages[0]);
+  });
+});
+
+describe('removeMessageReaction', () => {
+  it('should remove a reaction by id', () => {
+    const messages = [createMessage('msg-1', [heart('r1', 'm1', 'Kim'), heart('r2', 'm2', 'Lee')])];
+    const result = removeMessageReaction(messages, 'r1');
+
+    expect(result[0]?.reactions).toEqual([heart('r2', 'm2', 'Lee')]);
+  });
+});
+
+describe('useMessageReactions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should insert a reaction the member has not used yet', async () => {
+    const mockInsert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        single: resolvesTo({
+          data: {
+            id: 'r-new',
+            emoji: ':heart:',
+            membership_id: mockMembershipId,
+            membership: { user: { display_name: 'Me' } },
+          },
+          error: null,
+        }),
+      }),
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({ insert: mockInsert });
+
+    const { result } = renderHook(() => useMessageReactions(mockTenantId, mockMembershipId));
+
+    let change;
+    await act(async () => {
+      change = await result.current.toggleReaction(createMessage('msg-1'), ':heart:');
+    });
+
+    expect(mockInsert).toHaveBeenCalledWith({
+      tenant_id: mockTenantId,
+      conversation_id: 'conversation-789',
+      message_id: 'msg-1',
+      membership_id: mockMembershipId,
+      emoji: ':heart:',
+    });
+    expect(change).toEqual({
+      type: 'added',
+      messageId: 'msg-1',
+      reaction: heart('r-new', mockMembershipId, 'Me'),
+    });
+  });
+
+  it('should delete a reaction the member already used', async () => {
+    const mockDeleteEq = resolvesTo({ error: null });
+    mockSupabase.from = jest.fn().mockReturnValue({
+      delete: jest.fn().mockReturnValue({ eq: mockDeleteEq }),
+    });
+
+    const { result } = renderHook(() => useMessageReactions(mockTenantId, mockMembershipId));
+    const message = createMessage('msg-1', [heart('r-mine', mockMembershipId, 'Me')]);
+
+    let change;
+    await act(async () => {
+      change = await result.current.toggleReaction(message, ':heart:');
+    });
+
+    expect(mockDeleteEq).toHaveBeenCalledWith('id', 'r-mine');
+    expect(change).toEqual({ type: 'removed', reactionId: 'r-mine' });
+  });
+
+  it('should set an error when the membership is missing', async () => {
+    const { result } = renderHook(() => useMessageReactions(mockTenantId, null));
+
+    let change;
+    await act(async () => {
+      change = await result.current.toggleReaction(createMessage('msg-1'), ':heart:');
+    });
+
+    expect(change).toBeNull();
+    expect(result.current.error?.message).toBe('Missing required parameters');
+  });
+});
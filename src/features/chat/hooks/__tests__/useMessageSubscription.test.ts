@@ -2,22 +2,31 @@
  * Unit tests for useMessageSubscription hook.
  */
 
+import { AppState } from 'react-native';
 import { renderHook } from '@testing-library/react-native';
-import { useMessageSubscription, useConversationListSubscription } from '../useMessageSubscription';
+import {
+  useMessageSubscription,
+  useConversationListSubscription,
+  getPresenceMembers,
+} from '../useMessageSubscription';
 import { supabase } from '@/lib/supabase';
 
 // Mock Supabase client
 const mockSubscribe = jest.fn();
 const mockOn = jest.fn();
 const mockRemoveChannel = jest.fn();
+const mockTrack = jest.fn();
+const mockUntrack = jest.fn();
 
 jest.mock('@/lib/supabase', () => ({
   supabase: {
     channel: jest.fn(() => ({
       on: mockOn.mockReturnThis(),
       subscribe: mockSubscribe,
+      track: mockTrack,
+      untrack: mockUntrack,
     })),
-    removeChannel: mockRemoveChannel,
+    removeChannel: (...args: unknown[]) => mockRemoveChannel(...args),
   },
 }));
 
@@ -73,6 +82,31 @@ describe('useMessageSubscription', () => {
     );
   });
 
+  it('should listen for reaction removals without a conversation filter', () => {
+    const callbacks = {
+      onReactionRemove: jest.fn(),
+    };
+
+    renderHook(() => useMessageSubscription(mockConversationId, mockTenantId, callbacks));
+
+    const deleteCall = mockOn.mock.calls.find(
+      ([, config]) =>
+        (config as { table?: string; event?: string }).table === 'message_reactions' &&
+        (config as { event?: string }).event === 'DELETE'
+    );
+    expect(deleteCall?.[1]).not.toHaveProperty('filter');
+
+    const handler = deleteCall?.[2] as (payload: unknown) => void;
+    handler({ eventType: 'DELETE', old: { id: 'reaction-1' } });
+    handler({
+      eventType: 'DELETE',
+      old: { id: 'reaction-2', conversation_id: 'other-conversation' },
+    });
+
+    expect(callbacks.onReactionRemove).toHaveBeenCalledTimes(1);
+    expect(callbacks.onReactionRemove).toHaveBeenCalledWith('reaction-1');
+  });
+
   it('should provide unsubscribe function', () => {
     const callbacks = {
       onInsert: jest.fn(),
@@ -117,6 +151,32 @@ describe('useMessageSubscription', () => {
     expect(mockRemoveChannel).toHaveBeenCalled();
     expect(supabase.channel).toHaveBeenCalledWith('messages:new-conversation-456');
   });
+
+  it('should track the member on the same channel once the membership loads', () => {
+    const callbacks = {
+      onInsert: jest.fn(),
+    };
+
+    // The react-native mock leaves currentState unset
+    (AppState as { currentState: string }).currentState = 'active';
+
+    const { rerender } = renderHook(
+      ({ member }: { member: { membershipId: string; displayName: string | null } | null }) =>
+        useMessageSubscription(mockConversationId, mockTenantId, callbacks, member),
+      { initialProps: { member: null } }
+    );
+
+    expect(mockTrack).not.toHaveBeenCalled();
+
+    rerender({ member: { membershipId: 'membership-1', displayName: '김민지' } });
+
+    expect(supabase.channel).toHaveBeenCalledTimes(1);
+    expect(mockRemoveChannel).not.toHaveBeenCalled();
+    expect(mockTrack).toHaveBeenCalledWith({
+      membership_id: 'membership-1',
+      display_name: '김민지',
+    });
+  });
 });
 
 describe('useConversationListSubscription', () => {
@@ -182,3 +242,34 @@ describe('useConversationListSubscription', () => {
     expect(typeof result.current.unsubscribe).toBe('function');
   });
 });
+
+describe('getPresenceMembers', () => {
+  it('should list each other member once', () => {
+    const members = getPresenceMembers(
+      {
+        'membership-me': [{ membership_id: 'membership-me', display_name: 'Me' }],
+        'membership-1': [
+          { membership_id: 'membership-1', display_name: null },
+          { membership_id: 'membership-1', display_name: '김민지' },
+        ],
+        'membership-2': [],
+      },
+      'membership-me'
+    );
+
+    expect(members).toEqual([{ membershipId: 'membership-1', displayName: '김민지' }]);
+  });
+
+  it('should group entries by membership rather than presence key', () => {
+    const members = getPresenceMembers(
+      {
+        'presence-a': [{ membership_id: 'membership-me', display_name: 'Me' }],
+        'presence-b': [{ membership_id: 'membership-1', display_name: '김민지' }],
+        'presence-c': [{ membership_id: 'membership-1', display_name: '김민지' }],
+      },
+      'membership-me'
+    );
+
+    expect(members).toEqual([{ membershipId: 'membership-1', displayName: '김민지' }]);
+  });
+});
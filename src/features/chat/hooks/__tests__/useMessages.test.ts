@@ -68,9 +68,11 @@ describe('useMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           order: jest.fn().mockReturnValue({
-            range: jest.fn().mockResolvedValue({
-              data: mockMessages,
-              error: null,
+            order: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue({
+                data: mockMessages,
+                error: null,
+              }),
             }),
           }),
         }),
@@ -95,9 +97,11 @@ describe('useMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           order: jest.fn().mockReturnValue({
-            range: jest.fn().mockResolvedValue({
-              data: null,
-              error: mockError,
+            order: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue({
+                data: null,
+                error: mockError,
+              }),
             }),
           }),
         }),
@@ -120,9 +124,11 @@ describe('useMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           order: jest.fn().mockReturnValue({
-            range: jest.fn().mockResolvedValue({
-              data: [],
-              error: null,
+            order: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue({
+                data: [],
+                error: null,
+              }),
             }),
           }),
         }),
@@ -142,9 +148,11 @@ describe('useMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           order: jest.fn().mockReturnValue({
-            range: jest.fn().mockResolvedValue({
-              data: [],
-              error: null,
+            order: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue({
+                data: [],
+                error: null,
+              }),
             }),
           }),
         }),
@@ -166,9 +174,11 @@ describe('useMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           order: jest.fn().mockReturnValue({
-            range: jest.fn().mockResolvedValue({
-              data: [],
-              error: null,
+            order: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue({
+                data: [],
+                error: null,
+              }),
             }),
           }),
         }),
@@ -190,9 +200,11 @@ describe('useMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           order: jest.fn().mockReturnValue({
-            range: jest.fn().mockResolvedValue({
-              data: [],
-              error: null,
+            order: jest.fn().mockReturnValue({
+              limit: jest.fn().mockResolvedValue({
+                data: [],
+                error: null,
+              }),
             }),
           }),
         }),
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for the pinned messages hook.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { usePinnedMessages, canPinMessages } from '../usePinnedMessages';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown; channel: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockConversationId = 'conversation-789';
+const mockMembershipId = 'membership-456';
+
+const pinRow = {
+  id: 'pin-1',
+  message_id: 'message-1',
+  pinned_by: mockMembershipId,
+  created_at: '2025-01-21T10:00:00Z',
+  message: {
+    content: 'Meeting at 7pm, room 201',
+    content_type: 'text',
+    sender: { user: { display_name: 'Kim' } },
+  },
+};
+
+/**
+ * Mock the pinned_messages query and mutations.
+ */
+function mockPins(rows: unknown[]) {
+  const order = resolvesTo({ data: rows, error: null });
+  const insert = resolvesTo({ error: null });
+  const deleteTenantEq = resolvesTo({ error: null });
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: jest.fn().mockReturnValue({ order }) }),
+    }),
+    insert,
+    delete: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: deleteTenantEq }),
+    }),
+  });
+  return { order, insert, deleteTenantEq };
+}
+
+describe('canPinMessages', () => {
+  it('should allow leaders and above', () => {
+    expect(canPinMessages('small_group_leader')).toBe(true);
+    expect(canPinMessages('admin')).toBe(true);
+    expect(canPinMessages('member')).toBe(false);
+    expect(canPinMessages(undefined)).toBe(false);
+  });
+});
+
+describe('usePinnedMessages', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch pins with their message preview, newest first', async () => {
+    const { order } = mockPins([pinRow]);
+
+    const { result } = renderHook(() =>
+      usePinnedMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(order).toHaveBeenCalledWith('created_at', { ascending: false });
+    expect(result.current.pinnedMessages).toEqual([
+      {
+        id: 'pin-1',
+        message_id: 'message-1',
+        pinned_by: mockMembershipId,
+        created_at: '2025-01-21T10:00:00Z',
+        content: 'Meeting at 7pm, room 201',
+        content_type: 'text',
+        sender_name: 'Kim',
+      },
+    ]);
+  });
+
+  it('should pin a message as the current member', async () => {
+    const { insert } = mockPins([]);
+
+    const { result } = renderHook(() =>
+      usePinnedMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let pinned = false;
+    await act(async () => {
+      pinned = await result.current.pinMessage('message-1');
+    });
+
+    expect(pinned).toBe(true);
+    expect(insert).toHaveBeenCalledWith({
+      tenant_id: mockTenantId,
+      conversation_id: mockConversationId,
+      message_id: 'message-1',
+      pinned_by: mockMembershipId,
+    });
+  });
+
+  it('should report a rejected pin', async () => {
+    const { insert } = mockPins([]);
+    insert.mockResolvedValue({ error: { code: '23514', message: 'Pin limit reached' } });
+
+    const { result } = renderHook(() =>
+      usePinnedMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let pinned = true;
+    await act(async () => {
+      pinned = await result.current.pinMessage('message-4');
+    });
+
+    expect(pinned).toBe(false);
+    expect(result.current.error).toBeTruthy();
+  });
+
+  it('should drop an unpinned message from the list', async () => {
+    mockPins([pinRow]);
+
+    const { result } = renderHook(() =>
+      usePinnedMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.pinnedMessages).toHaveLength(1);
+    });
+
+    await act(async () => {
+      await result.current.unpinMessage('message-1');
+    });
+
+    expect(result.current.pinnedMessages).toEqual([]);
+  });
+
+  it('should drop pins removed elsewhere from the list', async () => {
+    mockPins([pinRow]);
+    const on = jest.fn().mockReturnThis();
+    mockSupabase.channel = jest.fn().mockReturnValue({ on, subscribe: jest.fn() });
+
+    const { result } = renderHook(() =>
+      usePinnedMessages(mockConversationId, mockTenantId, mockMembershipId)
+    );
+
+    await waitFor(() => {
+      expect(result.current.pinnedMessages).toHaveLength(1);
+    });
+
+    // DELETE events can't be filtered by conversation
+    const deleteCall = on.mock.calls.find(
+      ([, config]) => (config as { event?: string }).event === 'DELETE'
+    );
+    expect(deleteCall?.[1]).not.toHaveProperty('filter');
+
+    const handler = deleteCall?.[2] as (payload: unknown) => void;
+    act(() => {
+      handler({ eventType: 'DELETE', old: { id: 'pin-other' } });
+    });
+    expect(result.current.pinnedMessages).toHaveLength(1);
+
+    act(() => {
+      handler({ eventType: 'DELETE', old: { id: 'pin-1' } });
+    });
+    expect(result.current.pinnedMessages).toEqual([]);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Unit tests for the polls hook and its list helpers.
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import {
+  usePolls,
+  mapPollRow,
+  isPollClosed,
+  applyPollVoteChange,
+  updatePollOption,
+} from '../usePolls';
+import { supabase } from '@/lib/supabase';
+import type { MessagePoll, MessageWithSender, PollOption } from '@/types/database';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown; rpc: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockMembershipId = 'membership-456';
+
+const options: PollOption[] = [
+  { id: 'option-1', label: 'Coming', position: 0, vote_count: 1 },
+  { id: 'option-2', label: 'Not coming', position: 1, vote_count: 1 },
+];
+
+function createPoll(overrides: Partial<MessagePoll> = {}): MessagePoll {
+  return {
+    id: 'poll-1',
+    allows_multiple: false,
+    is_anonymous: false,
+    closes_at: null,
+    options,
+    votes: [
+      { option_id: 'option-1', membership_id: 'membership-other' },
+      { option_id: 'option-2', membership_id: mockMembershipId },
+    ],
+    ...overrides,
+  };
+}
+
+function createMessage(poll: MessagePoll = createPoll()): MessageWithSender {
+  return {
+    id: 'message-1',
+    tenant_id: mockTenantId,
+    conversation_id: 'conversation-789',
+    sender_id: 'membership-other',
+    parent_id: null,
+    content: "Who's coming Friday?",
+    content_type: 'poll',
+    is_event_chat: false,
+    created_at: '2025-01-22T10:00:00Z',
+    updated_at: '2025-01-22T10:00:00Z',
+    deleted_at: null,
+    edited_at: null,
+    sender: { id: 'membership-other', display_name: 'Kim', photo_url: null },
+    poll,
+  } as MessageWithSender;
+}
+
+/**
+ * Mock the poll_votes mutations and the tally read-back.
+ */
+function mockVotes(tallies: unknown[]) {
+  const insert = resolvesTo({ error: null });
+  const deleteMembershipEq = resolvesTo({ error: null });
+  const order = resolvesTo({ data: tallies, error: null });
+  mockSupabase.from = jest.fn().mockReturnValue({
+    insert,
+    delete: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: deleteMembershipEq }),
+    }),
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ order }),
+    }),
+  });
+  return { insert, deleteMembershipEq, order };
+}
+
+describe('mapPollRow', () => {
+  it('should sort options by position and accept single-item arrays', () => {
+    const poll = mapPollRow([
+      {
+        id: 'poll-1',
+        allows_multiple: true,
+        is_anonymous: true,
+        closes_at: null,
+        options: [options[1], options[0]],
+        votes: null,
+      },
+    ]);
+
+    expect(poll?.options.map((option) => option.id)).toEqual(['option-1', 'option-2']);
+    expect(poll?.votes).toEqual([]);
+    expect(mapPollRow(null)).toBeNull();
+  });
+});
+
+describe('isPollClosed', () => {
+  it('should close polls once closes_at has passed', () => {
+    const now = new Date('2025-01-22T12:00:00Z').getTime();
+
+    expect(isPollClosed(createPoll(), now)).toBe(false);
+    expect(isPollClosed(createPoll({ closes_at: '2025-01-22T13:00:00Z' }), now)).toBe(false);
+    expect(isPollClosed(createPoll({ closes_at: '2025-01-22T11:00:00Z' }), now)).toBe(true);
+  });
+});
+
+describe('poll list helpers', () => {
+  it('should replace the member votes and tallies but keep other votes', () => {
+    const tallies: PollOption[] = [
+      { id: 'option-1', label: 'Coming', position: 0, vote_count: 2 },
+      { id: 'option-2', label: 'Not coming', position: 1, vote_count: 0 },
+    ];
+
+    const [message] = applyPollVoteChange([createMessage()], {
+      messageId: 'message-1',
+      membershipId: mockMembershipId,
+      options: tallies,
+      votes: [{ option_id: 'option-1', membership_id: mockMembershipId }],
+    });
+
+    expect(message?.poll?.options).toEqual(tallies);
+    expect(message?.poll?.votes).toEqual([
+      { option_id: 'option-1', membership_id: 'membership-other' },
+      { option_id: 'option-1', membership_id: mockMembershipId },
+    ]);
+  });
+
+  it('should set an option tally from a real-time update', () => {
+    const [message] = updatePollOption([createMessage()], {
+      id: 'option-2',
+      poll_id: 'poll-1',
+      vote_count: 5,
+    });
+
+    expect(message?.poll?.options.map((option) => option.vote_count)).toEqual([1, 5]);
+  });
+});
+
+describe('usePolls', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should create a poll through the create_poll function', async () => {
+    const rpc = resolvesTo({ data: 'message-1', error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => usePolls(mockTenantId, mockMembershipId));
+
+    let messageId: string | null = null;
+    await act(async () => {
+      messageId = await result.current.createPoll('conversation-789', {
+        question: " Who's coming Friday? ",
+        options: ['Coming', ' ', 'Not coming'],
+        allowsMultiple: false,
+        isAnonymous: true,
+        closesAt: null,
+      });
+    });
+
+    expect(messageId).toBe('message-1');
+    expect(rpc).toHaveBeenCalledWith('create_poll', {
+      p_conversation_id: 'conversation-789',
+      p_question: "Who's coming Friday?",
+      p_options: ['Coming', 'Not coming'],
+      p_allows_multiple: false,
+      p_is_anonymous: true,
+      p_closes_at: null,
+    });
+  });
+
+  it('should reject polls with fewer than two options', async () => {
+    const rpc = resolvesTo({ data: null, error: null });
+    mockSupabase.rpc = rpc;
+
+    const { result } = renderHook(() => usePolls(mockTenantId, mockMembershipId));
+
+    await act(async () => {
+      await result.current.createPoll('conversation-789', {
+        question: 'Lunch?',
+        options: ['Yes', ''],
+        allowsMultiple: false,
+        isAnonymous: false,
+        closesAt: null,
+      });
+    });
+
+    expect(rpc).not.toHaveBeenCalled();
+    expect(result.current.error).toBeTruthy();
+  });
+
+  it('should replace the previous vote on single-choice polls', async () => {
+    const tallies: PollOption[] = [
+      { id: 'option-1', label: 'Coming', position: 0, vote_count: 2 },
+      { id: 'option-2', label: 'Not coming', position: 1, vote_count: 0 },
+    ];
+    const { insert, order } = mockVotes(tallies);
+
+    const { result } = renderHook(() => usePolls(mockTenantId, mockMembershipId));
+
+    let change = null;
+    await act(async () => {
+      change = await result.current.toggleVote(createMessage(), 'option-1');
+    });
+
+    expect(insert).toHaveBeenCalledWith({
+      tenant_id: mockTenantId,
+      conversation_id: 'conversation-789',
+      poll_id: 'poll-1',
+      option_id: 'option-1',
+      membership_id: mockMembershipId,
+    });
+    expect(order).toHaveBeenCalledWith('position', { ascending: true });
+    expect(change).toEqual({
+      messageId: 'message-1',
+      membershipId: mockMembershipId,
+      options: tallies,
+      votes: [{ option_id: 'option-1', membership_id: mockMembershipId }],
+    });
+  });
+
+  it('should take back a vote the member already cast', async () => {
+    const { insert, deleteMembershipEq } = mockVotes(options);
+
+    const { result } = renderHook(() => usePolls(mockTenantId, mockMembershipId));
+
+    let change = null;
+    await act(async () => {
+      change = await result.current.toggleVote(createMessage(), 'option-2');
+    });
+
+    expect(insert).not.toHaveBeenCalled();
+    expect(deleteMembershipEq).toHaveBeenCalledWith('membership_id', mockMembershipId);
+    expect(change).toMatchObject({ votes: [] });
+  });
+
+  it('should not vote on a closed poll', async () => {
+    const { insert } = mockVotes(options);
+
+    const { result } = renderHook(() => usePolls(mockTenantId, mockMembershipId));
+
+    let change = null;
+    await act(async () => {
+      change = await result.current.toggleVote(
+        createMessage(createPoll({ closes_at: '2000-01-01T00:00:00Z' })),
+        'option-1'
+      );
+    });
+
+    expect(change).toBeNull();
+    expect(insert).not.toHaveBeenCalled();
+    expect(result.current.error).toBeTruthy();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for read receipt hooks and helpers.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import {
+  useReadReceipts,
+  useMarkConversationRead,
+  getMessageReadReceipt,
+  type ParticipantReadState,
+} from '../useReadReceipts';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown; rpc: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockConversationId = 'conversation-789';
+const mockMembershipId = 'membership-456';
+
+const participant = (
+  membershipId: string,
+  lastReadAt: string | null,
+  displayName: string | null = null
+): ParticipantReadState => ({
+  id: `cp-${membershipId}`,
+  membershipId,
+  displayName,
+  lastReadAt,
+});
+
+describe('getMessageReadReceipt', () => {
+  const message = { sender_id: mockMembershipId, created_at: '2025-01-18T10:00:00Z' };
+
+  it('should count participants whose marker is at or after the message', () => {
+    const receipt = getMessageReadReceipt(message, [
+      participant(mockMembershipId, null),
+      participant('m1', '2025-01-18T10:00:00Z', 'Kim'),
+      participant('m2', '2025-01-18T11:00:00Z', 'Lee'),
+      participant('m3', '2025-01-18T09:59:59Z', 'Park'),
+      participant('m4', null, 'Choi'),
+    ]);
+
+    expect(receipt.readCount).toBe(2);
+    expect(receipt.total).toBe(4);
+    expect(receipt.readBy.map((p) => p.displayName)).toEqual(['Kim', 'Lee']);
+    expect(receipt.unreadBy.map((p) => p.displayName)).toEqual(['Park', 'Choi']);
+  });
+
+  it('should not count the sender', () => {
+    const receipt = getMessageReadReceipt(message, [participant(mockMembershipId, null)]);
+
+    expect(receipt.total).toBe(0);
+  });
+});
+
+describe('useReadReceipts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch participants with their read markers', async () => {
+    const mockEq = resolvesTo({
+      data: [
+        {
+          id: 'cp-1',
+          membership_id: 'm1',
+          last_read_at: '2025-01-18T10:00:00Z',
+          membership: { user: { display_name: 'Kim' } },
+        },
+      ],
+      error: null,
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({ eq: mockEq }),
+    });
+
+    const { result } = renderHook(() => useReadReceipts(mockConversationId, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(mockEq).toHaveBeenCalledWith('conversation_id', mockConversationId);
+    expect(result.current.participants).toEqual([
+      { id: 'cp-1', membershipId: 'm1', displayName: 'Kim', lastReadAt: '2025-01-18T10:00:00Z' },
+    ]);
+  });
+
+  it('should return no participants without a conversation', async () => {
+    mockSupabase.from = jest.fn();
+
+    const { result } = renderHook(() => useReadReceipts(null));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.participants).toEqual([]);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
+
+describe('useMarkConversationRead', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should advance the read marker through the RPC', async () => {
+    const mockRpc = resolvesTo({ data: '2025-01-18T10:00:00Z', error: null });
+    mockSupabase.rpc = mockRpc;
+
+    const { result } = renderHook(() =>
+      useMarkConversationRead(mockConversationId, mockMembershipId)
+    );
+
+    await act(async () => {
+      await result.current.markRead('2025-01-18T10:00:00Z');
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('mark_conversation_read', {
+      p_conversation_id: mockConversationId,
+      p_read_at: '2025-01-18T10:00:00Z',
+    });
+  });
+
+  it('should skip markers that are not newer than the last one sent', async () => {
+    const mockRpc = resolvesTo({ data: null, error: null });
+    mockSupabase.rpc = mockRpc;
+
+    const { result } = renderHook(() =>
+      useMarkConversationRead(mockConversationId, mockMembershipId)
+    );
+
+    await act(async () => {
+      await result.current.markRead('2025-01-18T10:00:00Z');
+      await result.current.markRead('2025-01-18T09:00:00Z');
+      await result.current.markRead('2025-01-18T10:00:00Z');
+    });
+
+    expect(mockRpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry the same marker after a failure', async () => {
+    const rpcError = new Error('Network error');
+    const mockRpc = jest
+      .fn<() => Promise<unknown>>()
+      .mockResolvedValueOnce({ data: null, error: rpcError })
+      .mockResolvedValueOnce({ data: '2025-01-18T10:00:00Z', error: null });
+    mockSupabase.rpc = mockRpc;
+
+    const { result } = renderHook(() =>
+      useMarkConversationRead(mockConversationId, mockMembershipId)
+    );
+
+    await act(async () => {
+      await result.current.markRead('2025-01-18T10:00:00Z');
+    });
+    expect(result.current.error).toBe(rpcError);
+
+    await act(async () => {
+      await result.current.markRead('2025-01-18T10:00:00Z');
+    });
+
+    expect(mockRpc).toHaveBeenCalledTimes(2);
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the scheduled messages hook.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { useScheduledMessages, canScheduleMessages } from '../useScheduledMessages';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockConversationId = 'conversation-789';
+const mockMembershipId = 'membership-456';
+
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+const scheduledRow = {
+  id: 'scheduled-1',
+  tenant_id: mockTenantId,
+  conversation_id: mockConversationId,
+  sender_id: mockMembershipId,
+  content: 'See you tonight at 8!',
+  scheduled_for: '2099-01-25T11:00:00Z',
+  status: 'pending',
+  message_id: null,
+  error: null,
+  sent_at: null,
+  claimed_at: null,
+  created_at: '2099-01-22T10:00:00Z',
+  updated_at: '2099-01-22T10:00:00Z',
+};
+
+/**
+ * Mock the scheduled_messages query and mutations.
+ */
+function mockScheduled(rows: unknown[]) {
+  const order = resolvesTo({ data: rows, error: null });
+  const statusIn = jest.fn().mockReturnValue({ order });
+  const insert = resolvesTo({ error: null });
+  const update = jest.fn();
+  const updateTenantEq = resolvesTo({ error: null });
+  update.mockReturnValue({ eq: jest.fn().mockReturnValue({ eq: updateTenantEq }) });
+  const deleteTenantEq = resolvesTo({ error: null });
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({ eq: jest.fn().mockReturnValue({ in: statusIn }) }),
+      }),
+    }),
+    insert,
+    update,
+    delete: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: deleteTenantEq }),
+    }),
+  });
+  return { order, statusIn, insert, update, updateTenantEq, deleteTenantEq };
+}
+
+describe('canScheduleMessages', () => {
+  it('should allow leaders and above', () => {
+    expect(canScheduleMessages('small_group_leader')).toBe(true);
+    expect(canScheduleMessages('pastor')).toBe(true);
+    expect(canScheduleMessages('member')).toBe(false);
+    expect(canScheduleMessages(null)).toBe(false);
+  });
+});
+
+describe('useScheduledMessages', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should fetch pending and failed messages, soonest first', async () => {
+    const { order, statusIn } = mockScheduled([scheduledRow]);
+
+    const { result } = renderHook(() =>
+      useScheduledMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(statusIn).toHaveBeenCalledWith('status', ['pending', 'failed']);
+    expect(order).toHaveBeenCalledWith('scheduled_for', { ascending: true });
+    expect(result.current.scheduledMessages).toEqual([scheduledRow]);
+  });
+
+  it('should schedule a message as the current member', async () => {
+    const { insert } = mockScheduled([]);
+
+    const { result } = renderHook(() =>
+      useScheduledMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const scheduledFor = inOneDay();
+    let scheduled = false;
+    await act(async () => {
+      scheduled = await result.current.scheduleMessage(' See you tonight at 8! ', scheduledFor);
+    });
+
+    expect(scheduled).toBe(true);
+    expect(insert).toHaveBeenCalledWith({
+      tenant_id: mockTenantId,
+      conversation_id: mockConversationId,
+      sender_id: mockMembershipId,
+      content: 'See you tonight at 8!',
+      scheduled_for: scheduledFor,
+    });
+  });
+
+  it('should reject a time in the past', async () => {
+    const { insert } = mockScheduled([]);
+
+    const { result } = renderHook(() =>
+      useScheduledMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let scheduled = true;
+    await act(async () => {
+      scheduled = await result.current.scheduleMessage('Too late', '2000-01-01T00:00:00Z');
+    });
+
+    expect(scheduled).toBe(false);
+    expect(insert).not.toHaveBeenCalled();
+    expect(result.current.error).toBeTruthy();
+  });
+
+  it('should reschedule an edited message', async () => {
+    const { update, updateTenantEq } = mockScheduled([{ ...scheduledRow, status: 'failed' }]);
+
+    const { result } = renderHook(() =>
+      useScheduledMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const scheduledFor = inOneDay();
+    let updated = false;
+    await act(async () => {
+      updated = await result.current.updateScheduledMessage(
+        'scheduled-1',
+        'See you at 8:30!',
+        scheduledFor
+      );
+    });
+
+    expect(updated).toBe(true);
+    expect(update).toHaveBeenCalledWith({
+      content: 'See you at 8:30!',
+      scheduled_for: scheduledFor,
+      status: 'pending',
+      error: null,
+    });
+    expect(updateTenantEq).toHaveBeenCalledWith('tenant_id', mockTenantId);
+  });
+
+  it('should drop a cancelled message from the list', async () => {
+    mockScheduled([scheduledRow]);
+
+    const { result } = renderHook(() =>
+      useScheduledMessages(mockConversationId, mockTenantId, mockMembershipId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.scheduledMessages).toHaveLength(1);
+    });
+
+    await act(async () => {
+      await result.current.cancelScheduledMessage('scheduled-1');
+    });
+
+    expect(result.current.scheduledMessages).toEqual([]);
+  });
+});
@@ -4,17 +4,45 @@
 
 import { renderHook, waitFor, act } from '@testing-library/react-native';
 import { useSendMessage, useSendReply } from '../useSendMessage';
+import { useOutboxStore } from '../../store/outboxStore';
 import { supabase } from '@/lib/supabase';
 
 // Mock Supabase client
 jest.mock('@/lib/supabase', () => ({
   supabase: {
     from: jest.fn(),
+    rpc: jest.fn(),
   },
 }));
 
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 
+/**
+ * Mock the send_message call, then the fetch of the sent message and the
+ * conversation update. Pass parentCheck for replies, which fetch their parent first.
+ */
+function mockSendMessage(
+  sendResult: { data: unknown; error: unknown },
+  message: unknown,
+  parentCheck?: { parent_id: string | null }
+) {
+  const rpcMock = jest.fn().mockResolvedValue(sendResult);
+  const single = jest.fn();
+  if (parentCheck) {
+    single.mockResolvedValueOnce({ data: parentCheck, error: null });
+  }
+  single.mockResolvedValue({ data: message, error: null });
+
+  mockSupabase.rpc = rpcMock;
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: jest.fn().mockReturnValue({ single }) }),
+    }),
+    update: jest.fn().mockReturnValue({ eq: jest.fn().mockResolvedValue({ error: null }) }),
+  });
+  return rpcMock;
+}
+
 describe('useSendMessage', () => {
   const mockConversationId = 'conversation-123';
   const mockTenantId = 'tenant-456';
@@ -22,6 +50,7 @@ describe('useSendMessage', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    useOutboxStore.setState({ entries: [], userId: 'user-1' });
   });
 
   it('should initialize with idle state', () => {
@@ -92,45 +121,31 @@ describe('useSendMessage', () => {
       },
     };
 
-    const mockFrom = jest.fn().mockReturnValue({
-      insert: jest.fn().mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          single: jest.fn().mockResolvedValue({
-            data: mockMessage,
-            error: null,
-          }),
-        }),
-      }),
-    });
-    mockSupabase.from = mockFrom;
+    const rpcMock = mockSendMessage({ data: 'new-msg-1', error: null }, mockMessage);
 
     const { result } = renderHook(() =>
       useSendMessage(mockConversationId, mockTenantId, mockSenderMembershipId)
     );
 
-    let sentMessage;
+    let sentMessage: Awaited<ReturnType<typeof result.current.sendMessage>> = null;
     await act(async () => {
       sentMessage = await result.current.sendMessage('Hello!');
     });
 
-    expect(sentMessage).toEqual(mockMessage);
-    expect(mockFrom).toHaveBeenCalledWith('messages');
+    expect(sentMessage).toEqual(
+      expect.objectContaining({
+        id: 'new-msg-1',
+        content: 'Hello!',
+        sender: { id: mockSenderMembershipId, display_name: 'Test User', photo_url: null },
+      })
+    );
+    expect(rpcMock).toHaveBeenCalledWith('send_message', expect.any(Object));
   });
 
   it('should handle send errors gracefully', async () => {
     const mockError = new Error('Failed to send message');
 
-    const mockFrom = jest.fn().mockReturnValue({
-      insert: jest.fn().mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          single: jest.fn().mockResolvedValue({
-            data: null,
-            error: mockError,
-          }),
-        }),
-      }),
-    });
-    mockSupabase.from = mockFrom;
+    mockSendMessage({ data: null, error: mockError }, null);
 
     const { result } = renderHook(() =>
       useSendMessage(mockConversationId, mockTenantId, mockSenderMembershipId)
@@ -145,26 +160,20 @@ describe('useSendMessage', () => {
   });
 
   it('should set sending state while sending', async () => {
-    const mockFrom = jest.fn().mockReturnValue({
-      insert: jest.fn().mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          single: jest.fn().mockImplementation(
+    const rpcMock = mockSendMessage({ data: 'msg-1', error: null }, { id: 'msg-1' });
+    rpcMock.mockImplementation(
+      () =>
+        new Promise((resolve) =>
+          setTimeout(
             () =>
-              new Promise((resolve) =>
-                setTimeout(
-                  () =>
-                    resolve({
-                      data: { id: 'msg-1' },
-                      error: null,
-                    }),
-                  100
-                )
-              )
-          ),
-        }),
-      }),
-    });
-    mockSupabase.from = mockFrom;
+              resolve({
+                data: 'msg-1',
+                error: null,
+              }),
+            100
+          )
+        )
+    );
 
     const { result } = renderHook(() =>
       useSendMessage(mockConversationId, mockTenantId, mockSenderMembershipId)
@@ -185,19 +194,7 @@ describe('useSendMessage', () => {
   });
 
   it('should include tenant_id in message payload', async () => {
-    const insertMock = jest.fn().mockReturnValue({
-      select: jest.fn().mockReturnValue({
-        single: jest.fn().mockResolvedValue({
-          data: { id: 'msg-1' },
-          error: null,
-        }),
-      }),
-    });
-
-    const mockFrom = jest.fn().mockReturnValue({
-      insert: insertMock,
-    });
-    mockSupabase.from = mockFrom;
+    const rpcMock = mockSendMessage({ data: 'msg-1', error: null }, { id: 'msg-1' });
 
     const { result } = renderHook(() =>
       useSendMessage(mockConversationId, mockTenantId, mockSenderMembershipId)
@@ -207,13 +204,14 @@ describe('useSendMessage', () => {
       await result.current.sendMessage('Hello!');
     });
 
-    expect(insertMock).toHaveBeenCalledWith(
+    expect(rpcMock).toHaveBeenCalledWith(
+      'send_message',
       expect.objectContaining({
-        tenant_id: mockTenantId,
-        conversation_id: mockConversationId,
-        sender_id: mockSenderMembershipId,
-        content: 'Hello!',
-        content_type: 'text',
+        p_tenant_id: mockTenantId,
+        p_conversation_id: mockConversationId,
+        p_sender_id: mockSenderMembershipId,
+        p_content: 'Hello!',
+        p_content_type: 'text',
       })
     );
   });
@@ -227,6 +225,7 @@ describe('useSendReply', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    useOutboxStore.setState({ entries: [], userId: 'user-1' });
   });
 
   it('should initialize with idle state', () => {
@@ -240,19 +239,11 @@ describe('useSendReply', () => {
   });
 
   it('should include parent_message_id in reply payload', async () => {
-    const insertMock = jest.fn().mockReturnValue({
-      select: jest.fn().mockReturnValue({
-        single: jest.fn().mockResolvedValue({
-          data: { id: 'reply-1' },
-          error: null,
-        }),
-      }),
-    });
-
-    const mockFrom = jest.fn().mockReturnValue({
-      insert: insertMock,
-    });
-    mockSupabase.from = mockFrom;
+    const rpcMock = mockSendMessage(
+      { data: 'reply-1', error: null },
+      { id: 'reply-1' },
+      { parent_id: null }
+    );
 
     const { result } = renderHook(() =>
       useSendReply(mockConversationId, mockTenantId, mockSenderMembershipId, mockParentMessageId)
@@ -262,10 +253,11 @@ describe('useSendReply', () => {
       await result.current.sendReply('Reply text');
     });
 
-    expect(insertMock).toHaveBeenCalledWith(
+    expect(rpcMock).toHaveBeenCalledWith(
+      'send_message',
       expect.objectContaining({
-        parent_id: mockParentMessageId,
-        content: 'Reply text',
+        p_parent_id: mockParentMessageId,
+        p_content: 'Reply text',
       })
     );
   });
@@ -348,43 +340,8 @@ describe('useSendReply', () => {
       },
     };
 
-    // First call: check parent message's parent_id
-    const selectParentMock = jest.fn().mockResolvedValue({
-      data: mockParentIsTopLevel,
-      error: null,
-    });
-
-    // Second call: insert the reply
-    const insertMock = jest.fn().mockReturnValue({
-      select: jest.fn().mockReturnValue({
-        single: jest.fn().mockResolvedValue({
-          data: mockReply,
-          error: null,
-        }),
-      }),
-    });
-
-    let callCount = 0;
-    const mockFrom = jest.fn().mockImplementation(() => {
-      callCount++;
-      if (callCount === 1) {
-        // First call: checking parent message
-        return {
-          select: jest.fn().mockReturnValue({
-            eq: jest.fn().mockReturnValue({
-              eq: jest.fn().mockReturnValue({
-                single: selectParentMock,
-              }),
-            }),
-          }),
-        };
-      }
-      // Subsequent calls: insert
-      return {
-        insert: insertMock,
-      };
-    });
-    mockSupabase.from = mockFrom;
+    // The parent check runs first, then send_message and the fetch of the reply
+    mockSendMessage({ data: 'reply-1', error: null }, mockReply, mockParentIsTopLevel);
 
     const { result } = renderHook(() =>
       useSendReply(mockConversationId, mockTenantId, mockSenderMembershipId, mockParentMessageId)
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the tenant members hook.
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useTenantMembers } from '../useTenantMembers';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+describe('useTenantMembers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list active members sorted by name', async () => {
+    const statusEq = resolvesTo({
+      data: [
+        { id: 'membership-2', user: { display_name: 'Grace Park', photo_url: null } },
+        { id: 'membership-1', user: { display_name: 'Daniel Lee', photo_url: 'https://a/b.png' } },
+      ],
+      error: null,
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({ eq: statusEq }),
+      }),
+    });
+
+    const { result } = renderHook(() => useTenantMembers('tenant-123'));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(statusEq).toHaveBeenCalledWith('status', 'active');
+    expect(result.current.members).toEqual([
+      { membershipId: 'membership-1', displayName: 'Daniel Lee', photoUrl: 'https://a/b.png' },
+      { membershipId: 'membership-2', displayName: 'Grace Park', photoUrl: null },
+    ]);
+  });
+
+  it('should return no members without a tenant', async () => {
+    const { result } = renderHook(() => useTenantMembers(null));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.members).toEqual([]);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -2,7 +2,7 @@
  * Unit tests for useThreadMessages hook.
  */
 
-import { renderHook, waitFor } from '@testing-library/react-native';
+import { renderHook, waitFor, act } from '@testing-library/react-native';
 import {
   useThreadMessages,
   appendThreadMessage,
@@ -105,7 +105,7 @@ describe('useThreadMessages', () => {
     });
 
     // Mock thread replies fetch
-    const mockRangeReplies = jest.fn().mockResolvedValue({
+    const mockLimitReplies = jest.fn().mockResolvedValue({
       data: mockThreadReplies,
       error: null,
     });
@@ -115,10 +115,10 @@ describe('useThreadMessages', () => {
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
             eq: jest.fn().mockReturnValue({
-              is: jest.fn().mockReturnValue({
-                single: mockSingleParent,
+              single: mockSingleParent,
+              order: jest.fn().mockReturnValue({
                 order: jest.fn().mockReturnValue({
-                  range: mockRangeReplies,
+                  limit: mockLimitReplies,
                 }),
               }),
             }),
@@ -145,13 +145,13 @@ describe('useThreadMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
-            is: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({
-                data: null,
-                error: mockError,
-              }),
+            single: jest.fn().mockResolvedValue({
+              data: null,
+              error: mockError,
+            }),
+            order: jest.fn().mockReturnValue({
               order: jest.fn().mockReturnValue({
-                range: jest.fn().mockResolvedValue({
+                limit: jest.fn().mockResolvedValue({
                   data: null,
                   error: mockError,
                 }),
@@ -178,13 +178,13 @@ describe('useThreadMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
-            is: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({
-                data: null,
-                error: null,
-              }),
+            single: jest.fn().mockResolvedValue({
+              data: null,
+              error: null,
+            }),
+            order: jest.fn().mockReturnValue({
               order: jest.fn().mockReturnValue({
-                range: jest.fn().mockResolvedValue({
+                limit: jest.fn().mockResolvedValue({
                   data: [],
                   error: null,
                 }),
@@ -210,13 +210,13 @@ describe('useThreadMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
-            is: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({
-                data: null,
-                error: null,
-              }),
+            single: jest.fn().mockResolvedValue({
+              data: null,
+              error: null,
+            }),
+            order: jest.fn().mockReturnValue({
               order: jest.fn().mockReturnValue({
-                range: jest.fn().mockResolvedValue({
+                limit: jest.fn().mockResolvedValue({
                   data: [],
                   error: null,
                 }),
@@ -242,13 +242,13 @@ describe('useThreadMessages', () => {
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
-            is: jest.fn().mockReturnValue({
-              single: jest.fn().mockResolvedValue({
-                data: null,
-                error: null,
-              }),
+            single: jest.fn().mockResolvedValue({
+              data: null,
+              error: null,
+            }),
+            order: jest.fn().mockReturnValue({
               order: jest.fn().mockReturnValue({
-                range: jest.fn().mockResolvedValue({
+                limit: jest.fn().mockResolvedValue({
                   data: [], // Empty = no more pages
                   error: null,
                 }),
@@ -268,6 +268,53 @@ describe('useThreadMessages', () => {
 
     expect(result.current.hasMore).toBe(false);
   });
+
+  it('should continue from the newest loaded reply when loading more', async () => {
+    const firstPage = Array.from({ length: 50 }, (_, i) =>
+      createMockMessage({
+        id: `reply-${i}`,
+        created_at: new Date(Date.UTC(2024, 0, 1, 12, i)).toISOString(),
+      })
+    );
+    const limit = jest
+      .fn<() => Promise<unknown>>()
+      .mockResolvedValueOnce({ data: firstPage, error: null })
+      .mockResolvedValueOnce({ data: [], error: null });
+    const or = jest.fn();
+
+    // Every filter returns the same builder so the cursor filter can be inspected
+    const query = {
+      select: jest.fn(),
+      eq: jest.fn(),
+      or,
+      order: jest.fn(),
+      limit,
+      single: jest.fn<() => Promise<unknown>>().mockResolvedValue({ data: null, error: null }),
+    };
+    query.select.mockReturnValue(query);
+    query.eq.mockReturnValue(query);
+    query.or.mockReturnValue(query);
+    query.order.mockReturnValue(query);
+    mockSupabase.from = jest.fn().mockReturnValue(query);
+
+    const { result } = renderHook(() => useThreadMessages(mockParentMessageId, mockTenantId));
+
+    await waitFor(() => {
+      expect(result.current.messages).toHaveLength(50);
+    });
+    expect(or).not.toHaveBeenCalled();
+    expect(result.current.hasMore).toBe(true);
+
+    await act(async () => {
+      await result.current.loadMore();
+    });
+
+    const newest = firstPage[49]!;
+    expect(or).toHaveBeenCalledWith(
+      `created_at.gt."${newest.created_at}",and(created_at.eq."${newest.created_at}",id.gt.${newest.id})`
+    );
+    expect(result.current.hasMore).toBe(false);
+  });
 });
 
 describe('Thread message helper functions', () => {
@@ -324,6 +371,15 @@ describe('Thread message helper functions', () => {
       expect(result).toHaveLength(1);
       expect(result[0].id).toBe('msg-1');
     });
+
+    it('should replace a message already in the list instead of duplicating it', () => {
+      const existing = [createMockMessage('msg-1', 'First'), createMockMessage('msg-2', 'Second')];
+
+      const result = appendThreadMessage(existing, createMockMessage('msg-2', 'Second (echo)'));
+
+      expect(result).toHaveLength(2);
+      expect(result[1]?.content).toBe('Second (echo)');
+    });
   });
 
   describe('updateThreadMessage', () => {
@@ -360,6 +416,32 @@ describe('Thread message helper functions', () => {
       expect(result).toHaveLength(1);
       expect(result[0].id).toBe('msg-1');
     });
+
+    it('should keep sender data missing from a partial update', () => {
+      const existing = [createMockMessage('msg-1', 'Original')];
+
+      const result = updateThreadMessage(existing, {
+        id: 'msg-1',
+        content: 'Edited',
+        edited_at: '2024-01-01T12:05:00Z',
+      });
+
+      expect(result[0]?.content).toBe('Edited');
+      expect(result[0]?.edited_at).toBe('2024-01-01T12:05:00Z');
+      expect(result[0]?.sender).toEqual(existing[0]?.sender);
+    });
+
+    it('should clear content when the reply is deleted', () => {
+      const existing = [createMockMessage('msg-1', 'Original')];
+
+      const result = updateThreadMessage(existing, {
+        id: 'msg-1',
+        deleted_at: '2024-01-01T12:05:00Z',
+      });
+
+      expect(result[0]?.deleted_at).toBe('2024-01-01T12:05:00Z');
+      expect(result[0]?.content).toBeNull();
+    });
   });
 
   describe('removeThreadMessage', () => {
@@ -15,6 +15,97 @@ export { useImageUpload } from './useImageUpload';
 export type { ImageUploadState } from './useImageUpload';
 export { useMediaUpload } from './useMediaUpload';
 export type { MediaUploadState } from './useMediaUpload';
-export { useMessageSubscription, useConversationListSubscription } from './useMessageSubscription';
+export { useConversationMute } from './useConversationMute';
+export type { ConversationMuteState, MuteDuration } from './useConversationMute';
+export {
+  useMessageReactions,
+  QUICK_REACTIONS,
+  summarizeReactions,
+  applyReactionChange,
+  addMessageReaction,
+  removeMessageReaction,
+} from './useMessageReactions';
+export type { MessageReactionsState, ReactionChange, ReactionSummary } from './useMessageReactions';
+export {
+  useMessageEdits,
+  useMessageEditHistory,
+  canEditMessage,
+  canDeleteMessage,
+  getMessageEditWindowMinutes,
+  DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES,
+} from './useMessageEdits';
+export type {
+  MessageEditsState,
+  MessageEditHistoryState,
+  EditedMessageFields,
+} from './useMessageEdits';
+export { useReadReceipts, useMarkConversationRead, getMessageReadReceipt } from './useReadReceipts';
+export type {
+  ReadReceiptsState,
+  MarkConversationReadState,
+  MessageReadReceipt,
+  ParticipantReadState,
+} from './useReadReceipts';
+export {
+  usePinnedMessages,
+  canPinMessages,
+  MAX_PINNED_MESSAGES,
+  PIN_MESSAGE_ROLES,
+} from './usePinnedMessages';
+export type { PinnedMessagesState } from './usePinnedMessages';
+export {
+  usePolls,
+  isPollClosed,
+  applyPollVoteChange,
+  updatePollOption,
+  MIN_POLL_OPTIONS,
+  MAX_POLL_OPTIONS,
+} from './usePolls';
+export type {
+  PollsState,
+  PollDraft,
+  PollVoter,
+  PollVoteChange,
+  PollOptionUpdate,
+} from './usePolls';
+export {
+  useScheduledMessages,
+  canScheduleMessages,
+  SCHEDULE_MESSAGE_ROLES,
+} from './useScheduledMessages';
+export type { ScheduledMessagesState } from './useScheduledMessages';
+export { useTenantMembers } from './useTenantMembers';
+export type { TenantMember, TenantMembersState } from './useTenantMembers';
+export { useCreateConversation, MAX_CONVERSATION_NAME_LENGTH } from './useCreateConversation';
+export type { CreateConversationState } from './useCreateConversation';
+export { useConversationParticipants } from './useConversationParticipants';
+export type {
+  ConversationParticipantsState,
+  ConversationParticipantWithMember,
+} from './useConversationParticipants';
+export { useForwardMessage, canForwardMessage, MAX_FORWARD_TARGETS } from './useForwardMessage';
+export type { ForwardMessageState } from './useForwardMessage';
+export { useLinkPreview, clearLinkPreviewCache } from './useLinkPreview';
+export type { LinkPreviewState } from './useLinkPreview';
+export {
+  useOutboxMessages,
+  useOutboxProcessor,
+  createOutboxEntry,
+  processOutboxEntry,
+  sendOutboxEntry,
+  flushOutbox,
+  retryOutboxEntry,
+  mergeOutboxMessages,
+  toOptimisticMessage,
+  getRetryDelay,
+  MAX_SEND_ATTEMPTS,
+} from './useMessageOutbox';
+export type { OutboxMessagesState, NewOutboxEntry } from './useMessageOutbox';
+export {
+  useMessageSubscription,
+  useConversationListSubscription,
+  getPresenceMembers,
+} from './useMessageSubscription';
+export type { ConversationSubscriptionState, PresenceMember } from './useMessageSubscription';
 export { appendMessage, updateMessage, removeMessage } from './useMessages';
 export { appendThreadMessage, updateThreadMessage, removeThreadMessage } from './useThreadMessages';
@@ -0,0 +1,174 @@
+/**
+ * Hook for muting push notifications in a single conversation.
+ *
+ * Reads and writes the current member's conversation_participants row.
+ * Mentions still notify while a conversation is muted.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * How long to mute a conversation. 'forever' mutes until unmuted.
+ */
+export type MuteDuration = '1h' | '8h' | 'forever';
+
+export interface ConversationMuteState {
+  isMuted: boolean;
+  mutedUntil: string | null;
+  loading: boolean;
+  updating: boolean;
+  error: Error | null;
+  muteConversation: (duration: MuteDuration) => Promise<boolean>;
+  unmuteConversation: () => Promise<boolean>;
+}
+
+const MUTE_DURATION_MS: Record<Exclude<MuteDuration, 'forever'>, number> = {
+  '1h': 60 * 60 * 1000,
+  '8h': 8 * 60 * 60 * 1000,
+};
+
+/**
+ * Hook for muting and unmuting a conversation for the current member.
+ *
+ * @param conversationId - The conversation to mute
+ * @param membershipId - The current user's membership ID
+ * @returns ConversationMuteState with mute status and mutation functions
+ *
+ * @example
+ * ```tsx
+ * function MuteButton({ conversationId }: { conversationId: string }) {
+ *   const { membershipId } = useCurrentMembership();
+ *   const { isMuted, muteConversation, unmuteConversation, updating } = useConversationMute(
+ *     conversationId,
+ *     membershipId
+ *   );
+ *
+ *   return (
+ *     <Button
+ *       onPress={() => (isMuted ? unmuteConversation() : muteConversation('8h'))}
+ *       disabled={updating}
+ *     >
+ *       {isMuted ? 'Unmute' : 'Mute for 8 hours'}
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useConversationMute(
+  conversationId: string | null,
+  membershipId: string | null
+): ConversationMuteState {
+  const [muted, setMuted] = useState(false);
+  const [mutedUntil, setMutedUntil] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!conversationId || !membershipId) {
+      setMuted(false);
+      setMutedUntil(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchMuteState = async () => {
+      setLoading(true);
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('conversation_participants')
+          .select('muted, muted_until')
+          .eq('conversation_id', conversationId)
+          .eq('membership_id', membershipId)
+          .single();
+
+        if (fetchError) {
+          throw fetchError;
+        }
+
+        if (!cancelled) {
+          setMuted(data?.muted ?? false);
+          setMutedUntil(data?.muted_until ?? null);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err as Error);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    void fetchMuteState();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, membershipId]);
+
+  const updateMute = useCallback(
+    async (nextMuted: boolean, nextMutedUntil: string | null): Promise<boolean> => {
+      if (!conversationId || !membershipId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setUpdating(true);
+      setError(null);
+
+      try {
+        const { error: updateError } = await supabase
+          .from('conversation_participants')
+          .update({ muted: nextMuted, muted_until: nextMutedUntil })
+          .eq('conversation_id', conversationId)
+          .eq('membership_id', membershipId);
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        setMuted(nextMuted);
+        setMutedUntil(nextMutedUntil);
+        return true;
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setUpdating(false);
+      }
+    },
+    [conversationId, membershipId]
+  );
+
+  const muteConversation = useCallback(
+    (duration: MuteDuration) =>
+      updateMute(
+        true,
+        duration === 'forever'
+          ? null
+          : new Date(Date.now() + MUTE_DURATION_MS[duration]).toISOString()
+      ),
+    [updateMute]
+  );
+
+  const unmuteConversation = useCallback(() => updateMute(false, null), [updateMute]);
+
+  // A timed mute that has already expired no longer silences notifications
+  const isMuted = muted && (!mutedUntil || new Date(mutedUntil).getTime() > Date.now());
+
+  return {
+    isMuted,
+    mutedUntil: isMuted ? mutedUntil : null,
+    loading,
+    updating,
+    error,
+    muteConversation,
+    unmuteConversation,
+  };
+}
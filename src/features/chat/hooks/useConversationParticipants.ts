@@ -0,0 +1,367 @@
+/**
+ * Hook for the participants of a conversation and, for group conversations,
+ * managing them.
+ *
+ * Group conversations have admins. Admins can rename the group, add and
+ * remove participants, and promote or demote other participants; everyone
+ * can leave. The rules are enforced by RLS on conversation_participants and
+ * conversations, so these mutations fail for members who aren't allowed.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { ConversationParticipantRole } from '@/types/database';
+import { MAX_CONVERSATION_NAME_LENGTH } from './useCreateConversation';
+
+export interface ConversationParticipantWithMember {
+  id: string;
+  membershipId: string;
+  role: ConversationParticipantRole;
+  displayName: string | null;
+  photoUrl: string | null;
+  joinedAt: string;
+}
+
+export interface ConversationParticipantsState {
+  /** Admins first, then in the order they joined */
+  participants: ConversationParticipantWithMember[];
+  /** Whether the conversation is a group conversation */
+  isGroup: boolean;
+  /** Whether the current member is an admin of this group conversation */
+  isAdmin: boolean;
+  loading: boolean;
+  error: Error | null;
+  addParticipants: (membershipIds: string[]) => Promise<boolean>;
+  removeParticipant: (membershipId: string) => Promise<boolean>;
+  setParticipantRole: (membershipId: string, role: ConversationParticipantRole) => Promise<boolean>;
+  leaveConversation: () => Promise<boolean>;
+  renameConversation: (name: string) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Participant update payload. Only the role is merged; other updates (read
+ * markers, mute settings) don't change the participant list.
+ */
+type ParticipantPayload =
+  | { eventType: 'UPDATE'; new: { id: string; role: ConversationParticipantRole } }
+  | { eventType: 'INSERT' | 'DELETE' };
+
+/**
+ * Sort participants with admins first, then by when they joined.
+ */
+function sortParticipants(
+  participants: ConversationParticipantWithMember[]
+): ConversationParticipantWithMember[] {
+  return [...participants].sort((a, b) => {
+    if (a.role !== b.role) {
+      return a.role === 'admin' ? -1 : 1;
+    }
+    return a.joinedAt.localeCompare(b.joinedAt);
+  });
+}
+
+/**
+ * Hook for loading and managing conversation participants.
+ *
+ * @param conversationId - The conversation to load participants for
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @param membershipId - The current user's membership ID
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns ConversationParticipantsState with participants, the mutations, loading, and error
+ *
+ * @example
+ * ```tsx
+ * const { participants, isAdmin, removeParticipant, leaveConversation } =
+ *   useConversationParticipants(conversationId, tenantId, membershipId);
+ *
+ * if (isAdmin) {
+ *   await removeParticipant(participant.membershipId);
+ * }
+ * ```
+ */
+export function useConversationParticipants(
+  conversationId: string | null,
+  tenantId: string | null,
+  membershipId: string | null,
+  enableRealtime: boolean = true
+): ConversationParticipantsState {
+  const [participants, setParticipants] = useState<ConversationParticipantWithMember[]>([]);
+  const [isGroup, setIsGroup] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchParticipants = useCallback(async () => {
+    if (!conversationId || !tenantId) {
+      setParticipants([]);
+      setIsGroup(false);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [conversationResult, participantsResult] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('is_group')
+          .eq('id', conversationId)
+          .eq('tenant_id', tenantId)
+          .single(),
+        supabase
+          .from('conversation_participants')
+          .select(
+            `
+              id,
+              membership_id,
+              role,
+              created_at,
+              membership:memberships!conversation_participants_membership_id_fkey (
+                user:users!memberships_user_id_fkey (
+                  display_name,
+                  photo_url
+                )
+              )
+            `
+          )
+          .eq('conversation_id', conversationId),
+      ]);
+
+      if (conversationResult.error) {
+        throw conversationResult.error;
+      }
+      if (participantsResult.error) {
+        throw participantsResult.error;
+      }
+
+      const transformedData: ConversationParticipantWithMember[] =
+        participantsResult.data?.map((item) => {
+          const membership = item.membership as unknown as {
+            user: { display_name: string | null; photo_url: string | null } | null;
+          } | null;
+
+          return {
+            id: item.id,
+            membershipId: item.membership_id,
+            role: item.role as ConversationParticipantRole,
+            displayName: membership?.user?.display_name ?? null,
+            photoUrl: membership?.user?.photo_url ?? null,
+            joinedAt: item.created_at,
+          };
+        }) ?? [];
+
+      setIsGroup(!!(conversationResult.data as { is_group: boolean } | null)?.is_group);
+      setParticipants(sortParticipants(transformedData));
+    } catch (err) {
+      setError(err as Error);
+      setParticipants([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, tenantId]);
+
+  const addParticipants = useCallback(
+    async (membershipIds: string[]): Promise<boolean> => {
+      if (!conversationId || membershipIds.length === 0) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: insertError } = await supabase.from('conversation_participants').insert(
+        membershipIds.map((id) => ({
+          conversation_id: conversationId,
+          membership_id: id,
+        }))
+      );
+
+      if (insertError) {
+        setError(insertError as unknown as Error);
+        return false;
+      }
+
+      await fetchParticipants();
+      return true;
+    },
+    [conversationId, fetchParticipants]
+  );
+
+  const removeParticipant = useCallback(
+    async (participantMembershipId: string): Promise<boolean> => {
+      if (!conversationId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('conversation_participants')
+        .delete()
+        .eq('conversation_id', conversationId)
+        .eq('membership_id', participantMembershipId);
+
+      if (deleteError) {
+        setError(deleteError as unknown as Error);
+        return false;
+      }
+
+      // Removing the last admin hands the role to someone else
+      await fetchParticipants();
+      return true;
+    },
+    [conversationId, fetchParticipants]
+  );
+
+  const setParticipantRole = useCallback(
+    async (
+      participantMembershipId: string,
+      role: ConversationParticipantRole
+    ): Promise<boolean> => {
+      if (!conversationId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('conversation_participants')
+        .update({ role })
+        .eq('conversation_id', conversationId)
+        .eq('membership_id', participantMembershipId);
+
+      if (updateError) {
+        setError(updateError as unknown as Error);
+        return false;
+      }
+
+      await fetchParticipants();
+      return true;
+    },
+    [conversationId, fetchParticipants]
+  );
+
+  const leaveConversation = useCallback(async (): Promise<boolean> => {
+    if (!conversationId || !membershipId) {
+      setError(new Error('Missing required parameters'));
+      return false;
+    }
+
+    setError(null);
+
+    const { error: deleteError } = await supabase
+      .from('conversation_participants')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('membership_id', membershipId);
+
+    if (deleteError) {
+      setError(deleteError as unknown as Error);
+      return false;
+    }
+
+    setParticipants((prev) => prev.filter((p) => p.membershipId !== membershipId));
+    return true;
+  }, [conversationId, membershipId]);
+
+  const renameConversation = useCallback(
+    async (name: string): Promise<boolean> => {
+      const trimmed = name.trim();
+      if (!conversationId || !tenantId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+      if (trimmed.length > MAX_CONVERSATION_NAME_LENGTH) {
+        setError(new Error('Conversation name is too long'));
+        return false;
+      }
+
+      setError(null);
+
+      // An empty name falls back to the participant names
+      const { error: updateError } = await supabase
+        .from('conversations')
+        .update({ name: trimmed || null })
+        .eq('id', conversationId)
+        .eq('tenant_id', tenantId);
+
+      if (updateError) {
+        setError(updateError as unknown as Error);
+        return false;
+      }
+
+      return true;
+    },
+    [conversationId, tenantId]
+  );
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!conversationId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`conversation_members:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const typedPayload = payload as unknown as ParticipantPayload;
+
+          if (typedPayload.eventType === 'UPDATE') {
+            // Read markers move often; only re-sort when a role changed
+            const { id, role } = typedPayload.new;
+            setParticipants((prev) =>
+              prev.some((p) => p.id === id && p.role !== role)
+                ? sortParticipants(prev.map((p) => (p.id === id ? { ...p, role } : p)))
+                : prev
+            );
+          } else {
+            void fetchParticipants();
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for conversation participants');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [conversationId, enableRealtime, fetchParticipants]);
+
+  useEffect(() => {
+    void fetchParticipants();
+  }, [fetchParticipants]);
+
+  const isAdmin =
+    isGroup && participants.some((p) => p.membershipId === membershipId && p.role === 'admin');
+
+  return {
+    participants,
+    isGroup,
+    isAdmin,
+    loading,
+    error,
+    addParticipants,
+    removeParticipant,
+    setParticipantRole,
+    leaveConversation,
+    renameConversation,
+    refetch: fetchParticipants,
+  };
+}
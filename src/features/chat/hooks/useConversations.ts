@@ -1,12 +1,17 @@
 /**
  * Hook for fetching conversations with last message and unread count.
  *
- * Provides tenant-scoped conversations sorted by most recent activity.
+ * Provides tenant-scoped conversations with the member's pinned ones first,
+ * then by most recent activity. Archived conversations are returned
+ * separately. The last fetched list is cached on the device and shown while
+ * refreshing.
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import type { ConversationWithLastMessage, MessageContentType } from '@/types/database';
+import { readCachedConversations, writeCachedConversations } from '../utils/messageCache';
+import { partitionArchivedConversations } from '../utils/conversationOrder';
 
 // Mock conversations for testing - remove when real data exists
 // Using valid UUIDs to avoid database errors when clicked
@@ -18,6 +23,8 @@ const MOCK_CONVERSATIONS: (ConversationWithLastMessage & { isMock?: boolean })[]
     name: null,
     small_group_id: null,
     ministry_id: null,
+    is_group: false,
+    direct_key: null,
     created_at: new Date(Date.now() - 86400000).toISOString(),
     updated_at: new Date(Date.now() - 3600000).toISOString(),
     last_message: {
@@ -44,6 +51,8 @@ const MOCK_CONVERSATIONS: (ConversationWithLastMessage & { isMock?: boolean })[]
     name: '모로카 목장',
     small_group_id: 'sg-1',
     ministry_id: null,
+    is_group: false,
+    direct_key: null,
     created_at: new Date(Date.now() - 172800000).toISOString(),
     updated_at: new Date(Date.now() - 7200000).toISOString(),
     last_message: {
@@ -70,6 +79,8 @@ const MOCK_CONVERSATIONS: (ConversationWithLastMessage & { isMock?: boolean })[]
     name: '찬양팀',
     small_group_id: null,
     ministry_id: 'ministry-1',
+    is_group: false,
+    direct_key: null,
     created_at: new Date(Date.now() - 259200000).toISOString(),
     updated_at: new Date(Date.now() - 86400000).toISOString(),
     last_message: {
@@ -93,8 +104,11 @@ const MOCK_CONVERSATIONS: (ConversationWithLastMessage & { isMock?: boolean })[]
 
 export interface ConversationsState {
   conversations: ConversationWithLastMessage[];
+  archivedConversations: ConversationWithLastMessage[];
   loading: boolean;
   error: Error | null;
+  setPinned: (conversationId: string, pinned: boolean) => Promise<boolean>;
+  setArchived: (conversationId: string, archived: boolean) => Promise<boolean>;
   refetch: () => Promise<void>;
 }
 
@@ -103,7 +117,8 @@ export interface ConversationsState {
  *
  * @param tenantId - The tenant ID to fetch conversations for
  * @param membershipId - The current user's membership ID for unread calculation
- * @returns ConversationsState with conversations list, loading, error, and refetch function
+ * @returns ConversationsState with the main and archived lists, loading, error,
+ *   pin/archive mutations, and refetch function
  *
  * @example
  * ```tsx
@@ -129,7 +144,7 @@ export function useConversations(
   tenantId: string | null,
   membershipId: string | null
 ): ConversationsState {
-  const [conversations, setConversations] = useState<ConversationWithLastMessage[]>([]);
+  const [allConversations, setConversations] = useState<ConversationWithLastMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
@@ -144,11 +159,17 @@ export function useConversations(
     setLoading(true);
     setError(null);
 
+    // Show the cached list while the network catches up
+    const cached = await readCachedConversations(tenantId, membershipId);
+    if (cached) {
+      setConversations(cached);
+    }
+
     try {
       // First, get conversations where user is a participant
       const { data: participantData, error: participantError } = await supabase
         .from('conversation_participants')
-        .select('conversation_id, last_read_at')
+        .select('conversation_id, last_read_at, pinned_at, archived_at')
         .eq('membership_id', membershipId);
 
       if (participantError) {
@@ -164,6 +185,12 @@ export function useConversations(
 
       const conversationIds = participantData.map((p) => p.conversation_id);
       const lastReadMap = new Map(participantData.map((p) => [p.conversation_id, p.last_read_at]));
+      const settingsMap = new Map(
+        participantData.map((p) => [
+          p.conversation_id,
+          { pinned_at: p.pinned_at ?? null, archived_at: p.archived_at ?? null },
+        ])
+      );
 
       // Fetch conversations with last message
       const { data: conversationsData, error: conversationsError } = await supabase
@@ -176,6 +203,8 @@ export function useConversations(
             name,
             small_group_id,
             ministry_id,
+            is_group,
+            direct_key,
             created_at,
             updated_at
           `
@@ -295,14 +324,19 @@ export function useConversations(
             last_message: lastMessage,
             unread_count: unreadCount,
             participant_names: participantNames,
+            ...settingsMap.get(conversation.id),
           } as ConversationWithLastMessage;
         })
       );
 
       setConversations(conversationsWithDetails);
+      void writeCachedConversations(tenantId, membershipId, conversationsWithDetails);
     } catch (err) {
       setError(err as Error);
-      setConversations([]);
+      // Offline opens keep showing the cached list
+      if (!cached) {
+        setConversations([]);
+      }
     } finally {
       setLoading(false);
     }
@@ -312,10 +346,63 @@ export function useConversations(
     void fetchConversations();
   }, [fetchConversations]);
 
+  const updateSettings = useCallback(
+    async (
+      conversationId: string,
+      settings: { pinned_at?: string | null; archived_at?: string | null }
+    ): Promise<boolean> => {
+      if (!tenantId || !membershipId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: updateError } = await supabase
+        .from('conversation_participants')
+        .update(settings)
+        .eq('conversation_id', conversationId)
+        .eq('membership_id', membershipId);
+
+      if (updateError) {
+        setError(updateError as unknown as Error);
+        return false;
+      }
+
+      setConversations((prev) =>
+        prev.map((conversation) =>
+          conversation.id === conversationId ? { ...conversation, ...settings } : conversation
+        )
+      );
+      return true;
+    },
+    [tenantId, membershipId]
+  );
+
+  const setPinned = useCallback(
+    (conversationId: string, pinned: boolean) =>
+      updateSettings(conversationId, { pinned_at: pinned ? new Date().toISOString() : null }),
+    [updateSettings]
+  );
+
+  const setArchived = useCallback(
+    (conversationId: string, archived: boolean) =>
+      updateSettings(conversationId, { archived_at: archived ? new Date().toISOString() : null }),
+    [updateSettings]
+  );
+
+  const { active, archived } = useMemo(
+    () => partitionArchivedConversations(allConversations),
+    [allConversations]
+  );
+
   return {
-    conversations,
+    conversations: active,
+    archivedConversations: archived,
     loading,
     error,
+    setPinned,
+    setArchived,
     refetch: fetchConversations,
   };
 }
@@ -0,0 +1,132 @@
+/**
+ * Hook for starting new conversations.
+ *
+ * - Direct chats go through the get_or_create_direct_conversation RPC, which
+ *   returns the existing chat when the pair already has one.
+ * - Group chats go through the create_group_conversation RPC, which makes the
+ *   current member the group's admin.
+ *
+ * Both run as RPCs because a new conversation is only readable by its creator
+ * once the participant rows exist.
+ */
+
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Maximum length of a group conversation name.
+ */
+export const MAX_CONVERSATION_NAME_LENGTH = 100;
+
+export interface CreateConversationState {
+  createDirectConversation: (otherMembershipId: string) => Promise<string | null>;
+  createGroupConversation: (name: string | null, membershipIds: string[]) => Promise<string | null>;
+  creating: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for creating direct and group conversations.
+ *
+ * @param tenantId - The active tenant ID
+ * @returns CreateConversationState with the create functions, which resolve to
+ *   the conversation ID or null on failure
+ *
+ * @example
+ * ```tsx
+ * function NewChat({ selectedIds }: { selectedIds: string[] }) {
+ *   const router = useRouter();
+ *   const { createDirectConversation, createGroupConversation } =
+ *     useCreateConversation(tenantId);
+ *
+ *   const handleCreate = async () => {
+ *     const conversationId =
+ *       selectedIds.length === 1
+ *         ? await createDirectConversation(selectedIds[0])
+ *         : await createGroupConversation(null, selectedIds);
+ *     if (conversationId) {
+ *       router.replace(`/chat/${conversationId}`);
+ *     }
+ *   };
+ * }
+ * ```
+ */
+export function useCreateConversation(tenantId: string | null): CreateConversationState {
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const createDirectConversation = useCallback(
+    async (otherMembershipId: string): Promise<string | null> => {
+      if (!tenantId || !otherMembershipId) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+
+      setCreating(true);
+      setError(null);
+
+      try {
+        const { data, error: rpcError } = await supabase.rpc('get_or_create_direct_conversation', {
+          p_tenant_id: tenantId,
+          p_other_membership_id: otherMembershipId,
+        });
+
+        if (rpcError) {
+          throw rpcError;
+        }
+
+        return typeof data === 'string' ? data : null;
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setCreating(false);
+      }
+    },
+    [tenantId]
+  );
+
+  const createGroupConversation = useCallback(
+    async (name: string | null, membershipIds: string[]): Promise<string | null> => {
+      const trimmedName = name?.trim() || null;
+      if (!tenantId || membershipIds.length === 0) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+      if (trimmedName && trimmedName.length > MAX_CONVERSATION_NAME_LENGTH) {
+        setError(new Error('Conversation name is too long'));
+        return null;
+      }
+
+      setCreating(true);
+      setError(null);
+
+      try {
+        const { data, error: rpcError } = await supabase.rpc('create_group_conversation', {
+          p_tenant_id: tenantId,
+          p_name: trimmedName,
+          p_membership_ids: membershipIds,
+        });
+
+        if (rpcError) {
+          throw rpcError;
+        }
+
+        return typeof data === 'string' ? data : null;
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setCreating(false);
+      }
+    },
+    [tenantId]
+  );
+
+  return {
+    createDirectConversation,
+    createGroupConversation,
+    creating,
+    error,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Hook for forwarding a message to other conversations.
+ *
+ * Forwarding goes through the forward_message RPC, which copies the message
+ * and re-links its attachments into each target conversation in one
+ * transaction under the member's RLS. Forwarded messages keep a reference to
+ * the original author, shown as "Forwarded from ..." in the bubble.
+ */
+
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { MessageWithSender } from '@/types/database';
+
+/**
+ * Maximum number of conversations per forward (matches forward_message in the database).
+ */
+export const MAX_FORWARD_TARGETS = 10;
+
+/**
+ * Columns to select for a forwarded message's original author, as a nested
+ * `forwarded_from:memberships!messages_forwarded_from_sender_id_fkey (...)` relation.
+ */
+export const FORWARDED_FROM_SELECT = `
+  id,
+  user:users!memberships_user_id_fkey (
+    display_name
+  )
+`;
+
+interface RawForwardedFromRow {
+  id: string;
+  user: { display_name: string | null } | null;
+}
+
+/**
+ * Map an original author selected with FORWARDED_FROM_SELECT.
+ */
+export function mapForwardedFromRow(row: unknown): MessageWithSender['forwarded_from'] {
+  const raw = (Array.isArray(row) ? row[0] : row) as RawForwardedFromRow | null | undefined;
+  if (!raw) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    display_name: raw.user?.display_name ?? null,
+  };
+}
+
+/**
+ * Whether a message can be forwarded. Event Chat messages stay with the
+ * members they were meant for; polls and system messages belong to their
+ * conversation.
+ */
+export function canForwardMessage(message: MessageWithSender): boolean {
+  return (
+    !message.deleted_at &&
+    !message.is_event_chat &&
+    !message.send_status &&
+    message.content_type !== 'poll' &&
+    message.content_type !== 'system'
+  );
+}
+
+export interface ForwardMessageState {
+  forwardMessage: (messageId: string, conversationIds: string[]) => Promise<string[] | null>;
+  forwarding: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for forwarding messages.
+ *
+ * @returns ForwardMessageState with the forward function, which resolves to
+ *   the new message IDs or null on failure
+ *
+ * @example
+ * ```tsx
+ * function ForwardButton({ message, targetIds }: Props) {
+ *   const { forwardMessage, forwarding } = useForwardMessage();
+ *
+ *   return (
+ *     <Button
+ *       onPress={() => forwardMessage(message.id, targetIds)}
+ *       disabled={forwarding || targetIds.length === 0}
+ *     >
+ *       Forward
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useForwardMessage(): ForwardMessageState {
+  const [forwarding, setForwarding] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const forwardMessage = useCallback(
+    async (messageId: string, conversationIds: string[]): Promise<string[] | null> => {
+      const targets = [...new Set(conversationIds)];
+      if (!messageId || targets.length === 0) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+      if (targets.length > MAX_FORWARD_TARGETS) {
+        setError(new Error('Too many conversations'));
+        return null;
+      }
+
+      setForwarding(true);
+      setError(null);
+
+      try {
+        const { data, error: rpcError } = await supabase.rpc('forward_message', {
+          p_message_id: messageId,
+          p_conversation_ids: targets,
+        });
+
+        if (rpcError) {
+          throw rpcError;
+        }
+
+        return Array.isArray(data) ? (data as string[]) : [];
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setForwarding(false);
+      }
+    },
+    []
+  );
+
+  return {
+    forwardMessage,
+    forwarding,
+    error,
+  };
+}
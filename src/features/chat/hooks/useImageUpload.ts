@@ -1,24 +1,25 @@
 /**
  * Hook for uploading images in chat.
  *
- * Provides a function to upload images, create messages with image content,
- * and track upload progress. Handles validation, error states, and cleanup.
+ * Provides a function to pick and validate images, send them as image
+ * messages through the outbox, and track progress. Handles validation,
+ * error states, and cleanup.
  *
  * See: claude_docs/17_images_view.md for architecture documentation
  */
 
 import { useCallback, useState } from 'react';
 import * as ImagePicker from 'expo-image-picker';
-import { supabase } from '@/lib/supabase';
 import {
-  uploadImage,
   validateImage,
   getMimeTypeFromExtension,
   ImageUploadError,
   ALLOWED_MIME_TYPES,
   type AllowedMimeType,
 } from '@/lib/imageUpload';
-import type { MessageWithSender, MessageContentType } from '@/types/database';
+import type { MessageWithSender } from '@/types/database';
+import { useOutboxStore } from '../store/outboxStore';
+import { createOutboxEntry, sendOutboxEntry } from './useMessageOutbox';
 
 /**
  * State returned by useImageUpload hook
@@ -105,97 +106,6 @@ export function useImageUpload(
     setError(null);
   }, []);
 
-  /**
-   * Create a message with image content type
-   */
-  const createImageMessage = useCallback(
-    async (imageUrl: string): Promise<MessageWithSender | null> => {
-      if (!conversationId || !tenantId || !senderMembershipId) {
-        throw new Error('Missing required parameters');
-      }
-
-      const { data, error: insertError } = await supabase
-        .from('messages')
-        .insert({
-          tenant_id: tenantId,
-          conversation_id: conversationId,
-          sender_id: senderMembershipId,
-          content: imageUrl,
-          content_type: 'image' as MessageContentType,
-        })
-        .select(
-          `
-          id,
-          tenant_id,
-          conversation_id,
-          sender_id,
-          parent_id,
-          content,
-          content_type,
-          is_event_chat,
-          created_at,
-          updated_at,
-          deleted_at,
-          sender:memberships!messages_sender_id_fkey (
-            id,
-            user:users!memberships_user_id_fkey (
-              id,
-              display_name,
-              photo_url
-            )
-          )
-        `
-        )
-        .single();
-
-      if (insertError) {
-        throw insertError;
-      }
-
-      // Update conversation updated_at to move it to top of list
-      await supabase
-        .from('conversations')
-        .update({ updated_at: new Date().toISOString() })
-        .eq('id', conversationId);
-
-      if (data) {
-        const sender = data.sender as {
-          id: string;
-          user: {
-            id: string;
-            display_name: string | null;
-            photo_url: string | null;
-          };
-        };
-
-        /* eslint-disable @typescript-eslint/no-unsafe-assignment */
-        return {
-          id: data.id,
-          tenant_id: data.tenant_id,
-          conversation_id: data.conversation_id,
-          sender_id: data.sender_id,
-          parent_id: data.parent_id,
-          content: data.content,
-          content_type: data.content_type as MessageContentType,
-          is_event_chat: data.is_event_chat,
-          created_at: data.created_at,
-          updated_at: data.updated_at,
-          deleted_at: data.deleted_at,
-          // Flatten user data into sender object to match MessageWithSender type
-          sender: {
-            id: sender?.id ?? '',
-            display_name: sender?.user?.display_name ?? null,
-            photo_url: sender?.user?.photo_url ?? null,
-          },
-        } as MessageWithSender;
-        /* eslint-enable @typescript-eslint/no-unsafe-assignment */
-      }
-
-      return null;
-    },
-    [conversationId, tenantId, senderMembershipId]
-  );
-
   /**
    * Upload an already selected image
    */
@@ -221,32 +131,20 @@ export function useImageUpload(
         if (!validation.valid) {
           throw validation.error;
         }
-
-        // Create a placeholder message ID (we'll update it after actual message creation)
-        const tempMessageId = crypto.randomUUID();
         setProgress(0.2);
 
-        // Upload image to storage
-        const uploadResult = await uploadImage({
+        // Send through the outbox, which uploads the file and retries failures
+        const entry = createOutboxEntry({
           tenantId,
-          messageId: tempMessageId,
-          imageUri,
-          fileName,
-          mimeType,
+          conversationId,
+          senderMembershipId,
+          content: fileName,
+          contentType: 'image',
+          // The size is recorded from the upload
+          attachment: { uri: imageUri, fileName, mimeType, fileSize: 0 },
         });
-        setProgress(0.7);
-
-        // Create message with image URL
-        const message = await createImageMessage(uploadResult.url);
-        setProgress(0.9);
-
-        // Update attachment to link to actual message ID
-        if (message) {
-          await supabase
-            .from('attachments')
-            .update({ message_id: message.id })
-            .eq('id', uploadResult.attachmentId);
-        }
+        useOutboxStore.getState().enqueue(entry);
+        const message = await sendOutboxEntry(entry.id);
 
         setProgress(1);
         return message;
@@ -261,7 +159,7 @@ export function useImageUpload(
         setUploading(false);
       }
     },
-    [conversationId, tenantId, senderMembershipId, createImageMessage]
+    [conversationId, tenantId, senderMembershipId]
   );
 
   /**
@@ -0,0 +1,140 @@
+/**
+ * Hook for the preview card of a link in a message.
+ *
+ * Previews come from the fetch-link-preview Edge Function, which fetches the
+ * page's OpenGraph tags server-side and caches them in link_previews. Results
+ * are also kept in memory for the session, so scrolling back over a message
+ * doesn't call the function again.
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { LinkPreview } from '@/types/database';
+
+// Preview (or null when the page has none) per URL, and requests in flight
+const previewCache = new Map<string, LinkPreview | null>();
+const pendingRequests = new Map<string, Promise<LinkPreview | null>>();
+
+async function requestLinkPreview(url: string): Promise<LinkPreview | null> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  const { data, error } = await supabase.functions.invoke('fetch-link-preview', {
+    body: { url },
+    headers: {
+      Authorization: `Bearer ${session?.access_token}`,
+    },
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as { preview: LinkPreview | null } | null)?.preview ?? null;
+}
+
+/**
+ * Fetch the preview for a URL once per session, sharing concurrent requests.
+ * Failed requests aren't cached so the next render can retry.
+ */
+function loadLinkPreview(url: string): Promise<LinkPreview | null> {
+  const pending = pendingRequests.get(url);
+  if (pending) {
+    return pending;
+  }
+
+  const request = requestLinkPreview(url)
+    .then((preview) => {
+      previewCache.set(url, preview);
+      return preview;
+    })
+    .finally(() => {
+      pendingRequests.delete(url);
+    });
+
+  pendingRequests.set(url, request);
+  return request;
+}
+
+/**
+ * Clear the in-memory preview cache.
+ */
+export function clearLinkPreviewCache(): void {
+  previewCache.clear();
+  pendingRequests.clear();
+}
+
+export interface LinkPreviewState {
+  preview: LinkPreview | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for fetching a link preview.
+ *
+ * @param url - URL to preview, or null for messages without a link
+ * @returns LinkPreviewState with the preview, or null when the page has none
+ *
+ * @example
+ * ```tsx
+ * function MessageLink({ content }: { content: string }) {
+ *   const { preview } = useLinkPreview(extractFirstUrl(content));
+ *
+ *   return preview ? <Text>{preview.title}</Text> : null;
+ * }
+ * ```
+ */
+export function useLinkPreview(url: string | null): LinkPreviewState {
+  const [preview, setPreview] = useState<LinkPreview | null>(() =>
+    url ? (previewCache.get(url) ?? null) : null
+  );
+  const [loading, setLoading] = useState(() => !!url && !previewCache.has(url));
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!url) {
+      setPreview(null);
+      setLoading(false);
+      return;
+    }
+
+    if (previewCache.has(url)) {
+      setPreview(previewCache.get(url) ?? null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    loadLinkPreview(url)
+      .then((result) => {
+        if (!cancelled) {
+          setPreview(result);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setPreview(null);
+          setError(err as Error);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return {
+    preview,
+    loading,
+    error,
+  };
+}
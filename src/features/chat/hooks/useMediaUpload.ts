@@ -3,14 +3,16 @@
  *
  * Provides functions to upload photos, videos, files, and camera captures.
  * Handles validation, error states, and cleanup.
+ * Picked files are queued in the message outbox with their message, so an
+ * upload interrupted by a network drop is retried like any other send.
  */
 
 import { useCallback, useState } from 'react';
 import * as ImagePicker from 'expo-image-picker';
 import * as DocumentPicker from 'expo-document-picker';
-import * as FileSystem from 'expo-file-system/legacy';
-import { supabase } from '@/lib/supabase';
 import type { MessageWithSender, MessageContentType } from '@/types/database';
+import { useOutboxStore } from '../store/outboxStore';
+import { createOutboxEntry, sendOutboxEntry } from './useMessageOutbox';
 
 // Allowed MIME types for different content types
 const _ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'] as const;
@@ -80,37 +82,6 @@ const CAMERA_OPTIONS: ImagePicker.ImagePickerOptions = {
   allowsEditing: true,
 };
 
-/**
- * Get storage bucket path based on content type
- */
-function getStoragePath(contentType: MessageContentType): string {
-  switch (contentType) {
-    case 'image':
-      return 'chat-images';
-    case 'video':
-      return 'chat-videos';
-    case 'file':
-      return 'chat-files';
-    default:
-      return 'chat-files';
-  }
-}
-
-/**
- * Generate a unique file path for storage
- */
-function generateStoragePath(
-  tenantId: string,
-  conversationId: string,
-  messageId: string,
-  fileName: string,
-  _contentType: MessageContentType
-): string {
-  const timestamp = Date.now();
-  const extension = fileName.split('.').pop() || 'bin';
-  return `${tenantId}/${conversationId}/${messageId}_${timestamp}.${extension}`;
-}
-
 /**
  * Validate file size (max 25MB for videos, 10MB for files, 5MB for images)
  */
@@ -148,191 +119,6 @@ function validateFileSize(
   return { valid: true };
 }
 
-/**
- * Convert a file URI to a Uint8Array for upload.
- * Uses expo-file-system to read the actual file data.
- */
-async function uriToUint8Array(uri: string): Promise<Uint8Array> {
-  // Read the file as base64
-  const base64 = await FileSystem.readAsStringAsync(uri, {
-    encoding: 'base64',
-  });
-
-  // Convert base64 to binary string
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-
-  return bytes;
-}
-
-/**
- * Upload a file to Supabase storage
- */
-async function uploadFileToStorage(
-  tenantId: string,
-  conversationId: string,
-  messageId: string,
-  fileUri: string,
-  fileName: string,
-  mimeType: string,
-  contentType: MessageContentType
-): Promise<{ url: string; attachmentId: string }> {
-  const storagePath = generateStoragePath(
-    tenantId,
-    conversationId,
-    messageId,
-    fileName,
-    contentType
-  );
-
-  console.log('[uploadFileToStorage] Reading file from URI:', fileUri.substring(0, 50) + '...');
-
-  // Convert URI to Uint8Array using expo-file-system
-  const fileData = await uriToUint8Array(fileUri);
-
-  console.log('[uploadFileToStorage] File size:', fileData.length, 'bytes');
-
-  // Upload to Supabase storage (accepts Uint8Array as ArrayBufferView)
-  const { data: uploadData, error: uploadError } = await supabase.storage
-    .from(getStoragePath(contentType))
-    .upload(storagePath, fileData, {
-      contentType: mimeType,
-      upsert: true,
-    });
-
-  if (uploadError) {
-    console.error('[uploadFileToStorage] Upload error:', uploadError);
-    throw uploadError;
-  }
-
-  console.log('[uploadFileToStorage] Upload successful:', uploadData.path);
-
-  // Get public URL
-  const { data: urlData } = supabase.storage
-    .from(getStoragePath(contentType))
-    .getPublicUrl(uploadData.path);
-
-  console.log('[uploadFileToStorage] Public URL:', urlData.publicUrl);
-
-  // Create attachment record
-  const { data: attachmentData, error: attachmentError } = await supabase
-    .from('attachments')
-    .insert({
-      tenant_id: tenantId,
-      message_id: messageId,
-      file_name: fileName,
-      url: urlData.publicUrl,
-      file_size: fileData.length,
-      file_type: mimeType,
-    })
-    .select('id')
-    .single<{ id: string }>();
-
-  if (attachmentError) {
-    console.error('[uploadFileToStorage] Attachment insert error:', attachmentError);
-    throw attachmentError;
-  }
-
-  return {
-    url: urlData.publicUrl,
-    attachmentId: attachmentData?.id ?? '',
-  };
-}
-
-/**
- * Create a message with media content type
- */
-async function createMediaMessage(
-  conversationId: string,
-  tenantId: string,
-  senderMembershipId: string,
-  contentUrl: string,
-  contentType: MessageContentType,
-  fileName?: string
-): Promise<MessageWithSender | null> {
-  const { data, error: insertError } = await supabase
-    .from('messages')
-    .insert({
-      tenant_id: tenantId,
-      conversation_id: conversationId,
-      sender_id: senderMembershipId,
-      content: fileName ? `${fileName}|${contentUrl}` : contentUrl,
-      content_type: contentType,
-    })
-    .select(
-      `
-      id,
-      tenant_id,
-      conversation_id,
-      sender_id,
-      parent_id,
-      content,
-      content_type,
-      is_event_chat,
-      created_at,
-      updated_at,
-      deleted_at,
-      sender:memberships!messages_sender_id_fkey (
-        id,
-        user:users!memberships_user_id_fkey (
-          id,
-          display_name,
-          photo_url
-        )
-      )
-    `
-    )
-    .single();
-
-  if (insertError) {
-    throw insertError;
-  }
-
-  // Update conversation updated_at to move it to top of list
-  await supabase
-    .from('conversations')
-    .update({ updated_at: new Date().toISOString() })
-    .eq('id', conversationId);
-
-  if (data) {
-    const sender = data.sender as {
-      id: string;
-      user: {
-        id: string;
-        display_name: string | null;
-        photo_url: string | null;
-      };
-    };
-
-    /* eslint-disable @typescript-eslint/no-unsafe-assignment */
-    return {
-      id: data.id,
-      tenant_id: data.tenant_id,
-      conversation_id: data.conversation_id,
-      sender_id: data.sender_id,
-      parent_id: data.parent_id,
-      content: data.content,
-      content_type: data.content_type as MessageContentType,
-      is_event_chat: data.is_event_chat,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-      deleted_at: data.deleted_at,
-      // Flatten user data into sender object to match MessageWithSender type
-      sender: {
-        id: sender?.id ?? '',
-        display_name: sender?.user?.display_name ?? null,
-        photo_url: sender?.user?.photo_url ?? null,
-      },
-    } as MessageWithSender;
-    /* eslint-enable @typescript-eslint/no-unsafe-assignment */
-  }
-
-  return null;
-}
-
 /**
  * Hook for uploading media in a conversation.
  *
@@ -367,6 +153,32 @@ export function useMediaUpload(
     return true;
   }, [conversationId, tenantId, senderMembershipId]);
 
+  /**
+   * Queue a picked file with its message and try to send it right away
+   */
+  const sendMedia = useCallback(
+    async (
+      contentType: MessageContentType,
+      uri: string,
+      fileName: string,
+      mimeType: string,
+      fileSize: number
+    ): Promise<MessageWithSender | null> => {
+      const entry = createOutboxEntry({
+        tenantId: tenantId!,
+        conversationId: conversationId!,
+        senderMembershipId: senderMembershipId!,
+        content: fileName,
+        contentType,
+        attachment: { uri, fileName, mimeType, fileSize },
+      });
+      useOutboxStore.getState().enqueue(entry);
+
+      return sendOutboxEntry(entry.id);
+    },
+    [conversationId, tenantId, senderMembershipId]
+  );
+
   /**
    * Pick and upload a photo from library
    */
@@ -421,105 +233,8 @@ export function useMediaUpload(
         return null;
       }
 
-      // Upload and create message
-      console.log('[pickAndUploadPhoto] Creating message first...');
-      // Create message first to get a real UUID for the attachment
-      const tempUrl = `temp://${fileName}`;
-      const message = await createMediaMessage(
-        conversationId!,
-        tenantId!,
-        senderMembershipId!,
-        tempUrl,
-        'image',
-        fileName
-      );
-      console.log('[pickAndUploadPhoto] Message created:', message?.id);
-
-      if (!message) {
-        throw new Error('Failed to create message');
-      }
-
-      console.log('[pickAndUploadPhoto] Starting file upload...');
-      // Upload file with real message ID
-      const uploadResult = await uploadFileToStorage(
-        tenantId!,
-        conversationId!,
-        message.id, // Use real message ID now
-        asset.uri,
-        fileName,
-        mimeType,
-        'image'
-      );
-      console.log('[pickAndUploadPhoto] Upload complete:', uploadResult.url);
-
-      // Update message content with actual file URL
-      const { error: updateError, data: updatedMessage } = await supabase
-        .from('messages')
-        .update({ content: `${fileName}|${uploadResult.url}` })
-        .eq('id', message.id)
-        .select(
-          `
-          id,
-          tenant_id,
-          conversation_id,
-          sender_id,
-          parent_id,
-          content,
-          content_type,
-          is_event_chat,
-          created_at,
-          updated_at,
-          deleted_at,
-          sender:memberships!messages_sender_id_fkey (
-            id,
-            user:users!memberships_user_id_fkey (
-              id,
-              display_name,
-              photo_url
-            )
-          )
-        `
-        )
-        .single();
-
-      if (updateError) {
-        console.error('[pickAndUploadPhoto] Failed to update message URL:', updateError);
-      }
-
-      // Return the updated message with the correct URL
-      if (updatedMessage) {
-        const sender = updatedMessage.sender as {
-          id: string;
-          user: {
-            id: string;
-            display_name: string | null;
-            photo_url: string | null;
-          };
-        };
-        /* eslint-disable @typescript-eslint/no-unsafe-assignment */
-        return {
-          id: updatedMessage.id,
-          tenant_id: updatedMessage.tenant_id,
-          conversation_id: updatedMessage.conversation_id,
-          sender_id: updatedMessage.sender_id,
-          parent_id: updatedMessage.parent_id,
-          content: updatedMessage.content,
-          content_type: updatedMessage.content_type as MessageContentType,
-          is_event_chat: updatedMessage.is_event_chat,
-          created_at: updatedMessage.created_at,
-          updated_at: updatedMessage.updated_at,
-          deleted_at: updatedMessage.deleted_at,
-          // Flatten user data into sender object to match MessageWithSender type
-          sender: {
-            id: sender?.id ?? '',
-            display_name: sender?.user?.display_name ?? null,
-            photo_url: sender?.user?.photo_url ?? null,
-          },
-        } as MessageWithSender;
-        /* eslint-enable @typescript-eslint/no-unsafe-assignment */
-      }
-
-      return message;
+      // Queue the message; the outbox uploads the file and retries on failure
+      return await sendMedia('image', asset.uri, fileName, mimeType, fileSize);
     } catch (err) {
       console.error('[pickAndUploadPhoto] Error:', err);
       const uploadError = new Error(err instanceof Error ? err.message : 'Failed to upload photo');
@@ -528,7 +243,7 @@ export function useMediaUpload(
     } finally {
       setUploading(false);
     }
-  }, [conversationId, tenantId, senderMembershipId, validateParams]);
+  }, [validateParams, sendMedia]);
 
   /**
    * Pick and upload a video from library
@@ -566,39 +281,8 @@ export function useMediaUpload(
         return null;
       }
 
-      // Create message first to get a real UUID
-      const tempUrl = `temp://${fileName}`;
-      const message = await createMediaMessage(
-        conversationId!,
-        tenantId!,
-        senderMembershipId!,
-        tempUrl,
-        'video',
-        fileName
-      );
-
-      if (!message) {
-        throw new Error('Failed to create message');
-      }
-
-      // Upload file with real message ID
-      const uploadResult = await uploadFileToStorage(
-        tenantId!,
-        conversationId!,
-        message.id,
-        asset.uri,
-        fileName,
-        mimeType,
-        'video'
-      );
-
-      // Update message content with actual file URL
-      await supabase
-        .from('messages')
-        .update({ content: `${fileName}|${uploadResult.url}` })
-        .eq('id', message.id);
-
-      return message;
+      // Queue the message; the outbox uploads the file and retries on failure
+      return await sendMedia('video', asset.uri, fileName, mimeType, fileSize);
     } catch (err) {
       const uploadError = new Error(err instanceof Error ? err.message : 'Failed to upload video');
       setError(uploadError);
@@ -606,7 +290,7 @@ export function useMediaUpload(
     } finally {
       setUploading(false);
     }
-  }, [conversationId, tenantId, senderMembershipId, validateParams]);
+  }, [validateParams, sendMedia]);
 
   /**
    * Pick and upload a file
@@ -643,39 +327,8 @@ export function useMediaUpload(
         return null;
       }
 
-      // Create message first to get a real UUID
-      const tempUrl = `temp://${fileName}`;
-      const message = await createMediaMessage(
-        conversationId!,
-        tenantId!,
-        senderMembershipId!,
-        tempUrl,
-        'file',
-        fileName
-      );
-
-      if (!message) {
-        throw new Error('Failed to create message');
-      }
-
-      // Upload file with real message ID
-      const uploadResult = await uploadFileToStorage(
-        tenantId!,
-        conversationId!,
-        message.id,
-        asset.uri,
-        fileName,
-        mimeType,
-        'file'
-      );
-
-      // Update message content with actual file URL
-      await supabase
-        .from('messages')
-        .update({ content: `${fileName}|${uploadResult.url}` })
-        .eq('id', message.id);
-
-      return message;
+      // Queue the message; the outbox uploads the file and retries on failure
+      return await sendMedia('file', asset.uri, fileName, mimeType, asset.size ?? 0);
     } catch (err) {
       const uploadError = new Error(err instanceof Error ? err.message : 'Failed to upload file');
       setError(uploadError);
@@ -683,7 +336,7 @@ export function useMediaUpload(
     } finally {
       setUploading(false);
     }
-  }, [conversationId, tenantId, senderMembershipId, validateParams]);
+  }, [validateParams, sendMedia]);
 
   /**
    * Open camera and upload captured photo/video
@@ -727,39 +380,8 @@ export function useMediaUpload(
         return null;
       }
 
-      // Create message first to get a real UUID
-      const tempUrl = `temp://${fileName}`;
-      const message = await createMediaMessage(
-        conversationId!,
-        tenantId!,
-        senderMembershipId!,
-        tempUrl,
-        contentType,
-        fileName
-      );
-
-      if (!message) {
-        throw new Error('Failed to create message');
-      }
-
-      // Upload file with real message ID
-      const uploadResult = await uploadFileToStorage(
-        tenantId!,
-        conversationId!,
-        message.id,
-        asset.uri,
-        fileName,
-        mimeType,
-        contentType
-      );
-
-      // Update message content with actual file URL
-      await supabase
-        .from('messages')
-        .update({ content: `${fileName}|${uploadResult.url}` })
-        .eq('id', message.id);
-
-      return message;
+      // Queue the message; the outbox uploads the file and retries on failure
+      return await sendMedia(contentType, asset.uri, fileName, mimeType, fileSize);
     } catch (err) {
       const uploadError = new Error(
         err instanceof Error ? err.message : 'Failed to capture from camera'
@@ -769,7 +391,7 @@ export function useMediaUpload(
     } finally {
       setUploading(false);
     }
-  }, [conversationId, tenantId, senderMembershipId, validateParams]);
+  }, [validateParams, sendMedia]);
 
   return {
     pickAndUploadPhoto,
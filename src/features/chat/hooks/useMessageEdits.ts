@@ -0,0 +1,233 @@
+/**
+ * Hook for editing and deleting the current member's messages.
+ *
+ * Members can change their own messages for a limited time after sending,
+ * configured per tenant in `tenants.settings.message_edit_window_minutes`.
+ * The database enforces the same window and records each edit in the
+ * admin-only `message_edits` table.
+ */
+
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { Json, MessageEdit, MessageWithSender } from '@/types/database';
+
+/**
+ * Edit window used when the tenant has not configured one.
+ */
+export const DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+/**
+ * Columns returned after an edit or delete, merged into the local message.
+ */
+const EDITED_MESSAGE_SELECT = 'id, content, edited_at, updated_at, deleted_at';
+
+export type EditedMessageFields = Pick<
+  MessageWithSender,
+  'id' | 'content' | 'edited_at' | 'updated_at' | 'deleted_at'
+>;
+
+export interface MessageEditsState {
+  editMessage: (messageId: string, content: string) => Promise<EditedMessageFields | null>;
+  deleteMessage: (messageId: string) => Promise<EditedMessageFields | null>;
+  pending: boolean;
+  error: Error | null;
+}
+
+export interface MessageEditHistoryState {
+  fetchEditHistory: (messageId: string) => Promise<MessageEdit[]>;
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Read the tenant's edit window from its settings.
+ * A value of 0 disables editing and deleting.
+ */
+export function getMessageEditWindowMinutes(settings: Json | null | undefined): number {
+  if (settings && typeof settings === 'object' && !Array.isArray(settings)) {
+    const value = settings.message_edit_window_minutes;
+    if (typeof value === 'number' && value >= 0) {
+      return value;
+    }
+  }
+  return DEFAULT_MESSAGE_EDIT_WINDOW_MINUTES;
+}
+
+/**
+ * Whether the member may still delete a message: it must be their own,
+ * not a system message or tombstone, and inside the edit window.
+ */
+export function canDeleteMessage(
+  message: MessageWithSender,
+  membershipId: string | null | undefined,
+  windowMinutes: number,
+  now: number = Date.now()
+): boolean {
+  if (!membershipId || message.sender_id !== membershipId) {
+    return false;
+  }
+  if (message.deleted_at || message.content_type === 'system') {
+    return false;
+  }
+  return now - new Date(message.created_at).getTime() < windowMinutes * 60 * 1000;
+}
+
+/**
+ * Whether the member may still edit a message. Only text messages can be edited.
+ */
+export function canEditMessage(
+  message: MessageWithSender,
+  membershipId: string | null | undefined,
+  windowMinutes: number,
+  now: number = Date.now()
+): boolean {
+  return (
+    message.content_type === 'text' && canDeleteMessage(message, membershipId, windowMinutes, now)
+  );
+}
+
+/**
+ * Hook for editing and soft-deleting the current member's messages.
+ *
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @param membershipId - The current user's membership ID
+ * @returns MessageEditsState with editMessage, deleteMessage, pending, and error
+ *
+ * @example
+ * ```tsx
+ * const { editMessage, deleteMessage } = useMessageEdits(tenantId, membershipId);
+ *
+ * const handleDelete = async (message: MessageWithSender) => {
+ *   const updated = await deleteMessage(message.id);
+ *   if (updated) {
+ *     setMessages((prev) => updateMessage(prev, updated));
+ *   }
+ * };
+ * ```
+ */
+export function useMessageEdits(
+  tenantId: string | null,
+  membershipId: string | null
+): MessageEditsState {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const applyUpdate = useCallback(
+    async (
+      messageId: string,
+      values: { content: string } | { deleted_at: string }
+    ): Promise<EditedMessageFields | null> => {
+      if (!tenantId || !membershipId || !messageId) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+
+      setPending(true);
+      setError(null);
+
+      try {
+        const { data, error: updateError } = await supabase
+          .from('messages')
+          .update(values)
+          .eq('id', messageId)
+          .eq('tenant_id', tenantId)
+          .eq('sender_id', membershipId)
+          .select(EDITED_MESSAGE_SELECT)
+          .single();
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        return data as EditedMessageFields;
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setPending(false);
+      }
+    },
+    [tenantId, membershipId]
+  );
+
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      const trimmed = content.trim();
+      if (!trimmed) {
+        setError(new Error('Message content cannot be empty'));
+        return null;
+      }
+      return applyUpdate(messageId, { content: trimmed });
+    },
+    [applyUpdate]
+  );
+
+  const deleteMessage = useCallback(
+    (messageId: string) => applyUpdate(messageId, { deleted_at: new Date().toISOString() }),
+    [applyUpdate]
+  );
+
+  return {
+    editMessage,
+    deleteMessage,
+    pending,
+    error,
+  };
+}
+
+/**
+ * Hook for reading a message's edit history. Only admins can read
+ * `message_edits`; for other members RLS returns no rows.
+ *
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @returns MessageEditHistoryState with fetchEditHistory, loading, and error
+ *
+ * @example
+ * ```tsx
+ * const { fetchEditHistory } = useMessageEditHistory(tenantId);
+ * const edits = await fetchEditHistory(message.id); // newest first
+ * ```
+ */
+export function useMessageEditHistory(tenantId: string | null): MessageEditHistoryState {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchEditHistory = useCallback(
+    async (messageId: string): Promise<MessageEdit[]> => {
+      if (!tenantId || !messageId) {
+        setError(new Error('Missing required parameters'));
+        return [];
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('message_edits')
+          .select('*')
+          .eq('message_id', messageId)
+          .eq('tenant_id', tenantId)
+          .order('created_at', { ascending: false });
+
+        if (fetchError) {
+          throw fetchError;
+        }
+
+        return (data ?? []) as MessageEdit[];
+      } catch (err) {
+        setError(err as Error);
+        return [];
+      } finally {
+        setLoading(false);
+      }
+    },
+    [tenantId]
+  );
+
+  return {
+    fetchEditHistory,
+    loading,
+    error,
+  };
+}
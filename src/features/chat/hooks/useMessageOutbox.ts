@@ -0,0 +1,664 @@
+/**
+ * Hooks and helpers for the chat outbox.
+ *
+ * Every message is written to the persisted outbox before it is sent, under a
+ * client-generated ID that becomes the message's ID. Failed attempts are
+ * retried with exponential backoff, including after an app restart, and the
+ * chat screens show queued messages as pending or failed copies until the
+ * server copy (usually the realtime echo) replaces them.
+ *
+ * Entries belong to the user who wrote them, and only the signed-in user's
+ * entries are sent or shown.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { AppState } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import type { MessageContentType, MessageMention, MessageWithSender } from '@/types/database';
+import type { QuoteAttachment } from '../store/chatStore';
+import { useOutboxStore, type OutboxAttachment, type OutboxEntry } from '../store/outboxStore';
+import { createAttachmentRecord, uploadMediaFile } from '../utils/mediaStorage';
+
+/**
+ * Automatic attempts before a message is marked failed and needs a manual retry.
+ */
+export const MAX_SEND_ATTEMPTS = 8;
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Postgres unique violation, returned when an earlier attempt already inserted the message.
+ */
+const UNIQUE_VIOLATION = '23505';
+
+const REPLY_TO_REPLY_ERROR = 'Cannot reply to a reply';
+
+const MESSAGE_SELECT = `
+  id,
+  tenant_id,
+  conversation_id,
+  sender_id,
+  parent_id,
+  thread_id,
+  quoted_message_id,
+  content,
+  content_type,
+  is_event_chat,
+  created_at,
+  updated_at,
+  deleted_at,
+  edited_at,
+  sender:memberships!messages_sender_id_fkey (
+    id,
+    user:users!memberships_user_id_fkey (
+      id,
+      display_name,
+      photo_url
+    )
+  )
+`;
+
+/**
+ * Type for the raw data returned from Supabase when selecting a message
+ * with sender relation joined.
+ */
+interface MessageSelectResult {
+  id: string;
+  tenant_id: string;
+  conversation_id: string;
+  sender_id: string;
+  parent_id: string | null;
+  thread_id: string | null;
+  quoted_message_id: string | null;
+  content: string | null;
+  content_type: string;
+  is_event_chat: boolean;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  edited_at: string | null;
+  sender: {
+    id: string;
+    user: {
+      id: string;
+      display_name: string | null;
+      photo_url: string | null;
+    };
+  };
+}
+
+/**
+ * Fields for a new outbox entry. Everything else starts from its initial state.
+ */
+export interface NewOutboxEntry {
+  tenantId: string;
+  conversationId: string;
+  senderMembershipId: string;
+  parentId?: string | null;
+  content: string;
+  contentType?: MessageContentType;
+  excludedMembershipIds?: string[];
+  mentions?: MessageMention[];
+  quoteAttachment?: QuoteAttachment | null;
+  attachment?: Omit<OutboxAttachment, 'uploadedUrl'> | null;
+}
+
+export interface OutboxMessagesState {
+  /** The given messages followed by queued messages that aren't in it yet */
+  messages: MessageWithSender[];
+  /** Send a failed message again, starting a fresh set of attempts */
+  retryMessage: (messageId: string) => void;
+  /** Remove an unsent message from the outbox */
+  discardMessage: (messageId: string) => void;
+}
+
+/**
+ * Delay before the next attempt: 2s, 4s, 8s, ... capped at one minute.
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Constraint and permission errors fail the same way on every attempt.
+ */
+function isRetryableSendError(err: unknown): boolean {
+  if (err instanceof Error && err.message === REPLY_TO_REPLY_ERROR) {
+    return false;
+  }
+  const code = (err as { code?: unknown } | null)?.code;
+  return !(typeof code === 'string' && (code.startsWith('23') || code.startsWith('42')));
+}
+
+/**
+ * Create an outbox entry with a new client-generated message ID.
+ */
+export function createOutboxEntry(params: NewOutboxEntry): OutboxEntry {
+  return {
+    id: crypto.randomUUID(),
+    userId: useOutboxStore.getState().userId,
+    tenantId: params.tenantId,
+    conversationId: params.conversationId,
+    senderMembershipId: params.senderMembershipId,
+    parentId: params.parentId ?? null,
+    content: params.content,
+    contentType: params.contentType ?? 'text',
+    excludedMembershipIds: params.excludedMembershipIds ?? [],
+    mentions: params.mentions ?? [],
+    quoteAttachment: params.quoteAttachment ?? null,
+    attachment: params.attachment ? { ...params.attachment, uploadedUrl: null } : null,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    inserted: false,
+    lastError: null,
+    createdAt: new Date().toISOString(),
+    message: null,
+  };
+}
+
+/**
+ * Build the message shown for an outbox entry. Sent entries show the server
+ * copy; the rest show an optimistic copy marked pending or failed.
+ */
+export function toOptimisticMessage(entry: OutboxEntry): MessageWithSender {
+  if (entry.status === 'sent' && entry.message) {
+    return entry.message;
+  }
+
+  const { attachment, quoteAttachment } = entry;
+
+  return {
+    id: entry.id,
+    tenant_id: entry.tenantId,
+    conversation_id: entry.conversationId,
+    sender_id: entry.senderMembershipId,
+    parent_id: entry.parentId,
+    thread_id: null,
+    quoted_message_id: quoteAttachment?.messageId ?? null,
+    // Media shows the local file until the upload finishes
+    content: attachment
+      ? `${attachment.fileName}|${attachment.uploadedUrl ?? attachment.uri}`
+      : entry.content,
+    content_type: entry.contentType,
+    is_event_chat: entry.excludedMembershipIds.length > 0,
+    created_at: entry.createdAt,
+    updated_at: entry.createdAt,
+    deleted_at: null,
+    edited_at: null,
+    forwarded_from_message_id: null,
+    forwarded_from_sender_id: null,
+    sender: {
+      id: entry.senderMembershipId,
+      display_name: null,
+      photo_url: null,
+    },
+    quoted_message: quoteAttachment
+      ? {
+          id: quoteAttachment.messageId,
+          content: quoteAttachment.content,
+          sender: {
+            id: '', // Not available in quoteAttachment
+            display_name: quoteAttachment.senderName,
+          },
+        }
+      : null,
+    mentions: entry.mentions,
+    send_status: entry.status === 'failed' ? 'failed' : 'pending',
+  };
+}
+
+/**
+ * Append queued messages that aren't in the list yet. Once the server copy
+ * arrives (realtime echo or refetch) it takes the place of the optimistic one.
+ */
+export function mergeOutboxMessages(
+  messages: MessageWithSender[],
+  entries: OutboxEntry[]
+): MessageWithSender[] {
+  const messageIds = new Set(messages.map((message) => message.id));
+  const queued = entries.filter((entry) => !messageIds.has(entry.id)).map(toOptimisticMessage);
+
+  return queued.length > 0 ? [...messages, ...queued] : messages;
+}
+
+/**
+ * Transform the selected row to match MessageWithSender.
+ */
+function toMessageWithSender(
+  data: MessageSelectResult,
+  quoteAttachment: QuoteAttachment | null,
+  mentions: MessageMention[]
+): MessageWithSender {
+  return {
+    id: data.id,
+    tenant_id: data.tenant_id,
+    conversation_id: data.conversation_id,
+    sender_id: data.sender_id,
+    parent_id: data.parent_id,
+    thread_id: data.thread_id,
+    quoted_message_id: data.quoted_message_id,
+    content: data.content,
+    content_type: data.content_type as MessageContentType,
+    is_event_chat: data.is_event_chat,
+    created_at: data.created_at,
+    updated_at: data.updated_at,
+    deleted_at: data.deleted_at,
+    edited_at: data.edited_at,
+    // Messages sent from the composer are never forwards
+    forwarded_from_message_id: null,
+    forwarded_from_sender_id: null,
+    // Flatten user data into sender object to match MessageWithSender type
+    sender: {
+      id: data.sender?.id ?? '',
+      display_name: data.sender?.user?.display_name ?? null,
+      photo_url: data.sender?.user?.photo_url ?? null,
+    },
+    // Use quoteAttachment data instead of joining quoted_message table
+    quoted_message: quoteAttachment
+      ? {
+          id: quoteAttachment.messageId,
+          content: quoteAttachment.content,
+          sender: {
+            id: '', // Not available in quoteAttachment
+            display_name: quoteAttachment.senderName,
+          },
+        }
+      : null,
+    mentions,
+  };
+}
+
+/**
+ * Fetch a message that an earlier attempt already inserted.
+ */
+async function fetchSentMessage(entry: OutboxEntry): Promise<MessageSelectResult> {
+  const { data, error: fetchError } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', entry.id)
+    .eq('tenant_id', entry.tenantId)
+    .single<MessageSelectResult>();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  return data;
+}
+
+/**
+ * Run the remaining steps for an entry: upload its file, insert the message
+ * with its Event Chat exclusions and mentions (one send_message transaction),
+ * then its attachment row. Every step is safe to repeat, so a retry picks up
+ * wherever the last attempt stopped.
+ */
+async function deliverOutboxEntry(entry: OutboxEntry): Promise<MessageWithSender> {
+  const { updateEntry } = useOutboxStore.getState();
+  let content = entry.content;
+
+  if (entry.parentId && !entry.inserted) {
+    // Check if parent message already has a parent (prevent nested threads)
+    const { data: parentMessage, error: parentError } = await supabase
+      .from('messages')
+      .select('parent_id')
+      .eq('id', entry.parentId)
+      .eq('tenant_id', entry.tenantId)
+      .single();
+
+    if (parentError) {
+      throw new Error('Failed to verify parent message');
+    }
+
+    if (parentMessage?.parent_id) {
+      throw new Error(REPLY_TO_REPLY_ERROR);
+    }
+  }
+
+  let attachment = entry.attachment;
+  if (attachment) {
+    if (!attachment.uploadedUrl) {
+      const uploaded = await uploadMediaFile(
+        entry.tenantId,
+        entry.conversationId,
+        entry.id,
+        attachment.uri,
+        attachment.fileName,
+        attachment.mimeType,
+        entry.contentType
+      );
+      attachment = { ...attachment, uploadedUrl: uploaded.url, fileSize: uploaded.fileSize };
+      updateEntry(entry.id, { attachment });
+    }
+    content = `${attachment.fileName}|${attachment.uploadedUrl}`;
+  }
+
+  if (!entry.inserted) {
+    // Exclusions and mentions commit with the message, so the messages
+    // webhook always sees them
+    const { error: sendError } = await supabase.rpc('send_message', {
+      p_message_id: entry.id,
+      p_tenant_id: entry.tenantId,
+      p_conversation_id: entry.conversationId,
+      p_sender_id: entry.senderMembershipId,
+      p_content: content,
+      p_content_type: entry.contentType,
+      p_parent_id: entry.parentId,
+      p_quoted_message_id: entry.quoteAttachment?.messageId || null,
+      p_excluded_membership_ids: entry.excludedMembershipIds,
+      p_mentions: entry.mentions.map((mention) => ({
+        membership_id: mention.membership_id,
+        mention_type: mention.mention_type,
+      })),
+    });
+
+    // A duplicate means the send landed on an earlier attempt whose response was lost
+    if (sendError && sendError.code !== UNIQUE_VIOLATION) {
+      throw sendError;
+    }
+    updateEntry(entry.id, { inserted: true });
+  }
+
+  const data = await fetchSentMessage(entry);
+
+  if (attachment?.uploadedUrl) {
+    await createAttachmentRecord(
+      entry.tenantId,
+      entry.id,
+      attachment.fileName,
+      attachment.uploadedUrl,
+      attachment.fileSize,
+      attachment.mimeType
+    );
+  }
+
+  if (!entry.parentId) {
+    // Update conversation updated_at to move it to top of list
+    await supabase
+      .from('conversations')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', entry.conversationId);
+  }
+
+  return toMessageWithSender(data, entry.quoteAttachment, entry.mentions);
+}
+
+/**
+ * Attempt to send one outbox entry now.
+ * On failure the entry is rescheduled with backoff (or marked failed) and the
+ * error is rethrown.
+ *
+ * @returns The sent message, or null if the entry is gone or already in flight
+ */
+export async function processOutboxEntry(id: string): Promise<MessageWithSender | null> {
+  const { entries, updateEntry } = useOutboxStore.getState();
+  const entry = entries.find((e) => e.id === id);
+
+  if (!entry || entry.status === 'sending') {
+    return null;
+  }
+  if (entry.status === 'sent') {
+    return entry.message;
+  }
+
+  updateEntry(id, { status: 'sending' });
+
+  try {
+    const message = await deliverOutboxEntry(entry);
+    sendErrors.delete(id);
+    updateEntry(id, { status: 'sent', message, lastError: null });
+    return message;
+  } catch (err) {
+    sendErrors.set(id, err);
+    const attempts = entry.attempts + 1;
+    const failed = attempts >= MAX_SEND_ATTEMPTS || !isRetryableSendError(err);
+    updateEntry(id, {
+      status: failed ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Errors from the latest failed attempt of each entry, for sendOutboxEntry callers.
+ */
+const sendErrors = new Map<string, unknown>();
+
+/**
+ * Whether an entry should be sent now for the signed-in user.
+ */
+function isDue(entry: OutboxEntry, userId: string | null, now: number): boolean {
+  return (
+    !!userId && entry.userId === userId && entry.status === 'pending' && entry.nextAttemptAt <= now
+  );
+}
+
+/**
+ * Send due entries one at a time until none are left.
+ */
+async function drainOutbox(): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    const { entries, userId } = useOutboxStore.getState();
+    const next = entries.find((entry) => isDue(entry, userId, now));
+
+    if (!next) {
+      return;
+    }
+
+    try {
+      await processOutboxEntry(next.id);
+    } catch (err) {
+      console.error('[outbox] Send attempt failed:', err);
+    }
+  }
+}
+
+/**
+ * Send every entry that is due, oldest first, one at a time so messages keep
+ * their order. Calls made while a flush is running wait for that flush, which
+ * also picks up anything enqueued in the meantime.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = drainOutbox().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Send a newly enqueued entry through the outbox, behind any earlier entries.
+ * Rejects with the attempt's error if the entry's first attempt fails; it
+ * stays queued for retries either way.
+ *
+ * @returns The sent message, or null if the entry was discarded
+ */
+export async function sendOutboxEntry(id: string): Promise<MessageWithSender | null> {
+  for (;;) {
+    await flushOutbox();
+
+    const { entries, userId } = useOutboxStore.getState();
+    const entry = entries.find((e) => e.id === id);
+
+    if (!entry) {
+      return null;
+    }
+    if (entry.status === 'sent') {
+      return entry.message;
+    }
+    // Enqueued just as the last flush finished; flush again
+    if (entry.attempts === 0 && isDue(entry, userId, Date.now())) {
+      continue;
+    }
+
+    throw sendErrors.get(id) ?? new Error(entry.lastError ?? 'Message was not sent');
+  }
+}
+
+/**
+ * Start a failed entry over with a fresh set of attempts.
+ */
+export function retryOutboxEntry(id: string): void {
+  useOutboxStore.getState().updateEntry(id, {
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError: null,
+  });
+  void flushOutbox();
+}
+
+/**
+ * Hook that keeps the outbox draining while the app runs: it wakes up when
+ * the next retry is due and whenever the app returns to the foreground.
+ * Mount once; only the given user's entries are sent.
+ *
+ * @param userId - The signed-in user, or null to stop processing
+ *
+ * @example
+ * ```tsx
+ * function AuthGuard() {
+ *   const { user } = useAuth();
+ *   useOutboxProcessor(user?.id ?? null);
+ *
+ *   return <Slot />;
+ * }
+ * ```
+ */
+export function useOutboxProcessor(userId: string | null): void {
+  useEffect(() => {
+    useOutboxStore.getState().setUserId(userId);
+    if (!userId) {
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const schedule = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      const pending = useOutboxStore
+        .getState()
+        .entries.filter((entry) => entry.userId === userId && entry.status === 'pending');
+      if (pending.length === 0) {
+        return;
+      }
+
+      const nextAttemptAt = Math.min(...pending.map((entry) => entry.nextAttemptAt));
+      timer = setTimeout(
+        () => {
+          timer = null;
+          void flushOutbox();
+        },
+        Math.max(nextAttemptAt - Date.now(), 0)
+      );
+    };
+
+    // Entries change on enqueue, on every attempt, and when storage rehydrates
+    const unsubscribe = useOutboxStore.subscribe(schedule);
+    schedule();
+
+    const appStateSubscription = AppState.addEventListener('change', (nextState) => {
+      if (nextState === 'active') {
+        void flushOutbox();
+      }
+    });
+
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      unsubscribe();
+      appStateSubscription.remove();
+    };
+  }, [userId]);
+}
+
+/**
+ * Hook that adds a conversation's queued messages to a message list.
+ * Sent entries are dropped from the outbox once the list has their server copy.
+ *
+ * @param conversationId - The conversation to show queued messages for
+ * @param parentId - The thread parent for replies, or null for top-level messages
+ * @param messages - Messages loaded from the server
+ * @returns OutboxMessagesState with the merged messages, retryMessage, and discardMessage
+ *
+ * @example
+ * ```tsx
+ * const { messages: displayMessages, retryMessage, discardMessage } = useOutboxMessages(
+ *   conversationId,
+ *   null,
+ *   messages
+ * );
+ *
+ * return (
+ *   <MessageList
+ *     messages={displayMessages}
+ *     onRetryMessage={(message) => retryMessage(message.id)}
+ *     onDiscardMessage={(message) => discardMessage(message.id)}
+ *   />
+ * );
+ * ```
+ */
+export function useOutboxMessages(
+  conversationId: string | null,
+  parentId: string | null,
+  messages: MessageWithSender[]
+): OutboxMessagesState {
+  const entries = useOutboxStore((state) => state.entries);
+  const userId = useOutboxStore((state) => state.userId);
+  const removeEntry = useOutboxStore((state) => state.removeEntry);
+
+  const conversationEntries = useMemo(
+    () =>
+      entries.filter(
+        (entry) =>
+          entry.userId === userId &&
+          entry.conversationId === conversationId &&
+          entry.parentId === parentId
+      ),
+    [entries, userId, conversationId, parentId]
+  );
+
+  useEffect(() => {
+    const messageIds = new Set(messages.map((message) => message.id));
+    for (const entry of conversationEntries) {
+      if (entry.status === 'sent' && messageIds.has(entry.id)) {
+        removeEntry(entry.id);
+      }
+    }
+  }, [messages, conversationEntries, removeEntry]);
+
+  const mergedMessages = useMemo(
+    () => mergeOutboxMessages(messages, conversationEntries),
+    [messages, conversationEntries]
+  );
+
+  const retryMessage = useCallback((messageId: string) => {
+    retryOutboxEntry(messageId);
+  }, []);
+
+  const discardMessage = useCallback(
+    (messageId: string) => {
+      removeEntry(messageId);
+    },
+    [removeEntry]
+  );
+
+  return {
+    messages: mergedMessages,
+    retryMessage,
+    discardMessage,
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Hook for reacting to messages with emoji.
+ *
+ * Reactions are stored as EmojiPicker shortcodes (e.g. ':heart:'). Toggling an
+ * emoji the member already used removes it; otherwise it is added.
+ */
+
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { MessageReaction, MessageWithSender } from '@/types/database';
+
+/**
+ * Emoji offered in the message action sheet's quick reaction row.
+ */
+export const QUICK_REACTIONS = [
+  ':heart:',
+  ':thumbsup:',
+  ':prayer:',
+  ':laugh:',
+  ':shocked:',
+  ':crying:',
+] as const;
+
+/**
+ * Columns to select for reactions, including the reactor's display name.
+ * Used as a nested select on messages and for single realtime lookups.
+ */
+export const REACTION_SELECT = `
+  id,
+  emoji,
+  membership_id,
+  membership:memberships!message_reactions_membership_id_fkey (
+    user:users!memberships_user_id_fkey (
+      display_name
+    )
+  )
+`;
+
+interface RawReactionRow {
+  id: string;
+  emoji: string;
+  membership_id: string;
+  membership?: { user?: { display_name: string | null } | null } | null;
+}
+
+/**
+ * Result of toggling a reaction, applied to the local message list.
+ */
+export type ReactionChange =
+  | { type: 'added'; messageId: string; reaction: MessageReaction }
+  | { type: 'removed'; reactionId: string };
+
+/**
+ * Reactions grouped by emoji for display.
+ */
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+  displayNames: string[];
+}
+
+export interface MessageReactionsState {
+  toggleReaction: (message: MessageWithSender, emoji: string) => Promise<ReactionChange | null>;
+  pending: boolean;
+  error: Error | null;
+}
+
+/**
+ * Flatten selected reaction rows into MessageReaction objects.
+ */
+export function mapReactionRows(rows: unknown): MessageReaction[] {
+  return ((rows as RawReactionRow[] | null | undefined) ?? []).map((row) => ({
+    id: row.id,
+    emoji: row.emoji,
+    membership_id: row.membership_id,
+    display_name: row.membership?.user?.display_name ?? null,
+  }));
+}
+
+/**
+ * Group reactions by emoji, in the order each emoji was first used.
+ */
+export function summarizeReactions(
+  reactions: MessageReaction[] | undefined,
+  currentMembershipId: string | null | undefined
+): ReactionSummary[] {
+  const summaries = new Map<string, ReactionSummary>();
+
+  for (const reaction of reactions ?? []) {
+    const summary = summaries.get(reaction.emoji) ?? {
+      emoji: reaction.emoji,
+      count: 0,
+      reactedByMe: false,
+      displayNames: [],
+    };
+    summary.count += 1;
+    summary.reactedByMe ||= reaction.membership_id === currentMembershipId;
+    if (reaction.display_name) {
+      summary.displayNames.push(reaction.display_name);
+    }
+    summaries.set(reaction.emoji, summary);
+  }
+
+  return Array.from(summaries.values());
+}
+
+/**
+ * Add a reaction to its message in a message list.
+ * Reactions already present (e.g. the realtime echo of our own toggle) are ignored.
+ * @returns The new messages array with the reaction added
+ */
+export function addMessageReaction(
+  prev: MessageWithSender[],
+  messageId: string,
+  reaction: MessageReaction
+): MessageWithSender[] {
+  return prev.map((msg) => {
+    if (msg.id !== messageId || msg.reactions?.some((r) => r.id === reaction.id)) {
+      return msg;
+    }
+    return { ...msg, reactions: [...(msg.reactions ?? []), reaction] };
+  });
+}
+
+/**
+ * Remove a reaction by ID from whichever message holds it.
+ * @returns The new messages array with the reaction removed
+ */
+export function removeMessageReaction(
+  prev: MessageWithSender[],
+  reactionId: string
+): MessageWithSender[] {
+  return prev.map((msg) =>
+    msg.reactions?.some((r) => r.id === reactionId)
+      ? { ...msg, reactions: msg.reactions.filter((r) => r.id !== reactionId) }
+      : msg
+  );
+}
+
+/**
+ * Apply a toggle result to a message list.
+ * @returns The new messages array
+ */
+export function applyReactionChange(
+  prev: MessageWithSender[],
+  change: ReactionChange
+): MessageWithSender[] {
+  return change.type === 'added'
+    ? addMessageReaction(prev, change.messageId, change.reaction)
+    : removeMessageReaction(prev, change.reactionId);
+}
+
+/**
+ * Hook for adding and removing the current member's reactions.
+ *
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @param membershipId - The current user's membership ID
+ * @returns MessageReactionsState with toggleReaction, pending, and error
+ *
+ * @example
+ * ```tsx
+ * const { toggleReaction } = useMessageReactions(tenantId, membershipId);
+ *
+ * const handleReact = async (message: MessageWithSender, emoji: string) => {
+ *   const change = await toggleReaction(message, emoji);
+ *   if (change) {
+ *     setMessages((prev) => applyReactionChange(prev, change));
+ *   }
+ * };
+ * ```
+ */
+export function useMessageReactions(
+  tenantId: string | null,
+  membershipId: string | null
+): MessageReactionsState {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const toggleReaction = useCallback(
+    async (message: MessageWithSender, emoji: string): Promise<ReactionChange | null> => {
+      if (!tenantId || !membershipId || !emoji) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+
+      setPending(true);
+      setError(null);
+
+      try {
+        const existing = message.reactions?.find(
+          (reaction) => reaction.emoji === emoji && reaction.membership_id === membershipId
+        );
+
+        if (existing) {
+          const { error: deleteError } = await supabase
+            .from('message_reactions')
+            .delete()
+            .eq('id', existing.id);
+
+          if (deleteError) {
+            throw deleteError;
+          }
+
+          return { type: 'removed', reactionId: existing.id };
+        }
+
+        const { data, error: insertError } = await supabase
+          .from('message_reactions')
+          .insert({
+            tenant_id: tenantId,
+            conversation_id: message.conversation_id,
+            message_id: message.id,
+            membership_id: membershipId,
+            emoji,
+          })
+          .select(REACTION_SELECT)
+          .single();
+
+        if (insertError) {
+          throw insertError;
+        }
+
+        const [reaction] = mapReactionRows([data]);
+        return reaction ? { type: 'added', messageId: message.id, reaction } : null;
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setPending(false);
+      }
+    },
+    [tenantId, membershipId]
+  );
+
+  return {
+    toggleReaction,
+    pending,
+    error,
+  };
+}
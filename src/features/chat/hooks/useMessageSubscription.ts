@@ -3,16 +3,28 @@
  *
  * Subscribes to Supabase real-time channels for message updates
  * in a specific conversation. Provides callbacks for insert, update,
- * and delete events.
+ * and delete events, for reactions being added or removed, and for poll
+ * tallies changing.
+ *
+ * The same channel also carries Realtime presence (who has the conversation
+ * open) and typing signals as broadcast events. The current member is tracked
+ * once known, which is often after the channel has joined; the channel isn't
+ * recreated for that. Presence is untracked while the app is in the background.
  *
  * Note: Real-time payloads only include message table data, not related sender/user.
  * For INSERT events, we fetch the full message with sender data.
  */
 
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { AppState, type AppStateStatus } from 'react-native';
 import { supabase } from '@/lib/supabase';
 import type { RealtimeChannel } from '@supabase/supabase-js';
-import type { MessageWithSender, MessageContentType } from '@/types/database';
+import type { MessageReaction, MessageWithSender, MessageContentType } from '@/types/database';
+import { REACTION_SELECT, mapReactionRows } from './useMessageReactions';
+import { POLL_SELECT, mapPollRow } from './usePolls';
+import type { PollOptionUpdate } from './usePolls';
+import { FORWARDED_FROM_SELECT, mapForwardedFromRow } from './useForwardMessage';
+import { MENTION_SELECT, mapMentionRows } from '../utils/mentions';
 
 /**
  * Payload types for real-time events.
@@ -55,6 +67,78 @@ interface MessageDeletePayload {
 
 type MessagePayload = MessageInsertPayload | MessageUpdatePayload | MessageDeletePayload;
 
+/**
+ * Reaction payloads. DELETE payloads may only carry the primary key under RLS.
+ */
+interface ReactionInsertPayload {
+  eventType: 'INSERT';
+  new: { id: string; message_id: string };
+}
+
+interface ReactionDeletePayload {
+  eventType: 'DELETE';
+  old: { id: string; conversation_id?: string };
+}
+
+/**
+ * How long a typing signal stays visible without a refresh. Senders repeat the
+ * signal while typing (see MessageInput), so this only expires stale signals.
+ */
+export const TYPING_TIMEOUT_MS = 6000;
+
+/**
+ * A member shown in the conversation's presence (online or typing).
+ */
+export interface PresenceMember {
+  membershipId: string;
+  displayName: string | null;
+}
+
+/**
+ * Payload tracked in presence and sent with typing broadcasts.
+ */
+interface PresencePayload {
+  membership_id: string;
+  display_name: string | null;
+}
+
+interface TypingPayload extends PresencePayload {
+  typing: boolean;
+}
+
+/**
+ * Flatten a channel's presence state into one entry per member, excluding the
+ * current member. A member with several devices online appears once.
+ *
+ * Presence keys are per connection, so entries are grouped by the tracked
+ * membership ID.
+ */
+export function getPresenceMembers(
+  state: Record<string, Partial<PresencePayload>[]>,
+  currentMembershipId: string | null
+): PresenceMember[] {
+  const members = new Map<string, PresenceMember>();
+
+  Object.values(state)
+    .flat()
+    .forEach((entry) => {
+      if (!entry.membership_id || entry.membership_id === currentMembershipId) {
+        return;
+      }
+      const existing = members.get(entry.membership_id);
+      if (!existing) {
+        members.set(entry.membership_id, {
+          membershipId: entry.membership_id,
+          displayName: entry.display_name ?? null,
+        });
+      } else if (!existing.displayName && entry.display_name) {
+        existing.displayName = entry.display_name;
+      }
+    });
+
+  return [...members.values()];
+}
+
 /**
  * Callbacks for message events.
  */
@@ -76,6 +160,22 @@ export interface MessageSubscriptionCallbacks {
    */
   onDelete?: (messageId: string, oldMessage?: Partial<MessageWithSender>) => void;
 
+  /**
+   * Called when someone reacts to a message in the conversation.
+   */
+  onReactionAdd?: (messageId: string, reaction: MessageReaction) => void;
+
+  /**
+   * Called when a reaction is removed.
+   * @param reactionId - The ID of the removed reaction
+   */
+  onReactionRemove?: (reactionId: string) => void;
+
+  /**
+   * Called when a poll option's tally changes.
+   */
+  onPollOptionUpdate?: (update: PollOptionUpdate) => void;
+
   /**
    * Called when a subscription error occurs.
    */
@@ -97,6 +197,27 @@ export interface MessageSubscriptionState {
   unsubscribe: () => void;
 }
 
+/**
+ * Conversation subscription return type, with presence and typing.
+ * Presence lists are empty unless the current member is passed.
+ */
+export interface ConversationSubscriptionState extends MessageSubscriptionState {
+  /**
+   * Other members who currently have the conversation open.
+   */
+  onlineMembers: PresenceMember[];
+
+  /**
+   * Other members who are currently typing.
+   */
+  typingMembers: PresenceMember[];
+
+  /**
+   * Broadcast the current member's typing state. Callers throttle this.
+   */
+  sendTyping: (isTyping: boolean) => void;
+}
+
 /**
  * Fetch full message with sender data by ID.
  * Used when real-time INSERT payload doesn't include related data.
@@ -107,7 +228,8 @@ async function fetchFullMessage(
 ): Promise<MessageWithSender | null> {
   const { data, error } = await supabase
     .from('messages')
-    .select(`
+    .select(
+      `
       id,
       tenant_id,
       conversation_id,
@@ -119,6 +241,9 @@ async function fetchFullMessage(
       created_at,
       updated_at,
       deleted_at,
+      edited_at,
+      forwarded_from_message_id,
+      forwarded_from_sender_id,
       sender:memberships!messages_sender_id_fkey (
         id,
         user:users!memberships_user_id_fkey (
@@ -127,8 +252,13 @@ async function fetchFullMessage(
           photo_url
         )
       ),
-      replies:messages!parent_id(count)
-    `)
+      replies:messages!parent_id(count),
+      reactions:message_reactions (${REACTION_SELECT}),
+      mentions (${MENTION_SELECT}),
+      poll:polls (${POLL_SELECT}),
+      forwarded_from:memberships!messages_forwarded_from_sender_id_fkey (${FORWARDED_FROM_SELECT})
+    `
+    )
     .eq('id', messageId)
     .eq('tenant_id', tenantId)
     .is('deleted_at', null)
@@ -158,6 +288,9 @@ async function fetchFullMessage(
     created_at: data.created_at,
     updated_at: data.updated_at,
     deleted_at: data.deleted_at,
+    edited_at: data.edited_at,
+    forwarded_from_message_id: data.forwarded_from_message_id,
+    forwarded_from_sender_id: data.forwarded_from_sender_id,
     // Flatten user data into sender object to match MessageWithSender type
     sender: {
       id: sender?.id ?? '',
@@ -165,42 +298,100 @@ async function fetchFullMessage(
       photo_url: sender?.user?.photo_url ?? null,
     },
     reply_count,
+    reactions: mapReactionRows(data.reactions),
+    mentions: mapMentionRows(data.mentions),
+    poll: mapPollRow(data.poll),
+    forwarded_from: mapForwardedFromRow(data.forwarded_from),
   } as MessageWithSender;
 }
 
+/**
+ * Fetch a reaction with the reactor's display name by ID.
+ * Used when real-time INSERT payload doesn't include related data.
+ */
+async function fetchReaction(reactionId: string): Promise<MessageReaction | null> {
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select(REACTION_SELECT)
+    .eq('id', reactionId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return mapReactionRows([data])[0] ?? null;
+}
+
 /**
  * Subscribe to real-time message updates for a conversation.
  *
  * @param conversationId - The conversation to subscribe to
  * @param tenantId - The tenant ID for filtering
  * @param callbacks - Event callbacks for insert/update/delete
- * @returns Subscription state and controls
+ * @param currentMember - The current member, to join presence and send typing signals
+ * @returns Subscription state, presence, and controls
  *
  * @example
  * ```tsx
- * const { isSubscribed } = useMessageSubscription(
+ * const { typingMembers, onlineMembers, sendTyping } = useMessageSubscription(
  *   conversationId,
  *   tenantId,
  *   {
  *     onInsert: (message) => appendMessage(message),
  *     onUpdate: (message) => updateMessage(message),
  *     onDelete: (id) => removeMessage(id),
- *   }
+ *   },
+ *   { membershipId, displayName: user.display_name }
  * );
  * ```
  */
 export function useMessageSubscription(
   conversationId: string | null,
   tenantId: string | null,
-  callbacks: MessageSubscriptionCallbacks
-): MessageSubscriptionState {
+  callbacks: MessageSubscriptionCallbacks,
+  currentMember?: PresenceMember | null
+): ConversationSubscriptionState {
   const channelRef = useRef<RealtimeChannel | null>(null);
   const isSubscribedRef = useRef(false);
+  const [onlineMembers, setOnlineMembers] = useState<PresenceMember[]>([]);
+  const [typingMembers, setTypingMembers] = useState<PresenceMember[]>([]);
 
   // Store callbacks in refs to avoid re-subscribing on callback changes
   const callbacksRef = useRef(callbacks);
   callbacksRef.current = callbacks;
 
+  // Only the membership ID decides whether to track; the name is read when tracking
+  const presenceKey = currentMember?.membershipId ?? null;
+  const currentMemberRef = useRef(currentMember);
+  currentMemberRef.current = currentMember;
+
+  const getPresencePayload = useCallback(
+    (): PresencePayload | null =>
+      currentMemberRef.current
+        ? {
+            membership_id: currentMemberRef.current.membershipId,
+            display_name: currentMemberRef.current.displayName,
+          }
+        : null,
+    []
+  );
+
+  const sendTyping = useCallback(
+    (isTyping: boolean) => {
+      const payload = getPresencePayload();
+      if (!channelRef.current || !payload || !isSubscribedRef.current) {
+        return;
+      }
+      void channelRef.current.send({
+        type: 'broadcast',
+        event: 'typing',
+        payload: { ...payload, typing: isTyping } satisfies TypingPayload,
+      });
+    },
+    [getPresencePayload]
+  );
+
   const unsubscribe = useCallback(() => {
     if (channelRef.current) {
       void supabase.removeChannel(channelRef.current);
@@ -218,9 +409,13 @@ export function useMessageSubscription(
     // Create unique channel name for this conversation
     const channelName = `messages:${conversationId}`;
 
+    // One channel per conversation. The member may load after it joins, so
+    // presence is tracked separately rather than set in the channel config;
+    // a removed channel can't be rejoined under the same name.
+    const channel = supabase.channel(channelName);
+
     // Subscribe to postgres_changes for the messages table
-    const channel = supabase
-      .channel(channelName)
+    channel
       .on(
         'postgres_changes',
         {
@@ -260,25 +455,177 @@ export function useMessageSubscription(
           }
         }
       )
-      .subscribe((status) => {
-        if (status === 'SUBSCRIBED') {
-          isSubscribedRef.current = true;
-        } else if (status === 'CHANNEL_ERROR') {
-          callbacksRef.current.onError?.(new Error('Failed to subscribe to messages channel'));
+      .on(
+        'postgres_changes',
+        {
+          // Reactions are never edited; toggling deletes and re-inserts
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const { id, message_id } = (payload as unknown as ReactionInsertPayload).new;
+          void fetchReaction(id).then((reaction) => {
+            if (reaction) {
+              callbacksRef.current.onReactionAdd?.(message_id, reaction);
+            }
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime can't filter DELETE events, so this receives every removed
+          // reaction. Removing an ID that isn't on screen does nothing.
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          const { id, conversation_id } = (payload as unknown as ReactionDeletePayload).old;
+          if (conversation_id && conversation_id !== conversationId) {
+            return;
+          }
+          callbacksRef.current.onReactionRemove?.(id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'poll_options',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          // Only vote_count changes; votes themselves stay private on anonymous polls
+          const { id, poll_id, vote_count } = payload.new as PollOptionUpdate;
+          callbacksRef.current.onPollOptionUpdate?.({ id, poll_id, vote_count });
+        }
+      );
+
+    // Typing timers per member, so each signal expires on its own
+    const typingTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+
+    const stopTyping = (membershipId: string) => {
+      clearTimeout(typingTimeouts.get(membershipId));
+      typingTimeouts.delete(membershipId);
+      setTypingMembers((prev) => prev.filter((m) => m.membershipId !== membershipId));
+    };
+
+    const trackPresence = () => {
+      const payload = getPresencePayload();
+      if (payload) {
+        void channel.track(payload);
+      }
+    };
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const members = getPresenceMembers(
+          channel.presenceState<PresencePayload>(),
+          currentMemberRef.current?.membershipId ?? null
+        );
+        setOnlineMembers(members);
+        // Members who left can't still be typing
+        const onlineIds = new Set(members.map((m) => m.membershipId));
+        typingTimeouts.forEach((_, membershipId) => {
+          if (!onlineIds.has(membershipId)) {
+            stopTyping(membershipId);
+          }
+        });
+      })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        const typing = payload as TypingPayload;
+        if (
+          !typing.membership_id ||
+          typing.membership_id === currentMemberRef.current?.membershipId
+        ) {
+          return;
+        }
+        if (!typing.typing) {
+          stopTyping(typing.membership_id);
+          return;
         }
+
+        clearTimeout(typingTimeouts.get(typing.membership_id));
+        typingTimeouts.set(
+          typing.membership_id,
+          setTimeout(() => stopTyping(typing.membership_id), TYPING_TIMEOUT_MS)
+        );
+        setTypingMembers((prev) =>
+          prev.some((m) => m.membershipId === typing.membership_id)
+            ? prev
+            : [...prev, { membershipId: typing.membership_id, displayName: typing.display_name }]
+        );
       });
 
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        isSubscribedRef.current = true;
+        if (AppState.currentState === 'active') {
+          trackPresence();
+        }
+      } else if (status === 'CHANNEL_ERROR') {
+        callbacksRef.current.onError?.(new Error('Failed to subscribe to messages channel'));
+      }
+    });
+
     channelRef.current = channel;
 
+    // Leave presence in the background so members don't appear online while away
+    const appStateSubscription = AppState.addEventListener(
+      'change',
+      (nextAppState: AppStateStatus) => {
+        if (!isSubscribedRef.current || !getPresencePayload()) {
+          return;
+        }
+        if (nextAppState === 'active') {
+          trackPresence();
+        } else if (nextAppState === 'background') {
+          sendTyping(false);
+          void channel.untrack();
+        }
+      }
+    );
+
     // Cleanup on unmount or when dependencies change
     return () => {
+      appStateSubscription.remove();
+      typingTimeouts.forEach((timeout) => clearTimeout(timeout));
+      setOnlineMembers([]);
+      setTypingMembers([]);
       unsubscribe();
     };
-  }, [conversationId, tenantId, unsubscribe]);
+  }, [conversationId, tenantId, getPresencePayload, sendTyping, unsubscribe]);
+
+  // Track the member on the joined channel once known. If the channel hasn't
+  // joined yet, the subscribe callback tracks instead.
+  useEffect(() => {
+    const channel = channelRef.current;
+    const payload = getPresencePayload();
+    if (!channel || !payload || !isSubscribedRef.current) {
+      return;
+    }
+
+    if (AppState.currentState === 'active') {
+      void channel.track(payload);
+    }
+
+    return () => {
+      if (channelRef.current === channel && isSubscribedRef.current) {
+        void channel.untrack();
+      }
+    };
+  }, [conversationId, tenantId, presenceKey, getPresencePayload]);
 
   return {
     isSubscribed: isSubscribedRef.current,
     unsubscribe,
+    onlineMembers,
+    typingMembers,
+    sendTyping,
   };
 }
 
@@ -1,27 +1,188 @@
 /**
  * Hook for fetching messages in a conversation.
  *
- * Provides paginated messages with sender information.
+ * Provides paginated messages with sender information and reactions.
+ * Deleted messages are returned as tombstones (deleted_at set, content cleared)
+ * so the list can show them in place.
+ *
+ * The newest messages are cached on the device. On open the cached copy is
+ * shown right away and only messages created or edited since are fetched,
+ * along with the current replies, reactions, mentions and polls of the cached
+ * messages (changes to those don't touch the message row).
  */
 
 import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import type { MessageWithSender, MessageContentType } from '@/types/database';
+import { REACTION_SELECT, mapReactionRows } from './useMessageReactions';
+import { POLL_SELECT, mapPollRow } from './usePolls';
+import { FORWARDED_FROM_SELECT, mapForwardedFromRow } from './useForwardMessage';
+import {
+  getCacheWatermark,
+  mergeMessageDelta,
+  mergeMessageRelations,
+  readCachedMessages,
+  writeCachedMessages,
+  type MessageRelations,
+} from '../utils/messageCache';
+import { getMessageCursor, newerThanCursor, olderThanCursor } from '../utils/messageCursor';
+import { MENTION_SELECT, mapMentionRows } from '../utils/mentions';
 
 const PAGE_SIZE = 50;
 
+const MESSAGE_SELECT = `
+  id,
+  tenant_id,
+  conversation_id,
+  sender_id,
+  parent_id,
+  content,
+  content_type,
+  is_event_chat,
+  created_at,
+  updated_at,
+  deleted_at,
+  edited_at,
+  forwarded_from_message_id,
+  forwarded_from_sender_id,
+  sender:memberships!messages_sender_id_fkey (
+    id,
+    user:users!memberships_user_id_fkey (
+      id,
+      display_name,
+      photo_url
+    )
+  ),
+  replies:messages!parent_id(count),
+  reactions:message_reactions (${REACTION_SELECT}),
+  mentions (${MENTION_SELECT}),
+  poll:polls (${POLL_SELECT}),
+  forwarded_from:memberships!messages_forwarded_from_sender_id_fkey (${FORWARDED_FROM_SELECT})
+`;
+
+/**
+ * Relations refreshed for cached messages on a delta sync.
+ */
+const RELATIONS_SELECT = `
+  id,
+  replies:messages!parent_id(count),
+  reactions:message_reactions (${REACTION_SELECT}),
+  mentions (${MENTION_SELECT}),
+  poll:polls (${POLL_SELECT})
+`;
+
+/**
+ * Map a messages row from RELATIONS_SELECT to its relations.
+ */
+function mapRelationsRow(row: Record<string, unknown>): MessageRelations {
+  const replies = row.replies as { count: number }[] | undefined;
+
+  return {
+    reply_count: replies?.[0]?.count ?? 0,
+    reactions: mapReactionRows(row.reactions),
+    mentions: mapMentionRows(row.mentions),
+    poll: mapPollRow(row.poll),
+  };
+}
+
+/**
+ * Fetch the current relations of cached messages, keyed by message ID.
+ */
+async function fetchMessageRelations(
+  tenantId: string,
+  messageIds: string[]
+): Promise<Map<string, MessageRelations>> {
+  if (messageIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select(RELATIONS_SELECT)
+    .eq('tenant_id', tenantId)
+    .in('id', messageIds);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(
+    ((data || []) as Record<string, unknown>[]).map((row) => [
+      row.id as string,
+      mapRelationsRow(row),
+    ])
+  );
+}
+
+/**
+ * Map a messages row from MESSAGE_SELECT to MessageWithSender.
+ */
+function mapMessageRow(msg: Record<string, unknown>): MessageWithSender {
+  const sender = msg.sender as {
+    id: string;
+    user: { id: string; display_name: string | null; photo_url: string | null };
+  };
+
+  // Extract reply count from the aggregate subquery
+  const replies = msg.replies as { count: number }[] | undefined;
+  const reply_count = replies?.[0]?.count ?? 0;
+
+  return {
+    id: msg.id,
+    tenant_id: msg.tenant_id,
+    conversation_id: msg.conversation_id,
+    sender_id: msg.sender_id,
+    parent_id: msg.parent_id,
+    content: msg.content,
+    content_type: msg.content_type as MessageContentType,
+    is_event_chat: msg.is_event_chat,
+    created_at: msg.created_at,
+    updated_at: msg.updated_at,
+    deleted_at: msg.deleted_at,
+    edited_at: msg.edited_at,
+    forwarded_from_message_id: msg.forwarded_from_message_id,
+    forwarded_from_sender_id: msg.forwarded_from_sender_id,
+    // Flatten user data into sender object to match MessageWithSender type
+    sender: {
+      id: sender?.id ?? '',
+      display_name: sender?.user?.display_name ?? null,
+      photo_url: sender?.user?.photo_url ?? null,
+    },
+    reply_count,
+    reactions: mapReactionRows(msg.reactions),
+    mentions: mapMentionRows(msg.mentions),
+    poll: mapPollRow(msg.poll),
+    forwarded_from: mapForwardedFromRow(msg.forwarded_from),
+  } as MessageWithSender;
+}
+
 export interface MessagesState {
   messages: MessageWithSender[];
   loading: boolean;
   error: Error | null;
   loadMore: () => Promise<void>;
   hasMore: boolean;
+  /**
+   * Load messages after the newest loaded one. Only needed after jumpToMessage
+   * loaded a window that doesn't reach the latest message.
+   */
+  loadNewer: () => Promise<void>;
+  hasNewer: boolean;
+  /**
+   * Make sure a message is loaded, replacing the list with a window of
+   * messages around it if needed.
+   * @returns Whether the message was found
+   */
+  jumpToMessage: (messageId: string) => Promise<boolean>;
   refetch: () => Promise<void>;
 }
 
 /**
  * Hook for fetching messages in a conversation.
  *
+ * Pages are fetched with a (created_at, id) cursor so messages arriving while
+ * scrolling back can't cause rows to be skipped or repeated.
+ *
  * @param conversationId - The conversation ID to fetch messages for
  * @param tenantId - The tenant ID for RLS enforcement
  * @returns MessagesState with messages list, loading, error, and pagination
@@ -49,7 +210,7 @@ export function useMessages(conversationId: string | null, tenantId: string | nu
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [hasMore, setHasMore] = useState(true);
-  const [offset, setOffset] = useState(0);
+  const [hasNewer, setHasNewer] = useState(false);
 
   const fetchMessages = useCallback(
     async (reset: boolean = false) => {
@@ -61,107 +222,102 @@ export function useMessages(conversationId: string | null, tenantId: string | nu
       }
 
       if (reset) {
-        setOffset(0);
         setHasMore(true);
+        setHasNewer(false);
       }
 
       setLoading(true);
       setError(null);
 
+      // Show cached history while the network catches up
+      const cached = reset ? await readCachedMessages(tenantId, conversationId) : null;
+      if (cached) {
+        setMessages(cached);
+      }
+
       try {
-        const currentOffset = reset ? 0 : offset;
+        const watermark = cached ? getCacheWatermark(cached) : null;
 
-        const { data, error: fetchError } = await supabase
+        if (cached && watermark) {
+          // Fetch only messages created or edited since the cache was written
+          const { data, error: deltaError } = await supabase
+            .from('messages')
+            .select(MESSAGE_SELECT)
+            .eq('conversation_id', conversationId)
+            .eq('tenant_id', tenantId)
+            .is('parent_id', null)
+            .or(`created_at.gt."${watermark.createdAt}",updated_at.gt."${watermark.updatedAt}"`)
+            .order('created_at', { ascending: false })
+            .limit(PAGE_SIZE);
+
+          if (deltaError) {
+            throw deltaError;
+          }
+
+          // A full page means the cache is too far behind to patch, so reload instead
+          if ((data?.length ?? 0) < PAGE_SIZE) {
+            const delta = (data || []).map(mapMessageRow).reverse();
+            const deltaIds = new Set(delta.map((message) => message.id));
+
+            // Reactions, votes, mentions and replies don't change updated_at
+            const relations = await fetchMessageRelations(
+              tenantId,
+              cached.filter((message) => !deltaIds.has(message.id)).map((message) => message.id)
+            );
+            const merged = mergeMessageDelta(mergeMessageRelations(cached, relations), delta);
+
+            setMessages(merged);
+            void writeCachedMessages(tenantId, conversationId, merged);
+            return;
+          }
+        }
+
+        // Older pages continue from the oldest loaded message
+        const oldest = reset ? undefined : messages[0];
+
+        let query = supabase
           .from('messages')
-          .select(
-            `
-            id,
-            tenant_id,
-            conversation_id,
-            sender_id,
-            parent_id,
-            content,
-            content_type,
-            is_event_chat,
-            created_at,
-            updated_at,
-            deleted_at,
-            sender:memberships!messages_sender_id_fkey (
-              id,
-              user:users!memberships_user_id_fkey (
-                id,
-                display_name,
-                photo_url
-              )
-            ),
-            replies:messages!parent_id(count)
-          `
-          )
+          .select(MESSAGE_SELECT)
           .eq('conversation_id', conversationId)
           .eq('tenant_id', tenantId)
-          .is('parent_id', null) // Only fetch top-level messages, not thread replies
-          .is('deleted_at', null)
+          .is('parent_id', null); // Only fetch top-level messages, not thread replies
+
+        if (oldest) {
+          query = query.or(olderThanCursor(getMessageCursor(oldest)));
+        }
+
+        const { data, error: fetchError } = await query
           .order('created_at', { ascending: false })
-          .range(currentOffset, currentOffset + PAGE_SIZE - 1);
+          .order('id', { ascending: false })
+          .limit(PAGE_SIZE);
 
         if (fetchError) {
           throw fetchError;
         }
 
-        const messagesWithSender = (data || []).map((msg) => {
-          const sender = msg.sender as {
-            id: string;
-            user: { id: string; display_name: string | null; photo_url: string | null };
-          };
-
-          // Extract reply count from the aggregate subquery
-          const replies = msg.replies as { count: number }[] | undefined;
-          const reply_count = replies?.[0]?.count ?? 0;
-
-          return {
-            id: msg.id,
-            tenant_id: msg.tenant_id,
-            conversation_id: msg.conversation_id,
-            sender_id: msg.sender_id,
-            parent_id: msg.parent_id,
-            content: msg.content,
-            content_type: msg.content_type as MessageContentType,
-            is_event_chat: msg.is_event_chat,
-            created_at: msg.created_at,
-            updated_at: msg.updated_at,
-            deleted_at: msg.deleted_at,
-            // Flatten user data into sender object to match MessageWithSender type
-            sender: {
-              id: sender?.id ?? '',
-              display_name: sender?.user?.display_name ?? null,
-              photo_url: sender?.user?.photo_url ?? null,
-            },
-            reply_count,
-          } as MessageWithSender;
-        });
-
         // Reverse to get chronological order (oldest first)
-        const sortedMessages = messagesWithSender.reverse();
+        const sortedMessages = (data || []).map(mapMessageRow).reverse();
 
         if (reset) {
           setMessages(sortedMessages);
+          void writeCachedMessages(tenantId, conversationId, sortedMessages);
         } else {
           // Prepend older messages (for infinite scroll going back)
           setMessages((prev) => [...sortedMessages, ...prev]);
         }
 
         setHasMore(data?.length === PAGE_SIZE);
-        setOffset(currentOffset + (data?.length || 0));
       } catch (err) {
         setError(err as Error);
-        if (reset) {
+        // Offline opens keep showing the cached copy
+        if (reset && !cached) {
           setMessages([]);
         }
       } finally {
         setLoading(false);
       }
     },
-    [conversationId, tenantId, offset]
+    [conversationId, tenantId, messages]
   );
 
   const loadMore = useCallback(async () => {
@@ -170,6 +326,118 @@ export function useMessages(conversationId: string | null, tenantId: string | nu
     }
   }, [loading, hasMore, fetchMessages]);
 
+  const loadNewer = useCallback(async () => {
+    const newest = messages[messages.length - 1];
+    if (loading || !hasNewer || !newest || !conversationId || !tenantId) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('conversation_id', conversationId)
+        .eq('tenant_id', tenantId)
+        .is('parent_id', null)
+        .or(newerThanCursor(getMessageCursor(newest)))
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(PAGE_SIZE);
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const newerMessages = (data || []).map(mapMessageRow);
+      setMessages((prev) => [...prev, ...newerMessages]);
+      setHasNewer(newerMessages.length === PAGE_SIZE);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, tenantId, messages, loading, hasNewer]);
+
+  const jumpToMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!conversationId || !tenantId) {
+        return false;
+      }
+      if (messages.some((msg) => msg.id === messageId)) {
+        return true;
+      }
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const { data: target, error: targetError } = await supabase
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('id', messageId)
+          .eq('conversation_id', conversationId)
+          .eq('tenant_id', tenantId)
+          .is('parent_id', null)
+          .single();
+
+        if (targetError) {
+          throw targetError;
+        }
+
+        const anchor = mapMessageRow(target);
+        const cursor = getMessageCursor(anchor);
+        const windowSize = PAGE_SIZE / 2;
+
+        const [olderResult, newerResult] = await Promise.all([
+          supabase
+            .from('messages')
+            .select(MESSAGE_SELECT)
+            .eq('conversation_id', conversationId)
+            .eq('tenant_id', tenantId)
+            .is('parent_id', null)
+            .or(olderThanCursor(cursor))
+            .order('created_at', { ascending: false })
+            .order('id', { ascending: false })
+            .limit(windowSize),
+          supabase
+            .from('messages')
+            .select(MESSAGE_SELECT)
+            .eq('conversation_id', conversationId)
+            .eq('tenant_id', tenantId)
+            .is('parent_id', null)
+            .or(newerThanCursor(cursor))
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(windowSize),
+        ]);
+
+        if (olderResult.error) {
+          throw olderResult.error;
+        }
+        if (newerResult.error) {
+          throw newerResult.error;
+        }
+
+        const olderMessages = (olderResult.data || []).map(mapMessageRow).reverse();
+        const newerMessages = (newerResult.data || []).map(mapMessageRow);
+
+        setMessages([...olderMessages, anchor, ...newerMessages]);
+        setHasMore(olderMessages.length === windowSize);
+        setHasNewer(newerMessages.length === windowSize);
+        return true;
+      } catch (err) {
+        setError(err as Error);
+        return false;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [conversationId, tenantId, messages]
+  );
+
   const refetch = useCallback(async () => {
     await fetchMessages(true);
   }, [fetchMessages]);
@@ -184,6 +452,9 @@ export function useMessages(conversationId: string | null, tenantId: string | nu
     error,
     loadMore,
     hasMore,
+    loadNewer,
+    hasNewer,
+    jumpToMessage,
     refetch,
   };
 }
@@ -191,25 +462,38 @@ export function useMessages(conversationId: string | null, tenantId: string | nu
 /**
  * Add a new message to the messages list.
  * Used by the real-time subscription hook.
- * @returns The new messages array with the message appended
+ * @returns The new messages array with the message appended, or replaced if already present
  */
 export function appendMessage(
   prev: MessageWithSender[],
   newMessage: MessageWithSender
 ): MessageWithSender[] {
+  // Realtime can redeliver a message the list already has (e.g. after a refetch)
+  if (prev.some((msg) => msg.id === newMessage.id)) {
+    return prev.map((msg) => (msg.id === newMessage.id ? { ...msg, ...newMessage } : msg));
+  }
   return [...prev, newMessage];
 }
 
 /**
  * Update a message in the messages list.
- * Used by the real-time subscription hook for message edits.
+ * Used by the real-time subscription hook for message edits and deletes.
+ * Fields missing from the update (e.g. sender and reactions, which real-time
+ * payloads don't include) are kept from the existing message.
  * @returns The new messages array with the message updated
  */
 export function updateMessage(
   prev: MessageWithSender[],
-  updatedMessage: MessageWithSender
+  updatedMessage: Partial<MessageWithSender> & { id: string }
 ): MessageWithSender[] {
-  return prev.map((msg) => (msg.id === updatedMessage.id ? updatedMessage : msg));
+  return prev.map((msg) => {
+    if (msg.id !== updatedMessage.id) {
+      return msg;
+    }
+    const merged = { ...msg, ...updatedMessage };
+    // Tombstones drop their reactions along with the content
+    return merged.deleted_at ? { ...merged, content: null, reactions: [] } : merged;
+  });
 }
 
 /**
@@ -217,9 +501,6 @@ export function updateMessage(
  * Used by the real-time subscription hook for message deletes.
  * @returns The new messages array with the message removed
  */
-export function removeMessage(
-  prev: MessageWithSender[],
-  messageId: string
-): MessageWithSender[] {
+export function removeMessage(prev: MessageWithSender[], messageId: string): MessageWithSender[] {
   return prev.filter((msg) => msg.id !== messageId);
 }
@@ -0,0 +1,250 @@
+/**
+ * Hook for the messages pinned in a conversation.
+ *
+ * Leaders (small_group_leader and up) can pin up to MAX_PINNED_MESSAGES
+ * messages per conversation. The database enforces both rules and posts a
+ * system message for every pin and unpin; pin changes arrive in real time.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Message, PinnedMessage } from '@/types/database';
+
+/**
+ * Pins allowed per conversation (matches the database trigger).
+ */
+export const MAX_PINNED_MESSAGES = 3;
+
+/**
+ * Roles that can pin and unpin messages.
+ */
+export const PIN_MESSAGE_ROLES = ['small_group_leader', 'zone_leader', 'pastor', 'admin'];
+
+export interface PinnedMessagesState {
+  pinnedMessages: PinnedMessage[];
+  loading: boolean;
+  error: Error | null;
+  pinMessage: (messageId: string) => Promise<boolean>;
+  unpinMessage: (messageId: string) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Whether a member with this role can pin messages.
+ */
+export function canPinMessages(role: string | null | undefined): boolean {
+  return !!role && PIN_MESSAGE_ROLES.includes(role);
+}
+
+/**
+ * Hook for loading, pinning, and unpinning a conversation's pinned messages.
+ *
+ * @param conversationId - The conversation to load pins for
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @param membershipId - The current user's membership ID
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns PinnedMessagesState with pinnedMessages, pinMessage, unpinMessage, loading, and error
+ *
+ * @example
+ * ```tsx
+ * const { pinnedMessages, pinMessage } = usePinnedMessages(conversationId, tenantId, membershipId);
+ *
+ * if (pinnedMessages.length < MAX_PINNED_MESSAGES) {
+ *   await pinMessage(message.id);
+ * }
+ * ```
+ */
+export function usePinnedMessages(
+  conversationId: string | null,
+  tenantId: string | null,
+  membershipId: string | null,
+  enableRealtime: boolean = true
+): PinnedMessagesState {
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchPinnedMessages = useCallback(async () => {
+    if (!conversationId || !tenantId) {
+      setPinnedMessages([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('pinned_messages')
+        .select(
+          `
+            id,
+            message_id,
+            pinned_by,
+            created_at,
+            message:messages!pinned_messages_message_id_fkey (
+              content,
+              content_type,
+              sender:memberships!messages_sender_id_fkey (
+                user:users!memberships_user_id_fkey (
+                  display_name
+                )
+              )
+            )
+          `
+        )
+        .eq('conversation_id', conversationId)
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const transformedData: PinnedMessage[] =
+        data?.map((item) => {
+          const message = item.message as unknown as {
+            content: string | null;
+            content_type: Message['content_type'];
+            sender: { user: { display_name: string | null } | null } | null;
+          } | null;
+
+          return {
+            id: item.id,
+            message_id: item.message_id,
+            pinned_by: item.pinned_by,
+            created_at: item.created_at,
+            content: message?.content ?? null,
+            content_type: message?.content_type ?? 'text',
+            sender_name: message?.sender?.user?.display_name ?? null,
+          };
+        }) ?? [];
+
+      setPinnedMessages(transformedData);
+    } catch (err) {
+      setError(err as Error);
+      setPinnedMessages([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, tenantId]);
+
+  const pinMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!conversationId || !tenantId || !membershipId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: insertError } = await supabase.from('pinned_messages').insert({
+        tenant_id: tenantId,
+        conversation_id: conversationId,
+        message_id: messageId,
+        pinned_by: membershipId,
+      });
+
+      if (insertError) {
+        setError(insertError as unknown as Error);
+        return false;
+      }
+
+      await fetchPinnedMessages();
+      return true;
+    },
+    [conversationId, tenantId, membershipId, fetchPinnedMessages]
+  );
+
+  const unpinMessage = useCallback(
+    async (messageId: string): Promise<boolean> => {
+      if (!tenantId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('pinned_messages')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('tenant_id', tenantId);
+
+      if (deleteError) {
+        setError(deleteError as unknown as Error);
+        return false;
+      }
+
+      setPinnedMessages((prev) => prev.filter((pin) => pin.message_id !== messageId));
+      return true;
+    },
+    [tenantId]
+  );
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!conversationId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`pinned_messages:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          // Pins are never edited, only added and removed
+          event: 'INSERT',
+          schema: 'public',
+          table: 'pinned_messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          // Pins change rarely; refetch to pick up the message preview
+          void fetchPinnedMessages();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime can't filter DELETE events, so this receives every removed
+          // pin. Removing an ID that isn't listed does nothing.
+          event: 'DELETE',
+          schema: 'public',
+          table: 'pinned_messages',
+        },
+        (payload) => {
+          const { id, conversation_id } = payload.old as { id: string; conversation_id?: string };
+          if (conversation_id && conversation_id !== conversationId) {
+            return;
+          }
+          setPinnedMessages((prev) => prev.filter((pin) => pin.id !== id));
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for pinned messages');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [conversationId, enableRealtime, fetchPinnedMessages]);
+
+  useEffect(() => {
+    void fetchPinnedMessages();
+  }, [fetchPinnedMessages]);
+
+  return {
+    pinnedMessages,
+    loading,
+    error,
+    pinMessage,
+    unpinMessage,
+    refetch: fetchPinnedMessages,
+  };
+}
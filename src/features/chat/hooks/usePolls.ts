@@ -0,0 +1,361 @@
+/**
+ * Hook for creating and voting in chat polls.
+ *
+ * A poll is a message with content_type 'poll' whose content is the question.
+ * Tallies are kept on each option by the database and arrive in real time as
+ * poll_options updates; votes are only visible to everyone when the poll
+ * isn't anonymous.
+ */
+
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { MessagePoll, MessageWithSender, PollOption, PollVote } from '@/types/database';
+
+/**
+ * Option limits (match create_poll in the database).
+ */
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+
+/**
+ * Columns to select for a message's poll, as a nested `poll:polls (...)` relation.
+ */
+export const POLL_SELECT = `
+  id,
+  allows_multiple,
+  is_anonymous,
+  closes_at,
+  options:poll_options (
+    id,
+    label,
+    position,
+    vote_count
+  ),
+  votes:poll_votes (
+    option_id,
+    membership_id
+  )
+`;
+
+interface RawPollRow {
+  id: string;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: string | null;
+  options?: PollOption[] | null;
+  votes?: PollVote[] | null;
+}
+
+/**
+ * A poll as entered in the composer.
+ */
+export interface PollDraft {
+  question: string;
+  options: string[];
+  allowsMultiple: boolean;
+  isAnonymous: boolean;
+  /** ISO timestamp after which votes are rejected, or null to keep the poll open */
+  closesAt: string | null;
+}
+
+/**
+ * A member who voted for an option, shown in the results sheet.
+ */
+export interface PollVoter {
+  option_id: string;
+  membership_id: string;
+  display_name: string | null;
+}
+
+/**
+ * Result of a vote toggle, applied to the local message list.
+ */
+export interface PollVoteChange {
+  messageId: string;
+  membershipId: string;
+  /** Options with their tallies after the vote */
+  options: PollOption[];
+  /** The member's votes after the vote */
+  votes: PollVote[];
+}
+
+/**
+ * A poll_options update from real time.
+ */
+export interface PollOptionUpdate {
+  id: string;
+  poll_id: string;
+  vote_count: number;
+}
+
+export interface PollsState {
+  createPoll: (conversationId: string, draft: PollDraft) => Promise<string | null>;
+  toggleVote: (message: MessageWithSender, optionId: string) => Promise<PollVoteChange | null>;
+  fetchVoters: (pollId: string) => Promise<PollVoter[]>;
+  pending: boolean;
+  error: Error | null;
+}
+
+const sortOptions = (options: PollOption[]) => [...options].sort((a, b) => a.position - b.position);
+
+/**
+ * Map a poll selected with POLL_SELECT. PostgREST returns one-to-one
+ * relations as an object, but older responses use a single-item array.
+ */
+export function mapPollRow(row: unknown): MessagePoll | null {
+  const raw = (Array.isArray(row) ? row[0] : row) as RawPollRow | null | undefined;
+  if (!raw) {
+    return null;
+  }
+
+  return {
+    id: raw.id,
+    allows_multiple: raw.allows_multiple,
+    is_anonymous: raw.is_anonymous,
+    closes_at: raw.closes_at,
+    options: sortOptions(raw.options ?? []),
+    votes: raw.votes ?? [],
+  };
+}
+
+/**
+ * Whether a poll no longer accepts votes.
+ */
+export function isPollClosed(poll: MessagePoll, now: number = Date.now()): boolean {
+  return !!poll.closes_at && new Date(poll.closes_at).getTime() <= now;
+}
+
+/**
+ * Apply a vote toggle to a message list.
+ * @returns The new messages array with the poll's tallies and the member's votes updated
+ */
+export function applyPollVoteChange(
+  prev: MessageWithSender[],
+  change: PollVoteChange
+): MessageWithSender[] {
+  return prev.map((msg) => {
+    if (msg.id !== change.messageId || !msg.poll) {
+      return msg;
+    }
+    const otherVotes = msg.poll.votes.filter((vote) => vote.membership_id !== change.membershipId);
+    return {
+      ...msg,
+      poll: { ...msg.poll, options: change.options, votes: [...otherVotes, ...change.votes] },
+    };
+  });
+}
+
+/**
+ * Set an option's tally from a real-time poll_options update.
+ * @returns The new messages array with the option's vote_count updated
+ */
+export function updatePollOption(
+  prev: MessageWithSender[],
+  update: PollOptionUpdate
+): MessageWithSender[] {
+  return prev.map((msg) => {
+    if (msg.poll?.id !== update.poll_id) {
+      return msg;
+    }
+    return {
+      ...msg,
+      poll: {
+        ...msg.poll,
+        options: msg.poll.options.map((option) =>
+          option.id === update.id ? { ...option, vote_count: update.vote_count } : option
+        ),
+      },
+    };
+  });
+}
+
+/**
+ * Hook for creating polls and voting as the current member.
+ *
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @param membershipId - The current user's membership ID
+ * @returns PollsState with createPoll, toggleVote, fetchVoters, pending, and error
+ *
+ * @example
+ * ```tsx
+ * const { toggleVote } = usePolls(tenantId, membershipId);
+ *
+ * const handleVote = async (message: MessageWithSender, optionId: string) => {
+ *   const change = await toggleVote(message, optionId);
+ *   if (change) {
+ *     setMessages((prev) => applyPollVoteChange(prev, change));
+ *   }
+ * };
+ * ```
+ */
+export function usePolls(tenantId: string | null, membershipId: string | null): PollsState {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const createPoll = useCallback(
+    async (conversationId: string, draft: PollDraft): Promise<string | null> => {
+      const question = draft.question.trim();
+      const options = draft.options.map((option) => option.trim()).filter(Boolean);
+
+      if (!tenantId || !membershipId || !question) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+      if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+        setError(new Error('Invalid number of poll options'));
+        return null;
+      }
+
+      setPending(true);
+      setError(null);
+
+      try {
+        // The message, poll, and options are created in one transaction
+        const { data, error: rpcError } = await supabase.rpc('create_poll', {
+          p_conversation_id: conversationId,
+          p_question: question,
+          p_options: options,
+          p_allows_multiple: draft.allowsMultiple,
+          p_is_anonymous: draft.isAnonymous,
+          p_closes_at: draft.closesAt,
+        });
+
+        if (rpcError) {
+          throw rpcError;
+        }
+
+        return data as string;
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setPending(false);
+      }
+    },
+    [tenantId, membershipId]
+  );
+
+  const toggleVote = useCallback(
+    async (message: MessageWithSender, optionId: string): Promise<PollVoteChange | null> => {
+      const poll = message.poll;
+      if (!tenantId || !membershipId || !poll) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+      if (isPollClosed(poll)) {
+        setError(new Error('Poll is closed'));
+        return null;
+      }
+
+      setPending(true);
+      setError(null);
+
+      try {
+        const myVotes = poll.votes.filter((vote) => vote.membership_id === membershipId);
+        const voted = myVotes.some((vote) => vote.option_id === optionId);
+
+        if (voted) {
+          const { error: deleteError } = await supabase
+            .from('poll_votes')
+            .delete()
+            .eq('option_id', optionId)
+            .eq('membership_id', membershipId);
+
+          if (deleteError) {
+            throw deleteError;
+          }
+        } else {
+          // Single-choice polls drop the previous vote in the database
+          const { error: insertError } = await supabase.from('poll_votes').insert({
+            tenant_id: tenantId,
+            conversation_id: message.conversation_id,
+            poll_id: poll.id,
+            option_id: optionId,
+            membership_id: membershipId,
+          });
+
+          if (insertError) {
+            throw insertError;
+          }
+        }
+
+        // Read the tallies back so the change doesn't depend on real time
+        const { data, error: optionsError } = await supabase
+          .from('poll_options')
+          .select('id, label, position, vote_count')
+          .eq('poll_id', poll.id)
+          .order('position', { ascending: true });
+
+        if (optionsError) {
+          throw optionsError;
+        }
+
+        const newVote: PollVote = { option_id: optionId, membership_id: membershipId };
+        const votes = voted
+          ? myVotes.filter((vote) => vote.option_id !== optionId)
+          : poll.allows_multiple
+            ? [...myVotes, newVote]
+            : [newVote];
+
+        return {
+          messageId: message.id,
+          membershipId,
+          options: sortOptions((data as PollOption[] | null) ?? poll.options),
+          votes,
+        };
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setPending(false);
+      }
+    },
+    [tenantId, membershipId]
+  );
+
+  const fetchVoters = useCallback(async (pollId: string): Promise<PollVoter[]> => {
+    setError(null);
+
+    // RLS only returns other members' votes when the poll isn't anonymous
+    const { data, error: fetchError } = await supabase
+      .from('poll_votes')
+      .select(
+        `
+          option_id,
+          membership_id,
+          membership:memberships!poll_votes_membership_id_fkey (
+            user:users!memberships_user_id_fkey (
+              display_name
+            )
+          )
+        `
+      )
+      .eq('poll_id', pollId)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) {
+      setError(fetchError as unknown as Error);
+      return [];
+    }
+
+    return (data ?? []).map((row) => {
+      const membership = row.membership as unknown as {
+        user: { display_name: string | null } | null;
+      } | null;
+
+      return {
+        option_id: row.option_id,
+        membership_id: row.membership_id,
+        display_name: membership?.user?.display_name ?? null,
+      };
+    });
+  }, []);
+
+  return {
+    createPoll,
+    toggleVote,
+    fetchVoters,
+    pending,
+    error,
+  };
+}
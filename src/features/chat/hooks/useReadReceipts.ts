@@ -0,0 +1,272 @@
+/**
+ * Hooks for per-message read receipts.
+ *
+ * Receipts are derived from `conversation_participants.last_read_at`: a
+ * message is read by every participant whose marker is at or after its
+ * created_at. The chat screen advances the current member's marker as
+ * messages scroll into view, and participant updates arrive in real time.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { MessageWithSender } from '@/types/database';
+
+export interface ParticipantReadState {
+  id: string;
+  membershipId: string;
+  displayName: string | null;
+  lastReadAt: string | null;
+}
+
+export interface MessageReadReceipt {
+  readBy: ParticipantReadState[];
+  unreadBy: ParticipantReadState[];
+  readCount: number;
+  total: number;
+}
+
+export interface ReadReceiptsState {
+  participants: ParticipantReadState[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+export interface MarkConversationReadState {
+  markRead: (readAt: string) => Promise<void>;
+  error: Error | null;
+}
+
+/**
+ * Participant update payload. Only the columns used for receipts are read.
+ */
+type ParticipantPayload =
+  | { eventType: 'UPDATE'; new: { id: string; last_read_at: string | null } }
+  | { eventType: 'INSERT' | 'DELETE' };
+
+/**
+ * Build the read receipt for a message. The sender is never counted.
+ */
+export function getMessageReadReceipt(
+  message: Pick<MessageWithSender, 'sender_id' | 'created_at'>,
+  participants: ParticipantReadState[]
+): MessageReadReceipt {
+  const sentAt = new Date(message.created_at).getTime();
+  const readBy: ParticipantReadState[] = [];
+  const unreadBy: ParticipantReadState[] = [];
+
+  for (const participant of participants) {
+    if (participant.membershipId === message.sender_id) {
+      continue;
+    }
+    if (participant.lastReadAt && new Date(participant.lastReadAt).getTime() >= sentAt) {
+      readBy.push(participant);
+    } else {
+      unreadBy.push(participant);
+    }
+  }
+
+  return {
+    readBy,
+    unreadBy,
+    readCount: readBy.length,
+    total: readBy.length + unreadBy.length,
+  };
+}
+
+/**
+ * Hook for the read markers of every participant in a conversation.
+ *
+ * @param conversationId - The conversation to load participants for
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns ReadReceiptsState with participants, loading, error, and refetch
+ *
+ * @example
+ * ```tsx
+ * const { participants } = useReadReceipts(conversationId);
+ * const receipt = getMessageReadReceipt(message, participants);
+ *
+ * return <Text>{t('chat.read_receipts.read_by', { count: receipt.readCount, total: receipt.total })}</Text>;
+ * ```
+ */
+export function useReadReceipts(
+  conversationId: string | null,
+  enableRealtime: boolean = true
+): ReadReceiptsState {
+  const [participants, setParticipants] = useState<ParticipantReadState[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchParticipants = useCallback(async () => {
+    if (!conversationId) {
+      setParticipants([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('conversation_participants')
+        .select(
+          `
+            id,
+            membership_id,
+            last_read_at,
+            membership:memberships!conversation_participants_membership_id_fkey (
+              user:users!memberships_user_id_fkey (
+                display_name
+              )
+            )
+          `
+        )
+        .eq('conversation_id', conversationId);
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const transformedData: ParticipantReadState[] =
+        data?.map((item) => {
+          const membership = item.membership as unknown as {
+            user: { display_name: string | null } | null;
+          } | null;
+
+          return {
+            id: item.id,
+            membershipId: item.membership_id,
+            displayName: membership?.user?.display_name ?? null,
+            lastReadAt: item.last_read_at,
+          };
+        }) ?? [];
+
+      setParticipants(transformedData);
+    } catch (err) {
+      setError(err as Error);
+      setParticipants([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId]);
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!conversationId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`conversation_participants:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const typedPayload = payload as unknown as ParticipantPayload;
+
+          if (typedPayload.eventType === 'UPDATE') {
+            // Read markers move often; merge them instead of refetching names
+            const { id, last_read_at } = typedPayload.new;
+            setParticipants((prev) =>
+              prev.map((p) => (p.id === id ? { ...p, lastReadAt: last_read_at } : p))
+            );
+          } else {
+            void fetchParticipants();
+          }
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for read receipts');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [conversationId, enableRealtime, fetchParticipants]);
+
+  useEffect(() => {
+    void fetchParticipants();
+  }, [fetchParticipants]);
+
+  return {
+    participants,
+    loading,
+    error,
+    refetch: fetchParticipants,
+  };
+}
+
+/**
+ * Hook for advancing the current member's read marker in a conversation.
+ * Calls with a timestamp at or before the last one sent are skipped, and the
+ * database never moves the marker backwards.
+ *
+ * @param conversationId - The conversation being read
+ * @param membershipId - The current user's membership ID
+ * @returns MarkConversationReadState with markRead and error
+ *
+ * @example
+ * ```tsx
+ * const { markRead } = useMarkConversationRead(conversationId, membershipId);
+ *
+ * <MessageList onMessageViewed={(message) => markRead(message.created_at)} />
+ * ```
+ */
+export function useMarkConversationRead(
+  conversationId: string | null,
+  membershipId: string | null
+): MarkConversationReadState {
+  const [error, setError] = useState<Error | null>(null);
+  const lastMarkedRef = useRef<{ conversationId: string; time: number } | null>(null);
+
+  const markRead = useCallback(
+    async (readAt: string) => {
+      if (!conversationId || !membershipId || !readAt) {
+        setError(new Error('Missing required parameters'));
+        return;
+      }
+
+      const time = new Date(readAt).getTime();
+      const lastMarked = lastMarkedRef.current;
+      if (lastMarked?.conversationId === conversationId && time <= lastMarked.time) {
+        return;
+      }
+      lastMarkedRef.current = { conversationId, time };
+
+      try {
+        const { error: rpcError } = await supabase.rpc('mark_conversation_read', {
+          p_conversation_id: conversationId,
+          p_read_at: readAt,
+        });
+
+        if (rpcError) {
+          throw rpcError;
+        }
+
+        setError(null);
+      } catch (err) {
+        // Allow the same position to be retried on the next scroll
+        if (lastMarkedRef.current?.time === time) {
+          lastMarkedRef.current = lastMarked;
+        }
+        setError(err as Error);
+      }
+    },
+    [conversationId, membershipId]
+  );
+
+  return {
+    markRead,
+    error,
+  };
+}
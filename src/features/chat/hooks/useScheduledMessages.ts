@@ -0,0 +1,235 @@
+/**
+ * Hook for the current member's scheduled messages in a conversation.
+ *
+ * Leaders (small_group_leader and up) can schedule text messages to be posted
+ * later. The publish-scheduled-messages Edge Function posts them when they are
+ * due; until then the author can edit or cancel them. Failed sends stay in the
+ * list so the author can reschedule or cancel them.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { ScheduledMessage } from '@/types/database';
+
+/**
+ * Roles that can schedule messages.
+ */
+export const SCHEDULE_MESSAGE_ROLES = ['small_group_leader', 'zone_leader', 'pastor', 'admin'];
+
+export interface ScheduledMessagesState {
+  /** Pending and failed messages, soonest first */
+  scheduledMessages: ScheduledMessage[];
+  loading: boolean;
+  error: Error | null;
+  scheduleMessage: (content: string, scheduledFor: string) => Promise<boolean>;
+  updateScheduledMessage: (id: string, content: string, scheduledFor: string) => Promise<boolean>;
+  cancelScheduledMessage: (id: string) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Whether a member with this role can schedule messages.
+ */
+export function canScheduleMessages(role: string | null | undefined): boolean {
+  return !!role && SCHEDULE_MESSAGE_ROLES.includes(role);
+}
+
+/**
+ * Hook for loading, scheduling, editing, and cancelling scheduled messages.
+ *
+ * @param conversationId - The conversation to load scheduled messages for
+ * @param tenantId - The tenant ID for RLS enforcement
+ * @param membershipId - The current user's membership ID
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns ScheduledMessagesState with scheduledMessages, the mutations, loading, and error
+ *
+ * @example
+ * ```tsx
+ * const { scheduleMessage } = useScheduledMessages(conversationId, tenantId, membershipId);
+ *
+ * const saturdayEvening = new Date(2025, 0, 25, 20, 0).toISOString();
+ * await scheduleMessage('See you tonight at 8!', saturdayEvening);
+ * ```
+ */
+export function useScheduledMessages(
+  conversationId: string | null,
+  tenantId: string | null,
+  membershipId: string | null,
+  enableRealtime: boolean = true
+): ScheduledMessagesState {
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchScheduledMessages = useCallback(async () => {
+    if (!conversationId || !tenantId || !membershipId) {
+      setScheduledMessages([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('scheduled_messages')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .eq('tenant_id', tenantId)
+        .eq('sender_id', membershipId)
+        .in('status', ['pending', 'failed'])
+        .order('scheduled_for', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setScheduledMessages((data as ScheduledMessage[] | null) ?? []);
+    } catch (err) {
+      setError(err as Error);
+      setScheduledMessages([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, tenantId, membershipId]);
+
+  const scheduleMessage = useCallback(
+    async (content: string, scheduledFor: string): Promise<boolean> => {
+      const trimmed = content.trim();
+      if (!conversationId || !tenantId || !membershipId || !trimmed) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+      if (new Date(scheduledFor).getTime() <= Date.now()) {
+        setError(new Error('Scheduled time must be in the future'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: insertError } = await supabase.from('scheduled_messages').insert({
+        tenant_id: tenantId,
+        conversation_id: conversationId,
+        sender_id: membershipId,
+        content: trimmed,
+        scheduled_for: scheduledFor,
+      });
+
+      if (insertError) {
+        setError(insertError as unknown as Error);
+        return false;
+      }
+
+      await fetchScheduledMessages();
+      return true;
+    },
+    [conversationId, tenantId, membershipId, fetchScheduledMessages]
+  );
+
+  const updateScheduledMessage = useCallback(
+    async (id: string, content: string, scheduledFor: string): Promise<boolean> => {
+      const trimmed = content.trim();
+      if (!tenantId || !trimmed) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+      if (new Date(scheduledFor).getTime() <= Date.now()) {
+        setError(new Error('Scheduled time must be in the future'));
+        return false;
+      }
+
+      setError(null);
+
+      // Saving a failed message schedules it again
+      const { error: updateError } = await supabase
+        .from('scheduled_messages')
+        .update({ content: trimmed, scheduled_for: scheduledFor, status: 'pending', error: null })
+        .eq('id', id)
+        .eq('tenant_id', tenantId);
+
+      if (updateError) {
+        setError(updateError as unknown as Error);
+        return false;
+      }
+
+      await fetchScheduledMessages();
+      return true;
+    },
+    [tenantId, fetchScheduledMessages]
+  );
+
+  const cancelScheduledMessage = useCallback(
+    async (id: string): Promise<boolean> => {
+      if (!tenantId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      setError(null);
+
+      const { error: deleteError } = await supabase
+        .from('scheduled_messages')
+        .delete()
+        .eq('id', id)
+        .eq('tenant_id', tenantId);
+
+      if (deleteError) {
+        setError(deleteError as unknown as Error);
+        return false;
+      }
+
+      setScheduledMessages((prev) => prev.filter((message) => message.id !== id));
+      return true;
+    },
+    [tenantId]
+  );
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!conversationId || !membershipId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`scheduled_messages:${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'scheduled_messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          // The scheduler claimed, sent, or failed a message
+          void fetchScheduledMessages();
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for scheduled messages');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [conversationId, membershipId, enableRealtime, fetchScheduledMessages]);
+
+  useEffect(() => {
+    void fetchScheduledMessages();
+  }, [fetchScheduledMessages]);
+
+  return {
+    scheduledMessages,
+    loading,
+    error,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+    refetch: fetchScheduledMessages,
+  };
+}
@@ -3,69 +3,20 @@
  *
  * Provides a mutation function for sending messages with tenant isolation.
  * Supports Event Chat mode for selective message visibility.
+ * Messages go through the persisted outbox, so a send that fails is kept and
+ * retried in the background instead of being lost.
  */
 
 import { useCallback, useState } from 'react';
-import { supabase } from '@/lib/supabase';
-import type { MessageContentType, MessageWithSender } from '@/types/database';
-
-/**
- * Type for the raw data returned from Supabase when inserting a message
- * with sender relation joined.
- */
-interface MessageInsertResult {
-  id: string;
-  tenant_id: string;
-  conversation_id: string;
-  sender_id: string;
-  parent_id: string | null;
-  quoted_message_id: string | null;
-  content: string;
-  content_type: string;
-  is_event_chat: boolean;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  sender: {
-    id: string;
-    user: {
-      id: string;
-      display_name: string | null;
-      photo_url: string | null;
-    };
-  };
-}
-
-/**
- * Type for the raw data returned from Supabase when inserting a reply
- * with only sender relation joined.
- */
-interface ReplyInsertResult {
-  id: string;
-  tenant_id: string;
-  conversation_id: string;
-  sender_id: string;
-  parent_id: string | null;
-  content: string;
-  content_type: string;
-  is_event_chat: boolean;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-  sender: {
-    id: string;
-    user: {
-      id: string;
-      display_name: string | null;
-      photo_url: string | null;
-    };
-  };
-}
+import type { MessageContentType, MessageMention, MessageWithSender } from '@/types/database';
+import { useOutboxStore } from '../store/outboxStore';
+import { createOutboxEntry, sendOutboxEntry } from './useMessageOutbox';
 
 export interface SendMessageOptions {
   content: string;
   contentType?: MessageContentType;
   excludedMembershipIds?: string[]; // For Event Chat
+  mentions?: MessageMention[];
   quoteAttachment?: {
     messageId: string;
     senderName: string;
@@ -136,7 +87,13 @@ export function useSendMessage(
 
   const sendMessageWithOptions = useCallback(
     async (options: SendMessageOptions): Promise<MessageWithSender | null> => {
-      const { content, contentType = 'text', excludedMembershipIds, quoteAttachment } = options;
+      const {
+        content,
+        contentType = 'text',
+        excludedMembershipIds,
+        mentions,
+        quoteAttachment,
+      } = options;
 
       if (!conversationId || !tenantId || !senderMembershipId) {
         setError(new Error('Missing required parameters'));
@@ -163,116 +120,27 @@ export function useSendMessage(
         }
       }
 
+      const entry = createOutboxEntry({
+        tenantId,
+        conversationId,
+        senderMembershipId,
+        content: content.trim(),
+        contentType,
+        excludedMembershipIds,
+        mentions,
+        quoteAttachment,
+      });
+      useOutboxStore.getState().enqueue(entry);
+
       setSending(true);
       setError(null);
 
       try {
-        const isEventChat = excludedMembershipIds && excludedMembershipIds.length > 0;
-
-        const { data, error: insertError } = await supabase
-          .from('messages')
-          .insert({
-            tenant_id: tenantId,
-            conversation_id: conversationId,
-            sender_id: senderMembershipId,
-            content: content.trim(),
-            content_type: contentType,
-            is_event_chat: isEventChat,
-            quoted_message_id: quoteAttachment?.messageId || null,
-          })
-          .select(
-            `
-            id,
-            tenant_id,
-            conversation_id,
-            sender_id,
-            parent_id,
-            quoted_message_id,
-            content,
-            content_type,
-            is_event_chat,
-            created_at,
-            updated_at,
-            deleted_at,
-            sender:memberships!messages_sender_id_fkey (
-              id,
-              user:users!memberships_user_id_fkey (
-                id,
-                display_name,
-                photo_url
-              )
-            )
-          `
-          )
-          .single<MessageInsertResult>();
-
-        if (insertError) {
-          throw insertError;
-        }
-
-        // If Event Chat, insert exclusions after message creation
-        if (data && isEventChat && excludedMembershipIds) {
-          const exclusions = excludedMembershipIds.map((membershipId) => ({
-            message_id: data.id,
-            excluded_membership_id: membershipId,
-            tenant_id: tenantId,
-          }));
-
-          const { error: exclusionsError } = await supabase
-            .from('event_chat_exclusions')
-            .insert(exclusions);
-
-          if (exclusionsError) {
-            // Log error but don't fail the message send
-            console.error('Failed to insert event chat exclusions:', exclusionsError);
-          }
-        }
-
-        // Update conversation updated_at to move it to top of list
-        await supabase
-          .from('conversations')
-          .update({ updated_at: new Date().toISOString() })
-          .eq('id', conversationId);
-
-        // Transform data to match MessageWithSender type
-        if (data) {
-          return {
-            id: data.id,
-            tenant_id: data.tenant_id,
-            conversation_id: data.conversation_id,
-            sender_id: data.sender_id,
-            parent_id: data.parent_id,
-            quoted_message_id: data.quoted_message_id,
-            content: data.content,
-            content_type: data.content_type as MessageContentType,
-            is_event_chat: data.is_event_chat,
-            created_at: data.created_at,
-            updated_at: data.updated_at,
-            deleted_at: data.deleted_at,
-            // Flatten user data into sender object to match MessageWithSender type
-            sender: {
-              id: data.sender?.id ?? '',
-              display_name: data.sender?.user?.display_name ?? null,
-              photo_url: data.sender?.user?.photo_url ?? null,
-            },
-            // Use quoteAttachment data instead of joining quoted_message table
-            quoted_message: quoteAttachment
-              ? {
-                  id: quoteAttachment.messageId,
-                  content: quoteAttachment.content,
-                  sender: {
-                    id: '', // Not available in quoteAttachment
-                    display_name: quoteAttachment.senderName,
-                  },
-                }
-              : null,
-          } as MessageWithSender;
-        }
-
-        return null;
+        return await sendOutboxEntry(entry.id);
       } catch (err) {
+        // The message stays in the outbox and is retried in the background
         setError(err as Error);
-        throw err;
+        return null;
       } finally {
         setSending(false);
       }
@@ -340,92 +208,25 @@ export function useSendReply(
         return null;
       }
 
+      const entry = createOutboxEntry({
+        tenantId,
+        conversationId,
+        senderMembershipId,
+        parentId: parentMessageId,
+        content: content.trim(),
+        contentType,
+      });
+      useOutboxStore.getState().enqueue(entry);
+
       setSending(true);
       setError(null);
 
       try {
-        // Check if parent message already has a parent (prevent nested threads)
-        const { data: parentMessage, error: parentError } = await supabase
-          .from('messages')
-          .select('parent_id')
-          .eq('id', parentMessageId)
-          .eq('tenant_id', tenantId)
-          .single();
-
-        if (parentError) {
-          throw new Error('Failed to verify parent message');
-        }
-
-        if (parentMessage?.parent_id) {
-          throw new Error('Cannot reply to a reply');
-        }
-
-        const { data, error: insertError } = await supabase
-          .from('messages')
-          .insert({
-            tenant_id: tenantId,
-            conversation_id: conversationId,
-            sender_id: senderMembershipId,
-            parent_id: parentMessageId,
-            content: content.trim(),
-            content_type: contentType,
-          })
-          .select(
-            `
-            id,
-            tenant_id,
-            conversation_id,
-            sender_id,
-            parent_id,
-            content,
-            content_type,
-            is_event_chat,
-            created_at,
-            updated_at,
-            deleted_at,
-            sender:memberships!messages_sender_id_fkey (
-              id,
-              user:users!memberships_user_id_fkey (
-                id,
-                display_name,
-                photo_url
-              )
-            )
-          `
-          )
-          .single<ReplyInsertResult>();
-
-        if (insertError) {
-          throw insertError;
-        }
-
-        // Transform data to match MessageWithSender type
-        if (data) {
-          return {
-            id: data.id,
-            tenant_id: data.tenant_id,
-            conversation_id: data.conversation_id,
-            sender_id: data.sender_id,
-            parent_id: data.parent_id,
-            content: data.content,
-            content_type: data.content_type as MessageContentType,
-            is_event_chat: data.is_event_chat,
-            created_at: data.created_at,
-            updated_at: data.updated_at,
-            deleted_at: data.deleted_at,
-            // Flatten user data into sender object to match MessageWithSender type
-            sender: {
-              id: data.sender?.id ?? '',
-              display_name: data.sender?.user?.display_name ?? null,
-              photo_url: data.sender?.user?.photo_url ?? null,
-            },
-          } as MessageWithSender;
-        }
-
-        return null;
+        return await sendOutboxEntry(entry.id);
       } catch (err) {
+        // The reply stays in the outbox and is retried in the background
         setError(err as Error);
-        throw err;
+        return null;
       } finally {
         setSending(false);
       }
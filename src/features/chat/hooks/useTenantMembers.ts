@@ -0,0 +1,113 @@
+/**
+ * Hook for fetching the members that can be added to a conversation.
+ *
+ * Provides the tenant's active members, in 가나다 order, for the member picker
+ * used when starting a chat or adding people to a group.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { compareKorean } from '@/lib/hangul';
+
+/**
+ * A member shown in the member picker.
+ */
+export interface TenantMember {
+  membershipId: string;
+  displayName: string;
+  photoUrl: string | null;
+}
+
+export interface TenantMembersState {
+  members: TenantMember[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for fetching active members within a tenant.
+ *
+ * @param tenantId - The tenant ID to fetch members for
+ * @returns TenantMembersState with members sorted by display name
+ *
+ * @example
+ * ```tsx
+ * function NewChat() {
+ *   const { tenantId, membershipId } = useRequireAuth();
+ *   const { members } = useTenantMembers(tenantId);
+ *   const others = members.filter((member) => member.membershipId !== membershipId);
+ *
+ *   return <MemberPicker members={others} selectedIds={selectedIds} onToggle={toggle} />;
+ * }
+ * ```
+ */
+export function useTenantMembers(tenantId: string | null): TenantMembersState {
+  const [members, setMembers] = useState<TenantMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    if (!tenantId) {
+      setMembers([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('memberships')
+        .select(
+          `
+          id,
+          user:users!memberships_user_id_fkey (
+            display_name,
+            photo_url
+          )
+        `
+        )
+        .eq('tenant_id', tenantId)
+        .eq('status', 'active');
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const tenantMembers: TenantMember[] = (data ?? []).map((item) => {
+        const user = item.user as unknown as {
+          display_name: string | null;
+          photo_url: string | null;
+        } | null;
+
+        return {
+          membershipId: item.id,
+          displayName: user?.display_name ?? '',
+          photoUrl: user?.photo_url ?? null,
+        };
+      });
+
+      tenantMembers.sort((a, b) => compareKorean(a.displayName, b.displayName));
+      setMembers(tenantMembers);
+    } catch (err) {
+      setError(err as Error);
+      setMembers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    void fetchMembers();
+  }, [fetchMembers]);
+
+  return {
+    members,
+    loading,
+    error,
+    refetch: fetchMembers,
+  };
+}
@@ -1,12 +1,15 @@
 /**
  * Hook for fetching thread messages (replies to a parent message).
  *
- * Provides paginated messages for a specific thread.
+ * Provides paginated messages for a specific thread, paged with a
+ * (created_at, id) cursor. Deleted replies (and a deleted parent) are returned
+ * as tombstones so they can be shown in place.
  */
 
 import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import type { MessageWithSender, MessageContentType } from '@/types/database';
+import { getMessageCursor, newerThanCursor } from '../utils/messageCursor';
 
 const PAGE_SIZE = 50;
 
@@ -56,7 +59,6 @@ export function useThreadMessages(
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [hasMore, setHasMore] = useState(true);
-  const [offset, setOffset] = useState(0);
 
   // Fetch parent message
   const fetchParentMessage = useCallback(async () => {
@@ -81,6 +83,7 @@ export function useThreadMessages(
           created_at,
           updated_at,
           deleted_at,
+          edited_at,
           sender:memberships!messages_sender_id_fkey (
             id,
             user:users!memberships_user_id_fkey (
@@ -93,7 +96,6 @@ export function useThreadMessages(
         )
         .eq('id', parentMessageId)
         .eq('tenant_id', tenantId)
-        .is('deleted_at', null)
         .single();
 
       if (fetchError) {
@@ -118,6 +120,7 @@ export function useThreadMessages(
           created_at: data.created_at,
           updated_at: data.updated_at,
           deleted_at: data.deleted_at,
+          edited_at: data.edited_at,
           // Flatten user data into sender object to match MessageWithSender type
           sender: {
             id: sender?.id ?? '',
@@ -142,7 +145,6 @@ export function useThreadMessages(
       }
 
       if (reset) {
-        setOffset(0);
         setHasMore(true);
       }
 
@@ -150,9 +152,10 @@ export function useThreadMessages(
       setError(null);
 
       try {
-        const currentOffset = reset ? 0 : offset;
+        // Later pages continue from the newest loaded reply
+        const newest = reset ? undefined : messages[messages.length - 1];
 
-        const { data, error: fetchError } = await supabase
+        let query = supabase
           .from('messages')
           .select(
             `
@@ -167,6 +170,7 @@ export function useThreadMessages(
             created_at,
             updated_at,
             deleted_at,
+            edited_at,
             sender:memberships!messages_sender_id_fkey (
               id,
               user:users!memberships_user_id_fkey (
@@ -178,10 +182,16 @@ export function useThreadMessages(
           `
           )
           .eq('parent_id', parentMessageId)
-          .eq('tenant_id', tenantId)
-          .is('deleted_at', null)
+          .eq('tenant_id', tenantId);
+
+        if (newest) {
+          query = query.or(newerThanCursor(getMessageCursor(newest)));
+        }
+
+        const { data, error: fetchError } = await query
           .order('created_at', { ascending: true }) // Chronological order (oldest first)
-          .range(currentOffset, currentOffset + PAGE_SIZE - 1);
+          .order('id', { ascending: true })
+          .limit(PAGE_SIZE);
 
         if (fetchError) {
           throw fetchError;
@@ -205,6 +215,7 @@ export function useThreadMessages(
             created_at: msg.created_at,
             updated_at: msg.updated_at,
             deleted_at: msg.deleted_at,
+            edited_at: msg.edited_at,
             // Flatten user data into sender object to match MessageWithSender type
             sender: {
               id: sender?.id ?? '',
@@ -224,7 +235,6 @@ export function useThreadMessages(
         }
 
         setHasMore(data?.length === PAGE_SIZE);
-        setOffset(currentOffset + (data?.length || 0));
       } catch (err) {
         setError(err as Error);
         if (reset) {
@@ -234,7 +244,7 @@ export function useThreadMessages(
         setLoading(false);
       }
     },
-    [parentMessageId, tenantId, offset]
+    [parentMessageId, tenantId, messages]
   );
 
   const loadMore = useCallback(async () => {
@@ -266,25 +276,36 @@ export function useThreadMessages(
 /**
  * Add a new reply to the thread messages list.
  * Used by the real-time subscription hook.
- * @returns The new messages array with the reply appended
+ * @returns The new messages array with the reply appended, or replaced if already present
  */
 export function appendThreadMessage(
   prev: MessageWithSender[],
   newMessage: MessageWithSender
 ): MessageWithSender[] {
+  // Realtime can redeliver a message the list already has (e.g. after a refetch)
+  if (prev.some((msg) => msg.id === newMessage.id)) {
+    return prev.map((msg) => (msg.id === newMessage.id ? { ...msg, ...newMessage } : msg));
+  }
   return [...prev, newMessage];
 }
 
 /**
  * Update a reply in the thread messages list.
- * Used by the real-time subscription hook for message edits.
+ * Used by the real-time subscription hook for message edits and deletes.
+ * Fields missing from the update are kept from the existing reply.
  * @returns The new messages array with the message updated
  */
 export function updateThreadMessage(
   prev: MessageWithSender[],
-  updatedMessage: MessageWithSender
+  updatedMessage: Partial<MessageWithSender> & { id: string }
 ): MessageWithSender[] {
-  return prev.map((msg) => (msg.id === updatedMessage.id ? updatedMessage : msg));
+  return prev.map((msg) => {
+    if (msg.id !== updatedMessage.id) {
+      return msg;
+    }
+    const merged = { ...msg, ...updatedMessage };
+    return merged.deleted_at ? { ...merged, content: null, reactions: [] } : merged;
+  });
 }
 
 /**
@@ -1,4 +1,6 @@
 export { useChatStore } from './store/chatStore';
 export type { QuoteAttachment } from './store/chatStore';
+export { useOutboxStore } from './store/outboxStore';
+export type { OutboxEntry, OutboxEntryStatus, OutboxAttachment } from './store/outboxStore';
 export { ChatScreen } from './screens/ChatScreen';
 export type { ChatScreenProps, ChatScreenHandle } from './screens/ChatScreen';
@@ -2,7 +2,7 @@
  * Chat Screen Container
  *
  * Main chat screen that integrates:
- * - MessageList with blur effect
+ * - MessageList with blur effect and read receipts
  * - MessageActionSheet for message actions
  * - MessageInput with quote preview support
  *
@@ -10,17 +10,24 @@
  * - Reply in thread: Navigate to thread view
  * - Quote in reply: Set quote attachment in store
  * - Copy text: Copy to clipboard with toast
+ * - React: Toggle an emoji reaction (also from the chips under each message)
+ * - Edit: Load own message into the composer (within the tenant's edit window)
+ * - Delete: Confirm, then soft-delete own message (within the edit window)
+ * - Edit history: Admin-only list of previous versions
  */
 
 import { useCallback, useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { useRouter } from 'expo-router';
-import { View } from 'react-native';
+import { Alert, View } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
 import { useTranslation } from '@/i18n';
 import { Toast } from '@/components/ui/Toast';
 import { useChatStore } from '../store/chatStore';
 import { MessageList } from '../components/MessageList';
 import { MessageActionSheet } from '../components/MessageActionSheet';
+import { canDeleteMessage, canEditMessage } from '../hooks/useMessageEdits';
+import { canForwardMessage } from '../hooks/useForwardMessage';
+import type { MessageReadReceipt } from '../hooks/useReadReceipts';
 import type { MessageWithSender, ConversationType } from '@/types/database';
 import type { MessageListHandle } from '../components/MessageList';
 
@@ -61,6 +68,11 @@ export interface ChatScreenProps {
    */
   hasMore?: boolean;
 
+  /**
+   * Whether newer messages exist below the loaded ones.
+   */
+  hasNewer?: boolean;
+
   /**
    * Error to display, if any.
    */
@@ -81,11 +93,86 @@ export interface ChatScreenProps {
    */
   onLoadMore?: () => void;
 
+  /**
+   * Callback to load newer messages.
+   */
+  onLoadNewer?: () => void;
+
   /**
    * Callback when sender avatar is pressed.
    */
   onSenderPress?: (membershipId: string) => void;
 
+  /**
+   * Callback to add or remove the current user's emoji reaction on a message.
+   */
+  onToggleReaction?: (message: MessageWithSender, emoji: string) => void;
+
+  /**
+   * Callback to toggle the current user's vote on a poll option.
+   */
+  onPollVote?: (message: MessageWithSender, optionId: string) => void;
+
+  /**
+   * Callback to open a poll's results.
+   */
+  onPollResultsPress?: (message: MessageWithSender) => void;
+
+  /**
+   * The tenant's edit window in minutes. Edit and Delete are only offered when set.
+   */
+  editWindowMinutes?: number;
+
+  /**
+   * Callback to soft-delete a message, called after the user confirms.
+   */
+  onDeleteMessage?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback to show a message's edit history. Pass only for admins.
+   */
+  onViewEditHistory?: (message: MessageWithSender) => void;
+
+  /**
+   * IDs of the conversation's pinned messages.
+   */
+  pinnedMessageIds?: string[];
+
+  /**
+   * Callback to pin a message. Pin and Unpin are only offered when both callbacks are set.
+   */
+  onPinMessage?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback to unpin a message.
+   */
+  onUnpinMessage?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback to forward a message. Forward is only offered for messages that can be forwarded.
+   */
+  onForwardMessage?: (message: MessageWithSender) => void;
+
+  /**
+   * Returns the read receipt shown under the current user's own messages.
+   */
+  getReadReceipt?: (message: MessageWithSender) => MessageReadReceipt | null;
+
+  /**
+   * Called with the newest message scrolled into view, to advance the read marker.
+   */
+  onMessageViewed?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback when a failed message is tapped to send it again.
+   */
+  onRetryMessage?: (message: MessageWithSender) => void;
+
+  /**
+   * Callback to remove a failed message instead of retrying it.
+   */
+  onDiscardMessage?: (message: MessageWithSender) => void;
+
   /**
    * Whether to show thread indicators on messages.
    */
@@ -113,11 +200,27 @@ export const ChatScreen = forwardRef<ChatScreenHandle, ChatScreenProps>(function
     loading,
     loadingMore,
     hasMore,
+    hasNewer,
     error,
     conversationType,
     currentUserId,
     onLoadMore,
+    onLoadNewer,
     onSenderPress,
+    onToggleReaction,
+    onPollVote,
+    onPollResultsPress,
+    editWindowMinutes,
+    onDeleteMessage,
+    onViewEditHistory,
+    pinnedMessageIds,
+    onPinMessage,
+    onUnpinMessage,
+    onForwardMessage,
+    getReadReceipt,
+    onMessageViewed,
+    onRetryMessage,
+    onDiscardMessage,
     showThreadIndicators,
     testID,
   }: ChatScreenProps,
@@ -125,7 +228,8 @@ export const ChatScreen = forwardRef<ChatScreenHandle, ChatScreenProps>(function
 ) {
   const router = useRouter();
   const { t } = useTranslation();
-  const { selectedMessage, setSelectedMessage, setQuoteAttachment } = useChatStore();
+  const { selectedMessage, setSelectedMessage, setQuoteAttachment, setEditingMessage } =
+    useChatStore();
 
   // Internal ref for MessageList
   const messageListRef = useRef<MessageListHandle | null>(null);
@@ -202,6 +306,55 @@ export const ChatScreen = forwardRef<ChatScreenHandle, ChatScreenProps>(function
       });
   }, []);
 
+  // Handle delete - confirm before soft-deleting
+  const handleDelete = useCallback(
+    (message: MessageWithSender) => {
+      Alert.alert(t('chat.delete_message'), t('chat.message.deleteConfirm'), [
+        { text: t('chat.cancel'), style: 'cancel' },
+        {
+          text: t('chat.message.delete'),
+          style: 'destructive',
+          onPress: () => onDeleteMessage?.(message),
+        },
+      ]);
+    },
+    [onDeleteMessage, t]
+  );
+
+  // Edit and delete are limited to own messages inside the edit window
+  const canEditSelected =
+    !!selectedMessage &&
+    editWindowMinutes !== undefined &&
+    canEditMessage(selectedMessage, currentUserId, editWindowMinutes);
+  const canDeleteSelected =
+    !!selectedMessage &&
+    editWindowMinutes !== undefined &&
+    !!onDeleteMessage &&
+    canDeleteMessage(selectedMessage, currentUserId, editWindowMinutes);
+
+  // Sent, visible messages can be pinned
+  const canPinSelected =
+    !!selectedMessage &&
+    !!onPinMessage &&
+    !!onUnpinMessage &&
+    !selectedMessage.deleted_at &&
+    !selectedMessage.send_status &&
+    selectedMessage.content_type !== 'system';
+  const isSelectedPinned = !!selectedMessage && !!pinnedMessageIds?.includes(selectedMessage.id);
+  const canForwardSelected =
+    !!selectedMessage && !!onForwardMessage && canForwardMessage(selectedMessage);
+
+  const handleTogglePin = useCallback(
+    (message: MessageWithSender) => {
+      if (pinnedMessageIds?.includes(message.id)) {
+        onUnpinMessage?.(message);
+      } else {
+        onPinMessage?.(message);
+      }
+    },
+    [pinnedMessageIds, onPinMessage, onUnpinMessage]
+  );
+
   // Handle action sheet dismiss
   const handleDismissActionSheet = useCallback(() => {
     setSelectedMessage(null);
@@ -218,12 +371,21 @@ export const ChatScreen = forwardRef<ChatScreenHandle, ChatScreenProps>(function
           loading={loading}
           loadingMore={loadingMore}
           hasMore={hasMore}
+          hasNewer={hasNewer}
           error={error}
           conversationType={conversationType}
           currentUserId={currentUserId}
           onLoadMore={onLoadMore}
+          onLoadNewer={onLoadNewer}
           onMessagePress={handleMessagePress}
           onSenderPress={onSenderPress}
+          onReactionPress={onToggleReaction}
+          onPollVote={onPollVote}
+          onPollResultsPress={onPollResultsPress}
+          getReadReceipt={getReadReceipt}
+          onMessageViewed={onMessageViewed}
+          onRetryMessage={onRetryMessage}
+          onDiscardMessage={onDiscardMessage}
           showThreadIndicators={showThreadIndicators}
           testID={testID}
         />
@@ -238,6 +400,13 @@ export const ChatScreen = forwardRef<ChatScreenHandle, ChatScreenProps>(function
           onReplyInThread={handleReplyInThread}
           onQuoteInReply={handleQuoteInReply}
           onCopyText={handleCopyText}
+          onForward={canForwardSelected ? onForwardMessage : undefined}
+          onReact={onToggleReaction}
+          onEdit={canEditSelected ? setEditingMessage : undefined}
+          onDelete={canDeleteSelected ? handleDelete : undefined}
+          onViewEditHistory={selectedMessage.edited_at ? onViewEditHistory : undefined}
+          onTogglePin={canPinSelected ? handleTogglePin : undefined}
+          isPinned={isSelectedPinned}
           replyCount={selectedMessage.reply_count}
         />
       )}
@@ -4,6 +4,7 @@
  * Manages state for chat screen UI interactions:
  * - Selected message for action menu
  * - Quote attachment for composer
+ * - Message being edited in the composer
  */
 
 import { create } from 'zustand';
@@ -25,6 +26,11 @@ interface ChatScreenState {
   quoteAttachment: QuoteAttachment | null;
   setQuoteAttachment: (quote: QuoteAttachment | null) => void;
   clearQuoteAttachment: () => void;
+
+  // Message edit
+  editingMessage: MessageWithSender | null;
+  setEditingMessage: (message: MessageWithSender | null) => void;
+  clearEditingMessage: () => void;
 }
 
 /**
@@ -39,4 +45,9 @@ export const useChatStore = create<ChatScreenState>((set) => ({
   quoteAttachment: null,
   setQuoteAttachment: (quote) => set({ quoteAttachment: quote }),
   clearQuoteAttachment: () => set({ quoteAttachment: null }),
+
+  // Message edit (editing and quoting are mutually exclusive)
+  editingMessage: null,
+  setEditingMessage: (message) => set({ editingMessage: message, quoteAttachment: null }),
+  clearEditingMessage: () => set({ editingMessage: null }),
 }));
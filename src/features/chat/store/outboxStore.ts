@@ -0,0 +1,134 @@
+/**
+ * Chat Outbox Store
+ *
+ * Persists messages that have not reached the server yet so they survive
+ * network drops and app restarts. Each entry carries a client-generated ID
+ * that becomes the message's ID, so retries and the realtime echo can be
+ * matched back to the optimistic copy.
+ *
+ * Entries record the signed-in user who wrote them. Only the current user's
+ * entries are sent or shown, and sign-out clears the outbox.
+ */
+
+import { create } from 'zustand';
+import { createJSONStorage, persist } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { MessageContentType, MessageMention, MessageWithSender } from '@/types/database';
+import type { QuoteAttachment } from './chatStore';
+
+/**
+ * - pending: waiting for its next attempt
+ * - sending: an attempt is in flight
+ * - failed: out of retries (or rejected by the server), waiting for a manual retry
+ * - sent: delivered, kept in memory until the message list has the server copy
+ */
+export type OutboxEntryStatus = 'pending' | 'sending' | 'failed' | 'sent';
+
+/**
+ * A local file waiting to be uploaded with its message.
+ */
+export interface OutboxAttachment {
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  /** Set once the file is in storage so retries skip the upload */
+  uploadedUrl: string | null;
+}
+
+export interface OutboxEntry {
+  /** Client-generated ID, used as the message ID */
+  id: string;
+  /** Auth user who wrote the message */
+  userId: string | null;
+  tenantId: string;
+  conversationId: string;
+  senderMembershipId: string;
+  parentId: string | null;
+  content: string;
+  contentType: MessageContentType;
+  excludedMembershipIds: string[];
+  mentions: MessageMention[];
+  quoteAttachment: QuoteAttachment | null;
+  attachment: OutboxAttachment | null;
+  status: OutboxEntryStatus;
+  attempts: number;
+  /** Epoch milliseconds of the next automatic attempt */
+  nextAttemptAt: number;
+  /** Whether the message row exists, so retries only finish the remaining steps */
+  inserted: boolean;
+  lastError: string | null;
+  createdAt: string;
+  /** Server copy of the message once sent */
+  message: MessageWithSender | null;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  /** Signed-in user whose entries are sent and shown (set by useOutboxProcessor) */
+  userId: string | null;
+  enqueue: (entry: OutboxEntry) => void;
+  updateEntry: (id: string, changes: Partial<OutboxEntry>) => void;
+  removeEntry: (id: string) => void;
+  setUserId: (userId: string | null) => void;
+  /** Drop every entry, e.g. on sign-out */
+  clear: () => void;
+}
+
+/**
+ * Outbox store with persistence using AsyncStorage.
+ * Sent entries are not persisted; attempts that were in flight when the app
+ * closed are resumed as pending.
+ */
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set) => ({
+      entries: [],
+      userId: null,
+
+      enqueue: (entry) => set((state) => ({ entries: [...state.entries, entry] })),
+
+      updateEntry: (id, changes) =>
+        set((state) => ({
+          entries: state.entries.map((entry) =>
+            entry.id === id ? { ...entry, ...changes } : entry
+          ),
+        })),
+
+      removeEntry: (id) =>
+        set((state) => ({ entries: state.entries.filter((entry) => entry.id !== id) })),
+
+      setUserId: (userId) => set({ userId }),
+
+      clear: () => set({ entries: [] }),
+    }),
+    {
+      name: 'gagyo-chat-outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        entries: state.entries.filter((entry) => entry.status !== 'sent'),
+      }),
+      merge: (persisted, current) => {
+        const persistedEntries = ((persisted as Partial<OutboxState> | undefined)?.entries ?? [])
+          // Entries queued before users were recorded can't be attributed
+          .filter((entry) => !!entry.userId)
+          .map((entry) => ({
+            ...entry,
+            // Entries queued before mentions existed have none
+            mentions: entry.mentions ?? [],
+            status: entry.status === 'sending' ? ('pending' as const) : entry.status,
+          }));
+        const persistedIds = new Set(persistedEntries.map((entry) => entry.id));
+
+        // Keep anything enqueued before hydration finished
+        return {
+          ...current,
+          entries: [
+            ...persistedEntries,
+            ...current.entries.filter((entry) => !persistedIds.has(entry.id)),
+          ],
+        };
+      },
+    }
+  )
+);
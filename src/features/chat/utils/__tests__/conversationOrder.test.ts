@@ -0,0 +1,72 @@
+/**
+ * Unit tests for chat list ordering helpers.
+ */
+
+import { partitionArchivedConversations, sortConversations } from '../conversationOrder';
+import type { ConversationWithLastMessage } from '@/types/database';
+
+function conversation(
+  id: string,
+  lastMessageAt: string | null,
+  settings: { pinned_at?: string | null; archived_at?: string | null } = {}
+): ConversationWithLastMessage {
+  return {
+    id,
+    tenant_id: 'tenant-1',
+    type: 'direct',
+    name: id,
+    small_group_id: null,
+    ministry_id: null,
+    is_group: false,
+    direct_key: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-02T00:00:00Z',
+    last_message: lastMessageAt
+      ? {
+          id: `${id}-message`,
+          content: 'hello',
+          content_type: 'text',
+          created_at: lastMessageAt,
+          sender: { id: 'membership-1', display_name: 'Kim' },
+        }
+      : null,
+    unread_count: 0,
+    pinned_at: settings.pinned_at ?? null,
+    archived_at: settings.archived_at ?? null,
+  };
+}
+
+describe('sortConversations', () => {
+  it('orders conversations by latest activity', () => {
+    const sorted = sortConversations([
+      conversation('older', '2025-01-10T00:00:00Z'),
+      conversation('newer', '2025-01-12T00:00:00Z'),
+      conversation('empty', null),
+    ]);
+
+    expect(sorted.map((c) => c.id)).toEqual(['newer', 'older', 'empty']);
+  });
+
+  it('puts pinned conversations first, most recently pinned on top', () => {
+    const sorted = sortConversations([
+      conversation('recent', '2025-01-20T00:00:00Z'),
+      conversation('pinned-first', '2025-01-01T00:00:00Z', { pinned_at: '2025-01-05T00:00:00Z' }),
+      conversation('pinned-later', '2025-01-02T00:00:00Z', { pinned_at: '2025-01-06T00:00:00Z' }),
+    ]);
+
+    expect(sorted.map((c) => c.id)).toEqual(['pinned-later', 'pinned-first', 'recent']);
+  });
+});
+
+describe('partitionArchivedConversations', () => {
+  it('moves archived conversations to their own sorted list', () => {
+    const { active, archived } = partitionArchivedConversations([
+      conversation('event-old', '2025-01-01T00:00:00Z', { archived_at: '2025-01-03T00:00:00Z' }),
+      conversation('group', '2025-01-10T00:00:00Z'),
+      conversation('event-new', '2025-01-02T00:00:00Z', { archived_at: '2025-01-03T00:00:00Z' }),
+    ]);
+
+    expect(active.map((c) => c.id)).toEqual(['group']);
+    expect(archived.map((c) => c.id)).toEqual(['event-new', 'event-old']);
+  });
+});
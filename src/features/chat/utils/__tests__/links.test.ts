@@ -0,0 +1,44 @@
+/**
+ * Unit tests for chat link helpers.
+ */
+
+import { extractFirstUrl } from '../links';
+
+describe('extractFirstUrl', () => {
+  it('returns the first http(s) URL in the text', () => {
+    expect(
+      extractFirstUrl('Sermon: https://youtu.be/abc123?t=42 and https://church.example.org')
+    ).toBe('https://youtu.be/abc123?t=42');
+    expect(extractFirstUrl('http://church.example.org/news')).toBe(
+      'http://church.example.org/news'
+    );
+  });
+
+  it('drops trailing sentence punctuation and wrapping parentheses', () => {
+    expect(extractFirstUrl('Sign up here: https://church.example.org/retreat.')).toBe(
+      'https://church.example.org/retreat'
+    );
+    expect(extractFirstUrl('(see https://church.example.org/bulletin)')).toBe(
+      'https://church.example.org/bulletin'
+    );
+    expect(extractFirstUrl('https://en.wikipedia.org/wiki/Psalm_(disambiguation)')).toBe(
+      'https://en.wikipedia.org/wiki/Psalm_(disambiguation)'
+    );
+  });
+
+  it('ends the URL at Hangul text', () => {
+    expect(extractFirstUrl('https://church.example.org/예배 링크입니다')).toBe(
+      'https://church.example.org/'
+    );
+    expect(extractFirstUrl('주보는https://church.example.org입니다')).toBe(
+      'https://church.example.org'
+    );
+  });
+
+  it('returns null when there is no URL', () => {
+    expect(extractFirstUrl('See you on Sunday')).toBeNull();
+    expect(extractFirstUrl('ftp://files.example.org')).toBeNull();
+    expect(extractFirstUrl('https://')).toBeNull();
+    expect(extractFirstUrl(null)).toBeNull();
+  });
+});
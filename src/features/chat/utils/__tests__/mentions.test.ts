@@ -0,0 +1,104 @@
+/**
+ * Unit tests for @mention helpers.
+ */
+
+import {
+  getMentionQuery,
+  insertMention,
+  mapMentionRows,
+  resolveMentions,
+  splitMentionSegments,
+} from '../mentions';
+import type { MessageMention } from '@/types/database';
+
+const kim: MessageMention = {
+  membership_id: 'membership-kim',
+  mention_type: 'member',
+  display_name: 'Kim',
+};
+const kimSoo: MessageMention = {
+  membership_id: 'membership-kim-soo',
+  mention_type: 'member',
+  display_name: 'Kim Soo',
+};
+const all: MessageMention = { membership_id: null, mention_type: 'all', display_name: null };
+
+describe('getMentionQuery', () => {
+  it('returns the query typed after an @ at the start of a word', () => {
+    expect(getMentionQuery('hello @ki', 9)).toEqual({ start: 6, query: 'ki' });
+    expect(getMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+  });
+
+  it('ignores @ inside a word and queries ended by whitespace', () => {
+    expect(getMentionQuery('me@example', 10)).toBeNull();
+    expect(getMentionQuery('@kim hello', 10)).toBeNull();
+    expect(getMentionQuery('no mention', 10)).toBeNull();
+  });
+});
+
+describe('insertMention', () => {
+  it('replaces the query with the mention token and moves the cursor after it', () => {
+    const text = 'hi @ki there';
+    const query = { start: 3, query: 'ki' };
+
+    expect(insertMention(text, query, 6, kimSoo)).toEqual({
+      text: 'hi @Kim Soo  there',
+      cursor: 12,
+    });
+    expect(insertMention('@a', { start: 0, query: 'a' }, 2, all)).toEqual({
+      text: '@all ',
+      cursor: 5,
+    });
+  });
+});
+
+describe('resolveMentions', () => {
+  it('keeps picked mentions still in the text, once each', () => {
+    expect(resolveMentions('@Kim hi @all', [kim, all, kim])).toEqual([kim, all]);
+  });
+
+  it('drops mentions whose token was deleted', () => {
+    expect(resolveMentions('hi there', [kim, all])).toEqual([]);
+  });
+});
+
+describe('splitMentionSegments', () => {
+  it('splits text into plain runs and mention chips', () => {
+    expect(splitMentionSegments('hi @Kim and @all!', [kim, all])).toEqual([
+      { text: 'hi ', mention: null },
+      { text: '@Kim', mention: kim },
+      { text: ' and ', mention: null },
+      { text: '@all', mention: all },
+      { text: '!', mention: null },
+    ]);
+  });
+
+  it('prefers the longest matching name', () => {
+    expect(splitMentionSegments('@Kim Soo hi', [kim, kimSoo])).toEqual([
+      { text: '@Kim Soo', mention: kimSoo },
+      { text: ' hi', mention: null },
+    ]);
+  });
+
+  it('returns the whole text when there are no mentions', () => {
+    expect(splitMentionSegments('@Kim hi', undefined)).toEqual([
+      { text: '@Kim hi', mention: null },
+    ]);
+  });
+});
+
+describe('mapMentionRows', () => {
+  it('flattens the joined display name', () => {
+    expect(
+      mapMentionRows([
+        {
+          membership_id: 'membership-kim',
+          mention_type: 'member',
+          membership: { user: { display_name: 'Kim' } },
+        },
+        { membership_id: null, mention_type: 'all', membership: null },
+      ])
+    ).toEqual([kim, all]);
+    expect(mapMentionRows(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the device-local chat cache.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearMessageCache,
+  getCacheWatermark,
+  mergeMessageDelta,
+  mergeMessageRelations,
+  readCachedMessages,
+  writeCachedMessages,
+  MAX_CACHE_BYTES,
+  MAX_CACHED_MESSAGES,
+} from '../messageCache';
+import type { MessageWithSender } from '@/types/database';
+
+const mockTenantId = 'tenant-123';
+
+const message = (
+  id: string,
+  createdAt: string,
+  overrides: Partial<MessageWithSender> = {}
+): MessageWithSender =>
+  ({
+    id,
+    tenant_id: mockTenantId,
+    conversation_id: 'conversation-789',
+    sender_id: 'membership-456',
+    parent_id: null,
+    content: `Message ${id}`,
+    content_type: 'text',
+    is_event_chat: false,
+    created_at: createdAt,
+    updated_at: createdAt,
+    deleted_at: null,
+    edited_at: null,
+    sender: { id: 'membership-456', display_name: 'Me', photo_url: null },
+    ...overrides,
+  }) as MessageWithSender;
+
+describe('getCacheWatermark', () => {
+  it('should return the newest created_at and updated_at', () => {
+    const result = getCacheWatermark([
+      message('1', '2025-01-19T10:00:00Z', { updated_at: '2025-01-19T12:00:00Z' }),
+      message('2', '2025-01-19T11:00:00Z'),
+    ]);
+
+    expect(result).toEqual({
+      createdAt: '2025-01-19T11:00:00Z',
+      updatedAt: '2025-01-19T12:00:00Z',
+    });
+  });
+
+  it('should return null for an empty cache', () => {
+    expect(getCacheWatermark([])).toBeNull();
+  });
+});
+
+describe('mergeMessageDelta', () => {
+  const cached = [message('1', '2025-01-19T10:00:00Z'), message('2', '2025-01-19T11:00:00Z')];
+
+  it('should replace edited messages and append new ones in order', () => {
+    const edited = message('1', '2025-01-19T10:00:00Z', { content: 'Edited' });
+    const added = message('3', '2025-01-19T12:00:00Z');
+
+    const result = mergeMessageDelta(cached, [added, edited]);
+
+    expect(result.map((m) => [m.id, m.content])).toEqual([
+      ['1', 'Edited'],
+      ['2', 'Message 2'],
+      ['3', 'Message 3'],
+    ]);
+  });
+
+  it('should ignore changes to messages older than the cached window', () => {
+    const result = mergeMessageDelta(cached, [message('0', '2025-01-18T10:00:00Z')]);
+
+    expect(result.map((m) => m.id)).toEqual(['1', '2']);
+  });
+});
+
+describe('mergeMessageRelations', () => {
+  it('should replace reactions, mentions, polls and reply counts of fetched messages', () => {
+    const cached = [
+      message('1', '2025-01-19T10:00:00Z', { reply_count: 0, reactions: [] }),
+      message('2', '2025-01-19T11:00:00Z', { reply_count: 1 }),
+    ];
+    const reaction = {
+      id: 'reaction-1',
+      emoji: '🙏',
+      membership_id: 'membership-789',
+      display_name: 'Kim',
+    };
+
+    const result = mergeMessageRelations(
+      cached,
+      new Map([['1', { reply_count: 2, reactions: [reaction], mentions: [], poll: null }]])
+    );
+
+    expect(result[0]).toMatchObject({ id: '1', content: 'Message 1', reply_count: 2 });
+    expect(result[0]?.reactions).toEqual([reaction]);
+    expect(result[1]).toBe(cached[1]);
+  });
+});
+
+describe('message cache storage', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should keep only the newest sent messages', async () => {
+    const messages = Array.from({ length: MAX_CACHED_MESSAGES + 5 }, (_, i) =>
+      message(`m${i}`, new Date(Date.UTC(2025, 0, 19, 0, i)).toISOString())
+    );
+    const pending = message('pending', '2025-01-20T00:00:00Z', { send_status: 'pending' });
+
+    await writeCachedMessages(mockTenantId, 'conversation-1', [...messages, pending]);
+    const result = await readCachedMessages(mockTenantId, 'conversation-1');
+
+    expect(result).toHaveLength(MAX_CACHED_MESSAGES);
+    expect(result?.[0]?.id).toBe('m5');
+    expect(result?.some((m) => m.id === 'pending')).toBe(false);
+  });
+
+  it('should evict the least recently used conversation once over budget', async () => {
+    // Each entry takes a bit over half of the budget
+    const large = [
+      message('big', '2025-01-19T10:00:00Z', { content: 'x'.repeat(MAX_CACHE_BYTES / 2) }),
+    ];
+
+    await writeCachedMessages(mockTenantId, 'conversation-1', large);
+    await writeCachedMessages(mockTenantId, 'conversation-2', large);
+
+    expect(await readCachedMessages(mockTenantId, 'conversation-1')).toBeNull();
+    expect(await readCachedMessages(mockTenantId, 'conversation-2')).toHaveLength(1);
+  });
+
+  it('should remove everything on clear', async () => {
+    await writeCachedMessages(mockTenantId, 'conversation-1', [
+      message('1', '2025-01-19T10:00:00Z'),
+    ]);
+
+    await clearMessageCache();
+
+    expect(await readCachedMessages(mockTenantId, 'conversation-1')).toBeNull();
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+});
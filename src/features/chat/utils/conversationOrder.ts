@@ -0,0 +1,44 @@
+/**
+ * Ordering helpers for the chat list.
+ *
+ * Pinned and archived are per-participant settings, so every member orders
+ * their own list: pinned conversations come first (most recently pinned on
+ * top), then the rest by latest activity. Archived conversations are listed
+ * separately in the same order.
+ */
+
+import type { ConversationWithLastMessage } from '@/types/database';
+
+/**
+ * Time of the latest activity in a conversation, in milliseconds.
+ */
+function getActivityTime(conversation: ConversationWithLastMessage): number {
+  return new Date(conversation.last_message?.created_at ?? conversation.updated_at).getTime();
+}
+
+/**
+ * Sort conversations with pinned ones first, then by latest activity.
+ */
+export function sortConversations<T extends ConversationWithLastMessage>(conversations: T[]): T[] {
+  return [...conversations].sort((a, b) => {
+    if (a.pinned_at && b.pinned_at) {
+      return new Date(b.pinned_at).getTime() - new Date(a.pinned_at).getTime();
+    }
+    if (a.pinned_at || b.pinned_at) {
+      return a.pinned_at ? -1 : 1;
+    }
+    return getActivityTime(b) - getActivityTime(a);
+  });
+}
+
+/**
+ * Split conversations into the main list and the archived section, each sorted.
+ */
+export function partitionArchivedConversations<T extends ConversationWithLastMessage>(
+  conversations: T[]
+): { active: T[]; archived: T[] } {
+  return {
+    active: sortConversations(conversations.filter((conversation) => !conversation.archived_at)),
+    archived: sortConversations(conversations.filter((conversation) => conversation.archived_at)),
+  };
+}
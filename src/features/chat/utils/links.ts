@@ -0,0 +1,38 @@
+/**
+ * Helpers for links in chat messages.
+ *
+ * Only the first http(s) URL in a message gets a preview card, matching how
+ * most messengers unfurl links.
+ */
+
+/**
+ * URL characters allowed by RFC 3986. Anything else, such as Hangul directly
+ * after a link, ends the URL.
+ */
+const URL_PATTERN = /https?:\/\/[A-Za-z0-9\-._~:/?#[\]@!$&'()*+,;=%]+/i;
+
+/**
+ * Punctuation that usually belongs to the sentence rather than the URL.
+ */
+const TRAILING_PUNCTUATION = /[.,!?;:'"]+$/;
+
+/**
+ * Find the first http(s) URL in message text.
+ *
+ * @returns The URL, or null if the text has none
+ */
+export function extractFirstUrl(content: string | null | undefined): string | null {
+  const match = content ? URL_PATTERN.exec(content) : null;
+  if (!match) {
+    return null;
+  }
+
+  let url = match[0].replace(TRAILING_PUNCTUATION, '');
+
+  // Drop a closing parenthesis that wraps the link, as in "(https://...)"
+  while (url.endsWith(')') && url.split('(').length < url.split(')').length) {
+    url = url.slice(0, -1).replace(TRAILING_PUNCTUATION, '');
+  }
+
+  return /^https?:\/\/[^/?#]+/i.test(url) ? url : null;
+}
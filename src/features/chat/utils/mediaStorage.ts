@@ -0,0 +1,140 @@
+/**
+ * Supabase storage helpers for chat media.
+ *
+ * Files are uploaded under `{tenantId}/{conversationId}/{messageId}_{timestamp}.{ext}`
+ * in a bucket chosen by content type, then recorded in the attachments table
+ * once their message exists.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { supabase } from '@/lib/supabase';
+import type { MessageContentType } from '@/types/database';
+
+/**
+ * Get storage bucket path based on content type
+ */
+function getStoragePath(contentType: MessageContentType): string {
+  switch (contentType) {
+    case 'image':
+      return 'chat-images';
+    case 'video':
+      return 'chat-videos';
+    case 'file':
+      return 'chat-files';
+    default:
+      return 'chat-files';
+  }
+}
+
+/**
+ * Generate a unique file path for storage
+ */
+function generateStoragePath(
+  tenantId: string,
+  conversationId: string,
+  messageId: string,
+  fileName: string
+): string {
+  const timestamp = Date.now();
+  const extension = fileName.split('.').pop() || 'bin';
+  return `${tenantId}/${conversationId}/${messageId}_${timestamp}.${extension}`;
+}
+
+/**
+ * Convert a file URI to a Uint8Array for upload.
+ * Uses expo-file-system to read the actual file data.
+ */
+async function uriToUint8Array(uri: string): Promise<Uint8Array> {
+  // Read the file as base64
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: 'base64',
+  });
+
+  // Convert base64 to binary string
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * Upload a local file to Supabase storage.
+ *
+ * @returns The public URL and size in bytes of the uploaded file
+ */
+export async function uploadMediaFile(
+  tenantId: string,
+  conversationId: string,
+  messageId: string,
+  fileUri: string,
+  fileName: string,
+  mimeType: string,
+  contentType: MessageContentType
+): Promise<{ url: string; fileSize: number }> {
+  const storagePath = generateStoragePath(tenantId, conversationId, messageId, fileName);
+
+  console.log('[uploadMediaFile] Reading file from URI:', fileUri.substring(0, 50) + '...');
+
+  // Convert URI to Uint8Array using expo-file-system
+  const fileData = await uriToUint8Array(fileUri);
+
+  // Upload to Supabase storage (accepts Uint8Array as ArrayBufferView)
+  const { data: uploadData, error: uploadError } = await supabase.storage
+    .from(getStoragePath(contentType))
+    .upload(storagePath, fileData, {
+      contentType: mimeType,
+      upsert: true,
+    });
+
+  if (uploadError) {
+    console.error('[uploadMediaFile] Upload error:', uploadError);
+    throw uploadError;
+  }
+
+  // Get public URL
+  const { data: urlData } = supabase.storage
+    .from(getStoragePath(contentType))
+    .getPublicUrl(uploadData.path);
+
+  return {
+    url: urlData.publicUrl,
+    fileSize: fileData.length,
+  };
+}
+
+/**
+ * Record an uploaded file in the attachments table.
+ *
+ * @returns The attachment ID
+ */
+export async function createAttachmentRecord(
+  tenantId: string,
+  messageId: string,
+  fileName: string,
+  url: string,
+  fileSize: number,
+  mimeType: string
+): Promise<string> {
+  const { data: attachmentData, error: attachmentError } = await supabase
+    .from('attachments')
+    .insert({
+      tenant_id: tenantId,
+      message_id: messageId,
+      file_name: fileName,
+      url,
+      file_size: fileSize,
+      file_type: mimeType,
+    })
+    .select('id')
+    .single<{ id: string }>();
+
+  if (attachmentError) {
+    console.error('[createAttachmentRecord] Attachment insert error:', attachmentError);
+    throw attachmentError;
+  }
+
+  return attachmentData?.id ?? '';
+}
@@ -0,0 +1,173 @@
+/**
+ * Helpers for @mentions in chat messages.
+ *
+ * The message text keeps a readable "@Name" (or "@all" / "@leaders") token for
+ * each mention, while who was mentioned is stored as membership references in
+ * the mentions table. The tokens are only used to place highlight chips and to
+ * drop mentions whose token was deleted before sending.
+ */
+
+import type { MentionType, MessageMention } from '@/types/database';
+
+/**
+ * Roles that can mention @all and @leaders.
+ */
+export const GROUP_MENTION_ROLES = ['small_group_leader', 'zone_leader', 'pastor', 'admin'];
+
+/**
+ * Group mentions offered to leaders in the autocomplete.
+ */
+export const GROUP_MENTIONS: MessageMention[] = [
+  { membership_id: null, mention_type: 'all', display_name: null },
+  { membership_id: null, mention_type: 'leaders', display_name: null },
+];
+
+/**
+ * Select for the mentions of a message, as a nested `mentions (...)` relation.
+ */
+export const MENTION_SELECT = `
+  membership_id,
+  mention_type,
+  membership:memberships!mentions_membership_id_fkey (
+    user:users!memberships_user_id_fkey (
+      display_name
+    )
+  )
+`;
+
+interface RawMentionRow {
+  membership_id: string | null;
+  mention_type: MentionType;
+  membership: { user: { display_name: string | null } | null } | null;
+}
+
+/**
+ * Flatten mention rows selected with MENTION_SELECT.
+ */
+export function mapMentionRows(rows: unknown): MessageMention[] {
+  return ((rows as RawMentionRow[] | null | undefined) ?? []).map((row) => ({
+    membership_id: row.membership_id,
+    mention_type: row.mention_type,
+    display_name: row.membership?.user?.display_name ?? null,
+  }));
+}
+
+/**
+ * The text a mention appears as in a message, or null if it can't be written
+ * (a member without a display name).
+ */
+export function getMentionToken(mention: MessageMention): string | null {
+  if (mention.mention_type !== 'member') {
+    return `@${mention.mention_type}`;
+  }
+  return mention.display_name ? `@${mention.display_name}` : null;
+}
+
+export interface MentionQuery {
+  /** Index of the '@' that starts the query */
+  start: number;
+  /** Text typed after the '@' */
+  query: string;
+}
+
+/**
+ * Find the @query being typed just before the cursor. The '@' has to start a
+ * word and the query ends at the first whitespace.
+ */
+export function getMentionQuery(text: string, cursor: number): MentionQuery | null {
+  const before = text.slice(0, cursor);
+  const start = before.lastIndexOf('@');
+  if (start < 0 || (start > 0 && !/\s/.test(before.charAt(start - 1)))) {
+    return null;
+  }
+
+  const query = before.slice(start + 1);
+  return /\s/.test(query) ? null : { start, query };
+}
+
+/**
+ * Replace the @query before the cursor with a mention token.
+ * @returns The new text and the cursor position after the token
+ */
+export function insertMention(
+  text: string,
+  query: MentionQuery,
+  cursor: number,
+  mention: MessageMention
+): { text: string; cursor: number } {
+  const token = `${getMentionToken(mention) ?? '@'} `;
+  return {
+    text: text.slice(0, query.start) + token + text.slice(cursor),
+    cursor: query.start + token.length,
+  };
+}
+
+/**
+ * Mentions picked while typing whose token is still in the text, once each.
+ */
+export function resolveMentions(text: string, mentions: MessageMention[]): MessageMention[] {
+  const seen = new Set<string>();
+  return mentions.filter((mention) => {
+    const token = getMentionToken(mention);
+    const key = mention.membership_id ?? mention.mention_type;
+    if (!token || seen.has(key) || !text.includes(token)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+export interface MentionSegment {
+  text: string;
+  /** Set when the segment is a mention token */
+  mention: MessageMention | null;
+}
+
+/**
+ * Split message text into plain runs and mention tokens for rendering.
+ */
+export function splitMentionSegments(
+  content: string,
+  mentions: MessageMention[] | undefined
+): MentionSegment[] {
+  // Longest tokens first so "@Kim Soo" wins over "@Kim"
+  const tokens = (mentions ?? [])
+    .map((mention) => ({ token: getMentionToken(mention), mention }))
+    .filter((entry): entry is { token: string; mention: MessageMention } => !!entry.token)
+    .sort((a, b) => b.token.length - a.token.length);
+
+  if (tokens.length === 0) {
+    return [{ text: content, mention: null }];
+  }
+
+  const segments: MentionSegment[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  while (index < content.length) {
+    const startsWord = index === 0 || /\s/.test(content.charAt(index - 1));
+    const match =
+      content.charAt(index) === '@' && startsWord
+        ? tokens.find((entry) => content.startsWith(entry.token, index))
+        : undefined;
+
+    if (!match) {
+      index += 1;
+      continue;
+    }
+
+    if (index > plainStart) {
+      segments.push({ text: content.slice(plainStart, index), mention: null });
+    }
+    segments.push({ text: match.token, mention: match.mention });
+    index += match.token.length;
+    plainStart = index;
+  }
+
+  if (plainStart < content.length) {
+    segments.push({ text: content.slice(plainStart), mention: null });
+  }
+
+  return segments;
+}
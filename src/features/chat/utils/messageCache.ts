@@ -0,0 +1,241 @@
+/**
+ * Device-local cache for chat history.
+ *
+ * Keeps the newest messages of each conversation and each member's
+ * conversation list in AsyncStorage so chat screens can render before the
+ * network answers. Entries are tracked in an index with their size and last
+ * use, and the least recently used entries are evicted once the cache grows
+ * past MAX_CACHE_BYTES.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { ConversationWithLastMessage, MessageWithSender } from '@/types/database';
+
+const CACHE_KEY_PREFIX = '@gagyo:chat_cache:';
+const CACHE_INDEX_KEY = '@gagyo:chat_cache_index';
+
+/**
+ * Newest messages kept per conversation.
+ */
+export const MAX_CACHED_MESSAGES = 100;
+
+/**
+ * Total size budget for cached entries, measured in serialized characters.
+ */
+export const MAX_CACHE_BYTES = 2 * 1024 * 1024;
+
+interface CacheIndexEntry {
+  key: string;
+  size: number;
+  accessedAt: number;
+}
+
+// Index updates are read-modify-write, so run them one at a time
+let indexQueue: Promise<void> = Promise.resolve();
+
+function updateIndex(update: (entries: CacheIndexEntry[]) => CacheIndexEntry[]): Promise<void> {
+  indexQueue = indexQueue
+    .then(async () => {
+      const raw = await AsyncStorage.getItem(CACHE_INDEX_KEY);
+      const entries = raw ? (JSON.parse(raw) as CacheIndexEntry[]) : [];
+      await AsyncStorage.setItem(CACHE_INDEX_KEY, JSON.stringify(update(entries)));
+    })
+    .catch((err) => {
+      console.error('[messageCache] Failed to update cache index:', err);
+    });
+  return indexQueue;
+}
+
+function messagesKey(tenantId: string, conversationId: string): string {
+  return `${CACHE_KEY_PREFIX}messages:${tenantId}:${conversationId}`;
+}
+
+function conversationsKey(tenantId: string, membershipId: string): string {
+  return `${CACHE_KEY_PREFIX}conversations:${tenantId}:${membershipId}`;
+}
+
+async function readEntry<T>(key: string): Promise<T | null> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    if (!raw) {
+      return null;
+    }
+    void updateIndex((entries) =>
+      entries.map((entry) => (entry.key === key ? { ...entry, accessedAt: Date.now() } : entry))
+    );
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    console.error('[messageCache] Failed to read cache entry:', err);
+    return null;
+  }
+}
+
+async function writeEntry(key: string, value: unknown): Promise<void> {
+  try {
+    const raw = JSON.stringify(value);
+    await AsyncStorage.setItem(key, raw);
+
+    const evicted: string[] = [];
+    await updateIndex((entries) => {
+      const next = [
+        ...entries.filter((entry) => entry.key !== key),
+        { key, size: raw.length, accessedAt: Date.now() },
+      ];
+
+      // Evict least recently used entries until the cache fits, never the one just written
+      next.sort((a, b) => a.accessedAt - b.accessedAt);
+      let total = next.reduce((sum, entry) => sum + entry.size, 0);
+      while (total > MAX_CACHE_BYTES) {
+        const oldest = next[0];
+        if (!oldest || oldest.key === key) break;
+        next.shift();
+        evicted.push(oldest.key);
+        total -= oldest.size;
+      }
+      return next;
+    });
+
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted);
+    }
+  } catch (err) {
+    console.error('[messageCache] Failed to write cache entry:', err);
+  }
+}
+
+/**
+ * Read the cached messages of a conversation, oldest first.
+ *
+ * @returns The cached messages, or null if nothing is cached
+ */
+export async function readCachedMessages(
+  tenantId: string,
+  conversationId: string
+): Promise<MessageWithSender[] | null> {
+  const messages = await readEntry<MessageWithSender[]>(messagesKey(tenantId, conversationId));
+  return messages && messages.length > 0 ? messages : null;
+}
+
+/**
+ * Cache the newest messages of a conversation. Unsent outbox copies are skipped.
+ */
+export async function writeCachedMessages(
+  tenantId: string,
+  conversationId: string,
+  messages: MessageWithSender[]
+): Promise<void> {
+  const sent = messages.filter((message) => !message.send_status);
+  await writeEntry(messagesKey(tenantId, conversationId), sent.slice(-MAX_CACHED_MESSAGES));
+}
+
+/**
+ * Read a member's cached conversation list.
+ *
+ * @returns The cached conversations, or null if nothing is cached
+ */
+export async function readCachedConversations(
+  tenantId: string,
+  membershipId: string
+): Promise<ConversationWithLastMessage[] | null> {
+  return readEntry<ConversationWithLastMessage[]>(conversationsKey(tenantId, membershipId));
+}
+
+/**
+ * Cache a member's conversation list.
+ */
+export async function writeCachedConversations(
+  tenantId: string,
+  membershipId: string,
+  conversations: ConversationWithLastMessage[]
+): Promise<void> {
+  await writeEntry(conversationsKey(tenantId, membershipId), conversations);
+}
+
+/**
+ * Remove every cached entry. Called on sign-out.
+ */
+export async function clearMessageCache(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(
+      keys.filter((key) => key.startsWith(CACHE_KEY_PREFIX) || key === CACHE_INDEX_KEY)
+    );
+  } catch (err) {
+    console.error('[messageCache] Failed to clear cache:', err);
+  }
+}
+
+/**
+ * Newest created_at and updated_at among cached messages. A delta sync asks for
+ * messages created or changed after these.
+ */
+export function getCacheWatermark(messages: MessageWithSender[]): {
+  createdAt: string;
+  updatedAt: string;
+} | null {
+  if (messages.length === 0) {
+    return null;
+  }
+
+  let createdAt = '';
+  let updatedAt = '';
+  for (const message of messages) {
+    if (message.created_at > createdAt) createdAt = message.created_at;
+    if (message.updated_at > updatedAt) updatedAt = message.updated_at;
+  }
+  return { createdAt, updatedAt };
+}
+
+/**
+ * Apply a delta sync to cached messages: changed messages replace their cached
+ * copy and new ones are appended, keeping oldest-first order.
+ */
+export function mergeMessageDelta(
+  cached: MessageWithSender[],
+  delta: MessageWithSender[]
+): MessageWithSender[] {
+  if (delta.length === 0) {
+    return cached;
+  }
+
+  const deltaById = new Map(delta.map((message) => [message.id, message]));
+  const merged = cached.map((message) => deltaById.get(message.id) ?? message);
+  const cachedIds = new Set(cached.map((message) => message.id));
+  const newestCached = getCacheWatermark(cached)?.createdAt ?? '';
+
+  // Changed messages older than the cache window aren't part of it
+  const added = delta.filter(
+    (message) => !cachedIds.has(message.id) && message.created_at > newestCached
+  );
+
+  return [...merged, ...added].sort((a, b) =>
+    a.created_at < b.created_at ? -1 : a.created_at > b.created_at ? 1 : 0
+  );
+}
+
+/**
+ * Reply count, reactions, mentions and poll of a message. These live in other
+ * tables, so changing them doesn't move the message's updated_at.
+ */
+export type MessageRelations = Pick<
+  MessageWithSender,
+  'reply_count' | 'reactions' | 'mentions' | 'poll'
+>;
+
+/**
+ * Replace the relations of cached messages with freshly fetched ones.
+ * Messages without a fetched entry are left as they are.
+ */
+export function mergeMessageRelations(
+  messages: MessageWithSender[],
+  relations: Map<string, MessageRelations>
+): MessageWithSender[] {
+  if (relations.size === 0) {
+    return messages;
+  }
+
+  return messages.map((message) => {
+    const fresh = relations.get(message.id);
+    return fresh ? { ...message, ...fresh } : message;
+  });
+}
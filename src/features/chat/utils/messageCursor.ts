@@ -0,0 +1,38 @@
+/**
+ * Keyset pagination helpers for message history.
+ *
+ * Messages are paged on (created_at, id) rather than by offset, so messages
+ * arriving while someone scrolls back can't shift rows between pages. The id
+ * breaks ties between messages created in the same instant. Both columns are
+ * covered by the keyset indexes on messages.
+ */
+
+import type { MessageWithSender } from '@/types/database';
+
+export interface MessageCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * Cursor positioned at a message.
+ */
+export function getMessageCursor(
+  message: Pick<MessageWithSender, 'created_at' | 'id'>
+): MessageCursor {
+  return { createdAt: message.created_at, id: message.id };
+}
+
+/**
+ * PostgREST `or` filter matching messages before the cursor.
+ */
+export function olderThanCursor(cursor: MessageCursor): string {
+  return `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`;
+}
+
+/**
+ * PostgREST `or` filter matching messages after the cursor.
+ */
+export function newerThanCursor(cursor: MessageCursor): string {
+  return `created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.gt.${cursor.id})`;
+}
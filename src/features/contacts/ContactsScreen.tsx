@@ -4,99 +4,33 @@
  * Simple contacts directory with:
  * - Header with community name and collapsible search
  * - Filter tabs (모두, 목장, 초원, 그룹/팀, 멤버, 외부)
- * - Categorized contact list
+ * - 초성 search ("ㄱㅁㅈ" finds "김민지")
+ * - Categorized contact list with a ㄱ–ㅎ / A–Z section index built from the tenant's small groups, zones,
+ *   ministries, and active members (kept live via realtime)
+ * - Tapping a contact opens its group conversation or a direct chat
  *
  * Based on Figma design:
  * https://www.figma.com/design/6gW1h8DfD1WYH29AmJqaeW/Gagyo?node-id=128-1255
  */
 
 import React, { useCallback, useMemo, useState, useRef, useEffect } from 'react';
-import { Pressable, ScrollView, StyleSheet, TextInput, View, Platform, Keyboard, KeyboardEvent } from 'react-native';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, TextInput, View, Platform, Keyboard, KeyboardEvent } from 'react-native';
+import { useRouter } from 'expo-router';
 import Svg, { G, Path } from 'react-native-svg';
-import { XStack, YStack, Stack } from 'tamagui';
-import { Text as TamaguiText } from 'tamagui';
+import { Stack, Text as TamaguiText, XStack, YStack } from 'tamagui';
 import Ionicons from '@expo/vector-icons/Ionicons';
 import { BlurView } from 'expo-blur';
 import { useTenantContext } from '@/hooks/useTenantContext';
 import { SafeScreen } from '@/components/SafeScreen';
+import { filterByHangulSearch, getIndexKey } from '@/lib/hangul';
 import { ContactCategoryHeader } from './components/ContactCategoryHeader';
+import { ContactIndexBar } from './components/ContactIndexBar';
 import { ContactListItem } from './components/ContactListItem';
 import { FilterTabs } from './components/FilterTabs';
+import { useContactConversation } from './hooks/useContactConversation';
+import { useContacts } from './hooks/useContacts';
 import type { Contact, ContactSection, ContactCategory, ContactFilterType } from './types';
 
-// Mock data for development - replace with actual data from Supabase
-const MOCK_CONTACTS: Contact[] = [
-  // Small Groups (목장) - only 모로코 목장
-  {
-    id: 'sg-1',
-    category: 'small_group',
-    name: '모로코 목장',
-    smallGroupId: 'sg-1',
-    memberCount: 7,
-  },
-  // Zones (초원) - only 캐스트로 초원
-  {
-    id: 'zone-1',
-    category: 'zone',
-    name: '캐스트로 초원',
-    zoneId: 'zone-1',
-    memberCount: 9,
-  },
-  // Groups/Teams (그룹/팀)
-  {
-    id: 'team-1',
-    category: 'group_team',
-    name: '문서출판팀',
-    type: 'team',
-    memberCount: 5,
-  },
-  {
-    id: 'team-2',
-    category: 'group_team',
-    name: '제직회',
-    type: 'committee',
-    memberCount: 15,
-  },
-  {
-    id: 'team-3',
-    category: 'group_team',
-    name: '찬양팀',
-    type: 'ministry',
-    memberCount: 12,
-  },
-  // Members (멤버)
-  {
-    id: 'member-1',
-    category: 'member',
-    name: '조영구 목사',
-    membershipId: 'member-1',
-    userId: 'user-1',
-    displayName: '조영구 목사',
-    role: '목사',
-    smallGroupName: '캐스트로 초원',
-  },
-  {
-    id: 'member-2',
-    category: 'member',
-    name: 'SAEHONG PARK',
-    membershipId: 'member-2',
-    userId: 'user-2',
-    displayName: 'SAEHONG PARK',
-    role: '성도',
-    smallGroupName: '모로코 목장',
-  },
-  {
-    id: 'member-3',
-    category: 'member',
-    name: '이지훈 목자',
-    membershipId: 'member-3',
-    userId: 'user-3',
-    displayName: '이지훈 목자',
-    role: '목자',
-    smallGroupName: '모로코 목장',
-  },
-];
-
 export interface ContactsScreenProps {
   testID?: string;
   communityName?: string;
@@ -152,15 +86,8 @@ function filterContacts(
     filtered = filtered.filter((contact) => contact.category === filterType);
   }
 
-  // Apply search query
-  if (searchQuery.trim()) {
-    const query = searchQuery.toLowerCase();
-    filtered = filtered.filter((contact) =>
-      contact.name.toLowerCase().includes(query)
-    );
-  }
-
-  return filtered;
+  // Apply search query (초성 and partial syllables match too)
+  return filterByHangulSearch(filtered, searchQuery, (contact) => contact.name);
 }
 
 /**
@@ -242,9 +169,15 @@ function ChurchIcon() {
  * ContactsScreen component.
  */
 export function ContactsScreen({ testID, communityName }: ContactsScreenProps) {
-  const { activeTenantName } = useTenantContext();
+  const router = useRouter();
+  const { activeTenantId, activeTenantName } = useTenantContext();
+  const { contacts, loading } = useContacts(activeTenantId);
+  const { openConversation } = useContactConversation(activeTenantId);
   const searchInputRef = useRef<TextInput>(null);
   const scrollViewRef = useRef<ScrollView>(null);
+  // Layout offsets for jumping to a section index key
+  const sectionOffsetsRef = useRef(new Map<ContactCategory, number>());
+  const itemOffsetsRef = useRef(new Map<string, number>());
 
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
@@ -253,8 +186,8 @@ export function ContactsScreen({ testID, communityName }: ContactsScreenProps) {
 
   // Filter and group contacts
   const filteredContacts = useMemo(
-    () => filterContacts(MOCK_CONTACTS, searchQuery, selectedFilter),
-    [searchQuery, selectedFilter]
+    () => filterContacts(contacts, searchQuery, selectedFilter),
+    [contacts, searchQuery, selectedFilter]
   );
 
   const groupedSections = useMemo(
@@ -262,16 +195,36 @@ export function ContactsScreen({ testID, communityName }: ContactsScreenProps) {
     [filteredContacts]
   );
 
+  const indexKeys = useMemo(
+    () => new Set(filteredContacts.map((contact) => getIndexKey(contact.name))),
+    [filteredContacts]
+  );
+
+  const handleIndexSelect = useCallback(
+    (key: string) => {
+      for (const section of groupedSections) {
+        const contact = section.data.find((item) => getIndexKey(item.name) === key);
+        if (contact) {
+          const sectionOffset = sectionOffsetsRef.current.get(section.category) ?? 0;
+          const itemOffset = itemOffsetsRef.current.get(contact.id) ?? 0;
+          scrollViewRef.current?.scrollTo({ y: sectionOffset + itemOffset, animated: false });
+          return;
+        }
+      }
+    },
+    [groupedSections]
+  );
+
   const handleContactPress = useCallback(
     (contact: Contact) => {
-      // TODO: Navigate to appropriate screen based on contact type
-      if (contact.category === 'member') {
-        console.log('Navigate to member:', contact.name);
-      } else {
-        console.log('Navigate to group:', contact.name);
-      }
+      // Zones and groups without a conversation resolve to null and stay put
+      void openConversation(contact).then((conversationId) => {
+        if (conversationId) {
+          router.push(`/chat/${conversationId}`);
+        }
+      });
     },
-    []
+    [openConversation, router]
   );
 
   const handleFilterChange = useCallback((filter: ContactFilterType) => {
@@ -457,46 +410,70 @@ export function ContactsScreen({ testID, communityName }: ContactsScreenProps) {
         />
 
         {/* Contact List */}
-        <ScrollView
-          ref={scrollViewRef}
-          style={{ flex: 1 }}
-          contentContainerStyle={styles.scrollContent}
-          keyboardShouldPersistTaps="handled"
-        >
-          {groupedSections.length === 0 ? (
-            // Empty state
-            <YStack flex={1} alignItems="center" justifyContent="center" padding="$8" marginTop="$8">
-              <TamaguiText fontSize={16} color="$color3">
-                {searchQuery ? '검색 결과가 없습니다' : '연락처가 없습니다'}
-              </TamaguiText>
-            </YStack>
-          ) : (
-            // Grouped contacts - reduced gaps between categories
-            groupedSections.map((section, index) => (
-              <YStack key={section.category} marginBottom={index === groupedSections.length - 1 ? 16 : 8}>
-                <ContactCategoryHeader
-                  category={section.category}
-                  testID={`category-header-${section.category}`}
-                />
-
-                {section.data.map((contact) => (
-                  <ContactListItem
-                    key={contact.id}
-                    contact={contact}
-                    onPress={handleContactPress}
-                    testID={`contact-${contact.id}`}
-                  />
-                ))}
+        <View style={styles.listContainer}>
+          <ScrollView
+            ref={scrollViewRef}
+            style={{ flex: 1 }}
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+          >
+            {loading && contacts.length === 0 ? (
+              <YStack flex={1} alignItems="center" justifyContent="center" padding="$8" marginTop="$8">
+                <ActivityIndicator testID="contacts-loading" />
               </YStack>
-            ))
-          )}
-        </ScrollView>
+            ) : groupedSections.length === 0 ? (
+              // Empty state
+              <YStack flex={1} alignItems="center" justifyContent="center" padding="$8" marginTop="$8">
+                <TamaguiText fontSize={16} color="$color3">
+                  {searchQuery ? '검색 결과가 없습니다' : '연락처가 없습니다'}
+                </TamaguiText>
+              </YStack>
+            ) : (
+              // Grouped contacts - reduced gaps between categories
+              groupedSections.map((section, index) => (
+                <YStack
+                  key={section.category}
+                  marginBottom={index === groupedSections.length - 1 ? 16 : 8}
+                  onLayout={(event) => {
+                    sectionOffsetsRef.current.set(section.category, event.nativeEvent.layout.y);
+                  }}
+                >
+                  <ContactCategoryHeader
+                    category={section.category}
+                    testID={`category-header-${section.category}`}
+                  />
+
+                  {section.data.map((contact) => (
+                    <View
+                      key={contact.id}
+                      onLayout={(event) => {
+                        itemOffsetsRef.current.set(contact.id, event.nativeEvent.layout.y);
+                      }}
+                    >
+                      <ContactListItem
+                        contact={contact}
+                        onPress={handleContactPress}
+                        testID={`contact-${contact.id}`}
+                      />
+                    </View>
+                  ))}
+                </YStack>
+              ))
+            )}
+          </ScrollView>
+
+          {/* ㄱ–ㅎ / A–Z section index */}
+          {!loading && <ContactIndexBar availableKeys={indexKeys} onSelectKey={handleIndexSelect} />}
+        </View>
       </YStack>
     </SafeScreen>
   );
 }
 
 const styles = StyleSheet.create({
+  listContainer: {
+    flex: 1,
+  },
   scrollContent: {
     paddingBottom: 32,
   },
@@ -0,0 +1,74 @@
+/**
+ * ContactIndexBar component.
+ *
+ * Vertical ㄱ–ㅎ / A–Z / # section index shown along the right edge of the
+ * contacts list. Only keys that have at least one contact are shown, so every
+ * tap lands on a contact.
+ */
+
+import { useCallback } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { Text as TamaguiText } from 'tamagui';
+import { INDEX_KEYS } from '@/lib/hangul';
+
+export interface ContactIndexBarProps {
+  /**
+   * Index keys that have contacts (see getIndexKey).
+   */
+  availableKeys: ReadonlySet<string>;
+  onSelectKey: (key: string) => void;
+  testID?: string;
+}
+
+/**
+ * ContactIndexBar component.
+ */
+export function ContactIndexBar({ availableKeys, onSelectKey, testID }: ContactIndexBarProps) {
+  const keys = INDEX_KEYS.filter((key) => availableKeys.has(key));
+
+  const handlePress = useCallback(
+    (key: string) => () => {
+      onSelectKey(key);
+    },
+    [onSelectKey]
+  );
+
+  if (keys.length < 2) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} testID={testID ?? 'contact-index-bar'} pointerEvents="box-none">
+      {keys.map((key) => (
+        <Pressable
+          key={key}
+          onPress={handlePress(key)}
+          hitSlop={{ left: 12, right: 4 }}
+          style={styles.key}
+          accessibilityRole="button"
+          accessibilityLabel={key}
+          testID={`contact-index-${key}`}
+        >
+          <TamaguiText fontSize={11} fontWeight="600" color="#8E8E93">
+            {key}
+          </TamaguiText>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    right: 2,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  key: {
+    paddingHorizontal: 4,
+    paddingVertical: 1,
+  },
+});
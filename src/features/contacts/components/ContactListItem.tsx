@@ -11,8 +11,7 @@
 
 import { useCallback } from 'react';
 import { Pressable, StyleSheet, View } from 'react-native';
-import { XStack } from 'tamagui';
-import { Text as TamaguiText } from 'tamagui';
+import { Text as TamaguiText, XStack } from 'tamagui';
 import type { ContactListItemProps } from '../types';
 
 /**
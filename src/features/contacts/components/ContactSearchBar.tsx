@@ -3,13 +3,15 @@
  *
  * Search input field for filtering contacts.
  * Matches the Figma design with a gray background and search icon.
+ * Shows a 초성 badge while the query is only initial consonants, since those
+ * queries match by the first consonant of each syllable (see @/lib/hangul).
  */
 
 import { useCallback } from 'react';
 import { TextInput, StyleSheet, View } from 'react-native';
-import { Stack, XStack } from 'tamagui';
-import { Text as TamaguiText } from 'tamagui';
+import { Stack, Text as TamaguiText, XStack } from 'tamagui';
 import { useTranslation } from '@/i18n';
+import { isChoseongQuery } from '@/lib/hangul';
 
 export interface ContactSearchBarProps {
   value: string;
@@ -68,6 +70,14 @@ export function ContactSearchBar({
           placeholderTextColor="#8e8e93"
           testID="contact-search-input"
         />
+
+        {isChoseongQuery(value) && (
+          <View style={styles.choseongBadge} testID="contact-search-choseong-badge">
+            <TamaguiText fontSize={11} fontWeight="600" color="#8e8e93">
+              {t('contacts.choseong_search')}
+            </TamaguiText>
+          </View>
+        )}
       </XStack>
     </Stack>
   );
@@ -81,6 +91,12 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     color: '#40434d',
   },
+  choseongBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: '#e5e5ea',
+  },
   input: {
     flex: 1,
     fontSize: 16,
@@ -8,6 +8,9 @@ export { ContactListItem } from './ContactListItem';
 export { ContactCategoryHeader } from './ContactCategoryHeader';
 export type { ContactCategoryHeaderProps } from './ContactCategoryHeader';
 
+export { ContactIndexBar } from './ContactIndexBar';
+export type { ContactIndexBarProps } from './ContactIndexBar';
+
 export { ContactSearchBar } from './ContactSearchBar';
 export type { ContactSearchBarProps } from './ContactSearchBar';
 
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for useContacts and useContactConversation hooks.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { useContacts } from '../useContacts';
+import { useContactConversation } from '../useContactConversation';
+import { supabase } from '@/lib/supabase';
+import type { Contact } from '../../types';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown; rpc: unknown };
+
+const mockTenantId = 'tenant-123';
+
+/**
+ * Create a thenable query chain that resolves to the given rows.
+ */
+function createQueryChain(result: { data: unknown; error: unknown }) {
+  const chain: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => void) => resolve(result),
+  };
+  for (const method of ['select', 'eq', 'in', 'limit']) {
+    chain[method] = jest.fn().mockReturnValue(chain);
+  }
+  chain.maybeSingle = jest.fn<() => Promise<unknown>>().mockResolvedValue(result);
+  return chain as Record<
+    'select' | 'eq' | 'in' | 'limit' | 'maybeSingle',
+    ReturnType<typeof jest.fn>
+  >;
+}
+
+function mockTables(rowsByTable: Record<string, unknown[]>) {
+  const chains: Record<string, ReturnType<typeof createQueryChain>> = {};
+  mockSupabase.from = jest.fn((table: string) => {
+    chains[table] = createQueryChain({ data: rowsByTable[table] ?? [], error: null });
+    return chains[table];
+  });
+  return chains;
+}
+
+describe('useContacts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return no contacts when tenantId is null', async () => {
+    mockTables({});
+
+    const { result } = renderHook(() => useContacts(null, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.contacts).toEqual([]);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should build contacts with active member counts', async () => {
+    const chains = mockTables({
+      memberships: [
+        {
+          id: 'membership-1',
+          role: 'small_group_leader',
+          small_group_id: 'group-1',
+          user: { id: 'user-1', display_name: '이지훈', photo_url: null },
+        },
+        {
+          id: 'membership-2',
+          role: 'member',
+          small_group_id: 'group-1',
+          user: { id: 'user-2', display_name: '김철수', photo_url: null },
+        },
+        {
+          id: 'membership-3',
+          role: 'member',
+          small_group_id: 'group-2',
+          user: { id: 'user-3', display_name: '박영희', photo_url: null },
+        },
+      ],
+      small_groups: [
+        { id: 'group-1', name: '모로코 목장', zone_id: 'zone-1', leader_id: 'membership-1' },
+        { id: 'group-2', name: '케냐 목장', zone_id: 'zone-1', leader_id: null },
+      ],
+      zones: [{ id: 'zone-1', name: '캐스트로 초원', zone_leader_id: null }],
+      ministries: [{ id: 'ministry-1', name: '찬양팀' }],
+      ministry_memberships: [
+        { ministry_id: 'ministry-1', membership_id: 'membership-2' },
+        { ministry_id: 'ministry-1', membership_id: 'membership-inactive' },
+      ],
+    });
+
+    const { result } = renderHook(() => useContacts(mockTenantId, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    const byId = new Map(result.current.contacts.map((contact) => [contact.id, contact]));
+    expect(byId.get('small_group:group-1')?.memberCount).toBe(2);
+    expect(byId.get('zone:zone-1')?.memberCount).toBe(3);
+    expect(byId.get('ministry:ministry-1')?.memberCount).toBe(1);
+    expect(byId.get('member:membership-3')).toMatchObject({
+      category: 'member',
+      displayName: '박영희',
+      smallGroupName: '케냐 목장',
+    });
+    expect(chains.memberships?.eq).toHaveBeenCalledWith('status', 'active');
+    expect(chains.ministry_memberships?.in).toHaveBeenCalledWith('ministry_id', ['ministry-1']);
+  });
+
+  it('should surface query errors', async () => {
+    const queryError = new Error('Query failed');
+    mockSupabase.from = jest.fn(() => createQueryChain({ data: null, error: queryError }));
+
+    const { result } = renderHook(() => useContacts(mockTenantId, false));
+
+    await waitFor(() => {
+      expect(result.current.error).toBe(queryError);
+    });
+
+    expect(result.current.contacts).toEqual([]);
+  });
+});
+
+describe('useContactConversation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open the small group conversation', async () => {
+    const chain = createQueryChain({ data: { id: 'conversation-1' }, error: null });
+    mockSupabase.from = jest.fn().mockReturnValue(chain);
+
+    const { result } = renderHook(() => useContactConversation(mockTenantId));
+
+    const contact: Contact = {
+      id: 'small_group:group-1',
+      category: 'small_group',
+      name: '모로코 목장',
+      smallGroupId: 'group-1',
+    };
+
+    let conversationId: string | null = null;
+    await act(async () => {
+      conversationId = await result.current.openConversation(contact);
+    });
+
+    expect(conversationId).toBe('conversation-1');
+    expect(chain.eq).toHaveBeenCalledWith('type', 'small_group');
+    expect(chain.eq).toHaveBeenCalledWith('small_group_id', 'group-1');
+  });
+
+  it('should start a direct conversation with a member', async () => {
+    const mockRpc = jest
+      .fn<() => Promise<unknown>>()
+      .mockResolvedValue({ data: 'conversation-direct', error: null });
+    mockSupabase.rpc = mockRpc;
+
+    const { result } = renderHook(() => useContactConversation(mockTenantId));
+
+    const contact: Contact = {
+      id: 'member:membership-2',
+      category: 'member',
+      name: '김철수',
+      membershipId: 'membership-2',
+      userId: 'user-2',
+      displayName: '김철수',
+    };
+
+    let conversationId: string | null = null;
+    await act(async () => {
+      conversationId = await result.current.openConversation(contact);
+    });
+
+    expect(conversationId).toBe('conversation-direct');
+    expect(mockRpc).toHaveBeenCalledWith('get_or_create_direct_conversation', {
+      p_tenant_id: mockTenantId,
+      p_other_membership_id: 'membership-2',
+    });
+  });
+
+  it('should resolve zones to no conversation', async () => {
+    mockSupabase.from = jest.fn();
+
+    const { result } = renderHook(() => useContactConversation(mockTenantId));
+
+    let conversationId: string | null = 'unset';
+    await act(async () => {
+      conversationId = await result.current.openConversation({
+        id: 'zone:zone-1',
+        category: 'zone',
+        name: '캐스트로 초원',
+        zoneId: 'zone-1',
+      });
+    });
+
+    expect(conversationId).toBeNull();
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+    expect(result.current.error).toBeNull();
+  });
+});
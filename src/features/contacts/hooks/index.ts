@@ -0,0 +1,11 @@
+/**
+ * Contacts feature hooks.
+ *
+ * Exports hooks for the contacts directory and opening contact conversations.
+ */
+
+export { useContacts, buildContacts } from './useContacts';
+export type { ContactsState } from './useContacts';
+
+export { useContactConversation } from './useContactConversation';
+export type { ContactConversationState } from './useContactConversation';
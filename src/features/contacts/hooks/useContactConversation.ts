@@ -0,0 +1,122 @@
+/**
+ * Hook for opening the conversation behind a contact.
+ *
+ * - Small groups and ministries open their existing group conversation.
+ * - Members open (or start) a direct conversation through the
+ *   get_or_create_direct_conversation RPC, since a new direct conversation
+ *   is not readable by its creator until both participants exist.
+ * - Zones have no conversation type, so they resolve to null.
+ */
+
+import { useCallback, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { Contact } from '../types';
+
+export interface ContactConversationState {
+  openConversation: (contact: Contact) => Promise<string | null>;
+  opening: boolean;
+  error: Error | null;
+}
+
+/**
+ * Look up the group conversation linked to a small group or ministry.
+ */
+async function findGroupConversation(
+  tenantId: string,
+  column: 'small_group_id' | 'ministry_id',
+  value: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('tenant_id', tenantId)
+    .eq('type', column === 'small_group_id' ? 'small_group' : 'ministry')
+    .eq(column, value)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as { id: string } | null)?.id ?? null;
+}
+
+/**
+ * Hook for resolving a contact to a conversation ID.
+ *
+ * @param tenantId - The active tenant ID
+ * @returns ContactConversationState with openConversation, which resolves to
+ *   the conversation ID or null when the contact has no conversation
+ *
+ * @example
+ * ```tsx
+ * function Directory() {
+ *   const router = useRouter();
+ *   const { openConversation } = useContactConversation(activeTenantId);
+ *
+ *   const handlePress = async (contact: Contact) => {
+ *     const conversationId = await openConversation(contact);
+ *     if (conversationId) {
+ *       router.push(`/chat/${conversationId}`);
+ *     }
+ *   };
+ * }
+ * ```
+ */
+export function useContactConversation(tenantId: string | null): ContactConversationState {
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const openConversation = useCallback(
+    async (contact: Contact): Promise<string | null> => {
+      if (!tenantId) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+
+      setOpening(true);
+      setError(null);
+
+      try {
+        switch (contact.category) {
+          case 'small_group':
+            return await findGroupConversation(tenantId, 'small_group_id', contact.smallGroupId);
+          case 'group_team':
+            return contact.ministryId
+              ? await findGroupConversation(tenantId, 'ministry_id', contact.ministryId)
+              : null;
+          case 'member': {
+            const { data, error: rpcError } = await supabase.rpc(
+              'get_or_create_direct_conversation',
+              {
+                p_tenant_id: tenantId,
+                p_other_membership_id: contact.membershipId,
+              }
+            );
+
+            if (rpcError) {
+              throw rpcError;
+            }
+
+            return typeof data === 'string' ? data : null;
+          }
+          case 'zone':
+            return null;
+        }
+      } catch (err) {
+        setError(err as Error);
+        return null;
+      } finally {
+        setOpening(false);
+      }
+    },
+    [tenantId]
+  );
+
+  return {
+    openConversation,
+    opening,
+    error,
+  };
+}
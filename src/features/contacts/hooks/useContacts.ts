@@ -0,0 +1,324 @@
+/**
+ * Hook for the contacts directory.
+ *
+ * Builds small group, zone, group/team (ministry), and member contacts for
+ * the active tenant from memberships, small_groups, zones, and ministries.
+ * Member counts only include active memberships.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { compareKorean } from '@/lib/hangul';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { Role } from '@/types/database';
+import type {
+  Contact,
+  GroupTeamContact,
+  MemberContact,
+  SmallGroupContact,
+  ZoneContact,
+} from '../types';
+
+export interface ContactsState {
+  contacts: Contact[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+interface RawMembershipRow {
+  id: string;
+  role: Role;
+  small_group_id: string | null;
+  user: { id: string; display_name: string | null; photo_url: string | null } | null;
+}
+
+interface RawSmallGroupRow {
+  id: string;
+  name: string;
+  zone_id: string | null;
+  leader_id: string | null;
+}
+
+interface RawZoneRow {
+  id: string;
+  name: string;
+  zone_leader_id: string | null;
+}
+
+interface RawMinistryRow {
+  id: string;
+  name: string;
+}
+
+interface RawMinistryMembershipRow {
+  ministry_id: string;
+  membership_id: string;
+}
+
+/**
+ * Tables whose changes refresh the directory.
+ */
+const CONTACT_TABLES = [
+  'memberships',
+  'small_groups',
+  'zones',
+  'ministries',
+  'ministry_memberships',
+] as const;
+
+/**
+ * Korean names first, then Latin names, each in dictionary order.
+ */
+const byName = (a: Contact, b: Contact) => compareKorean(a.name, b.name);
+
+/**
+ * Combine raw rows into directory contacts with active member counts.
+ */
+export function buildContacts(
+  memberships: RawMembershipRow[],
+  smallGroups: RawSmallGroupRow[],
+  zones: RawZoneRow[],
+  ministries: RawMinistryRow[],
+  ministryMemberships: RawMinistryMembershipRow[]
+): Contact[] {
+  const smallGroupCounts = new Map<string, number>();
+  for (const membership of memberships) {
+    if (membership.small_group_id) {
+      smallGroupCounts.set(
+        membership.small_group_id,
+        (smallGroupCounts.get(membership.small_group_id) ?? 0) + 1
+      );
+    }
+  }
+
+  const zoneCounts = new Map<string, number>();
+  for (const group of smallGroups) {
+    if (group.zone_id) {
+      zoneCounts.set(
+        group.zone_id,
+        (zoneCounts.get(group.zone_id) ?? 0) + (smallGroupCounts.get(group.id) ?? 0)
+      );
+    }
+  }
+
+  const activeMembershipIds = new Set(memberships.map((m) => m.id));
+  const ministryCounts = new Map<string, number>();
+  for (const row of ministryMemberships) {
+    if (activeMembershipIds.has(row.membership_id)) {
+      ministryCounts.set(row.ministry_id, (ministryCounts.get(row.ministry_id) ?? 0) + 1);
+    }
+  }
+
+  const smallGroupNames = new Map(smallGroups.map((g) => [g.id, g.name]));
+
+  const smallGroupContacts: SmallGroupContact[] = smallGroups.map((group) => ({
+    id: `small_group:${group.id}`,
+    category: 'small_group',
+    name: group.name,
+    smallGroupId: group.id,
+    leaderId: group.leader_id ?? undefined,
+    zoneId: group.zone_id,
+    memberCount: smallGroupCounts.get(group.id) ?? 0,
+  }));
+
+  const zoneContacts: ZoneContact[] = zones.map((zone) => ({
+    id: `zone:${zone.id}`,
+    category: 'zone',
+    name: zone.name,
+    zoneId: zone.id,
+    zoneLeaderId: zone.zone_leader_id,
+    memberCount: zoneCounts.get(zone.id) ?? 0,
+  }));
+
+  const groupTeamContacts: GroupTeamContact[] = ministries.map((ministry) => ({
+    id: `ministry:${ministry.id}`,
+    category: 'group_team',
+    name: ministry.name,
+    type: 'ministry',
+    ministryId: ministry.id,
+    memberCount: ministryCounts.get(ministry.id) ?? 0,
+  }));
+
+  const memberContacts: MemberContact[] = memberships
+    .filter((membership) => membership.user)
+    .map((membership) => {
+      const displayName = membership.user?.display_name ?? '';
+      return {
+        id: `member:${membership.id}`,
+        category: 'member',
+        name: displayName,
+        avatarUrl: membership.user?.photo_url ?? null,
+        membershipId: membership.id,
+        userId: membership.user?.id ?? '',
+        displayName,
+        role: membership.role,
+        smallGroupName: membership.small_group_id
+          ? (smallGroupNames.get(membership.small_group_id) ?? null)
+          : null,
+      };
+    });
+
+  return [
+    ...smallGroupContacts.sort(byName),
+    ...zoneContacts.sort(byName),
+    ...groupTeamContacts.sort(byName),
+    ...memberContacts.sort(byName),
+  ];
+}
+
+/**
+ * Hook for listing contacts in the active tenant.
+ *
+ * @param tenantId - The tenant ID to list contacts for
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns ContactsState with contacts ordered by category, then name
+ *
+ * @example
+ * ```tsx
+ * function Directory() {
+ *   const { activeTenantId } = useTenantContext();
+ *   const { contacts, loading } = useContacts(activeTenantId);
+ *
+ *   if (loading) return <Spinner />;
+ *   return contacts.map((contact) => <ContactListItem key={contact.id} contact={contact} />);
+ * }
+ * ```
+ */
+export function useContacts(
+  tenantId: string | null,
+  enableRealtime: boolean = true
+): ContactsState {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchContacts = useCallback(async () => {
+    if (!tenantId) {
+      setContacts([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [membershipsResult, smallGroupsResult, zonesResult, ministriesResult] =
+        await Promise.all([
+          supabase
+            .from('memberships')
+            .select(
+              `
+                id,
+                role,
+                small_group_id,
+                user:users!memberships_user_id_fkey (
+                  id,
+                  display_name,
+                  photo_url
+                )
+              `
+            )
+            .eq('tenant_id', tenantId)
+            .eq('status', 'active'),
+          supabase
+            .from('small_groups')
+            .select('id, name, zone_id, leader_id')
+            .eq('tenant_id', tenantId),
+          supabase.from('zones').select('id, name, zone_leader_id').eq('tenant_id', tenantId),
+          supabase.from('ministries').select('id, name').eq('tenant_id', tenantId),
+        ]);
+
+      const firstError =
+        membershipsResult.error ??
+        smallGroupsResult.error ??
+        zonesResult.error ??
+        ministriesResult.error;
+      if (firstError) {
+        throw firstError;
+      }
+
+      const ministries = (ministriesResult.data as RawMinistryRow[] | null) ?? [];
+      let ministryMemberships: RawMinistryMembershipRow[] = [];
+
+      if (ministries.length > 0) {
+        const { data, error: ministryMembershipsError } = await supabase
+          .from('ministry_memberships')
+          .select('ministry_id, membership_id')
+          .in(
+            'ministry_id',
+            ministries.map((m) => m.id)
+          );
+
+        if (ministryMembershipsError) {
+          throw ministryMembershipsError;
+        }
+
+        ministryMemberships = (data as RawMinistryMembershipRow[] | null) ?? [];
+      }
+
+      setContacts(
+        buildContacts(
+          (membershipsResult.data as unknown as RawMembershipRow[] | null) ?? [],
+          (smallGroupsResult.data as RawSmallGroupRow[] | null) ?? [],
+          (zonesResult.data as RawZoneRow[] | null) ?? [],
+          ministries,
+          ministryMemberships
+        )
+      );
+    } catch (err) {
+      setError(err as Error);
+      setContacts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!tenantId || !enableRealtime) {
+      return;
+    }
+
+    let channel: RealtimeChannel = supabase.channel(`contacts:${tenantId}`);
+
+    for (const table of CONTACT_TABLES) {
+      channel = channel.on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table,
+          // ministry_memberships has no tenant_id; RLS limits it to the user's tenants
+          ...(table === 'ministry_memberships' ? {} : { filter: `tenant_id=eq.${tenantId}` }),
+        },
+        () => {
+          void fetchContacts();
+        }
+      );
+    }
+
+    channel.subscribe((status) => {
+      if (status === 'CHANNEL_ERROR') {
+        console.error('Real-time subscription error for contacts');
+      }
+    });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [tenantId, enableRealtime, fetchContacts]);
+
+  useEffect(() => {
+    void fetchContacts();
+  }, [fetchContacts]);
+
+  return {
+    contacts,
+    loading,
+    error,
+    refetch: fetchContacts,
+  };
+}
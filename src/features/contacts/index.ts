@@ -5,4 +5,5 @@
 export { ContactsScreen } from './ContactsScreen';
 
 export * from './components';
+export * from './hooks';
 export * from './types';
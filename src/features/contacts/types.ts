@@ -48,6 +48,7 @@ export interface ZoneContact extends BaseContact {
 export interface GroupTeamContact extends BaseContact {
   category: 'group_team';
   type: 'ministry' | 'committee' | 'team';
+  ministryId?: string;
 }
 
 /**
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for useNotificationInbox hook.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { useNotificationInbox } from '../useNotificationInbox';
+import { supabase } from '@/lib/supabase';
+import type { NotificationRow } from '@/types/database';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown; channel: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+
+const createNotification = (overrides: Partial<NotificationRow>): NotificationRow => ({
+  id: 'notification-1',
+  tenant_id: mockTenantId,
+  user_id: 'user-1',
+  type: 'new_message',
+  title: 'Alice',
+  body: 'Hello',
+  payload: { type: 'new_message', conversation_id: 'conversation-1' },
+  read: false,
+  read_at: null,
+  created_at: '2025-01-13T10:00:00Z',
+  ...overrides,
+});
+
+/**
+ * Mock the inbox list query plus the update and delete calls used by the hook.
+ */
+function mockInboxQueries(rows: NotificationRow[]) {
+  const mockUpdateEq = jest.fn().mockReturnValue({
+    eq: resolvesTo({ error: null }),
+    then: (resolve: (value: unknown) => void) => resolve({ error: null }),
+  });
+  const mockUpdate = jest.fn().mockReturnValue({ eq: mockUpdateEq });
+  const mockDeleteEq = resolvesTo({ error: null });
+  const mockDelete = jest.fn().mockReturnValue({ eq: mockDeleteEq });
+
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        order: jest.fn().mockReturnValue({
+          limit: resolvesTo({ data: rows, error: null }),
+        }),
+      }),
+    }),
+    update: mockUpdate,
+    delete: mockDelete,
+  });
+
+  return { mockUpdate, mockUpdateEq, mockDeleteEq };
+}
+
+describe('useNotificationInbox', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return an empty inbox when tenantId is null', async () => {
+    const { result } = renderHook(() => useNotificationInbox(null, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.notifications).toEqual([]);
+    expect(result.current.unreadCount).toBe(0);
+  });
+
+  it('should load notifications and count unread items', async () => {
+    mockInboxQueries([
+      createNotification({ id: 'notification-1' }),
+      createNotification({ id: 'notification-2', read: true, read_at: '2025-01-13T11:00:00Z' }),
+    ]);
+
+    const { result } = renderHook(() => useNotificationInbox(mockTenantId, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.notifications).toHaveLength(2);
+    expect(result.current.unreadCount).toBe(1);
+  });
+
+  it('should mark a single notification as read', async () => {
+    const { mockUpdate, mockUpdateEq } = mockInboxQueries([createNotification({})]);
+
+    const { result } = renderHook(() => useNotificationInbox(mockTenantId, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    await act(async () => {
+      await result.current.markAsRead('notification-1');
+    });
+
+    const [[payload]] = mockUpdate.mock.calls as [[{ read: boolean; read_at: string }]];
+    expect(payload.read).toBe(true);
+    expect(payload.read_at).toEqual(expect.any(String));
+    expect(mockUpdateEq).toHaveBeenCalledWith('id', 'notification-1');
+    expect(result.current.unreadCount).toBe(0);
+  });
+
+  it('should mark all unread notifications in the tenant as read', async () => {
+    const { mockUpdateEq } = mockInboxQueries([
+      createNotification({ id: 'notification-1' }),
+      createNotification({ id: 'notification-2' }),
+    ]);
+
+    const { result } = renderHook(() => useNotificationInbox(mockTenantId, false));
+
+    await waitFor(() => {
+      expect(result.current.unreadCount).toBe(2);
+    });
+
+    await act(async () => {
+      await result.current.markAllAsRead();
+    });
+
+    expect(mockUpdateEq).toHaveBeenCalledWith('tenant_id', mockTenantId);
+    expect(result.current.unreadCount).toBe(0);
+  });
+
+  it('should remove a deleted notification from the list', async () => {
+    const { mockDeleteEq } = mockInboxQueries([
+      createNotification({ id: 'notification-1' }),
+      createNotification({ id: 'notification-2' }),
+    ]);
+
+    const { result } = renderHook(() => useNotificationInbox(mockTenantId, false));
+
+    await waitFor(() => {
+      expect(result.current.notifications).toHaveLength(2);
+    });
+
+    await act(async () => {
+      await result.current.deleteNotification('notification-1');
+    });
+
+    expect(mockDeleteEq).toHaveBeenCalledWith('id', 'notification-1');
+    expect(result.current.notifications.map((n) => n.id)).toEqual(['notification-2']);
+  });
+
+  it('should drop notifications deleted elsewhere from the list', async () => {
+    mockInboxQueries([
+      createNotification({ id: 'notification-1' }),
+      createNotification({ id: 'notification-2' }),
+    ]);
+    const on = jest.fn().mockReturnThis();
+    mockSupabase.channel = jest.fn().mockReturnValue({ on, subscribe: jest.fn() });
+
+    const { result } = renderHook(() => useNotificationInbox(mockTenantId));
+
+    await waitFor(() => {
+      expect(result.current.notifications).toHaveLength(2);
+    });
+
+    // DELETE events can't be filtered by tenant
+    const deleteCall = on.mock.calls.find(
+      ([, config]) => (config as { event?: string }).event === 'DELETE'
+    );
+    expect(deleteCall?.[1]).not.toHaveProperty('filter');
+
+    const handler = deleteCall?.[2] as (payload: unknown) => void;
+    act(() => {
+      handler({ eventType: 'DELETE', old: { id: 'notification-1', tenant_id: 'tenant-other' } });
+    });
+    expect(result.current.notifications).toHaveLength(2);
+
+    act(() => {
+      handler({ eventType: 'DELETE', old: { id: 'notification-1' } });
+    });
+    expect(result.current.notifications.map((n) => n.id)).toEqual(['notification-2']);
+  });
+
+  it('should surface errors from failed updates', async () => {
+    const updateError = new Error('Update failed');
+    mockSupabase.from = jest.fn().mockReturnValue({
+      update: jest.fn().mockReturnValue({ eq: resolvesTo({ error: updateError }) }),
+    });
+
+    const { result } = renderHook(() => useNotificationInbox(null, false));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let success = true;
+    await act(async () => {
+      success = await result.current.markAsRead('notification-1');
+    });
+
+    expect(success).toBe(false);
+    expect(result.current.error).toBe(updateError);
+  });
+});
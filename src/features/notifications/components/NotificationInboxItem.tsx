@@ -0,0 +1,257 @@
+/**
+ * Notification inbox item component.
+ *
+ * Displays a single inbox notification with:
+ * - Type icon
+ * - Title and body (truncated)
+ * - Relative timestamp
+ * - Unread dot
+ * - Swipe left to reveal delete
+ */
+
+import { useCallback, useMemo, useRef } from 'react';
+import { Animated, PanResponder, Pressable, StyleSheet, View } from 'react-native';
+import Ionicons from '@expo/vector-icons/Ionicons';
+import { Text as TamaguiText } from 'tamagui';
+import { useTranslation } from '@/i18n';
+import type { NotificationRow } from '@/types/database';
+
+export interface NotificationInboxItemProps {
+  /**
+   * The notification to display.
+   */
+  notification: NotificationRow;
+
+  /**
+   * Callback when the notification is pressed.
+   */
+  onPress: (notification: NotificationRow) => void;
+
+  /**
+   * Callback when the delete action is pressed.
+   */
+  onDelete: (notificationId: string) => void;
+
+  /**
+   * Test ID for E2E testing.
+   */
+  testID?: string;
+}
+
+const DELETE_ACTION_WIDTH = 80;
+const SWIPE_ACTIVATION_DISTANCE = 10;
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#EF4444',
+  },
+  deleteAction: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    right: 0,
+    width: DELETE_ACTION_WIDTH,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.06)',
+  },
+  rowPressed: {
+    backgroundColor: '#F9FAFB',
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F0F0F0',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    color: '#11181C',
+    lineHeight: 20,
+  },
+  titleUnread: {
+    fontWeight: '600',
+  },
+  body: {
+    fontSize: 13,
+    color: '#888888',
+    lineHeight: 18,
+    marginTop: 2,
+  },
+  meta: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+    gap: 6,
+  },
+  timestamp: {
+    fontSize: 11,
+    color: '#999999',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+  },
+});
+
+/**
+ * Pick an icon for the notification type.
+ */
+function getNotificationIcon(type: string): keyof typeof Ionicons.glyphMap {
+  switch (type) {
+    case 'new_message':
+      return 'chatbubble-outline';
+    case 'mention':
+      return 'at-outline';
+    case 'prayer_answered':
+    case 'prayer_intercession':
+    case 'new_prayer_card':
+      return 'heart-outline';
+    case 'pastoral_journal_submitted':
+    case 'pastoral_journal_forwarded':
+    case 'pastoral_journal_confirmed':
+      return 'book-outline';
+    default:
+      return 'notifications-outline';
+  }
+}
+
+/**
+ * Format timestamp for display.
+ * Returns time for today, "Yesterday", or a short date.
+ */
+function formatTimestamp(dateString: string, t: (key: string) => string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  const notificationDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  if (notificationDate.getTime() === today.getTime()) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  }
+
+  if (notificationDate.getTime() === yesterday.getTime()) {
+    return t('chat.yesterday');
+  }
+
+  return date.toLocaleDateString();
+}
+
+export function NotificationInboxItem({
+  notification,
+  onPress,
+  onDelete,
+  testID,
+}: NotificationInboxItemProps) {
+  const { t } = useTranslation();
+  const translateX = useRef(new Animated.Value(0)).current;
+  const isOpen = useRef(false);
+  const itemTestID = testID ?? `notification-inbox-item-${notification.id}`;
+
+  const settle = useCallback(
+    (open: boolean) => {
+      isOpen.current = open;
+      Animated.spring(translateX, {
+        toValue: open ? -DELETE_ACTION_WIDTH : 0,
+        useNativeDriver: true,
+      }).start();
+    },
+    [translateX]
+  );
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        // Only claim clearly horizontal drags so the list can still scroll
+        onMoveShouldSetPanResponder: (_event, gesture) =>
+          Math.abs(gesture.dx) > SWIPE_ACTIVATION_DISTANCE &&
+          Math.abs(gesture.dx) > Math.abs(gesture.dy),
+        onPanResponderMove: (_event, gesture) => {
+          const base = isOpen.current ? -DELETE_ACTION_WIDTH : 0;
+          translateX.setValue(Math.min(0, Math.max(-DELETE_ACTION_WIDTH, base + gesture.dx)));
+        },
+        onPanResponderRelease: (_event, gesture) => {
+          const base = isOpen.current ? -DELETE_ACTION_WIDTH : 0;
+          settle(base + gesture.dx < -DELETE_ACTION_WIDTH / 2);
+        },
+        onPanResponderTerminate: () => settle(isOpen.current),
+      }),
+    [translateX, settle]
+  );
+
+  const handlePress = () => {
+    if (isOpen.current) {
+      settle(false);
+      return;
+    }
+    onPress(notification);
+  };
+
+  return (
+    <View style={styles.container} testID={itemTestID}>
+      <Pressable
+        testID={`${itemTestID}-delete`}
+        onPress={() => onDelete(notification.id)}
+        style={styles.deleteAction}
+        accessibilityLabel={t('notifications.delete')}
+        accessibilityRole="button"
+      >
+        <Ionicons name="trash-outline" size={22} color="#FFFFFF" />
+      </Pressable>
+
+      <Animated.View style={{ transform: [{ translateX }] }} {...panResponder.panHandlers}>
+        <Pressable
+          testID={`${itemTestID}-row`}
+          onPress={handlePress}
+          style={({ pressed }) => [styles.row, pressed && styles.rowPressed]}
+          accessibilityLabel={`${notification.title}, ${notification.body}`}
+          accessibilityRole="button"
+          accessibilityHint={t('notifications.swipe_to_delete_hint')}
+        >
+          <View style={styles.iconContainer}>
+            <Ionicons name={getNotificationIcon(notification.type)} size={18} color="#333333" />
+          </View>
+
+          <View style={styles.content}>
+            <TamaguiText
+              style={[styles.title, !notification.read && styles.titleUnread]}
+              numberOfLines={1}
+            >
+              {notification.title}
+            </TamaguiText>
+            <TamaguiText style={styles.body} numberOfLines={2}>
+              {notification.body}
+            </TamaguiText>
+          </View>
+
+          <View style={styles.meta}>
+            <TamaguiText style={styles.timestamp}>
+              {formatTimestamp(notification.created_at, t)}
+            </TamaguiText>
+            {!notification.read && (
+              <View style={styles.unreadDot} testID={`${itemTestID}-unread`} />
+            )}
+          </View>
+        </Pressable>
+      </Animated.View>
+    </View>
+  );
+}
@@ -0,0 +1,8 @@
+/**
+ * Notification feature components.
+ *
+ * Exports all components related to the notification inbox.
+ */
+
+export { NotificationInboxItem } from './NotificationInboxItem';
+export type { NotificationInboxItemProps } from './NotificationInboxItem';
@@ -22,3 +22,9 @@ export type {
   NotificationHandlerActions,
   UseNotificationHandlerOptions,
 } from './useNotificationHandler';
+
+export { useNotificationInbox, useUnreadNotificationCount } from './useNotificationInbox';
+export type { NotificationInboxState, UnreadNotificationCountState } from './useNotificationInbox';
+
+export { NotificationInboxItem } from './components';
+export type { NotificationInboxItemProps } from './components';
@@ -29,6 +29,8 @@ export type NotificationType =
   | 'new_message'
   | 'mention'
   | 'prayer_answered'
+  | 'prayer_intercession'
+  | 'new_prayer_card'
   | 'pastoral_journal_submitted'
   | 'pastoral_journal_forwarded'
   | 'pastoral_journal_confirmed';
@@ -123,6 +125,8 @@ function buildDeepLink(notification: ParsedNotification): string | null {
       return null;
 
     case 'prayer_answered':
+    case 'prayer_intercession':
+    case 'new_prayer_card':
       if (data.prayer_card_id) {
         return `/prayer/${data.prayer_card_id}`;
       }
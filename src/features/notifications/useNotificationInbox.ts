@@ -0,0 +1,326 @@
+/**
+ * Hooks for the in-app notification inbox.
+ *
+ * Rows are written by send-push-notification for every push, so the inbox
+ * mirrors what the user was sent. RLS limits reads, updates, and deletes to
+ * the user's own notifications.
+ *
+ * @see claude_docs/06_push_notifications.md
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { NotificationRow } from '@/types/database';
+
+export interface NotificationInboxState {
+  notifications: NotificationRow[];
+  unreadCount: number;
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+  markAsRead: (notificationId: string) => Promise<boolean>;
+  markAllAsRead: () => Promise<boolean>;
+  deleteNotification: (notificationId: string) => Promise<boolean>;
+}
+
+export interface UnreadNotificationCountState {
+  unreadCount: number;
+  refetch: () => Promise<void>;
+}
+
+const INBOX_LIMIT = 100;
+
+/**
+ * Hook for listing and managing inbox notifications in the active tenant.
+ *
+ * @param tenantId - The tenant ID to list notifications for
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns NotificationInboxState with notifications (newest first) and inbox actions
+ *
+ * @example
+ * ```tsx
+ * function Inbox() {
+ *   const { tenantId } = useRequireAuth();
+ *   const { notifications, markAsRead, deleteNotification } = useNotificationInbox(tenantId);
+ *
+ *   return (
+ *     <FlatList
+ *       data={notifications}
+ *       renderItem={({ item }) => (
+ *         <InboxRow
+ *           notification={item}
+ *           onPress={() => markAsRead(item.id)}
+ *           onDelete={() => deleteNotification(item.id)}
+ *         />
+ *       )}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function useNotificationInbox(
+  tenantId: string | null,
+  enableRealtime: boolean = true
+): NotificationInboxState {
+  const [notifications, setNotifications] = useState<NotificationRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!tenantId) {
+      setNotifications([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('notifications')
+        .select('id, tenant_id, user_id, type, title, body, payload, read, read_at, created_at')
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT);
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      setNotifications((data as NotificationRow[] | null) ?? []);
+    } catch (err) {
+      setError(err as Error);
+      setNotifications([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!tenantId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`notifications:${tenantId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `tenant_id=eq.${tenantId}`,
+        },
+        () => {
+          void fetchNotifications();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Realtime can't filter DELETE events, so this receives every removed
+          // notification. Removing an ID that isn't listed does nothing.
+          event: 'DELETE',
+          schema: 'public',
+          table: 'notifications',
+        },
+        (payload) => {
+          const { id, tenant_id } = payload.old as { id: string; tenant_id?: string };
+          if (tenant_id && tenant_id !== tenantId) {
+            return;
+          }
+          setNotifications((prev) => prev.filter((n) => n.id !== id));
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for notifications');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [tenantId, enableRealtime, fetchNotifications]);
+
+  useEffect(() => {
+    void fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAsRead = useCallback(async (notificationId: string): Promise<boolean> => {
+    const readAt = new Date().toISOString();
+
+    try {
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update({ read: true, read_at: readAt })
+        .eq('id', notificationId);
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notificationId ? { ...n, read: true, read_at: readAt } : n))
+      );
+      return true;
+    } catch (err) {
+      setError(err as Error);
+      return false;
+    }
+  }, []);
+
+  const markAllAsRead = useCallback(async (): Promise<boolean> => {
+    if (!tenantId) {
+      setError(new Error('Missing required parameters'));
+      return false;
+    }
+
+    const readAt = new Date().toISOString();
+
+    try {
+      const { error: updateError } = await supabase
+        .from('notifications')
+        .update({ read: true, read_at: readAt })
+        .eq('tenant_id', tenantId)
+        .eq('read', false);
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setNotifications((prev) =>
+        prev.map((n) => (n.read ? n : { ...n, read: true, read_at: readAt }))
+      );
+      return true;
+    } catch (err) {
+      setError(err as Error);
+      return false;
+    }
+  }, [tenantId]);
+
+  const deleteNotification = useCallback(async (notificationId: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('notifications')
+        .delete()
+        .eq('id', notificationId);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+
+      setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+      return true;
+    } catch (err) {
+      setError(err as Error);
+      return false;
+    }
+  }, []);
+
+  return {
+    notifications,
+    unreadCount: notifications.filter((n) => !n.read).length,
+    loading,
+    error,
+    refetch: fetchNotifications,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  };
+}
+
+/**
+ * Hook for the unread inbox badge count in the active tenant.
+ *
+ * @param tenantId - The tenant ID to count unread notifications for
+ * @returns UnreadNotificationCountState with the unread count
+ *
+ * @example
+ * ```tsx
+ * function InboxButton() {
+ *   const { tenantId } = useRequireAuth();
+ *   const { unreadCount } = useUnreadNotificationCount(tenantId);
+ *
+ *   return <Badge count={unreadCount} />;
+ * }
+ * ```
+ */
+export function useUnreadNotificationCount(tenantId: string | null): UnreadNotificationCountState {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!tenantId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('tenant_id', tenantId)
+      .eq('read', false);
+
+    if (error) {
+      console.error('Failed to fetch unread notification count:', error);
+      return;
+    }
+
+    setUnreadCount(count ?? 0);
+  }, [tenantId]);
+
+  useEffect(() => {
+    if (!tenantId) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`notifications_unread:${tenantId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `tenant_id=eq.${tenantId}`,
+        },
+        () => {
+          void fetchUnreadCount();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // DELETE events can't be filtered; recount unless another tenant's row went
+          event: 'DELETE',
+          schema: 'public',
+          table: 'notifications',
+        },
+        (payload) => {
+          const { tenant_id } = payload.old as { tenant_id?: string };
+          if (tenant_id && tenant_id !== tenantId) {
+            return;
+          }
+          void fetchUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [tenantId, fetchUnreadCount]);
+
+  useEffect(() => {
+    void fetchUnreadCount();
+  }, [fetchUnreadCount]);
+
+  return {
+    unreadCount,
+    refetch: fetchUnreadCount,
+  };
+}
@@ -16,7 +16,8 @@ type PastoralJournal = Database['public']['Tables']['pastoral_journals']['Row'];
 type PastoralJournalStatus = PastoralJournal['status'];
 type Membership = Database['public']['Tables']['memberships']['Row'];
 
-export interface PastoralJournalWithRelations extends PastoralJournal {
+// content_text only exists for search
+export interface PastoralJournalWithRelations extends Omit<PastoralJournal, 'content_text'> {
   author: {
     id: string;
     user: {
@@ -8,6 +8,7 @@
  * - TextArea for prayer content (required, max 1000 chars)
  * - Button to open RecipientSelector
  * - Display selected recipients summary
+ * - Urgent toggle (high-priority push delivery)
  * - Form validation
  * - i18n support
  */
@@ -49,6 +50,11 @@ export interface CreatePrayerCardModalProps {
    */
   recipientIds: string[];
 
+  /**
+   * Whether the prayer card is marked urgent.
+   */
+  isUrgent?: boolean;
+
   /**
    * Callback when content changes.
    */
@@ -64,6 +70,11 @@ export interface CreatePrayerCardModalProps {
    */
   onRecipientIdsChange: (ids: string[]) => void;
 
+  /**
+   * Callback when the urgent toggle changes.
+   */
+  onUrgentChange?: (isUrgent: boolean) => void;
+
   /**
    * Callback when prayer card is created successfully.
    */
@@ -128,9 +139,11 @@ export function CreatePrayerCardModal({
   content,
   recipientScope,
   recipientIds,
+  isUrgent = false,
   onContentChange,
   onRecipientScopeChange,
   onRecipientIdsChange,
+  onUrgentChange,
   onSuccess,
   onClose,
   visible,
@@ -296,6 +309,34 @@ export function CreatePrayerCardModal({
                   </Pressable>
                 )}
               </YStack>
+
+              {/* Urgent Toggle */}
+              {onUrgentChange && (
+                <XStack alignItems="center" justifyContent="space-between" marginBottom="$2">
+                  <TamaguiText fontSize="$sm" fontWeight="bold" color="$color">
+                    {t('prayer.compose_urgent_toggle')}
+                  </TamaguiText>
+                  <Pressable
+                    testID="urgent-toggle"
+                    onPress={() => onUrgentChange(!isUrgent)}
+                    disabled={creating}
+                    accessibilityRole="switch"
+                    accessibilityState={{ checked: isUrgent }}
+                  >
+                    <Stack
+                      width={48}
+                      height={28}
+                      borderRadius={14}
+                      backgroundColor={isUrgent ? '#ef4444' : '$backgroundTertiary'}
+                      justifyContent="center"
+                      paddingHorizontal={2}
+                      alignItems={isUrgent ? 'flex-end' : 'flex-start'}
+                    >
+                      <Stack width={24} height={24} borderRadius={12} backgroundColor="white" />
+                    </Stack>
+                  </Pressable>
+                </XStack>
+              )}
             </ScrollView>
 
             {/* Footer */}
@@ -6,12 +6,20 @@
  * - Three tabs: Individual, Small Group, Church-wide
  * - Individual: multi-select members with checkboxes
  * - Small Group: single-select small group with radio buttons
+ * - Search by name, including 초성 ("ㄱㅁㅈ" finds "김민지"); lists are in
+ *   Korean-first order
  * - Church-wide: informational text (no selection needed)
  * - i18n support for English and Korean
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { Pressable, ScrollView, ActivityIndicator, View as RNView } from 'react-native';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  TextInput,
+  View as RNView,
+} from 'react-native';
 import {
   Stack,
   Text as TamaguiText,
@@ -25,6 +33,7 @@ import {
 } from 'tamagui';
 import { useTranslation } from '@/i18n';
 import { supabase } from '@/lib/supabase';
+import { compareKorean, filterByHangulSearch } from '@/lib/hangul';
 import type { PrayerCardRecipientScope } from '@/types/database';
 
 // ============================================================================
@@ -165,6 +174,7 @@ export function RecipientSelector({
   const [smallGroups, setSmallGroups] = useState<SmallGroup[]>([]);
   const [selectedMemberIds, setSelectedMemberIds] = useState<Set<string>>(new Set());
   const [selectedSmallGroupId, setSelectedSmallGroupId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -202,7 +212,8 @@ export function RecipientSelector({
               display_name: item.users?.display_name ?? null,
               photo_url: item.users?.photo_url ?? null,
             }))
-            .filter((m) => m.membership_id !== currentMembershipId) ?? [];
+            .filter((m) => m.membership_id !== currentMembershipId)
+            .sort((a, b) => compareKorean(a.display_name ?? '', b.display_name ?? '')) ?? [];
 
         setMembers(transformedData);
       } catch (err) {
@@ -248,6 +259,7 @@ export function RecipientSelector({
             name: item.name,
             leader_name: item.memberships?.user?.display_name ?? null,
           })) ?? [];
+        transformedData.sort((a, b) => compareKorean(a.name, b.name));
 
         setSmallGroups(transformedData);
       } catch (err) {
@@ -266,9 +278,20 @@ export function RecipientSelector({
       setActiveTab('individual');
       setSelectedMemberIds(new Set());
       setSelectedSmallGroupId(null);
+      setSearchQuery('');
     }
   }, [visible]);
 
+  const visibleMembers = useMemo(
+    () => filterByHangulSearch(members, searchQuery, (member) => member.display_name),
+    [members, searchQuery]
+  );
+
+  const visibleSmallGroups = useMemo(
+    () => filterByHangulSearch(smallGroups, searchQuery, (group) => group.name),
+    [smallGroups, searchQuery]
+  );
+
   const toggleMemberSelection = useCallback((membershipId: string) => {
     setSelectedMemberIds((prev) => {
       const newSet = new Set(prev);
@@ -352,6 +375,28 @@ export function RecipientSelector({
           </TabButton>
         </XStack>
 
+        {/* Search (individual and small group tabs) */}
+        {activeTab !== 'church_wide' && (
+          <XStack
+            margin="$3"
+            paddingHorizontal="$3"
+            borderRadius="$2"
+            backgroundColor="$backgroundSecondary"
+            alignItems="center"
+          >
+            <TextInput
+              testID="recipient-search-input"
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              placeholder={t('prayer.recipient_search_placeholder')}
+              placeholderTextColor="#8e8e93"
+              autoCorrect={false}
+              autoCapitalize="none"
+              style={{ flex: 1, fontSize: 15, paddingVertical: 8, color: theme.color?.val }}
+            />
+          </XStack>
+        )}
+
         {/* Error state */}
         {error && (
           <YStack padding="$4" backgroundColor="$dangerLight" testID="recipient-error">
@@ -387,8 +432,14 @@ export function RecipientSelector({
                       No other members available
                     </TamaguiText>
                   </YStack>
+                ) : visibleMembers.length === 0 ? (
+                  <YStack padding="$4" alignItems="center">
+                    <TamaguiText fontSize="$sm" color="$color3">
+                      {t('prayer.recipient_search_no_results')}
+                    </TamaguiText>
+                  </YStack>
                 ) : (
-                  members.map((member) => {
+                  visibleMembers.map((member) => {
                     const isSelected = selectedMemberIds.has(member.membership_id);
                     return (
                       <ListItem
@@ -430,12 +481,18 @@ export function RecipientSelector({
                       No small groups available
                     </TamaguiText>
                   </YStack>
+                ) : visibleSmallGroups.length === 0 ? (
+                  <YStack padding="$4" alignItems="center">
+                    <TamaguiText fontSize="$sm" color="$color3">
+                      {t('prayer.recipient_search_no_results')}
+                    </TamaguiText>
+                  </YStack>
                 ) : (
                   <RadioGroup
                     value={selectedSmallGroupId ?? ''}
                     onValueChange={setSelectedSmallGroupId}
                   >
-                    {smallGroups.map((group) => {
+                    {visibleSmallGroups.map((group) => {
                       const isSelected = selectedSmallGroupId === group.id;
                       return (
                         <ListItem
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for prayer card intercession hooks.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import { usePrayerCardIntercessions, useRecordIntercession } from '../usePrayerCardIntercessions';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+const mockInvoke = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+    auth: {
+      getSession: () => Promise.resolve({ data: { session: { access_token: 'token' } } }),
+    },
+    functions: {
+      invoke: (...args: unknown[]) => mockInvoke(...args),
+    },
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockPrayerCardId = 'card-1';
+const mockMembershipId = 'membership-2';
+
+/**
+ * Mock the existing-row lookup and upsert used by recordIntercession.
+ */
+function mockRecordQueries(existingDuration: number | null | undefined) {
+  const mockUpsert = resolvesTo({ error: null });
+  mockSupabase.from = jest.fn().mockReturnValue({
+    select: jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          maybeSingle: resolvesTo({
+            data: existingDuration === undefined ? null : { duration_seconds: existingDuration },
+            error: null,
+          }),
+        }),
+      }),
+    }),
+    upsert: mockUpsert,
+  });
+  return mockUpsert;
+}
+
+describe('usePrayerCardIntercessions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return empty intercessions when prayerCardId is null', async () => {
+    const { result } = renderHook(() => usePrayerCardIntercessions(null, mockTenantId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.intercessions).toEqual([]);
+  });
+
+  it('should fetch and transform intercessions with member info', async () => {
+    const mockOrder = resolvesTo({
+      data: [
+        {
+          id: 'int-1',
+          prayer_card_id: mockPrayerCardId,
+          membership_id: mockMembershipId,
+          duration_seconds: 180,
+          prayed_at: '2025-01-10T09:00:00Z',
+          membership: { id: mockMembershipId, user: { display_name: 'Lee', photo_url: null } },
+        },
+      ],
+      error: null,
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({ order: mockOrder }),
+        }),
+      }),
+    });
+
+    const { result } = renderHook(() =>
+      usePrayerCardIntercessions(mockPrayerCardId, mockTenantId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('prayer_card_intercessions');
+    expect(mockOrder).toHaveBeenCalledWith('prayed_at', { ascending: false });
+    expect(result.current.intercessions).toEqual([
+      {
+        id: 'int-1',
+        prayerCardId: mockPrayerCardId,
+        membershipId: mockMembershipId,
+        memberName: 'Lee',
+        memberPhotoUrl: null,
+        durationSeconds: 180,
+        prayedAt: '2025-01-10T09:00:00Z',
+      },
+    ]);
+  });
+});
+
+describe('useRecordIntercession', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInvoke.mockResolvedValue({ error: null });
+  });
+
+  it('should not record without a membership', async () => {
+    const { result } = renderHook(() => useRecordIntercession(mockTenantId, null));
+
+    const success = await act(async () => {
+      return await result.current.recordIntercession(mockPrayerCardId);
+    });
+
+    expect(success).toBe(false);
+    expect(result.current.error?.message).toBe('Missing required parameters');
+  });
+
+  it('should upsert one row per member and notify the author', async () => {
+    const mockUpsert = mockRecordQueries(undefined);
+
+    const { result } = renderHook(() => useRecordIntercession(mockTenantId, mockMembershipId));
+
+    const success = await act(async () => {
+      return await result.current.recordIntercession(mockPrayerCardId, 120);
+    });
+
+    expect(success).toBe(true);
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tenant_id: mockTenantId,
+        prayer_card_id: mockPrayerCardId,
+        membership_id: mockMembershipId,
+        duration_seconds: 120,
+        notified_at: null,
+      }),
+      { onConflict: 'prayer_card_id,membership_id' }
+    );
+    expect(mockInvoke).toHaveBeenCalledWith(
+      'handle-prayer-intercession',
+      expect.objectContaining({ body: { prayer_card_id: mockPrayerCardId } })
+    );
+  });
+
+  it('should accumulate duration when praying again', async () => {
+    const mockUpsert = mockRecordQueries(300);
+
+    const { result } = renderHook(() => useRecordIntercession(mockTenantId, mockMembershipId));
+
+    await act(async () => {
+      await result.current.recordIntercession(mockPrayerCardId, 60);
+    });
+
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ duration_seconds: 360 }),
+      expect.anything()
+    );
+  });
+
+  it('should keep the previous duration when no timer was used', async () => {
+    const mockUpsert = mockRecordQueries(300);
+
+    const { result } = renderHook(() => useRecordIntercession(mockTenantId, mockMembershipId));
+
+    await act(async () => {
+      await result.current.recordIntercession(mockPrayerCardId, null);
+    });
+
+    expect(mockUpsert).toHaveBeenCalledWith(
+      expect.objectContaining({ duration_seconds: 300 }),
+      expect.anything()
+    );
+  });
+
+  it('should still succeed when the notification function fails', async () => {
+    mockRecordQueries(undefined);
+    mockInvoke.mockResolvedValue({ error: new Error('function down') });
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useRecordIntercession(mockTenantId, mockMembershipId));
+
+    const success = await act(async () => {
+      return await result.current.recordIntercession(mockPrayerCardId);
+    });
+
+    expect(success).toBe(true);
+    expect(result.current.error).toBeNull();
+    consoleSpy.mockRestore();
+  });
+});
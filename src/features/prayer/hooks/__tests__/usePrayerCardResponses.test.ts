@@ -0,0 +1,227 @@
+/**
+ * Unit tests for prayer card response (testimony) hooks.
+ */
+
+import { renderHook, waitFor, act } from '@testing-library/react-native';
+import {
+  usePrayerCardResponses,
+  useAddPrayerCardResponse,
+  useUpdatePrayerCardResponse,
+} from '../usePrayerCardResponses';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    channel: jest.fn(),
+    removeChannel: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockPrayerCardId = 'card-1';
+const mockMembershipId = 'membership-1';
+
+describe('usePrayerCardResponses', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return empty responses when prayerCardId is null', async () => {
+    const { result } = renderHook(() => usePrayerCardResponses(null, mockTenantId));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.responses).toEqual([]);
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should fetch and transform responses with author info', async () => {
+    const mockOrder = resolvesTo({
+      data: [
+        {
+          id: 'resp-1',
+          prayer_card_id: mockPrayerCardId,
+          author_id: mockMembershipId,
+          content: 'God provided a new job',
+          created_at: '2025-01-09T10:00:00Z',
+          updated_at: '2025-01-09T11:00:00Z',
+          author: {
+            id: mockMembershipId,
+            user: { display_name: 'Kim', photo_url: 'https://example.com/kim.png' },
+          },
+        },
+      ],
+      error: null,
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({ order: mockOrder }),
+        }),
+      }),
+    });
+
+    const { result } = renderHook(() =>
+      usePrayerCardResponses(mockPrayerCardId, mockTenantId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('prayer_card_responses');
+    expect(mockOrder).toHaveBeenCalledWith('created_at', { ascending: true });
+    expect(result.current.responses).toEqual([
+      {
+        id: 'resp-1',
+        prayerCardId: mockPrayerCardId,
+        authorId: mockMembershipId,
+        authorName: 'Kim',
+        authorPhotoUrl: 'https://example.com/kim.png',
+        content: 'God provided a new job',
+        createdAt: '2025-01-09T10:00:00Z',
+        updatedAt: '2025-01-09T11:00:00Z',
+      },
+    ]);
+  });
+
+  it('should set error when fetch fails', async () => {
+    mockSupabase.from = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            order: resolvesTo({ data: null, error: new Error('boom') }),
+          }),
+        }),
+      }),
+    });
+
+    const { result } = renderHook(() =>
+      usePrayerCardResponses(mockPrayerCardId, mockTenantId, false)
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.error?.message).toBe('boom');
+    expect(result.current.responses).toEqual([]);
+  });
+});
+
+describe('useAddPrayerCardResponse', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not add a response without a membership', async () => {
+    const { result } = renderHook(() => useAddPrayerCardResponse(mockTenantId, null));
+
+    const responseId = await act(async () => {
+      return await result.current.addResponse(mockPrayerCardId, 'Answered!');
+    });
+
+    expect(responseId).toBeNull();
+    expect(result.current.error?.message).toBe('Missing required parameters');
+  });
+
+  it('should reject empty and overlong testimonies', async () => {
+    const { result } = renderHook(() => useAddPrayerCardResponse(mockTenantId, mockMembershipId));
+
+    const emptyId = await act(async () => {
+      return await result.current.addResponse(mockPrayerCardId, '   ');
+    });
+    expect(emptyId).toBeNull();
+    expect(result.current.error?.message).toBe('Testimony cannot be empty');
+
+    const longId = await act(async () => {
+      return await result.current.addResponse(mockPrayerCardId, 'a'.repeat(1001));
+    });
+    expect(longId).toBeNull();
+    expect(result.current.error?.message).toBe('Testimony cannot exceed 1000 characters');
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+  });
+
+  it('should insert a trimmed testimony and return its id', async () => {
+    const mockInsert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        single: resolvesTo({ data: { id: 'resp-new' }, error: null }),
+      }),
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({ insert: mockInsert });
+
+    const { result } = renderHook(() => useAddPrayerCardResponse(mockTenantId, mockMembershipId));
+
+    const responseId = await act(async () => {
+      return await result.current.addResponse(mockPrayerCardId, '  Answered!  ');
+    });
+
+    expect(responseId).toBe('resp-new');
+    expect(mockInsert).toHaveBeenCalledWith({
+      tenant_id: mockTenantId,
+      prayer_card_id: mockPrayerCardId,
+      author_id: mockMembershipId,
+      content: 'Answered!',
+    });
+    expect(result.current.adding).toBe(false);
+  });
+});
+
+describe('useUpdatePrayerCardResponse', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should update testimony content', async () => {
+    const mockSecondEq = resolvesTo({ error: null });
+    const mockUpdate = jest.fn().mockReturnValue({
+      eq: jest.fn().mockReturnValue({ eq: mockSecondEq }),
+    });
+    mockSupabase.from = jest.fn().mockReturnValue({ update: mockUpdate });
+
+    const { result } = renderHook(() => useUpdatePrayerCardResponse(mockTenantId));
+
+    const success = await act(async () => {
+      return await result.current.updateResponse('resp-1', 'Updated testimony');
+    });
+
+    expect(success).toBe(true);
+    expect(mockUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'Updated testimony' })
+    );
+    expect(mockSecondEq).toHaveBeenCalledWith('tenant_id', mockTenantId);
+  });
+
+  it('should surface RLS errors for testimonies owned by others', async () => {
+    const rlsError = new Error('permission denied');
+    mockSupabase.from = jest.fn().mockReturnValue({
+      update: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          eq: resolvesTo({ error: rlsError }),
+        }),
+      }),
+    });
+
+    const { result } = renderHook(() => useUpdatePrayerCardResponse(mockTenantId));
+
+    await act(async () => {
+      await expect(result.current.updateResponse('resp-1', 'Hijack')).rejects.toThrow(
+        'permission denied'
+      );
+    });
+
+    expect(result.current.error).toBe(rlsError);
+    expect(result.current.updating).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for usePrayerCardSubscription hook.
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { usePrayerCardSubscription } from '../usePrayerCardSubscription';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+type PostgresChangesHandler = (payload: unknown) => void;
+
+const mockSubscribe = jest.fn<(callback: (status: string) => void) => unknown>();
+const mockOn =
+  jest.fn<(event: string, config: { table: string }, handler: PostgresChangesHandler) => unknown>();
+const mockRemoveChannel = jest.fn<(...args: unknown[]) => unknown>();
+const mockMaybeSingle = jest.fn<() => Promise<{ data: unknown; error: unknown }>>();
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    channel: jest.fn(() => ({
+      on: mockOn.mockReturnThis(),
+      subscribe: mockSubscribe,
+    })),
+    removeChannel: (...args: unknown[]) => mockRemoveChannel(...args),
+    from: jest.fn(() => ({
+      select: jest.fn(() => ({
+        eq: jest.fn(() => ({
+          eq: jest.fn(() => ({
+            maybeSingle: () => mockMaybeSingle(),
+          })),
+        })),
+      })),
+    })),
+  },
+}));
+
+const mockTenantId = 'tenant-123';
+
+const mockCardRow = {
+  id: 'card-1',
+  tenant_id: mockTenantId,
+  author_id: 'membership-1',
+  content: 'Please pray for my family',
+  recipient_scope: 'small_group',
+  answered: false,
+  answered_at: null,
+  created_at: '2025-01-08T10:00:00Z',
+  updated_at: '2025-01-08T10:00:00Z',
+};
+
+/**
+ * Get the postgres_changes handler registered for a table.
+ */
+function getHandler(table: string): PostgresChangesHandler {
+  const call = mockOn.mock.calls.find(([, config]) => config.table === table);
+  if (!call) {
+    throw new Error(`No handler registered for ${table}`);
+  }
+  return call[2];
+}
+
+describe('usePrayerCardSubscription', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSubscribe.mockImplementation((callback) => {
+      callback('SUBSCRIBED');
+      return { unsubscribe: jest.fn() };
+    });
+  });
+
+  it('should not subscribe when tenantId is null', () => {
+    renderHook(() => usePrayerCardSubscription(null, { onInsert: jest.fn() }));
+
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  it('should subscribe to prayer cards and recipients for the tenant', () => {
+    renderHook(() => usePrayerCardSubscription(mockTenantId, { onInsert: jest.fn() }));
+
+    expect(supabase.channel).toHaveBeenCalledWith(`prayer-cards:${mockTenantId}`);
+    expect(mockOn).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({
+        event: '*',
+        schema: 'public',
+        table: 'prayer_cards',
+        filter: `tenant_id=eq.${mockTenantId}`,
+      }),
+      expect.any(Function)
+    );
+    expect(mockOn).toHaveBeenCalledWith(
+      'postgres_changes',
+      expect.objectContaining({
+        event: 'INSERT',
+        schema: 'public',
+        table: 'prayer_card_recipients',
+      }),
+      expect.any(Function)
+    );
+  });
+
+  it('should fetch the full card with author and recipients on insert', async () => {
+    const recipients = [
+      {
+        id: 'rec-1',
+        prayer_card_id: 'card-1',
+        recipient_membership_id: null,
+        recipient_small_group_id: 'sg-1',
+        created_at: '2025-01-08T10:00:00Z',
+      },
+    ];
+    mockMaybeSingle.mockResolvedValue({
+      data: {
+        ...mockCardRow,
+        author: {
+          id: 'membership-1',
+          user: { id: 'user-1', display_name: 'Kim', photo_url: null },
+        },
+        recipients,
+      },
+      error: null,
+    });
+
+    const onInsert = jest.fn();
+    renderHook(() => usePrayerCardSubscription(mockTenantId, { onInsert }));
+
+    getHandler('prayer_cards')({ eventType: 'INSERT', new: mockCardRow, old: {} });
+
+    await waitFor(() => {
+      expect(onInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'card-1',
+          author: {
+            id: 'membership-1',
+            user: { id: 'user-1', display_name: 'Kim', photo_url: null },
+          },
+          recipients,
+        })
+      );
+    });
+  });
+
+  it('should refetch the card when a recipient row is inserted', async () => {
+    mockMaybeSingle.mockResolvedValue({
+      data: { ...mockCardRow, author: null, recipients: [] },
+      error: null,
+    });
+
+    const onInsert = jest.fn();
+    renderHook(() => usePrayerCardSubscription(mockTenantId, { onInsert }));
+
+    getHandler('prayer_card_recipients')({
+      eventType: 'INSERT',
+      new: { id: 'rec-1', prayer_card_id: 'card-1' },
+      old: {},
+    });
+
+    await waitFor(() => {
+      expect(onInsert).toHaveBeenCalledWith(expect.objectContaining({ id: 'card-1' }));
+    });
+  });
+
+  it('should skip insert callback when the card is not visible', async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const onInsert = jest.fn();
+    renderHook(() => usePrayerCardSubscription(mockTenantId, { onInsert }));
+
+    getHandler('prayer_cards')({ eventType: 'INSERT', new: mockCardRow, old: {} });
+
+    await waitFor(() => {
+      expect(mockMaybeSingle).toHaveBeenCalled();
+    });
+    expect(onInsert).not.toHaveBeenCalled();
+  });
+
+  it('should pass updated rows to onUpdate', () => {
+    const onUpdate = jest.fn();
+    renderHook(() => usePrayerCardSubscription(mockTenantId, { onUpdate }));
+
+    const updated = { ...mockCardRow, answered: true, answered_at: '2025-01-09T00:00:00Z' };
+    getHandler('prayer_cards')({ eventType: 'UPDATE', new: updated, old: mockCardRow });
+
+    expect(onUpdate).toHaveBeenCalledWith(updated);
+  });
+
+  it('should call onError when subscription fails', () => {
+    mockSubscribe.mockImplementation((callback) => {
+      callback('CHANNEL_ERROR');
+      return { unsubscribe: jest.fn() };
+    });
+
+    const onError = jest.fn();
+    renderHook(() => usePrayerCardSubscription(mockTenantId, { onError }));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('should remove the channel on unmount', () => {
+    const { unmount } = renderHook(() =>
+      usePrayerCardSubscription(mockTenantId, { onInsert: jest.fn() })
+    );
+
+    unmount();
+
+    expect(mockRemoveChannel).toHaveBeenCalled();
+  });
+});
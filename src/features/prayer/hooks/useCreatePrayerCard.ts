@@ -2,7 +2,7 @@
  * Hook for creating prayer cards.
  *
  * Provides a mutation function for creating prayer cards with tenant isolation
- * and recipient management.
+ * and recipient management, and triggers push notifications to recipients.
  */
 
 import { useCallback, useState } from 'react';
@@ -13,6 +13,10 @@ export interface CreatePrayerCardOptions {
   content: string;
   recipientScope: PrayerCardRecipientScope;
   recipientIds?: string[];
+  /**
+   * Urgent cards are pushed with high priority and the critical sound.
+   */
+  isUrgent?: boolean;
 }
 
 export interface CreatePrayerCardState {
@@ -43,6 +47,7 @@ const MAX_CONTENT_LENGTH = 1000;
  *     const result = await createPrayerCard({
  *       content: 'Please pray for my surgery tomorrow.',
  *       recipientScope: 'small_group',
+ *       isUrgent: true,
  *     });
  *
  *     if (result) {
@@ -71,7 +76,7 @@ export function useCreatePrayerCard(
 
   const createPrayerCard = useCallback(
     async (options: CreatePrayerCardOptions): Promise<string | null> => {
-      const { content, recipientScope, recipientIds = [] } = options;
+      const { content, recipientScope, recipientIds = [], isUrgent = false } = options;
 
       if (!tenantId || !authorMembershipId) {
         setError(new Error('Missing required parameters'));
@@ -124,6 +129,7 @@ export function useCreatePrayerCard(
             author_id: authorMembershipId,
             content: content.trim(),
             recipient_scope: recipientScope,
+            is_urgent: isUrgent,
             answered: false,
           })
           .select('id')
@@ -172,6 +178,32 @@ export function useCreatePrayerCard(
         }
         // For church_wide, no recipients needed - all tenant members can see
 
+        // Call Edge Function to notify recipients (after recipient rows exist)
+        try {
+          const {
+            data: { session },
+          } = await supabase.auth.getSession();
+          const { error: functionError } = await supabase.functions.invoke(
+            'handle-prayer-card-created',
+            {
+              body: {
+                prayer_card_id: prayerCardId,
+              },
+              headers: {
+                Authorization: `Bearer ${session?.access_token}`,
+              },
+            }
+          );
+
+          if (functionError) {
+            // Log error but don't fail the create operation
+            console.error('Failed to trigger prayer card notifications:', functionError);
+          }
+        } catch (functionErr) {
+          // Log error but don't fail the create operation
+          console.error('Failed to invoke prayer card created function:', functionErr);
+        }
+
         return prayerCardId;
       } catch (err) {
         setError(err as Error);
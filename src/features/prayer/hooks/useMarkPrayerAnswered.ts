@@ -91,8 +91,7 @@ export function useMarkPrayerAnswered(tenantId: string | null): MarkPrayerAnswer
             'handle-prayer-answered',
             {
               body: {
-                prayerCardId,
-                tenantId,
+                prayer_card_id: prayerCardId,
               },
               headers: {
                 Authorization: `Bearer ${session?.access_token}`,
@@ -0,0 +1,91 @@
+/**
+ * Prayer card feed hook.
+ *
+ * Loads the active tenant's prayer cards into the prayer card store and keeps
+ * them in sync with real-time inserts and updates.
+ */
+
+import { useEffect } from 'react';
+import { useTenantContext } from '@/hooks/useTenantContext';
+import { useCurrentMembership } from '@/hooks/useCurrentMembership';
+import { usePrayerCardStore, toPrayerCardWithDetails } from '@/stores/prayerCardStore';
+import { usePrayerCards } from './usePrayerCards';
+import { usePrayerCardSubscription } from './usePrayerCardSubscription';
+
+export interface PrayerCardFeedState {
+  tenantId: string | null;
+  membershipId: string | null;
+  loading: boolean;
+  error: Error | null;
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+const FEED_PAGE_SIZE = 50;
+
+/**
+ * Hook that backs the prayer tab with Supabase data.
+ *
+ * Cards are written to usePrayerCardStore so list, detail, and compose
+ * screens share the same data and filters (viewScope / entityFilter).
+ * The urgent view scope is filtered server-side on is_urgent.
+ *
+ * @returns PrayerCardFeedState with tenant/membership context and pagination controls
+ *
+ * @example
+ * ```tsx
+ * function PrayerScreen() {
+ *   const { loading, refetch } = usePrayerCardFeed();
+ *   const cards = usePrayerCardStore((state) => state.filteredPrayerCards);
+ *
+ *   return <FlatList data={cards} refreshing={loading} onRefresh={refetch} />;
+ * }
+ * ```
+ */
+export function usePrayerCardFeed(): PrayerCardFeedState {
+  const { activeTenantId } = useTenantContext();
+  const { membership, membershipId } = useCurrentMembership();
+
+  const setPrayerCards = usePrayerCardStore((state) => state.setPrayerCards);
+  const upsertPrayerCard = usePrayerCardStore((state) => state.upsertPrayerCard);
+  const applyPrayerCardUpdate = usePrayerCardStore((state) => state.applyPrayerCardUpdate);
+  const setCurrentSmallGroupId = usePrayerCardStore((state) => state.setCurrentSmallGroupId);
+  const urgentOnly = usePrayerCardStore((state) => state.viewScope === 'urgent');
+
+  const { prayerCards, loading, error, hasMore, loadMore, refetch } = usePrayerCards(
+    activeTenantId,
+    membershipId,
+    { scope: 'all_prayers', urgentOnly },
+    FEED_PAGE_SIZE
+  );
+
+  // Sync fetched cards into the store, keeping responses already loaded
+  useEffect(() => {
+    const existing = usePrayerCardStore.getState().prayerCards;
+    setPrayerCards(
+      prayerCards.map((card) =>
+        toPrayerCardWithDetails(card, existing.find((c) => c.id === card.id)?.responses)
+      )
+    );
+  }, [prayerCards, setPrayerCards]);
+
+  useEffect(() => {
+    setCurrentSmallGroupId(membership?.small_group_id ?? null);
+  }, [membership?.small_group_id, setCurrentSmallGroupId]);
+
+  usePrayerCardSubscription(activeTenantId, {
+    onInsert: (card) => upsertPrayerCard(toPrayerCardWithDetails(card)),
+    onUpdate: applyPrayerCardUpdate,
+  });
+
+  return {
+    tenantId: activeTenantId,
+    membershipId,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+    refetch,
+  };
+}
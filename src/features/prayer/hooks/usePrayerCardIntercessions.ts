@@ -0,0 +1,290 @@
+/**
+ * Hooks for "I prayed for this" intercessions on prayer cards.
+ *
+ * Provides listing with real-time updates and a mutation for recording that
+ * the current member prayed. Recording triggers a batched push to the author.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { PrayerCardIntercession } from '@/types/prayer';
+
+export interface PrayerCardIntercessionsState {
+  intercessions: PrayerCardIntercession[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+export interface RecordIntercessionState {
+  recordIntercession: (prayerCardId: string, durationSeconds?: number | null) => Promise<boolean>;
+  recording: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook for fetching the members who prayed for a prayer card.
+ *
+ * @param prayerCardId - The prayer card ID to fetch intercessions for
+ * @param tenantId - The tenant ID for RLS
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns PrayerCardIntercessionsState with intercessions (most recent first), loading, error, and refetch
+ *
+ * @example
+ * ```tsx
+ * function PrayedCount({ prayerCardId }: { prayerCardId: string }) {
+ *   const { activeTenantId } = useTenantContext();
+ *   const { intercessions } = usePrayerCardIntercessions(prayerCardId, activeTenantId);
+ *
+ *   return <Text>{t('prayer.prayed_count', { count: intercessions.length })}</Text>;
+ * }
+ * ```
+ */
+export function usePrayerCardIntercessions(
+  prayerCardId: string | null,
+  tenantId: string | null,
+  enableRealtime: boolean = true
+): PrayerCardIntercessionsState {
+  const [intercessions, setIntercessions] = useState<PrayerCardIntercession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchIntercessions = useCallback(async () => {
+    if (!prayerCardId || !tenantId) {
+      setIntercessions([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('prayer_card_intercessions')
+        .select(
+          `
+            id,
+            prayer_card_id,
+            membership_id,
+            duration_seconds,
+            prayed_at,
+            membership:membership_id (
+              id,
+              user:users!memberships_user_id_fkey (
+                display_name,
+                photo_url
+              )
+            )
+          `
+        )
+        .eq('prayer_card_id', prayerCardId)
+        .eq('tenant_id', tenantId)
+        .order('prayed_at', { ascending: false });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const transformedData: PrayerCardIntercession[] =
+        data?.map((item) => {
+          const membership = item.membership as unknown as {
+            user: { display_name: string | null; photo_url: string | null } | null;
+          } | null;
+
+          return {
+            id: item.id,
+            prayerCardId: item.prayer_card_id,
+            membershipId: item.membership_id,
+            memberName: membership?.user?.display_name ?? '',
+            memberPhotoUrl: membership?.user?.photo_url ?? null,
+            durationSeconds: item.duration_seconds,
+            prayedAt: item.prayed_at,
+          };
+        }) ?? [];
+
+      setIntercessions(transformedData);
+    } catch (err) {
+      setError(err as Error);
+      setIntercessions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [prayerCardId, tenantId]);
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!prayerCardId || !tenantId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`prayer_card_intercessions:${prayerCardId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'prayer_card_intercessions',
+          filter: `prayer_card_id=eq.${prayerCardId}`,
+        },
+        () => {
+          // Refetch when any change occurs (payloads lack member data)
+          void fetchIntercessions();
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for prayer card intercessions');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [prayerCardId, tenantId, enableRealtime, fetchIntercessions]);
+
+  useEffect(() => {
+    void fetchIntercessions();
+  }, [fetchIntercessions]);
+
+  return {
+    intercessions,
+    loading,
+    error,
+    refetch: fetchIntercessions,
+  };
+}
+
+/**
+ * Hook for recording that the current member prayed for a prayer card.
+ *
+ * There is one intercession per member per card; praying again refreshes
+ * prayed_at and adds the new timer duration to the accumulated total.
+ *
+ * @param tenantId - The tenant ID for the intercession
+ * @param membershipId - The current member's membership ID
+ * @returns RecordIntercessionState with recordIntercession function, recording state, and error
+ *
+ * @example
+ * ```tsx
+ * function PrayedButton({ prayerCardId }: { prayerCardId: string }) {
+ *   const { activeTenantId } = useTenantContext();
+ *   const { membershipId } = useCurrentMembership();
+ *   const timer = usePrayerCardStore((state) => state.timer);
+ *   const { recordIntercession, recording } = useRecordIntercession(activeTenantId, membershipId);
+ *
+ *   return (
+ *     <Button
+ *       onPress={() => recordIntercession(prayerCardId, timer.elapsedSeconds)}
+ *       disabled={recording}
+ *     >
+ *       I prayed for this
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useRecordIntercession(
+  tenantId: string | null,
+  membershipId: string | null
+): RecordIntercessionState {
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const recordIntercession = useCallback(
+    async (prayerCardId: string, durationSeconds?: number | null): Promise<boolean> => {
+      if (!tenantId || !membershipId || !prayerCardId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      if (durationSeconds != null && durationSeconds < 0) {
+        setError(new Error('Prayer duration cannot be negative'));
+        return false;
+      }
+
+      setRecording(true);
+      setError(null);
+
+      try {
+        // Accumulate duration across repeated intercessions
+        const { data: existing, error: existingError } = await supabase
+          .from('prayer_card_intercessions')
+          .select('duration_seconds')
+          .eq('prayer_card_id', prayerCardId)
+          .eq('membership_id', membershipId)
+          .maybeSingle();
+
+        if (existingError) {
+          throw existingError;
+        }
+
+        const previousSeconds = existing?.duration_seconds ?? null;
+        const totalSeconds =
+          durationSeconds && durationSeconds > 0
+            ? (previousSeconds ?? 0) + durationSeconds
+            : previousSeconds;
+
+        const { error: upsertError } = await supabase.from('prayer_card_intercessions').upsert(
+          {
+            tenant_id: tenantId,
+            prayer_card_id: prayerCardId,
+            membership_id: membershipId,
+            duration_seconds: totalSeconds,
+            prayed_at: new Date().toISOString(),
+            // Re-queue for the author's next batched notification
+            notified_at: null,
+          },
+          { onConflict: 'prayer_card_id,membership_id' }
+        );
+
+        if (upsertError) {
+          throw upsertError;
+        }
+
+        // Call Edge Function to notify the author (batched server-side)
+        try {
+          const {
+            data: { session },
+          } = await supabase.auth.getSession();
+          const { error: functionError } = await supabase.functions.invoke(
+            'handle-prayer-intercession',
+            {
+              body: {
+                prayer_card_id: prayerCardId,
+              },
+              headers: {
+                Authorization: `Bearer ${session?.access_token}`,
+              },
+            }
+          );
+
+          if (functionError) {
+            // Log error but don't fail the intercession
+            console.error('Failed to trigger prayer intercession notification:', functionError);
+          }
+        } catch (functionErr) {
+          // Log error but don't fail the intercession
+          console.error('Failed to invoke prayer intercession function:', functionErr);
+        }
+
+        return true;
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setRecording(false);
+      }
+    },
+    [tenantId, membershipId]
+  );
+
+  return {
+    recordIntercession,
+    recording,
+    error,
+  };
+}
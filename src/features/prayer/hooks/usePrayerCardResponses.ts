@@ -0,0 +1,337 @@
+/**
+ * Hooks for answered-prayer testimonies (prayer card responses).
+ *
+ * Provides listing with real-time updates, plus add and edit mutations.
+ * Visibility follows the prayer card's recipient scope (enforced by RLS).
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { PrayerCardResponse } from '@/types/prayer';
+
+export interface PrayerCardResponsesState {
+  responses: PrayerCardResponse[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+export interface AddPrayerCardResponseState {
+  addResponse: (prayerCardId: string, content: string) => Promise<string | null>;
+  adding: boolean;
+  error: Error | null;
+}
+
+export interface UpdatePrayerCardResponseState {
+  updateResponse: (responseId: string, content: string) => Promise<boolean>;
+  updating: boolean;
+  error: Error | null;
+}
+
+const MAX_RESPONSE_LENGTH = 1000;
+
+/**
+ * Validate testimony content, returning an error message or null.
+ */
+function validateResponseContent(content: string): string | null {
+  if (!content.trim()) {
+    return 'Testimony cannot be empty';
+  }
+
+  if (content.length > MAX_RESPONSE_LENGTH) {
+    return `Testimony cannot exceed ${MAX_RESPONSE_LENGTH} characters`;
+  }
+
+  return null;
+}
+
+/**
+ * Hook for fetching testimonies for a prayer card.
+ *
+ * @param prayerCardId - The prayer card ID to fetch responses for
+ * @param tenantId - The tenant ID for RLS
+ * @param enableRealtime - Enable real-time subscriptions for live updates (default: true)
+ * @returns PrayerCardResponsesState with responses (oldest first), loading, error, and refetch
+ *
+ * @example
+ * ```tsx
+ * function Testimonies({ prayerCardId }: { prayerCardId: string }) {
+ *   const { activeTenantId } = useTenantContext();
+ *   const { responses } = usePrayerCardResponses(prayerCardId, activeTenantId);
+ *
+ *   return responses.map((response) => <ResponseItem key={response.id} response={response} />);
+ * }
+ * ```
+ */
+export function usePrayerCardResponses(
+  prayerCardId: string | null,
+  tenantId: string | null,
+  enableRealtime: boolean = true
+): PrayerCardResponsesState {
+  const [responses, setResponses] = useState<PrayerCardResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchResponses = useCallback(async () => {
+    if (!prayerCardId || !tenantId) {
+      setResponses([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('prayer_card_responses')
+        .select(
+          `
+            id,
+            prayer_card_id,
+            author_id,
+            content,
+            created_at,
+            updated_at,
+            author:author_id (
+              id,
+              user:users!memberships_user_id_fkey (
+                display_name,
+                photo_url
+              )
+            )
+          `
+        )
+        .eq('prayer_card_id', prayerCardId)
+        .eq('tenant_id', tenantId)
+        .order('created_at', { ascending: true });
+
+      if (fetchError) {
+        throw fetchError;
+      }
+
+      const transformedData: PrayerCardResponse[] =
+        data?.map((item) => {
+          const author = item.author as unknown as {
+            user: { display_name: string | null; photo_url: string | null } | null;
+          } | null;
+
+          return {
+            id: item.id,
+            prayerCardId: item.prayer_card_id,
+            authorId: item.author_id,
+            authorName: author?.user?.display_name ?? '',
+            authorPhotoUrl: author?.user?.photo_url ?? null,
+            content: item.content,
+            createdAt: item.created_at,
+            updatedAt: item.updated_at,
+          };
+        }) ?? [];
+
+      setResponses(transformedData);
+    } catch (err) {
+      setError(err as Error);
+      setResponses([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [prayerCardId, tenantId]);
+
+  // Set up real-time subscription
+  useEffect(() => {
+    if (!prayerCardId || !tenantId || !enableRealtime) {
+      return;
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`prayer_card_responses:${prayerCardId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'prayer_card_responses',
+          filter: `prayer_card_id=eq.${prayerCardId}`,
+        },
+        () => {
+          // Refetch responses when any change occurs (payloads lack author data)
+          void fetchResponses();
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'CHANNEL_ERROR') {
+          console.error('Real-time subscription error for prayer card responses');
+        }
+      });
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  }, [prayerCardId, tenantId, enableRealtime, fetchResponses]);
+
+  useEffect(() => {
+    void fetchResponses();
+  }, [fetchResponses]);
+
+  return {
+    responses,
+    loading,
+    error,
+    refetch: fetchResponses,
+  };
+}
+
+/**
+ * Hook for adding a testimony to a prayer card.
+ *
+ * Any member who can see the prayer card can add a testimony (enforced by RLS).
+ *
+ * @param tenantId - The tenant ID for the response
+ * @param authorMembershipId - The author's membership ID
+ * @returns AddPrayerCardResponseState with addResponse function, adding state, and error
+ *
+ * @example
+ * ```tsx
+ * function TestimonyForm({ prayerCardId }: { prayerCardId: string }) {
+ *   const { activeTenantId } = useTenantContext();
+ *   const { membershipId } = useCurrentMembership();
+ *   const { addResponse, adding } = useAddPrayerCardResponse(activeTenantId, membershipId);
+ *
+ *   return (
+ *     <Button onPress={() => addResponse(prayerCardId, content)} disabled={adding}>
+ *       Share testimony
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useAddPrayerCardResponse(
+  tenantId: string | null,
+  authorMembershipId: string | null
+): AddPrayerCardResponseState {
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const addResponse = useCallback(
+    async (prayerCardId: string, content: string): Promise<string | null> => {
+      if (!tenantId || !authorMembershipId || !prayerCardId) {
+        setError(new Error('Missing required parameters'));
+        return null;
+      }
+
+      const validationError = validateResponseContent(content);
+      if (validationError) {
+        setError(new Error(validationError));
+        return null;
+      }
+
+      setAdding(true);
+      setError(null);
+
+      try {
+        const { data, error: insertError } = await supabase
+          .from('prayer_card_responses')
+          .insert({
+            tenant_id: tenantId,
+            prayer_card_id: prayerCardId,
+            author_id: authorMembershipId,
+            content: content.trim(),
+          })
+          .select('id')
+          .single();
+
+        if (insertError) {
+          throw insertError;
+        }
+
+        if (!data) {
+          throw new Error('Failed to add testimony');
+        }
+
+        return data.id;
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setAdding(false);
+      }
+    },
+    [tenantId, authorMembershipId]
+  );
+
+  return {
+    addResponse,
+    adding,
+    error,
+  };
+}
+
+/**
+ * Hook for editing a testimony.
+ *
+ * Only the testimony's author can edit it (enforced by RLS).
+ *
+ * @param tenantId - The tenant ID for the response
+ * @returns UpdatePrayerCardResponseState with updateResponse function, updating state, and error
+ *
+ * @example
+ * ```tsx
+ * const { updateResponse, updating } = useUpdatePrayerCardResponse(activeTenantId);
+ * await updateResponse(response.id, editedContent);
+ * ```
+ */
+export function useUpdatePrayerCardResponse(
+  tenantId: string | null
+): UpdatePrayerCardResponseState {
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const updateResponse = useCallback(
+    async (responseId: string, content: string): Promise<boolean> => {
+      if (!tenantId || !responseId) {
+        setError(new Error('Missing required parameters'));
+        return false;
+      }
+
+      const validationError = validateResponseContent(content);
+      if (validationError) {
+        setError(new Error(validationError));
+        return false;
+      }
+
+      setUpdating(true);
+      setError(null);
+
+      try {
+        const { error: updateError } = await supabase
+          .from('prayer_card_responses')
+          .update({
+            content: content.trim(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', responseId)
+          .eq('tenant_id', tenantId);
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        return true;
+      } catch (err) {
+        setError(err as Error);
+        throw err;
+      } finally {
+        setUpdating(false);
+      }
+    },
+    [tenantId]
+  );
+
+  return {
+    updateResponse,
+    updating,
+    error,
+  };
+}
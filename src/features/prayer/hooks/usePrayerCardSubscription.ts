@@ -0,0 +1,269 @@
+/**
+ * Real-time prayer card subscription hook.
+ *
+ * Subscribes to Supabase real-time channels for prayer card inserts and
+ * updates within a tenant.
+ *
+ * Note: Real-time payloads only include table data, not the joined author or
+ * recipients. For inserts we fetch the full prayer card. Recipient inserts are
+ * also observed because small group and individual cards only become visible
+ * (via RLS) once their prayer_card_recipients rows exist.
+ */
+
+import { useEffect, useRef, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type {
+  PrayerCard,
+  PrayerCardRecipient,
+  PrayerCardRecipientScope,
+  PrayerCardWithAuthor,
+} from '@/types/database';
+
+/**
+ * Payload types for real-time events.
+ */
+interface PrayerCardInsertPayload {
+  eventType: 'INSERT';
+  new: PrayerCard;
+  old: Record<string, never>;
+}
+
+interface PrayerCardUpdatePayload {
+  eventType: 'UPDATE';
+  new: PrayerCard;
+  old: Partial<PrayerCard>;
+}
+
+type PrayerCardPayload = PrayerCardInsertPayload | PrayerCardUpdatePayload;
+
+interface PrayerCardRecipientInsertPayload {
+  eventType: 'INSERT';
+  new: PrayerCardRecipient;
+  old: Record<string, never>;
+}
+
+/**
+ * Callbacks for prayer card events.
+ */
+export interface PrayerCardSubscriptionCallbacks {
+  /**
+   * Called when a prayer card becomes visible (new card or new recipient row).
+   * The same card may be delivered more than once; consumers should upsert.
+   */
+  onInsert?: (prayerCard: PrayerCardWithAuthor) => void;
+
+  /**
+   * Called when a prayer card row is updated (e.g. marked as answered).
+   * Only table columns are included, not author or recipients.
+   */
+  onUpdate?: (prayerCard: PrayerCard) => void;
+
+  /**
+   * Called when a subscription error occurs.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Hook return type.
+ */
+export interface PrayerCardSubscriptionState {
+  /**
+   * Whether the subscription is currently active.
+   */
+  isSubscribed: boolean;
+
+  /**
+   * Manually unsubscribe from the channel.
+   */
+  unsubscribe: () => void;
+}
+
+/**
+ * Fetch full prayer card with author and recipients by ID.
+ * Used when real-time payloads don't include related data.
+ */
+export async function fetchFullPrayerCard(
+  prayerCardId: string,
+  tenantId: string
+): Promise<PrayerCardWithAuthor | null> {
+  const { data, error } = await supabase
+    .from('prayer_cards')
+    .select(
+      `
+      id,
+      tenant_id,
+      author_id,
+      content,
+      recipient_scope,
+      is_urgent,
+      answered,
+      answered_at,
+      notified_at,
+      created_at,
+      updated_at,
+      author:author_id (
+        id,
+        user:users!memberships_user_id_fkey (
+          id,
+          display_name,
+          photo_url
+        )
+      ),
+      recipients:prayer_card_recipients (
+        id,
+        prayer_card_id,
+        recipient_membership_id,
+        recipient_small_group_id,
+        created_at
+      )
+    `
+    )
+    .eq('id', prayerCardId)
+    .eq('tenant_id', tenantId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const author = data.author as unknown as {
+    id: string;
+    user: { id: string; display_name: string | null; photo_url: string | null } | null;
+  } | null;
+
+  return {
+    id: data.id,
+    tenant_id: data.tenant_id,
+    author_id: data.author_id,
+    content: data.content,
+    recipient_scope: data.recipient_scope as PrayerCardRecipientScope,
+    is_urgent: data.is_urgent,
+    answered: data.answered,
+    answered_at: data.answered_at,
+    notified_at: data.notified_at,
+    created_at: data.created_at,
+    updated_at: data.updated_at,
+    author: {
+      id: author?.id ?? data.author_id,
+      user: {
+        id: author?.user?.id ?? '',
+        display_name: author?.user?.display_name ?? null,
+        photo_url: author?.user?.photo_url ?? null,
+      },
+    },
+    recipients: (data.recipients as PrayerCardRecipient[] | null) ?? [],
+  };
+}
+
+/**
+ * Subscribe to real-time prayer card updates for a tenant.
+ *
+ * @param tenantId - The tenant ID for filtering
+ * @param callbacks - Event callbacks for insert/update
+ * @returns Subscription state and controls
+ *
+ * @example
+ * ```tsx
+ * usePrayerCardSubscription(activeTenantId, {
+ *   onInsert: (card) => upsertPrayerCard(toPrayerCardWithDetails(card)),
+ *   onUpdate: (card) => applyPrayerCardUpdate(card),
+ * });
+ * ```
+ */
+export function usePrayerCardSubscription(
+  tenantId: string | null,
+  callbacks: PrayerCardSubscriptionCallbacks
+): PrayerCardSubscriptionState {
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isSubscribedRef = useRef(false);
+
+  // Store callbacks in refs to avoid re-subscribing on callback changes
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  const unsubscribe = useCallback(() => {
+    if (channelRef.current) {
+      void supabase.removeChannel(channelRef.current);
+      channelRef.current = null;
+      isSubscribedRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!tenantId) {
+      return;
+    }
+
+    const emitFullCard = (prayerCardId: string) => {
+      void fetchFullPrayerCard(prayerCardId, tenantId).then((fullCard) => {
+        if (fullCard) {
+          callbacksRef.current.onInsert?.(fullCard);
+        }
+      });
+    };
+
+    const channel = supabase
+      .channel(`prayer-cards:${tenantId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'prayer_cards',
+          filter: `tenant_id=eq.${tenantId}`,
+        },
+        (payload) => {
+          try {
+            const typedPayload = payload as unknown as PrayerCardPayload;
+
+            switch (typedPayload.eventType) {
+              case 'INSERT':
+                emitFullCard(typedPayload.new.id);
+                break;
+              case 'UPDATE':
+                callbacksRef.current.onUpdate?.(typedPayload.new);
+                break;
+            }
+          } catch (error) {
+            callbacksRef.current.onError?.(
+              error instanceof Error ? error : new Error('Unknown error')
+            );
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'prayer_card_recipients',
+        },
+        (payload) => {
+          // prayer_card_recipients has no tenant_id; RLS limits delivery and
+          // fetchFullPrayerCard re-checks the tenant.
+          const typedPayload = payload as unknown as PrayerCardRecipientInsertPayload;
+          emitFullCard(typedPayload.new.prayer_card_id);
+        }
+      )
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          isSubscribedRef.current = true;
+        } else if (status === 'CHANNEL_ERROR') {
+          callbacksRef.current.onError?.(new Error('Failed to subscribe to prayer cards channel'));
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      unsubscribe();
+    };
+  }, [tenantId, unsubscribe]);
+
+  return {
+    isSubscribed: isSubscribedRef.current,
+    unsubscribe,
+  };
+}
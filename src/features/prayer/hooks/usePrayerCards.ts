@@ -2,11 +2,17 @@
  * Hook for fetching prayer cards with author information.
  *
  * Provides tenant-scoped prayer cards with filtering by recipient scope.
+ * Each card includes its prayer_card_recipients rows so the UI can filter
+ * by specific small group or individual.
  */
 
 import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
-import type { PrayerCardWithAuthor, PrayerCardRecipientScope } from '@/types/database';
+import type {
+  PrayerCardWithAuthor,
+  PrayerCardRecipient,
+  PrayerCardRecipientScope,
+} from '@/types/database';
 
 export interface PrayerCardsState {
   prayerCards: PrayerCardWithAuthor[];
@@ -19,6 +25,10 @@ export interface PrayerCardsState {
 
 export interface PrayerCardsFilter {
   scope: 'my_prayers' | 'received_prayers' | 'all_prayers';
+  /**
+   * Only fetch cards flagged is_urgent.
+   */
+  urgentOnly?: boolean;
 }
 
 const PAGE_SIZE = 20;
@@ -28,7 +38,7 @@ const PAGE_SIZE = 20;
  *
  * @param tenantId - The tenant ID to fetch prayer cards for
  * @param membershipId - The current user's membership ID for filtering
- * @param filter - Filter option: my_prayers, received_prayers, or all_prayers
+ * @param filter - Filter option: my_prayers, received_prayers, or all_prayers (optionally urgent only)
  * @param initialLimit - Initial number of items to fetch (default: PAGE_SIZE)
  * @returns PrayerCardsState with prayer cards list, loading, error, hasMore, loadMore, and refetch
  *
@@ -89,8 +99,10 @@ export function usePrayerCards(
               author_id,
               content,
               recipient_scope,
+              is_urgent,
               answered,
               answered_at,
+              notified_at,
               created_at,
               updated_at,
               author:author_id (
@@ -100,6 +112,13 @@ export function usePrayerCards(
                   display_name,
                   photo_url
                 )
+              ),
+              recipients:prayer_card_recipients (
+                id,
+                prayer_card_id,
+                recipient_membership_id,
+                recipient_small_group_id,
+                created_at
               )
             `
           )
@@ -125,6 +144,10 @@ export function usePrayerCards(
             break;
         }
 
+        if (filter.urgentOnly) {
+          query = query.eq('is_urgent', true);
+        }
+
         const { data, error: fetchError } = await query;
 
         if (fetchError) {
@@ -139,8 +162,10 @@ export function usePrayerCards(
             author_id: item.author_id,
             content: item.content,
             recipient_scope: item.recipient_scope as PrayerCardRecipientScope,
+            is_urgent: item.is_urgent,
             answered: item.answered,
             answered_at: item.answered_at,
+            notified_at: item.notified_at,
             created_at: item.created_at,
             updated_at: item.updated_at,
             author: {
@@ -151,6 +176,7 @@ export function usePrayerCards(
                 photo_url: item.author?.user?.photo_url ?? null,
               },
             },
+            recipients: (item.recipients as PrayerCardRecipient[] | null) ?? [],
           })) ?? [];
 
         if (append) {
@@ -169,7 +195,7 @@ export function usePrayerCards(
         setLoading(false);
       }
     },
-    [tenantId, membershipId, filter.scope, initialLimit, offset]
+    [tenantId, membershipId, filter.scope, filter.urgentOnly, initialLimit, offset]
   );
 
   const loadMore = useCallback(async () => {
@@ -184,7 +210,7 @@ export function usePrayerCards(
 
   useEffect(() => {
     void fetchPrayerCards(false);
-  }, [tenantId, membershipId, filter.scope]);
+  }, [tenantId, membershipId, filter.scope, filter.urgentOnly]);
 
   return {
     prayerCards,
@@ -242,8 +268,10 @@ export function usePrayerCardById(
             author_id,
             content,
             recipient_scope,
+            is_urgent,
             answered,
             answered_at,
+            notified_at,
             created_at,
             updated_at,
             author:author_id (
@@ -253,6 +281,13 @@ export function usePrayerCardById(
                 display_name,
                 photo_url
               )
+            ),
+            recipients:prayer_card_recipients (
+              id,
+              prayer_card_id,
+              recipient_membership_id,
+              recipient_small_group_id,
+              created_at
             )
           `
         )
@@ -270,8 +305,10 @@ export function usePrayerCardById(
           author_id: data.author_id,
           content: data.content,
           recipient_scope: data.recipient_scope as PrayerCardRecipientScope,
+          is_urgent: data.is_urgent,
           answered: data.answered,
           answered_at: data.answered_at,
+          notified_at: data.notified_at,
           created_at: data.created_at,
           updated_at: data.updated_at,
           author: {
@@ -286,6 +323,7 @@ export function usePrayerCardById(
                 null,
             },
           },
+          recipients: (data.recipients as PrayerCardRecipient[] | null) ?? [],
         };
 
         setPrayerCards([transformedData]);
@@ -0,0 +1,123 @@
+/**
+ * Hook for fetching prayer card recipient options.
+ *
+ * Provides the tenant's active members and small groups as picker items for
+ * composing prayer cards and filtering the prayer list.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { RecipientPickerItem } from '@/types/prayer';
+
+export interface RecipientPickerItemsState {
+  items: RecipientPickerItem[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for fetching recipient picker items within a tenant.
+ *
+ * @param tenantId - The tenant ID to fetch members and small groups for
+ * @returns RecipientPickerItemsState with items (members first, then small groups)
+ *
+ * @example
+ * ```tsx
+ * function SmallGroupFilter() {
+ *   const { activeTenantId } = useTenantContext();
+ *   const { items } = useRecipientPickerItems(activeTenantId);
+ *   const smallGroups = items.filter((item) => item.type === 'small_group');
+ *
+ *   return smallGroups.map((group) => <Text key={group.id}>{group.name}</Text>);
+ * }
+ * ```
+ */
+export function useRecipientPickerItems(tenantId: string | null): RecipientPickerItemsState {
+  const [items, setItems] = useState<RecipientPickerItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchItems = useCallback(async () => {
+    if (!tenantId) {
+      setItems([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [membersResult, smallGroupsResult] = await Promise.all([
+        supabase
+          .from('memberships')
+          .select(
+            `
+            id,
+            small_group_id,
+            user:users!memberships_user_id_fkey (
+              display_name,
+              photo_url
+            )
+          `
+          )
+          .eq('tenant_id', tenantId)
+          .eq('status', 'active'),
+        supabase
+          .from('small_groups')
+          .select('id, name')
+          .eq('tenant_id', tenantId)
+          .order('name', { ascending: true }),
+      ]);
+
+      if (membersResult.error) {
+        throw membersResult.error;
+      }
+      if (smallGroupsResult.error) {
+        throw smallGroupsResult.error;
+      }
+
+      const members: RecipientPickerItem[] = (membersResult.data ?? []).map((item) => {
+        const user = item.user as unknown as {
+          display_name: string | null;
+          photo_url: string | null;
+        } | null;
+
+        return {
+          id: item.id,
+          type: 'membership' as const,
+          name: user?.display_name ?? '',
+          photoUrl: user?.photo_url ?? null,
+          smallGroupId: item.small_group_id ?? undefined,
+        };
+      });
+
+      const smallGroups: RecipientPickerItem[] = (smallGroupsResult.data ?? []).map((item) => ({
+        id: item.id,
+        type: 'small_group' as const,
+        name: item.name,
+        photoUrl: null,
+      }));
+
+      setItems([...members, ...smallGroups]);
+    } catch (err) {
+      setError(err as Error);
+      setItems([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    void fetchItems();
+  }, [fetchItems]);
+
+  return {
+    items,
+    loading,
+    error,
+    refetch: fetchItems,
+  };
+}
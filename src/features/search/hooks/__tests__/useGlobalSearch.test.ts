@@ -0,0 +1,199 @@
+/**
+ * Unit tests for useGlobalSearch hook.
+ */
+
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useGlobalSearch, buildSearchPattern } from '../useGlobalSearch';
+import { supabase } from '@/lib/supabase';
+
+// Mock Supabase client
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+const mockSupabase = supabase as unknown as { from: unknown };
+
+/**
+ * Create a mock that resolves to a Supabase query result.
+ */
+const resolvesTo = (value: unknown) => jest.fn<() => Promise<unknown>>().mockResolvedValue(value);
+
+const mockTenantId = 'tenant-123';
+const mockMembership = { id: 'membership-1', role: 'member' as const, small_group_id: 'group-1' };
+
+/**
+ * Create a chainable query mock whose terminal limit() resolves to the rows.
+ */
+function createQueryChain(rows: unknown[]) {
+  const chain: Record<string, unknown> = {};
+  for (const method of ['select', 'eq', 'is', 'ilike', 'order']) {
+    chain[method] = jest.fn().mockReturnValue(chain);
+  }
+  chain.limit = resolvesTo({ data: rows, error: null });
+  return chain as Record<
+    'select' | 'eq' | 'is' | 'ilike' | 'order' | 'limit',
+    ReturnType<typeof jest.fn>
+  >;
+}
+
+function mockSearchTables(rowsByTable: Record<string, unknown[]>) {
+  const chains: Record<string, ReturnType<typeof createQueryChain>> = {};
+  mockSupabase.from = jest.fn((table: string) => {
+    chains[table] = createQueryChain(rowsByTable[table] ?? []);
+    return chains[table];
+  });
+  return chains;
+}
+
+describe('buildSearchPattern', () => {
+  it('should wrap the trimmed query in wildcards', () => {
+    expect(buildSearchPattern('  기도  ')).toBe('%기도%');
+  });
+
+  it('should escape LIKE wildcards in the query', () => {
+    expect(buildSearchPattern('50%_off')).toBe('%50\\%\\_off%');
+  });
+});
+
+describe('useGlobalSearch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should not query for a blank search', async () => {
+    mockSearchTables({});
+
+    const { result } = renderHook(() =>
+      useGlobalSearch(mockTenantId, '   ', mockMembership, { debounceMs: 0 })
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(mockSupabase.from).not.toHaveBeenCalled();
+    expect(result.current.isEmpty).toBe(false);
+  });
+
+  it('should return grouped results for a Korean query', async () => {
+    const chains = mockSearchTables({
+      messages: [
+        {
+          id: 'reply-1',
+          conversation_id: 'conversation-1',
+          parent_id: 'message-1',
+          content: '수요 기도회 장소가 바뀌었어요',
+          created_at: '2025-01-14T10:00:00Z',
+          sender: { user: { display_name: '김철수' } },
+          conversation: { name: '청년부' },
+        },
+      ],
+      memberships: [
+        {
+          id: 'membership-2',
+          role: 'member',
+          user: { id: 'user-2', display_name: '기도손', photo_url: null },
+        },
+      ],
+      attachments: [
+        {
+          id: 'attachment-1',
+          file_name: '기도제목.pdf',
+          file_type: 'application/pdf',
+          message_id: 'message-9',
+          prayer_card_id: null,
+          created_at: '2025-01-13T10:00:00Z',
+          message: { conversation_id: 'conversation-2' },
+        },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useGlobalSearch(mockTenantId, '기도', mockMembership, { debounceMs: 0 })
+    );
+
+    await waitFor(() => {
+      expect(result.current.results.messages).toHaveLength(1);
+    });
+
+    expect(result.current.results.messages[0]).toMatchObject({
+      conversationId: 'conversation-1',
+      targetMessageId: 'message-1',
+      senderName: '김철수',
+    });
+    expect(result.current.results.members[0]?.displayName).toBe('기도손');
+    expect(result.current.results.files[0]).toMatchObject({
+      conversationId: 'conversation-2',
+      messageId: 'message-9',
+    });
+    expect(chains.messages?.ilike).toHaveBeenCalledWith('content', '%기도%');
+    expect(chains.messages?.eq).toHaveBeenCalledWith('tenant_id', mockTenantId);
+  });
+
+  it('should hide pastoral journals the member cannot view', async () => {
+    const journal = {
+      tenant_id: mockTenantId,
+      author_id: 'membership-leader',
+      week_start_date: '2025-01-12',
+      // content is a TEXT column holding serialized JSON
+      content: JSON.stringify({ prayerRequests: ['이번 주 기도 제목'] }),
+      content_text: '이번 주 기도 제목',
+      status: 'submitted',
+      created_at: '2025-01-12T10:00:00Z',
+      updated_at: '2025-01-12T10:00:00Z',
+      small_group: { name: '1셀', zone: { zone_leader_id: 'membership-zone' } },
+    };
+    const chains = mockSearchTables({
+      pastoral_journals: [
+        { ...journal, id: 'journal-own-group', small_group_id: 'group-1' },
+        { ...journal, id: 'journal-other-group', small_group_id: 'group-2' },
+      ],
+    });
+
+    const { result } = renderHook(() =>
+      useGlobalSearch(mockTenantId, '기도', mockMembership, { debounceMs: 0 })
+    );
+
+    await waitFor(() => {
+      expect(result.current.results.pastoralJournals).toHaveLength(1);
+    });
+
+    expect(result.current.results.pastoralJournals[0]).toMatchObject({
+      id: 'journal-own-group',
+      content: '이번 주 기도 제목',
+    });
+    // Matches and shows the written text, not the JSON
+    expect(chains.pastoral_journals?.ilike).toHaveBeenCalledWith('content_text', '%기도%');
+  });
+
+  it('should report an empty search when nothing matches', async () => {
+    mockSearchTables({});
+
+    const { result } = renderHook(() =>
+      useGlobalSearch(mockTenantId, '없는검색어', mockMembership, { debounceMs: 0 })
+    );
+
+    await waitFor(() => {
+      expect(result.current.isEmpty).toBe(true);
+    });
+  });
+
+  it('should surface query errors', async () => {
+    const queryError = new Error('Search failed');
+    mockSupabase.from = jest.fn(() => {
+      const chain = createQueryChain([]);
+      chain.limit = resolvesTo({ data: null, error: queryError });
+      return chain;
+    });
+
+    const { result } = renderHook(() =>
+      useGlobalSearch(mockTenantId, '기도', mockMembership, { debounceMs: 0 })
+    );
+
+    await waitFor(() => {
+      expect(result.current.error).toBe(queryError);
+    });
+  });
+});
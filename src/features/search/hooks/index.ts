@@ -0,0 +1,17 @@
+/**
+ * Search feature hooks.
+ *
+ * Exports hooks for tenant-wide search.
+ */
+
+export { useGlobalSearch, buildSearchPattern } from './useGlobalSearch';
+export type {
+  GlobalSearchResults,
+  GlobalSearchState,
+  UseGlobalSearchOptions,
+  MessageSearchResult,
+  PrayerCardSearchResult,
+  PastoralJournalSearchResult,
+  MemberSearchResult,
+  FileSearchResult,
+} from './useGlobalSearch';
@@ -0,0 +1,497 @@
+/**
+ * Hook for tenant-wide search across messages, prayer cards, pastoral
+ * journals, members, and file names.
+ *
+ * Every group is a plain table query, so tenant RLS decides what comes back.
+ * Matching is substring ILIKE backed by pg_trgm indexes, which works for
+ * Korean text where English stemming would not.
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { canViewJournal } from '@/lib/guards';
+import type { Membership, PastoralJournal, Role } from '@/types/database';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MessageSearchResult {
+  id: string;
+  conversationId: string;
+  conversationName: string | null;
+  /** Top-level message to open in the chat screen (thread parent for replies) */
+  targetMessageId: string;
+  content: string;
+  senderName: string | null;
+  createdAt: string;
+}
+
+export interface PrayerCardSearchResult {
+  id: string;
+  content: string;
+  authorName: string | null;
+  answered: boolean;
+  createdAt: string;
+}
+
+export interface PastoralJournalSearchResult {
+  id: string;
+  content: string;
+  smallGroupName: string | null;
+  weekStartDate: string;
+  status: PastoralJournal['status'];
+}
+
+export interface MemberSearchResult {
+  membershipId: string;
+  userId: string;
+  displayName: string | null;
+  photoUrl: string | null;
+  role: Role;
+}
+
+export interface FileSearchResult {
+  id: string;
+  fileName: string;
+  fileType: string;
+  conversationId: string | null;
+  messageId: string | null;
+  prayerCardId: string | null;
+  createdAt: string;
+}
+
+export interface GlobalSearchResults {
+  messages: MessageSearchResult[];
+  prayerCards: PrayerCardSearchResult[];
+  pastoralJournals: PastoralJournalSearchResult[];
+  members: MemberSearchResult[];
+  files: FileSearchResult[];
+}
+
+export interface UseGlobalSearchOptions {
+  /** Maximum results per group (default: 10) */
+  limit?: number;
+  /** Delay before querying after the last keystroke (default: 300ms) */
+  debounceMs?: number;
+}
+
+export interface GlobalSearchState {
+  results: GlobalSearchResults;
+  loading: boolean;
+  error: Error | null;
+  /** True once a non-empty query has returned with no hits in any group */
+  isEmpty: boolean;
+}
+
+type SearchMembership = Pick<Membership, 'id' | 'role' | 'small_group_id'>;
+
+interface RawMessageRow {
+  id: string;
+  conversation_id: string;
+  parent_id: string | null;
+  content: string | null;
+  created_at: string;
+  sender: { user: { display_name: string | null } | null } | null;
+  conversation: { name: string | null } | null;
+}
+
+interface RawPrayerCardRow {
+  id: string;
+  content: string;
+  answered: boolean;
+  created_at: string;
+  author: { user: { display_name: string | null } | null } | null;
+}
+
+interface RawJournalRow extends PastoralJournal {
+  small_group: {
+    name: string;
+    zone: { zone_leader_id: string | null } | null;
+  } | null;
+}
+
+interface RawMemberRow {
+  id: string;
+  role: Role;
+  user: { id: string; display_name: string | null; photo_url: string | null };
+}
+
+interface RawAttachmentRow {
+  id: string;
+  file_name: string;
+  file_type: string;
+  message_id: string | null;
+  prayer_card_id: string | null;
+  created_at: string;
+  message: { conversation_id: string } | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_LIMIT = 10;
+const DEFAULT_DEBOUNCE_MS = 300;
+
+const EMPTY_RESULTS: GlobalSearchResults = {
+  messages: [],
+  prayerCards: [],
+  pastoralJournals: [],
+  members: [],
+  files: [],
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build an ILIKE pattern that matches the query anywhere, treating
+ * LIKE wildcards in the query as literal characters.
+ */
+export function buildSearchPattern(query: string): string {
+  const escaped = query.trim().replace(/[\\%_]/g, (char) => `\\${char}`);
+  return `%${escaped}%`;
+}
+
+async function searchMessages(
+  tenantId: string,
+  pattern: string,
+  limit: number
+): Promise<MessageSearchResult[]> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(
+      `
+        id,
+        conversation_id,
+        parent_id,
+        content,
+        created_at,
+        sender:memberships!messages_sender_id_fkey (
+          user:users!memberships_user_id_fkey (
+            display_name
+          )
+        ),
+        conversation:conversations (
+          name
+        )
+      `
+    )
+    .eq('tenant_id', tenantId)
+    .eq('content_type', 'text')
+    .is('deleted_at', null)
+    .ilike('content', pattern)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as unknown as RawMessageRow[] | null) ?? []).map((row) => ({
+    id: row.id,
+    conversationId: row.conversation_id,
+    conversationName: row.conversation?.name ?? null,
+    targetMessageId: row.parent_id ?? row.id,
+    content: row.content ?? '',
+    senderName: row.sender?.user?.display_name ?? null,
+    createdAt: row.created_at,
+  }));
+}
+
+async function searchPrayerCards(
+  tenantId: string,
+  pattern: string,
+  limit: number
+): Promise<PrayerCardSearchResult[]> {
+  const { data, error } = await supabase
+    .from('prayer_cards')
+    .select(
+      `
+        id,
+        content,
+        answered,
+        created_at,
+        author:author_id (
+          user:users!memberships_user_id_fkey (
+            display_name
+          )
+        )
+      `
+    )
+    .eq('tenant_id', tenantId)
+    .ilike('content', pattern)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as unknown as RawPrayerCardRow[] | null) ?? []).map((row) => ({
+    id: row.id,
+    content: row.content,
+    authorName: row.author?.user?.display_name ?? null,
+    answered: row.answered,
+    createdAt: row.created_at,
+  }));
+}
+
+async function searchPastoralJournals(
+  tenantId: string,
+  pattern: string,
+  limit: number,
+  membership: SearchMembership | null
+): Promise<PastoralJournalSearchResult[]> {
+  if (!membership) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('pastoral_journals')
+    .select(
+      `
+        *,
+        small_group:small_group_id (
+          name,
+          zone:zone_id (
+            zone_leader_id
+          )
+        )
+      `
+    )
+    .eq('tenant_id', tenantId)
+    // content is JSON; content_text holds only its written text
+    .ilike('content_text', pattern)
+    .order('week_start_date', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as unknown as RawJournalRow[] | null) ?? [])
+    .filter(
+      (row) =>
+        row.author_id === membership.id ||
+        canViewJournal(
+          membership.role,
+          row,
+          row.small_group_id === membership.small_group_id,
+          row.small_group?.zone?.zone_leader_id === membership.id
+        ).allowed
+    )
+    .map((row) => ({
+      id: row.id,
+      content: row.content_text ?? '',
+      smallGroupName: row.small_group?.name ?? null,
+      weekStartDate: row.week_start_date,
+      status: row.status,
+    }));
+}
+
+async function searchMembers(
+  tenantId: string,
+  pattern: string,
+  limit: number
+): Promise<MemberSearchResult[]> {
+  const { data, error } = await supabase
+    .from('memberships')
+    .select(
+      `
+        id,
+        role,
+        user:users!memberships_user_id_fkey!inner (
+          id,
+          display_name,
+          photo_url
+        )
+      `
+    )
+    .eq('tenant_id', tenantId)
+    .eq('status', 'active')
+    .ilike('user.display_name', pattern)
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as unknown as RawMemberRow[] | null) ?? []).map((row) => ({
+    membershipId: row.id,
+    userId: row.user.id,
+    displayName: row.user.display_name,
+    photoUrl: row.user.photo_url,
+    role: row.role,
+  }));
+}
+
+async function searchFiles(
+  tenantId: string,
+  pattern: string,
+  limit: number
+): Promise<FileSearchResult[]> {
+  const { data, error } = await supabase
+    .from('attachments')
+    .select(
+      `
+        id,
+        file_name,
+        file_type,
+        message_id,
+        prayer_card_id,
+        created_at,
+        message:message_id (
+          conversation_id
+        )
+      `
+    )
+    .eq('tenant_id', tenantId)
+    .ilike('file_name', pattern)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data as unknown as RawAttachmentRow[] | null) ?? []).map((row) => ({
+    id: row.id,
+    fileName: row.file_name,
+    fileType: row.file_type,
+    conversationId: row.message?.conversation_id ?? null,
+    messageId: row.message_id,
+    prayerCardId: row.prayer_card_id,
+    createdAt: row.created_at,
+  }));
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Hook for searching everything the current member can see in a tenant.
+ *
+ * Pastoral journals are additionally filtered with `canViewJournal` so
+ * results match what the pastoral screens show.
+ *
+ * @param tenantId - The tenant ID to search in
+ * @param query - The raw search text; blank queries return no results
+ * @param membership - The current membership, used for journal visibility
+ * @param options - Per-group limit and debounce delay
+ * @returns GlobalSearchState with grouped results
+ *
+ * @example
+ * ```tsx
+ * function Search() {
+ *   const { tenantId, membership } = useRequireAuth();
+ *   const [query, setQuery] = useState('');
+ *   const { results, loading } = useGlobalSearch(tenantId, query, membership);
+ *
+ *   return (
+ *     <>
+ *       <TextInput value={query} onChangeText={setQuery} />
+ *       {results.messages.map((hit) => (
+ *         <MessageHit key={hit.id} hit={hit} />
+ *       ))}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useGlobalSearch(
+  tenantId: string | null,
+  query: string,
+  membership: SearchMembership | null,
+  options: UseGlobalSearchOptions = {}
+): GlobalSearchState {
+  const { limit = DEFAULT_LIMIT, debounceMs = DEFAULT_DEBOUNCE_MS } = options;
+
+  const [results, setResults] = useState<GlobalSearchResults>(EMPTY_RESULTS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [searched, setSearched] = useState(false);
+
+  const trimmedQuery = query.trim();
+  const membershipId = membership?.id ?? null;
+  const membershipRole = membership?.role ?? null;
+  const membershipSmallGroupId = membership?.small_group_id ?? null;
+
+  useEffect(() => {
+    if (!tenantId || !trimmedQuery) {
+      setResults(EMPTY_RESULTS);
+      setLoading(false);
+      setError(null);
+      setSearched(false);
+      return;
+    }
+
+    // Ignore responses for queries the user has already typed past
+    let cancelled = false;
+    setLoading(true);
+
+    const timer = setTimeout(() => {
+      const pattern = buildSearchPattern(trimmedQuery);
+      const searchMembership =
+        membershipId && membershipRole
+          ? { id: membershipId, role: membershipRole, small_group_id: membershipSmallGroupId }
+          : null;
+
+      const runSearch = async () => {
+        try {
+          const [messages, prayerCards, pastoralJournals, members, files] = await Promise.all([
+            searchMessages(tenantId, pattern, limit),
+            searchPrayerCards(tenantId, pattern, limit),
+            searchPastoralJournals(tenantId, pattern, limit, searchMembership),
+            searchMembers(tenantId, pattern, limit),
+            searchFiles(tenantId, pattern, limit),
+          ]);
+
+          if (!cancelled) {
+            setResults({ messages, prayerCards, pastoralJournals, members, files });
+            setError(null);
+            setSearched(true);
+          }
+        } catch (err) {
+          if (!cancelled) {
+            setError(err as Error);
+            setResults(EMPTY_RESULTS);
+          }
+        } finally {
+          if (!cancelled) {
+            setLoading(false);
+          }
+        }
+      };
+
+      void runSearch();
+    }, debounceMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [
+    tenantId,
+    trimmedQuery,
+    membershipId,
+    membershipRole,
+    membershipSmallGroupId,
+    limit,
+    debounceMs,
+  ]);
+
+  const isEmpty =
+    searched &&
+    !loading &&
+    results.messages.length === 0 &&
+    results.prayerCards.length === 0 &&
+    results.pastoralJournals.length === 0 &&
+    results.members.length === 0 &&
+    results.files.length === 0;
+
+  return { results, loading, error, isEmpty };
+}
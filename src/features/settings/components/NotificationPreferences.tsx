@@ -3,6 +3,7 @@
  *
  * Allows users to toggle push notifications for different types:
  * - Messages
+ * - Mentions (still delivered in muted conversations and quiet hours)
  * - Prayers
  * - Journals
  * - System
@@ -60,6 +61,7 @@ interface NotificationOption {
 
 const NOTIFICATION_OPTIONS: NotificationOption[] = [
   { key: 'messages', labelKey: 'settings.message_notifications', icon: '💬' },
+  { key: 'mentions', labelKey: 'settings.mention_notifications', icon: '@' },
   { key: 'prayers', labelKey: 'settings.prayer_notifications', icon: '🙏' },
   { key: 'journals', labelKey: 'settings.journal_notifications', icon: '📖' },
   { key: 'system', labelKey: 'settings.system_notifications', icon: '🔔' },
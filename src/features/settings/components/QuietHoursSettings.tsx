@@ -0,0 +1,209 @@
+/**
+ * Quiet Hours Settings Component
+ *
+ * Lets users hold back regular message pushes during a daily window.
+ * Mentions still come through unless mention notifications are turned off.
+ *
+ * Features:
+ * - Enable/disable switch
+ * - Start and end time steppers (30-minute steps, overnight windows allowed)
+ * - Saves the device time zone with the schedule
+ * - testID for E2E testing
+ * - i18n support
+ *
+ * @module features/settings/components/QuietHoursSettings
+ */
+
+import { Pressable } from 'react-native';
+import { XStack, YStack, Text as TamaguiText, Switch, styled } from 'tamagui';
+import { useTranslation } from '@/i18n';
+import type { QuietHours } from '../hooks/useUpdateProfile';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface QuietHoursSettingsProps {
+  /**
+   * Current quiet hours schedule.
+   */
+  value: QuietHours;
+
+  /**
+   * Callback when the schedule changes.
+   */
+  onChange: (quietHours: QuietHours) => void | Promise<void>;
+
+  /**
+   * Test ID for E2E testing.
+   */
+  testID?: string;
+}
+
+type QuietHoursBoundary = 'start' | 'end';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STEP_MINUTES = 30;
+const MINUTES_PER_DAY = 24 * 60;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalize a TIME value ("HH:MM" or "HH:MM:SS") to "HH:MM".
+ */
+function formatTime(time: string): string {
+  return time.slice(0, 5);
+}
+
+/**
+ * Shift an "HH:MM" time by the given minutes, wrapping around midnight.
+ */
+function shiftTime(time: string, deltaMinutes: number): string {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  const total =
+    (((hours * 60 + minutes + deltaMinutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hh = String(Math.floor(total / 60)).padStart(2, '0');
+  const mm = String(total % 60).padStart(2, '0');
+  return `${hh}:${mm}`;
+}
+
+/**
+ * IANA time zone of the device, used to evaluate quiet hours server-side.
+ */
+function getDeviceTimeZone(fallback: string): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// ============================================================================
+// STYLIZED COMPONENTS
+// ============================================================================
+
+const SettingRow = styled(XStack, {
+  name: 'QuietHoursSettingRow',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  paddingVertical: '$3',
+  borderBottomWidth: 1,
+  borderBottomColor: '$borderLight',
+});
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export function QuietHoursSettings({
+  value,
+  onChange,
+  testID = 'quiet-hours-settings',
+}: QuietHoursSettingsProps) {
+  const { t } = useTranslation();
+
+  const emitChange = (next: Partial<QuietHours>) => {
+    void onChange({
+      ...value,
+      start: formatTime(value.start),
+      end: formatTime(value.end),
+      ...next,
+      timezone: getDeviceTimeZone(value.timezone),
+    });
+  };
+
+  const handleStep = (boundary: QuietHoursBoundary, direction: 1 | -1) => {
+    emitChange({ [boundary]: shiftTime(formatTime(value[boundary]), direction * STEP_MINUTES) });
+  };
+
+  const renderTimeRow = (boundary: QuietHoursBoundary, labelKey: string, isLast: boolean) => (
+    <SettingRow
+      testID={`${testID}-${boundary}`}
+      style={isLast ? { borderBottomWidth: 0 } : undefined}
+    >
+      <TamaguiText fontSize="$md" color="$color" flex={1}>
+        {t(labelKey)}
+      </TamaguiText>
+      <XStack alignItems="center" gap="$3">
+        <Pressable
+          testID={`${testID}-${boundary}-decrease`}
+          onPress={() => handleStep(boundary, -1)}
+          hitSlop={8}
+        >
+          <TamaguiText fontSize="$lg" color="$primary">
+            −
+          </TamaguiText>
+        </Pressable>
+        <TamaguiText
+          testID={`${testID}-${boundary}-value`}
+          fontSize="$md"
+          color="$color"
+          minWidth={48}
+          textAlign="center"
+        >
+          {formatTime(value[boundary])}
+        </TamaguiText>
+        <Pressable
+          testID={`${testID}-${boundary}-increase`}
+          onPress={() => handleStep(boundary, 1)}
+          hitSlop={8}
+        >
+          <TamaguiText fontSize="$lg" color="$primary">
+            +
+          </TamaguiText>
+        </Pressable>
+      </XStack>
+    </SettingRow>
+  );
+
+  return (
+    <YStack testID={testID} gap="$2" backgroundColor="$background" padding="$4" borderRadius="$4">
+      <TamaguiText
+        testID={`${testID}-label`}
+        fontSize="$md"
+        fontWeight="600"
+        color="$color"
+        marginBottom="$2"
+      >
+        {t('settings.quiet_hours')}
+      </TamaguiText>
+
+      <TamaguiText fontSize="$sm" color="$color3" marginBottom="$2">
+        {t('settings.quiet_hours_description')}
+      </TamaguiText>
+
+      <SettingRow style={value.enabled ? undefined : { borderBottomWidth: 0 }}>
+        <TamaguiText fontSize="$md" color="$color" flex={1}>
+          {t('settings.quiet_hours_enabled')}
+        </TamaguiText>
+        <Switch
+          testID={`${testID}-switch`}
+          checked={value.enabled}
+          onCheckedChange={() => emitChange({ enabled: !value.enabled })}
+          size="$2"
+          backgroundColor="$borderLight"
+          backgroundColorChecked="$primary"
+        >
+          <Switch.Thumb animation="quick" />
+        </Switch>
+      </SettingRow>
+
+      {value.enabled && (
+        <>
+          {renderTimeRow('start', 'settings.quiet_hours_start', false)}
+          {renderTimeRow('end', 'settings.quiet_hours_end', true)}
+          <TamaguiText fontSize="$xs" color="$color3">
+            {t('settings.quiet_hours_timezone', { timezone: value.timezone })}
+          </TamaguiText>
+        </>
+      )}
+    </YStack>
+  );
+}
+
+QuietHoursSettings.displayName = 'QuietHoursSettings';
@@ -2,7 +2,7 @@
  * Settings components exports.
  *
  * Provides components for the Settings screen including profile management,
- * locale selection, notification preferences, and account deletion.
+ * locale selection, notification preferences, quiet hours, and account deletion.
  */
 
 export { ProfileSection } from './ProfileSection';
@@ -14,5 +14,8 @@ export type { LocaleSelectorProps } from './LocaleSelector';
 export { NotificationPreferences } from './NotificationPreferences';
 export type { NotificationPreferencesProps } from './NotificationPreferences';
 
+export { QuietHoursSettings } from './QuietHoursSettings';
+export type { QuietHoursSettingsProps } from './QuietHoursSettings';
+
 export { AccountDeletionButton } from './AccountDeletionButton';
 export type { AccountDeletionButtonProps } from './AccountDeletionButton';
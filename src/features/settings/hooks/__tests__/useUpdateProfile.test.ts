@@ -133,6 +133,7 @@ describe('useUpdateProfile', () => {
 
     const notificationPreferences = {
       messages: true,
+      mentions: true,
       prayers: false,
       journals: true,
       system: false,
@@ -166,6 +167,7 @@ describe('useUpdateProfile', () => {
         locale: 'en',
         notificationPreferences: {
           messages: true,
+          mentions: false,
           prayers: true,
           journals: false,
           system: true,
@@ -179,6 +181,7 @@ describe('useUpdateProfile', () => {
       locale: 'en',
       notification_preferences: {
         messages: true,
+        mentions: false,
         prayers: true,
         journals: false,
         system: true,
@@ -186,6 +189,37 @@ describe('useUpdateProfile', () => {
     });
   });
 
+  it('should update quiet hours', async () => {
+    const updateMock = jest.fn().mockReturnValue({
+      eq: jest.fn<() => Promise<unknown>>().mockResolvedValue({
+        error: null,
+      }),
+    });
+    mockFrom.mockReturnValue({ update: updateMock });
+
+    const { result } = renderHook(() => useUpdateProfile());
+
+    let success;
+    await act(async () => {
+      success = await result.current.updateProfile({
+        quietHours: {
+          enabled: true,
+          start: '22:00',
+          end: '07:00',
+          timezone: 'Asia/Seoul',
+        },
+      });
+    });
+
+    expect(success).toBe(true);
+    expect(updateMock).toHaveBeenCalledWith({
+      quiet_hours_enabled: true,
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '07:00',
+      quiet_hours_timezone: 'Asia/Seoul',
+    });
+  });
+
   it('should handle update errors gracefully', async () => {
     const mockError = new Error('Database error');
 
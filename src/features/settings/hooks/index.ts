@@ -9,6 +9,7 @@ export type {
   UpdateProfileParams,
   UseUpdateProfileReturn,
   NotificationPreferences,
+  QuietHours,
 } from './useUpdateProfile';
 
 export { useUploadProfilePhoto } from './useUploadProfilePhoto';
@@ -1,7 +1,7 @@
 /**
  * Hook for updating user profile information.
  *
- * Handles updating display name, locale, and notification preferences.
+ * Handles updating display name, locale, notification preferences, and quiet hours.
  * Locale changes are synced with the i18n system for immediate UI refresh.
  *
  * @module features/settings/hooks/useUpdateProfile
@@ -19,11 +19,23 @@ import type { Json } from '@/lib/supabase';
 export interface NotificationPreferences {
   [key: string]: boolean;
   messages: boolean;
+  mentions: boolean;
   prayers: boolean;
   journals: boolean;
   system: boolean;
 }
 
+/**
+ * Quiet hours schedule. Regular message pushes are held back between
+ * start and end (local "HH:MM" times in the given IANA time zone).
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
 /**
  * Parameters for updating user profile.
  */
@@ -31,6 +43,7 @@ export interface UpdateProfileParams {
   displayName?: string;
   locale?: Locale;
   notificationPreferences?: NotificationPreferences;
+  quietHours?: QuietHours;
 }
 
 /**
@@ -63,6 +76,7 @@ export interface UseUpdateProfileReturn {
  *       locale: 'ko',
  *       notificationPreferences: {
  *         messages: true,
+ *         mentions: true,
  *         prayers: false,
  *         journals: true,
  *         system: true,
@@ -102,7 +116,7 @@ export function useUpdateProfile(): UseUpdateProfileReturn {
       }
 
       // Build update payload
-      const updates: Record<string, string | Json> = {};
+      const updates: Record<string, string | boolean | Json> = {};
 
       if (params.displayName !== undefined) {
         updates.display_name = params.displayName;
@@ -116,6 +130,13 @@ export function useUpdateProfile(): UseUpdateProfileReturn {
         updates.notification_preferences = params.notificationPreferences;
       }
 
+      if (params.quietHours !== undefined) {
+        updates.quiet_hours_enabled = params.quietHours.enabled;
+        updates.quiet_hours_start = params.quietHours.start;
+        updates.quiet_hours_end = params.quietHours.end;
+        updates.quiet_hours_timezone = params.quietHours.timezone;
+      }
+
       // Only update if there are changes
       if (Object.keys(updates).length === 0) {
         return true;
@@ -118,6 +118,14 @@ export function useAuth(): AuthState {
         // Clear tenant context
         const { useTenantStore: tenantStore } = await import('@/stores/tenantStore');
         await tenantStore.getState().clearTenantContext();
+
+        // Drop cached chat history so the next user can't read it offline
+        const { clearMessageCache } = await import('@/features/chat/utils/messageCache');
+        await clearMessageCache();
+
+        // Drop unsent messages so they aren't sent or shown as the next user
+        const { useOutboxStore } = await import('@/features/chat/store/outboxStore');
+        useOutboxStore.getState().clear();
       }
     });
 
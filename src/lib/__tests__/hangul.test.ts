@@ -0,0 +1,102 @@
+/**
+ * Unit tests for Hangul search and sorting utilities.
+ *
+ * Tests:
+ * - 초성 extraction and 초성-only query detection
+ * - Search matching (초성, mixed, partial syllable, Latin, whitespace)
+ * - Korean-before-Latin sorting
+ * - Section index keys
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  compareKorean,
+  filterByHangulSearch,
+  getIndexKey,
+  isChoseongQuery,
+  matchesHangulSearch,
+  toChoseong,
+} from '../hangul';
+
+describe('toChoseong', () => {
+  it('should replace syllables with their initial consonants', () => {
+    expect(toChoseong('김민지')).toBe('ㄱㅁㅈ');
+    expect(toChoseong('꽃 A1')).toBe('ㄲ A1');
+  });
+});
+
+describe('isChoseongQuery', () => {
+  it('should detect queries made only of initial consonants', () => {
+    expect(isChoseongQuery('ㄱㅁㅈ')).toBe(true);
+    expect(isChoseongQuery('ㄱ ㅁ')).toBe(true);
+    expect(isChoseongQuery('김ㅁ')).toBe(false);
+    expect(isChoseongQuery('  ')).toBe(false);
+  });
+});
+
+describe('matchesHangulSearch', () => {
+  it('should match initial consonant queries', () => {
+    expect(matchesHangulSearch('김민지', 'ㄱㅁㅈ')).toBe(true);
+    expect(matchesHangulSearch('김민지', 'ㅁㅈ')).toBe(true);
+    expect(matchesHangulSearch('김민지', 'ㄱㅈ')).toBe(false);
+  });
+
+  it('should match mixed syllable and consonant queries', () => {
+    expect(matchesHangulSearch('김민지', '김ㅁㅈ')).toBe(true);
+    expect(matchesHangulSearch('김민지', '박ㅁㅈ')).toBe(false);
+  });
+
+  it('should match a syllable that is still being composed', () => {
+    expect(matchesHangulSearch('김민지', '김미')).toBe(true);
+    expect(matchesHangulSearch('김민지', '기민')).toBe(false);
+  });
+
+  it('should ignore whitespace and letter case', () => {
+    expect(matchesHangulSearch('조영구 목사', 'ㅈㅇㄱㅁㅅ')).toBe(true);
+    expect(matchesHangulSearch('SAEHONG PARK', 'hong p')).toBe(true);
+  });
+
+  it('should match decomposed input', () => {
+    expect(matchesHangulSearch('김민지', '김민지'.normalize('NFD'))).toBe(true);
+  });
+
+  it('should match everything for an empty query', () => {
+    expect(matchesHangulSearch('김민지', '  ')).toBe(true);
+  });
+});
+
+describe('filterByHangulSearch', () => {
+  it('should filter items by their text', () => {
+    const items = [{ name: '김민지' }, { name: '이지훈' }, { name: null }];
+    expect(filterByHangulSearch(items, 'ㅇㅈ', (item) => item.name)).toEqual([{ name: '이지훈' }]);
+  });
+});
+
+describe('compareKorean', () => {
+  it('should sort Korean before Latin before other names', () => {
+    const names = ['Zoe', '123', '박영희', 'adam', '김철수', '가나'];
+    expect([...names].sort(compareKorean)).toEqual([
+      '가나',
+      '김철수',
+      '박영희',
+      'adam',
+      'Zoe',
+      '123',
+    ]);
+  });
+
+  it('should sort shorter prefixes first', () => {
+    expect(['김민지', '김민'].sort(compareKorean)).toEqual(['김민', '김민지']);
+  });
+});
+
+describe('getIndexKey', () => {
+  it('should return the section key for a name', () => {
+    expect(getIndexKey('김민지')).toBe('ㄱ');
+    expect(getIndexKey('꽃님')).toBe('ㄱ');
+    expect(getIndexKey('ㅎㅎ')).toBe('ㅎ');
+    expect(getIndexKey('saehong')).toBe('S');
+    expect(getIndexKey('1셀')).toBe('#');
+    expect(getIndexKey('')).toBe('#');
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Hangul Search & Sorting Utilities
+ *
+ * Korean-aware helpers shared by the contacts list and recipient pickers:
+ * - 초성 (initial consonant) search: "ㄱㅁㅈ" matches "김민지"
+ * - Partial-syllable search: "김미" matches "김민지" while the last syllable
+ *   is still being composed by the keyboard
+ * - Sorting that puts Korean names before Latin names
+ * - ㄱ–ㅎ / A–Z section index keys
+ */
+
+const HANGUL_SYLLABLE_START = 0xac00;
+const HANGUL_SYLLABLE_END = 0xd7a3;
+
+/**
+ * Syllables per initial consonant (21 medials × 28 finals).
+ */
+const SYLLABLES_PER_INITIAL = 588;
+const FINALS_PER_MEDIAL = 28;
+
+/**
+ * Initial consonants in syllable order, as compatibility jamo (what keyboards type).
+ */
+const CHOSEONG = [
+  'ㄱ',
+  'ㄲ',
+  'ㄴ',
+  'ㄷ',
+  'ㄸ',
+  'ㄹ',
+  'ㅁ',
+  'ㅂ',
+  'ㅃ',
+  'ㅅ',
+  'ㅆ',
+  'ㅇ',
+  'ㅈ',
+  'ㅉ',
+  'ㅊ',
+  'ㅋ',
+  'ㅌ',
+  'ㅍ',
+  'ㅎ',
+] as const;
+
+const CHOSEONG_SET = new Set<string>(CHOSEONG);
+
+/**
+ * Double consonants share a section with their base consonant (ㄲ → ㄱ).
+ */
+const INDEX_BASE_CONSONANT: Record<string, string> = {
+  ㄲ: 'ㄱ',
+  ㄸ: 'ㄷ',
+  ㅃ: 'ㅂ',
+  ㅆ: 'ㅅ',
+  ㅉ: 'ㅈ',
+};
+
+/**
+ * Section index keys for Korean names.
+ */
+export const HANGUL_INDEX_KEYS = [
+  'ㄱ',
+  'ㄴ',
+  'ㄷ',
+  'ㄹ',
+  'ㅁ',
+  'ㅂ',
+  'ㅅ',
+  'ㅇ',
+  'ㅈ',
+  'ㅊ',
+  'ㅋ',
+  'ㅌ',
+  'ㅍ',
+  'ㅎ',
+] as const;
+
+/**
+ * Section index keys for Latin names.
+ */
+export const LATIN_INDEX_KEYS = Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i));
+
+/**
+ * Section index key for names starting with anything else.
+ */
+export const OTHER_INDEX_KEY = '#';
+
+/**
+ * All section index keys in display order: ㄱ–ㅎ, A–Z, #.
+ */
+export const INDEX_KEYS: readonly string[] = [
+  ...HANGUL_INDEX_KEYS,
+  ...LATIN_INDEX_KEYS,
+  OTHER_INDEX_KEY,
+];
+
+function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= HANGUL_SYLLABLE_START && code <= HANGUL_SYLLABLE_END;
+}
+
+function isChoseong(char: string): boolean {
+  return CHOSEONG_SET.has(char);
+}
+
+function isLatin(char: string): boolean {
+  return /^[a-z]$/i.test(char);
+}
+
+/**
+ * Get the initial consonant of a Hangul syllable, or null for other characters.
+ */
+export function getChoseong(char: string): string | null {
+  if (!isHangulSyllable(char)) {
+    return null;
+  }
+  const index = char.charCodeAt(0) - HANGUL_SYLLABLE_START;
+  return CHOSEONG[Math.floor(index / SYLLABLES_PER_INITIAL)] ?? null;
+}
+
+/**
+ * Replace every Hangul syllable with its initial consonant ("김민지" → "ㄱㅁㅈ").
+ */
+export function toChoseong(text: string): string {
+  return Array.from(text, (char) => getChoseong(char) ?? char).join('');
+}
+
+/**
+ * Whether a query contains only initial consonants (ignoring whitespace).
+ */
+export function isChoseongQuery(query: string): boolean {
+  const chars = Array.from(query.replace(/\s+/g, ''));
+  return chars.length > 0 && chars.every(isChoseong);
+}
+
+/**
+ * Normalize text for matching: composed Hangul, lower case, no whitespace.
+ */
+export function normalizeSearchText(text: string): string {
+  return text.normalize('NFC').toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Whether a syllable without a final consonant is the start of another
+ * syllable ("미" → "민"), as happens while the keyboard is still composing.
+ */
+function isSyllablePrefix(query: string, target: string): boolean {
+  if (!isHangulSyllable(query) || !isHangulSyllable(target)) {
+    return false;
+  }
+  const queryIndex = query.charCodeAt(0) - HANGUL_SYLLABLE_START;
+  const targetIndex = target.charCodeAt(0) - HANGUL_SYLLABLE_START;
+  return (
+    queryIndex % FINALS_PER_MEDIAL === 0 &&
+    Math.floor(queryIndex / FINALS_PER_MEDIAL) === Math.floor(targetIndex / FINALS_PER_MEDIAL)
+  );
+}
+
+function charMatches(target: string, query: string, isLastQueryChar: boolean): boolean {
+  if (target === query) {
+    return true;
+  }
+  if (isChoseong(query)) {
+    return getChoseong(target) === query;
+  }
+  return isLastQueryChar && isSyllablePrefix(query, target);
+}
+
+/**
+ * Check whether text matches a search query.
+ *
+ * Each query character matches the same character, or any syllable starting
+ * with it when it is an initial consonant. Initial consonants and full
+ * syllables can be mixed ("김ㅁㅈ"), and whitespace is ignored on both sides.
+ *
+ * @example
+ * ```ts
+ * matchesHangulSearch('김민지', 'ㄱㅁㅈ'); // true
+ * matchesHangulSearch('김민지', '민지'); // true
+ * matchesHangulSearch('김민지', '김미'); // true (민 is still being typed)
+ * matchesHangulSearch('SAEHONG PARK', 'hong p'); // true
+ * ```
+ */
+export function matchesHangulSearch(text: string, query: string): boolean {
+  const queryChars = Array.from(normalizeSearchText(query));
+  if (queryChars.length === 0) {
+    return true;
+  }
+
+  const targetChars = Array.from(normalizeSearchText(text));
+  const lastIndex = queryChars.length - 1;
+
+  for (let start = 0; start + queryChars.length <= targetChars.length; start++) {
+    let matched = true;
+    for (let i = 0; i < queryChars.length; i++) {
+      if (!charMatches(targetChars[start + i] ?? '', queryChars[i] ?? '', i === lastIndex)) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Filter items whose text matches a search query. An empty query keeps everything.
+ */
+export function filterByHangulSearch<T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string | null | undefined
+): T[] {
+  if (!query.trim()) {
+    return items;
+  }
+  return items.filter((item) => matchesHangulSearch(getText(item) ?? '', query));
+}
+
+/**
+ * Sort rank of a character: Korean, then Latin, then everything else.
+ */
+function getCharRank(char: string): number {
+  if (isHangulSyllable(char) || isChoseong(char)) {
+    return 0;
+  }
+  if (isLatin(char)) {
+    return 1;
+  }
+  return 2;
+}
+
+/**
+ * Compare two names with Korean before Latin before everything else.
+ *
+ * Hangul syllables are encoded in dictionary order, so comparing code points
+ * within each rank gives 가나다 order without relying on the platform's
+ * Intl collation. Latin letters compare case-insensitively.
+ */
+export function compareKorean(a: string, b: string): number {
+  const aChars = Array.from(a.normalize('NFC').trim().toLowerCase());
+  const bChars = Array.from(b.normalize('NFC').trim().toLowerCase());
+  const length = Math.min(aChars.length, bChars.length);
+
+  for (let i = 0; i < length; i++) {
+    const aChar = aChars[i] ?? '';
+    const bChar = bChars[i] ?? '';
+    if (aChar === bChar) {
+      continue;
+    }
+    const rankDiff = getCharRank(aChar) - getCharRank(bChar);
+    if (rankDiff !== 0) {
+      return rankDiff;
+    }
+    return aChar.charCodeAt(0) - bChar.charCodeAt(0);
+  }
+
+  return aChars.length - bChars.length;
+}
+
+/**
+ * Get the section index key for a name: ㄱ–ㅎ, A–Z, or #.
+ */
+export function getIndexKey(text: string): string {
+  const first = Array.from(text.normalize('NFC').trim())[0] ?? '';
+  const consonant = isChoseong(first) ? first : getChoseong(first);
+  if (consonant) {
+    return INDEX_BASE_CONSONANT[consonant] ?? consonant;
+  }
+  if (isLatin(first)) {
+    return first.toUpperCase();
+  }
+  return OTHER_INDEX_KEY;
+}
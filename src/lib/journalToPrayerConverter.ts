@@ -106,12 +106,13 @@ export function createPrayerCardFromJournal(
   prayerRequest: PrayerRequestContent,
   authorId: string,
   smallGroupName: string
-): Omit<PrayerCard, 'id' | 'created_at' | 'updated_at'> {
+): Omit<PrayerCard, 'id' | 'notified_at' | 'created_at' | 'updated_at'> {
   return {
     tenant_id: journal.tenant_id,
     author_id: authorId,
     content: buildPrayerCardContent(prayerRequest, smallGroupName),
     recipient_scope: 'small_group',
+    is_urgent: isPrayerUrgent(prayerRequest),
     answered: false,
     answered_at: null,
   };
@@ -126,7 +127,7 @@ export function convertJournalToPrayerCards(
   journal: PastoralJournal,
   authorId: string,
   smallGroupName: string
-): Omit<PrayerCard, 'id' | 'created_at' | 'updated_at'>[] {
+): Omit<PrayerCard, 'id' | 'notified_at' | 'created_at' | 'updated_at'>[] {
   const prayerRequests = extractPrayerRequests(journal);
 
   return prayerRequests.map((request) =>
@@ -235,14 +236,12 @@ export function isPrayerUrgent(prayerRequest: PrayerRequestContent): boolean {
 }
 
 /**
- * Helper: Format prayer card content with urgent marker if needed.
+ * Helper: Format prayer card content.
+ * Urgency is stored in prayer_cards.is_urgent, not as a content marker.
  */
 export function formatPrayerCardContent(
   prayerRequest: PrayerRequestContent,
   smallGroupName: string
 ): string {
-  const { title, content, is_urgent } = prayerRequest;
-  const urgentPrefix = is_urgent ? '[긴급] ' : '';
-
-  return `[${smallGroupName}] ${urgentPrefix}${title}\n\n${content}`;
+  return buildPrayerCardContent(prayerRequest, smallGroupName);
 }
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for prayer card store.
+ *
+ * Tests view scope / entity filtering over prayer cards and recipients,
+ * and realtime upsert/update handling.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { usePrayerCardStore, toPrayerCardWithDetails } from '../prayerCardStore';
+import type { PrayerCardWithAuthor } from '@/types/database';
+
+function makeCard(
+  overrides: Partial<PrayerCardWithAuthor> & Pick<PrayerCardWithAuthor, 'id'>
+): PrayerCardWithAuthor {
+  return {
+    tenant_id: 'tenant-1',
+    author_id: 'membership-1',
+    content: 'Prayer request',
+    recipient_scope: 'church_wide',
+    is_urgent: false,
+    answered: false,
+    answered_at: null,
+    notified_at: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    author: {
+      id: 'membership-1',
+      user: { id: 'user-1', display_name: 'Kim', photo_url: null },
+    },
+    recipients: [],
+    ...overrides,
+  };
+}
+
+function recipient(prayerCardId: string, target: { membershipId?: string; smallGroupId?: string }) {
+  return {
+    id: `rec-${prayerCardId}`,
+    prayer_card_id: prayerCardId,
+    recipient_membership_id: target.membershipId ?? null,
+    recipient_small_group_id: target.smallGroupId ?? null,
+    created_at: '2025-01-01T00:00:00Z',
+  };
+}
+
+const cards = [
+  makeCard({ id: 'church', created_at: '2025-01-01T00:00:00Z' }),
+  makeCard({
+    id: 'my-group',
+    recipient_scope: 'small_group',
+    recipients: [recipient('my-group', { smallGroupId: 'sg-1' })],
+    created_at: '2025-01-02T00:00:00Z',
+  }),
+  makeCard({
+    id: 'other-group',
+    recipient_scope: 'small_group',
+    recipients: [recipient('other-group', { smallGroupId: 'sg-2' })],
+    created_at: '2025-01-03T00:00:00Z',
+  }),
+  makeCard({
+    id: 'individual',
+    recipient_scope: 'individual',
+    content: 'Surgery tomorrow',
+    is_urgent: true,
+    recipients: [recipient('individual', { membershipId: 'membership-2' })],
+    created_at: '2025-01-04T00:00:00Z',
+  }),
+  makeCard({
+    id: 'answered',
+    answered: true,
+    answered_at: '2025-01-06T00:00:00Z',
+    created_at: '2025-01-05T00:00:00Z',
+  }),
+];
+
+const filteredIds = () => usePrayerCardStore.getState().filteredPrayerCards.map((c) => c.id);
+
+describe('prayerCardStore', () => {
+  beforeEach(() => {
+    usePrayerCardStore.setState({
+      prayerCards: [],
+      filteredPrayerCards: [],
+      currentSmallGroupId: null,
+      viewScope: 'all',
+      entityFilter: null,
+      selectedPrayerCard: null,
+    });
+    usePrayerCardStore.getState().setPrayerCards(cards.map((c) => toPrayerCardWithDetails(c)));
+  });
+
+  it('should sort unanswered cards first, newest first', () => {
+    expect(filteredIds()).toEqual(['individual', 'other-group', 'my-group', 'church', 'answered']);
+  });
+
+  it('should filter urgent cards by is_urgent', () => {
+    usePrayerCardStore.getState().setViewScope('urgent');
+
+    expect(filteredIds()).toEqual(['individual']);
+  });
+
+  it('should filter my_small_group by the current small group recipients', () => {
+    usePrayerCardStore.getState().setCurrentSmallGroupId('sg-1');
+    usePrayerCardStore.getState().setViewScope('my_small_group');
+
+    expect(filteredIds()).toEqual(['my-group']);
+  });
+
+  it('should show no cards for my_small_group without a small group', () => {
+    usePrayerCardStore.getState().setViewScope('my_small_group');
+
+    expect(filteredIds()).toEqual([]);
+  });
+
+  it('should filter by entity using recipient rows', () => {
+    usePrayerCardStore.getState().setEntityFilter('small_group:sg-2');
+    expect(filteredIds()).toEqual(['other-group']);
+
+    usePrayerCardStore.getState().setEntityFilter('individual:membership-2');
+    expect(filteredIds()).toEqual(['individual']);
+  });
+
+  it('should add new cards on upsert and keep existing responses', () => {
+    const store = usePrayerCardStore.getState();
+    store.markAsAnswered('church', {
+      id: 'resp-1',
+      prayerCardId: 'church',
+      authorId: 'membership-1',
+      authorName: 'Kim',
+      authorPhotoUrl: null,
+      content: 'Answered!',
+      createdAt: '2025-01-07T00:00:00Z',
+      updatedAt: '2025-01-07T00:00:00Z',
+    });
+
+    store.upsertPrayerCard(
+      toPrayerCardWithDetails(makeCard({ id: 'church', content: 'Edited', answered: true }))
+    );
+    store.upsertPrayerCard(
+      toPrayerCardWithDetails(makeCard({ id: 'new', created_at: '2025-02-01T00:00:00Z' }))
+    );
+
+    const state = usePrayerCardStore.getState();
+    const church = state.prayerCards.find((c) => c.id === 'church');
+    expect(church?.content).toBe('Edited');
+    expect(church?.responses).toHaveLength(1);
+    expect(state.filteredPrayerCards[0]?.id).toBe('new');
+  });
+
+  it('should apply realtime row updates to list and selection', () => {
+    const store = usePrayerCardStore.getState();
+    store.selectPrayerCard('church');
+
+    const {
+      author: _author,
+      recipients: _recipients,
+      ...row
+    } = makeCard({
+      id: 'church',
+      answered: true,
+      answered_at: '2025-01-08T00:00:00Z',
+    });
+    store.applyPrayerCardUpdate(row);
+
+    const state = usePrayerCardStore.getState();
+    expect(state.selectedPrayerCard?.status).toBe('answered');
+    expect(state.prayerCards.find((c) => c.id === 'church')?.answered).toBe(true);
+  });
+});
@@ -1,8 +1,9 @@
 /**
  * Prayer Card Store
  *
- * Manages prayer card state with mock data for development.
- * Will be connected to Supabase when backend is ready.
+ * Holds the prayer tab's client state: prayer cards loaded from Supabase
+ * (via usePrayerCardFeed), list filters, detail screen timer/music, and the
+ * compose form draft.
  */
 
 import { create } from 'zustand';
@@ -13,260 +14,9 @@ import type {
   PrayerCardComposeData,
   PrayerTimerState,
   PrayerMusicState,
-  MockAuthor,
-  MockRecipient,
   PrayerCardResponse,
 } from '@/types/prayer';
-import { shouldAutoConvert, convertJournalToPrayerCards } from '@/lib/journalToPrayerConverter';
-import type { PastoralJournal } from '@/types/database';
-
-/**
- * Current user mock ID (will be replaced with actual auth).
- */
-const CURRENT_USER_ID = 'user-current';
-
-/**
- * Mock authors for development.
- */
-const MOCK_AUTHORS: Record<string, MockAuthor> = {
-  'user-1': {
-    id: 'user-1',
-    user: {
-      id: 'user-1',
-      display_name: '조영구 목사',
-      photo_url: null,
-    },
-  },
-  'user-2': {
-    id: 'user-2',
-    user: {
-      id: 'user-2',
-      display_name: 'SAEHONG PARK',
-      photo_url: null,
-    },
-  },
-  'user-3': {
-    id: 'user-3',
-    user: {
-      id: 'user-3',
-      display_name: '김민지',
-      photo_url: null,
-    },
-  },
-  'user-4': {
-    id: 'user-4',
-    user: {
-      id: 'user-4',
-      display_name: '이철수',
-      photo_url: null,
-    },
-  },
-  [CURRENT_USER_ID]: {
-    id: CURRENT_USER_ID,
-    user: {
-      id: CURRENT_USER_ID,
-      display_name: '나',
-      photo_url: null,
-    },
-  },
-};
-
-/**
- * Mock prayer card responses.
- */
-const MOCK_RESPONSES: PrayerCardResponse[] = [
-  {
-    id: 'resp-1',
-    prayerCardId: 'pc-1',
-    authorId: 'user-2',
-    authorName: 'SAEHONG PARK',
-    authorPhotoUrl: null,
-    content: '감사하게도 주님께서 응답해주셨어요! 면접에서 합격했습니다.',
-    createdAt: '2025-01-08T10:30:00Z',
-  },
-  {
-    id: 'resp-2',
-    prayerCardId: 'pc-3',
-    authorId: 'user-1',
-    authorName: '조영구 목사',
-    authorPhotoUrl: null,
-    content: '하나님이 들으시고 응답하셨습니다. 함께 기도해주셔서 감사합니다.',
-    createdAt: '2025-01-07T15:20:00Z',
-  },
-];
-
-/**
- * Mock prayer card recipients.
- */
-const MOCK_RECIPIENTS: MockRecipient[] = [
-  // For individual prayer cards
-  {
-    id: 'rec-1',
-    prayer_card_id: 'pc-1',
-    recipient_membership_id: 'user-2',
-    recipient_small_group_id: null,
-    created_at: '2025-01-05T10:00:00Z',
-  },
-  {
-    id: 'rec-2',
-    prayer_card_id: 'pc-1',
-    recipient_membership_id: 'user-3',
-    recipient_small_group_id: null,
-    created_at: '2025-01-05T10:00:00Z',
-  },
-  {
-    id: 'rec-3',
-    prayer_card_id: 'pc-2',
-    recipient_membership_id: 'user-1',
-    recipient_small_group_id: null,
-    created_at: '2025-01-06T09:00:00Z',
-  },
-  // For small group prayer cards
-  {
-    id: 'rec-4',
-    prayer_card_id: 'pc-3',
-    recipient_membership_id: null,
-    recipient_small_group_id: 'sg-1',
-    created_at: '2025-01-07T08:00:00Z',
-  },
-  {
-    id: 'rec-5',
-    prayer_card_id: 'pc-4',
-    recipient_membership_id: null,
-    recipient_small_group_id: 'sg-2',
-    created_at: '2025-01-08T12:00:00Z',
-  },
-  // For church wide prayer cards
-  // Church wide has no specific recipients in the table (scope indicates all)
-];
-
-/**
- * Mock prayer cards data.
- */
-const MOCK_PRAYER_CARDS: PrayerCardWithDetails[] = [
-  {
-    id: 'pc-1',
-    tenant_id: 'tenant-1',
-    author_id: 'user-2',
-    content:
-      '[긴급] 내일 있는 면접을 위해 기도 부탁드립니다. 평소에 준비한 만큼 잘 나타낼 수 있도록, 그리고 하나님의 때를 잘 분별할 수 있도록 기도해 주세요.',
-    recipient_scope: 'individual',
-    answered: true,
-    answered_at: '2025-01-08T10:30:00Z',
-    created_at: '2025-01-05T10:00:00Z',
-    updated_at: '2025-01-08T10:30:00Z',
-    author: MOCK_AUTHORS['user-2'],
-    recipients: [MOCK_RECIPIENTS[0], MOCK_RECIPIENTS[1]],
-    responses: [MOCK_RESPONSES[0]],
-    responseCount: 1,
-    isUrgent: true,
-    status: 'answered',
-  },
-  {
-    id: 'pc-2',
-    tenant_id: 'tenant-1',
-    author_id: CURRENT_USER_ID,
-    content:
-      '어머니의 건강이 위중합니다. 하나님의 자비와 긍휼를 구합니다. 병원에서도 최선을 다하고 있지만, 궁극적인 치유는 하나님께 있습니다.',
-    recipient_scope: 'individual',
-    answered: false,
-    answered_at: null,
-    created_at: '2025-01-06T09:00:00Z',
-    updated_at: '2025-01-06T09:00:00Z',
-    author: MOCK_AUTHORS[CURRENT_USER_ID],
-    recipients: [MOCK_RECIPIENTS[2]],
-    responses: [],
-    responseCount: 0,
-    isUrgent: true,
-    status: 'pending',
-  },
-  {
-    id: 'pc-3',
-    tenant_id: 'tenant-1',
-    author_id: 'user-3',
-    content:
-      '모로코 목장의 새로운 시작을 위해 기도해 주세요. 이번 달 새로운 식구들이 3분이나 오게 되었습니다. 그들이 우리 공동체에 잘 정착하고, 예수님을 더 깊이 알게 되도록 기도 부탁드립니다.',
-    recipient_scope: 'small_group',
-    answered: true,
-    answered_at: '2025-01-07T15:20:00Z',
-    created_at: '2025-01-07T08:00:00Z',
-    updated_at: '2025-01-07T15:20:00Z',
-    author: MOCK_AUTHORS['user-3'],
-    recipients: [MOCK_RECIPIENTS[3]],
-    responses: [MOCK_RESPONSES[1]],
-    responseCount: 1,
-    isUrgent: false,
-    status: 'answered',
-  },
-  {
-    id: 'pc-4',
-    tenant_id: 'tenant-1',
-    author_id: 'user-4',
-    content:
-      '알래스카 목장의 청년들이 이번 주 수양회를 갑니다. 안전한 다녀오고, 영적으로 큰 은혜를 받고 돌아올 수 있도록 기도해 주세요.',
-    recipient_scope: 'small_group',
-    answered: false,
-    answered_at: null,
-    created_at: '2025-01-08T12:00:00Z',
-    updated_at: '2025-01-08T12:00:00Z',
-    author: MOCK_AUTHORS['user-4'],
-    recipients: [MOCK_RECIPIENTS[4]],
-    responses: [],
-    responseCount: 0,
-    isUrgent: false,
-    status: 'pending',
-  },
-  {
-    id: 'pc-5',
-    tenant_id: 'tenant-1',
-    author_id: 'user-1',
-    content:
-      '교회 건축을 위해 기도해 주세요. 현재 공사가 순조롭게 진행되고 있습니다. 하지만 예산 부분과 허가 문제로 기도가 필요합니다. 하나님의 공급과 지혜를 구합니다.',
-    recipient_scope: 'church_wide',
-    answered: false,
-    answered_at: null,
-    created_at: '2025-01-04T07:00:00Z',
-    updated_at: '2025-01-04T07:00:00Z',
-    author: MOCK_AUTHORS['user-1'],
-    recipients: [],
-    responses: [],
-    responseCount: 0,
-    isUrgent: false,
-    status: 'pending',
-  },
-  {
-    id: 'pc-6',
-    tenant_id: 'tenant-1',
-    author_id: CURRENT_USER_ID,
-    content:
-      '이번 주 주일 설교 말씀을 잘 선포할 수 있도록, 그리고 듣는 모든 분들의 마음에 감동이 있도록 기도해 주세요.',
-    recipient_scope: 'church_wide',
-    answered: false,
-    answered_at: null,
-    created_at: '2025-01-09T06:00:00Z',
-    updated_at: '2025-01-09T06:00:00Z',
-    author: MOCK_AUTHORS[CURRENT_USER_ID],
-    recipients: [],
-    responses: [],
-    responseCount: 0,
-    isUrgent: false,
-    status: 'pending',
-  },
-];
-
-/**
- * Mock recipient picker items.
- */
-const MOCK_RECIPIENT_PICKER_ITEMS = [
-  { id: 'user-1', type: 'membership' as const, name: '조영구 목사', photoUrl: null },
-  { id: 'user-2', type: 'membership' as const, name: 'SAEHONG PARK', photoUrl: null },
-  { id: 'user-3', type: 'membership' as const, name: '김민지', photoUrl: null },
-  { id: 'user-4', type: 'membership' as const, name: '이철수', photoUrl: null },
-  { id: 'sg-1', type: 'small_group' as const, name: '모로코 목장', photoUrl: null },
-  { id: 'sg-2', type: 'small_group' as const, name: '알래스카 목장', photoUrl: null },
-  { id: 'sg-3', type: 'small_group' as const, name: '캐스트로 초원', photoUrl: null },
-  { id: 'sg-4', type: 'small_group' as const, name: '요하네스 초원', photoUrl: null },
-];
+import type { PrayerCard, PrayerCardWithAuthor } from '@/types/database';
 
 /**
  * Prayer Card Store State.
@@ -276,6 +26,9 @@ export interface PrayerCardState {
   prayerCards: PrayerCardWithDetails[];
   filteredPrayerCards: PrayerCardWithDetails[];
 
+  // Current user's small group, used by the 'my_small_group' view scope
+  currentSmallGroupId: string | null;
+
   // Filter state
   viewScope: PrayerCardViewScope;
   entityFilter: PrayerCardEntityFilter; // New: specific entity filter
@@ -288,6 +41,12 @@ export interface PrayerCardState {
   // Compose state
   composeData: PrayerCardComposeData | null;
 
+  // Data actions
+  setPrayerCards: (cards: PrayerCardWithDetails[]) => void;
+  upsertPrayerCard: (card: PrayerCardWithDetails) => void;
+  applyPrayerCardUpdate: (row: PrayerCard) => void;
+  setCurrentSmallGroupId: (smallGroupId: string | null) => void;
+
   // Actions
   setViewScope: (scope: PrayerCardViewScope) => void;
   setEntityFilter: (filter: PrayerCardEntityFilter) => void; // New
@@ -306,46 +65,65 @@ export interface PrayerCardState {
   setMusicVolume: (volume: number) => void;
 
   // Prayer card actions
-  markAsAnswered: (prayerCardId: string, responseContent?: string) => void;
+  markAsAnswered: (prayerCardId: string, response?: PrayerCardResponse) => void;
 
   // Compose actions
   startComposing: () => void;
   updateComposeData: (data: Partial<PrayerCardComposeData>) => void;
-  submitPrayerCard: () => string; // Returns new prayer card ID
   cancelComposing: () => void;
+}
 
-  // Recipients
-  getRecipientPickerItems: () => {
-    id: string;
-    type: 'membership' | 'small_group';
-    name: string;
-    photoUrl: string | null;
-  }[];
-
-  // Journal to prayer card conversion
-  convertPastoralJournalToPrayerCards: (
-    journal: PastoralJournal,
-    smallGroupName: string
-  ) => string[]; // Returns IDs of created prayer cards
+/**
+ * Sort prayer cards: answered cards at bottom, newest first.
+ */
+function sortPrayerCards(cards: PrayerCardWithDetails[]): PrayerCardWithDetails[] {
+  return [...cards].sort((a, b) => {
+    if (a.answered === b.answered) {
+      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+    }
+    return a.answered ? 1 : -1;
+  });
 }
 
 /**
- * Helper to check if content has urgent marker.
+ * Convert a prayer card fetched from Supabase into the list/detail shape.
+ *
+ * @param card - Prayer card with author (and optionally recipients) joined
+ * @param responses - Responses already known for this card
  */
-function isContentUrgent(content: string): boolean {
-  const urgentMarkers = ['[긴급]', '[긴급기도]', '긴급기도'];
-  return urgentMarkers.some((marker) => content.includes(marker));
+export function toPrayerCardWithDetails(
+  card: PrayerCardWithAuthor,
+  responses: PrayerCardResponse[] = []
+): PrayerCardWithDetails {
+  return {
+    id: card.id,
+    tenant_id: card.tenant_id,
+    author_id: card.author_id,
+    content: card.content,
+    recipient_scope: card.recipient_scope,
+    is_urgent: card.is_urgent,
+    answered: card.answered,
+    answered_at: card.answered_at,
+    notified_at: card.notified_at,
+    created_at: card.created_at,
+    updated_at: card.updated_at,
+    author: card.author,
+    recipients: card.recipients ?? [],
+    responses,
+    responseCount: responses.length,
+    isUrgent: card.is_urgent,
+    status: card.answered ? 'answered' : 'pending',
+  };
 }
 
 /**
  * Prayer Card Store.
- *
- * Manages prayer card state with mock data for development.
  */
 export const usePrayerCardStore = create<PrayerCardState>((set, get) => ({
   // Initial state
-  prayerCards: MOCK_PRAYER_CARDS,
-  filteredPrayerCards: MOCK_PRAYER_CARDS,
+  prayerCards: [],
+  filteredPrayerCards: [],
+  currentSmallGroupId: null,
   viewScope: 'all',
   entityFilter: null,
   selectedPrayerCard: null,
@@ -360,6 +138,69 @@ export const usePrayerCardStore = create<PrayerCardState>((set, get) => ({
   },
   composeData: null,
 
+  setPrayerCards: (cards) => {
+    set((state) => ({
+      prayerCards: cards,
+      selectedPrayerCard: state.selectedPrayerCard
+        ? (cards.find((c) => c.id === state.selectedPrayerCard?.id) ?? state.selectedPrayerCard)
+        : null,
+    }));
+    get().filterPrayerCards();
+  },
+
+  upsertPrayerCard: (card) => {
+    set((state) => {
+      const exists = state.prayerCards.some((c) => c.id === card.id);
+      const updated = exists
+        ? state.prayerCards.map((c) =>
+            c.id === card.id
+              ? // Keep responses loaded separately from the card row
+                { ...card, responses: c.responses, responseCount: c.responseCount }
+              : c
+          )
+        : [card, ...state.prayerCards];
+
+      return {
+        prayerCards: updated,
+        selectedPrayerCard:
+          state.selectedPrayerCard?.id === card.id
+            ? (updated.find((c) => c.id === card.id) ?? null)
+            : state.selectedPrayerCard,
+      };
+    });
+    get().filterPrayerCards();
+  },
+
+  applyPrayerCardUpdate: (row) => {
+    set((state) => {
+      const merge = (card: PrayerCardWithDetails): PrayerCardWithDetails =>
+        card.id === row.id
+          ? {
+              ...card,
+              content: row.content,
+              recipient_scope: row.recipient_scope,
+              is_urgent: row.is_urgent,
+              answered: row.answered,
+              answered_at: row.answered_at,
+              updated_at: row.updated_at,
+              isUrgent: row.is_urgent,
+              status: row.answered ? 'answered' : 'pending',
+            }
+          : card;
+
+      return {
+        prayerCards: state.prayerCards.map(merge),
+        selectedPrayerCard: state.selectedPrayerCard ? merge(state.selectedPrayerCard) : null,
+      };
+    });
+    get().filterPrayerCards();
+  },
+
+  setCurrentSmallGroupId: (smallGroupId) => {
+    set({ currentSmallGroupId: smallGroupId });
+    get().filterPrayerCards();
+  },
+
   setViewScope: (scope) => {
     set({ viewScope: scope });
     get().filterPrayerCards();
@@ -371,17 +212,22 @@ export const usePrayerCardStore = create<PrayerCardState>((set, get) => ({
   },
 
   filterPrayerCards: () => {
-    const { prayerCards, viewScope, entityFilter } = get();
+    const { prayerCards, viewScope, entityFilter, currentSmallGroupId } = get();
     let filtered = [...prayerCards];
 
     // First apply view scope filter
     switch (viewScope) {
       case 'my_small_group':
-        // Filter by small_group scope
-        filtered = filtered.filter((card) => card.recipient_scope === 'small_group');
+        // Cards sent to the current user's small group (목장)
+        filtered = filtered.filter(
+          (card) =>
+            card.recipient_scope === 'small_group' &&
+            currentSmallGroupId !== null &&
+            card.recipients.some((r) => r.recipient_small_group_id === currentSmallGroupId)
+        );
         break;
       case 'urgent':
-        // Filter by urgent marker
+        // Fetched server-side when urgent; also covers realtime inserts
         filtered = filtered.filter((card) => card.isUrgent);
         break;
       case 'all':
@@ -414,15 +260,7 @@ export const usePrayerCardStore = create<PrayerCardState>((set, get) => ({
       }
     }
 
-    // Sort: answered cards at bottom, newest first
-    filtered.sort((a, b) => {
-      if (a.answered === b.answered) {
-        return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      }
-      return a.answered ? 1 : -1;
-    });
-
-    set({ filteredPrayerCards: filtered });
+    set({ filteredPrayerCards: sortPrayerCards(filtered) });
   },
 
   selectPrayerCard: (id) => {
@@ -502,55 +340,26 @@ export const usePrayerCardStore = create<PrayerCardState>((set, get) => ({
   },
 
   // Prayer card actions
-  markAsAnswered: (prayerCardId, responseContent) => {
+  markAsAnswered: (prayerCardId, response) => {
     set((state) => {
-      const updated = state.prayerCards.map((card) => {
-        if (card.id === prayerCardId) {
-          const newResponse: PrayerCardResponse | null = responseContent
-            ? {
-                id: `resp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                prayerCardId,
-                authorId: CURRENT_USER_ID,
-                authorName: '나',
-                authorPhotoUrl: null,
-                content: responseContent,
-                createdAt: new Date().toISOString(),
-              }
-            : null;
-
-          return {
-            ...card,
-            answered: true,
-            answered_at: new Date().toISOString(),
-            status: 'answered' as const,
-            responses: newResponse ? [...card.responses, newResponse] : card.responses,
-            responseCount: newResponse ? card.responseCount + 1 : card.responseCount,
-          };
-        }
-        return card;
-      });
-
-      // Update selected card if it's the same one
-      const selectedCard =
-        state.selectedPrayerCard?.id === prayerCardId
-          ? (updated.find((c) => c.id === prayerCardId) ?? null)
-          : state.selectedPrayerCard;
-
-      // Refilter to update sorted order
-      const filtered = [...updated];
-      filtered.sort((a, b) => {
-        if (a.answered === b.answered) {
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-        }
-        return a.answered ? 1 : -1;
-      });
+      const markCard = (card: PrayerCardWithDetails): PrayerCardWithDetails =>
+        card.id === prayerCardId
+          ? {
+              ...card,
+              answered: true,
+              answered_at: card.answered_at ?? new Date().toISOString(),
+              status: 'answered' as const,
+              responses: response ? [...card.responses, response] : card.responses,
+              responseCount: response ? card.responseCount + 1 : card.responseCount,
+            }
+          : card;
 
       return {
-        prayerCards: updated,
-        filteredPrayerCards: filtered,
-        selectedPrayerCard: selectedCard,
+        prayerCards: state.prayerCards.map(markCard),
+        selectedPrayerCard: state.selectedPrayerCard ? markCard(state.selectedPrayerCard) : null,
       };
     });
+    get().filterPrayerCards();
   },
 
   // Compose actions
@@ -572,87 +381,7 @@ export const usePrayerCardStore = create<PrayerCardState>((set, get) => ({
     }));
   },
 
-  submitPrayerCard: () => {
-    const { composeData, prayerCards } = get();
-    if (!composeData) return '';
-
-    const newCard: PrayerCardWithDetails = {
-      id: `pc-${Date.now()}`,
-      tenant_id: 'tenant-1',
-      author_id: CURRENT_USER_ID,
-      content: composeData.isUrgent ? '[긴급] ' + composeData.content : composeData.content,
-      recipient_scope: composeData.recipientScope,
-      answered: false,
-      answered_at: null,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      author: MOCK_AUTHORS[CURRENT_USER_ID],
-      recipients: [],
-      responses: [],
-      responseCount: 0,
-      isUrgent: composeData.isUrgent,
-      status: 'pending',
-    };
-
-    const updated = [newCard, ...prayerCards];
-    set({
-      prayerCards: updated,
-      composeData: null,
-    });
-
-    // Refilter
-    get().filterPrayerCards();
-
-    return newCard.id;
-  },
-
   cancelComposing: () => {
     set({ composeData: null });
   },
-
-  getRecipientPickerItems: () => {
-    return MOCK_RECIPIENT_PICKER_ITEMS;
-  },
-
-  // Journal to prayer card conversion
-  convertPastoralJournalToPrayerCards: (journal, smallGroupName) => {
-    // Check if journal should be converted
-    if (!shouldAutoConvert(journal)) {
-      return [];
-    }
-
-    // Get author ID from journal
-    const authorId = journal.author_id;
-
-    // Convert journal to prayer cards
-    const prayerCardData = convertJournalToPrayerCards(journal, authorId, smallGroupName);
-
-    // Create full prayer card objects with mock data
-    const newCards: PrayerCardWithDetails[] = prayerCardData.map((data) => ({
-      ...data,
-      id: `pc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      author: MOCK_AUTHORS[authorId] || MOCK_AUTHORS[CURRENT_USER_ID],
-      recipients: [],
-      responses: [],
-      responseCount: 0,
-      isUrgent: isContentUrgent(data.content),
-      status: 'pending' as const,
-    }));
-
-    // Add to store
-    set((state) => {
-      const updated = [...newCards, ...state.prayerCards];
-      return {
-        prayerCards: updated,
-      };
-    });
-
-    // Refilter
-    get().filterPrayerCards();
-
-    // Return IDs of created cards
-    return newCards.map((card) => card.id);
-  },
 }));
@@ -62,10 +62,15 @@ export interface Database {
           locale: 'en' | 'ko';
           notification_preferences: {
             messages: boolean;
+            mentions: boolean;
             prayers: boolean;
             journals: boolean;
             system: boolean;
           };
+          quiet_hours_enabled: boolean;
+          quiet_hours_start: string;
+          quiet_hours_end: string;
+          quiet_hours_timezone: string;
           created_at: string;
           updated_at: string;
         };
@@ -76,10 +81,15 @@ export interface Database {
           locale?: 'en' | 'ko';
           notification_preferences?: {
             messages: boolean;
+            mentions: boolean;
             prayers: boolean;
             journals: boolean;
             system: boolean;
           };
+          quiet_hours_enabled?: boolean;
+          quiet_hours_start?: string;
+          quiet_hours_end?: string;
+          quiet_hours_timezone?: string;
           created_at?: string;
           updated_at?: string;
         };
@@ -89,10 +99,15 @@ export interface Database {
           locale?: 'en' | 'ko';
           notification_preferences?: {
             messages: boolean;
+            mentions: boolean;
             prayers: boolean;
             journals: boolean;
             system: boolean;
           };
+          quiet_hours_enabled?: boolean;
+          quiet_hours_start?: string;
+          quiet_hours_end?: string;
+          quiet_hours_timezone?: string;
           updated_at?: string;
         };
         Relationships: [
@@ -218,6 +233,8 @@ export interface Database {
           name: string | null;
           small_group_id: string | null;
           ministry_id: string | null;
+          is_group: boolean;
+          direct_key: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -228,6 +245,8 @@ export interface Database {
           name?: string | null;
           small_group_id?: string | null;
           ministry_id?: string | null;
+          is_group?: boolean;
+          direct_key?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -250,11 +269,14 @@ export interface Database {
           thread_id: string | null;
           quoted_message_id: string | null;
           content: string | null;
-          content_type: 'text' | 'image' | 'video' | 'file' | 'prayer_card' | 'system';
+          content_type: 'text' | 'image' | 'video' | 'file' | 'prayer_card' | 'system' | 'poll';
           is_event_chat: boolean;
+          forwarded_from_message_id: string | null;
+          forwarded_from_sender_id: string | null;
           created_at: string;
           updated_at: string;
           deleted_at: string | null;
+          edited_at: string | null;
         };
         Insert: {
           id?: string;
@@ -265,21 +287,24 @@ export interface Database {
           thread_id?: string | null;
           quoted_message_id?: string | null;
           content?: string | null;
-          content_type?: 'text' | 'image' | 'video' | 'file' | 'prayer_card' | 'system';
+          content_type?: 'text' | 'image' | 'video' | 'file' | 'prayer_card' | 'system' | 'poll';
           is_event_chat?: boolean;
+          forwarded_from_message_id?: string | null;
           created_at?: string;
           updated_at?: string;
           deleted_at?: string | null;
+          edited_at?: string | null;
         };
         Update: {
           parent_id?: string | null;
           thread_id?: string | null;
           quoted_message_id?: string | null;
           content?: string | null;
-          content_type?: 'text' | 'image' | 'video' | 'file' | 'prayer_card' | 'system';
+          content_type?: 'text' | 'image' | 'video' | 'file' | 'prayer_card' | 'system' | 'poll';
           is_event_chat?: boolean;
           updated_at?: string;
           deleted_at?: string | null;
+          edited_at?: string | null;
         };
         Relationships: [
           {
@@ -325,6 +350,11 @@ export interface Database {
           conversation_id: string;
           membership_id: string;
           last_read_at: string | null;
+          muted: boolean;
+          muted_until: string | null;
+          role: 'admin' | 'member';
+          pinned_at: string | null;
+          archived_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -332,10 +362,20 @@ export interface Database {
           conversation_id: string;
           membership_id: string;
           last_read_at?: string | null;
+          muted?: boolean;
+          muted_until?: string | null;
+          role?: 'admin' | 'member';
+          pinned_at?: string | null;
+          archived_at?: string | null;
           created_at?: string;
         };
         Update: {
           last_read_at?: string | null;
+          muted?: boolean;
+          muted_until?: string | null;
+          role?: 'admin' | 'member';
+          pinned_at?: string | null;
+          archived_at?: string | null;
         };
         Relationships: [
           {
@@ -388,6 +428,320 @@ export interface Database {
           },
         ];
       };
+      message_reactions: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          conversation_id: string;
+          message_id: string;
+          membership_id: string;
+          emoji: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          conversation_id: string;
+          message_id: string;
+          membership_id: string;
+          emoji: string;
+          created_at?: string;
+        };
+        Update: {
+          emoji?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'message_reactions_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'message_reactions_membership_id_fkey';
+            columns: ['membership_id'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      mentions: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          message_id: string;
+          membership_id: string | null;
+          mention_type: MentionType;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          message_id: string;
+          membership_id?: string | null;
+          mention_type?: MentionType;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'mentions_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'mentions_membership_id_fkey';
+            columns: ['membership_id'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      pinned_messages: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          conversation_id: string;
+          message_id: string;
+          pinned_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          conversation_id: string;
+          message_id: string;
+          pinned_by?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'pinned_messages_conversation_id_fkey';
+            columns: ['conversation_id'];
+            isOneToOne: false;
+            referencedRelation: 'conversations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'pinned_messages_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: true;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'pinned_messages_pinned_by_fkey';
+            columns: ['pinned_by'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      polls: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          conversation_id: string;
+          message_id: string;
+          allows_multiple: boolean;
+          is_anonymous: boolean;
+          closes_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          conversation_id: string;
+          message_id: string;
+          allows_multiple?: boolean;
+          is_anonymous?: boolean;
+          closes_at?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'polls_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: true;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      poll_options: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          conversation_id: string;
+          poll_id: string;
+          position: number;
+          label: string;
+          vote_count: number;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          conversation_id: string;
+          poll_id: string;
+          position: number;
+          label: string;
+          vote_count?: number;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'poll_options_poll_id_fkey';
+            columns: ['poll_id'];
+            isOneToOne: false;
+            referencedRelation: 'polls';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      poll_votes: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          conversation_id: string;
+          poll_id: string;
+          option_id: string;
+          membership_id: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          conversation_id: string;
+          poll_id: string;
+          option_id: string;
+          membership_id: string;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'poll_votes_poll_id_fkey';
+            columns: ['poll_id'];
+            isOneToOne: false;
+            referencedRelation: 'polls';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'poll_votes_option_id_fkey';
+            columns: ['option_id'];
+            isOneToOne: false;
+            referencedRelation: 'poll_options';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'poll_votes_membership_id_fkey';
+            columns: ['membership_id'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      scheduled_messages: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          conversation_id: string;
+          sender_id: string;
+          content: string;
+          scheduled_for: string;
+          status: 'pending' | 'sending' | 'sent' | 'failed';
+          message_id: string | null;
+          error: string | null;
+          sent_at: string | null;
+          claimed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          conversation_id: string;
+          sender_id: string;
+          content: string;
+          scheduled_for: string;
+          status?: 'pending';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          content?: string;
+          scheduled_for?: string;
+          status?: 'pending';
+          error?: null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'scheduled_messages_conversation_id_fkey';
+            columns: ['conversation_id'];
+            isOneToOne: false;
+            referencedRelation: 'conversations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'scheduled_messages_sender_id_fkey';
+            columns: ['sender_id'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'scheduled_messages_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: true;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      message_edits: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          message_id: string;
+          edited_by: string | null;
+          previous_content: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          message_id: string;
+          edited_by?: string | null;
+          previous_content?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+        Relationships: [
+          {
+            foreignKeyName: 'message_edits_message_id_fkey';
+            columns: ['message_id'];
+            isOneToOne: false;
+            referencedRelation: 'messages';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'message_edits_edited_by_fkey';
+            columns: ['edited_by'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       attachments: {
         Row: {
           id: string;
@@ -480,6 +834,52 @@ export interface Database {
           },
         ];
       };
+      notifications: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body: string;
+          payload: Json | null;
+          read: boolean;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body: string;
+          payload?: Json | null;
+          read?: boolean;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          read?: boolean;
+          read_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_tenant_id_fkey';
+            columns: ['tenant_id'];
+            isOneToOne: false;
+            referencedRelation: 'tenants';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       push_notification_logs: {
         Row: {
           id: string;
@@ -526,8 +926,10 @@ export interface Database {
           author_id: string;
           content: string;
           recipient_scope: 'individual' | 'small_group' | 'church_wide';
+          is_urgent: boolean;
           answered: boolean;
           answered_at: string | null;
+          notified_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -537,6 +939,7 @@ export interface Database {
           author_id: string;
           content: string;
           recipient_scope: 'individual' | 'small_group' | 'church_wide';
+          is_urgent?: boolean;
           answered?: boolean;
           answered_at?: string | null;
           created_at?: string;
@@ -545,6 +948,7 @@ export interface Database {
         Update: {
           content?: string;
           recipient_scope?: 'individual' | 'small_group' | 'church_wide';
+          is_urgent?: boolean;
           answered?: boolean;
           answered_at?: string | null;
           updated_at?: string;
@@ -609,6 +1013,92 @@ export interface Database {
           },
         ];
       };
+      prayer_card_responses: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          prayer_card_id: string;
+          author_id: string;
+          content: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          prayer_card_id: string;
+          author_id: string;
+          content: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          content?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'prayer_card_responses_prayer_card_id_fkey';
+            columns: ['prayer_card_id'];
+            isOneToOne: false;
+            referencedRelation: 'prayer_cards';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'prayer_card_responses_author_id_fkey';
+            columns: ['author_id'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      prayer_card_intercessions: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          prayer_card_id: string;
+          membership_id: string;
+          duration_seconds: number | null;
+          prayed_at: string;
+          notified_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          tenant_id: string;
+          prayer_card_id: string;
+          membership_id: string;
+          duration_seconds?: number | null;
+          prayed_at?: string;
+          notified_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          duration_seconds?: number | null;
+          prayed_at?: string;
+          notified_at?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'prayer_card_intercessions_prayer_card_id_fkey';
+            columns: ['prayer_card_id'];
+            isOneToOne: false;
+            referencedRelation: 'prayer_cards';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'prayer_card_intercessions_membership_id_fkey';
+            columns: ['membership_id'];
+            isOneToOne: false;
+            referencedRelation: 'memberships';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       pastoral_journals: {
         Row: {
           id: string;
@@ -618,6 +1108,8 @@ export interface Database {
           status: 'draft' | 'submitted' | 'zone_reviewed' | 'pastor_confirmed';
           week_start_date: string;
           content: Json | null;
+          /** Written text of content, for search (generated) */
+          content_text: string | null;
           submitted_at: string | null;
           zone_reviewed_at: string | null;
           pastor_confirmed_at: string | null;
@@ -714,12 +1206,83 @@ export interface Database {
           },
         ];
       };
+      link_previews: {
+        Row: {
+          url: string;
+          status: 'ok' | 'failed';
+          final_url: string | null;
+          title: string | null;
+          description: string | null;
+          image_url: string | null;
+          site_name: string | null;
+          fetched_at: string;
+        };
+        Insert: {
+          url: string;
+          status: 'ok' | 'failed';
+          final_url?: string | null;
+          title?: string | null;
+          description?: string | null;
+          image_url?: string | null;
+          site_name?: string | null;
+          fetched_at?: string;
+        };
+        Update: {
+          status?: 'ok' | 'failed';
+          final_url?: string | null;
+          title?: string | null;
+          description?: string | null;
+          image_url?: string | null;
+          site_name?: string | null;
+          fetched_at?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      get_or_create_direct_conversation: {
+        Args: {
+          p_tenant_id: string;
+          p_other_membership_id: string;
+        };
+        Returns: string;
+      };
+      create_group_conversation: {
+        Args: {
+          p_tenant_id: string;
+          p_name: string | null;
+          p_membership_ids: string[];
+        };
+        Returns: string;
+      };
+      forward_message: {
+        Args: {
+          p_message_id: string;
+          p_conversation_ids: string[];
+        };
+        Returns: string[];
+      };
+      mark_conversation_read: {
+        Args: {
+          p_conversation_id: string;
+          p_read_at: string;
+        };
+        Returns: string | null;
+      };
+      create_poll: {
+        Args: {
+          p_conversation_id: string;
+          p_question: string;
+          p_options: string[];
+          p_allows_multiple?: boolean;
+          p_is_anonymous?: boolean;
+          p_closes_at?: string | null;
+        };
+        Returns: string;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -785,11 +1348,117 @@ export type Conversation = Database['public']['Tables']['conversations']['Row'];
 export type ConversationParticipant =
   Database['public']['Tables']['conversation_participants']['Row'];
 
+/**
+ * Role of a participant in a group conversation.
+ */
+export type ConversationParticipantRole = ConversationParticipant['role'];
+
 /**
  * Event chat exclusion type.
  */
 export type EventChatExclusion = Database['public']['Tables']['event_chat_exclusions']['Row'];
 
+/**
+ * Message reaction row type.
+ */
+export type MessageReactionRow = Database['public']['Tables']['message_reactions']['Row'];
+
+/**
+ * Message edit history row type (admin only).
+ */
+export type MessageEdit = Database['public']['Tables']['message_edits']['Row'];
+
+/**
+ * A single member's reaction on a message, with the reactor's display name.
+ */
+export interface MessageReaction {
+  id: string;
+  emoji: string;
+  membership_id: string;
+  display_name: string | null;
+}
+
+/**
+ * Who a mention refers to: one member, every participant, or the leaders.
+ */
+export type MentionType = 'member' | 'all' | 'leaders';
+
+/**
+ * A mention in a message. Group mentions have no membership_id.
+ */
+export interface MessageMention {
+  membership_id: string | null;
+  mention_type: MentionType;
+  /** Display name of the mentioned member, used to find the @Name token */
+  display_name: string | null;
+}
+
+/**
+ * A message pinned to the top of a conversation, with what the banner shows.
+ */
+export interface PinnedMessage {
+  id: string;
+  message_id: string;
+  pinned_by: string | null;
+  created_at: string;
+  content: string | null;
+  content_type: Message['content_type'];
+  sender_name: string | null;
+}
+
+/**
+ * An option on a poll, with its live vote tally.
+ */
+export interface PollOption {
+  id: string;
+  label: string;
+  position: number;
+  vote_count: number;
+}
+
+/**
+ * A vote on a poll option. On anonymous polls members only see their own.
+ */
+export interface PollVote {
+  option_id: string;
+  membership_id: string;
+}
+
+/**
+ * The poll attached to a 'poll' message. The message content is the question.
+ */
+export interface MessagePoll {
+  id: string;
+  allows_multiple: boolean;
+  is_anonymous: boolean;
+  closes_at: string | null;
+  /** Options in display order */
+  options: PollOption[];
+  votes: PollVote[];
+}
+
+/**
+ * A text message a leader scheduled to be posted later.
+ */
+export type ScheduledMessage = Database['public']['Tables']['scheduled_messages']['Row'];
+
+/**
+ * OpenGraph preview of a URL in a message, as returned by fetch-link-preview.
+ */
+export interface LinkPreview {
+  /** URL after redirects */
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+/**
+ * Delivery state of a message still in the outbox.
+ */
+export type MessageSendStatus = 'pending' | 'failed';
+
 /**
  * Message with sender information joined.
  * Used for displaying messages in the chat UI.
@@ -809,6 +1478,16 @@ export type MessageWithSender = Message & {
     };
   } | null;
   reply_count?: number;
+  reactions?: MessageReaction[];
+  mentions?: MessageMention[];
+  poll?: MessagePoll | null;
+  /** Original author of a forwarded message */
+  forwarded_from?: {
+    id: string;
+    display_name: string | null;
+  } | null;
+  /** Set only on optimistic copies from the outbox that haven't reached the server */
+  send_status?: MessageSendStatus;
 };
 
 /**
@@ -828,6 +1507,8 @@ export type ConversationWithLastMessage = Conversation & {
   } | null;
   unread_count: number;
   participant_names?: string[];
+  pinned_at?: string | null;
+  archived_at?: string | null;
 };
 
 /**
@@ -876,6 +1557,22 @@ export type Zone = Database['public']['Tables']['zones']['Row'];
  */
 export type PrayerCardRecipient = Database['public']['Tables']['prayer_card_recipients']['Row'];
 
+/**
+ * Prayer card response (answered-prayer testimony) row type.
+ */
+export type PrayerCardResponseRow = Database['public']['Tables']['prayer_card_responses']['Row'];
+
+/**
+ * In-app inbox notification row type.
+ */
+export type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+/**
+ * Prayer card intercession ("I prayed for this") row type.
+ */
+export type PrayerCardIntercessionRow =
+  Database['public']['Tables']['prayer_card_intercessions']['Row'];
+
 /**
  * Prayer card recipient scope type.
  */
@@ -888,9 +1585,13 @@ export type PrayerCardRecipientScope = PrayerCard['recipient_scope'];
 export interface PrayerCardWithAuthor extends PrayerCard {
   author: {
     id: string;
-    display_name: string | null;
-    photo_url: string | null;
+    user: {
+      id: string;
+      display_name: string | null;
+      photo_url: string | null;
+    };
   };
+  recipients?: PrayerCardRecipient[];
 }
 
 /**
@@ -28,7 +28,7 @@ export type PrayerCardStatus = 'pending' | 'answered';
 
 /**
  * Prayer card response (응답).
- * When someone marks a prayer as "answered", they can optionally add a response.
+ * Testimony of how a prayer was answered, stored in prayer_card_responses.
  */
 export interface PrayerCardResponse {
   id: string;
@@ -38,24 +38,32 @@ export interface PrayerCardResponse {
   authorPhotoUrl: string | null;
   content: string; // Testimony of how the prayer was answered
   createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Prayer card intercession (중보).
+ * Records that a member prayed for a prayer card, stored in prayer_card_intercessions.
+ */
+export interface PrayerCardIntercession {
+  id: string;
+  prayerCardId: string;
+  membershipId: string;
+  memberName: string;
+  memberPhotoUrl: string | null;
+  durationSeconds: number | null; // Accumulated prayer timer duration, if any
+  prayedAt: string; // Most recent time the member prayed
 }
 
 /**
  * Extended prayer card with UI-specific data.
  */
 export interface PrayerCardWithDetails extends PrayerCard {
-  author: {
-    id: string;
-    user: {
-      id: string;
-      display_name: string | null;
-      photo_url: string | null;
-    };
-  };
+  author: PrayerCardAuthor;
   recipients: PrayerCardRecipient[];
   responses: PrayerCardResponse[];
   responseCount: number;
-  isUrgent: boolean; // Computed from content/tags
+  isUrgent: boolean; // Mirrors prayer_cards.is_urgent
   status: PrayerCardStatus; // 'pending' if !answered, else 'answered'
 }
 
@@ -148,9 +156,9 @@ export interface PrayerMusicState {
 }
 
 /**
- * Mock author for development.
+ * Prayer card author (membership with joined user profile).
  */
-export interface MockAuthor {
+export interface PrayerCardAuthor {
   id: string;
   user: {
     id: string;
@@ -158,14 +166,3 @@ export interface MockAuthor {
     photo_url: string | null;
   };
 }
-
-/**
- * Mock recipient for development.
- */
-export interface MockRecipient {
-  id: string;
-  prayer_card_id: string;
-  recipient_membership_id: string | null;
-  recipient_small_group_id: string | null;
-  created_at: string;
-}
@@ -0,0 +1,277 @@
+/**
+ * Tests for fetch-link-preview link unfurling.
+ *
+ * Pages are served by a local HTTP fixture server, so the tests never reach
+ * the internet. The server listens on 127.0.0.1, which the SSRF checks block
+ * by default; tests that fetch from it allow exactly that address.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  fetchLinkPreview,
+  isPublicAddress,
+  normalizePreviewUrl,
+  parseLinkPreview,
+  type FetchLinkPreviewOptions,
+} from './unfurl';
+
+// ============================================================================
+// FIXTURE SERVER
+// ============================================================================
+
+const SERMON_PAGE = `<!doctype html>
+<html>
+  <head>
+    <title>Fallback title</title>
+    <meta property="og:title" content="Sunday Sermon &amp; Worship">
+    <meta property="og:description" content="  Walking   in faith &#8212; Pastor Kim  ">
+    <meta property="og:image" content="/images/sermon.jpg">
+    <meta property="og:site_name" content="Grace Church">
+  </head>
+  <body>Sermon</body>
+</html>`;
+
+const PLAIN_PAGE = `<html><head>
+  <title>Youth retreat sign-up</title>
+  <meta name="description" content='Register by Sunday'>
+</head></html>`;
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void> = {
+  '/sermon': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(SERMON_PAGE);
+  },
+  '/plain': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(PLAIN_PAGE);
+  },
+  '/redirect': (_req, res) => {
+    res.writeHead(302, { Location: '/sermon' });
+    res.end();
+  },
+  '/redirect-internal': (_req, res) => {
+    res.writeHead(302, { Location: 'http://10.0.0.1/admin' });
+    res.end();
+  },
+  '/loop': (_req, res) => {
+    res.writeHead(302, { Location: '/loop' });
+    res.end();
+  },
+  '/bulletin.pdf': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/pdf' });
+    res.end('%PDF-1.4');
+  },
+  '/large': (_req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.write('<html><head>');
+    res.write(`<!-- ${'x'.repeat(64 * 1024)} -->`);
+    res.end('<meta property="og:title" content="Too far down"></head></html>');
+  },
+  '/slow': (_req, res) => {
+    setTimeout(() => {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(SERMON_PAGE);
+    }, 1000);
+  },
+};
+
+let server: Server;
+let baseUrl: string;
+let requestedPaths: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const path = req.url ?? '/';
+    requestedPaths.push(path);
+    const route = routes[path];
+    if (route) {
+      route(req, res);
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requestedPaths = [];
+});
+
+/**
+ * Options that allow the fixture server and nothing else.
+ */
+const fixtureOptions: FetchLinkPreviewOptions = {
+  resolveHost: async () => ['127.0.0.1'],
+  isAllowedAddress: (address) => address === '127.0.0.1',
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('fetchLinkPreview', () => {
+  it('should extract OpenGraph metadata', async () => {
+    const preview = await fetchLinkPreview(`${baseUrl}/sermon#notes`, fixtureOptions);
+
+    expect(preview).toEqual({
+      url: `${baseUrl}/sermon`,
+      title: 'Sunday Sermon & Worship',
+      description: 'Walking in faith — Pastor Kim',
+      image_url: `${baseUrl}/images/sermon.jpg`,
+      site_name: 'Grace Church',
+    });
+  });
+
+  it('should fall back to the title and description tags', async () => {
+    const preview = await fetchLinkPreview(`${baseUrl}/plain`, fixtureOptions);
+
+    expect(preview.title).toBe('Youth retreat sign-up');
+    expect(preview.description).toBe('Register by Sunday');
+    expect(preview.image_url).toBeNull();
+  });
+
+  it('should follow redirects and report the final URL', async () => {
+    const preview = await fetchLinkPreview(`${baseUrl}/redirect`, fixtureOptions);
+
+    expect(preview.url).toBe(`${baseUrl}/sermon`);
+    expect(preview.title).toBe('Sunday Sermon & Worship');
+    expect(requestedPaths).toEqual(['/redirect', '/sermon']);
+  });
+
+  it('should block loopback addresses by default', async () => {
+    await expect(
+      fetchLinkPreview(`${baseUrl}/sermon`, { resolveHost: async () => [] })
+    ).rejects.toMatchObject({ code: 'blocked_address' });
+    expect(requestedPaths).toEqual([]);
+  });
+
+  it('should block hosts that resolve to private addresses', async () => {
+    const resolveHost = jest.fn(async () => ['93.184.216.34', '192.168.0.10']);
+
+    await expect(
+      fetchLinkPreview('https://intranet.example.org/', { resolveHost })
+    ).rejects.toMatchObject({ code: 'blocked_address' });
+    expect(resolveHost).toHaveBeenCalledWith('intranet.example.org');
+  });
+
+  it('should check every redirect target', async () => {
+    await expect(
+      fetchLinkPreview(`${baseUrl}/redirect-internal`, fixtureOptions)
+    ).rejects.toMatchObject({ code: 'blocked_address' });
+    expect(requestedPaths).toEqual(['/redirect-internal']);
+  });
+
+  it('should stop after too many redirects', async () => {
+    await expect(
+      fetchLinkPreview(`${baseUrl}/loop`, { ...fixtureOptions, maxRedirects: 2 })
+    ).rejects.toMatchObject({ code: 'too_many_redirects' });
+    expect(requestedPaths).toHaveLength(3);
+  });
+
+  it('should reject non-HTML responses', async () => {
+    await expect(fetchLinkPreview(`${baseUrl}/bulletin.pdf`, fixtureOptions)).rejects.toMatchObject(
+      { code: 'unsupported_content' }
+    );
+  });
+
+  it('should reject error responses', async () => {
+    await expect(fetchLinkPreview(`${baseUrl}/missing`, fixtureOptions)).rejects.toMatchObject({
+      code: 'fetch_failed',
+    });
+  });
+
+  it('should only read up to the size limit', async () => {
+    const preview = await fetchLinkPreview(`${baseUrl}/large`, {
+      ...fixtureOptions,
+      maxBytes: 4 * 1024,
+    });
+
+    expect(preview.title).toBeNull();
+  });
+
+  it('should time out slow responses', async () => {
+    await expect(
+      fetchLinkPreview(`${baseUrl}/slow`, { ...fixtureOptions, timeoutMs: 100 })
+    ).rejects.toMatchObject({ code: 'fetch_failed' });
+  });
+
+  it('should reject URLs that are not http(s)', async () => {
+    for (const url of ['file:///etc/passwd', 'ftp://example.org/', 'http://user:pw@example.org/']) {
+      await expect(fetchLinkPreview(url, fixtureOptions)).rejects.toMatchObject({
+        code: 'invalid_url',
+      });
+    }
+    expect(requestedPaths).toEqual([]);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+  });
+
+  it('should block internal and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '224.0.0.1',
+      '255.255.255.255',
+      '::1',
+      '::',
+      '[::1]',
+      'fc00::1',
+      'fd12:3456::1',
+      'fe80::1%eth0',
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+      '64:ff9b::a00:1',
+      '2002:7f00:1::1',
+      'not-an-ip',
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('normalizePreviewUrl', () => {
+  it('should drop the fragment and keep the query', () => {
+    expect(normalizePreviewUrl(' https://youtu.be/abc?t=42#chapter ')?.href).toBe(
+      'https://youtu.be/abc?t=42'
+    );
+  });
+
+  it('should treat numeric hosts as IP addresses', () => {
+    expect(normalizePreviewUrl('http://2130706433/')?.hostname).toBe('127.0.0.1');
+  });
+});
+
+describe('parseLinkPreview', () => {
+  it('should prefer OpenGraph over Twitter card tags', () => {
+    const preview = parseLinkPreview(
+      `<meta name="twitter:title" content="Twitter title">
+       <meta content="OG title" property="og:title">
+       <meta name="twitter:image" content="javascript:alert(1)">`,
+      'https://church.example.org/'
+    );
+
+    expect(preview.title).toBe('OG title');
+    expect(preview.image_url).toBeNull();
+  });
+});
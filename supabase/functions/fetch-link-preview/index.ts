@@ -0,0 +1,295 @@
+/**
+ * Fetch Link Preview Edge Function
+ *
+ * Called by the app for the first URL in a chat message. Returns the page's
+ * OpenGraph preview, served from the link_previews cache when fresh and
+ * otherwise fetched through the SSRF-checked unfurler in ./unfurl.ts.
+ *
+ * The address check in unfurl.ts runs before each request, but fetch
+ * resolves the host again, so a DNS answer that changes in between
+ * (rebinding) would get past it. Pages are therefore fetched through an
+ * egress proxy (such as Smokescreen) that resolves the host itself and
+ * refuses to connect to non-public addresses. Without a proxy the function
+ * serves cached previews only, unless direct fetching is enabled for local
+ * development.
+ *
+ * Environment Variables:
+ * - SUPABASE_SERVICE_ROLE_KEY: Service role key for the link_previews cache
+ * - LINK_PREVIEW_PROXY_URL: Egress proxy for page requests
+ * - LINK_PREVIEW_ALLOW_DIRECT_FETCH: 'true' to fetch without the proxy (local development only)
+ *
+ * @see claude_docs/05_chat_architecture.md
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { createLogger } from '../_shared/logger.ts';
+import {
+  fetchLinkPreview,
+  LinkPreviewError,
+  normalizePreviewUrl,
+  type LinkPreview,
+} from './unfurl.ts';
+
+// Create logger instance
+const log = createLogger('fetch-link-preview');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface LinkPreviewRow {
+  url: string;
+  status: 'ok' | 'failed';
+  final_url: string | null;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+  fetched_at: string;
+}
+
+interface LinkPreviewResponse {
+  preview: LinkPreview | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Pages rarely change their preview; failures are retried sooner
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Keeps cache keys bounded
+const MAX_URL_LENGTH = 2048;
+
+const LINK_PREVIEW_PROXY_URL = Deno.env.get('LINK_PREVIEW_PROXY_URL');
+const ALLOW_DIRECT_FETCH = Deno.env.get('LINK_PREVIEW_ALLOW_DIRECT_FETCH') === 'true';
+
+// ============================================================================
+// SUPABASE CLIENT
+// ============================================================================
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, SERVICE_ROLE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+// Page requests go through the egress proxy, which does its own address check
+const proxyClient = LINK_PREVIEW_PROXY_URL
+  ? Deno.createHttpClient({ proxy: { url: LINK_PREVIEW_PROXY_URL } })
+  : null;
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * fetch for page requests: through the egress proxy, directly when allowed
+ * for local development, or null when neither is configured
+ */
+function getPageFetch(): typeof fetch | null {
+  if (proxyClient) {
+    return (input, init) => fetch(input, { ...init, client: proxyClient });
+  }
+  return ALLOW_DIRECT_FETCH ? fetch : null;
+}
+
+/**
+ * Resolve a hostname to its IPv4 and IPv6 addresses
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+
+  return results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []));
+}
+
+/**
+ * Get a cached preview that hasn't expired
+ */
+async function getCachedPreview(url: string): Promise<LinkPreviewRow | null> {
+  const { data, error } = await supabase
+    .from('link_previews')
+    .select('*')
+    .eq('url', url)
+    .maybeSingle();
+
+  if (error) {
+    log.warn('failed_to_read_link_preview_cache', { url, error: error.message });
+    return null;
+  }
+
+  const row = data as LinkPreviewRow | null;
+  if (!row) {
+    return null;
+  }
+
+  const ttl = row.status === 'ok' ? CACHE_TTL_MS : FAILED_CACHE_TTL_MS;
+  return Date.now() - new Date(row.fetched_at).getTime() < ttl ? row : null;
+}
+
+/**
+ * Store a fetched preview, or a failure when preview is null
+ */
+async function cachePreview(url: string, preview: LinkPreview | null): Promise<void> {
+  const { error } = await supabase.from('link_previews').upsert({
+    url,
+    status: preview ? 'ok' : 'failed',
+    final_url: preview?.url ?? null,
+    title: preview?.title ?? null,
+    description: preview?.description ?? null,
+    image_url: preview?.image_url ?? null,
+    site_name: preview?.site_name ?? null,
+    fetched_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    log.warn('failed_to_write_link_preview_cache', { url, error: error.message });
+  }
+}
+
+function rowToPreview(row: LinkPreviewRow): LinkPreview | null {
+  if (row.status !== 'ok') {
+    return null;
+  }
+
+  return {
+    url: row.final_url ?? row.url,
+    title: row.title,
+    description: row.description,
+    image_url: row.image_url,
+    site_name: row.site_name,
+  };
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+async function getLinkPreview(url: string, requestId: string): Promise<LinkPreviewResponse> {
+  const cached = await getCachedPreview(url);
+  if (cached) {
+    return { preview: rowToPreview(cached) };
+  }
+
+  const pageFetch = getPageFetch();
+  if (!pageFetch) {
+    log.error('link_preview_proxy_not_configured', { request_id: requestId, url });
+    return { preview: null };
+  }
+
+  try {
+    const preview = await fetchLinkPreview(url, { resolveHost, fetch: pageFetch });
+    await cachePreview(url, preview);
+    return { preview };
+  } catch (error) {
+    if (!(error instanceof LinkPreviewError)) {
+      throw error;
+    }
+
+    log.info('link_preview_unavailable', {
+      request_id: requestId,
+      url,
+      reason: error.code,
+      error: error.message,
+    });
+
+    await cachePreview(url, null);
+    return { preview: null };
+  }
+}
+
+// ============================================================================
+// SERVE HANDLER
+// ============================================================================
+
+serve(async (req) => {
+  // Generate request tracking
+  const requestId = crypto.randomUUID();
+  const startTime = performance.now();
+
+  // CORS handling
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  // Only signed-in members may use the function to fetch pages
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader?.startsWith('Bearer ')) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { error: authError } = await supabase.auth.getUser(authHeader.substring(7));
+  if (authError) {
+    return new Response('Invalid authorization token', { status: 401 });
+  }
+
+  try {
+    const body = await req.json();
+    const rawUrl = typeof body?.url === 'string' ? body.url : '';
+    const url = rawUrl.length <= MAX_URL_LENGTH ? normalizePreviewUrl(rawUrl) : null;
+
+    if (!url) {
+      return new Response('Invalid field: url', { status: 400 });
+    }
+
+    log.info('function_started', {
+      request_id: requestId,
+      function_name: 'fetch-link-preview',
+      host: url.hostname,
+    });
+
+    const result = await getLinkPreview(url.href, requestId);
+
+    // Log function completion
+    log.info('function_completed', {
+      request_id: requestId,
+      duration_ms: Math.round(performance.now() - startTime),
+      result: result.preview ? 'success' : 'no_preview',
+    });
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorStack = error instanceof Error ? error.stack : undefined;
+
+    log.error('error_occurred', {
+      request_id: requestId,
+      error: errorMessage,
+      stack: errorStack,
+      duration_ms: Math.round(performance.now() - startTime),
+    });
+
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// ============================================================================
+// TYPE EXPORTS FOR TESTING
+// ============================================================================
+
+export type { LinkPreviewRow, LinkPreviewResponse };
@@ -0,0 +1,490 @@
+/**
+ * Link preview fetching and OpenGraph parsing for the fetch-link-preview
+ * Edge Function.
+ *
+ * Kept free of Deno APIs so it can be tested against a local HTTP server:
+ * DNS resolution and fetch are passed in by the caller.
+ *
+ * SSRF protection:
+ * - Only http(s) URLs without credentials are fetched
+ * - Every address the host resolves to must be public (no loopback, private,
+ *   link-local, CGNAT, multicast or reserved ranges, including IPv4-mapped
+ *   IPv6 addresses)
+ * - Redirects are followed manually and each hop is checked again
+ * - Responses are limited in time and size, and only HTML is parsed
+ *
+ * The address check can't see what the fetch implementation resolves when it
+ * connects, so callers pass a fetch that enforces the same rule at connect
+ * time (the Edge Function uses an egress proxy).
+ *
+ * @module fetch-link-preview/unfurl
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image_url: string | null;
+  site_name: string | null;
+}
+
+export type LinkPreviewErrorCode =
+  | 'invalid_url'
+  | 'blocked_address'
+  | 'too_many_redirects'
+  | 'fetch_failed'
+  | 'unsupported_content';
+
+export class LinkPreviewError extends Error {
+  constructor(
+    message: string,
+    readonly code: LinkPreviewErrorCode
+  ) {
+    super(message);
+    this.name = 'LinkPreviewError';
+  }
+}
+
+export interface FetchLinkPreviewOptions {
+  /** Resolves a hostname to its IP addresses */
+  resolveHost: (hostname: string) => Promise<string[]>;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Whether an address may be fetched (defaults to isPublicAddress) */
+  isAllowedAddress?: (address: string) => boolean;
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// OpenGraph tags live in <head>, so the rest of a large page is never read
+const DEFAULT_MAX_BYTES = 512 * 1024;
+
+const DEFAULT_MAX_REDIRECTS = 3;
+
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+const USER_AGENT = 'GagyoLinkPreview/1.0';
+
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// ============================================================================
+// URL VALIDATION
+// ============================================================================
+
+/**
+ * Parse a URL that may be fetched for a preview, dropping its fragment.
+ * Returns null for anything other than an http(s) URL without credentials.
+ */
+export function normalizePreviewUrl(input: string): URL | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+  if (url.username || url.password || !url.hostname) {
+    return null;
+  }
+
+  url.hash = '';
+  return url;
+}
+
+// ============================================================================
+// ADDRESS CHECKS
+// ============================================================================
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+}
+
+function parseIPv6(address: string): number[] | null {
+  let value = address.toLowerCase();
+  const zoneIndex = value.indexOf('%');
+  if (zoneIndex !== -1) {
+    value = value.slice(0, zoneIndex);
+  }
+
+  // Embedded IPv4 tail, e.g. ::ffff:127.0.0.1
+  const tail: number[] = [];
+  if (value.includes('.')) {
+    const lastColon = value.lastIndexOf(':');
+    const ipv4 = lastColon === -1 ? null : parseIPv4(value.slice(lastColon + 1));
+    if (!ipv4) {
+      return null;
+    }
+    tail.push((ipv4[0]! << 8) | ipv4[1]!, (ipv4[2]! << 8) | ipv4[3]!);
+    value = value.slice(0, lastColon + 1);
+    if (!value.endsWith('::')) {
+      value = value.slice(0, -1);
+    }
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const parseGroups = (part: string): number[] | null => {
+    if (part === '') {
+      return [];
+    }
+    const groups = part.split(':');
+    if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) {
+      return null;
+    }
+    return groups.map((group) => parseInt(group, 16));
+  };
+
+  const head = parseGroups(halves[0]!);
+  const rest = halves.length === 2 ? parseGroups(halves[1]!) : [];
+  if (!head || !rest) {
+    return null;
+  }
+
+  const groupCount = head.length + rest.length + tail.length;
+  if (halves.length === 1) {
+    return groupCount === 8 ? [...head, ...tail] : null;
+  }
+  if (groupCount > 7) {
+    return null;
+  }
+  return [...head, ...new Array<number>(8 - groupCount).fill(0), ...rest, ...tail];
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  if (a === undefined || b === undefined || c === undefined) {
+    return false;
+  }
+
+  return !(
+    a === 0 || // "this" network
+    a === 10 || // private
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, including cloud metadata
+    (a === 172 && b >= 16 && b <= 31) || // private
+    (a === 192 && b === 0 && (c === 0 || c === 2)) || // IETF protocol assignments, TEST-NET-1
+    (a === 192 && b === 88 && c === 99) || // 6to4 relay anycast
+    (a === 192 && b === 168) || // private
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    (a === 198 && b === 51 && c === 100) || // TEST-NET-2
+    (a === 203 && b === 0 && c === 113) || // TEST-NET-3
+    a >= 224 // multicast, reserved and broadcast
+  );
+}
+
+function isPublicIPv6(groups: number[]): boolean {
+  const [g0, g1, g2, g3, g4, g5, g6, g7] = groups as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const embeddedIPv4 = [g6 >> 8, g6 & 0xff, g7 >> 8, g7 & 0xff];
+
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96)
+  if (g0 === 0 && g1 === 0 && g2 === 0 && g3 === 0 && g4 === 0 && (g5 === 0xffff || g5 === 0)) {
+    return g5 === 0xffff || g6 !== 0 ? isPublicIPv4(embeddedIPv4) : false;
+  }
+  if (g0 === 0x64 && g1 === 0xff9b && g2 === 0 && g3 === 0 && g4 === 0 && g5 === 0) {
+    return isPublicIPv4(embeddedIPv4);
+  }
+
+  return !(
+    (g0 & 0xfe00) === 0xfc00 || // unique local
+    (g0 & 0xffc0) === 0xfe80 || // link-local
+    (g0 & 0xffc0) === 0xfec0 || // site-local (deprecated)
+    (g0 & 0xff00) === 0xff00 || // multicast
+    (g0 === 0x2001 && g1 === 0x0db8) || // documentation
+    (g0 === 0x2001 && g1 < 0x200) || // Teredo and other IETF assignments
+    g0 === 0x2002 || // 6to4, which can wrap any IPv4 address
+    g0 === 0x100 // discard-only
+  );
+}
+
+/**
+ * Whether an IP address is publicly routable. Anything that doesn't parse as
+ * an IP address is treated as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const value = address.replace(/^\[|\]$/g, '');
+
+  const ipv4 = parseIPv4(value);
+  if (ipv4) {
+    return isPublicIPv4(ipv4);
+  }
+
+  const ipv6 = parseIPv6(value);
+  return ipv6 ? isPublicIPv6(ipv6) : false;
+}
+
+/**
+ * Whether a URL hostname is an IP literal rather than a name to resolve.
+ */
+export function isIpAddress(hostname: string): boolean {
+  const value = hostname.replace(/^\[|\]$/g, '');
+  return parseIPv4(value) !== null || parseIPv6(value) !== null;
+}
+
+// ============================================================================
+// HTML PARSING
+// ============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const codePoint =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function cleanText(value: string | undefined, maxLength: number): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const text = decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return null;
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+))/g;
+
+  for (const match of tag.matchAll(pattern)) {
+    const name = match[1]!.toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+  }
+  return attributes;
+}
+
+function resolveImageUrl(value: string | undefined, baseUrl: string): string | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const url = new URL(decodeEntities(value.trim()), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract a preview from a page's OpenGraph and Twitter card tags, falling
+ * back to <title> and the description meta tag.
+ */
+export function parseLinkPreview(html: string, url: string): LinkPreview {
+  const meta: Record<string, string> = {};
+
+  for (const match of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(match[0]);
+    const key = (attributes.property ?? attributes.name)?.toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) {
+      meta[key] = attributes.content;
+    }
+  }
+
+  const titleTag = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+
+  return {
+    url,
+    title: cleanText(meta['og:title'] ?? meta['twitter:title'] ?? titleTag, MAX_TITLE_LENGTH),
+    description: cleanText(
+      meta['og:description'] ?? meta['twitter:description'] ?? meta.description,
+      MAX_DESCRIPTION_LENGTH
+    ),
+    image_url: resolveImageUrl(meta['og:image'] ?? meta['twitter:image'], url),
+    site_name: cleanText(meta['og:site_name'], MAX_TITLE_LENGTH),
+  };
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Read at most maxBytes of a response body as text, cancelling the rest.
+ */
+async function readLimitedText(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      const chunk = value.subarray(0, maxBytes - received);
+      chunks.push(chunk);
+      received += chunk.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Check that every address a URL's host resolves to may be fetched.
+ */
+async function assertAllowedHost(
+  url: URL,
+  resolveHost: (hostname: string) => Promise<string[]>,
+  isAllowedAddress: (address: string) => boolean
+): Promise<void> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIpAddress(hostname) ? [hostname] : await resolveHost(hostname);
+
+  if (addresses.length === 0 || !addresses.every(isAllowedAddress)) {
+    throw new LinkPreviewError(`Blocked address for ${url.hostname}`, 'blocked_address');
+  }
+}
+
+/**
+ * Fetch a page and extract its link preview.
+ *
+ * @throws LinkPreviewError when the URL is invalid or blocked, or the page
+ *   can't be fetched as HTML
+ */
+export async function fetchLinkPreview(
+  input: string,
+  options: FetchLinkPreviewOptions
+): Promise<LinkPreview> {
+  const {
+    resolveHost,
+    fetch: fetchImpl = fetch,
+    isAllowedAddress = isPublicAddress,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+  } = options;
+
+  let url = normalizePreviewUrl(input);
+  if (!url) {
+    throw new LinkPreviewError('Invalid URL', 'invalid_url');
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await assertAllowedHost(url, resolveHost, isAllowedAddress);
+
+      let response: Response;
+      try {
+        response = await fetchImpl(url.href, {
+          redirect: 'manual',
+          signal: controller.signal,
+          headers: {
+            'User-Agent': USER_AGENT,
+            Accept: 'text/html,application/xhtml+xml',
+          },
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new LinkPreviewError(`Request failed: ${message}`, 'fetch_failed');
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel().catch(() => undefined);
+        if (redirects >= maxRedirects) {
+          throw new LinkPreviewError('Too many redirects', 'too_many_redirects');
+        }
+
+        const next = normalizePreviewUrl(new URL(location, url).href);
+        if (!next) {
+          throw new LinkPreviewError('Invalid redirect URL', 'invalid_url');
+        }
+        url = next;
+        continue;
+      }
+
+      if (!response.ok) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new LinkPreviewError(`Unexpected status ${response.status}`, 'fetch_failed');
+      }
+
+      const contentType = response.headers.get('content-type')?.toLowerCase() ?? '';
+      if (!HTML_CONTENT_TYPES.some((type) => contentType.startsWith(type))) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new LinkPreviewError(
+          `Unsupported content type: ${contentType}`,
+          'unsupported_content'
+        );
+      }
+
+      let html: string;
+      try {
+        html = await readLimitedText(response, maxBytes);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new LinkPreviewError(`Request failed: ${message}`, 'fetch_failed');
+      }
+
+      return parseLinkPreview(html, url.href);
+    }
+  } finally {
+    clearTimeout(timeout);
+  }
+}
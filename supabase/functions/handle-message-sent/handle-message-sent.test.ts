@@ -4,7 +4,7 @@
  * Tests the Edge Function triggered by new message insertions.
  * Responsible for:
  * - Identifying recipients (excluding sender)
- * - Detecting mentions and prioritizing accordingly
+ * - Resolving mentions (members, @all, @leaders) and prioritizing accordingly
  * - Calling send-push-notification for each recipient
  * - Handling event chat exclusions
  *
@@ -43,6 +43,7 @@ interface Conversation {
 interface ConversationParticipant {
   conversation_id: string;
   user_id: string;
+  role?: string;
   joined_at: string;
   left_at: string | null;
 }
@@ -55,7 +56,9 @@ interface EventChatExclusion {
 
 interface Mention {
   message_id: string;
-  mentioned_user_id: string;
+  /** Set for 'member' mentions; null for @all / @leaders */
+  mentioned_user_id: string | null;
+  mention_type: 'member' | 'all' | 'leaders';
   created_at: string;
 }
 
@@ -134,6 +137,7 @@ class MockDatabase {
       {
         conversation_id: TEST_DATA.conversation1Id,
         user_id: TEST_DATA.user2Id, // Normal recipient
+        role: 'small_group_leader',
         joined_at: new Date().toISOString(),
         left_at: null,
       },
@@ -185,6 +189,7 @@ class MockDatabase {
       {
         message_id: TEST_DATA.message2Id,
         mentioned_user_id: TEST_DATA.user3Id,
+        mention_type: 'member',
         created_at: new Date().toISOString(),
       },
     ]);
@@ -255,9 +260,20 @@ async function handleMessageSent(event: MessageSentEvent): Promise<void> {
     return; // No recipients
   }
 
-  // 4. Check for mentions
+  // 4. Check for mentions, expanding @all / @leaders to participants
   const mentions = await mockDb.getMentions(event.id);
-  const mentionedUserIds = new Set(mentions.map((m) => m.mentioned_user_id));
+  const mentionedUserIds = new Set<string>();
+  for (const mention of mentions) {
+    if (mention.mention_type === 'member') {
+      if (mention.mentioned_user_id) mentionedUserIds.add(mention.mentioned_user_id);
+      continue;
+    }
+    for (const p of activeRecipients) {
+      if (mention.mention_type === 'all' || (p.role ?? 'member') !== 'member') {
+        mentionedUserIds.add(p.user_id);
+      }
+    }
+  }
 
   // 5. Handle event chat exclusions
   let recipientIds = activeRecipients.map((p) => p.user_id);
@@ -493,11 +509,13 @@ describe('handle-message-sent Edge Function', () => {
         {
           message_id: 'msg-multi-mention',
           mentioned_user_id: TEST_DATA.user2Id,
+          mention_type: 'member',
           created_at: new Date().toISOString(),
         },
         {
           message_id: 'msg-multi-mention',
           mentioned_user_id: TEST_DATA.user3Id,
+          mention_type: 'member',
           created_at: new Date().toISOString(),
         },
       ]);
@@ -519,6 +537,69 @@ describe('handle-message-sent Edge Function', () => {
       const mentionNotifications = notifications.filter((n) => n.notificationType === 'mention');
       assertEquals(mentionNotifications.length, 2);
     });
+
+    it('should expand @all to every active participant except the sender', async () => {
+      mockDb['mentions'].set('msg-mention-all', [
+        {
+          message_id: 'msg-mention-all',
+          mentioned_user_id: null,
+          mention_type: 'all',
+          created_at: new Date().toISOString(),
+        },
+      ]);
+
+      const event: MessageSentEvent = {
+        id: 'msg-mention-all',
+        conversation_id: TEST_DATA.conversation1Id,
+        tenant_id: TEST_DATA.tenant1Id,
+        sender_id: TEST_DATA.user1Id,
+        content: '@all Meeting moved to 7pm',
+        created_at: new Date().toISOString(),
+      };
+
+      await handleMessageSent(event);
+
+      const notifications = mockDb.getSentNotifications();
+      const mentioned = notifications
+        .filter((n) => n.notificationType === 'mention')
+        .map((n) => n.recipientId)
+        .sort();
+
+      assertEquals(mentioned, [TEST_DATA.user2Id, TEST_DATA.user3Id].sort());
+      assertEquals(notifications.filter((n) => n.notificationType === 'new_message').length, 0);
+    });
+
+    it('should expand @leaders to participants with a leader role only', async () => {
+      mockDb['mentions'].set('msg-mention-leaders', [
+        {
+          message_id: 'msg-mention-leaders',
+          mentioned_user_id: null,
+          mention_type: 'leaders',
+          created_at: new Date().toISOString(),
+        },
+      ]);
+
+      const event: MessageSentEvent = {
+        id: 'msg-mention-leaders',
+        conversation_id: TEST_DATA.conversation1Id,
+        tenant_id: TEST_DATA.tenant1Id,
+        sender_id: TEST_DATA.user1Id,
+        content: '@leaders Please confirm',
+        created_at: new Date().toISOString(),
+      };
+
+      await handleMessageSent(event);
+
+      const notifications = mockDb.getSentNotifications();
+
+      // user2 is a small group leader; user3 is a member
+      const leaderNotification = notifications.find((n) => n.recipientId === TEST_DATA.user2Id);
+      const memberNotification = notifications.find((n) => n.recipientId === TEST_DATA.user3Id);
+      assertExists(leaderNotification);
+      assertExists(memberNotification);
+      assertEquals(leaderNotification.notificationType, 'mention');
+      assertEquals(memberNotification.notificationType, 'new_message');
+    });
   });
 
   // ============================================================================
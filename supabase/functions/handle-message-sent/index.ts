@@ -3,7 +3,8 @@
  *
  * Triggered when a new message is created. Sends push notifications
  * to conversation participants, with special handling for mentions
- * and event chat exclusions.
+ * and event chat exclusions. Regular messages skip participants who muted
+ * the conversation or are inside their quiet hours; mentions still go out.
  *
  * Environment Variables:
  * - SEND_PUSH_NOTIFICATION_URL: URL of the send-push-notification function
@@ -31,7 +32,7 @@ interface MessageRow {
   parent_id: string | null;
   thread_id: string | null;
   content: string | null;
-  content_type: 'text' | 'image' | 'prayer_card' | 'system';
+  content_type: 'text' | 'image' | 'prayer_card' | 'system' | 'poll';
   is_event_chat: boolean;
   created_at: string;
 }
@@ -50,6 +51,8 @@ interface ConversationParticipantRow {
   conversation_id: string;
   membership_id: string;
   last_read_at: string | null;
+  muted: boolean;
+  muted_until: string | null;
 }
 
 interface MembershipRow {
@@ -62,9 +65,15 @@ interface MembershipRow {
     id: string;
     display_name: string | null;
     locale: 'en' | 'ko';
+    quiet_hours_enabled: boolean;
+    quiet_hours_start: string;
+    quiet_hours_end: string;
+    quiet_hours_timezone: string;
   };
 }
 
+type ParticipantWithMembership = ConversationParticipantRow & { membership: MembershipRow };
+
 interface EventChatExclusionRow {
   id: string;
   message_id: string;
@@ -74,13 +83,9 @@ interface EventChatExclusionRow {
 interface MentionRow {
   id: string;
   message_id: string;
-  membership_id: string;
-  membership: {
-    user: {
-      display_name: string | null;
-      locale: 'en' | 'ko';
-    };
-  };
+  /** Set for 'member' mentions; null for @all / @leaders */
+  membership_id: string | null;
+  mention_type: 'member' | 'all' | 'leaders';
 }
 
 interface SendPushRequest {
@@ -111,8 +116,6 @@ const SEND_PUSH_FUNCTION_URL =
   `${Deno.env.get('SUPABASE_URL')}/functions/v1/send-push-notification`;
 const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
-const MENTION_REGEX = /@(\w+(?:\s+\w+)*)/g;
-
 // ============================================================================
 // SUPABASE CLIENT
 // ============================================================================
@@ -138,6 +141,7 @@ const i18n = {
     mention: 'Mentioned by {senderName}',
     attachment: '[Attachment]',
     prayer_card: '[Prayer Card]',
+    poll: '[Poll] {question}',
     system: '[System]',
   },
   ko: {
@@ -145,6 +149,7 @@ const i18n = {
     mention: '{senderName}님이 멘션함',
     attachment: '[첨부파일]',
     prayer_card: '[기도 카드]',
+    poll: '[투표] {question}',
     system: '[시스템]',
   },
 };
@@ -217,7 +222,7 @@ async function getConversation(conversationId: string): Promise<ConversationRow
  */
 async function getConversationParticipants(
   conversationId: string
-): Promise<(ConversationParticipantRow & { membership: MembershipRow })[]> {
+): Promise<ParticipantWithMembership[]> {
   const { data, error } = await supabase
     .from('conversation_participants')
     .select(
@@ -232,7 +237,11 @@ async function getConversationParticipants(
         user:users!memberships_user_id_fkey (
           id,
           display_name,
-          locale
+          locale,
+          quiet_hours_enabled,
+          quiet_hours_start,
+          quiet_hours_end,
+          quiet_hours_timezone
         )
       )
     `
@@ -247,7 +256,7 @@ async function getConversationParticipants(
     return [];
   }
 
-  return (data || []) as unknown as (ConversationParticipantRow & { membership: MembershipRow })[];
+  return (data || []) as unknown as ParticipantWithMembership[];
 }
 
 /**
@@ -256,17 +265,7 @@ async function getConversationParticipants(
 async function getMessageMentions(messageId: string): Promise<MentionRow[]> {
   const { data, error } = await supabase
     .from('mentions')
-    .select(
-      `
-      *,
-      membership:membership_id (
-        user:users!memberships_user_id_fkey (
-          display_name,
-          locale
-        )
-      )
-    `
-    )
+    .select('id, message_id, membership_id, mention_type')
     .eq('message_id', messageId);
 
   if (error) {
@@ -298,19 +297,29 @@ async function getEventChatExclusions(conversationId: string): Promise<EventChat
 }
 
 /**
- * Detect mentions in message content
+ * Resolve mention rows to the membership IDs they notify.
+ * @all covers every participant and @leaders every participant above 'member'.
  */
-function detectMentions(content: string | null): string[] {
-  if (!content) return [];
-
-  const mentions: string[] = [];
-  const matches = content.matchAll(MENTION_REGEX);
+function getMentionedMembershipIds(
+  mentions: MentionRow[],
+  participants: ParticipantWithMembership[]
+): Set<string> {
+  const ids = new Set<string>();
+
+  for (const mention of mentions) {
+    if (mention.mention_type === 'member') {
+      if (mention.membership_id) ids.add(mention.membership_id);
+      continue;
+    }
 
-  for (const match of matches) {
-    mentions.push(match[1]);
+    for (const participant of participants) {
+      if (mention.mention_type === 'all' || participant.membership.role !== 'member') {
+        ids.add(participant.membership_id);
+      }
+    }
   }
 
-  return mentions;
+  return ids;
 }
 
 /**
@@ -332,6 +341,12 @@ function buildNotificationContent(
     case 'prayer_card':
       body = getMessage('prayer_card', locale);
       break;
+    case 'poll':
+      // The poll question is the message content
+      body = interpolate(getMessage('poll', locale), {
+        question: message.content?.slice(0, 100) ?? '',
+      });
+      break;
     case 'system':
       body = getMessage('system', locale);
       break;
@@ -371,30 +386,93 @@ async function sendPushNotification(request: SendPushRequest): Promise<Response>
 }
 
 /**
- * Check if a participant should receive a notification
+ * Check if a participant has muted the conversation
+ */
+function isConversationMuted(participant: ConversationParticipantRow, now: Date): boolean {
+  if (!participant.muted) {
+    return false;
+  }
+
+  // NULL muted_until means muted until the user unmutes
+  return !participant.muted_until || new Date(participant.muted_until) > now;
+}
+
+/**
+ * Convert a "HH:MM[:SS]" time string to minutes since midnight
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Check if the current time falls inside the user's quiet hours,
+ * evaluated in the user's own time zone
+ */
+function isWithinQuietHours(user: MembershipRow['user'] | null, now: Date): boolean {
+  if (!user?.quiet_hours_enabled) {
+    return false;
+  }
+
+  let localTime: string;
+  try {
+    localTime = new Intl.DateTimeFormat('en-GB', {
+      timeZone: user.quiet_hours_timezone || 'UTC',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(now);
+  } catch {
+    // Unknown time zone: fall back to UTC
+    localTime = now.toISOString().slice(11, 16);
+  }
+
+  const current = toMinutes(localTime);
+  const start = toMinutes(user.quiet_hours_start);
+  const end = toMinutes(user.quiet_hours_end);
+
+  if (start === end) {
+    return false;
+  }
+
+  // Overnight window (e.g. 22:00 - 07:00) wraps past midnight
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Check if a participant should receive a notification.
+ * Mentions bypass conversation mute and quiet hours.
  */
 function shouldNotifyParticipant(
-  participantId: string,
+  participant: ParticipantWithMembership,
   senderMembershipId: string,
   excludedMembershipIds: Set<string>,
-  participantUserIds?: Set<string>
+  options: { isMention?: boolean; now?: Date } = {}
 ): boolean {
+  const { isMention = false, now = new Date() } = options;
+
   // Don't notify sender
-  if (participantId === senderMembershipId) {
+  if (participant.id === senderMembershipId) {
     return false;
   }
 
   // Check event chat exclusions
-  if (excludedMembershipIds.has(participantId)) {
+  if (excludedMembershipIds.has(participant.membership_id)) {
     return false;
   }
 
-  // Check user-level exclusions (for mentions)
-  if (participantUserIds) {
-    const participantUserId = participantUserIds.has(participantId);
-    if (participantUserId) {
-      return false;
-    }
+  if (isMention) {
+    return true;
+  }
+
+  // Check per-conversation mute
+  if (isConversationMuted(participant, now)) {
+    return false;
+  }
+
+  // Check quiet hours
+  if (isWithinQuietHours(participant.membership.user, now)) {
+    return false;
   }
 
   return true;
@@ -439,9 +517,7 @@ async function handleMessageSent(messageId: string): Promise<{
     excludedMembershipIds = new Set(exclusions.map((e) => e.excluded_membership_id));
   }
 
-  const senderMembership = activeParticipants.find(
-    (p) => p.membership.user_id === message.sender_id
-  );
+  const senderMembership = activeParticipants.find((p) => p.membership_id === message.sender_id);
   const senderMembershipId = senderMembership?.id || '';
   const senderName = senderMembership?.membership.user?.display_name || 'Someone';
   const senderLocale = senderMembership?.membership.user?.locale || 'en';
@@ -459,17 +535,14 @@ async function handleMessageSent(messageId: string): Promise<{
   }
 
   // Send mention notifications (higher priority)
-  if (mentions.length > 0) {
-    const mentionedUserIds = new Set(
-      mentions.map((m) => m.membership.user?.display_name || '').filter(Boolean)
-    );
-
-    const mentionRecipients = activeParticipants.filter(
-      (p) =>
-        mentionedUserIds.has(p.membership.user?.display_name || '') &&
-        shouldNotifyParticipant(p.id, senderMembershipId, excludedMembershipIds)
-    );
+  const mentionedMembershipIds = getMentionedMembershipIds(mentions, activeParticipants);
+  const mentionRecipients = activeParticipants.filter(
+    (p) =>
+      mentionedMembershipIds.has(p.membership_id) &&
+      shouldNotifyParticipant(p, senderMembershipId, excludedMembershipIds, { isMention: true })
+  );
 
+  if (mentionRecipients.length > 0) {
     for (const recipient of mentionRecipients) {
       const locale = recipient.membership.user?.locale || 'en';
       const { title, body } = buildNotificationContent(message, senderName, locale, true);
@@ -495,11 +568,10 @@ async function handleMessageSent(messageId: string): Promise<{
   }
 
   // Send regular message notifications (excluding mentioned users who already got notified)
-  const mentionedMembershipIds = new Set(mentions.map((m) => m.membership_id));
   const regularRecipients = activeParticipants.filter(
     (p) =>
-      !mentionedMembershipIds.has(p.id) &&
-      shouldNotifyParticipant(p.id, senderMembershipId, excludedMembershipIds)
+      !mentionedMembershipIds.has(p.membership_id) &&
+      shouldNotifyParticipant(p, senderMembershipId, excludedMembershipIds)
   );
 
   if (regularRecipients.length > 0) {
@@ -535,7 +607,7 @@ async function handleMessageSent(messageId: string): Promise<{
 
   return {
     success: true,
-    notified: mentions.length + regularRecipients.length,
+    notified: mentionRecipients.length + regularRecipients.length,
     errors: [],
   };
 }
@@ -637,6 +709,7 @@ export type {
   MessageRow,
   ConversationRow,
   ConversationParticipantRow,
+  ParticipantWithMembership,
   MembershipRow,
   EventChatExclusionRow,
   MentionRow,
@@ -2,7 +2,8 @@
  * Handle Prayer Answered Edge Function
  *
  * Triggered when a prayer card is marked as answered.
- * Sends celebratory push notifications to recipients based on scope.
+ * Sends celebratory push notifications to recipients based on scope,
+ * including an excerpt of the author's testimony when one was shared.
  *
  * Environment Variables:
  * - SEND_PUSH_NOTIFICATION_URL: URL of the send-push-notification function
@@ -26,11 +27,26 @@ interface PrayerCardRow {
   id: string;
   tenant_id: string;
   author_id: string;
-  title: string | null;
-  scope: 'individual' | 'small_group' | 'church_wide';
-  small_group_id: string | null;
+  recipient_scope: 'individual' | 'small_group' | 'church_wide';
   answered_at: string | null;
   created_at: string;
+  author: {
+    user_id: string;
+    user: {
+      id: string;
+      display_name: string | null;
+      locale: 'en' | 'ko';
+    } | null;
+  } | null;
+  recipients: {
+    recipient_membership_id: string | null;
+    recipient_small_group_id: string | null;
+  }[];
+}
+
+interface PrayerCardResponseRow {
+  id: string;
+  content: string;
 }
 
 interface MembershipRow {
@@ -70,6 +86,9 @@ const SEND_PUSH_FUNCTION_URL =
   `${Deno.env.get('SUPABASE_URL')}/functions/v1/send-push-notification`;
 const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
+// Keep testimony excerpts short enough for lock-screen notifications
+const TESTIMONY_EXCERPT_LENGTH = 100;
+
 // ============================================================================
 // I18N MESSAGES
 // ============================================================================
@@ -78,10 +97,12 @@ const i18n = {
   en: {
     title: 'Prayer Answered 🎉',
     body: "{authorName}'s prayer has been answered",
+    body_with_testimony: '{authorName}\'s prayer has been answered: "{testimony}"',
   },
   ko: {
     title: '기도 응답 🎉',
     body: '{authorName}님의 기도가 응답되었습니다',
+    body_with_testimony: '{authorName}님의 기도가 응답되었습니다: "{testimony}"',
   },
 };
 
@@ -120,7 +141,12 @@ async function getPrayerCard(prayerCardId: string): Promise<PrayerCardRow | null
     .from('prayer_cards')
     .select(
       `
-      *,
+      id,
+      tenant_id,
+      author_id,
+      recipient_scope,
+      answered_at,
+      created_at,
       author:author_id (
         user_id,
         user:users!memberships_user_id_fkey (
@@ -128,6 +154,10 @@ async function getPrayerCard(prayerCardId: string): Promise<PrayerCardRow | null
           display_name,
           locale
         )
+      ),
+      recipients:prayer_card_recipients (
+        recipient_membership_id,
+        recipient_small_group_id
       )
     `
     )
@@ -146,57 +176,96 @@ async function getPrayerCard(prayerCardId: string): Promise<PrayerCardRow | null
 }
 
 /**
- * Fetch recipients based on prayer card scope
+ * Fetch the most recent testimony the author shared for a prayer card
  */
-async function getPrayerRecipients(prayerCard: PrayerCardRow): Promise<string[]> {
-  const userIds: string[] = [];
+async function getLatestTestimony(
+  prayerCard: PrayerCardRow
+): Promise<PrayerCardResponseRow | null> {
+  const { data, error } = await supabase
+    .from('prayer_card_responses')
+    .select('id, content')
+    .eq('prayer_card_id', prayerCard.id)
+    .eq('author_id', prayerCard.author_id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    log.warn('failed_to_fetch_testimony', {
+      prayer_card_id: prayerCard.id,
+      error: error.message,
+    });
+    return null;
+  }
 
-  switch (prayerCard.scope) {
-    case 'individual':
-      // Individual prayer: only the author
-      userIds.push(prayerCard.author_id);
+  return data as PrayerCardResponseRow | null;
+}
+
+/**
+ * Truncate testimony content to a single-line excerpt
+ */
+function buildTestimonyExcerpt(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= TESTIMONY_EXCERPT_LENGTH) {
+    return singleLine;
+  }
+  return `${singleLine.slice(0, TESTIMONY_EXCERPT_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Fetch recipient user IDs based on prayer card scope (author excluded)
+ */
+async function getPrayerRecipients(prayerCard: PrayerCardRow): Promise<string[]> {
+  let query = supabase
+    .from('memberships')
+    .select('user_id')
+    .eq('tenant_id', prayerCard.tenant_id)
+    .eq('status', 'active')
+    .neq('id', prayerCard.author_id);
+
+  switch (prayerCard.recipient_scope) {
+    case 'individual': {
+      // Individual prayer: explicit recipient memberships
+      const membershipIds = prayerCard.recipients
+        .map((r) => r.recipient_membership_id)
+        .filter((id): id is string => !!id);
+      if (membershipIds.length === 0) return [];
+      query = query.in('id', membershipIds);
       break;
+    }
 
-    case 'small_group':
-      // Small group prayer: all members of the small group
-      if (prayerCard.small_group_id) {
-        const { data: memberships } = await supabase
-          .from('memberships')
-          .select('user_id')
-          .eq('small_group_id', prayerCard.small_group_id)
-          .eq('status', 'active');
-
-        for (const m of memberships || []) {
-          userIds.push(m.user_id);
-        }
-      }
-      // Always include the author
-      if (!userIds.includes(prayerCard.author_id)) {
-        userIds.push(prayerCard.author_id);
-      }
+    case 'small_group': {
+      // Small group prayer: all members of the recipient small groups
+      const smallGroupIds = prayerCard.recipients
+        .map((r) => r.recipient_small_group_id)
+        .filter((id): id is string => !!id);
+      if (smallGroupIds.length === 0) return [];
+      query = query.in('small_group_id', smallGroupIds);
       break;
+    }
 
     case 'church_wide':
       // Church-wide prayer: all active members of the tenant
-      const { data: allMemberships } = await supabase
-        .from('memberships')
-        .select('user_id')
-        .eq('tenant_id', prayerCard.tenant_id)
-        .eq('status', 'active');
-
-      for (const m of allMemberships || []) {
-        userIds.push(m.user_id);
-      }
       break;
   }
 
-  return userIds;
+  const { data: memberships, error } = await query;
+
+  if (error) {
+    log.error('failed_to_fetch_recipients', {
+      prayer_card_id: prayerCard.id,
+      error: error.message,
+    });
+    return [];
+  }
+
+  return [...new Set((memberships || []).map((m) => m.user_id))];
 }
 
 /**
  * Get author name from prayer card
  */
-function getAuthorName(prayerCard: any): string {
+function getAuthorName(prayerCard: PrayerCardRow): string {
   const author = prayerCard.author;
   if (!author) return 'Someone';
 
@@ -209,7 +278,7 @@ function getAuthorName(prayerCard: any): string {
 /**
  * Get author's locale from prayer card
  */
-function getAuthorLocale(prayerCard: any): 'en' | 'ko' {
+function getAuthorLocale(prayerCard: PrayerCardRow): 'en' | 'ko' {
   const author = prayerCard.author;
   if (!author) return 'en';
 
@@ -236,11 +305,15 @@ async function sendPushNotification(request: SendPushRequest): Promise<Response>
  */
 function buildNotificationContent(
   authorName: string,
+  testimony: string | null,
   locale: 'en' | 'ko' = 'en'
 ): { title: string; body: string } {
   const title = getMessage('title', locale);
-  const bodyTemplate = getMessage('body', locale);
-  const body = interpolate(bodyTemplate, { authorName });
+  const bodyTemplate = getMessage(testimony ? 'body_with_testimony' : 'body', locale);
+  const body = interpolate(bodyTemplate, {
+    authorName,
+    testimony: testimony ? buildTestimonyExcerpt(testimony) : '',
+  });
 
   return { title, body };
 }
@@ -272,12 +345,17 @@ async function handlePrayerAnswered(prayerCardId: string): Promise<{
     return { success: true, notified: 0, errors: [] };
   }
 
-  // Get author info for notification content
+  // Get author info and testimony for notification content
   const authorName = getAuthorName(prayerCard);
   const authorLocale = getAuthorLocale(prayerCard);
+  const testimony = await getLatestTestimony(prayerCard);
 
   // Build notification content
-  const { title, body } = buildNotificationContent(authorName, authorLocale);
+  const { title, body } = buildNotificationContent(
+    authorName,
+    testimony?.content ?? null,
+    authorLocale
+  );
 
   // Send notifications (group by locale for localization)
   // For simplicity, we use the author's locale for all recipients
@@ -294,6 +372,7 @@ async function handlePrayerAnswered(prayerCardId: string): Promise<{
       data: {
         prayer_card_id: prayerCard.id,
         tenant_id: prayerCard.tenant_id,
+        ...(testimony ? { response_id: testimony.id } : {}),
       },
     },
     options: {
@@ -401,4 +480,4 @@ serve(async (req) => {
 // TYPE EXPORTS FOR TESTING
 // ============================================================================
 
-export type { PrayerCardRow, MembershipRow, SendPushRequest };
+export type { PrayerCardRow, PrayerCardResponseRow, MembershipRow, SendPushRequest };
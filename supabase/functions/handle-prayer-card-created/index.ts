@@ -0,0 +1,460 @@
+/**
+ * Handle Prayer Card Created Edge Function
+ *
+ * Triggered after a prayer card and its recipient rows are created.
+ * Sends push notifications to recipients based on scope. Urgent cards are
+ * delivered with high priority and the critical sound.
+ *
+ * Only the card's author (or the service role) can call it, and each card is
+ * announced once: prayer_cards.notified_at is set before the pushes go out.
+ *
+ * Environment Variables:
+ * - SEND_PUSH_NOTIFICATION_URL: URL of the send-push-notification function
+ * - SUPABASE_SERVICE_ROLE_KEY: Service role key for authorization
+ *
+ * @see claude_docs/06_push_notifications.md
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { createLogger } from '../_shared/logger.ts';
+
+// Create logger instance
+const log = createLogger('handle-prayer-card-created');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PrayerCardRow {
+  id: string;
+  tenant_id: string;
+  author_id: string;
+  content: string;
+  recipient_scope: 'individual' | 'small_group' | 'church_wide';
+  is_urgent: boolean;
+  author: {
+    user_id: string;
+    user: {
+      id: string;
+      display_name: string | null;
+    } | null;
+  } | null;
+  recipients: {
+    recipient_membership_id: string | null;
+    recipient_small_group_id: string | null;
+  }[];
+}
+
+interface RecipientRow {
+  user_id: string;
+  user: {
+    locale: 'en' | 'ko';
+  } | null;
+}
+
+interface SendPushRequest {
+  tenant_id: string;
+  notification_type: 'new_prayer_card';
+  recipients: {
+    user_ids: string[];
+  };
+  payload: {
+    title: string;
+    body: string;
+    data: Record<string, string>;
+  };
+  options?: {
+    priority?: 'normal' | 'high';
+    sound?: 'default' | 'default_critical';
+  };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SEND_PUSH_FUNCTION_URL =
+  Deno.env.get('SEND_PUSH_NOTIFICATION_URL') ||
+  `${Deno.env.get('SUPABASE_URL')}/functions/v1/send-push-notification`;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Keep card excerpts short enough for lock-screen notifications
+const CONTENT_EXCERPT_LENGTH = 100;
+
+// ============================================================================
+// I18N MESSAGES
+// ============================================================================
+
+const i18n = {
+  en: {
+    title: 'New Prayer Request 🙏',
+    title_urgent: '🚨 Urgent Prayer Request',
+    body: '{authorName}: {content}',
+    someone: 'Someone',
+  },
+  ko: {
+    title: '새 기도 요청 🙏',
+    title_urgent: '🚨 긴급 기도 요청',
+    body: '{authorName}: {content}',
+    someone: '누군가',
+  },
+};
+
+function getMessage(key: string, locale: 'en' | 'ko' = 'en'): string {
+  return i18n[locale]?.[key] || i18n.en[key] || key;
+}
+
+function interpolate(template: string, params: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key) => params[key] || '');
+}
+
+// ============================================================================
+// SUPABASE CLIENT
+// ============================================================================
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch prayer card with author info and recipient rows
+ */
+async function getPrayerCard(prayerCardId: string): Promise<PrayerCardRow | null> {
+  const { data, error } = await supabase
+    .from('prayer_cards')
+    .select(
+      `
+      id,
+      tenant_id,
+      author_id,
+      content,
+      recipient_scope,
+      is_urgent,
+      author:author_id (
+        user_id,
+        user:users!memberships_user_id_fkey (
+          id,
+          display_name
+        )
+      ),
+      recipients:prayer_card_recipients (
+        recipient_membership_id,
+        recipient_small_group_id
+      )
+    `
+    )
+    .eq('id', prayerCardId)
+    .single();
+
+  if (error) {
+    log.error('failed_to_fetch_prayer_card', {
+      prayer_card_id: prayerCardId,
+      error: error.message,
+    });
+    return null;
+  }
+
+  return data as unknown as PrayerCardRow | null;
+}
+
+/**
+ * Fetch recipients (with locale) based on prayer card scope, author excluded
+ */
+async function getPrayerRecipients(prayerCard: PrayerCardRow): Promise<RecipientRow[]> {
+  let query = supabase
+    .from('memberships')
+    .select(
+      `
+      user_id,
+      user:users!memberships_user_id_fkey (
+        locale
+      )
+    `
+    )
+    .eq('tenant_id', prayerCard.tenant_id)
+    .eq('status', 'active')
+    .neq('id', prayerCard.author_id);
+
+  switch (prayerCard.recipient_scope) {
+    case 'individual': {
+      const membershipIds = prayerCard.recipients
+        .map((r) => r.recipient_membership_id)
+        .filter((id): id is string => !!id);
+      if (membershipIds.length === 0) return [];
+      query = query.in('id', membershipIds);
+      break;
+    }
+
+    case 'small_group': {
+      const smallGroupIds = prayerCard.recipients
+        .map((r) => r.recipient_small_group_id)
+        .filter((id): id is string => !!id);
+      if (smallGroupIds.length === 0) return [];
+      query = query.in('small_group_id', smallGroupIds);
+      break;
+    }
+
+    case 'church_wide':
+      // All active members of the tenant
+      break;
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    log.error('failed_to_fetch_recipients', {
+      prayer_card_id: prayerCard.id,
+      error: error.message,
+    });
+    return [];
+  }
+
+  return (data || []) as unknown as RecipientRow[];
+}
+
+/**
+ * Truncate card content to a single-line excerpt
+ */
+function buildContentExcerpt(content: string): string {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= CONTENT_EXCERPT_LENGTH) {
+    return singleLine;
+  }
+  return `${singleLine.slice(0, CONTENT_EXCERPT_LENGTH - 1).trimEnd()}…`;
+}
+
+/**
+ * Send push notification via send-push-notification function
+ */
+async function sendPushNotification(request: SendPushRequest): Promise<Response> {
+  return await fetch(SEND_PUSH_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+    },
+    body: JSON.stringify(request),
+  });
+}
+
+/**
+ * Build localized notification content
+ */
+function buildNotificationContent(
+  prayerCard: PrayerCardRow,
+  locale: 'en' | 'ko' = 'en'
+): { title: string; body: string } {
+  const authorName = prayerCard.author?.user?.display_name || getMessage('someone', locale);
+  const title = getMessage(prayerCard.is_urgent ? 'title_urgent' : 'title', locale);
+  const body = interpolate(getMessage('body', locale), {
+    authorName,
+    content: buildContentExcerpt(prayerCard.content),
+  });
+
+  return { title, body };
+}
+
+/**
+ * Mark a prayer card as notified. Returns false when it already was, so each
+ * card is announced at most once no matter how often the function is called.
+ */
+async function claimPrayerCardNotification(prayerCardId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('prayer_cards')
+    .update({ notified_at: new Date().toISOString() })
+    .eq('id', prayerCardId)
+    .is('notified_at', null)
+    .select('id');
+
+  if (error) {
+    log.error('failed_to_claim_prayer_card_notification', {
+      prayer_card_id: prayerCardId,
+      error: error.message,
+    });
+    throw new Error(error.message);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+async function handlePrayerCardCreated(prayerCard: PrayerCardRow): Promise<{
+  success: boolean;
+  notified: number;
+  skipped: boolean;
+  errors: string[];
+}> {
+  if (!(await claimPrayerCardNotification(prayerCard.id))) {
+    log.info('prayer_card_already_notified', { prayer_card_id: prayerCard.id });
+    return { success: true, notified: 0, skipped: true, errors: [] };
+  }
+
+  const recipients = await getPrayerRecipients(prayerCard);
+  if (recipients.length === 0) {
+    return { success: true, notified: 0, skipped: false, errors: [] };
+  }
+
+  // Group by locale to send localized notifications
+  const userIdsByLocale = new Map<'en' | 'ko', Set<string>>();
+  for (const recipient of recipients) {
+    const locale = recipient.user?.locale || 'en';
+    if (!userIdsByLocale.has(locale)) {
+      userIdsByLocale.set(locale, new Set());
+    }
+    userIdsByLocale.get(locale)!.add(recipient.user_id);
+  }
+
+  // Urgent cards break through with high priority and the critical sound
+  const options: SendPushRequest['options'] = prayerCard.is_urgent
+    ? { priority: 'high', sound: 'default_critical' }
+    : { priority: 'normal', sound: 'default' };
+
+  let notified = 0;
+  for (const [locale, userIds] of userIdsByLocale) {
+    const { title, body } = buildNotificationContent(prayerCard, locale);
+
+    await sendPushNotification({
+      tenant_id: prayerCard.tenant_id,
+      notification_type: 'new_prayer_card',
+      recipients: {
+        user_ids: [...userIds],
+      },
+      payload: {
+        title,
+        body,
+        data: {
+          type: 'new_prayer_card',
+          prayer_card_id: prayerCard.id,
+          tenant_id: prayerCard.tenant_id,
+        },
+      },
+      options,
+    });
+
+    notified += userIds.size;
+  }
+
+  return { success: true, notified, skipped: false, errors: [] };
+}
+
+// ============================================================================
+// SERVE HANDLER
+// ============================================================================
+
+serve(async (req) => {
+  // Generate request tracking
+  const requestId = crypto.randomUUID();
+  const startTime = performance.now();
+
+  // CORS handling
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    // Parse request body early for logging
+    const body = await req.json();
+    const { prayer_card_id } = body;
+
+    // Log function start
+    log.info('function_started', {
+      request_id: requestId,
+      prayer_card_id,
+      function_name: 'handle-prayer-card-created',
+      input_size: JSON.stringify(body).length,
+    });
+
+    // Verify Authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    // Members are identified by their user ID; the service role may notify any card
+    const token = authHeader.substring(7);
+    let callerUserId: string | null = null;
+    if (token !== SERVICE_ROLE_KEY) {
+      // Verify using Supabase auth
+      const { data, error } = await supabase.auth.getUser(token);
+      if (error || !data.user) {
+        return new Response('Invalid authorization token', { status: 401 });
+      }
+      callerUserId = data.user.id;
+    }
+
+    if (!prayer_card_id) {
+      return new Response('Missing required field: prayer_card_id', { status: 400 });
+    }
+
+    const prayerCard = await getPrayerCard(prayer_card_id);
+    if (!prayerCard) {
+      return new Response('Prayer card not found', { status: 404 });
+    }
+
+    // Only the author can announce their own card
+    if (callerUserId && prayerCard.author?.user_id !== callerUserId) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    const result = await handlePrayerCardCreated(prayerCard);
+
+    // Log function completion
+    log.info('function_completed', {
+      request_id: requestId,
+      duration_ms: Math.round(performance.now() - startTime),
+      result: 'success',
+      notified_count: result.notified,
+    });
+
+    return new Response(JSON.stringify(result), {
+      status: result.success ? 200 : 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorStack = error instanceof Error ? error.stack : undefined;
+
+    log.error('error_occurred', {
+      request_id: requestId,
+      error: errorMessage,
+      stack: errorStack,
+      duration_ms: Math.round(performance.now() - startTime),
+    });
+
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// ============================================================================
+// TYPE EXPORTS FOR TESTING
+// ============================================================================
+
+export type { PrayerCardRow, RecipientRow, SendPushRequest };
@@ -0,0 +1,610 @@
+/**
+ * Handle Prayer Intercession Edge Function
+ *
+ * Triggered when a member records "I prayed for this" on a prayer card.
+ * Sends the card author a batched push notification summarizing who prayed.
+ *
+ * Batching: intercessions start with notified_at = NULL. If the author was
+ * already notified about this card within BATCH_WINDOW_MINUTES, the new
+ * intercession stays pending and is included in the next notification.
+ * Otherwise all pending intercessions are sent as one push and stamped.
+ *
+ * Held intercessions are sent by a pg_cron job that calls this function
+ * every five minutes with { flush_pending: true } (service role only). The
+ * flush runs the same batching for every card with pending intercessions.
+ *
+ * Members can only trigger the push for a card they recorded an intercession
+ * on, and intercessions are stamped only after the push is accepted so a
+ * failed send is retried by the next flush.
+ *
+ * Environment Variables:
+ * - SEND_PUSH_NOTIFICATION_URL: URL of the send-push-notification function
+ * - SUPABASE_SERVICE_ROLE_KEY: Service role key for authorization
+ *
+ * @see claude_docs/06_push_notifications.md
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { createLogger } from '../_shared/logger.ts';
+
+// Create logger instance
+const log = createLogger('handle-prayer-intercession');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PrayerCardRow {
+  id: string;
+  tenant_id: string;
+  author_id: string;
+  author: {
+    user_id: string;
+    user: {
+      id: string;
+      display_name: string | null;
+      locale: 'en' | 'ko';
+    } | null;
+  } | null;
+}
+
+interface PendingIntercessionRow {
+  id: string;
+  membership_id: string;
+  prayed_at: string;
+  membership: {
+    user: {
+      display_name: string | null;
+    } | null;
+  } | null;
+}
+
+interface PendingCardRow {
+  id: string;
+  prayer_card_id: string;
+  membership_id: string;
+  prayer_card: {
+    author_id: string;
+  } | null;
+}
+
+interface SendPushRequest {
+  tenant_id: string;
+  notification_type: 'prayer_intercession';
+  recipients: {
+    user_ids: string[];
+  };
+  payload: {
+    title: string;
+    body: string;
+    data: Record<string, string | number>;
+  };
+  options?: {
+    sound?: string;
+  };
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SEND_PUSH_FUNCTION_URL =
+  Deno.env.get('SEND_PUSH_NOTIFICATION_URL') ||
+  `${Deno.env.get('SUPABASE_URL')}/functions/v1/send-push-notification`;
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Minimum time between intercession pushes to the same author for one card
+const BATCH_WINDOW_MINUTES = 30;
+
+// Maximum pending intercessions read per flush
+const FLUSH_BATCH_SIZE = 1000;
+
+// ============================================================================
+// I18N MESSAGES
+// ============================================================================
+
+const i18n = {
+  en: {
+    title: 'Someone prayed for you 🙏',
+    body_single: '{name} prayed for your prayer request',
+    body_multiple: '{name} and {count} others prayed for your prayer request',
+    someone: 'Someone',
+  },
+  ko: {
+    title: '누군가 당신을 위해 기도했어요 🙏',
+    body_single: '{name}님이 회원님의 기도제목을 위해 기도했습니다',
+    body_multiple: '{name}님 외 {count}명이 회원님의 기도제목을 위해 기도했습니다',
+    someone: '누군가',
+  },
+};
+
+function getMessage(key: string, locale: 'en' | 'ko' = 'en'): string {
+  return i18n[locale]?.[key] || i18n.en[key] || key;
+}
+
+function interpolate(template: string, params: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (_, key) => params[key] || '');
+}
+
+// ============================================================================
+// SUPABASE CLIENT
+// ============================================================================
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  }
+);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Fetch prayer card with author info
+ */
+async function getPrayerCard(prayerCardId: string): Promise<PrayerCardRow | null> {
+  const { data, error } = await supabase
+    .from('prayer_cards')
+    .select(
+      `
+      id,
+      tenant_id,
+      author_id,
+      author:author_id (
+        user_id,
+        user:users!memberships_user_id_fkey (
+          id,
+          display_name,
+          locale
+        )
+      )
+    `
+    )
+    .eq('id', prayerCardId)
+    .single();
+
+  if (error) {
+    log.error('failed_to_fetch_prayer_card', {
+      prayer_card_id: prayerCardId,
+      error: error.message,
+    });
+    return null;
+  }
+
+  return data as unknown as PrayerCardRow | null;
+}
+
+/**
+ * Check whether the user has an active membership that prayed for this card.
+ * Intercessions can only be recorded on cards the member can see.
+ */
+async function hasPrayedForCard(prayerCard: PrayerCardRow, userId: string): Promise<boolean> {
+  const { data: membership, error: membershipError } = await supabase
+    .from('memberships')
+    .select('id')
+    .eq('tenant_id', prayerCard.tenant_id)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (membershipError) {
+    log.error('failed_to_fetch_caller_membership', {
+      prayer_card_id: prayerCard.id,
+      error: membershipError.message,
+    });
+    return false;
+  }
+
+  if (!membership) {
+    return false;
+  }
+
+  const { count, error } = await supabase
+    .from('prayer_card_intercessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('prayer_card_id', prayerCard.id)
+    .eq('membership_id', (membership as { id: string }).id);
+
+  if (error) {
+    log.error('failed_to_check_caller_intercession', {
+      prayer_card_id: prayerCard.id,
+      error: error.message,
+    });
+    return false;
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Check whether the author was notified about this card within the batch window
+ */
+async function wasRecentlyNotified(prayerCardId: string): Promise<boolean> {
+  const windowStart = new Date(Date.now() - BATCH_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+  const { count, error } = await supabase
+    .from('prayer_card_intercessions')
+    .select('id', { count: 'exact', head: true })
+    .eq('prayer_card_id', prayerCardId)
+    .gte('notified_at', windowStart);
+
+  if (error) {
+    log.error('failed_to_check_recent_notifications', {
+      prayer_card_id: prayerCardId,
+      error: error.message,
+    });
+    // Err on the side of not spamming the author
+    return true;
+  }
+
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Fetch intercessions not yet notified, excluding the author's own
+ */
+async function getPendingIntercessions(
+  prayerCard: PrayerCardRow
+): Promise<PendingIntercessionRow[]> {
+  const { data, error } = await supabase
+    .from('prayer_card_intercessions')
+    .select(
+      `
+      id,
+      membership_id,
+      prayed_at,
+      membership:membership_id (
+        user:users!memberships_user_id_fkey (
+          display_name
+        )
+      )
+    `
+    )
+    .eq('prayer_card_id', prayerCard.id)
+    .neq('membership_id', prayerCard.author_id)
+    .is('notified_at', null)
+    .order('prayed_at', { ascending: false });
+
+  if (error) {
+    log.error('failed_to_fetch_pending_intercessions', {
+      prayer_card_id: prayerCard.id,
+      error: error.message,
+    });
+    return [];
+  }
+
+  return (data || []) as unknown as PendingIntercessionRow[];
+}
+
+/**
+ * Stamp intercessions as notified
+ */
+async function markNotified(intercessionIds: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('prayer_card_intercessions')
+    .update({ notified_at: new Date().toISOString() })
+    .in('id', intercessionIds);
+
+  if (error) {
+    log.error('failed_to_mark_intercessions_notified', { error: error.message });
+  }
+}
+
+/**
+ * Find cards with pending intercessions from someone other than the author.
+ * The author's own pending intercessions are stamped so they aren't read
+ * again by every flush.
+ */
+async function getCardsWithPendingIntercessions(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('prayer_card_intercessions')
+    .select(
+      `
+      id,
+      prayer_card_id,
+      membership_id,
+      prayer_card:prayer_card_id (
+        author_id
+      )
+    `
+    )
+    .is('notified_at', null)
+    .order('prayed_at', { ascending: true })
+    .limit(FLUSH_BATCH_SIZE);
+
+  if (error) {
+    log.error('failed_to_fetch_pending_cards', { error: error.message });
+    return [];
+  }
+
+  const rows = (data || []) as unknown as PendingCardRow[];
+  const ownIds = rows
+    .filter((row) => row.membership_id === row.prayer_card?.author_id)
+    .map((row) => row.id);
+  if (ownIds.length > 0) {
+    await markNotified(ownIds);
+  }
+
+  const cardIds = rows
+    .filter((row) => row.membership_id !== row.prayer_card?.author_id)
+    .map((row) => row.prayer_card_id);
+  return [...new Set(cardIds)];
+}
+
+/**
+ * Send push notification via send-push-notification function
+ */
+async function sendPushNotification(request: SendPushRequest): Promise<Response> {
+  return await fetch(SEND_PUSH_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+    },
+    body: JSON.stringify(request),
+  });
+}
+
+/**
+ * Build localized notification content.
+ * The most recent intercessor is named; the rest are counted.
+ */
+function buildNotificationContent(
+  intercessions: PendingIntercessionRow[],
+  locale: 'en' | 'ko' = 'en'
+): { title: string; body: string } {
+  const latestName =
+    intercessions[0]?.membership?.user?.display_name || getMessage('someone', locale);
+  const others = intercessions.length - 1;
+
+  const title = getMessage('title', locale);
+  const body =
+    others > 0
+      ? interpolate(getMessage('body_multiple', locale), {
+          name: latestName,
+          count: String(others),
+        })
+      : interpolate(getMessage('body_single', locale), { name: latestName });
+
+  return { title, body };
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+async function handlePrayerIntercession(prayerCard: PrayerCardRow): Promise<{
+  success: boolean;
+  notified: number;
+  batched: boolean;
+  errors: string[];
+}> {
+  const authorUserId = prayerCard.author?.user_id;
+  if (!authorUserId) {
+    return { success: true, notified: 0, batched: false, errors: [] };
+  }
+
+  // Hold new intercessions for the next batch if the author was just notified
+  if (await wasRecentlyNotified(prayerCard.id)) {
+    return { success: true, notified: 0, batched: true, errors: [] };
+  }
+
+  const pending = await getPendingIntercessions(prayerCard);
+  if (pending.length === 0) {
+    return { success: true, notified: 0, batched: false, errors: [] };
+  }
+
+  const locale = prayerCard.author?.user?.locale || 'en';
+  const { title, body } = buildNotificationContent(pending, locale);
+
+  const response = await sendPushNotification({
+    tenant_id: prayerCard.tenant_id,
+    notification_type: 'prayer_intercession',
+    recipients: {
+      user_ids: [authorUserId],
+    },
+    payload: {
+      title,
+      body,
+      data: {
+        type: 'prayer_intercession',
+        prayer_card_id: prayerCard.id,
+        tenant_id: prayerCard.tenant_id,
+        intercession_count: pending.length,
+      },
+    },
+    options: {
+      sound: 'default',
+    },
+  });
+
+  // Leave the intercessions pending so the next flush retries the push
+  if (!response.ok) {
+    const error = `Push notification failed with status ${response.status}`;
+    log.error('failed_to_send_intercession_push', {
+      prayer_card_id: prayerCard.id,
+      status: response.status,
+    });
+    return { success: false, notified: 0, batched: false, errors: [error] };
+  }
+
+  await markNotified(pending.map((i) => i.id));
+
+  return {
+    success: true,
+    notified: pending.length,
+    batched: false,
+    errors: [],
+  };
+}
+
+/**
+ * Send held intercessions for every card whose batch window has passed
+ */
+async function flushPendingIntercessions(): Promise<{
+  success: boolean;
+  cards: number;
+  notified: number;
+  errors: string[];
+}> {
+  const cardIds = await getCardsWithPendingIntercessions();
+  let notified = 0;
+  const errors: string[] = [];
+
+  for (const cardId of cardIds) {
+    try {
+      const prayerCard = await getPrayerCard(cardId);
+      if (!prayerCard) {
+        errors.push(`Prayer card not found: ${cardId}`);
+        continue;
+      }
+
+      const result = await handlePrayerIntercession(prayerCard);
+      notified += result.notified;
+      errors.push(...result.errors);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return { success: true, cards: cardIds.length, notified, errors };
+}
+
+// ============================================================================
+// SERVE HANDLER
+// ============================================================================
+
+serve(async (req) => {
+  // Generate request tracking
+  const requestId = crypto.randomUUID();
+  const startTime = performance.now();
+
+  // CORS handling
+  if (req.method === 'OPTIONS') {
+    return new Response(null, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      },
+    });
+  }
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  try {
+    // Parse request body early for logging
+    const body = await req.json();
+    const { prayer_card_id, flush_pending } = body;
+
+    // Log function start
+    log.info('function_started', {
+      request_id: requestId,
+      prayer_card_id,
+      flush_pending: !!flush_pending,
+      function_name: 'handle-prayer-intercession',
+      input_size: JSON.stringify(body).length,
+    });
+
+    // Verify Authorization header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    // Members are identified by their user ID; the service role may notify any card
+    const token = authHeader.substring(7);
+    let callerUserId: string | null = null;
+    if (token !== SERVICE_ROLE_KEY) {
+      // Verify using Supabase auth
+      const { data, error } = await supabase.auth.getUser(token);
+      if (error || !data.user) {
+        return new Response('Invalid authorization token', { status: 401 });
+      }
+      callerUserId = data.user.id;
+    }
+
+    if (flush_pending) {
+      // Only the scheduled job flushes every card
+      if (token !== SERVICE_ROLE_KEY) {
+        return new Response('Forbidden', { status: 403 });
+      }
+
+      const result = await flushPendingIntercessions();
+
+      log.info('function_completed', {
+        request_id: requestId,
+        duration_ms: Math.round(performance.now() - startTime),
+        result: 'success',
+        cards_count: result.cards,
+        notified_count: result.notified,
+      });
+
+      return new Response(JSON.stringify(result), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    if (!prayer_card_id) {
+      return new Response('Missing required field: prayer_card_id', { status: 400 });
+    }
+
+    const prayerCard = await getPrayerCard(prayer_card_id);
+    if (!prayerCard) {
+      return new Response('Prayer card not found', { status: 404 });
+    }
+
+    // Only a member who prayed for the card can trigger its notification
+    if (callerUserId && !(await hasPrayedForCard(prayerCard, callerUserId))) {
+      return new Response('Forbidden', { status: 403 });
+    }
+
+    // Process the intercession event
+    const result = await handlePrayerIntercession(prayerCard);
+
+    // Log function completion
+    log.info('function_completed', {
+      request_id: requestId,
+      duration_ms: Math.round(performance.now() - startTime),
+      result: 'success',
+      notified_count: result.notified,
+      batched: result.batched,
+    });
+
+    return new Response(JSON.stringify(result), {
+      status: result.success ? 200 : 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorStack = error instanceof Error ? error.stack : undefined;
+
+    log.error('error_occurred', {
+      request_id: requestId,
+      error: errorMessage,
+      stack: errorStack,
+      duration_ms: Math.round(performance.now() - startTime),
+    });
+
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// ============================================================================
+// TYPE EXPORTS FOR TESTING
+// ============================================================================
+
+export type { PrayerCardRow, PendingIntercessionRow, PendingCardRow, SendPushRequest };
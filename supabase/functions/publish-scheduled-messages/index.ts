@@ -0,0 +1,233 @@
+/**
+ * Publish Scheduled Messages Edge Function
+ *
+ * Runs every minute on a cron schedule. Claims scheduled messages that are
+ * due and posts each one as a normal `messages` insert from its author, so the
+ * messages webhook (handle-message-sent) notifies participants as it would
+ * for a message sent live.
+ *
+ * publish_scheduled_message() posts a row and marks it sent in one
+ * transaction. Rows a failed run left in 'sending' were never posted, and are
+ * claimed again once CLAIM_TIMEOUT_MINUTES has passed.
+ *
+ * Environment Variables:
+ * - SUPABASE_SERVICE_ROLE_KEY: Service role key for authorization
+ *
+ * @see claude_docs/05_chat_architecture.md
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { createLogger } from '../_shared/logger.ts';
+
+// Create logger instance
+const log = createLogger('publish-scheduled-messages');
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScheduledMessageRow {
+  id: string;
+  tenant_id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  scheduled_for: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  error: string | null;
+  claimed_at: string | null;
+}
+
+interface PublishResult {
+  success: boolean;
+  published: number;
+  failed: number;
+  errors: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// Rows claimed per run; anything left over goes out on the next run
+const BATCH_SIZE = 100;
+
+// How long a row can stay in 'sending' before the next run claims it again
+const CLAIM_TIMEOUT_MINUTES = 5;
+
+// ============================================================================
+// SUPABASE CLIENT
+// ============================================================================
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, SERVICE_ROLE_KEY, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false,
+  },
+});
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Claim due scheduled messages (moves them to 'sending')
+ */
+async function claimDueMessages(): Promise<ScheduledMessageRow[]> {
+  const { data, error } = await supabase.rpc('claim_due_scheduled_messages', {
+    p_limit: BATCH_SIZE,
+    p_claim_timeout: `${CLAIM_TIMEOUT_MINUTES} minutes`,
+  });
+
+  if (error) {
+    log.error('failed_to_claim_scheduled_messages', { error: error.message });
+    throw new Error(error.message);
+  }
+
+  return (data as ScheduledMessageRow[] | null) ?? [];
+}
+
+/**
+ * Post a scheduled message to its conversation as the author and mark it sent
+ */
+async function publishMessage(row: ScheduledMessageRow): Promise<string> {
+  const { data, error } = await supabase.rpc('publish_scheduled_message', {
+    p_scheduled_message_id: row.id,
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return data as string;
+}
+
+/**
+ * Record a scheduled message that couldn't be posted
+ */
+async function markScheduledMessageFailed(id: string, errorMessage: string): Promise<void> {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .update({ status: 'failed', error: errorMessage })
+    .eq('id', id);
+
+  if (error) {
+    log.error('failed_to_update_scheduled_message', {
+      scheduled_message_id: id,
+      status: 'failed',
+      error: error.message,
+    });
+  }
+}
+
+// ============================================================================
+// MAIN HANDLER
+// ============================================================================
+
+async function publishScheduledMessages(): Promise<PublishResult> {
+  const claimed = await claimDueMessages();
+
+  // Authors who lost access to the conversation were marked 'failed' by the claim
+  const rejected = claimed.filter((row) => row.status === 'failed');
+  for (const row of rejected) {
+    log.warn('scheduled_message_rejected', {
+      scheduled_message_id: row.id,
+      tenant_id: row.tenant_id,
+      reason: row.error,
+    });
+  }
+
+  let published = 0;
+  const errors: string[] = [];
+
+  // Publish in schedule order so a batch keeps its order in the conversation
+  for (const row of claimed.filter((r) => r.status === 'sending')) {
+    try {
+      await publishMessage(row);
+      published++;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      log.error('failed_to_publish_scheduled_message', {
+        scheduled_message_id: row.id,
+        tenant_id: row.tenant_id,
+        error: errorMessage,
+      });
+      await markScheduledMessageFailed(row.id, errorMessage);
+      errors.push(`${row.id}: ${errorMessage}`);
+    }
+  }
+
+  return {
+    success: errors.length === 0,
+    published,
+    failed: rejected.length + errors.length,
+    errors,
+  };
+}
+
+// ============================================================================
+// SERVE HANDLER
+// ============================================================================
+
+serve(async (req) => {
+  // Generate request tracking
+  const requestId = crypto.randomUUID();
+  const startTime = performance.now();
+
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  // Only the cron job may publish (service role key, no user tokens)
+  const authHeader = req.headers.get('Authorization');
+  if (authHeader !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    log.info('function_started', {
+      request_id: requestId,
+      function_name: 'publish-scheduled-messages',
+    });
+
+    const result = await publishScheduledMessages();
+
+    // Log function completion
+    log.info('function_completed', {
+      request_id: requestId,
+      duration_ms: Math.round(performance.now() - startTime),
+      result: result.success ? 'success' : 'partial_failure',
+      published_count: result.published,
+      failed_count: result.failed,
+    });
+
+    return new Response(JSON.stringify(result), {
+      status: result.success ? 200 : 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const errorStack = error instanceof Error ? error.stack : undefined;
+
+    log.error('error_occurred', {
+      request_id: requestId,
+      error: errorMessage,
+      stack: errorStack,
+      duration_ms: Math.round(performance.now() - startTime),
+    });
+
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+// ============================================================================
+// TYPE EXPORTS FOR TESTING
+// ============================================================================
+
+export type { ScheduledMessageRow, PublishResult };
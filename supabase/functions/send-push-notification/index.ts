@@ -2,7 +2,9 @@
  * Send Push Notification Edge Function
  *
  * Sends push notifications to Expo devices for specified recipients.
- * Handles batching, rate limiting, token cleanup, and logging.
+ * Handles notification preferences, batching, rate limiting, token cleanup,
+ * and logging. Every recipient also gets a row in the notifications table,
+ * which backs the in-app inbox.
  *
  * Environment Variables:
  * - EXPO_PROJECT_ID: Expo project ID for push notifications
@@ -54,10 +56,31 @@ type NotificationType =
   | 'new_message'
   | 'mention'
   | 'prayer_answered'
+  | 'prayer_intercession'
+  | 'new_prayer_card'
   | 'pastoral_journal_submitted'
   | 'pastoral_journal_forwarded'
   | 'pastoral_journal_confirmed';
 
+/**
+ * Categories users can opt out of (users.notification_preferences keys)
+ */
+type NotificationPreferenceCategory = 'messages' | 'mentions' | 'prayers' | 'journals' | 'system';
+
+type NotificationPreferencesJson = Partial<Record<NotificationPreferenceCategory, boolean>>;
+
+interface UserPreferencesRow {
+  id: string;
+  notification_preferences: NotificationPreferencesJson | null;
+}
+
+interface SuppressionSummary {
+  reason: 'notification_preferences';
+  category: NotificationPreferenceCategory;
+  count: number;
+  user_ids: string[];
+}
+
 interface NotificationPayload {
   title: string;
   body: string;
@@ -70,12 +93,18 @@ interface NotificationOptions {
   badge?: number | null;
 }
 
+interface ExpoCriticalSound {
+  critical: boolean;
+  name: string;
+  volume: number;
+}
+
 interface ExpoPushMessage {
   to: string;
   title?: string;
   body?: string;
   data?: Record<string, string | number>;
-  sound?: string;
+  sound?: string | ExpoCriticalSound | null;
   priority?: 'normal' | 'high';
   badge?: number | null;
 }
@@ -111,6 +140,19 @@ const BATCH_SIZE = 100;
 const MAX_REQUESTS_PER_MINUTE = 1000;
 const RATE_LIMIT_WINDOW_MS = 60 * 1000;
 
+// Preference category each notification type is gated by
+const NOTIFICATION_PREFERENCE_CATEGORY: Record<NotificationType, NotificationPreferenceCategory> =
+  {
+    new_message: 'messages',
+    mention: 'mentions',
+    prayer_answered: 'prayers',
+    prayer_intercession: 'prayers',
+    new_prayer_card: 'prayers',
+    pastoral_journal_submitted: 'journals',
+    pastoral_journal_forwarded: 'journals',
+    pastoral_journal_confirmed: 'journals',
+  };
+
 // In-memory rate limit tracking (for single-instance deployment)
 // For multi-instance, use Redis or similar
 const rateLimitMap = new Map<string, RateLimitEntry>();
@@ -208,12 +250,45 @@ async function getDeviceTokens(tenantId: string, userIds: string[]): Promise<Dev
 }
 
 /**
- * Get active membership IDs for users in tenant
+ * Split users by whether they opted into the given preference category.
+ * Missing preferences (or a missing key) count as opted in, matching the
+ * column default.
  */
-async function getActiveMembershipIds(tenantId: string, userIds: string[]): Promise<string[]> {
+async function filterByNotificationPreferences(
+  userIds: string[],
+  category: NotificationPreferenceCategory
+): Promise<{ allowedUserIds: string[]; suppressedUserIds: string[] }> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, notification_preferences')
+    .in('id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  const optedOut = new Set(
+    ((data || []) as UserPreferencesRow[])
+      .filter((u) => u.notification_preferences?.[category] === false)
+      .map((u) => u.id)
+  );
+
+  return {
+    allowedUserIds: userIds.filter((id) => !optedOut.has(id)),
+    suppressedUserIds: userIds.filter((id) => optedOut.has(id)),
+  };
+}
+
+/**
+ * Get active memberships for users in tenant
+ */
+async function getActiveMemberships(
+  tenantId: string,
+  userIds: string[]
+): Promise<Pick<Membership, 'id' | 'user_id'>[]> {
   const { data, error } = await supabase
     .from('memberships')
-    .select('id')
+    .select('id, user_id')
     .eq('tenant_id', tenantId)
     .in('user_id', userIds)
     .eq('status', 'active');
@@ -222,7 +297,15 @@ async function getActiveMembershipIds(tenantId: string, userIds: string[]): Prom
     throw new Error(`Failed to fetch memberships: ${error.message}`);
   }
 
-  return (data || []).map((m) => m.id);
+  return data || [];
+}
+
+/**
+ * Get active membership IDs for users in tenant
+ */
+async function getActiveMembershipIds(tenantId: string, userIds: string[]): Promise<string[]> {
+  const memberships = await getActiveMemberships(tenantId, userIds);
+  return memberships.map((m) => m.id);
 }
 
 /**
@@ -256,6 +339,36 @@ async function deleteInvalidToken(token: string): Promise<void> {
   }
 }
 
+/**
+ * Write inbox rows so the notification is listed in the in-app inbox,
+ * including for users without a registered device
+ */
+async function createInboxNotifications(
+  tenantId: string,
+  userIds: string[],
+  notificationType: NotificationType,
+  payload: NotificationPayload
+): Promise<void> {
+  const { error } = await supabase.from('notifications').insert(
+    userIds.map((userId) => ({
+      tenant_id: tenantId,
+      user_id: userId,
+      type: notificationType,
+      title: payload.title,
+      body: payload.body,
+      payload: { ...(payload.data || {}), type: notificationType },
+    }))
+  );
+
+  if (error) {
+    log.error('failed_to_create_inbox_notifications', {
+      tenant_id: tenantId,
+      notification_type: notificationType,
+      error: error.message,
+    });
+  }
+}
+
 /**
  * Log push notification attempt
  */
@@ -299,6 +412,11 @@ function buildExpoMessage(
     badge: options.badge ?? null,
   };
 
+  // Critical sound (iOS) plays even when the device is muted
+  if (options.sound === 'default_critical') {
+    message.sound = { critical: true, name: 'default', volume: 1 };
+  }
+
   // Critical mentions get higher priority
   if (options.priority === 'high') {
     message.priority = 'high';
@@ -330,6 +448,8 @@ async function handleSendPush(request: SendPushRequest): Promise<{
     'new_message',
     'mention',
     'prayer_answered',
+    'prayer_intercession',
+    'new_prayer_card',
     'pastoral_journal_submitted',
     'pastoral_journal_forwarded',
     'pastoral_journal_confirmed',
@@ -339,15 +459,46 @@ async function handleSendPush(request: SendPushRequest): Promise<{
     throw new Error(`Invalid notification_type: ${notification_type}`);
   }
 
-  // Get active membership IDs for recipient users
-  const activeMembershipIds = await getActiveMembershipIds(tenant_id, recipients.user_ids);
+  // Drop recipients who opted out of this notification category
+  const category = NOTIFICATION_PREFERENCE_CATEGORY[notification_type];
+  const { allowedUserIds, suppressedUserIds } = await filterByNotificationPreferences(
+    recipients.user_ids,
+    category
+  );
+
+  const suppression: SuppressionSummary | null =
+    suppressedUserIds.length > 0
+      ? {
+          reason: 'notification_preferences',
+          category,
+          count: suppressedUserIds.length,
+          user_ids: suppressedUserIds,
+        }
+      : null;
+
+  if (suppression) {
+    log.info('recipients_suppressed', {
+      tenant_id,
+      notification_type,
+      category,
+      suppressed_count: suppression.count,
+    });
+  }
+
+  if (allowedUserIds.length === 0) {
+    await logPushNotification(tenant_id, notification_type, 0, 0, 0, { suppression });
+    return { success: true, sent: 0, failed: 0, errors: [] };
+  }
 
-  let targetMembershipIds = activeMembershipIds;
+  // Get active memberships for recipient users
+  const activeMemberships = await getActiveMemberships(tenant_id, allowedUserIds);
+
+  let targetMemberships = activeMemberships;
 
   // Apply exclusions for event chat
   if (recipients.conversation_id) {
     const excludedMembershipIds = await getEventChatExclusions(recipients.conversation_id);
-    targetMembershipIds = activeMembershipIds.filter((id) => !excludedMembershipIds.includes(id));
+    targetMemberships = activeMemberships.filter((m) => !excludedMembershipIds.includes(m.id));
   }
 
   // Apply explicit exclusions
@@ -356,18 +507,28 @@ async function handleSendPush(request: SendPushRequest): Promise<{
       tenant_id,
       recipients.exclude_user_ids
     );
-    targetMembershipIds = targetMembershipIds.filter((id) => !excludeMembershipIds.includes(id));
+    targetMemberships = targetMemberships.filter((m) => !excludeMembershipIds.includes(m.id));
   }
 
-  if (targetMembershipIds.length === 0) {
+  if (targetMemberships.length === 0) {
+    if (suppression) {
+      await logPushNotification(tenant_id, notification_type, 0, 0, 0, { suppression });
+    }
     return { success: true, sent: 0, failed: 0, errors: [] };
   }
 
-  // Get device tokens for target memberships
-  const tokens = await getDeviceTokens(tenant_id, recipients.user_ids);
-  const validTokens = tokens.filter((t) => targetMembershipIds.some((id) => id === t.user_id));
+  const targetUserIds = targetMemberships.map((m) => m.user_id);
+
+  // Mirror the push into each recipient's inbox
+  await createInboxNotifications(tenant_id, targetUserIds, notification_type, payload);
+
+  // Get device tokens for target users
+  const validTokens = await getDeviceTokens(tenant_id, targetUserIds);
 
   if (validTokens.length === 0) {
+    if (suppression) {
+      await logPushNotification(tenant_id, notification_type, 0, 0, 0, { suppression });
+    }
     return { success: true, sent: 0, failed: 0, errors: [] };
   }
 
@@ -429,7 +590,12 @@ async function handleSendPush(request: SendPushRequest): Promise<{
     validTokens.length,
     sentCount,
     failedCount,
-    errors.length > 0 ? { errors, invalidTokens } : null
+    errors.length > 0 || suppression
+      ? {
+          ...(errors.length > 0 ? { errors, invalidTokens } : {}),
+          ...(suppression ? { suppression } : {}),
+        }
+      : null
   );
 
   return {
@@ -551,6 +717,8 @@ export type {
   Membership,
   SendPushRequest,
   NotificationType,
+  NotificationPreferenceCategory,
+  SuppressionSummary,
   NotificationPayload,
   NotificationOptions,
   ExpoPushMessage,
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Enable Realtime for Prayer Cards
+-- ============================================================================
+-- This migration adds prayer_cards and prayer_card_recipients to the
+-- supabase_realtime publication so the prayer tab can receive live inserts
+-- and updates (e.g. a card being marked as answered).
+--
+-- Realtime respects RLS, so clients only receive changes for prayer cards
+-- they are allowed to see. Recipient rows are published as well because a
+-- small group or individual card only becomes visible to its recipients once
+-- its prayer_card_recipients rows exist.
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE prayer_cards;
+ALTER PUBLICATION supabase_realtime ADD TABLE prayer_card_recipients;
+
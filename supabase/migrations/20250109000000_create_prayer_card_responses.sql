@@ -0,0 +1,112 @@
+-- ============================================================================
+-- Prayer Card Responses (Answered-Prayer Testimonies)
+-- ============================================================================
+-- This migration adds the prayer_card_responses table, which stores the
+-- testimonies members write about how a prayer was answered.
+--
+-- Visibility follows the parent prayer card's recipient scope:
+-- 1. The prayer card author can always see responses
+-- 2. Church-wide cards: all active members of the tenant
+-- 3. Individual cards: explicit recipients
+-- 4. Small group cards: members of the recipient small group(s)
+--
+-- Anyone who can see a prayer card can add a testimony to it; authors can
+-- edit or delete only their own testimonies.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE prayer_card_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  prayer_card_id UUID NOT NULL REFERENCES prayer_cards(id) ON DELETE CASCADE,
+  author_id UUID NOT NULL REFERENCES memberships(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 1000),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_prayer_card_responses_prayer_card_created
+  ON prayer_card_responses(prayer_card_id, created_at);
+CREATE INDEX idx_prayer_card_responses_tenant_id ON prayer_card_responses(tenant_id);
+CREATE INDEX idx_prayer_card_responses_author_id ON prayer_card_responses(author_id);
+
+CREATE TRIGGER set_prayer_card_responses_updated_at
+  BEFORE UPDATE ON prayer_card_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE prayer_card_responses ENABLE ROW LEVEL SECURITY;
+
+-- Live updates on the prayer detail screen
+ALTER PUBLICATION supabase_realtime ADD TABLE prayer_card_responses;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Users can view responses on prayer cards they can see (mirrors prayer_cards)
+CREATE POLICY "Users can view prayer card responses"
+  ON prayer_card_responses FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM prayer_cards pc
+      JOIN memberships m ON m.tenant_id = pc.tenant_id AND m.user_id = auth.uid() AND m.status = 'active'
+      WHERE pc.id = prayer_card_responses.prayer_card_id
+        AND pc.tenant_id = prayer_card_responses.tenant_id
+        AND (
+          -- Author can always see their own
+          pc.author_id = m.id
+          -- Church-wide: all members
+          OR pc.recipient_scope = 'church_wide'
+          -- Individual: user is explicit recipient
+          OR (pc.recipient_scope = 'individual' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_membership_id = m.id
+          ))
+          -- Small group: user is in the recipient group
+          OR (pc.recipient_scope = 'small_group' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_small_group_id = m.small_group_id
+          ))
+        )
+    )
+  );
+
+-- Users can add responses to prayer cards they can see
+CREATE POLICY "Users can create prayer card responses"
+  ON prayer_card_responses FOR INSERT
+  WITH CHECK (
+    author_id = get_user_membership(tenant_id)
+    AND EXISTS (
+      SELECT 1 FROM prayer_cards pc
+      JOIN memberships m ON m.tenant_id = pc.tenant_id AND m.id = prayer_card_responses.author_id
+      WHERE pc.id = prayer_card_responses.prayer_card_id
+        AND pc.tenant_id = prayer_card_responses.tenant_id
+        AND (
+          pc.author_id = m.id
+          OR pc.recipient_scope = 'church_wide'
+          OR (pc.recipient_scope = 'individual' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_membership_id = m.id
+          ))
+          OR (pc.recipient_scope = 'small_group' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_small_group_id = m.small_group_id
+          ))
+        )
+    )
+  );
+
+-- Authors can update their own responses
+CREATE POLICY "Authors can update own prayer card responses"
+  ON prayer_card_responses FOR UPDATE
+  USING (author_id = get_user_membership(tenant_id))
+  WITH CHECK (author_id = get_user_membership(tenant_id));
+
+-- Authors can delete their own responses
+CREATE POLICY "Authors can delete own prayer card responses"
+  ON prayer_card_responses FOR DELETE
+  USING (author_id = get_user_membership(tenant_id));
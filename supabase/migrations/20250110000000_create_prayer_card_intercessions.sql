@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Prayer Card Intercessions ("I prayed for this")
+-- ============================================================================
+-- This migration adds the prayer_card_intercessions table, which records that
+-- a member prayed for a prayer card. There is one row per member per card;
+-- praying again updates the row (last prayed time and accumulated duration).
+--
+-- notified_at tracks whether the card author has been told about the
+-- intercession. handle-prayer-intercession batches pending rows into a single
+-- push and stamps them, so authors are not notified once per tap.
+--
+-- Visibility follows the parent prayer card's recipient scope, the same as
+-- prayer_card_responses.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE prayer_card_intercessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  prayer_card_id UUID NOT NULL REFERENCES prayer_cards(id) ON DELETE CASCADE,
+  membership_id UUID NOT NULL REFERENCES memberships(id) ON DELETE CASCADE,
+  duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds >= 0),
+  prayed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (prayer_card_id, membership_id)
+);
+
+CREATE INDEX idx_prayer_card_intercessions_tenant_id ON prayer_card_intercessions(tenant_id);
+CREATE INDEX idx_prayer_card_intercessions_membership_id ON prayer_card_intercessions(membership_id);
+CREATE INDEX idx_prayer_card_intercessions_pending
+  ON prayer_card_intercessions(prayer_card_id)
+  WHERE notified_at IS NULL;
+
+CREATE TRIGGER set_prayer_card_intercessions_updated_at
+  BEFORE UPDATE ON prayer_card_intercessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE prayer_card_intercessions ENABLE ROW LEVEL SECURITY;
+
+-- Live "N people prayed" counts on the prayer detail screen
+ALTER PUBLICATION supabase_realtime ADD TABLE prayer_card_intercessions;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Users can view intercessions on prayer cards they can see (mirrors prayer_cards)
+CREATE POLICY "Users can view prayer card intercessions"
+  ON prayer_card_intercessions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM prayer_cards pc
+      JOIN memberships m ON m.tenant_id = pc.tenant_id AND m.user_id = auth.uid() AND m.status = 'active'
+      WHERE pc.id = prayer_card_intercessions.prayer_card_id
+        AND pc.tenant_id = prayer_card_intercessions.tenant_id
+        AND (
+          pc.author_id = m.id
+          OR pc.recipient_scope = 'church_wide'
+          OR (pc.recipient_scope = 'individual' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_membership_id = m.id
+          ))
+          OR (pc.recipient_scope = 'small_group' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_small_group_id = m.small_group_id
+          ))
+        )
+    )
+  );
+
+-- Users can record their own intercession on prayer cards they can see
+CREATE POLICY "Users can create prayer card intercessions"
+  ON prayer_card_intercessions FOR INSERT
+  WITH CHECK (
+    membership_id = get_user_membership(tenant_id)
+    AND EXISTS (
+      SELECT 1 FROM prayer_cards pc
+      JOIN memberships m ON m.tenant_id = pc.tenant_id AND m.id = prayer_card_intercessions.membership_id
+      WHERE pc.id = prayer_card_intercessions.prayer_card_id
+        AND pc.tenant_id = prayer_card_intercessions.tenant_id
+        AND (
+          pc.author_id = m.id
+          OR pc.recipient_scope = 'church_wide'
+          OR (pc.recipient_scope = 'individual' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_membership_id = m.id
+          ))
+          OR (pc.recipient_scope = 'small_group' AND EXISTS (
+            SELECT 1 FROM prayer_card_recipients pcr
+            WHERE pcr.prayer_card_id = pc.id AND pcr.recipient_small_group_id = m.small_group_id
+          ))
+        )
+    )
+  );
+
+-- Users can update their own intercession (praying again)
+CREATE POLICY "Users can update own prayer card intercessions"
+  ON prayer_card_intercessions FOR UPDATE
+  USING (membership_id = get_user_membership(tenant_id))
+  WITH CHECK (membership_id = get_user_membership(tenant_id));
+
+-- Users can remove their own intercession
+CREATE POLICY "Users can delete own prayer card intercessions"
+  ON prayer_card_intercessions FOR DELETE
+  USING (membership_id = get_user_membership(tenant_id));
+
+-- ----------------------------------------------------------------------------
+-- Notification type
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('new_message', 'mention', 'prayer_answered', 'prayer_intercession', 'pastoral_journal_submitted', 'pastoral_journal_forwarded', 'pastoral_journal_confirmed', 'system'));
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- Prayer Card Urgency
+-- ============================================================================
+-- Urgency used to be inferred from "[긴급]" markers in the card content. This
+-- migration makes it a real column so the urgent view can filter server-side
+-- and urgent cards can be delivered as high-priority pushes (see
+-- handle-prayer-card-created, which uses the new 'new_prayer_card' type).
+-- ============================================================================
+
+ALTER TABLE prayer_cards
+ADD COLUMN is_urgent BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN prayer_cards.is_urgent IS 'Urgent prayer request; delivered with high push priority and shown in the urgent view';
+
+-- Backfill from the legacy content markers and strip the leading prefix
+UPDATE prayer_cards
+SET is_urgent = TRUE
+WHERE content LIKE '%[긴급]%' OR content LIKE '%긴급기도%';
+
+UPDATE prayer_cards
+SET content = regexp_replace(content, '^\[긴급\]\s*', '')
+WHERE is_urgent AND content ~ '^\[긴급\]\s*\S';
+
+-- Urgent view: newest urgent cards per tenant
+CREATE INDEX idx_prayer_cards_tenant_urgent
+  ON prayer_cards(tenant_id, created_at DESC)
+  WHERE is_urgent;
+
+-- ----------------------------------------------------------------------------
+-- Notification type for new prayer card pushes
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('new_message', 'mention', 'prayer_answered', 'prayer_intercession', 'new_prayer_card', 'pastoral_journal_submitted', 'pastoral_journal_forwarded', 'pastoral_journal_confirmed', 'system'));
@@ -0,0 +1,50 @@
+-- ============================================================================
+-- Conversation Mute and Quiet Hours
+-- ============================================================================
+-- Adds per-conversation mute on conversation_participants and a per-user
+-- quiet-hours schedule. handle-message-sent skips muted participants and
+-- users inside their quiet hours for regular messages; mentions still go
+-- through unless the user turns off the new "mentions" preference.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Per-conversation mute
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE conversation_participants
+ADD COLUMN muted BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN muted_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN conversation_participants.muted IS 'Participant muted push notifications for this conversation';
+COMMENT ON COLUMN conversation_participants.muted_until IS 'When the mute expires; NULL while muted means until unmuted';
+
+-- ----------------------------------------------------------------------------
+-- Quiet hours (evaluated in the user''s own time zone)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE users
+ADD COLUMN quiet_hours_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+ADD COLUMN quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+ADD COLUMN quiet_hours_timezone TEXT NOT NULL DEFAULT 'UTC';
+
+COMMENT ON COLUMN users.quiet_hours_start IS 'Local start of quiet hours; may be after quiet_hours_end for overnight windows';
+COMMENT ON COLUMN users.quiet_hours_timezone IS 'IANA time zone used to evaluate quiet hours (e.g. Asia/Seoul)';
+
+-- ----------------------------------------------------------------------------
+-- Mention notification preference
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE users
+ALTER COLUMN notification_preferences SET DEFAULT '{
+  "messages": true,
+  "mentions": true,
+  "prayers": true,
+  "journals": true,
+  "system": true
+}'::jsonb;
+
+UPDATE users
+SET notification_preferences = notification_preferences || '{"mentions": true}'::jsonb
+WHERE notification_preferences IS NOT NULL
+  AND NOT notification_preferences ? 'mentions';
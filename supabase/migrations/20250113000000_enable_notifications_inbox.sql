@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Notification Inbox
+-- ============================================================================
+-- send-push-notification now writes one notifications row per recipient so
+-- the in-app inbox mirrors every push. Rows are inserted with the service
+-- role; users can read, mark read, and delete their own rows.
+-- ============================================================================
+
+-- Users can delete their own notifications (swipe-to-delete in the inbox)
+CREATE POLICY "Users can delete own notifications"
+  ON notifications FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Unread badge lookups per tenant
+CREATE INDEX idx_notifications_user_tenant_unread
+  ON notifications(user_id, tenant_id, created_at DESC)
+  WHERE NOT read;
+
+-- Enable realtime so inbox and badges update as pushes arrive
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Global Search Indexes
+-- ============================================================================
+-- The search tab runs substring ILIKE queries over messages, prayer cards,
+-- pastoral journals, member names, and attachment file names. Trigram (GIN)
+-- indexes serve those queries for Korean and English alike; stemming-based
+-- full text search would split Korean words incorrectly.
+--
+-- Queries still run through PostgREST as the signed-in user, so existing
+-- RLS policies decide which rows are returned. Queries shorter than three
+-- characters cannot use a trigram index and fall back to the tenant indexes.
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- ----------------------------------------------------------------------------
+-- Trigram indexes
+-- ----------------------------------------------------------------------------
+
+CREATE INDEX idx_messages_content_trgm
+  ON messages USING GIN (content extensions.gin_trgm_ops)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_prayer_cards_content_trgm
+  ON prayer_cards USING GIN (content extensions.gin_trgm_ops);
+
+CREATE INDEX idx_pastoral_journals_content_trgm
+  ON pastoral_journals USING GIN (content extensions.gin_trgm_ops);
+
+CREATE INDEX idx_users_display_name_trgm
+  ON users USING GIN (display_name extensions.gin_trgm_ops);
+
+CREATE INDEX idx_attachments_file_name_trgm
+  ON attachments USING GIN (file_name extensions.gin_trgm_ops);
@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Get or Create Direct Conversation
+-- ============================================================================
+-- Contacts open a 1:1 chat with a member. A direct conversation is only
+-- visible to its participants, so a client cannot insert one and read it
+-- back before both participant rows exist. This function does the lookup and
+-- creation in one step and returns the conversation ID.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_or_create_direct_conversation(
+  p_tenant_id UUID,
+  p_other_membership_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_membership_id UUID;
+  v_conversation_id UUID;
+BEGIN
+  v_membership_id := get_user_membership(p_tenant_id);
+
+  IF v_membership_id IS NULL THEN
+    RAISE EXCEPTION 'Not an active member of this tenant';
+  END IF;
+
+  IF p_other_membership_id = v_membership_id THEN
+    RAISE EXCEPTION 'Cannot start a direct conversation with yourself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE id = p_other_membership_id
+      AND tenant_id = p_tenant_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Recipient is not an active member of this tenant';
+  END IF;
+
+  -- Reuse an existing 1:1 conversation between the two members
+  SELECT c.id INTO v_conversation_id
+  FROM conversations c
+  WHERE c.tenant_id = p_tenant_id
+    AND c.type = 'direct'
+    AND EXISTS (
+      SELECT 1 FROM conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.membership_id = v_membership_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.membership_id = p_other_membership_id
+    )
+    AND (
+      SELECT COUNT(*) FROM conversation_participants cp
+      WHERE cp.conversation_id = c.id
+    ) = 2
+  ORDER BY c.created_at
+  LIMIT 1;
+
+  IF v_conversation_id IS NOT NULL THEN
+    RETURN v_conversation_id;
+  END IF;
+
+  INSERT INTO conversations (tenant_id, type)
+  VALUES (p_tenant_id, 'direct')
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, membership_id)
+  VALUES
+    (v_conversation_id, v_membership_id),
+    (v_conversation_id, p_other_membership_id);
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_or_create_direct_conversation(UUID, UUID) TO authenticated;
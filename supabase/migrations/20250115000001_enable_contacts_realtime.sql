@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Enable Realtime for Contacts
+-- ============================================================================
+-- This migration adds the tables behind the contacts directory to the
+-- supabase_realtime publication so member counts and group lists refresh when
+-- someone joins, leaves, or moves between small groups and ministries.
+--
+-- Realtime respects RLS, so clients only receive changes for rows in tenants
+-- they belong to. ministry_memberships has no tenant_id column, so clients
+-- subscribe to it without a filter and rely on RLS alone.
+-- ============================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE memberships;
+ALTER PUBLICATION supabase_realtime ADD TABLE small_groups;
+ALTER PUBLICATION supabase_realtime ADD TABLE zones;
+ALTER PUBLICATION supabase_realtime ADD TABLE ministries;
+ALTER PUBLICATION supabase_realtime ADD TABLE ministry_memberships;
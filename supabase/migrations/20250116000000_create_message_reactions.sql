@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Message Reactions
+-- ============================================================================
+-- This migration adds the message_reactions table. A member can add several
+-- different emoji to a message, but each emoji only once. Emoji are stored as
+-- the shortcodes the chat EmojiPicker emits (e.g. ':heart:', ':prayer:').
+--
+-- conversation_id is copied onto each reaction so the chat screen can
+-- subscribe to reaction changes for one conversation with a realtime filter.
+-- The insert policy checks that it matches the reacted message.
+--
+-- Visibility follows the parent message: the messages RLS policy applies to
+-- the subqueries below, so reactions on Event Chat messages a member is
+-- excluded from stay hidden from that member as well.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  membership_id UUID NOT NULL REFERENCES memberships(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 64),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (message_id, membership_id, emoji)
+);
+
+CREATE INDEX idx_message_reactions_tenant_id ON message_reactions(tenant_id);
+CREATE INDEX idx_message_reactions_conversation_id ON message_reactions(conversation_id);
+CREATE INDEX idx_message_reactions_message_id ON message_reactions(message_id);
+CREATE INDEX idx_message_reactions_membership_id ON message_reactions(membership_id);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Live reaction chips in the chat screen
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Users can view reactions on messages they can see
+CREATE POLICY "Users can view message reactions"
+  ON message_reactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = message_reactions.message_id
+        AND msg.tenant_id = message_reactions.tenant_id
+    )
+  );
+
+-- Users can add their own reactions to messages they can see
+CREATE POLICY "Users can create message reactions"
+  ON message_reactions FOR INSERT
+  WITH CHECK (
+    membership_id = get_user_membership(tenant_id)
+    AND EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = message_reactions.message_id
+        AND msg.tenant_id = message_reactions.tenant_id
+        AND msg.conversation_id = message_reactions.conversation_id
+    )
+  );
+
+-- Users can remove their own reactions
+CREATE POLICY "Users can delete own message reactions"
+  ON message_reactions FOR DELETE
+  USING (membership_id = get_user_membership(tenant_id));
@@ -0,0 +1,139 @@
+-- ============================================================================
+-- Message Editing and Deletion
+-- ============================================================================
+-- Members can edit the text of their own messages and soft-delete their own
+-- messages within a time window set per tenant in
+-- tenants.settings->>'message_edit_window_minutes' (default 15, 0 disables).
+--
+-- The rules are enforced by a trigger on messages, so they hold no matter
+-- which client path performs the update:
+-- - Editing a text message stores the previous content in message_edits and
+--   stamps edited_at. Only admins can read the edit history.
+-- - Setting deleted_at turns the row into a tombstone: the content is cleared
+--   and its reactions are removed. Tombstones stay visible so the chat can
+--   show "This message was deleted" in place.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE messages ADD COLUMN edited_at TIMESTAMPTZ;
+
+-- ----------------------------------------------------------------------------
+-- Edit History Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  edited_by UUID REFERENCES memberships(id) ON DELETE SET NULL,
+  previous_content TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_edits_tenant_id ON message_edits(tenant_id);
+CREATE INDEX idx_message_edits_message_id ON message_edits(message_id, created_at DESC);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can view edit history. Rows are written by the trigger below.
+CREATE POLICY "Admins can view message edits"
+  ON message_edits FOR SELECT
+  USING (has_role(tenant_id, 'admin'));
+
+-- ----------------------------------------------------------------------------
+-- Edit Window
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION get_message_edit_window(p_tenant_id UUID)
+RETURNS INTERVAL AS $$
+  SELECT make_interval(
+    mins => COALESCE((settings->>'message_edit_window_minutes')::INT, 15)
+  )
+  FROM tenants
+  WHERE id = p_tenant_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- ----------------------------------------------------------------------------
+-- Trigger
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION enforce_message_edit_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_edit BOOLEAN;
+  v_is_delete BOOLEAN;
+BEGIN
+  v_is_delete := OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL;
+  v_is_edit := NOT v_is_delete
+    AND OLD.content_type = 'text'
+    AND NEW.content IS DISTINCT FROM OLD.content;
+
+  IF NOT v_is_delete AND NOT v_is_edit THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message has been deleted';
+  END IF;
+
+  -- Service-role updates (auth.uid() IS NULL) are not limited by the window
+  IF auth.uid() IS NOT NULL
+    AND OLD.created_at + get_message_edit_window(OLD.tenant_id) < NOW() THEN
+    RAISE EXCEPTION 'Message can no longer be changed';
+  END IF;
+
+  IF v_is_delete THEN
+    NEW.content := NULL;
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM message_reactions WHERE message_id = OLD.id;
+  ELSE
+    INSERT INTO message_edits (tenant_id, message_id, edited_by, previous_content)
+    VALUES (OLD.tenant_id, OLD.id, get_user_membership(OLD.tenant_id), OLD.content);
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_messages_edit_rules
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_message_edit_rules();
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Tombstones stay visible; their content is cleared by the trigger above.
+DROP POLICY "Users can view messages" ON messages;
+
+CREATE POLICY "Users can view messages"
+  ON messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations c
+      JOIN memberships m ON m.tenant_id = c.tenant_id AND m.user_id = auth.uid() AND m.status = 'active'
+      WHERE c.id = messages.conversation_id
+        AND (
+          c.type = 'church_wide'
+          OR (c.type = 'small_group' AND m.small_group_id = c.small_group_id)
+          OR (c.type = 'ministry' AND EXISTS (
+            SELECT 1 FROM ministry_memberships mm WHERE mm.membership_id = m.id AND mm.ministry_id = c.ministry_id
+          ))
+          OR (c.type = 'direct' AND EXISTS (
+            SELECT 1 FROM conversation_participants cp WHERE cp.conversation_id = c.id AND cp.membership_id = m.id
+          ))
+        )
+        -- Exclude Event Chat messages where user is excluded
+        AND NOT (
+          messages.is_event_chat = TRUE AND EXISTS (
+            SELECT 1 FROM event_chat_exclusions ece
+            WHERE ece.message_id = messages.id AND ece.excluded_membership_id = m.id
+          )
+        )
+    )
+  );
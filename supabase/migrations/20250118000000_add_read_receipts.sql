@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Read Receipts
+-- ============================================================================
+-- Per-message read receipts are derived from
+-- conversation_participants.last_read_at: a message counts as read by a
+-- participant once their last_read_at is at or after its created_at.
+--
+-- The chat screen advances last_read_at to the newest message scrolled into
+-- view. mark_conversation_read only moves the marker forward, so scrolling
+-- back through history (or a slower device) never un-reads messages.
+-- Participant rows are published to realtime so receipts update live.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Mark Conversation Read
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(
+  p_conversation_id UUID,
+  p_read_at TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_last_read_at TIMESTAMPTZ;
+BEGIN
+  -- GREATEST ignores NULL, so a first read sets the marker directly
+  UPDATE conversation_participants cp
+  SET last_read_at = GREATEST(cp.last_read_at, LEAST(p_read_at, NOW()))
+  FROM conversations c
+  WHERE c.id = cp.conversation_id
+    AND cp.conversation_id = p_conversation_id
+    AND cp.membership_id = get_user_membership(c.tenant_id)
+  RETURNING cp.last_read_at INTO v_last_read_at;
+
+  RETURN v_last_read_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_conversation_read(UUID, TIMESTAMPTZ) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Realtime
+-- ----------------------------------------------------------------------------
+
+ALTER PUBLICATION supabase_realtime ADD TABLE conversation_participants;
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- Message Keyset Pagination Indexes
+-- ============================================================================
+-- Message and thread history are paged with a (created_at, id) cursor instead
+-- of OFFSET, so new messages can't shift rows between pages and deep pages
+-- don't scan every row before them. The id column breaks ties between
+-- messages created in the same instant.
+--
+-- Conversation history only lists top-level messages and thread history only
+-- lists replies, so each index is partial on parent_id.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Conversation History
+-- ----------------------------------------------------------------------------
+
+CREATE INDEX idx_messages_conversation_keyset
+  ON messages(conversation_id, created_at DESC, id DESC)
+  WHERE parent_id IS NULL;
+
+-- ----------------------------------------------------------------------------
+-- Thread History
+-- ----------------------------------------------------------------------------
+
+CREATE INDEX idx_messages_thread_keyset
+  ON messages(parent_id, created_at, id)
+  WHERE parent_id IS NOT NULL;
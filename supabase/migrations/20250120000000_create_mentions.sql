@@ -0,0 +1,89 @@
+-- ============================================================================
+-- Mentions
+-- ============================================================================
+-- This migration adds the mentions table read by handle-message-sent to send
+-- mention notifications. Each row references a message and either one
+-- mentioned membership (mention_type 'member') or a group:
+--   - 'all': every participant of the conversation
+--   - 'leaders': participants with a leader role (small_group_leader and up)
+-- Group mentions have no membership_id; handle-message-sent expands them to
+-- participants when the message is sent. Only leaders can create them.
+--
+-- The message text keeps the readable "@Name" token; rows are written by the
+-- sender right after the message (like Event Chat exclusions), so renaming a
+-- member doesn't change who was mentioned.
+--
+-- Visibility follows the parent message: the messages RLS policy applies to
+-- the subqueries below, so mentions in Event Chat messages a member is
+-- excluded from stay hidden from that member as well.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  membership_id UUID REFERENCES memberships(id) ON DELETE CASCADE,
+  mention_type TEXT NOT NULL DEFAULT 'member' CHECK (mention_type IN ('member', 'all', 'leaders')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((mention_type = 'member') = (membership_id IS NOT NULL))
+);
+
+-- A member or group is mentioned at most once per message
+CREATE UNIQUE INDEX idx_mentions_message_member
+  ON mentions(message_id, membership_id)
+  WHERE membership_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_mentions_message_group
+  ON mentions(message_id, mention_type)
+  WHERE membership_id IS NULL;
+
+CREATE INDEX idx_mentions_tenant_id ON mentions(tenant_id);
+CREATE INDEX idx_mentions_membership_id ON mentions(membership_id);
+
+ALTER TABLE mentions ENABLE ROW LEVEL SECURITY;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Users can view mentions in messages they can see
+CREATE POLICY "Users can view mentions"
+  ON mentions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = mentions.message_id
+        AND msg.tenant_id = mentions.tenant_id
+    )
+  );
+
+-- Senders can mention participants of the conversation in their own messages;
+-- @all and @leaders are limited to leaders
+CREATE POLICY "Senders can create mentions"
+  ON mentions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = mentions.message_id
+        AND msg.tenant_id = mentions.tenant_id
+        AND msg.sender_id = get_user_membership(mentions.tenant_id)
+    )
+    AND (
+      (
+        mention_type = 'member'
+        AND EXISTS (
+          SELECT 1 FROM messages msg
+          JOIN conversation_participants cp ON cp.conversation_id = msg.conversation_id
+          WHERE msg.id = mentions.message_id
+            AND cp.membership_id = mentions.membership_id
+        )
+      )
+      OR (
+        mention_type IN ('all', 'leaders')
+        AND has_role(mentions.tenant_id, 'small_group_leader')
+      )
+    )
+  );
@@ -0,0 +1,179 @@
+-- ============================================================================
+-- Pinned Messages
+-- ============================================================================
+-- This migration adds the pinned_messages table so leaders can keep a few
+-- messages (the meeting address, the weekly passage) at the top of a
+-- conversation. Members with small_group_leader or a higher role can pin and
+-- unpin; everyone who can see the message can see the pin.
+--
+-- A conversation holds at most 3 pins, enforced by a trigger. Pinning and
+-- unpinning post a 'system' message to the conversation, written by a
+-- trigger so the notice can't be skipped by a client. System messages are
+-- plain text, so the notice is written in the locale of the member who
+-- pinned. It never quotes the pinned message, so pins on Event Chat messages
+-- don't leak their content to excluded members.
+--
+-- Deleting a message removes its pin without posting a notice.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE pinned_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  pinned_by UUID REFERENCES memberships(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (message_id)
+);
+
+CREATE INDEX idx_pinned_messages_tenant_id ON pinned_messages(tenant_id);
+CREATE INDEX idx_pinned_messages_conversation_id ON pinned_messages(conversation_id, created_at DESC);
+
+ALTER TABLE pinned_messages ENABLE ROW LEVEL SECURITY;
+
+-- Live pin banner in the chat screen
+ALTER PUBLICATION supabase_realtime ADD TABLE pinned_messages;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Users can view pins on messages they can see
+CREATE POLICY "Users can view pinned messages"
+  ON pinned_messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = pinned_messages.message_id
+        AND msg.tenant_id = pinned_messages.tenant_id
+    )
+  );
+
+-- Leaders can pin messages they can see, as themselves
+CREATE POLICY "Leaders can pin messages"
+  ON pinned_messages FOR INSERT
+  WITH CHECK (
+    has_role(tenant_id, 'small_group_leader')
+    AND pinned_by = get_user_membership(tenant_id)
+    AND EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = pinned_messages.message_id
+        AND msg.tenant_id = pinned_messages.tenant_id
+        AND msg.conversation_id = pinned_messages.conversation_id
+        AND msg.deleted_at IS NULL
+        AND msg.content_type <> 'system'
+    )
+  );
+
+-- Leaders can unpin messages they can see
+CREATE POLICY "Leaders can unpin messages"
+  ON pinned_messages FOR DELETE
+  USING (
+    has_role(tenant_id, 'small_group_leader')
+    AND EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = pinned_messages.message_id
+        AND msg.tenant_id = pinned_messages.tenant_id
+    )
+  );
+
+-- ----------------------------------------------------------------------------
+-- Pin Limit
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION enforce_pinned_message_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Serialize pins per conversation so two leaders can't both take the last slot
+  PERFORM 1 FROM conversations WHERE id = NEW.conversation_id FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM pinned_messages WHERE conversation_id = NEW.conversation_id) >= 3 THEN
+    RAISE EXCEPTION 'Pin limit reached' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_pinned_messages_limit
+  BEFORE INSERT ON pinned_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_pinned_message_limit();
+
+-- ----------------------------------------------------------------------------
+-- System Messages
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION post_pinned_message_notice()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_pin pinned_messages%ROWTYPE;
+  v_actor UUID;
+  v_name TEXT;
+  v_locale TEXT;
+  v_content TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_pin := NEW;
+  ELSE
+    v_pin := OLD;
+  END IF;
+
+  -- Pins removed along with a deleted message (or by the service role) are silent
+  v_actor := get_user_membership(v_pin.tenant_id);
+  IF v_actor IS NULL OR EXISTS (
+    SELECT 1 FROM messages WHERE id = v_pin.message_id AND deleted_at IS NOT NULL
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT u.display_name, u.locale INTO v_name, v_locale
+  FROM memberships m
+  JOIN users u ON u.id = m.user_id
+  WHERE m.id = v_actor;
+
+  IF v_locale = 'ko' THEN
+    v_content := COALESCE(v_name, '누군가') || CASE TG_OP
+      WHEN 'INSERT' THEN '님이 메시지를 고정했습니다'
+      ELSE '님이 메시지 고정을 해제했습니다'
+    END;
+  ELSE
+    v_content := COALESCE(v_name, 'Someone') || CASE TG_OP
+      WHEN 'INSERT' THEN ' pinned a message'
+      ELSE ' unpinned a message'
+    END;
+  END IF;
+
+  INSERT INTO messages (tenant_id, conversation_id, sender_id, content, content_type)
+  VALUES (v_pin.tenant_id, v_pin.conversation_id, v_actor, v_content, 'system');
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_pinned_messages_notice
+  AFTER INSERT OR DELETE ON pinned_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION post_pinned_message_notice();
+
+-- ----------------------------------------------------------------------------
+-- Unpin Deleted Messages
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION unpin_deleted_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM pinned_messages WHERE message_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER unpin_deleted_messages
+  AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION unpin_deleted_message();
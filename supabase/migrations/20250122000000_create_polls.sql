@@ -0,0 +1,275 @@
+-- ============================================================================
+-- Polls
+-- ============================================================================
+-- This migration adds polls as a chat message type. A poll message has
+-- content_type 'poll' and carries the question as its content; its settings
+-- and options live in polls / poll_options, and each member's choices in
+-- poll_votes.
+--
+-- - Single-choice polls keep one vote per member: voting for another option
+--   replaces the previous vote
+-- - Anonymous polls hide who voted for what: members only see their own votes
+-- - Votes can't be added or removed once closes_at has passed
+--
+-- Tallies are kept on poll_options.vote_count by a trigger so every member
+-- (including those who can't see anonymous votes) gets live counts through
+-- realtime. conversation_id is copied onto options so the chat screen can
+-- subscribe to tallies with a realtime filter.
+--
+-- create_poll() inserts the message, poll and options in one transaction
+-- under the caller's RLS, so a poll message never appears without options.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Content Type
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_content_type_check;
+ALTER TABLE messages ADD CONSTRAINT messages_content_type_check
+  CHECK (content_type IN ('text', 'image', 'prayer_card', 'system', 'poll'));
+
+-- ----------------------------------------------------------------------------
+-- Tables
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE polls (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  allows_multiple BOOLEAN NOT NULL DEFAULT FALSE,
+  is_anonymous BOOLEAN NOT NULL DEFAULT FALSE,
+  closes_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE poll_options (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  position INT NOT NULL,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  vote_count INT NOT NULL DEFAULT 0,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE poll_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  membership_id UUID NOT NULL REFERENCES memberships(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (option_id, membership_id)
+);
+
+CREATE INDEX idx_polls_tenant_id ON polls(tenant_id);
+CREATE INDEX idx_poll_options_tenant_id ON poll_options(tenant_id);
+CREATE INDEX idx_poll_options_conversation_id ON poll_options(conversation_id);
+CREATE INDEX idx_poll_votes_tenant_id ON poll_votes(tenant_id);
+CREATE INDEX idx_poll_votes_conversation_id ON poll_votes(conversation_id);
+CREATE INDEX idx_poll_votes_poll_membership ON poll_votes(poll_id, membership_id);
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Live tallies in the chat screen
+ALTER PUBLICATION supabase_realtime ADD TABLE poll_options;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Visibility follows the poll message; the messages RLS policy applies to the
+-- subqueries below, so Event Chat exclusions carry over.
+CREATE POLICY "Users can view polls"
+  ON polls FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = polls.message_id
+        AND msg.tenant_id = polls.tenant_id
+    )
+  );
+
+-- The sender of a poll message can attach its poll
+CREATE POLICY "Senders can create polls"
+  ON polls FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = polls.message_id
+        AND msg.tenant_id = polls.tenant_id
+        AND msg.conversation_id = polls.conversation_id
+        AND msg.content_type = 'poll'
+        AND msg.sender_id = get_user_membership(polls.tenant_id)
+    )
+  );
+
+CREATE POLICY "Users can view poll options"
+  ON poll_options FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM polls p
+      WHERE p.id = poll_options.poll_id
+        AND p.tenant_id = poll_options.tenant_id
+    )
+  );
+
+CREATE POLICY "Senders can create poll options"
+  ON poll_options FOR INSERT
+  WITH CHECK (
+    vote_count = 0
+    AND EXISTS (
+      SELECT 1 FROM polls p
+      JOIN messages msg ON msg.id = p.message_id
+      WHERE p.id = poll_options.poll_id
+        AND p.tenant_id = poll_options.tenant_id
+        AND p.conversation_id = poll_options.conversation_id
+        AND msg.sender_id = get_user_membership(poll_options.tenant_id)
+    )
+  );
+
+-- Members see their own votes, and everyone's votes on polls that aren't anonymous
+CREATE POLICY "Users can view poll votes"
+  ON poll_votes FOR SELECT
+  USING (
+    membership_id = get_user_membership(tenant_id)
+    OR EXISTS (
+      SELECT 1 FROM polls p
+      WHERE p.id = poll_votes.poll_id
+        AND p.tenant_id = poll_votes.tenant_id
+        AND NOT p.is_anonymous
+    )
+  );
+
+-- Members vote as themselves on open polls they can see
+CREATE POLICY "Users can vote in polls"
+  ON poll_votes FOR INSERT
+  WITH CHECK (
+    membership_id = get_user_membership(tenant_id)
+    AND EXISTS (
+      SELECT 1 FROM poll_options o
+      JOIN polls p ON p.id = o.poll_id
+      WHERE o.id = poll_votes.option_id
+        AND p.id = poll_votes.poll_id
+        AND p.tenant_id = poll_votes.tenant_id
+        AND p.conversation_id = poll_votes.conversation_id
+        AND (p.closes_at IS NULL OR p.closes_at > NOW())
+    )
+  );
+
+-- Members can take back their votes while the poll is open
+CREATE POLICY "Users can remove own poll votes"
+  ON poll_votes FOR DELETE
+  USING (
+    membership_id = get_user_membership(tenant_id)
+    AND EXISTS (
+      SELECT 1 FROM polls p
+      WHERE p.id = poll_votes.poll_id
+        AND (p.closes_at IS NULL OR p.closes_at > NOW())
+    )
+  );
+
+-- ----------------------------------------------------------------------------
+-- Votes
+-- ----------------------------------------------------------------------------
+
+-- Single-choice polls: a new vote replaces the member's previous one
+CREATE OR REPLACE FUNCTION replace_single_choice_vote()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT (SELECT allows_multiple FROM polls WHERE id = NEW.poll_id) THEN
+    DELETE FROM poll_votes
+    WHERE poll_id = NEW.poll_id
+      AND membership_id = NEW.membership_id
+      AND option_id <> NEW.option_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER replace_poll_votes_single_choice
+  BEFORE INSERT ON poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION replace_single_choice_vote();
+
+-- Keep option tallies in step with votes
+CREATE OR REPLACE FUNCTION update_poll_option_vote_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE poll_options SET vote_count = vote_count + 1 WHERE id = NEW.option_id;
+  ELSE
+    UPDATE poll_options SET vote_count = GREATEST(vote_count - 1, 0) WHERE id = OLD.option_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_poll_votes_count
+  AFTER INSERT OR DELETE ON poll_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_poll_option_vote_count();
+
+-- ----------------------------------------------------------------------------
+-- Create Poll
+-- ----------------------------------------------------------------------------
+
+-- Runs with the caller's permissions: the messages, polls and poll_options
+-- insert policies all apply.
+CREATE OR REPLACE FUNCTION create_poll(
+  p_conversation_id UUID,
+  p_question TEXT,
+  p_options TEXT[],
+  p_allows_multiple BOOLEAN DEFAULT FALSE,
+  p_is_anonymous BOOLEAN DEFAULT FALSE,
+  p_closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_tenant_id UUID;
+  v_message_id UUID;
+  v_poll_id UUID;
+  v_label TEXT;
+  v_position INT := 0;
+BEGIN
+  IF char_length(btrim(COALESCE(p_question, ''))) = 0 THEN
+    RAISE EXCEPTION 'Poll question is required';
+  END IF;
+
+  IF COALESCE(array_length(p_options, 1), 0) NOT BETWEEN 2 AND 10 THEN
+    RAISE EXCEPTION 'Polls need between 2 and 10 options';
+  END IF;
+
+  IF p_closes_at IS NOT NULL AND p_closes_at <= NOW() THEN
+    RAISE EXCEPTION 'Poll close time must be in the future';
+  END IF;
+
+  SELECT tenant_id INTO v_tenant_id FROM conversations WHERE id = p_conversation_id;
+  IF v_tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  INSERT INTO messages (tenant_id, conversation_id, sender_id, content, content_type)
+  VALUES (v_tenant_id, p_conversation_id, get_user_membership(v_tenant_id), btrim(p_question), 'poll')
+  RETURNING id INTO v_message_id;
+
+  INSERT INTO polls (tenant_id, conversation_id, message_id, allows_multiple, is_anonymous, closes_at)
+  VALUES (v_tenant_id, p_conversation_id, v_message_id, p_allows_multiple, p_is_anonymous, p_closes_at)
+  RETURNING id INTO v_poll_id;
+
+  FOREACH v_label IN ARRAY p_options LOOP
+    INSERT INTO poll_options (tenant_id, conversation_id, poll_id, position, label)
+    VALUES (v_tenant_id, p_conversation_id, v_poll_id, v_position, btrim(v_label));
+    v_position := v_position + 1;
+  END LOOP;
+
+  RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
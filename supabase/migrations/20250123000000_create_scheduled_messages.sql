@@ -0,0 +1,160 @@
+-- ============================================================================
+-- Scheduled Messages
+-- ============================================================================
+-- This migration adds the scheduled_messages table so leaders can write a
+-- message ahead of time (Saturday's reminder on Wednesday) and have it posted
+-- at a set time. Members with small_group_leader or a higher role can
+-- schedule text messages in conversations they can post in. Scheduled
+-- messages are private to their author until they are sent.
+--
+-- The publish-scheduled-messages Edge Function runs every minute. It claims
+-- due rows with claim_due_scheduled_messages() and inserts each one into
+-- messages as the author, so handle-message-sent notifications fire exactly
+-- as for a message sent live. Authors who can no longer post in the
+-- conversation when the time comes get a 'failed' row instead.
+--
+-- Authors can edit or cancel (delete) a row while it is pending or failed;
+-- editing a failed row schedules it again.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE scheduled_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES memberships(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(btrim(content)) BETWEEN 1 AND 2000),
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_scheduled_messages_tenant_id ON scheduled_messages(tenant_id);
+CREATE INDEX idx_scheduled_messages_conversation_sender
+  ON scheduled_messages(conversation_id, sender_id, scheduled_for);
+CREATE INDEX idx_scheduled_messages_due
+  ON scheduled_messages(scheduled_for) WHERE status = 'pending';
+
+CREATE TRIGGER set_scheduled_messages_updated_at
+  BEFORE UPDATE ON scheduled_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Live scheduled list in the chat screen (drops rows once they're sent)
+ALTER PUBLICATION supabase_realtime ADD TABLE scheduled_messages;
+
+-- ----------------------------------------------------------------------------
+-- Posting Access
+-- ----------------------------------------------------------------------------
+
+-- Whether a membership can post in a conversation. Mirrors the messages INSERT
+-- policy for a given membership instead of the current user, so the scheduler
+-- can check the author at send time.
+CREATE OR REPLACE FUNCTION can_post_in_conversation(p_membership_id UUID, p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations c
+    JOIN memberships m ON m.tenant_id = c.tenant_id AND m.id = p_membership_id AND m.status = 'active'
+    WHERE c.id = p_conversation_id
+      AND (
+        c.type = 'church_wide'
+        OR (c.type = 'small_group' AND m.small_group_id = c.small_group_id)
+        OR (c.type = 'ministry' AND EXISTS (
+          SELECT 1 FROM ministry_memberships mm WHERE mm.membership_id = m.id AND mm.ministry_id = c.ministry_id
+        ))
+        OR (c.type = 'direct' AND EXISTS (
+          SELECT 1 FROM conversation_participants cp WHERE cp.conversation_id = c.id AND cp.membership_id = m.id
+        ))
+      )
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+-- Authors can view their own scheduled messages
+CREATE POLICY "Users can view own scheduled messages"
+  ON scheduled_messages FOR SELECT
+  USING (sender_id = get_user_membership(tenant_id));
+
+-- Leaders can schedule messages in conversations they can post in
+CREATE POLICY "Leaders can schedule messages"
+  ON scheduled_messages FOR INSERT
+  WITH CHECK (
+    has_role(tenant_id, 'small_group_leader')
+    AND sender_id = get_user_membership(tenant_id)
+    AND status = 'pending'
+    AND message_id IS NULL
+    AND scheduled_for > NOW()
+    AND can_post_in_conversation(sender_id, conversation_id)
+  );
+
+-- Authors can edit pending or failed messages; saving schedules them again
+CREATE POLICY "Users can edit own scheduled messages"
+  ON scheduled_messages FOR UPDATE
+  USING (
+    sender_id = get_user_membership(tenant_id)
+    AND status IN ('pending', 'failed')
+  )
+  WITH CHECK (
+    sender_id = get_user_membership(tenant_id)
+    AND status = 'pending'
+    AND message_id IS NULL
+    AND scheduled_for > NOW()
+  );
+
+-- Authors can cancel messages that haven't been sent
+CREATE POLICY "Users can cancel own scheduled messages"
+  ON scheduled_messages FOR DELETE
+  USING (
+    sender_id = get_user_membership(tenant_id)
+    AND status IN ('pending', 'failed')
+  );
+
+-- ----------------------------------------------------------------------------
+-- Scheduler
+-- ----------------------------------------------------------------------------
+
+-- Claim due messages for publishing. Claimed rows move to 'sending', so edits,
+-- cancels, and overlapping scheduler runs can't touch them. Rows whose author
+-- can't post in the conversation anymore come back as 'failed' instead.
+CREATE OR REPLACE FUNCTION claim_due_scheduled_messages(p_limit INT DEFAULT 100)
+RETURNS SETOF scheduled_messages AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id FROM scheduled_messages
+    WHERE status = 'pending' AND scheduled_for <= NOW()
+    ORDER BY scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE scheduled_messages sm
+  SET
+    status = CASE
+      WHEN can_post_in_conversation(sm.sender_id, sm.conversation_id) THEN 'sending'
+      ELSE 'failed'
+    END,
+    error = CASE
+      WHEN can_post_in_conversation(sm.sender_id, sm.conversation_id) THEN NULL
+      ELSE 'sender_cannot_post'
+    END
+  FROM due
+  WHERE sm.id = due.id
+  RETURNING sm.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler (service role) claims messages
+REVOKE EXECUTE ON FUNCTION claim_due_scheduled_messages(INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_scheduled_messages(INT) TO service_role;
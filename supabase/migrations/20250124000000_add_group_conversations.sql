@@ -0,0 +1,428 @@
+-- ============================================================================
+-- Group Conversations and Participant Management
+-- ============================================================================
+-- Members can start conversations from the app instead of relying on seed
+-- data:
+-- - A direct conversation is a 1:1 chat. It is keyed by the pair of
+--   memberships (direct_key), so a pair never gets two of them, even when
+--   both members start the chat at the same time.
+-- - A group conversation is a 'direct' conversation with is_group set. It is
+--   visible to its participants like any direct conversation, can be renamed,
+--   and has participants added and removed over time.
+--
+-- Each participant of a group has a role. The creator starts as 'admin';
+-- admins can rename the group, add and remove participants, and promote or
+-- demote other participants. Everyone can leave a group. When the last admin
+-- leaves, the longest-standing participant becomes admin.
+--
+-- Conversations are created through get_or_create_direct_conversation and
+-- create_group_conversation only; participant changes go through the RLS
+-- policies on conversation_participants below.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE conversations
+ADD COLUMN is_group BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN direct_key TEXT,
+ADD CONSTRAINT conversations_group_is_direct CHECK (NOT is_group OR type = 'direct'),
+ADD CONSTRAINT conversations_direct_key_is_direct CHECK (
+  direct_key IS NULL OR (type = 'direct' AND NOT is_group)
+);
+
+COMMENT ON COLUMN conversations.is_group IS 'Direct conversation with a managed participant list';
+COMMENT ON COLUMN conversations.direct_key IS 'Sorted membership pair of a 1:1 conversation, "<id>:<id>"';
+
+CREATE UNIQUE INDEX idx_conversations_direct_key
+  ON conversations(tenant_id, direct_key) WHERE direct_key IS NOT NULL;
+
+ALTER TABLE conversation_participants
+ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member'));
+
+COMMENT ON COLUMN conversation_participants.role IS 'Group conversation role; admins manage the group';
+
+-- ----------------------------------------------------------------------------
+-- Backfill
+-- ----------------------------------------------------------------------------
+
+-- Keep the conversation list order while backfilling
+ALTER TABLE conversations DISABLE TRIGGER set_conversations_updated_at;
+
+-- Existing direct conversations with more than two participants are groups
+UPDATE conversations c
+SET is_group = TRUE
+WHERE c.type = 'direct'
+  AND (
+    SELECT COUNT(*) FROM conversation_participants cp
+    WHERE cp.conversation_id = c.id
+  ) > 2;
+
+-- Key existing 1:1 conversations. Earlier duplicates keep working but only the
+-- oldest conversation of a pair is reused.
+WITH pairs AS (
+  SELECT
+    c.id,
+    c.tenant_id,
+    c.created_at,
+    MIN(cp.membership_id::TEXT) || ':' || MAX(cp.membership_id::TEXT) AS direct_key
+  FROM conversations c
+  JOIN conversation_participants cp ON cp.conversation_id = c.id
+  WHERE c.type = 'direct' AND NOT c.is_group
+  GROUP BY c.id
+  HAVING COUNT(*) = 2
+),
+ranked AS (
+  SELECT
+    id,
+    direct_key,
+    ROW_NUMBER() OVER (PARTITION BY tenant_id, direct_key ORDER BY created_at, id) AS position
+  FROM pairs
+)
+UPDATE conversations c
+SET direct_key = ranked.direct_key
+FROM ranked
+WHERE c.id = ranked.id AND ranked.position = 1;
+
+ALTER TABLE conversations ENABLE TRIGGER set_conversations_updated_at;
+
+-- The longest-standing participant of each existing group becomes its admin
+UPDATE conversation_participants
+SET role = 'admin'
+WHERE id IN (
+  SELECT DISTINCT ON (cp.conversation_id) cp.id
+  FROM conversation_participants cp
+  JOIN conversations c ON c.id = cp.conversation_id
+  WHERE c.is_group
+  ORDER BY cp.conversation_id, cp.created_at, cp.id
+);
+
+-- ----------------------------------------------------------------------------
+-- Group Access
+-- ----------------------------------------------------------------------------
+
+-- Whether a conversation is a group conversation. Used by the participant
+-- policies, which can't read conversations through RLS without recursing.
+CREATE OR REPLACE FUNCTION is_group_conversation(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = p_conversation_id AND is_group
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- Whether the current user is an admin of a group conversation
+CREATE OR REPLACE FUNCTION is_group_conversation_admin(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversation_participants cp
+    JOIN conversations c ON c.id = cp.conversation_id AND c.is_group
+    JOIN memberships m ON m.id = cp.membership_id
+    WHERE cp.conversation_id = p_conversation_id
+      AND cp.role = 'admin'
+      AND m.user_id = auth.uid()
+      AND m.status = 'active'
+  );
+$$ LANGUAGE sql SECURITY DEFINER STABLE SET search_path = public;
+
+-- ----------------------------------------------------------------------------
+-- Conversation Policies
+-- ----------------------------------------------------------------------------
+
+-- Conversations are created through the functions below
+DROP POLICY "Users can create direct conversations" ON conversations;
+
+-- Admins can rename their group conversations. The trigger below keeps every
+-- other column as it was.
+CREATE POLICY "Group admins can update group conversations"
+  ON conversations FOR UPDATE
+  USING (is_group AND is_group_conversation_admin(id))
+  WITH CHECK (is_group AND is_group_conversation_admin(id));
+
+CREATE OR REPLACE FUNCTION enforce_conversation_update_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_name TEXT;
+BEGIN
+  -- Service-role updates are not limited
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_name := NULLIF(btrim(NEW.name), '');
+
+  IF char_length(v_name) > 100 THEN
+    RAISE EXCEPTION 'Conversation name must be at most 100 characters';
+  END IF;
+
+  NEW := OLD;
+  NEW.name := v_name;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_conversations_update_rules
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_conversation_update_rules();
+
+-- ----------------------------------------------------------------------------
+-- Participant Policies
+-- ----------------------------------------------------------------------------
+
+-- Participants are only added to groups, by their admins, from the same tenant
+DROP POLICY "Users can add conversation participants" ON conversation_participants;
+
+CREATE POLICY "Group admins can add participants"
+  ON conversation_participants FOR INSERT
+  WITH CHECK (
+    is_group_conversation_admin(conversation_id)
+    AND role = 'member'
+    AND EXISTS (
+      SELECT 1 FROM conversations c
+      JOIN memberships m ON m.tenant_id = c.tenant_id
+      WHERE c.id = conversation_participants.conversation_id
+        AND m.id = conversation_participants.membership_id
+        AND m.status = 'active'
+    )
+  );
+
+-- Admins can promote and demote participants of their groups
+CREATE POLICY "Group admins can update participants"
+  ON conversation_participants FOR UPDATE
+  USING (is_group_conversation_admin(conversation_id))
+  WITH CHECK (is_group_conversation_admin(conversation_id));
+
+-- Members can leave group conversations
+CREATE POLICY "Users can leave group conversations"
+  ON conversation_participants FOR DELETE
+  USING (
+    is_group_conversation(conversation_id)
+    AND EXISTS (
+      SELECT 1 FROM memberships m
+      WHERE m.id = conversation_participants.membership_id
+        AND m.user_id = auth.uid()
+    )
+  );
+
+-- Admins can remove participants from their groups
+CREATE POLICY "Group admins can remove participants"
+  ON conversation_participants FOR DELETE
+  USING (is_group_conversation_admin(conversation_id));
+
+-- ----------------------------------------------------------------------------
+-- Participant Triggers
+-- ----------------------------------------------------------------------------
+
+-- Only admins change roles, and an admin updating someone else's row can only
+-- change its role (read state and mute settings belong to the participant).
+CREATE OR REPLACE FUNCTION enforce_conversation_participant_update_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  IF NEW.conversation_id <> OLD.conversation_id OR NEW.membership_id <> OLD.membership_id THEN
+    RAISE EXCEPTION 'Participants cannot be moved';
+  END IF;
+
+  -- Service-role updates and the admin hand-off below are not limited
+  IF auth.uid() IS NULL OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    AND NOT is_group_conversation_admin(OLD.conversation_id) THEN
+    RAISE EXCEPTION 'Only conversation admins can change roles';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE id = OLD.membership_id AND user_id = auth.uid()
+  ) THEN
+    v_role := NEW.role;
+    NEW := OLD;
+    NEW.role := v_role;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_conversation_participants_update_rules
+  BEFORE UPDATE ON conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_conversation_participant_update_rules();
+
+-- A group always keeps an admin while it has participants
+CREATE OR REPLACE FUNCTION ensure_group_conversation_admin()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT is_group_conversation(OLD.conversation_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM conversation_participants
+    WHERE conversation_id = OLD.conversation_id AND role = 'admin'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE conversation_participants
+  SET role = 'admin'
+  WHERE id = (
+    SELECT id FROM conversation_participants
+    WHERE conversation_id = OLD.conversation_id
+    ORDER BY created_at, id
+    LIMIT 1
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER ensure_conversation_participants_admin
+  AFTER DELETE OR UPDATE OF role ON conversation_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION ensure_group_conversation_admin();
+
+-- ----------------------------------------------------------------------------
+-- Direct Conversations
+-- ----------------------------------------------------------------------------
+
+-- Same contract as before; the lookup now goes through direct_key, and the
+-- unique index makes concurrent calls for the same pair return one
+-- conversation.
+CREATE OR REPLACE FUNCTION get_or_create_direct_conversation(
+  p_tenant_id UUID,
+  p_other_membership_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+  v_membership_id UUID;
+  v_direct_key TEXT;
+  v_conversation_id UUID;
+BEGIN
+  v_membership_id := get_user_membership(p_tenant_id);
+
+  IF v_membership_id IS NULL THEN
+    RAISE EXCEPTION 'Not an active member of this tenant';
+  END IF;
+
+  IF p_other_membership_id = v_membership_id THEN
+    RAISE EXCEPTION 'Cannot start a direct conversation with yourself';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE id = p_other_membership_id
+      AND tenant_id = p_tenant_id
+      AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Recipient is not an active member of this tenant';
+  END IF;
+
+  v_direct_key := LEAST(v_membership_id::TEXT, p_other_membership_id::TEXT)
+    || ':' || GREATEST(v_membership_id::TEXT, p_other_membership_id::TEXT);
+
+  SELECT id INTO v_conversation_id
+  FROM conversations
+  WHERE tenant_id = p_tenant_id AND direct_key = v_direct_key;
+
+  IF v_conversation_id IS NOT NULL THEN
+    RETURN v_conversation_id;
+  END IF;
+
+  INSERT INTO conversations (tenant_id, type, direct_key)
+  VALUES (p_tenant_id, 'direct', v_direct_key)
+  ON CONFLICT (tenant_id, direct_key) WHERE direct_key IS NOT NULL DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  -- Another call created the conversation first
+  IF v_conversation_id IS NULL THEN
+    SELECT id INTO v_conversation_id
+    FROM conversations
+    WHERE tenant_id = p_tenant_id AND direct_key = v_direct_key;
+
+    RETURN v_conversation_id;
+  END IF;
+
+  INSERT INTO conversation_participants (conversation_id, membership_id)
+  VALUES
+    (v_conversation_id, v_membership_id),
+    (v_conversation_id, p_other_membership_id);
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ----------------------------------------------------------------------------
+-- Group Conversations
+-- ----------------------------------------------------------------------------
+
+-- Create a group conversation with the current member as its admin. Like a
+-- direct conversation, it isn't readable by its creator until the participant
+-- rows exist, so creation happens in one step.
+CREATE OR REPLACE FUNCTION create_group_conversation(
+  p_tenant_id UUID,
+  p_name TEXT,
+  p_membership_ids UUID[]
+)
+RETURNS UUID AS $$
+DECLARE
+  v_membership_id UUID;
+  v_name TEXT;
+  v_member_ids UUID[];
+  v_conversation_id UUID;
+BEGIN
+  v_membership_id := get_user_membership(p_tenant_id);
+
+  IF v_membership_id IS NULL THEN
+    RAISE EXCEPTION 'Not an active member of this tenant';
+  END IF;
+
+  v_name := NULLIF(btrim(p_name), '');
+
+  IF char_length(v_name) > 100 THEN
+    RAISE EXCEPTION 'Conversation name must be at most 100 characters';
+  END IF;
+
+  v_member_ids := ARRAY(
+    SELECT DISTINCT member_id
+    FROM unnest(p_membership_ids) AS member_id
+    WHERE member_id IS NOT NULL AND member_id <> v_membership_id
+  );
+
+  IF cardinality(v_member_ids) = 0 THEN
+    RAISE EXCEPTION 'A group conversation needs at least one other member';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_member_ids) AS member_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM memberships
+      WHERE id = member_id
+        AND tenant_id = p_tenant_id
+        AND status = 'active'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Participants must be active members of this tenant';
+  END IF;
+
+  INSERT INTO conversations (tenant_id, type, name, is_group)
+  VALUES (p_tenant_id, 'direct', v_name, TRUE)
+  RETURNING id INTO v_conversation_id;
+
+  INSERT INTO conversation_participants (conversation_id, membership_id, role)
+  VALUES (v_conversation_id, v_membership_id, 'admin');
+
+  INSERT INTO conversation_participants (conversation_id, membership_id, role)
+  SELECT v_conversation_id, member_id, 'member'
+  FROM unnest(v_member_ids) AS member_id;
+
+  RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION create_group_conversation(UUID, TEXT, UUID[]) TO authenticated;
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- Conversation Pin and Archive
+-- ============================================================================
+-- Adds per-participant pinned_at and archived_at to conversation_participants
+-- so each member orders their own chat list: pinned conversations sit at the
+-- top (most recently pinned first) and archived ones move to an "Archived"
+-- section without leaving the conversation. Both are plain participant
+-- settings, written through the existing "update own row" policy.
+--
+-- Archived conversations come back to the main list when the member is
+-- mentioned in them. A trigger on mentions clears archived_at for the
+-- mentioned member, or for every matching participant on @all and
+-- @leaders, so the sender doesn't need write access to other members' rows.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE conversation_participants
+ADD COLUMN pinned_at TIMESTAMPTZ,
+ADD COLUMN archived_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN conversation_participants.pinned_at IS 'When the participant pinned the conversation to the top of their list; NULL when not pinned';
+COMMENT ON COLUMN conversation_participants.archived_at IS 'When the participant archived the conversation; NULL when shown in the main list';
+
+-- ----------------------------------------------------------------------------
+-- Unarchive on Mention
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION unarchive_conversation_on_mention()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  SELECT conversation_id INTO v_conversation_id
+  FROM messages
+  WHERE id = NEW.message_id;
+
+  UPDATE conversation_participants cp
+  SET archived_at = NULL
+  FROM memberships m
+  WHERE cp.conversation_id = v_conversation_id
+    AND cp.archived_at IS NOT NULL
+    AND m.id = cp.membership_id
+    AND (
+      (NEW.mention_type = 'member' AND cp.membership_id = NEW.membership_id)
+      OR NEW.mention_type = 'all'
+      OR (
+        NEW.mention_type = 'leaders'
+        AND m.role IN ('small_group_leader', 'zone_leader', 'pastor', 'admin')
+      )
+    )
+    -- Members excluded from an Event Chat message don't learn about it
+    AND NOT EXISTS (
+      SELECT 1 FROM event_chat_exclusions ece
+      WHERE ece.message_id = NEW.message_id
+        AND ece.excluded_membership_id = cp.membership_id
+    );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER unarchive_conversation_on_mention
+  AFTER INSERT ON mentions
+  FOR EACH ROW
+  EXECUTE FUNCTION unarchive_conversation_on_mention();
@@ -0,0 +1,140 @@
+-- ============================================================================
+-- Message Forwarding
+-- ============================================================================
+-- Lets members forward a message, with its attachments, to other
+-- conversations. A forwarded message is a new message from the forwarder
+-- that keeps an "originally from" reference:
+--   - forwarded_from_message_id: the message it was forwarded from
+--   - forwarded_from_sender_id: the original author, carried through when a
+--     forwarded message is forwarded again
+-- Both are filled in by a trigger from a message the forwarder can see, so a
+-- client can't attribute a forward to someone who never wrote it.
+--
+-- forward_message() runs under the caller's RLS: the source message and its
+-- attachments must be visible to them, and every message and attachment row
+-- it inserts goes through the usual INSERT policies of the target
+-- conversation. Attachments are re-linked by copying their rows to the new
+-- message; the stored file isn't uploaded again.
+--
+-- Event Chat messages, polls and system messages can't be forwarded.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE messages
+ADD COLUMN forwarded_from_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+ADD COLUMN forwarded_from_sender_id UUID REFERENCES memberships(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN messages.forwarded_from_message_id IS 'Message this one was forwarded from; NULL for original messages or once the source is deleted';
+COMMENT ON COLUMN messages.forwarded_from_sender_id IS 'Author of the original message for forwarded messages';
+
+CREATE INDEX idx_messages_forwarded_from_message_id
+  ON messages(forwarded_from_message_id)
+  WHERE forwarded_from_message_id IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Forward Reference
+-- ----------------------------------------------------------------------------
+
+-- Fills the original author from the source message. Runs with the caller's
+-- rights, so a source message hidden from them by RLS is rejected.
+CREATE OR REPLACE FUNCTION set_message_forwarded_from()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_source messages%ROWTYPE;
+BEGIN
+  IF NEW.forwarded_from_message_id IS NULL THEN
+    NEW.forwarded_from_sender_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_source
+  FROM messages
+  WHERE id = NEW.forwarded_from_message_id
+    AND tenant_id = NEW.tenant_id
+    AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF v_source.is_event_chat OR v_source.content_type IN ('poll', 'system') THEN
+    RAISE EXCEPTION 'This message cannot be forwarded';
+  END IF;
+
+  NEW.forwarded_from_sender_id := COALESCE(v_source.forwarded_from_sender_id, v_source.sender_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_messages_forwarded_from
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_forwarded_from();
+
+-- ----------------------------------------------------------------------------
+-- Forwarding
+-- ----------------------------------------------------------------------------
+
+-- Forwards a message to up to 10 conversations in one transaction and
+-- returns the new message IDs in the order of p_conversation_ids.
+CREATE OR REPLACE FUNCTION forward_message(
+  p_message_id UUID,
+  p_conversation_ids UUID[]
+)
+RETURNS UUID[] AS $$
+DECLARE
+  v_source messages%ROWTYPE;
+  v_conversation_id UUID;
+  v_message_id UUID;
+  v_message_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  IF COALESCE(array_length(p_conversation_ids, 1), 0) NOT BETWEEN 1 AND 10 THEN
+    RAISE EXCEPTION 'Forward to between 1 and 10 conversations';
+  END IF;
+
+  SELECT * INTO v_source
+  FROM messages
+  WHERE id = p_message_id AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  FOREACH v_conversation_id IN ARRAY p_conversation_ids LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM conversations
+      WHERE id = v_conversation_id AND tenant_id = v_source.tenant_id
+    ) THEN
+      RAISE EXCEPTION 'Conversation not found';
+    END IF;
+
+    INSERT INTO messages (
+      tenant_id, conversation_id, sender_id, content, content_type, forwarded_from_message_id
+    )
+    VALUES (
+      v_source.tenant_id,
+      v_conversation_id,
+      get_user_membership(v_source.tenant_id),
+      v_source.content,
+      v_source.content_type,
+      v_source.id
+    )
+    RETURNING id INTO v_message_id;
+
+    INSERT INTO attachments (tenant_id, message_id, url, file_name, file_type, file_size)
+    SELECT tenant_id, v_message_id, url, file_name, file_type, file_size
+    FROM attachments
+    WHERE message_id = v_source.id
+    ORDER BY created_at;
+
+    v_message_ids := v_message_ids || v_message_id;
+  END LOOP;
+
+  RETURN v_message_ids;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION forward_message(UUID, UUID[]) TO authenticated;
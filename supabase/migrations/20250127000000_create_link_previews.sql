@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Link Previews
+-- ============================================================================
+-- Cache of OpenGraph metadata for URLs shared in chat messages, filled by the
+-- fetch-link-preview Edge Function. Rows are keyed by the normalized URL and
+-- shared across tenants, since a preview only holds what the public page
+-- itself shows.
+--
+-- RLS is enabled without policies: only the Edge Function (service role)
+-- reads and writes the cache, and members get a preview only for a URL they
+-- send it, so the cache can't be used to list what other churches share.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Table
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE link_previews (
+  url TEXT PRIMARY KEY,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'failed')),
+  final_url TEXT,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  site_name TEXT,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE link_previews IS 'OpenGraph metadata cache for URLs in chat messages, written by fetch-link-preview';
+COMMENT ON COLUMN link_previews.status IS 'failed rows are kept briefly so unreachable pages are not fetched on every render';
+COMMENT ON COLUMN link_previews.final_url IS 'URL after redirects';
+
+-- ----------------------------------------------------------------------------
+-- RLS
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
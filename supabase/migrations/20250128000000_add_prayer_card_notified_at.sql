@@ -0,0 +1,48 @@
+-- ============================================================================
+-- Prayer Card Notification Guard
+-- ============================================================================
+-- handle-prayer-card-created sets prayer_cards.notified_at before it sends
+-- the new-card pushes and skips cards that already have it, so a card is
+-- announced at most once however often the function is called.
+--
+-- Authors can update their own cards, so a trigger keeps notified_at as it
+-- was for member updates; only the service role (auth.uid() IS NULL) sets it.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE prayer_cards ADD COLUMN notified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN prayer_cards.notified_at IS 'When the new-card notification was sent; set once by handle-prayer-card-created';
+
+-- Cards created before this migration have already been announced
+UPDATE prayer_cards SET notified_at = created_at;
+
+-- ----------------------------------------------------------------------------
+-- Trigger
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION protect_prayer_card_notified_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Service-role writes are not limited
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.notified_at := NULL;
+  ELSE
+    NEW.notified_at := OLD.notified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_prayer_cards_notified_at
+  BEFORE INSERT OR UPDATE ON prayer_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_prayer_card_notified_at();
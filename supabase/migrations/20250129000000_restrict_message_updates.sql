@@ -0,0 +1,68 @@
+-- ============================================================================
+-- Restrict Member Message Updates
+-- ============================================================================
+-- The "Users can delete own messages" policy lets senders UPDATE their own
+-- rows, and enforce_message_edit_rules() only looked at updates that touched
+-- content or deleted_at. A sender could move created_at forward to reopen
+-- the edit window, or clear deleted_at to bring a tombstone back.
+--
+-- For member updates the trigger now keeps every column except content (on
+-- text messages) and deleted_at as it was, and refuses to clear deleted_at.
+-- Service-role updates (auth.uid() IS NULL) are not limited.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_message_edit_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_content TEXT;
+  v_deleted_at TIMESTAMPTZ;
+  v_is_edit BOOLEAN;
+  v_is_delete BOOLEAN;
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN
+      RAISE EXCEPTION 'Deleted messages cannot be restored';
+    END IF;
+
+    -- Members can only edit text and delete; everything else stays as it was
+    v_content := NEW.content;
+    v_deleted_at := NEW.deleted_at;
+    NEW := OLD;
+    NEW.deleted_at := COALESCE(OLD.deleted_at, v_deleted_at);
+    IF OLD.content_type = 'text' THEN
+      NEW.content := v_content;
+    END IF;
+  END IF;
+
+  v_is_delete := OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL;
+  v_is_edit := NOT v_is_delete
+    AND OLD.content_type = 'text'
+    AND NEW.content IS DISTINCT FROM OLD.content;
+
+  IF NOT v_is_delete AND NOT v_is_edit THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message has been deleted';
+  END IF;
+
+  -- Service-role updates (auth.uid() IS NULL) are not limited by the window
+  IF auth.uid() IS NOT NULL
+    AND OLD.created_at + get_message_edit_window(OLD.tenant_id) < NOW() THEN
+    RAISE EXCEPTION 'Message can no longer be changed';
+  END IF;
+
+  IF v_is_delete THEN
+    NEW.content := NULL;
+    NEW.edited_at := OLD.edited_at;
+    DELETE FROM message_reactions WHERE message_id = OLD.id;
+  ELSE
+    INSERT INTO message_edits (tenant_id, message_id, edited_by, previous_content)
+    VALUES (OLD.tenant_id, OLD.id, get_user_membership(OLD.tenant_id), OLD.content);
+    NEW.edited_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
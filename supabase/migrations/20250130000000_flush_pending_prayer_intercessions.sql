@@ -0,0 +1,97 @@
+-- ============================================================================
+-- Flush Pending Prayer Intercessions
+-- ============================================================================
+-- handle-prayer-intercession holds intercessions recorded within 30 minutes
+-- of the author's last push for the next batch, but nothing sent that batch
+-- unless someone else prayed afterwards. A pg_cron job now calls the function
+-- every five minutes in flush mode, which sends every card whose batch window
+-- has passed.
+--
+-- Members could also write notified_at through the "Users can update own
+-- prayer card intercessions" policy, hiding an intercession from the author
+-- or marking it pending again at will. A trigger now sets it for member
+-- writes: NULL when a member prays (a new row or a new prayed_at), otherwise
+-- unchanged. Only the service role (auth.uid() IS NULL) stamps it.
+--
+-- The cron job reads the project URL and service role key from Vault. Create
+-- them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service-role-key>', 'service_role_key');
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- ----------------------------------------------------------------------------
+-- Functions
+-- ----------------------------------------------------------------------------
+
+-- Call an Edge Function with the service role key (used by cron jobs)
+CREATE OR REPLACE FUNCTION invoke_edge_function(p_function_name TEXT, p_body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_role_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RAISE EXCEPTION 'Vault secrets project_url and service_role_key are required';
+  END IF;
+
+  RETURN net.http_post(
+    url := v_project_url || '/functions/v1/' || p_function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    ),
+    body := p_body
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION protect_prayer_card_intercession_notified_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Service-role writes are not limited
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.prayed_at IS DISTINCT FROM OLD.prayed_at THEN
+    -- A new prayer is pending until the author's next push
+    NEW.notified_at := NULL;
+  ELSE
+    NEW.notified_at := OLD.notified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- ----------------------------------------------------------------------------
+-- Trigger
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER protect_prayer_card_intercessions_notified_at
+  BEFORE INSERT OR UPDATE ON prayer_card_intercessions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_prayer_card_intercession_notified_at();
+
+-- ----------------------------------------------------------------------------
+-- Schedule
+-- ----------------------------------------------------------------------------
+
+SELECT cron.schedule(
+  'flush-prayer-intercessions',
+  '*/5 * * * *',
+  $$SELECT invoke_edge_function('handle-prayer-intercession', '{"flush_pending": true}'::jsonb)$$
+);
@@ -0,0 +1,115 @@
+-- ============================================================================
+-- Scheduled Message Publishing Schedule
+-- ============================================================================
+-- publish-scheduled-messages was meant to run every minute, but no schedule
+-- called it. A pg_cron job now does, through invoke_edge_function() (see
+-- 20250130000000_flush_pending_prayer_intercessions.sql for the Vault
+-- secrets it needs).
+--
+-- A run that dies after claiming rows left them in 'sending' for good.
+-- Claims now record claimed_at, and rows still 'sending' after the claim
+-- timeout are claimed again by the next run. To make that safe, a claimed
+-- row is posted and marked 'sent' in one transaction by
+-- publish_scheduled_message(), so a row that is still 'sending' was never
+-- posted.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE scheduled_messages ADD COLUMN claimed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN scheduled_messages.claimed_at IS 'When the scheduler last claimed the row; stale claims are retried';
+
+-- Rows already stuck in 'sending' are retried on the first run
+UPDATE scheduled_messages SET claimed_at = updated_at WHERE status = 'sending';
+
+CREATE INDEX idx_scheduled_messages_claimed
+  ON scheduled_messages(claimed_at) WHERE status = 'sending';
+
+-- ----------------------------------------------------------------------------
+-- Scheduler
+-- ----------------------------------------------------------------------------
+
+DROP FUNCTION IF EXISTS claim_due_scheduled_messages(INT);
+
+-- Claim due messages for publishing. Claimed rows move to 'sending', so edits,
+-- cancels, and overlapping scheduler runs can't touch them. Rows left in
+-- 'sending' longer than p_claim_timeout are claimed again. Rows whose author
+-- can't post in the conversation anymore come back as 'failed' instead.
+CREATE OR REPLACE FUNCTION claim_due_scheduled_messages(
+  p_limit INT DEFAULT 100,
+  p_claim_timeout INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF scheduled_messages AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id FROM scheduled_messages
+    WHERE (status = 'pending' AND scheduled_for <= NOW())
+      OR (status = 'sending' AND claimed_at < NOW() - p_claim_timeout)
+    ORDER BY scheduled_for
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE scheduled_messages sm
+  SET
+    status = CASE
+      WHEN can_post_in_conversation(sm.sender_id, sm.conversation_id) THEN 'sending'
+      ELSE 'failed'
+    END,
+    error = CASE
+      WHEN can_post_in_conversation(sm.sender_id, sm.conversation_id) THEN NULL
+      ELSE 'sender_cannot_post'
+    END,
+    claimed_at = NOW()
+  FROM due
+  WHERE sm.id = due.id
+  RETURNING sm.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Post a claimed message as its author and mark it sent in one transaction
+CREATE OR REPLACE FUNCTION publish_scheduled_message(p_scheduled_message_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_row scheduled_messages%ROWTYPE;
+  v_message_id UUID;
+BEGIN
+  SELECT * INTO v_row
+  FROM scheduled_messages
+  WHERE id = p_scheduled_message_id AND status = 'sending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scheduled message is not claimed';
+  END IF;
+
+  INSERT INTO messages (tenant_id, conversation_id, sender_id, content, content_type)
+  VALUES (v_row.tenant_id, v_row.conversation_id, v_row.sender_id, v_row.content, 'text')
+  RETURNING id INTO v_message_id;
+
+  UPDATE scheduled_messages
+  SET status = 'sent', message_id = v_message_id, sent_at = NOW()
+  WHERE id = v_row.id;
+
+  RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler (service role) claims and publishes messages
+REVOKE EXECUTE ON FUNCTION claim_due_scheduled_messages(INT, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_scheduled_messages(INT, INTERVAL) TO service_role;
+REVOKE EXECUTE ON FUNCTION publish_scheduled_message(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_scheduled_message(UUID) TO service_role;
+
+-- ----------------------------------------------------------------------------
+-- Schedule
+-- ----------------------------------------------------------------------------
+
+SELECT cron.schedule(
+  'publish-scheduled-messages',
+  '* * * * *',
+  $$SELECT invoke_edge_function('publish-scheduled-messages')$$
+);
@@ -0,0 +1,79 @@
+-- ============================================================================
+-- Send Message Function
+-- ============================================================================
+-- The outbox inserted a message, then its Event Chat exclusions and mentions
+-- in separate requests. The messages webhook (handle-message-sent) could run
+-- before the mentions or exclusions existed, so mentioned members weren't
+-- told and excluded members were, and failures on the later inserts were
+-- only logged on the device.
+--
+-- send_message() inserts all three in one transaction, as the calling member
+-- (SECURITY INVOKER, so the usual policies apply). Retries reuse the
+-- client-generated message ID; a unique violation means an earlier attempt
+-- already committed the whole message.
+--
+-- Event Chat exclusions could only be created by admins. Senders can now add
+-- exclusions to their own messages.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Policies
+-- ----------------------------------------------------------------------------
+
+CREATE POLICY "Senders can create event chat exclusions"
+  ON event_chat_exclusions FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM messages msg
+      WHERE msg.id = message_id
+        AND msg.sender_id = get_user_membership(msg.tenant_id)
+    )
+  );
+
+-- ----------------------------------------------------------------------------
+-- Functions
+-- ----------------------------------------------------------------------------
+
+-- Insert a message with its Event Chat exclusions and mentions.
+-- p_mentions is a JSON array of { membership_id, mention_type } objects.
+CREATE OR REPLACE FUNCTION send_message(
+  p_message_id UUID,
+  p_tenant_id UUID,
+  p_conversation_id UUID,
+  p_sender_id UUID,
+  p_content TEXT,
+  p_content_type TEXT DEFAULT 'text',
+  p_parent_id UUID DEFAULT NULL,
+  p_quoted_message_id UUID DEFAULT NULL,
+  p_excluded_membership_ids UUID[] DEFAULT '{}',
+  p_mentions JSONB DEFAULT '[]'::jsonb
+)
+RETURNS UUID AS $$
+BEGIN
+  INSERT INTO messages (
+    id, tenant_id, conversation_id, sender_id, parent_id,
+    content, content_type, is_event_chat, quoted_message_id
+  )
+  VALUES (
+    p_message_id, p_tenant_id, p_conversation_id, p_sender_id, p_parent_id,
+    p_content, p_content_type, COALESCE(cardinality(p_excluded_membership_ids), 0) > 0,
+    p_quoted_message_id
+  );
+
+  INSERT INTO event_chat_exclusions (message_id, excluded_membership_id)
+  SELECT DISTINCT p_message_id, excluded_id
+  FROM unnest(COALESCE(p_excluded_membership_ids, '{}')) AS excluded_id;
+
+  INSERT INTO mentions (tenant_id, message_id, membership_id, mention_type)
+  SELECT DISTINCT
+    p_tenant_id,
+    p_message_id,
+    (mention->>'membership_id')::UUID,
+    COALESCE(mention->>'mention_type', 'member')
+  FROM jsonb_array_elements(COALESCE(p_mentions, '[]'::jsonb)) AS mention;
+
+  RETURN p_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION send_message(UUID, UUID, UUID, UUID, TEXT, TEXT, UUID, UUID, UUID[], JSONB) TO authenticated;
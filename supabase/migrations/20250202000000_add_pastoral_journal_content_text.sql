@@ -0,0 +1,66 @@
+-- ============================================================================
+-- Pastoral Journal Search Text
+-- ============================================================================
+-- Journal content is stored as structured JSON, and the search tab ran ILIKE
+-- over that raw JSON. Field names ("attendance", "prayer_requests") matched
+-- every journal, and quotes or escaped characters kept real text from
+-- matching.
+--
+-- content_text is a generated column holding only the written text (every
+-- string value in the JSON, or the content itself when it isn't JSON), the
+-- same text the app shows in results. Search and its trigram index use it
+-- instead of content.
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Functions
+-- ----------------------------------------------------------------------------
+
+-- Flatten journal content to its written text
+CREATE OR REPLACE FUNCTION journal_content_text(p_content TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_json JSONB;
+BEGIN
+  IF p_content IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  BEGIN
+    v_json := p_content::jsonb;
+  EXCEPTION WHEN others THEN
+    -- Plain text journal
+    RETURN p_content;
+  END;
+
+  IF jsonb_typeof(v_json) NOT IN ('object', 'array') THEN
+    RETURN v_json #>> '{}';
+  END IF;
+
+  RETURN COALESCE(
+    (
+      SELECT string_agg(value #>> '{}', ' ')
+      FROM jsonb_path_query(v_json, 'strict $.** ? (@.type() == "string")') AS value
+    ),
+    ''
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- ----------------------------------------------------------------------------
+-- Columns
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE pastoral_journals
+  ADD COLUMN content_text TEXT GENERATED ALWAYS AS (journal_content_text(content)) STORED;
+
+COMMENT ON COLUMN pastoral_journals.content_text IS 'Written text of content, for search';
+
+-- ----------------------------------------------------------------------------
+-- Indexes
+-- ----------------------------------------------------------------------------
+
+DROP INDEX IF EXISTS idx_pastoral_journals_content_trgm;
+
+CREATE INDEX idx_pastoral_journals_content_text_trgm
+  ON pastoral_journals USING GIN (content_text extensions.gin_trgm_ops);
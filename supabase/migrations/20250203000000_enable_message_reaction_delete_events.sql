@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Message Reaction Delete Events
+-- ============================================================================
+-- The chat screen subscribed to reaction changes with a conversation_id
+-- filter, but Realtime can't filter DELETE events and the table kept the
+-- default replica identity, so removed reactions never reached other members
+-- until the next refetch.
+--
+-- The chat screen now listens for reaction DELETE events without a filter and
+-- ignores IDs it isn't showing. REPLICA IDENTITY FULL puts the old row in the
+-- WAL, so removals carry their conversation_id where Realtime passes it on.
+-- ============================================================================
+
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
@@ -0,0 +1,13 @@
+-- ============================================================================
+-- Pinned Message Delete Events
+-- ============================================================================
+-- The pin banner subscribed to pin changes with a conversation_id filter, but
+-- Realtime can't filter DELETE events and the table kept the default replica
+-- identity, so unpins never reached other members until the next refetch.
+--
+-- The banner now listens for pin DELETE events without a filter and ignores
+-- IDs it isn't showing. REPLICA IDENTITY FULL puts the old row in the WAL, so
+-- removals carry their conversation_id where Realtime passes it on.
+-- ============================================================================
+
+ALTER TABLE pinned_messages REPLICA IDENTITY FULL;
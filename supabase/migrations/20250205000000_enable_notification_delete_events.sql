@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Notification Delete Events
+-- ============================================================================
+-- The inbox and unread badge subscribed to notification changes with a
+-- tenant_id filter, but Realtime can't filter DELETE events and the table kept
+-- the default replica identity, so deletions from another device never
+-- reached the open inbox or the badge until the next refetch.
+--
+-- Both hooks now listen for notification DELETE events without a filter and
+-- ignore other tenants' rows. REPLICA IDENTITY FULL puts the old row in the
+-- WAL, so removals carry their tenant_id where Realtime passes it on.
+-- ============================================================================
+
+ALTER TABLE notifications REPLICA IDENTITY FULL;
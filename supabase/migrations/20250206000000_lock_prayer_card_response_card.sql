@@ -0,0 +1,28 @@
+-- ============================================================================
+-- Prayer Card Response Move Guard
+-- ============================================================================
+-- Authors can update their own testimonies, but the UPDATE policy only checks
+-- authorship, so an author could repoint a testimony at a prayer card they
+-- can't see by changing prayer_card_id.
+--
+-- Testimonies only have their content edited, so a trigger rejects updates
+-- that move one to another card, tenant, or author.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enforce_prayer_card_response_update_rules()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.prayer_card_id <> OLD.prayer_card_id
+    OR NEW.tenant_id <> OLD.tenant_id
+    OR NEW.author_id <> OLD.author_id THEN
+    RAISE EXCEPTION 'Prayer card responses cannot be moved';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_prayer_card_responses_update_rules
+  BEFORE UPDATE ON prayer_card_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_prayer_card_response_update_rules();